@@ -0,0 +1,132 @@
+pragma circom 2.1.6;
+
+include "circomlib/circuits/poseidon.circom";
+include "circomlib/circuits/bitify.circom";
+
+/*
+ * PrivateLZBridge cross-chain transfer
+ *
+ * Spends a note of the bridge's tree and proves that
+ *   senderBalance = transferAmount + cctpFee + relayerFee + newSenderBalance
+ * with the recipient note holding transferAmount and the change note the
+ * rest. transferAmount and cctpFee are public, so the bridge burns exactly
+ * what left the note and the CCTP fee is paid from the shielded balance.
+ * relayer and relayerFee are public too: a transfer submitted by a relayer
+ * pays relayerFee to that address and no other (both 0 when the sender
+ * submits it).
+ * refundCommitment, a note of transferAmount re-inserted for the sender if the
+ * destination never credits the transfer, is fixed by the proof too, so whoever
+ * submits it cannot redirect the refund.
+ *
+ * Notes are commitment = Poseidon(balance, randomness). The nullifier is
+ * Poseidon(randomness, commitment): it only uses values the commitment binds,
+ * so each note has exactly one nullifier and cannot be spent twice with
+ * different secrets, and nobody without the randomness can link it to the note.
+ *
+ * Public signals: [merkleRoot, nullifier, newSenderCommitment,
+ *                  recipientCommitment, refundCommitment, transferAmount, cctpFee,
+ *                  relayer, relayerFee]
+ */
+
+// Root of the tree holding `leaf` at the path given by pathIndices (0 = left)
+template MerkleRoot(levels) {
+    signal input leaf;
+    signal input pathElements[levels];
+    signal input pathIndices[levels];
+    signal output root;
+
+    component hashers[levels];
+    signal nodes[levels + 1];
+    signal left[levels];
+    signal right[levels];
+    nodes[0] <== leaf;
+
+    for (var i = 0; i < levels; i++) {
+        pathIndices[i] * (1 - pathIndices[i]) === 0;
+
+        left[i] <== nodes[i] + pathIndices[i] * (pathElements[i] - nodes[i]);
+        right[i] <== pathElements[i] + pathIndices[i] * (nodes[i] - pathElements[i]);
+
+        hashers[i] = Poseidon(2);
+        hashers[i].inputs[0] <== left[i];
+        hashers[i].inputs[1] <== right[i];
+        nodes[i + 1] <== hashers[i].out;
+    }
+
+    root <== nodes[levels];
+}
+
+template BridgeTransfer(levels) {
+    // Public
+    signal input merkleRoot;
+    signal input nullifier;
+    signal input newSenderCommitment;
+    signal input recipientCommitment;
+    signal input refundCommitment;
+    signal input transferAmount;
+    signal input cctpFee;
+    signal input relayer;
+    signal input relayerFee;
+
+    // Private
+    signal input senderBalance;
+    signal input senderRandomness;
+    signal input newSenderRandomness;
+    signal input recipientRandomness;
+    signal input refundRandomness;
+    signal input merklePathElements[levels];
+    signal input merklePathIndices[levels];
+
+    // USDC amounts fit in 64 bits, so the change below cannot wrap around the field
+    signal newSenderBalance;
+    newSenderBalance <== senderBalance - transferAmount - cctpFee - relayerFee;
+
+    component amountBits = Num2Bits(64);
+    amountBits.in <== transferAmount;
+    component feeBits = Num2Bits(64);
+    feeBits.in <== cctpFee;
+    component relayerFeeBits = Num2Bits(64);
+    relayerFeeBits.in <== relayerFee;
+    component changeBits = Num2Bits(64);
+    changeBits.in <== newSenderBalance;
+
+    // The spent note is in the tree
+    component senderCommitment = Poseidon(2);
+    senderCommitment.inputs[0] <== senderBalance;
+    senderCommitment.inputs[1] <== senderRandomness;
+
+    component tree = MerkleRoot(levels);
+    tree.leaf <== senderCommitment.out;
+    for (var i = 0; i < levels; i++) {
+        tree.pathElements[i] <== merklePathElements[i];
+        tree.pathIndices[i] <== merklePathIndices[i];
+    }
+    tree.root === merkleRoot;
+
+    component nullifierHash = Poseidon(2);
+    nullifierHash.inputs[0] <== senderRandomness;
+    nullifierHash.inputs[1] <== senderCommitment.out;
+    nullifierHash.out === nullifier;
+
+    // Change note (inserted even when empty)
+    component changeCommitment = Poseidon(2);
+    changeCommitment.inputs[0] <== newSenderBalance;
+    changeCommitment.inputs[1] <== newSenderRandomness;
+    changeCommitment.out === newSenderCommitment;
+
+    component recipient = Poseidon(2);
+    recipient.inputs[0] <== transferAmount;
+    recipient.inputs[1] <== recipientRandomness;
+    recipient.out === recipientCommitment;
+
+    component refund = Poseidon(2);
+    refund.inputs[0] <== transferAmount;
+    refund.inputs[1] <== refundRandomness;
+    refund.out === refundCommitment;
+
+    // relayer is otherwise unconstrained; the square keeps it in the proof
+    signal relayerSquare;
+    relayerSquare <== relayer * relayer;
+}
+
+component main {public [merkleRoot, nullifier, newSenderCommitment, recipientCommitment, refundCommitment, transferAmount, cctpFee, relayer, relayerFee]} = BridgeTransfer(10);
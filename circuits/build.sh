@@ -0,0 +1,72 @@
+#!/usr/bin/env bash
+#
+# Build the PrivateLZBridge transfer circuit: wasm, Groth16 keys and the
+# Solidity verifier.
+#
+#   circuits/build.sh
+#
+# Needs circom 2 and circomlib, e.g. `npm install --no-save circom2 circomlib`
+# in the repo root, and snarkjs (a dependency of the repo).
+#
+# PTAU: powers of tau file with at least 2^14 constraints. Use one from a
+# public ceremony (e.g. powersOfTau28_hez_final_14.ptau) for deployments.
+# Without it a throwaway one is generated locally, which is only fit for
+# devnets and tests: whoever ran it could forge proofs.
+#
+# Writes webapp-layerzero/public/circuits/bridge_transfer{.wasm,_final.zkey,_vkey.json},
+# contracts/BridgeTransferVerifier.sol and circuits/bridge_transfer_setup.json,
+# which records the powers of tau ("local" when generated here) and the
+# sha256 of it, the zkey and the verifier. scripts/deploy.ts refuses to deploy
+# a verifier built from a local one.
+
+set -euo pipefail
+
+# circom2 runs under WASI and only sees the working directory, so every path
+# below is relative to the repo root
+cd "$(dirname "$0")/.."
+CIRCUIT=bridge_transfer
+OUT=webapp-layerzero/public/circuits
+BUILD=circuits/build
+rm -rf "$BUILD" && mkdir -p "$BUILD"
+trap 'rm -rf "$BUILD"' EXIT
+
+CIRCOM="${CIRCOM:-node_modules/.bin/circom2}"
+SNARKJS="${SNARKJS:-node_modules/.bin/snarkjs}"
+# Directory holding circomlib/, inside the repo
+INCLUDE="${CIRCOM_INCLUDE:-node_modules}"
+
+"$CIRCOM" "circuits/$CIRCUIT.circom" --r1cs --wasm -l "$INCLUDE" -o "$BUILD"
+"$SNARKJS" r1cs info "$BUILD/$CIRCUIT.r1cs"
+
+sha256() {
+  if command -v sha256sum > /dev/null; then sha256sum "$1"; else shasum -a 256 "$1"; fi | cut -d' ' -f1
+}
+
+PTAU="${PTAU:-}"
+PTAU_NAME="$(basename "${PTAU:-local}")"
+if [ -z "$PTAU" ]; then
+  echo "PTAU not set: generating a local powers of tau (devnets and tests only)"
+  "$SNARKJS" powersoftau new bn128 14 "$BUILD/pot_0.ptau"
+  "$SNARKJS" powersoftau contribute "$BUILD/pot_0.ptau" "$BUILD/pot_1.ptau" --name=local -e="$(head -c 32 /dev/urandom | od -An -tx1 | tr -d ' \n')"
+  "$SNARKJS" powersoftau prepare phase2 "$BUILD/pot_1.ptau" "$BUILD/pot.ptau"
+  PTAU="$BUILD/pot.ptau"
+fi
+
+"$SNARKJS" groth16 setup "$BUILD/$CIRCUIT.r1cs" "$PTAU" "$BUILD/${CIRCUIT}_0.zkey"
+"$SNARKJS" zkey contribute "$BUILD/${CIRCUIT}_0.zkey" "$OUT/${CIRCUIT}_final.zkey" --name=mixvm -e="$(head -c 32 /dev/urandom | od -An -tx1 | tr -d ' \n')"
+"$SNARKJS" zkey export verificationkey "$OUT/${CIRCUIT}_final.zkey" "$OUT/${CIRCUIT}_vkey.json"
+cp "$BUILD/${CIRCUIT}_js/$CIRCUIT.wasm" "$OUT/$CIRCUIT.wasm"
+
+"$SNARKJS" zkey export solidityverifier "$OUT/${CIRCUIT}_final.zkey" contracts/BridgeTransferVerifier.sol
+sed -i.bak 's/contract Groth16Verifier/contract BridgeTransferVerifier/' contracts/BridgeTransferVerifier.sol
+rm contracts/BridgeTransferVerifier.sol.bak
+
+cat > "circuits/${CIRCUIT}_setup.json" <<EOF
+{
+  "circuit": "$CIRCUIT",
+  "ptau": "$PTAU_NAME",
+  "ptauSha256": "$(sha256 "$PTAU")",
+  "zkeySha256": "$(sha256 "$OUT/${CIRCUIT}_final.zkey")",
+  "verifierSha256": "$(sha256 contracts/BridgeTransferVerifier.sol)"
+}
+EOF
@@ -19,7 +19,7 @@ interface ITransferVerifier {
         uint256[2] calldata _pA,
         uint256[2][2] calldata _pB,
         uint256[2] calldata _pC,
-        uint256[4] calldata _pubSignals
+        uint256[9] calldata _pubSignals
     ) external view returns (bool);
 }
 
@@ -54,7 +54,7 @@ interface ITokenMessengerV2 {
  * Flow:
  * 1. User deposits USDC → gets commitment in Merkle tree
  * 2. User initiates cross-chain transfer with ZK proof
- * 3. Commitment sent via LayerZero, USDC burned via CCTP V2 (fast transfer)
+ * 3. Commitment sent via LayerZero, USDC burned via CCTP V2 (fast or standard finality)
  * 4. Destination: LZ inserts commitment, CCTP mints USDC to contract
  * 5. Recipient can withdraw with ZK proof
  *
@@ -67,6 +67,24 @@ contract PrivateLZBridge is ILayerZeroReceiver {
     uint256 public constant MAX_TREE_SIZE = 2 ** TREE_DEPTH;
     uint256 public constant FIELD_SIZE = 21888242871839275222246405745257275088548364400416034343698204186575808495617;
     uint256 public constant ROOT_HISTORY_SIZE = 100;
+    // CCTP V2 finality thresholds: fast (confirmed) and standard (finalized)
+    uint32 public constant CCTP_FINALITY_FAST = 1000;
+    uint32 public constant CCTP_FINALITY_STANDARD = 2000;
+    uint256 public constant BPS_DENOMINATOR = 10000;
+    // Why an inbound transfer could not be credited (sent back in the failure ack)
+    uint8 public constant REFUND_INVALID_PEER = 1;
+    uint8 public constant REFUND_COMMITMENT_EXISTS = 2;
+    uint8 public constant REFUND_TREE_FULL = 3;
+    // Operations that can be paused (bits of pausedOperations)
+    uint8 public constant PAUSE_DEPOSIT = 1;
+    uint8 public constant PAUSE_TRANSFER = 2;
+    uint8 public constant PAUSE_WITHDRAW = 4;
+    uint8 public constant PAUSE_ALL = PAUSE_DEPOSIT | PAUSE_TRANSFER | PAUSE_WITHDRAW;
+    // Set in every relayerBinding, so it never equals an address withdraw() proves
+    uint256 public constant RELAYER_BINDING_TAG = 1 << 160;
+    // abi.encode(recipientCommitment, amount, grossAmount, StealthData) and abi.encode(guid, reason)
+    uint256 internal constant TRANSFER_MESSAGE_LENGTH = 256;
+    uint256 internal constant REFUND_ACK_LENGTH = 64;
 
     // ============ Immutables ============
     ILayerZeroEndpointV2 public immutable lzEndpoint;
@@ -79,6 +97,13 @@ contract PrivateLZBridge is ILayerZeroReceiver {
 
     // ============ State ============
     address public owner;
+    // May pause operations and routes; only the owner unpauses
+    address public guardian;
+
+    // Emergency stops: paused operations (PAUSE_* bits) and outbound routes (dst EID => paused).
+    // Inbound messages and refunds are never paused, so in-flight transfers still land
+    uint8 public pausedOperations;
+    mapping(uint32 => bool) public routePaused;
 
     // Merkle Tree
     mapping(uint256 => bytes32) public filledSubtrees;
@@ -101,6 +126,15 @@ contract PrivateLZBridge is ILayerZeroReceiver {
     mapping(uint32 => uint32) public cctpDomains;
     mapping(uint32 => bool) public cctpDomainSet;
 
+    // Owner bounds for the caller's CCTP parameters: finality range and the
+    // largest maxFee, in basis points of the burned amount (default 0.1%)
+    uint32 public cctpMinFinalityThreshold = CCTP_FINALITY_FAST;
+    uint32 public cctpMaxFinalityThreshold = CCTP_FINALITY_STANDARD;
+    uint256 public cctpMaxFeeBps = 10;
+
+    // Refund commitment for each sent transfer, inserted if the destination acks a failure (guid => refund)
+    mapping(bytes32 => PendingRefund) public pendingRefunds;
+
     // ============ Structs ============
     struct StealthData {
         uint256 ephemeralPubKeyX;
@@ -116,6 +150,18 @@ contract PrivateLZBridge is ILayerZeroReceiver {
         uint256[4] encryptedAmount;
     }
 
+    // Caller-selected CCTP burn parameters (ignored when the route has no CCTP)
+    struct CCTPParams {
+        uint32 minFinalityThreshold;
+        uint256 maxFee;
+    }
+
+    struct PendingRefund {
+        bytes32 refundCommitment;
+        uint256 amount;
+        uint32 dstEid;
+    }
+
     // ============ Events ============
     event Deposited(
         address indexed user,
@@ -124,10 +170,12 @@ contract PrivateLZBridge is ILayerZeroReceiver {
         uint256 leafIndex
     );
 
+    // amount is the recipient note's value (net); grossAmount adds the CCTP fee burned with it
     event CrossChainTransferInitiated(
         uint32 indexed dstEid,
         bytes32 indexed recipientCommitment,
         uint256 amount,
+        uint256 grossAmount,
         bytes32 nullifier,
         bytes32 newSenderCommitment,
         uint256 senderLeafIndex,
@@ -138,6 +186,7 @@ contract PrivateLZBridge is ILayerZeroReceiver {
         uint32 indexed srcEid,
         bytes32 indexed commitment,
         uint256 amount,
+        uint256 grossAmount,
         uint256 leafIndex
     );
 
@@ -149,9 +198,29 @@ contract PrivateLZBridge is ILayerZeroReceiver {
         uint256 newLeafIndex
     );
 
+    event RelayerFeePaid(address indexed relayer, bytes32 indexed nullifier, uint256 fee);
+
+    // Destination: an undeliverable transfer was cleared and its failure ack sent back
+    event RefundAckSent(bytes32 indexed guid, uint32 indexed srcEid, uint8 reason, uint256 amount, bool usdcReturned);
+
+    // Source: the sender's refund commitment was inserted after a failure ack
+    event TransferRefunded(
+        bytes32 indexed guid,
+        bytes32 indexed refundCommitment,
+        uint256 amount,
+        uint8 reason,
+        uint256 leafIndex
+    );
+
     event PeerSet(uint32 indexed eid, bytes32 peer);
-    event CCTPBurnInitiated(uint32 indexed dstDomain, uint256 amount, uint64 cctpNonce);
+    event CCTPBurnInitiated(uint32 indexed dstDomain, uint256 amount, uint256 maxFee, uint32 minFinalityThreshold, uint64 cctpNonce);
     event CCTPDomainSet(uint32 indexed lzEid, uint32 cctpDomain);
+    event CCTPBoundsSet(uint32 minFinalityThreshold, uint32 maxFinalityThreshold, uint256 maxFeeBps);
+    event GuardianSet(address indexed guardian);
+    event Paused(uint8 operations, uint8 pausedOperations, address indexed by);
+    event Unpaused(uint8 operations, uint8 pausedOperations, address indexed by);
+    event RoutePaused(uint32 indexed dstEid, address indexed by);
+    event RouteUnpaused(uint32 indexed dstEid, address indexed by);
 
     // ============ Modifiers ============
     modifier onlyOwner() {
@@ -159,6 +228,11 @@ contract PrivateLZBridge is ILayerZeroReceiver {
         _;
     }
 
+    modifier onlyOwnerOrGuardian() {
+        require(msg.sender == owner || msg.sender == guardian, "Not owner or guardian");
+        _;
+    }
+
     modifier onlyEndpoint() {
         require(msg.sender == address(lzEndpoint), "Not endpoint");
         _;
@@ -212,6 +286,35 @@ contract PrivateLZBridge is ILayerZeroReceiver {
         owner = _newOwner;
     }
 
+    function setGuardian(address _guardian) external onlyOwner {
+        guardian = _guardian;
+        emit GuardianSet(_guardian);
+    }
+
+    // Pause deposits, outbound transfers and/or withdrawals (PAUSE_* bits)
+    function pause(uint8 _operations) external onlyOwnerOrGuardian {
+        require(_operations != 0 && _operations & ~PAUSE_ALL == 0, "Invalid operations");
+        pausedOperations |= _operations;
+        emit Paused(_operations, pausedOperations, msg.sender);
+    }
+
+    function unpause(uint8 _operations) external onlyOwner {
+        require(_operations != 0 && _operations & ~PAUSE_ALL == 0, "Invalid operations");
+        pausedOperations &= ~_operations;
+        emit Unpaused(_operations, pausedOperations, msg.sender);
+    }
+
+    // Circuit breaker for one destination: stops outbound transfers to it (e.g. a CCTP incident)
+    function pauseRoute(uint32 _dstEid) external onlyOwnerOrGuardian {
+        routePaused[_dstEid] = true;
+        emit RoutePaused(_dstEid, msg.sender);
+    }
+
+    function unpauseRoute(uint32 _dstEid) external onlyOwner {
+        routePaused[_dstEid] = false;
+        emit RouteUnpaused(_dstEid, msg.sender);
+    }
+
     function setEnforcedOptions(uint32 _eid, bytes calldata _options) external onlyOwner {
         enforcedOptions[_eid] = _options;
     }
@@ -221,6 +324,16 @@ contract PrivateLZBridge is ILayerZeroReceiver {
         lzEndpoint.setConfig(address(this), _lib, _params);
     }
 
+    // Recover an inbound message that lzReceive cannot execute (the bridge is its own delegate).
+    // skip: the next unverified nonce from a sender; clear: a verified message, dropped unexecuted
+    function skipInboundNonce(uint32 _srcEid, bytes32 _sender, uint64 _nonce) external onlyOwner {
+        lzEndpoint.skip(address(this), _srcEid, _sender, _nonce);
+    }
+
+    function clearInboundMessage(Origin calldata _origin, bytes32 _guid, bytes calldata _message) external onlyOwner {
+        lzEndpoint.clear(address(this), _origin, _guid, _message);
+    }
+
     // Set CCTP domain for a LayerZero EID (e.g., LZ EID 40161 -> CCTP domain 0 for Eth Sepolia)
     function setCCTPDomain(uint32 _lzEid, uint32 _cctpDomain) external onlyOwner {
         cctpDomains[_lzEid] = _cctpDomain;
@@ -228,6 +341,35 @@ contract PrivateLZBridge is ILayerZeroReceiver {
         emit CCTPDomainSet(_lzEid, _cctpDomain);
     }
 
+    // Bound the CCTP parameters callers may pick (e.g. min = max = 2000 disables fast transfers)
+    function setCCTPBounds(
+        uint32 _minFinalityThreshold,
+        uint32 _maxFinalityThreshold,
+        uint256 _maxFeeBps
+    ) external onlyOwner {
+        require(_minFinalityThreshold <= _maxFinalityThreshold, "Invalid finality bounds");
+        require(_maxFeeBps < BPS_DENOMINATOR, "Invalid max fee");
+        cctpMinFinalityThreshold = _minFinalityThreshold;
+        cctpMaxFinalityThreshold = _maxFinalityThreshold;
+        cctpMaxFeeBps = _maxFeeBps;
+        emit CCTPBoundsSet(_minFinalityThreshold, _maxFinalityThreshold, _maxFeeBps);
+    }
+
+    /**
+     * @notice Largest CCTP fee a transfer of `amount` to `dstEid` may pay on top of `amount`
+     * @dev The burn is amount + fee with maxFee = fee, so at least `amount` is
+     * minted to the destination pool. The result is the smallest fee with
+     * fee * BPS_DENOMINATOR >= (amount + fee) * cctpMaxFeeBps, i.e. cctpMaxFeeBps
+     * of the burn. Zero when CCTP is not used.
+     */
+    function cctpFeeFor(uint32 dstEid, uint256 amount) public view returns (uint256) {
+        if (address(cctpMessenger) == address(0) || !cctpDomainSet[dstEid]) {
+            return 0;
+        }
+        uint256 denominator = BPS_DENOMINATOR - cctpMaxFeeBps;
+        return (amount * cctpMaxFeeBps + denominator - 1) / denominator;
+    }
+
     function _buildOptions(uint32 _eid, bytes calldata _extraOptions) internal view returns (bytes memory) {
         bytes memory enforced = enforcedOptions[_eid];
 
@@ -254,6 +396,7 @@ contract PrivateLZBridge is ILayerZeroReceiver {
 
     // ============ Deposit ============
     function deposit(uint256 amount, bytes32 commitment) external {
+        require(pausedOperations & PAUSE_DEPOSIT == 0, "Deposits paused");
         require(amount > 0, "Amount must be > 0");
         require(commitment != bytes32(0), "Invalid commitment");
         require(!commitmentExists[commitment], "Commitment exists");
@@ -274,15 +417,114 @@ contract PrivateLZBridge is ILayerZeroReceiver {
         uint256 amount,
         bytes32 nullifier,
         bytes32 newSenderCommitment,
+        bytes32 refundCommitment,
         bytes32 merkleRoot,
         uint256[8] calldata proof,
         StealthData calldata stealthData,
         AuditData calldata auditData,
+        CCTPParams calldata cctpParams,
         bytes calldata options
     ) external payable returns (bytes32 guid) {
+        return _initiateTransfer(
+            address(0),
+            0,
+            dstEid,
+            recipientCommitment,
+            amount,
+            nullifier,
+            newSenderCommitment,
+            refundCommitment,
+            merkleRoot,
+            proof,
+            stealthData,
+            auditData,
+            cctpParams,
+            options
+        );
+    }
+
+    /**
+     * @notice Transfer submitted by a relayer, who pays the LayerZero fee and
+     * is paid `relayerFee` out of the sender's note
+     * @dev relayer and relayerFee are public inputs of the proof, so neither can
+     * be changed without invalidating it. Anyone may submit it; the fee always
+     * goes to `relayer`.
+     */
+    function initiateTransferViaRelayer(
+        address relayer,
+        uint256 relayerFee,
+        uint32 dstEid,
+        bytes32 recipientCommitment,
+        uint256 amount,
+        bytes32 nullifier,
+        bytes32 newSenderCommitment,
+        bytes32 refundCommitment,
+        bytes32 merkleRoot,
+        uint256[8] calldata proof,
+        StealthData calldata stealthData,
+        AuditData calldata auditData,
+        CCTPParams calldata cctpParams,
+        bytes calldata options
+    ) external payable returns (bytes32 guid) {
+        require(relayer != address(0), "Invalid relayer");
+        guid = _initiateTransfer(
+            relayer,
+            relayerFee,
+            dstEid,
+            recipientCommitment,
+            amount,
+            nullifier,
+            newSenderCommitment,
+            refundCommitment,
+            merkleRoot,
+            proof,
+            stealthData,
+            auditData,
+            cctpParams,
+            options
+        );
+        if (relayerFee > 0) {
+            require(usdc.transfer(relayer, relayerFee), "Transfer failed");
+        }
+        emit RelayerFeePaid(relayer, nullifier, relayerFee);
+    }
+
+    // Checks, proof verification, LayerZero send and CCTP burn shared by both transfers
+    function _initiateTransfer(
+        address relayer,
+        uint256 relayerFee,
+        uint32 dstEid,
+        bytes32 recipientCommitment,
+        uint256 amount,
+        bytes32 nullifier,
+        bytes32 newSenderCommitment,
+        bytes32 refundCommitment,
+        bytes32 merkleRoot,
+        uint256[8] calldata proof,
+        StealthData calldata stealthData,
+        AuditData calldata auditData,
+        CCTPParams calldata cctpParams,
+        bytes calldata options
+    ) internal returns (bytes32 guid) {
+        require(pausedOperations & PAUSE_TRANSFER == 0, "Transfers paused");
+        require(!routePaused[dstEid], "Route paused");
         require(amount > 0, "Amount must be > 0");
+        // The proof takes amount + cctpFee out of the sender's note, so the whole
+        // burn is paid from the shielded balance
+        bool useCctp = address(cctpMessenger) != address(0) && cctpDomainSet[dstEid];
+        uint256 cctpFee = cctpParams.maxFee;
+        require(cctpFee <= cctpFeeFor(dstEid, amount), "CCTP fee too high");
+        if (useCctp) {
+            require(
+                cctpParams.minFinalityThreshold >= cctpMinFinalityThreshold &&
+                    cctpParams.minFinalityThreshold <= cctpMaxFinalityThreshold,
+                "CCTP finality out of bounds"
+            );
+        }
+        uint256 grossAmount = amount + cctpFee;
         require(!nullifiers[nullifier], "Nullifier already used");
         require(recipientCommitment != bytes32(0), "Invalid recipient commitment");
+        require(refundCommitment != bytes32(0), "Invalid refund commitment");
         require(peers[dstEid] != bytes32(0), "Peer not set");
         require(isKnownRoot(merkleRoot), "Unknown merkle root");
 
@@ -291,12 +533,18 @@ contract PrivateLZBridge is ILayerZeroReceiver {
             uint256[2] memory pA = [proof[0], proof[1]];
             uint256[2][2] memory pB = [[proof[2], proof[3]], [proof[4], proof[5]]];
             uint256[2] memory pC = [proof[6], proof[7]];
-            // Transfer circuit public signals: [merkleRoot, nullifier, newSenderCommitment, recipientCommitment]
-            uint256[4] memory pubSignals = [
+            // Transfer circuit public signals: [merkleRoot, nullifier, newSenderCommitment,
+            // recipientCommitment, refundCommitment, amount, cctpFee, relayer, relayerFee]
+            uint256[9] memory pubSignals = [
                 uint256(merkleRoot),
                 uint256(nullifier),
                 uint256(newSenderCommitment),
-                uint256(recipientCommitment)
+                uint256(recipientCommitment),
+                uint256(refundCommitment),
+                amount,
+                cctpFee,
+                uint256(uint160(relayer)),
+                relayerFee
             ];
             require(transferVerifier.verifyProof(pA, pB, pC, pubSignals), "Invalid transfer proof");
         }
@@ -312,6 +560,7 @@ contract PrivateLZBridge is ILayerZeroReceiver {
         bytes memory payload = abi.encode(
             recipientCommitment,
             amount,
+            grossAmount,
             stealthData
         );
 
@@ -334,30 +583,33 @@ contract PrivateLZBridge is ILayerZeroReceiver {
         );
 
         guid = receipt.guid;
+        // The proof fixes the refund note to the sender's refundCommitment
+        pendingRefunds[guid] = PendingRefund(refundCommitment, amount, dstEid);
 
-        // Burn USDC via CCTP V2 (fast transfer) to destination contract
-        if (address(cctpMessenger) != address(0) && cctpDomainSet[dstEid]) {
+        // Burn USDC via CCTP V2 to destination contract
+        if (useCctp) {
             uint32 destCctpDomain = cctpDomains[dstEid];
             // mintRecipient = destination chain's PrivateLZBridge (same format as LZ peer)
             bytes32 mintRecipient = peers[dstEid];
 
             cctpMessenger.depositForBurn(
-                amount,
+                grossAmount,
                 destCctpDomain,
                 mintRecipient,
                 address(usdc),
                 bytes32(0),     // anyone can relay
-                amount / 1000,  // maxFee: 0.1% (for fast transfer fee)
-                1000            // minFinalityThreshold: FAST TRANSFER
+                cctpFee,        // maxFee: 0 for standard transfers
+                cctpParams.minFinalityThreshold
             );
 
-            emit CCTPBurnInitiated(destCctpDomain, amount, 0);
+            emit CCTPBurnInitiated(destCctpDomain, grossAmount, cctpFee, cctpParams.minFinalityThreshold, 0);
         }
 
         emit CrossChainTransferInitiated(
             dstEid,
             recipientCommitment,
             amount,
+            grossAmount,
             nullifier,
             newSenderCommitment,
             senderLeafIndex,
@@ -376,12 +628,18 @@ contract PrivateLZBridge is ILayerZeroReceiver {
         // Verify sender is our peer
         require(peers[_origin.srcEid] == _origin.sender, "Invalid peer");
 
+        if (_message.length == REFUND_ACK_LENGTH) {
+            _receiveRefundAck(_origin.srcEid, _message);
+            return;
+        }
+
         // Decode message
         (
             bytes32 recipientCommitment,
             uint256 amount,
+            uint256 grossAmount,
             StealthData memory stealthData
-        ) = abi.decode(_message, (bytes32, uint256, StealthData));
+        ) = abi.decode(_message, (bytes32, uint256, uint256, StealthData));
 
         // Insert commitment
         require(!commitmentExists[recipientCommitment], "Commitment exists");
@@ -392,10 +650,114 @@ contract PrivateLZBridge is ILayerZeroReceiver {
             _origin.srcEid,
             recipientCommitment,
             amount,
+            grossAmount,
             leafIndex
         );
     }
 
+    // Insert the refund commitment of a transfer the destination could not credit
+    function _receiveRefundAck(uint32 _srcEid, bytes calldata _message) internal {
+        (bytes32 transferGuid, uint8 reason) = abi.decode(_message, (bytes32, uint8));
+        PendingRefund memory refund = pendingRefunds[transferGuid];
+        require(refund.amount > 0 && refund.dstEid == _srcEid, "Unknown transfer");
+        delete pendingRefunds[transferGuid];
+
+        require(!commitmentExists[refund.refundCommitment], "Commitment exists");
+        uint256 leafIndex = _insertCommitment(refund.refundCommitment);
+        commitmentExists[refund.refundCommitment] = true;
+
+        emit TransferRefunded(transferGuid, refund.refundCommitment, refund.amount, reason, leafIndex);
+    }
+
+    // ============ Refunds ============
+    /**
+     * @notice Why a transfer from `_sender` on `_srcEid` cannot be credited here (0 if it can)
+     */
+    function undeliverableReason(
+        uint32 _srcEid,
+        bytes32 _sender,
+        bytes32 _recipientCommitment
+    ) public view returns (uint8) {
+        if (peers[_srcEid] != _sender) return REFUND_INVALID_PEER;
+        if (commitmentExists[_recipientCommitment]) return REFUND_COMMITMENT_EXISTS;
+        if (nextLeafIndex >= MAX_TREE_SIZE) return REFUND_TREE_FULL;
+        return 0;
+    }
+
+    /**
+     * @notice Refund a verified inbound transfer that lzReceive can never credit
+     * @dev Anyone may call it while undeliverableReason() is non-zero; msg.value
+     * pays the failure ack (see quoteRefund). The endpoint's clear() checks the
+     * message was verified and drops it, so it is refunded at most once. USDC
+     * only goes back over CCTP (standard finality, no fee) when the sender is our
+     * peer; from any other sender it stays in this pool for the owner to settle.
+     * The source bridge inserts the sender's refund commitment on the ack.
+     */
+    function refundInboundTransfer(
+        Origin calldata _origin,
+        bytes32 _guid,
+        bytes calldata _message,
+        bytes calldata _options
+    ) external payable returns (uint8 reason) {
+        require(_message.length == TRANSFER_MESSAGE_LENGTH, "Not a transfer message");
+        (bytes32 recipientCommitment, uint256 amount, , ) = abi.decode(
+            _message,
+            (bytes32, uint256, uint256, StealthData)
+        );
+        reason = undeliverableReason(_origin.srcEid, _origin.sender, recipientCommitment);
+        require(reason != 0, "Transfer deliverable");
+
+        lzEndpoint.clear(address(this), _origin, _guid, _message);
+
+        bool usdcReturned = reason != REFUND_INVALID_PEER &&
+            address(cctpMessenger) != address(0) &&
+            cctpDomainSet[_origin.srcEid];
+        if (usdcReturned) {
+            uint32 srcCctpDomain = cctpDomains[_origin.srcEid];
+            cctpMessenger.depositForBurn(
+                amount,
+                srcCctpDomain,
+                _origin.sender,
+                address(usdc),
+                bytes32(0),
+                0,
+                CCTP_FINALITY_STANDARD
+            );
+            emit CCTPBurnInitiated(srcCctpDomain, amount, 0, CCTP_FINALITY_STANDARD, 0);
+        }
+
+        lzEndpoint.send{value: msg.value}(
+            MessagingParams({
+                dstEid: _origin.srcEid,
+                receiver: _origin.sender,
+                message: abi.encode(_guid, reason),
+                options: _buildOptions(_origin.srcEid, _options),
+                payInLzToken: false
+            }),
+            msg.sender
+        );
+
+        emit RefundAckSent(_guid, _origin.srcEid, reason, amount, usdcReturned);
+    }
+
+    /**
+     * @notice LayerZero fee for the failure ack of a transfer from `_origin`
+     */
+    function quoteRefund(
+        Origin calldata _origin,
+        bytes calldata _options
+    ) external view returns (uint256 nativeFee, uint256 lzTokenFee) {
+        MessagingParams memory params = MessagingParams({
+            dstEid: _origin.srcEid,
+            receiver: _origin.sender,
+            message: abi.encode(bytes32(0), uint8(0)),
+            options: _buildOptions(_origin.srcEid, _options),
+            payInLzToken: false
+        });
+        MessagingFee memory fee = lzEndpoint.quote(params, address(this));
+        return (fee.nativeFee, fee.lzTokenFee);
+    }
+
     // ============ Path Initialization (required for LZ V2) ============
     /**
      * @notice Check if the path can be initialized from a given origin
@@ -423,6 +785,66 @@ contract PrivateLZBridge is ILayerZeroReceiver {
         uint256[8] calldata proof
     ) external {
         require(recipient != address(0), "Invalid recipient");
+
+        uint256 newLeafIndex = _withdraw(uint256(uint160(recipient)), amount, nullifier, newCommitment, merkleRoot, proof);
+
+        require(usdc.transfer(recipient, amount), "Transfer failed");
+
+        emit Withdrawn(recipient, amount, nullifier, newCommitment, newLeafIndex);
+    }
+
+    /**
+     * @notice Withdraw submitted by a relayer, who is paid `fee` out of `amount`
+     * @dev The proof's recipientAddress input is relayerBinding(recipient, relayer, fee)
+     * instead of the recipient, so neither the recipient, the relayer nor the fee
+     * can be changed without invalidating the proof. Anyone may submit it; the
+     * fee always goes to `relayer`.
+     */
+    function withdrawViaRelayer(
+        address recipient,
+        address relayer,
+        uint256 fee,
+        uint256 amount,
+        bytes32 nullifier,
+        bytes32 newCommitment,
+        bytes32 merkleRoot,
+        uint256[8] calldata proof
+    ) external {
+        require(recipient != address(0), "Invalid recipient");
+        require(relayer != address(0), "Invalid relayer");
+        require(fee < amount, "Fee exceeds amount");
+
+        uint256 newLeafIndex = _withdraw(relayerBinding(recipient, relayer, fee), amount, nullifier, newCommitment, merkleRoot, proof);
+
+        require(usdc.transfer(recipient, amount - fee), "Transfer failed");
+        if (fee > 0) {
+            require(usdc.transfer(relayer, fee), "Transfer failed");
+        }
+
+        emit Withdrawn(recipient, amount, nullifier, newCommitment, newLeafIndex);
+        emit RelayerFeePaid(relayer, nullifier, fee);
+    }
+
+    /**
+     * @notice Value a relayed withdraw proof uses as its recipientAddress input
+     * @dev The low 160 bits of the hash with bit 160 set. withdraw() passes the
+     * recipient as a plain address (below 2^160), so a relayed proof can never
+     * be replayed through it to an address made of the binding.
+     */
+    function relayerBinding(address recipient, address relayer, uint256 fee) public pure returns (uint256) {
+        return uint256(uint160(uint256(keccak256(abi.encode(recipient, relayer, fee))))) | RELAYER_BINDING_TAG;
+    }
+
+    // Checks, proof verification, nullifier and change commitment shared by both withdraws
+    function _withdraw(
+        uint256 recipientSignal,
+        uint256 amount,
+        bytes32 nullifier,
+        bytes32 newCommitment,
+        bytes32 merkleRoot,
+        uint256[8] calldata proof
+    ) internal returns (uint256 newLeafIndex) {
+        require(pausedOperations & PAUSE_WITHDRAW == 0, "Withdrawals paused");
         require(amount > 0, "Amount must be > 0");
         require(!nullifiers[nullifier], "Nullifier already used");
         require(usdc.balanceOf(address(this)) >= amount, "Insufficient liquidity");
@@ -439,22 +861,17 @@ contract PrivateLZBridge is ILayerZeroReceiver {
                 uint256(nullifier),
                 amount,
                 uint256(newCommitment),
-                uint256(uint160(recipient))
+                recipientSignal
             ];
             require(withdrawVerifier.verifyProof(pA, pB, pC, pubSignals), "Invalid withdraw proof");
         }
 
         nullifiers[nullifier] = true;
 
-        uint256 newLeafIndex = 0;
         if (newCommitment != bytes32(0)) {
             newLeafIndex = _insertCommitment(newCommitment);
             commitmentExists[newCommitment] = true;
         }
-
-        require(usdc.transfer(recipient, amount), "Transfer failed");
-
-        emit Withdrawn(recipient, amount, nullifier, newCommitment, newLeafIndex);
     }
 
     // ============ Quote Fee ============
@@ -465,7 +882,7 @@ contract PrivateLZBridge is ILayerZeroReceiver {
         StealthData calldata stealthData,
         bytes calldata options
     ) external view returns (uint256 nativeFee, uint256 lzTokenFee) {
-        bytes memory payload = abi.encode(recipientCommitment, amount, stealthData);
+        bytes memory payload = abi.encode(recipientCommitment, amount, amount + cctpFeeFor(dstEid, amount), stealthData);
 
         // Build options - same logic as _buildOptions
         bytes memory finalOptions;
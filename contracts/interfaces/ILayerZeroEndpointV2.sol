@@ -67,6 +67,16 @@ interface ILayerZeroEndpointV2 {
         address _lib,
         SetConfigParam[] calldata _params
     ) external;
+
+    /**
+     * @notice Skip the next unverified inbound nonce (OApp or delegate only)
+     */
+    function skip(address _oapp, uint32 _srcEid, bytes32 _sender, uint64 _nonce) external;
+
+    /**
+     * @notice Drop a verified inbound message without executing it (OApp or delegate only)
+     */
+    function clear(address _oapp, Origin calldata _origin, bytes32 _guid, bytes calldata _message) external;
 }
 
 interface ILayerZeroReceiver {
@@ -0,0 +1,44 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/**
+ * @title MockBridgeEvents
+ * @notice Emits the PrivateLZBridge transfer events without proofs or
+ * LayerZero, so off-chain watchers can be tested locally (tests only)
+ */
+contract MockBridgeEvents {
+    event CrossChainTransferInitiated(
+        uint32 indexed dstEid,
+        bytes32 indexed recipientCommitment,
+        uint256 amount,
+        uint256 grossAmount,
+        bytes32 nullifier,
+        bytes32 newSenderCommitment,
+        uint256 senderLeafIndex,
+        bytes32 guid
+    );
+
+    event CCTPBurnInitiated(uint32 indexed dstDomain, uint256 amount, uint256 maxFee, uint32 minFinalityThreshold, uint64 cctpNonce);
+
+    /**
+     * @notice Emit the events of a CCTP-backed initiateTransfer
+     */
+    function initiateTransfer(
+        uint32 dstEid,
+        uint32 dstDomain,
+        bytes32 recipientCommitment,
+        uint256 amount
+    ) external {
+        emit CCTPBurnInitiated(dstDomain, amount, 0, 1000, 0);
+        emit CrossChainTransferInitiated(
+            dstEid,
+            recipientCommitment,
+            amount,
+            amount,
+            keccak256(abi.encode(recipientCommitment, "nullifier")),
+            keccak256(abi.encode(recipientCommitment, "change")),
+            0,
+            keccak256(abi.encode(block.number, recipientCommitment))
+        );
+    }
+}
@@ -0,0 +1,214 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "../interfaces/ILayerZeroEndpointV2.sol";
+
+/**
+ * @title MockEndpointV2
+ * @notice Just enough of the LayerZero EndpointV2 to deploy PrivateLZBridge,
+ * quote fees, send messages and deliver them locally (tests only)
+ * @dev The native fee is FEE_PER_BYTE per byte of message and options, so a
+ * quote shows which payload and options it was given. Sent messages are only
+ * recorded in PacketSent (PacketV1 encoding, as on the real endpoint); a test
+ * delivers one by calling verify() as the DVNs would and then lzReceive() as
+ * the executor would. Inbound nonce, skip and clear semantics follow EndpointV2.
+ * setConfig stores each config as given and getConfig returns it (empty
+ * until set: there are no library defaults). Send and receive libraries
+ * resolve to the OApp's own choice, else the default for the EID.
+ */
+contract MockEndpointV2 {
+    uint256 public constant FEE_PER_BYTE = 1 gwei;
+    uint8 internal constant PACKET_VERSION = 1;
+    bytes32 internal constant EMPTY_PAYLOAD_HASH = bytes32(0);
+
+    uint32 public immutable eid;
+
+    mapping(address => address) public delegates;
+    // sender => dstEid => receiver => nonce
+    mapping(address => mapping(uint32 => mapping(bytes32 => uint64))) public outboundNonce;
+    // receiver => srcEid => sender => nonce
+    mapping(address => mapping(uint32 => mapping(bytes32 => uint64))) public lazyInboundNonce;
+    // receiver => srcEid => sender => nonce => keccak256(guid, message)
+    mapping(address => mapping(uint32 => mapping(bytes32 => mapping(uint64 => bytes32)))) public inboundPayloadHash;
+    // oapp => lib => eid => configType => config
+    mapping(address => mapping(address => mapping(uint32 => mapping(uint32 => bytes)))) internal configs;
+    mapping(uint32 => address) public defaultSendLibrary;
+    mapping(uint32 => address) public defaultReceiveLibrary;
+    // oapp => eid => library
+    mapping(address => mapping(uint32 => address)) internal sendLibraries;
+    mapping(address => mapping(uint32 => address)) internal receiveLibraries;
+
+    event PacketSent(bytes encodedPayload, bytes options, address sendLibrary);
+    event PacketVerified(Origin origin, address receiver, bytes32 payloadHash);
+    event PacketDelivered(Origin origin, address receiver);
+    event InboundNonceSkipped(uint32 srcEid, bytes32 sender, address receiver, uint64 nonce);
+
+    error LZ_InsufficientFee(uint256 requiredNative, uint256 suppliedNative, uint256 requiredLzToken, uint256 suppliedLzToken);
+    error LZ_InvalidNonce(uint64 nonce);
+    error LZ_PayloadHashNotFound(bytes32 expected, bytes32 actual);
+    error LZ_PathNotVerifiable();
+    error LZ_Unauthorized();
+
+    constructor(uint32 _eid) {
+        eid = _eid;
+    }
+
+    function setDelegate(address delegate) external {
+        delegates[msg.sender] = delegate;
+    }
+
+    function setConfig(address oapp, address lib, SetConfigParam[] calldata params) external {
+        _assertAuthorized(oapp);
+        for (uint256 i = 0; i < params.length; i++) {
+            configs[oapp][lib][params[i].eid][params[i].configType] = params[i].config;
+        }
+    }
+
+    function getConfig(address oapp, address lib, uint32 remoteEid, uint32 configType) external view returns (bytes memory) {
+        return configs[oapp][lib][remoteEid][configType];
+    }
+
+    // ============ Message libraries ============
+
+    function setDefaultSendLibrary(uint32 dstEid, address lib) external {
+        defaultSendLibrary[dstEid] = lib;
+    }
+
+    function setDefaultReceiveLibrary(uint32 srcEid, address lib, uint256) external {
+        defaultReceiveLibrary[srcEid] = lib;
+    }
+
+    function setSendLibrary(address oapp, uint32 dstEid, address lib) external {
+        _assertAuthorized(oapp);
+        sendLibraries[oapp][dstEid] = lib;
+    }
+
+    function setReceiveLibrary(address oapp, uint32 srcEid, address lib, uint256) external {
+        _assertAuthorized(oapp);
+        receiveLibraries[oapp][srcEid] = lib;
+    }
+
+    function getSendLibrary(address sender, uint32 dstEid) external view returns (address) {
+        address lib = sendLibraries[sender][dstEid];
+        return lib != address(0) ? lib : defaultSendLibrary[dstEid];
+    }
+
+    function getReceiveLibrary(address receiver, uint32 srcEid) external view returns (address lib, bool isDefault) {
+        lib = receiveLibraries[receiver][srcEid];
+        if (lib == address(0)) {
+            return (defaultReceiveLibrary[srcEid], true);
+        }
+        return (lib, false);
+    }
+
+    // ============ Send ============
+
+    function quote(MessagingParams calldata params, address) public pure returns (MessagingFee memory) {
+        return MessagingFee((params.message.length + params.options.length) * FEE_PER_BYTE, 0);
+    }
+
+    function send(
+        MessagingParams calldata params,
+        address refundAddress
+    ) external payable returns (MessagingReceipt memory receipt) {
+        MessagingFee memory fee = quote(params, msg.sender);
+        if (msg.value < fee.nativeFee) {
+            revert LZ_InsufficientFee(fee.nativeFee, msg.value, 0, 0);
+        }
+
+        uint64 nonce = ++outboundNonce[msg.sender][params.dstEid][params.receiver];
+        bytes32 sender = bytes32(uint256(uint160(msg.sender)));
+        bytes32 guid = keccak256(abi.encodePacked(nonce, eid, sender, params.dstEid, params.receiver));
+        bytes memory packet = abi.encodePacked(
+            PACKET_VERSION,
+            nonce,
+            eid,
+            sender,
+            params.dstEid,
+            params.receiver,
+            guid,
+            params.message
+        );
+        emit PacketSent(packet, params.options, address(this));
+
+        if (msg.value > fee.nativeFee) {
+            payable(refundAddress).transfer(msg.value - fee.nativeFee);
+        }
+        return MessagingReceipt(guid, nonce, fee);
+    }
+
+    // ============ Receive ============
+
+    /**
+     * @notice Record a message as verified (done by the receive library and DVNs on a real endpoint)
+     */
+    function verify(Origin calldata origin, address receiver, bytes32 payloadHash) external {
+        bool verified = inboundPayloadHash[receiver][origin.srcEid][origin.sender][origin.nonce] != EMPTY_PAYLOAD_HASH;
+        if (origin.nonce <= lazyInboundNonce[receiver][origin.srcEid][origin.sender] && !verified) {
+            revert LZ_PathNotVerifiable();
+        }
+        inboundPayloadHash[receiver][origin.srcEid][origin.sender][origin.nonce] = payloadHash;
+        emit PacketVerified(origin, receiver, payloadHash);
+    }
+
+    /**
+     * @notice Execute a verified message (anyone, normally the executor)
+     */
+    function lzReceive(
+        Origin calldata origin,
+        address receiver,
+        bytes32 guid,
+        bytes calldata message,
+        bytes calldata extraData
+    ) external payable {
+        _clearPayload(receiver, origin, abi.encodePacked(guid, message));
+        ILayerZeroReceiver(receiver).lzReceive{value: msg.value}(origin, guid, message, msg.sender, extraData);
+        emit PacketDelivered(origin, receiver);
+    }
+
+    /**
+     * @notice Highest nonce up to which every message was verified, executed or skipped
+     */
+    function inboundNonce(address receiver, uint32 srcEid, bytes32 sender) public view returns (uint64) {
+        uint64 nonceCursor = lazyInboundNonce[receiver][srcEid][sender];
+        while (inboundPayloadHash[receiver][srcEid][sender][nonceCursor + 1] != EMPTY_PAYLOAD_HASH) {
+            ++nonceCursor;
+        }
+        return nonceCursor;
+    }
+
+    function skip(address oapp, uint32 srcEid, bytes32 sender, uint64 nonce) external {
+        _assertAuthorized(oapp);
+        if (nonce != inboundNonce(oapp, srcEid, sender) + 1) revert LZ_InvalidNonce(nonce);
+        lazyInboundNonce[oapp][srcEid][sender] = nonce;
+        emit InboundNonceSkipped(srcEid, sender, oapp, nonce);
+    }
+
+    function clear(address oapp, Origin calldata origin, bytes32 guid, bytes calldata message) external {
+        _assertAuthorized(oapp);
+        _clearPayload(oapp, origin, abi.encodePacked(guid, message));
+        emit PacketDelivered(origin, oapp);
+    }
+
+    function _clearPayload(address receiver, Origin calldata origin, bytes memory payload) internal {
+        uint64 currentNonce = lazyInboundNonce[receiver][origin.srcEid][origin.sender];
+        if (origin.nonce > currentNonce) {
+            // Every earlier nonce must at least be verified
+            for (uint64 i = currentNonce + 1; i < origin.nonce; ++i) {
+                if (inboundPayloadHash[receiver][origin.srcEid][origin.sender][i] == EMPTY_PAYLOAD_HASH) {
+                    revert LZ_InvalidNonce(i);
+                }
+            }
+            lazyInboundNonce[receiver][origin.srcEid][origin.sender] = origin.nonce;
+        }
+
+        bytes32 expected = inboundPayloadHash[receiver][origin.srcEid][origin.sender][origin.nonce];
+        bytes32 actual = keccak256(payload);
+        if (expected != actual) revert LZ_PayloadHashNotFound(expected, actual);
+        delete inboundPayloadHash[receiver][origin.srcEid][origin.sender][origin.nonce];
+    }
+
+    function _assertAuthorized(address oapp) internal view {
+        if (msg.sender != oapp && msg.sender != delegates[oapp]) revert LZ_Unauthorized();
+    }
+}
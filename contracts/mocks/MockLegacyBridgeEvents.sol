@@ -0,0 +1,61 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/**
+ * @title MockLegacyBridgeEvents
+ * @notice Emits the tree and CCTP events of a v10.2 PrivateLZBridge, whose
+ * transfer events carry no grossAmount and whose burns no fee or finality,
+ * so clients can be tested against the old deployments (tests only)
+ */
+contract MockLegacyBridgeEvents {
+    event Deposited(address indexed user, uint256 amount, bytes32 indexed commitment, uint256 leafIndex);
+
+    event CrossChainTransferInitiated(
+        uint32 indexed dstEid,
+        bytes32 indexed recipientCommitment,
+        uint256 amount,
+        bytes32 nullifier,
+        bytes32 newSenderCommitment,
+        uint256 senderLeafIndex,
+        bytes32 guid
+    );
+
+    event CrossChainTransferReceived(uint32 indexed srcEid, bytes32 indexed commitment, uint256 amount, uint256 leafIndex);
+
+    event CCTPBurnInitiated(uint32 indexed dstDomain, uint256 amount, uint64 cctpNonce);
+
+    uint256 public nextLeafIndex;
+
+    function deposit(bytes32 commitment, uint256 amount) external {
+        emit Deposited(msg.sender, amount, commitment, nextLeafIndex++);
+    }
+
+    /**
+     * @notice Emit the events of a v10.2 initiateTransfer (change note inserted)
+     */
+    function initiateTransfer(
+        uint32 dstEid,
+        uint32 dstDomain,
+        bytes32 recipientCommitment,
+        bytes32 newSenderCommitment,
+        uint256 amount
+    ) external {
+        emit CCTPBurnInitiated(dstDomain, amount, 0);
+        emit CrossChainTransferInitiated(
+            dstEid,
+            recipientCommitment,
+            amount,
+            keccak256(abi.encode(recipientCommitment, "nullifier")),
+            newSenderCommitment,
+            nextLeafIndex++,
+            keccak256(abi.encode(block.number, recipientCommitment))
+        );
+    }
+
+    /**
+     * @notice Emit the event of a v10.2 lzReceive
+     */
+    function receiveTransfer(uint32 srcEid, bytes32 commitment, uint256 amount) external {
+        emit CrossChainTransferReceived(srcEid, commitment, amount, nextLeafIndex++);
+    }
+}
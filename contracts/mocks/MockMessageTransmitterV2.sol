@@ -0,0 +1,84 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+interface IMockMintToken {
+    function mint(address to, uint256 amount) external;
+}
+
+/**
+ * @title MockMessageTransmitterV2
+ * @notice Local stand-in for Circle's MessageTransmitterV2 (tests and devnet only)
+ *
+ * Marks the message nonce as used and rejects replays with the same revert
+ * string as the real contract. By default any non-empty attestation is
+ * accepted and nothing is minted; after configure() attestations must be the
+ * attester's signature of keccak256(message), and burn messages mint
+ * amount - feeExecuted of the local token to mintRecipient, as on a real chain.
+ */
+contract MockMessageTransmitterV2 {
+    uint32 public immutable localDomain;
+
+    address public attester;
+    IMockMintToken public mintToken;
+
+    mapping(bytes32 => uint256) public usedNonces;
+
+    event MessageReceived(
+        address indexed caller,
+        uint32 sourceDomain,
+        bytes32 indexed nonce,
+        bytes messageBody
+    );
+    event MintAndWithdraw(address indexed mintRecipient, uint256 amount, address indexed mintToken, uint256 feeCollected);
+
+    constructor(uint32 _localDomain) {
+        localDomain = _localDomain;
+    }
+
+    /**
+     * @notice Check attestations against `_attester` and mint burns in `_mintToken`
+     * @dev Either may be zero to keep the default behaviour
+     */
+    function configure(address _attester, address _mintToken) external {
+        attester = _attester;
+        mintToken = IMockMintToken(_mintToken);
+    }
+
+    function receiveMessage(
+        bytes calldata message,
+        bytes calldata attestation
+    ) external returns (bool success) {
+        require(attestation.length > 0, "Invalid attestation length");
+        require(message.length >= 148, "Invalid message: too short");
+        require(uint32(bytes4(message[8:12])) == localDomain, "Invalid destination domain");
+        if (attester != address(0)) {
+            require(attestation.length == 65, "Invalid attestation length");
+            require(_recover(keccak256(message), attestation) == attester, "Invalid signature: not attester");
+        }
+
+        bytes32 nonce = bytes32(message[12:44]);
+        require(usedNonces[nonce] == 0, "Nonce already used");
+        usedNonces[nonce] = 1;
+
+        bytes calldata body = message[148:];
+        // BurnMessageV2: version(4) burnToken(32) mintRecipient(32) amount(32) messageSender(32)
+        // maxFee(32) feeExecuted(32) expirationBlock(32) hookData
+        if (address(mintToken) != address(0) && body.length >= 228) {
+            address mintRecipient = address(uint160(uint256(bytes32(body[36:68]))));
+            uint256 amount = uint256(bytes32(body[68:100]));
+            uint256 feeExecuted = uint256(bytes32(body[164:196]));
+            mintToken.mint(mintRecipient, amount - feeExecuted);
+            emit MintAndWithdraw(mintRecipient, amount - feeExecuted, address(mintToken), feeExecuted);
+        }
+
+        emit MessageReceived(msg.sender, uint32(bytes4(message[4:8])), nonce, body);
+        return true;
+    }
+
+    function _recover(bytes32 digest, bytes calldata signature) internal pure returns (address) {
+        bytes32 r = bytes32(signature[0:32]);
+        bytes32 s = bytes32(signature[32:64]);
+        uint8 v = uint8(signature[64]);
+        return ecrecover(digest, v < 27 ? v + 27 : v, r, s);
+    }
+}
@@ -0,0 +1,55 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+interface IMockBurnToken {
+    function transferFrom(address from, address to, uint256 amount) external returns (bool);
+}
+
+/**
+ * @title MockTokenMessengerV2
+ * @notice Local stand-in for Circle's TokenMessengerV2 (tests only)
+ *
+ * depositForBurn takes the tokens from the caller and records the burn in
+ * DepositForBurn with the same fields as the real event; nothing is minted.
+ */
+contract MockTokenMessengerV2 {
+    event DepositForBurn(
+        address indexed burnToken,
+        uint256 amount,
+        address indexed depositor,
+        bytes32 mintRecipient,
+        uint32 destinationDomain,
+        bytes32 destinationTokenMessenger,
+        bytes32 destinationCaller,
+        uint256 maxFee,
+        uint32 indexed minFinalityThreshold,
+        bytes hookData
+    );
+
+    function depositForBurn(
+        uint256 amount,
+        uint32 destinationDomain,
+        bytes32 mintRecipient,
+        address burnToken,
+        bytes32 destinationCaller,
+        uint256 maxFee,
+        uint32 minFinalityThreshold
+    ) external {
+        require(amount > 0, "Amount must be nonzero");
+        require(maxFee < amount, "Max fee must be less than amount");
+        require(IMockBurnToken(burnToken).transferFrom(msg.sender, address(this), amount), "Transfer failed");
+
+        emit DepositForBurn(
+            burnToken,
+            amount,
+            msg.sender,
+            mintRecipient,
+            destinationDomain,
+            bytes32(0),
+            destinationCaller,
+            maxFee,
+            minFinalityThreshold,
+            ""
+        );
+    }
+}
@@ -0,0 +1,23 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/**
+ * @title MockTransferVerifier
+ * @notice Accepts every transfer proof unless told to reject (tests only)
+ */
+contract MockTransferVerifier {
+    bool public reject;
+
+    function setReject(bool _reject) external {
+        reject = _reject;
+    }
+
+    function verifyProof(
+        uint256[2] calldata,
+        uint256[2][2] calldata,
+        uint256[2] calldata,
+        uint256[9] calldata
+    ) external view returns (bool) {
+        return !reject;
+    }
+}
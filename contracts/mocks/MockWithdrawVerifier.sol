@@ -0,0 +1,24 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/**
+ * @title MockWithdrawVerifier
+ * @notice Accepts any proof whose recipientAddress signal matches the one
+ * set by the test, standing in for a proof bound to that value (tests only)
+ */
+contract MockWithdrawVerifier {
+    uint256 public recipientSignal;
+
+    function setRecipientSignal(uint256 signal) external {
+        recipientSignal = signal;
+    }
+
+    function verifyProof(
+        uint256[2] calldata,
+        uint256[2][2] calldata,
+        uint256[2] calldata,
+        uint256[5] calldata pubSignals
+    ) external view returns (bool) {
+        return pubSignals[4] == recipientSignal;
+    }
+}
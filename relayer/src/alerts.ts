@@ -0,0 +1,54 @@
+import { FetchRequest } from "ethers";
+import { AlertNotifier, PoolAlert } from "./types";
+
+/**
+ * Body POSTed for every alert that starts or stops firing
+ *
+ * `text` is a one-line summary, so Slack-style incoming webhooks can take it as is.
+ */
+export interface WebhookPayload {
+  status: "firing" | "resolved";
+  text: string;
+  alert: PoolAlert;
+}
+
+/**
+ * One-line summary of an alert, as used in webhook bodies and logs
+ */
+export function formatAlert(status: "firing" | "resolved", alert: PoolAlert): string {
+  const prefix = status === "resolved" ? "RESOLVED" : alert.severity.toUpperCase();
+  return `[${prefix}] ${alert.chain}: ${alert.summary}`;
+}
+
+/**
+ * Sends alerts to an HTTP endpoint as JSON (see WebhookPayload)
+ *
+ * Non-2xx responses and network errors throw; PoolMonitor keeps the alert
+ * and tries again on its next tick.
+ *
+ * @example
+ * ```typescript
+ * const monitor = new PoolMonitor({ chains, notifier: new WebhookNotifier(process.env.WEBHOOK_URL!) });
+ * ```
+ */
+export class WebhookNotifier implements AlertNotifier {
+  constructor(
+    readonly url: string,
+    private timeoutMs = 10_000
+  ) {}
+
+  async notify(status: "firing" | "resolved", alert: PoolAlert): Promise<void> {
+    const payload: WebhookPayload = { status, text: formatAlert(status, alert), alert };
+    const request = new FetchRequest(this.url);
+    request.method = "POST";
+    request.setHeader("Content-Type", "application/json");
+    request.body = JSON.stringify(payload);
+    request.timeout = this.timeoutMs;
+    request.setThrottleParams({ maxAttempts: 1 });
+
+    const response = await request.send();
+    if (!response.ok()) {
+      throw new Error(`Webhook returned ${response.statusCode}: ${response.statusMessage}`);
+    }
+  }
+}
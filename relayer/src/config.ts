@@ -0,0 +1,76 @@
+import * as fs from "fs";
+import { RelayerChainConfig, RelayerConfig } from "./types";
+
+/**
+ * Read and check the relayer config file
+ *
+ * ATTESTATION_API, RELAYER_DB, RELAYER_PORT, MONITOR_DB, MONITOR_PORT and
+ * MONITOR_WEBHOOK_URL override the file.
+ *
+ * @param filePath JSON config (see config.example.json)
+ */
+export function loadConfig(filePath: string): RelayerConfig {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Config file ${filePath} not found (copy config.example.json to start)`);
+  }
+  const raw = JSON.parse(fs.readFileSync(filePath, "utf8"));
+
+  const config: RelayerConfig = {
+    database: process.env.RELAYER_DB || raw.database || "relayer.db",
+    port: Number(process.env.RELAYER_PORT || raw.port || 8090),
+    attestationApiUrl: process.env.ATTESTATION_API || raw.attestationApiUrl,
+    pollIntervalMs: raw.pollIntervalMs,
+    withdraws: raw.withdraws,
+    transfers: raw.transfers,
+    monitor: {
+      ...raw.monitor,
+      database: process.env.MONITOR_DB || raw.monitor?.database || "monitor.db",
+      port: Number(process.env.MONITOR_PORT || raw.monitor?.port || 8091),
+      webhookUrl: process.env.MONITOR_WEBHOOK_URL || raw.monitor?.webhookUrl,
+    },
+    chains: raw.chains ?? [],
+  };
+
+  if (config.chains.length === 0) {
+    throw new Error(`${filePath} has no chains`);
+  }
+  const required: (keyof RelayerChainConfig)[] = ["name", "rpcUrl", "eid", "cctpDomain", "bridge", "messageTransmitter"];
+  for (const chain of config.chains) {
+    const missing = required.filter((key) => chain[key] === undefined || chain[key] === "");
+    if (missing.length > 0) {
+      throw new Error(`Chain ${chain.name ?? "(unnamed)"} in ${filePath} is missing ${missing.join(", ")}`);
+    }
+  }
+  for (const section of ["withdraws", "transfers"] as const) {
+    if (!config[section]) continue;
+    const { flatFee, feeBps } = config[section]!;
+    if (flatFee !== undefined && !/^\d+$/.test(flatFee)) {
+      throw new Error(`${section}.flatFee in ${filePath} must be a decimal string of USDC base units`);
+    }
+    if (feeBps !== undefined && (!Number.isInteger(feeBps) || feeBps < 0 || feeBps >= 10_000)) {
+      throw new Error(`${section}.feeBps in ${filePath} must be an integer from 0 to 9999`);
+    }
+  }
+  if (config.transfers && !/^\d+$/.test(config.transfers.maxNativeFee ?? "")) {
+    throw new Error(`transfers.maxNativeFee in ${filePath} must be a decimal string of wei`);
+  }
+  const { monitor } = config;
+  if (monitor.webhookUrl && !/^https?:\/\//.test(monitor.webhookUrl)) {
+    throw new Error(`monitor.webhookUrl in ${filePath} must be an http(s) URL`);
+  }
+  if (monitor.solvencyTolerance !== undefined && !/^\d+$/.test(monitor.solvencyTolerance)) {
+    throw new Error(`monitor.solvencyTolerance in ${filePath} must be a decimal string of USDC base units`);
+  }
+  if (
+    monitor.maxAttestationChecks !== undefined &&
+    (!Number.isInteger(monitor.maxAttestationChecks) || monitor.maxAttestationChecks < 1)
+  ) {
+    throw new Error(`monitor.maxAttestationChecks in ${filePath} must be a positive integer`);
+  }
+  const warning = monitor.treeFillWarning ?? 0.8;
+  const critical = monitor.treeFillCritical ?? 0.95;
+  if (!(warning > 0 && warning <= critical && critical <= 1)) {
+    throw new Error(`monitor.treeFillWarning and treeFillCritical in ${filePath} must satisfy 0 < warning <= critical <= 1`);
+  }
+  return config;
+}
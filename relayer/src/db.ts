@@ -0,0 +1,385 @@
+import Database from "better-sqlite3";
+import { BurnRecord, BurnStatus, MonitorPoolState, MonitoredBurn } from "./types";
+
+const SCHEMA_VERSION = 2;
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS cursors (
+  domain INTEGER PRIMARY KEY,
+  block INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS burns (
+  id TEXT PRIMARY KEY,
+  source_domain INTEGER NOT NULL,
+  destination_domain INTEGER NOT NULL,
+  src_eid INTEGER NOT NULL,
+  dst_eid INTEGER,
+  tx_hash TEXT NOT NULL,
+  block_number INTEGER NOT NULL,
+  amount TEXT NOT NULL,
+  status TEXT NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at INTEGER NOT NULL,
+  nonce TEXT,
+  message TEXT,
+  attestation TEXT,
+  relay_tx_hash TEXT,
+  last_error TEXT,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS burns_due ON burns (status, next_attempt_at);
+
+CREATE TABLE IF NOT EXISTS monitor_pools (
+  domain INTEGER PRIMARY KEY,
+  bridge TEXT NOT NULL,
+  block INTEGER NOT NULL,
+  state TEXT NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS monitor_burns (
+  id TEXT PRIMARY KEY,
+  source_domain INTEGER NOT NULL,
+  destination_domain INTEGER NOT NULL,
+  tx_hash TEXT NOT NULL,
+  block_number INTEGER NOT NULL,
+  sent_at INTEGER NOT NULL,
+  amount TEXT NOT NULL,
+  max_fee TEXT NOT NULL,
+  status TEXT NOT NULL,
+  nonce TEXT
+);
+`;
+
+const STATUSES: BurnStatus[] = ["pending", "attested", "relayed", "already_relayed", "failed"];
+
+interface BurnRow {
+  id: string;
+  source_domain: number;
+  destination_domain: number;
+  src_eid: number;
+  dst_eid: number | null;
+  tx_hash: string;
+  block_number: number;
+  amount: string;
+  status: BurnStatus;
+  attempts: number;
+  next_attempt_at: number;
+  nonce: string | null;
+  message: string | null;
+  attestation: string | null;
+  relay_tx_hash: string | null;
+  last_error: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+function fromRow(row: BurnRow): BurnRecord {
+  return {
+    id: row.id,
+    sourceDomain: row.source_domain,
+    destinationDomain: row.destination_domain,
+    srcEid: row.src_eid,
+    dstEid: row.dst_eid ?? undefined,
+    txHash: row.tx_hash,
+    blockNumber: row.block_number,
+    amount: BigInt(row.amount),
+    status: row.status,
+    attempts: row.attempts,
+    nextAttemptAt: row.next_attempt_at,
+    nonce: row.nonce ?? undefined,
+    message: row.message ?? undefined,
+    attestation: row.attestation ?? undefined,
+    relayTxHash: row.relay_tx_hash ?? undefined,
+    lastError: row.last_error ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+interface MonitorBurnRow {
+  id: string;
+  source_domain: number;
+  destination_domain: number;
+  tx_hash: string;
+  block_number: number;
+  sent_at: number;
+  amount: string;
+  max_fee: string;
+  status: MonitoredBurn["status"];
+  nonce: string | null;
+}
+
+/**
+ * Burn id for a source domain and transaction
+ */
+export function burnId(sourceDomain: number, txHash: string): string {
+  return `${sourceDomain}:${txHash.toLowerCase()}`;
+}
+
+/**
+ * SQLite store for scan cursors and burns
+ *
+ * A chunk's burns and the cursor past it are written in one transaction, so
+ * a restart resumes from the last chunk without losing or duplicating burns.
+ * The pool monitor saves its own cursors and open burns the same way.
+ */
+export class RelayerDb {
+  private db: Database.Database;
+
+  /**
+   * @param filename Database file, or ":memory:"
+   */
+  constructor(filename: string) {
+    this.db = new Database(filename);
+    this.db.pragma("journal_mode = WAL");
+    this.db.pragma("busy_timeout = 5000");
+    this.migrate();
+  }
+
+  private migrate(): void {
+    const version = this.db.pragma("user_version", { simple: true }) as number;
+    if (version > SCHEMA_VERSION) {
+      throw new Error(`Database schema v${version} is newer than this relayer (v${SCHEMA_VERSION})`);
+    }
+    this.db.exec(SCHEMA);
+    this.db.pragma(`user_version = ${SCHEMA_VERSION}`);
+  }
+
+  // ============ Cursors ============
+
+  /**
+   * Last scanned block of a chain, by CCTP domain
+   */
+  getCursor(domain: number): number | undefined {
+    const row = this.db.prepare("SELECT block FROM cursors WHERE domain = ?").get(domain) as
+      | { block: number }
+      | undefined;
+    return row?.block;
+  }
+
+  /**
+   * Store new burns and move the chain cursor in one transaction
+   *
+   * Burns already in the database are left untouched.
+   *
+   * @returns Ids of the burns that were new
+   */
+  recordScan(
+    domain: number,
+    toBlock: number,
+    burns: Omit<BurnRecord, "createdAt" | "updatedAt">[]
+  ): string[] {
+    const insert = this.db.prepare(`
+      INSERT OR IGNORE INTO burns (
+        id, source_domain, destination_domain, src_eid, dst_eid, tx_hash, block_number, amount,
+        status, attempts, next_attempt_at, created_at, updated_at
+      ) VALUES (
+        @id, @sourceDomain, @destinationDomain, @srcEid, @dstEid, @txHash, @blockNumber, @amount,
+        @status, @attempts, @nextAttemptAt, @now, @now
+      )
+    `);
+    const cursor = this.db.prepare(`
+      INSERT INTO cursors (domain, block, updated_at) VALUES (?, ?, ?)
+      ON CONFLICT (domain) DO UPDATE SET block = excluded.block, updated_at = excluded.updated_at
+    `);
+
+    return this.db.transaction(() => {
+      const now = Date.now();
+      const inserted: string[] = [];
+      for (const burn of burns) {
+        const { changes } = insert.run({
+          id: burn.id,
+          sourceDomain: burn.sourceDomain,
+          destinationDomain: burn.destinationDomain,
+          srcEid: burn.srcEid,
+          dstEid: burn.dstEid ?? null,
+          txHash: burn.txHash,
+          blockNumber: burn.blockNumber,
+          amount: burn.amount.toString(),
+          status: burn.status,
+          attempts: burn.attempts,
+          nextAttemptAt: burn.nextAttemptAt,
+          now,
+        });
+        if (changes > 0) inserted.push(burn.id);
+      }
+      cursor.run(domain, toBlock, now);
+      return inserted;
+    })();
+  }
+
+  // ============ Burns ============
+
+  getBurn(id: string): BurnRecord | undefined {
+    const row = this.db.prepare("SELECT * FROM burns WHERE id = ?").get(id) as BurnRow | undefined;
+    return row ? fromRow(row) : undefined;
+  }
+
+  listBurns(status?: BurnStatus): BurnRecord[] {
+    const rows = (
+      status
+        ? this.db.prepare("SELECT * FROM burns WHERE status = ? ORDER BY created_at").all(status)
+        : this.db.prepare("SELECT * FROM burns ORDER BY created_at").all()
+    ) as BurnRow[];
+    return rows.map(fromRow);
+  }
+
+  /**
+   * Pending and attested burns whose next attempt is due
+   */
+  listDue(now: number, limit: number = 50): BurnRecord[] {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM burns
+         WHERE status IN ('pending', 'attested') AND next_attempt_at <= ?
+         ORDER BY next_attempt_at LIMIT ?`
+      )
+      .all(now, limit) as BurnRow[];
+    return rows.map(fromRow);
+  }
+
+  /**
+   * Update a burn's status and progress fields
+   */
+  updateBurn(
+    id: string,
+    update: Partial<
+      Pick<BurnRecord, "status" | "attempts" | "nextAttemptAt" | "nonce" | "message" | "attestation" | "relayTxHash" | "lastError">
+    >
+  ): void {
+    const columns: Record<string, string> = {
+      status: "status",
+      attempts: "attempts",
+      nextAttemptAt: "next_attempt_at",
+      nonce: "nonce",
+      message: "message",
+      attestation: "attestation",
+      relayTxHash: "relay_tx_hash",
+      lastError: "last_error",
+    };
+    const sets: string[] = [];
+    const values: Record<string, unknown> = { id, updatedAt: Date.now() };
+    for (const [key, column] of Object.entries(columns)) {
+      if (!(key in update)) continue;
+      sets.push(`${column} = @${key}`);
+      values[key] = (update as Record<string, unknown>)[key] ?? null;
+    }
+    if (sets.length === 0) return;
+    this.db.prepare(`UPDATE burns SET ${sets.join(", ")}, updated_at = @updatedAt WHERE id = @id`).run(values);
+  }
+
+  /**
+   * Burn counts by status
+   */
+  countByStatus(): Record<BurnStatus, number> {
+    const counts = Object.fromEntries(STATUSES.map((status) => [status, 0])) as Record<BurnStatus, number>;
+    const rows = this.db.prepare("SELECT status, COUNT(*) AS n FROM burns GROUP BY status").all() as {
+      status: BurnStatus;
+      n: number;
+    }[];
+    for (const row of rows) counts[row.status] = row.n;
+    return counts;
+  }
+
+  /**
+   * Creation time of the oldest pending or attested burn
+   */
+  oldestOpenBurnAt(): number | undefined {
+    const row = this.db
+      .prepare("SELECT MIN(created_at) AS at FROM burns WHERE status IN ('pending', 'attested')")
+      .get() as { at: number | null };
+    return row.at ?? undefined;
+  }
+
+  // ============ Pool monitor ============
+
+  /**
+   * Monitor state of a pool, by CCTP domain
+   */
+  getMonitorPool(domain: number): MonitorPoolState | undefined {
+    const row = this.db.prepare("SELECT bridge, block, state FROM monitor_pools WHERE domain = ?").get(domain) as
+      | { bridge: string; block: number; state: string }
+      | undefined;
+    if (!row) return undefined;
+    const state = JSON.parse(row.state);
+    return {
+      ...state,
+      bridge: row.bridge,
+      cursor: row.block,
+      flows: Object.fromEntries(Object.entries(state.flows).map(([flow, amount]) => [flow, BigInt(amount as string)])),
+      refundsDue: Object.fromEntries(
+        Object.entries(state.refundsDue).map(([guid, amount]) => [guid, BigInt(amount as string)])
+      ),
+    };
+  }
+
+  /**
+   * Burns the monitor still watches
+   */
+  listMonitorBurns(): MonitoredBurn[] {
+    const rows = this.db.prepare("SELECT * FROM monitor_burns ORDER BY block_number").all() as MonitorBurnRow[];
+    return rows.map((row) => ({
+      id: row.id,
+      sourceDomain: row.source_domain,
+      destinationDomain: row.destination_domain,
+      txHash: row.tx_hash,
+      blockNumber: row.block_number,
+      sentAt: row.sent_at,
+      amount: BigInt(row.amount),
+      maxFee: BigInt(row.max_fee),
+      status: row.status,
+      nonce: row.nonce ?? undefined,
+    }));
+  }
+
+  /**
+   * Replace the monitor's pools and watched burns in one transaction
+   */
+  saveMonitor(pools: { domain: number; state: MonitorPoolState }[], burns: MonitoredBurn[]): void {
+    const pool = this.db.prepare(`
+      INSERT INTO monitor_pools (domain, bridge, block, state, updated_at) VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT (domain) DO UPDATE SET
+        bridge = excluded.bridge, block = excluded.block, state = excluded.state, updated_at = excluded.updated_at
+    `);
+    const burn = this.db.prepare(`
+      INSERT INTO monitor_burns (
+        id, source_domain, destination_domain, tx_hash, block_number, sent_at, amount, max_fee, status, nonce
+      ) VALUES (
+        @id, @sourceDomain, @destinationDomain, @txHash, @blockNumber, @sentAt, @amount, @maxFee, @status, @nonce
+      )
+    `);
+
+    this.db.transaction(() => {
+      const now = Date.now();
+      for (const { domain, state } of pools) {
+        const { bridge, cursor, ...rest } = state;
+        const json = JSON.stringify(rest, (_key, value) => (typeof value === "bigint" ? value.toString() : value));
+        pool.run(domain, bridge, cursor, json, now);
+      }
+      this.db.prepare("DELETE FROM monitor_burns").run();
+      for (const b of burns) {
+        burn.run({
+          id: b.id,
+          sourceDomain: b.sourceDomain,
+          destinationDomain: b.destinationDomain,
+          txHash: b.txHash,
+          blockNumber: b.blockNumber,
+          sentAt: b.sentAt,
+          amount: b.amount.toString(),
+          maxFee: b.maxFee.toString(),
+          status: b.status,
+          nonce: b.nonce ?? null,
+        });
+      }
+    })();
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
@@ -0,0 +1,131 @@
+import { JsonRpcProvider, Wallet, formatUnits } from "ethers";
+import { AttestationClient } from "../../sdk/src/cctp";
+import { describeError } from "../../sdk/src/errors";
+import { loadConfig } from "./config";
+import { RelayerDb } from "./db";
+import { CctpRelayer } from "./relayer";
+import { createStatusServer } from "./server";
+import { WithdrawSubmitter } from "./submitter";
+import { BurnRecord, RelayerChain, WithdrawChain } from "./types";
+
+export { WebhookNotifier, WebhookPayload, formatAlert } from "./alerts";
+export { loadConfig } from "./config";
+export { RelayerDb, burnId } from "./db";
+export { PoolMonitor, MonitorCounters } from "./monitor";
+export { CctpRelayer, RelayerCounters } from "./relayer";
+export { createMonitorServer, createStatusServer, renderMetrics, renderPoolMetrics } from "./server";
+export { WithdrawSubmitter, SubmitterCounters, parseTransferRequest, parseWithdrawRequest } from "./submitter";
+export * from "./types";
+
+/**
+ * MixVM relayer: CCTP auto-relay, plus gasless withdraws and transfers when
+ * the config has a "withdraws" or "transfers" section
+ *
+ * Usage:
+ *   RELAYER_PRIVATE_KEY=0x... npm start -- [config.json]
+ *
+ * Optional: RELAYER_CONFIG (default config.json), RELAYER_DB, RELAYER_PORT,
+ * ATTESTATION_API
+ */
+
+const log = (message: string) => console.log(`${new Date().toISOString()} ${message}`);
+const describeBurn = (burn: BurnRecord) =>
+  `${burn.id} (${formatUnits(burn.amount, 6)} USDC, domain ${burn.sourceDomain} -> ${burn.destinationDomain})`;
+
+async function main() {
+  const configPath = process.argv[2] || process.env.RELAYER_CONFIG || "config.json";
+  const privateKey = process.env.RELAYER_PRIVATE_KEY;
+  if (!privateKey) {
+    throw new Error("Set RELAYER_PRIVATE_KEY (pays gas for receiveMessage and relayed withdraws and transfers on every chain)");
+  }
+
+  const config = loadConfig(configPath);
+  const chains: RelayerChain[] = [];
+  const withdrawChains: WithdrawChain[] = [];
+  for (const chain of config.chains) {
+    const provider = new JsonRpcProvider(chain.rpcUrl, chain.chainId, chain.chainId ? { staticNetwork: true } : undefined);
+    const { chainId } = await provider.getNetwork();
+    if (chain.chainId && Number(chainId) !== chain.chainId) {
+      throw new Error(`${chain.name}: RPC is chain ${chainId}, config says ${chain.chainId}`);
+    }
+    const signer = new Wallet(privateKey, provider);
+    withdrawChains.push({ name: chain.name, chainId: Number(chainId), provider, signer, bridgeAddress: chain.bridge });
+    chains.push({
+      name: chain.name,
+      eid: chain.eid,
+      cctpDomain: chain.cctpDomain,
+      provider,
+      signer,
+      bridgeAddress: chain.bridge,
+      messageTransmitter: chain.messageTransmitter,
+      startBlock: chain.startBlock,
+      confirmations: chain.confirmations,
+      relayGas: chain.relayGas && {
+        ...chain.relayGas,
+        minPriorityFeeWei: chain.relayGas.minPriorityFeeWei !== undefined ? BigInt(chain.relayGas.minPriorityFeeWei) : undefined,
+      },
+    });
+  }
+
+  const db = new RelayerDb(config.database);
+  const relayer = new CctpRelayer({
+    chains,
+    db,
+    attestations: new AttestationClient({ apiUrl: config.attestationApiUrl }),
+    pollIntervalMs: config.pollIntervalMs,
+  });
+
+  relayer.on("burn", (burn: BurnRecord) => log(`Burn ${describeBurn(burn)}`));
+  relayer.on("attested", (burn: BurnRecord) => log(`Attested ${burn.id}, nonce ${burn.nonce}`));
+  relayer.on("relayed", (burn: BurnRecord) =>
+    log(burn.status === "relayed" ? `Relayed ${burn.id} in ${burn.relayTxHash}` : `Already relayed ${burn.id}`)
+  );
+  relayer.on("retry", (burn: BurnRecord) => log(`Retrying ${burn.id} (attempt ${burn.attempts}): ${burn.lastError}`));
+  relayer.on("failed", (burn: BurnRecord) => log(`FAILED ${burn.id}: ${burn.lastError}`));
+  relayer.on("skipped", (chain: RelayerChain, txHash: string, dstDomain: number) =>
+    log(`Skipping ${txHash} on ${chain.name}: no chain configured for domain ${dstDomain}`)
+  );
+  relayer.on("scanError", (chain: RelayerChain, err: unknown) => log(`Scan of ${chain.name} failed: ${describeError(err)}`));
+
+  const { withdraws, transfers } = config;
+  const submitter =
+    withdraws || transfers
+      ? new WithdrawSubmitter({
+          chains: withdrawChains,
+          withdraws: withdraws !== undefined,
+          flatFee: BigInt(withdraws?.flatFee ?? "0"),
+          feeBps: withdraws?.feeBps,
+          transfers: transfers && {
+            flatFee: BigInt(transfers.flatFee ?? "0"),
+            feeBps: transfers.feeBps,
+            maxNativeFee: BigInt(transfers.maxNativeFee),
+          },
+        })
+      : undefined;
+
+  const server = createStatusServer(relayer, submitter);
+  server.listen(config.port, () =>
+    log(`Listening on :${config.port} (/health, /metrics${submitter ? ", /quote, /withdraw, /transfer" : ""})`)
+  );
+
+  const relayerAddress = await chains[0].signer.getAddress();
+  log(`Relaying as ${relayerAddress} on ${chains.map((chain) => chain.name).join(", ")}`);
+  relayer.start();
+
+  const shutdown = async (signal: string) => {
+    log(`${signal}, stopping...`);
+    server.close();
+    await relayer.stop();
+    db.close();
+    process.exit(0);
+  };
+  process.once("SIGINT", () => shutdown("SIGINT"));
+  process.once("SIGTERM", () => shutdown("SIGTERM"));
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,681 @@
+import { EventEmitter } from "events";
+import { Contract, Log, ZeroHash, formatUnits } from "ethers";
+import { AttestationClient, MESSAGE_TRANSMITTER_ABI, decodeCctpMessage, isAttested } from "../../sdk/src/cctp";
+import { describeError } from "../../sdk/src/errors";
+import { bridgeEventTopics, parseBridgeLog } from "../../sdk/src/events";
+import { fetchLogs } from "../../sdk/src/logs";
+import { LzMessageRecovery } from "../../sdk/src/lzRecovery";
+import { InboundLzMessage } from "../../sdk/src/types";
+import { RelayerDb, burnId } from "./db";
+import {
+  AlertNotifier,
+  AlertSeverity,
+  MonitorChain,
+  MonitorHealth,
+  MonitorPoolState,
+  MonitoredBurn,
+  PoolAlert,
+  PoolAlertKind,
+  PoolMonitorOptions,
+  PoolStatus,
+} from "./types";
+
+// Current and v10.2 signatures of every event that moves pool value
+const poolTopics = [
+  "Deposited",
+  "CrossChainTransferInitiated",
+  "CrossChainTransferReceived",
+  "Withdrawn",
+  "TransferRefunded",
+  "RefundAckSent",
+  "CCTPBurnInitiated",
+  "RelayerFeePaid",
+].flatMap((name) => bridgeEventTopics(name));
+const burnTopics = new Set(bridgeEventTopics("CCTPBurnInitiated"));
+const transferTopics = new Set(bridgeEventTopics("CrossChainTransferInitiated"));
+
+const POOL_ABI = [
+  "function getBalance() view returns (uint256)",
+  "function nextLeafIndex() view returns (uint256)",
+  "function MAX_TREE_SIZE() view returns (uint256)",
+  "function ROOT_HISTORY_SIZE() view returns (uint256)",
+];
+
+const DEFAULT_CONFIRMATIONS = 2;
+
+// TransferRefunded reason when the destination returned no USDC (REFUND_INVALID_PEER)
+const REFUND_INVALID_PEER = 1n;
+
+/**
+ * Counters exposed on /metrics (since process start)
+ */
+export interface MonitorCounters {
+  ticks: number;
+  scanErrors: number;
+  attestationErrors: number;
+  alertsFired: number;
+  notifyErrors: number;
+  saveErrors: number;
+}
+
+// A transfer message from this chain that is past lzStuckAfterSeconds
+interface StuckMessage {
+  message: InboundLzMessage;
+  sentAt: number;
+  advice: string;
+}
+
+// What the monitor knows of one bridge; saved after every tick when there is a db
+interface PoolState {
+  chain: MonitorChain;
+  status: PoolStatus;
+  /** Last block scanned */
+  cursor: number;
+  /** Timestamp of `cursor` */
+  blockTime?: number;
+  /** Leaves inserted by the scanned events */
+  inserted: number;
+  /** Blocks of the latest inserts, one entry per leaf (at most ROOT_HISTORY_SIZE) */
+  insertBlocks: number[];
+  /** Lowest block with a transfer message that was not delivered at the last look */
+  lzFromBlock: number;
+  /** Burns from this chain minted so far */
+  minted: number;
+  /** Refunds inserted here whose burn back from the destination was not seen yet */
+  refundsDue: Map<string, bigint>;
+  /** Refunds burned from here that the source has not inserted yet */
+  refundsSent: Set<string>;
+  stuck: StuckMessage[];
+  blockTimes: Map<number, number>;
+}
+
+/**
+ * Watches each bridge's pool and raises alerts when one needs attention
+ *
+ * Every tick, per chain at head - confirmations:
+ * - solvency: the bridge's USDC balance against the notes its events add up
+ *   to, counting USDC burned toward it over CCTP and not minted yet, and
+ *   refunds whose burn back is not seen yet (the destination may lag)
+ * - tree fill: nextLeafIndex against MAX_TREE_SIZE
+ * - root turnover: age of the oldest root still in the ROOT_HISTORY_SIZE
+ *   history, i.e. how old a proof's root may get before it is rejected
+ * - LayerZero transfer messages not delivered after lzStuckAfterSeconds
+ * - CCTP burns not attested or not minted after cctpStuckAfterSeconds
+ *
+ * With a db, each chain's cursor and totals and the burns not minted yet
+ * are saved after every tick and a restart resumes from them; without one,
+ * every start reads events from startBlock again. Minted burns are only
+ * counted, and at most maxAttestationChecks burns are looked up on the
+ * attestation API per tick. An alert fires once when its condition is found
+ * and resolves once when it clears; deliveries the notifier rejects are
+ * retried next tick.
+ *
+ * Events: "alert" (alert), "resolved" (alert), "notifyError" (alert, error),
+ * "scanError" (chain, error), "attestationError" (burn, error), "saveError"
+ * (error), "tick" after each tick.
+ *
+ * @example
+ * ```typescript
+ * const monitor = new PoolMonitor({ chains, notifier: new WebhookNotifier(webhookUrl) });
+ * monitor.on("alert", (alert) => console.log(alert.summary));
+ * monitor.start();
+ * ```
+ */
+export class PoolMonitor extends EventEmitter {
+  readonly counters: MonitorCounters = {
+    ticks: 0,
+    scanErrors: 0,
+    attestationErrors: 0,
+    alertsFired: 0,
+    notifyErrors: 0,
+    saveErrors: 0,
+  };
+
+  private pools: PoolState[];
+  private byDomain = new Map<number, PoolState>();
+  private burns = new Map<string, MonitoredBurn>();
+  private recovery: LzMessageRecovery;
+  private attestations: AttestationClient;
+  private notifier?: AlertNotifier;
+  private db?: RelayerDb;
+  private maxAttestationChecks: number;
+  private pollIntervalMs: number;
+  private solvencyTolerance: bigint;
+  private treeFillWarning: number;
+  private treeFillCritical: number;
+  private minRootHistorySeconds: number;
+  private lzStuckAfterSeconds: number;
+  private cctpStuckAfterSeconds: number;
+
+  /** Alerts firing as of the last tick */
+  private alerts = new Map<string, PoolAlert>();
+  /** Alerts as last accepted by the notifier */
+  private notified = new Map<string, PoolAlert>();
+
+  private timer?: NodeJS.Timeout;
+  private running = false;
+  private current?: Promise<void>;
+  private startedAt?: number;
+  private lastTickAt?: number;
+
+  constructor(options: PoolMonitorOptions) {
+    super();
+    this.attestations = options.attestations ?? new AttestationClient();
+    this.notifier = options.notifier;
+    this.db = options.db;
+    this.maxAttestationChecks = options.maxAttestationChecks ?? 20;
+    this.pollIntervalMs = options.pollIntervalMs ?? 60_000;
+    this.solvencyTolerance = options.solvencyTolerance ?? 0n;
+    this.treeFillWarning = options.treeFillWarning ?? 0.8;
+    this.treeFillCritical = options.treeFillCritical ?? 0.95;
+    this.minRootHistorySeconds = options.minRootHistorySeconds ?? 3600;
+    this.lzStuckAfterSeconds = options.lzStuckAfterSeconds ?? 15 * 60;
+    this.cctpStuckAfterSeconds = options.cctpStuckAfterSeconds ?? 30 * 60;
+
+    const resumed = new Set<number>();
+    this.pools = options.chains.map((chain) => {
+      const saved = this.db?.getMonitorPool(chain.cctpDomain);
+      // A redeployed bridge starts over from its own startBlock
+      const state = saved && saved.bridge.toLowerCase() === chain.bridgeAddress.toLowerCase() ? saved : undefined;
+      if (state) resumed.add(chain.cctpDomain);
+      return {
+        chain,
+        status: {
+          name: chain.name,
+          eid: chain.eid,
+          cctpDomain: chain.cctpDomain,
+          flows: state?.flows ?? { deposited: 0n, received: 0n, refunded: 0n, withdrawn: 0n, sent: 0n },
+          stuckLzMessages: 0,
+          burns: { pending: 0, attested: 0, minted: state?.minted ?? 0 },
+        },
+        cursor: state?.cursor ?? chain.startBlock - 1,
+        inserted: state?.inserted ?? 0,
+        insertBlocks: state?.insertBlocks ?? [],
+        lzFromBlock: state?.lzFromBlock ?? chain.startBlock,
+        minted: state?.minted ?? 0,
+        refundsDue: new Map(Object.entries(state?.refundsDue ?? {})),
+        refundsSent: new Set(state?.refundsSent),
+        stuck: [],
+        blockTimes: new Map(),
+      };
+    });
+    for (const pool of this.pools) {
+      if (this.byDomain.has(pool.chain.cctpDomain)) {
+        throw new Error(`Two chains use CCTP domain ${pool.chain.cctpDomain}`);
+      }
+      this.byDomain.set(pool.chain.cctpDomain, pool);
+    }
+    for (const burn of this.db?.listMonitorBurns() ?? []) {
+      if (resumed.has(burn.sourceDomain) && this.byDomain.has(burn.destinationDomain)) this.burns.set(burn.id, burn);
+    }
+    this.recovery = new LzMessageRecovery({
+      chains: options.chains.map((chain) => ({
+        eid: chain.eid,
+        provider: chain.provider,
+        bridgeAddress: chain.bridgeAddress,
+        fromBlock: chain.startBlock,
+      })),
+    });
+  }
+
+  // ============ Lifecycle ============
+
+  /**
+   * Tick now and then every pollIntervalMs until stop()
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.startedAt = Date.now();
+    const loop = () => {
+      this.current = this.tick().finally(() => {
+        this.current = undefined;
+        if (this.running) this.timer = setTimeout(loop, this.pollIntervalMs);
+      });
+    };
+    loop();
+  }
+
+  /**
+   * Stop ticking and wait for the current tick to finish
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+    await this.current;
+  }
+
+  /**
+   * Read every chain once, then raise and resolve alerts
+   *
+   * Errors are reported through events and alerts and never thrown, so one
+   * bad RPC does not hide the other chains.
+   */
+  async tick(): Promise<void> {
+    for (const pool of this.pools) {
+      await this.scan(pool);
+    }
+    await this.checkBurns();
+    for (const pool of this.pools) {
+      if (!pool.status.lastError) await this.checkMessages(pool);
+    }
+    this.updateSolvency();
+    this.save();
+    await this.raiseAlerts();
+    this.counters.ticks++;
+    this.lastTickAt = Date.now();
+    this.emit("tick");
+  }
+
+  // ============ Scanning ============
+
+  private async scan(pool: PoolState): Promise<void> {
+    const { chain, status } = pool;
+    try {
+      const head = await chain.provider.getBlockNumber();
+      const block = Math.max(head - (chain.confirmations ?? DEFAULT_CONFIRMATIONS), pool.cursor);
+      if (block > pool.cursor) {
+        const logs = await fetchLogs(
+          chain.provider,
+          { address: chain.bridgeAddress, topics: [poolTopics] },
+          { fromBlock: pool.cursor + 1, toBlock: block }
+        );
+        // Burn timestamps first, so a failed read leaves the totals as they were
+        const burnLogs = logs.filter((log) => burnTopics.has(log.topics[0]));
+        const sentAt = new Map<number, number>();
+        for (const log of burnLogs) sentAt.set(log.blockNumber, await this.blockTime(pool, log.blockNumber));
+        // Relayer fees of transfers come out of the pool on top of the gross amount
+        const transferTxs = new Set(
+          logs.filter((log) => transferTopics.has(log.topics[0])).map((log) => log.transactionHash)
+        );
+        for (const log of logs) this.apply(pool, log, sentAt, transferTxs);
+        pool.cursor = block;
+      }
+      // Nothing to read until the deploy block is confirmed
+      if (block < chain.startBlock) return;
+
+      const bridge = new Contract(chain.bridgeAddress, POOL_ABI, chain.provider);
+      const overrides = { blockTag: block };
+      const [balance, leaves, maxLeaves, historySize, blockTime] = await Promise.all([
+        bridge.getBalance(overrides) as Promise<bigint>,
+        bridge.nextLeafIndex(overrides) as Promise<bigint>,
+        bridge.MAX_TREE_SIZE(overrides) as Promise<bigint>,
+        bridge.ROOT_HISTORY_SIZE(overrides) as Promise<bigint>,
+        this.blockTime(pool, block),
+      ]);
+      pool.blockTime = blockTime;
+      pool.insertBlocks = pool.insertBlocks.slice(-Number(historySize));
+
+      status.block = block;
+      status.balance = balance;
+      status.leaves = Number(leaves);
+      status.maxLeaves = Number(maxLeaves);
+      status.rootHistorySize = Number(historySize);
+      // Once the history has wrapped, the oldest root accepted is the one made
+      // by the insert ROOT_HISTORY_SIZE - 1 leaves back
+      status.rootHistorySeconds =
+        status.leaves >= status.rootHistorySize && pool.insertBlocks.length === status.rootHistorySize
+          ? blockTime - (await this.blockTime(pool, pool.insertBlocks[0]))
+          : undefined;
+      status.lastScanAt = Date.now();
+      status.lastError = undefined;
+    } catch (err) {
+      this.counters.scanErrors++;
+      status.lastError = describeError(err);
+      this.emit("scanError", chain, err);
+    }
+  }
+
+  // Add one bridge event to the pool's totals
+  private apply(pool: PoolState, log: Log, sentAt: Map<number, number>, transferTxs: Set<string>): void {
+    const parsed = parseBridgeLog(log);
+    if (!parsed) return;
+    const { flows } = pool.status;
+    const args = parsed.args;
+    let inserted = true;
+
+    switch (parsed.name) {
+      case "Deposited":
+        flows.deposited += args.amount as bigint;
+        break;
+      case "CrossChainTransferInitiated":
+        flows.sent += args.grossAmount as bigint;
+        break;
+      case "CrossChainTransferReceived":
+        flows.received += args.amount as bigint;
+        break;
+      case "TransferRefunded": {
+        flows.refunded += args.amount as bigint;
+        if ((args.reason as bigint) === REFUND_INVALID_PEER) break;
+        // The destination burned the USDC back in the tx that sent this ack
+        const guid = (args.guid as string).toLowerCase();
+        const destination = this.pools.find((p) => p.refundsSent.has(guid));
+        if (destination) destination.refundsSent.delete(guid);
+        else pool.refundsDue.set(guid, args.amount as bigint);
+        break;
+      }
+      case "RefundAckSent": {
+        inserted = false;
+        const source = this.pools.find((p) => p.chain.eid === Number(args.srcEid));
+        if (!source) break;
+        const guid = (args.guid as string).toLowerCase();
+        if (!source.refundsDue.delete(guid)) pool.refundsSent.add(guid);
+        break;
+      }
+      case "Withdrawn":
+        flows.withdrawn += args.amount as bigint;
+        inserted = args.newCommitment !== ZeroHash;
+        break;
+      case "RelayerFeePaid":
+        inserted = false;
+        // A relayed withdraw's fee is part of its Withdrawn amount already
+        if (transferTxs.has(log.transactionHash)) flows.sent += args.fee as bigint;
+        break;
+      case "CCTPBurnInitiated": {
+        inserted = false;
+        const destinationDomain = Number(args.dstDomain);
+        // Burns toward chains we do not watch cannot be checked for a mint
+        if (!this.byDomain.has(destinationDomain)) break;
+        const id = burnId(pool.chain.cctpDomain, log.transactionHash);
+        this.burns.set(id, {
+          id,
+          sourceDomain: pool.chain.cctpDomain,
+          destinationDomain,
+          txHash: log.transactionHash,
+          blockNumber: log.blockNumber,
+          sentAt: sentAt.get(log.blockNumber)!,
+          amount: args.amount as bigint,
+          maxFee: args.maxFee as bigint,
+          status: "pending",
+        });
+        break;
+      }
+    }
+
+    if (inserted) {
+      pool.inserted++;
+      pool.insertBlocks.push(log.blockNumber);
+    }
+  }
+
+  // Attestation and mint state of every burn not minted yet; minted ones are dropped
+  private async checkBurns(): Promise<void> {
+    const lookups = new Set(
+      [...this.burns.values()]
+        .filter((burn) => burn.status === "pending")
+        .sort((a, b) => (a.checkedAt ?? 0) - (b.checkedAt ?? 0))
+        .slice(0, this.maxAttestationChecks)
+    );
+    for (const burn of this.burns.values()) {
+      if (burn.status === "pending" && !lookups.has(burn)) continue;
+      const source = this.byDomain.get(burn.sourceDomain)!;
+      const destination = this.byDomain.get(burn.destinationDomain)!;
+      try {
+        if (burn.status === "pending") {
+          burn.checkedAt = Date.now();
+          const [message] = await this.attestations.getMessages(burn.sourceDomain, burn.txHash);
+          if (!message || !isAttested(message)) continue;
+          burn.nonce = decodeCctpMessage(message.message).nonce;
+          burn.status = "attested";
+        }
+        // Read at the block the destination's balance was read at
+        if (destination.status.block === undefined || destination.status.lastError) continue;
+        const transmitter = new Contract(
+          destination.chain.messageTransmitter,
+          MESSAGE_TRANSMITTER_ABI,
+          destination.chain.provider
+        );
+        const used: bigint = await transmitter.usedNonces(burn.nonce, { blockTag: destination.status.block });
+        if (used !== 0n) {
+          burn.status = "minted";
+          source.minted++;
+          this.burns.delete(burn.id);
+        }
+      } catch (err) {
+        this.counters.attestationErrors++;
+        source.status.lastError ??= `CCTP check of ${burn.txHash} failed: ${describeError(err)}`;
+        this.emit("attestationError", burn, err);
+      }
+    }
+
+    for (const pool of this.pools) {
+      pool.status.burns = { pending: 0, attested: 0, minted: pool.minted };
+    }
+    for (const burn of this.burns.values()) {
+      this.byDomain.get(burn.sourceDomain)!.status.burns[burn.status]++;
+    }
+  }
+
+  // Transfer messages from this chain that are still not delivered
+  private async checkMessages(pool: PoolState): Promise<void> {
+    const { chain, status } = pool;
+    try {
+      const messages = await this.recovery.messages(chain.eid, { fromBlock: pool.lzFromBlock, toBlock: status.block });
+      const open = messages.filter((message) => message.status === "unverified" || message.status === "verified");
+      const stuck: StuckMessage[] = [];
+      for (const message of open) {
+        const sentAt = await this.blockTime(pool, message.srcBlockNumber);
+        if (pool.blockTime! - sentAt < this.lzStuckAfterSeconds) continue;
+        const advice =
+          message.status === "verified"
+            ? (await this.recovery.diagnose(message)).advice
+            : "Not verified by the DVNs yet";
+        stuck.push({ message, sentAt, advice });
+      }
+      pool.lzFromBlock = open.length > 0 ? Math.min(...open.map((m) => m.srcBlockNumber)) : status.block! + 1;
+      pool.stuck = stuck;
+      status.stuckLzMessages = stuck.length;
+    } catch (err) {
+      this.counters.scanErrors++;
+      status.lastError = `LayerZero message check failed: ${describeError(err)}`;
+      this.emit("scanError", chain, err);
+    }
+  }
+
+  // liabilities, inFlight and surplus of every pool that was read this tick
+  private updateSolvency(): void {
+    for (const pool of this.pools) {
+      const { status } = pool;
+      if (status.balance === undefined) continue;
+      const { deposited, received, refunded, withdrawn, sent } = status.flows;
+      let inFlight = 0n;
+      for (const burn of this.burns.values()) {
+        if (burn.destinationDomain === pool.chain.cctpDomain) inFlight += burn.amount - burn.maxFee;
+      }
+      for (const amount of pool.refundsDue.values()) inFlight += amount;
+      status.liabilities = deposited + received + refunded - withdrawn - sent;
+      status.inFlight = inFlight;
+      status.surplus = status.balance + inFlight - status.liabilities;
+    }
+  }
+
+  // Cursors, totals and watched burns, so a restart resumes after this tick
+  private save(): void {
+    if (!this.db) return;
+    const pools = this.pools.map((pool): { domain: number; state: MonitorPoolState } => ({
+      domain: pool.chain.cctpDomain,
+      state: {
+        bridge: pool.chain.bridgeAddress,
+        cursor: pool.cursor,
+        inserted: pool.inserted,
+        insertBlocks: pool.insertBlocks,
+        lzFromBlock: pool.lzFromBlock,
+        flows: pool.status.flows,
+        minted: pool.minted,
+        refundsDue: Object.fromEntries(pool.refundsDue),
+        refundsSent: [...pool.refundsSent],
+      },
+    }));
+    try {
+      this.db.saveMonitor(pools, [...this.burns.values()]);
+    } catch (err) {
+      this.counters.saveErrors++;
+      this.emit("saveError", err);
+    }
+  }
+
+  private async blockTime(pool: PoolState, blockNumber: number): Promise<number> {
+    let time = pool.blockTimes.get(blockNumber);
+    if (time === undefined) {
+      const block = await pool.chain.provider.getBlock(blockNumber);
+      if (!block) throw new Error(`Block ${blockNumber} not found on ${pool.chain.name}`);
+      time = block.timestamp;
+      if (pool.blockTimes.size >= 10_000) pool.blockTimes.clear();
+      pool.blockTimes.set(blockNumber, time);
+    }
+    return time;
+  }
+
+  // ============ Alerts ============
+
+  // Conditions found this tick; a chain that could not be read keeps its previous alerts
+  private findAlerts(): PoolAlert[] {
+    const found: PoolAlert[] = [];
+    const raise = (kind: PoolAlertKind, severity: AlertSeverity, chain: string, summary: string, subject?: string) => {
+      const id = subject ? `${kind}:${chain}:${subject}` : `${kind}:${chain}`;
+      found.push({ id, kind, severity, chain, summary, since: Date.now() });
+    };
+    const usdc = (amount: bigint) => `${formatUnits(amount, 6)} USDC`;
+    const minutes = (seconds: number) => `${Math.floor(seconds / 60)} min`;
+
+    for (const pool of this.pools) {
+      const { chain, status } = pool;
+      if (status.lastError) {
+        raise("chain_error", "critical", chain.name, `Could not check the pool: ${status.lastError}`);
+        found.push(...[...this.alerts.values()].filter((a) => a.chain === chain.name && a.kind !== "chain_error"));
+        continue;
+      }
+      if (status.balance === undefined) continue;
+
+      if (pool.inserted !== status.leaves) {
+        raise(
+          "incomplete_history",
+          "warning",
+          chain.name,
+          `Saw ${pool.inserted} of ${status.leaves} leaves since block ${chain.startBlock}; ` +
+            `set startBlock to the bridge's deploy block for correct solvency figures`
+        );
+      } else if (status.surplus! < -this.solvencyTolerance) {
+        raise(
+          "insolvent",
+          "critical",
+          chain.name,
+          `Pool holds ${usdc(status.balance)} with ${usdc(status.inFlight!)} in flight, ` +
+            `notes need ${usdc(status.liabilities!)}: short by ${usdc(-status.surplus!)}`
+        );
+      }
+
+      const fill = status.leaves! / status.maxLeaves!;
+      if (fill >= this.treeFillWarning) {
+        raise(
+          "tree_fill",
+          fill >= this.treeFillCritical ? "critical" : "warning",
+          chain.name,
+          `Tree has ${status.leaves} of ${status.maxLeaves} leaves (${(fill * 100).toFixed(1)}%)`
+        );
+      }
+
+      if (status.rootHistorySeconds !== undefined && status.rootHistorySeconds < this.minRootHistorySeconds) {
+        raise(
+          "root_turnover",
+          "warning",
+          chain.name,
+          `The last ${status.rootHistorySize} roots span ${minutes(status.rootHistorySeconds)}; ` +
+            `proofs against older roots are rejected`
+        );
+      }
+
+      for (const { message, sentAt, advice } of pool.stuck) {
+        raise(
+          "lz_stuck",
+          "warning",
+          chain.name,
+          `Transfer ${message.guid} to EID ${message.dstEid} (nonce ${message.nonce}) ${message.status} ` +
+            `but not delivered after ${minutes(pool.blockTime! - sentAt)}: ${advice}`,
+          message.guid
+        );
+      }
+
+      for (const burn of this.burns.values()) {
+        if (burn.sourceDomain !== chain.cctpDomain) continue;
+        const age = pool.blockTime! - burn.sentAt;
+        if (age < this.cctpStuckAfterSeconds) continue;
+        raise(
+          "cctp_stuck",
+          "warning",
+          chain.name,
+          `Burn ${burn.txHash} of ${usdc(burn.amount)} to domain ${burn.destinationDomain} ` +
+            `${burn.status === "pending" ? "not attested" : "attested but not minted"} after ${minutes(age)}`,
+          burn.txHash
+        );
+      }
+    }
+    return found;
+  }
+
+  private async raiseAlerts(): Promise<void> {
+    const alerts = new Map<string, PoolAlert>();
+    for (const alert of this.findAlerts()) {
+      const previous = this.alerts.get(alert.id);
+      if (previous && previous.severity === alert.severity) {
+        alerts.set(alert.id, { ...alert, since: previous.since });
+      } else {
+        alerts.set(alert.id, alert);
+        this.counters.alertsFired++;
+        this.emit("alert", alert);
+      }
+    }
+    for (const [id, alert] of this.alerts) {
+      if (!alerts.has(id)) this.emit("resolved", alert);
+    }
+    this.alerts = alerts;
+
+    if (!this.notifier) return;
+    for (const [id, alert] of this.alerts) {
+      if (this.notified.get(id)?.severity === alert.severity) continue;
+      await this.deliver("firing", alert);
+    }
+    for (const [id, alert] of this.notified) {
+      if (!this.alerts.has(id)) await this.deliver("resolved", alert);
+    }
+  }
+
+  private async deliver(status: "firing" | "resolved", alert: PoolAlert): Promise<void> {
+    try {
+      await this.notifier!.notify(status, alert);
+      if (status === "firing") this.notified.set(alert.id, alert);
+      else this.notified.delete(alert.id);
+    } catch (err) {
+      this.counters.notifyErrors++;
+      this.emit("notifyError", alert, err);
+    }
+  }
+
+  // ============ Status ============
+
+  /**
+   * Alerts firing as of the last tick
+   */
+  activeAlerts(): PoolAlert[] {
+    return [...this.alerts.values()];
+  }
+
+  /**
+   * Health snapshot: unhealthy when stopped, when no tick finished within
+   * three poll intervals, or when a chain could not be read
+   */
+  health(): MonitorHealth {
+    const pools = this.pools.map(({ status }) => ({ ...status, flows: { ...status.flows }, burns: { ...status.burns } }));
+    const staleAfter = Date.now() - 3 * this.pollIntervalMs - 60_000;
+    const reference = this.lastTickAt ?? this.startedAt ?? 0;
+    return {
+      healthy: this.running && reference > staleAfter && pools.every((pool) => !pool.lastError),
+      running: this.running,
+      startedAt: this.startedAt,
+      lastTickAt: this.lastTickAt,
+      pools,
+      alerts: this.activeAlerts(),
+    };
+  }
+}
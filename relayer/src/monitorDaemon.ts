@@ -0,0 +1,101 @@
+import { JsonRpcProvider } from "ethers";
+import { AttestationClient } from "../../sdk/src/cctp";
+import { describeError } from "../../sdk/src/errors";
+import { WebhookNotifier, formatAlert } from "./alerts";
+import { loadConfig } from "./config";
+import { RelayerDb } from "./db";
+import { PoolMonitor } from "./monitor";
+import { createMonitorServer } from "./server";
+import { MonitorChain, MonitoredBurn, PoolAlert } from "./types";
+
+/**
+ * MixVM pool monitor: solvency, tree fill, root turnover and stuck
+ * LayerZero / CCTP transfers of every bridge in the relayer config
+ *
+ * Read-only; needs no key. Every chain needs startBlock (the bridge's deploy
+ * block), as the solvency figures add up all events since. They are kept in
+ * monitor.database, so a restart resumes where the last tick ended.
+ *
+ * Usage:
+ *   npm run monitor -- [config.json]
+ *
+ * Optional: RELAYER_CONFIG (default config.json), MONITOR_DB, MONITOR_PORT,
+ * MONITOR_WEBHOOK_URL, ATTESTATION_API
+ */
+
+const log = (message: string) => console.log(`${new Date().toISOString()} ${message}`);
+
+async function main() {
+  const configPath = process.argv[2] || process.env.RELAYER_CONFIG || "config.json";
+  const config = loadConfig(configPath);
+  const settings = config.monitor;
+
+  const chains: MonitorChain[] = [];
+  for (const chain of config.chains) {
+    if (chain.startBlock === undefined) {
+      throw new Error(`${chain.name}: set startBlock to the bridge's deploy block to monitor it`);
+    }
+    const provider = new JsonRpcProvider(chain.rpcUrl, chain.chainId, chain.chainId ? { staticNetwork: true } : undefined);
+    const { chainId } = await provider.getNetwork();
+    if (chain.chainId && Number(chainId) !== chain.chainId) {
+      throw new Error(`${chain.name}: RPC is chain ${chainId}, config says ${chain.chainId}`);
+    }
+    chains.push({
+      name: chain.name,
+      eid: chain.eid,
+      cctpDomain: chain.cctpDomain,
+      provider,
+      bridgeAddress: chain.bridge,
+      messageTransmitter: chain.messageTransmitter,
+      startBlock: chain.startBlock,
+      confirmations: chain.confirmations,
+    });
+  }
+
+  const db = new RelayerDb(settings.database!);
+  const monitor = new PoolMonitor({
+    ...settings,
+    chains,
+    db,
+    attestations: new AttestationClient({ apiUrl: config.attestationApiUrl }),
+    notifier: settings.webhookUrl ? new WebhookNotifier(settings.webhookUrl) : undefined,
+    solvencyTolerance: BigInt(settings.solvencyTolerance ?? "0"),
+  });
+
+  monitor.on("alert", (alert: PoolAlert) => log(formatAlert("firing", alert)));
+  monitor.on("resolved", (alert: PoolAlert) => log(formatAlert("resolved", alert)));
+  monitor.on("notifyError", (alert: PoolAlert, err: unknown) =>
+    log(`Webhook delivery of ${alert.id} failed: ${describeError(err)}`)
+  );
+  monitor.on("scanError", (chain: MonitorChain, err: unknown) => log(`Check of ${chain.name} failed: ${describeError(err)}`));
+  monitor.on("attestationError", (burn: MonitoredBurn, err: unknown) =>
+    log(`CCTP check of ${burn.id} failed: ${describeError(err)}`)
+  );
+  monitor.on("saveError", (err: unknown) => log(`Saving the monitor state failed: ${describeError(err)}`));
+
+  const server = createMonitorServer(monitor);
+  server.listen(settings.port, () => log(`Listening on :${settings.port} (/health, /metrics)`));
+
+  log(
+    `Monitoring ${chains.map((chain) => chain.name).join(", ")}` +
+      (settings.webhookUrl ? `, alerting ${new URL(settings.webhookUrl).host}` : ", no webhook set")
+  );
+  monitor.start();
+
+  const shutdown = async (signal: string) => {
+    log(`${signal}, stopping...`);
+    server.close();
+    await monitor.stop();
+    db.close();
+    process.exit(0);
+  };
+  process.once("SIGINT", () => shutdown("SIGINT"));
+  process.once("SIGTERM", () => shutdown("SIGTERM"));
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,360 @@
+import { EventEmitter } from "events";
+import { Log } from "ethers";
+import {
+  AttestationClient,
+  decodeCctpMessage,
+  isAttested,
+  relayCctpMessage,
+} from "../../sdk/src/cctp";
+import { ChainInfo, getChainByDomain } from "../../sdk/src/chains";
+import { bridgeEventTopics, parseBridgeLog } from "../../sdk/src/events";
+import { MixvmError, decodeError, describeError } from "../../sdk/src/errors";
+import { fetchLogs } from "../../sdk/src/logs";
+import { RelayerDb, burnId } from "./db";
+import {
+  BurnRecord,
+  ChainStatus,
+  CctpRelayerOptions,
+  RelayerChain,
+  RelayerHealth,
+} from "./types";
+
+// Current and v10.2 signatures
+const burnTopics = bridgeEventTopics("CCTPBurnInitiated");
+const initiatedTopics = bridgeEventTopics("CrossChainTransferInitiated");
+
+const DEFAULT_CONFIRMATIONS = 2;
+
+/**
+ * Counters exposed on /metrics (since process start)
+ */
+export interface RelayerCounters {
+  burnsDetected: number;
+  relayed: number;
+  alreadyRelayed: number;
+  relayErrors: number;
+  attestationErrors: number;
+  scanErrors: number;
+  failed: number;
+}
+
+/**
+ * Watches bridges for CCTP burns and mints them on the destination chain
+ *
+ * Each tick scans every chain from its stored cursor to head - confirmations,
+ * then works through due burns: poll Iris until attested, then
+ * receiveMessage on the destination MessageTransmitterV2. Progress lives in
+ * SQLite, so the process can be restarted at any point.
+ *
+ * Events: "burn" (burn), "attested" (burn), "relayed" (burn, result),
+ * "retry" (burn, error), "failed" (burn, error), "skipped" (chain, txHash,
+ * dstDomain), "scanError" (chain, error), "tick" after each tick.
+ *
+ * @example
+ * ```typescript
+ * const relayer = new CctpRelayer({ chains, db: new RelayerDb("relayer.db") });
+ * relayer.on("relayed", (burn, result) => console.log(burn.id, result.txHash));
+ * relayer.start();
+ * ```
+ */
+export class CctpRelayer extends EventEmitter {
+  readonly counters: RelayerCounters = {
+    burnsDetected: 0,
+    relayed: 0,
+    alreadyRelayed: 0,
+    relayErrors: 0,
+    attestationErrors: 0,
+    scanErrors: 0,
+    failed: 0,
+  };
+
+  private chains: RelayerChain[];
+  private byDomain = new Map<number, RelayerChain>();
+  private chainStatus = new Map<number, ChainStatus>();
+  private chainInfos = new Map<number, Promise<ChainInfo>>();
+  private db: RelayerDb;
+  private attestations: AttestationClient;
+  private pollIntervalMs: number;
+  private lookbackBlocks: number;
+  private maxAttempts: number;
+  private retryDelayMs: number;
+  private maxRetryDelayMs: number;
+
+  private timer?: NodeJS.Timeout;
+  private running = false;
+  private current?: Promise<void>;
+  private startedAt?: number;
+  private lastTickAt?: number;
+
+  constructor(options: CctpRelayerOptions) {
+    super();
+    this.chains = options.chains;
+    this.db = options.db;
+    this.attestations = options.attestations ?? new AttestationClient();
+    this.pollIntervalMs = options.pollIntervalMs ?? 15_000;
+    this.lookbackBlocks = options.lookbackBlocks ?? 5000;
+    this.maxAttempts = options.maxAttempts ?? 8;
+    this.retryDelayMs = options.retryDelayMs ?? 5_000;
+    this.maxRetryDelayMs = options.maxRetryDelayMs ?? 5 * 60_000;
+
+    for (const chain of this.chains) {
+      if (this.byDomain.has(chain.cctpDomain)) {
+        throw new Error(`Two chains use CCTP domain ${chain.cctpDomain}`);
+      }
+      this.byDomain.set(chain.cctpDomain, chain);
+      this.chainStatus.set(chain.cctpDomain, {
+        name: chain.name,
+        cctpDomain: chain.cctpDomain,
+        cursor: this.db.getCursor(chain.cctpDomain),
+      });
+    }
+  }
+
+  // ============ Lifecycle ============
+
+  /**
+   * Tick now and then every pollIntervalMs until stop()
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.startedAt = Date.now();
+    const loop = () => {
+      this.current = this.tick().finally(() => {
+        this.current = undefined;
+        if (this.running) this.timer = setTimeout(loop, this.pollIntervalMs);
+      });
+    };
+    loop();
+  }
+
+  /**
+   * Stop ticking and wait for the current tick to finish
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+    await this.current;
+  }
+
+  /**
+   * Scan every chain once, then process due burns
+   *
+   * Errors are reported through events and never thrown, so one bad RPC or
+   * burn does not stop the others.
+   */
+  async tick(): Promise<void> {
+    for (const chain of this.chains) {
+      await this.scan(chain);
+    }
+    for (const burn of this.db.listDue(Date.now())) {
+      await this.process(burn);
+    }
+    this.lastTickAt = Date.now();
+    this.emit("tick");
+  }
+
+  // ============ Scanning ============
+
+  private async scan(chain: RelayerChain): Promise<void> {
+    const status = this.chainStatus.get(chain.cctpDomain)!;
+    try {
+      const head = await chain.provider.getBlockNumber();
+      const safeBlock = head - (chain.confirmations ?? DEFAULT_CONFIRMATIONS);
+      const cursor =
+        this.db.getCursor(chain.cctpDomain) ??
+        (chain.startBlock !== undefined ? chain.startBlock - 1 : Math.max(0, safeBlock - this.lookbackBlocks));
+      status.head = head;
+
+      if (safeBlock > cursor) {
+        await fetchLogs(
+          chain.provider,
+          { address: chain.bridgeAddress, topics: [[...burnTopics, ...initiatedTopics]] },
+          {
+            fromBlock: cursor + 1,
+            toBlock: safeBlock,
+            onChunk: (_from, to, logs) => {
+              const inserted = this.db.recordScan(chain.cctpDomain, to, this.parseBurns(chain, logs));
+              status.cursor = to;
+              for (const id of inserted) {
+                this.counters.burnsDetected++;
+                this.emit("burn", this.db.getBurn(id));
+              }
+            },
+          }
+        );
+      }
+      status.cursor = this.db.getCursor(chain.cctpDomain) ?? cursor;
+      status.lastScanAt = Date.now();
+      status.lastError = undefined;
+    } catch (err) {
+      this.counters.scanErrors++;
+      status.lastError = describeError(err);
+      this.emit("scanError", chain, err);
+    }
+  }
+
+  // CCTPBurnInitiated logs of a chunk, with dstEid from the same transaction
+  private parseBurns(chain: RelayerChain, logs: Log[]): Omit<BurnRecord, "createdAt" | "updatedAt">[] {
+    const dstEids = new Map<string, number>();
+    for (const log of logs) {
+      const parsed = parseBridgeLog(log);
+      if (parsed?.name === "CrossChainTransferInitiated") {
+        dstEids.set(log.transactionHash, Number(parsed.args.dstEid));
+      }
+    }
+
+    const burns: Omit<BurnRecord, "createdAt" | "updatedAt">[] = [];
+    for (const log of logs) {
+      const parsed = parseBridgeLog(log);
+      if (parsed?.name !== "CCTPBurnInitiated") continue;
+      const destinationDomain = Number(parsed.args.dstDomain);
+      if (!this.byDomain.has(destinationDomain)) {
+        this.emit("skipped", chain, log.transactionHash, destinationDomain);
+        continue;
+      }
+      burns.push({
+        id: burnId(chain.cctpDomain, log.transactionHash),
+        sourceDomain: chain.cctpDomain,
+        destinationDomain,
+        srcEid: chain.eid,
+        dstEid: dstEids.get(log.transactionHash),
+        txHash: log.transactionHash,
+        blockNumber: log.blockNumber,
+        amount: parsed.args.amount as bigint,
+        status: "pending",
+        attempts: 0,
+        nextAttemptAt: 0,
+      });
+    }
+    return burns;
+  }
+
+  // ============ Relaying ============
+
+  private async process(burn: BurnRecord): Promise<void> {
+    const destination = this.byDomain.get(burn.destinationDomain)!;
+
+    let attested: { message: string; attestation: string };
+    if (burn.status === "attested" && burn.message && burn.attestation) {
+      attested = { message: burn.message, attestation: burn.attestation };
+    } else {
+      let message;
+      try {
+        [message] = await this.attestations.getMessages(burn.sourceDomain, burn.txHash);
+      } catch (err) {
+        this.counters.attestationErrors++;
+        if (err instanceof MixvmError && !err.retryable) return this.fail(burn, err);
+        // Iris being down is not the burn's fault: back off without using an attempt
+        this.db.updateBurn(burn.id, { nextAttemptAt: Date.now() + this.waitDelay(burn), lastError: describeError(err) });
+        return;
+      }
+      if (!message || !isAttested(message)) {
+        this.db.updateBurn(burn.id, { nextAttemptAt: Date.now() + this.waitDelay(burn) });
+        return;
+      }
+
+      let nonce: string;
+      try {
+        const decoded = decodeCctpMessage(message.message);
+        if (decoded.destinationDomain !== burn.destinationDomain) {
+          throw new MixvmError(
+            "INVALID_CCTP_MESSAGE",
+            `Attested message is for domain ${decoded.destinationDomain}, burn was to ${burn.destinationDomain}`
+          );
+        }
+        nonce = decoded.nonce;
+      } catch (err) {
+        return this.fail(burn, err);
+      }
+      attested = { message: message.message, attestation: message.attestation };
+      this.db.updateBurn(burn.id, { status: "attested", nonce, ...attested, lastError: undefined });
+      burn = this.db.getBurn(burn.id)!;
+      this.emit("attested", burn);
+    }
+
+    try {
+      const result = await relayCctpMessage(destination.signer, attested, {
+        chain: await this.chainInfo(destination),
+      });
+      if (result.status === "relayed") this.counters.relayed++;
+      else this.counters.alreadyRelayed++;
+      this.db.updateBurn(burn.id, { status: result.status, relayTxHash: result.txHash, lastError: undefined });
+      this.emit("relayed", this.db.getBurn(burn.id), result);
+    } catch (err) {
+      this.counters.relayErrors++;
+      const error = err instanceof MixvmError ? err : decodeError(err, "CCTP relay");
+      const attempts = burn.attempts + 1;
+      if (!error.retryable || attempts >= this.maxAttempts) {
+        this.db.updateBurn(burn.id, { attempts });
+        return this.fail(burn, error);
+      }
+      const delay = Math.min(this.retryDelayMs * 2 ** (attempts - 1), this.maxRetryDelayMs);
+      this.db.updateBurn(burn.id, { attempts, nextAttemptAt: Date.now() + delay, lastError: describeError(error) });
+      this.emit("retry", this.db.getBurn(burn.id), error);
+    }
+  }
+
+  private fail(burn: BurnRecord, err: unknown): void {
+    this.counters.failed++;
+    this.db.updateBurn(burn.id, { status: "failed", lastError: describeError(err) });
+    this.emit("failed", this.db.getBurn(burn.id), err);
+  }
+
+  // Attestation polls back off with the burn's age: fast transfers are
+  // attested within a minute, standard ones take 15+ minutes
+  private waitDelay(burn: BurnRecord): number {
+    const age = Date.now() - burn.createdAt;
+    return Math.min(Math.max(this.retryDelayMs, Math.floor(age / 4)), this.maxRetryDelayMs);
+  }
+
+  // relayCctpMessage checks the signer's chain id and takes gas settings from
+  // the chain entry, so build one from our config rather than the registry
+  private chainInfo(chain: RelayerChain): Promise<ChainInfo> {
+    let info = this.chainInfos.get(chain.cctpDomain);
+    if (!info) {
+      info = chain.provider.getNetwork().then(({ chainId }) => {
+        const known = getChainByDomain(chain.cctpDomain);
+        return {
+          chainId: Number(chainId),
+          name: chain.name,
+          rpcUrl: known?.rpcUrl ?? "",
+          cctpDomain: chain.cctpDomain,
+          contracts: known?.contracts ?? { privateUSDC: "", transferVerifier: "", withdrawVerifier: "", poseidonHasher: "" },
+          cctp: {
+            tokenMessenger: known?.cctp.tokenMessenger ?? "",
+            usdc: known?.cctp.usdc ?? "",
+            messageTransmitter: chain.messageTransmitter,
+          },
+          relayGas: chain.relayGas ?? known?.relayGas,
+        };
+      });
+      info.catch(() => this.chainInfos.delete(chain.cctpDomain));
+      this.chainInfos.set(chain.cctpDomain, info);
+    }
+    return info;
+  }
+
+  // ============ Status ============
+
+  /**
+   * Health snapshot: unhealthy when stopped, when no tick finished within
+   * three poll intervals, or when a chain's last scan failed
+   */
+  health(): RelayerHealth {
+    const chains = [...this.chainStatus.values()].map((status) => ({ ...status }));
+    const staleAfter = Date.now() - 3 * this.pollIntervalMs - 60_000;
+    const reference = this.lastTickAt ?? this.startedAt ?? 0;
+    const oldest = this.db.oldestOpenBurnAt();
+    return {
+      healthy: this.running && reference > staleAfter && chains.every((chain) => !chain.lastError),
+      running: this.running,
+      startedAt: this.startedAt,
+      lastTickAt: this.lastTickAt,
+      chains,
+      burns: this.db.countByStatus(),
+      oldestPendingSeconds: oldest !== undefined ? Math.floor((Date.now() - oldest) / 1000) : undefined,
+    };
+  }
+}
@@ -0,0 +1,329 @@
+import * as http from "http";
+import { formatUnits } from "ethers";
+import { MixvmError, decodeError } from "../../sdk/src/errors";
+import { PoolMonitor } from "./monitor";
+import { CctpRelayer } from "./relayer";
+import { WithdrawSubmitter, parseTransferRequest, parseWithdrawRequest } from "./submitter";
+
+// POST bodies are a single withdraw or transfer request; anything larger is not one
+const MAX_BODY_BYTES = 64 * 1024;
+
+type MetricWriter = (name: string, type: "gauge" | "counter", help: string, samples: [string, number][]) => void;
+
+function metricWriter(lines: string[]): MetricWriter {
+  return (name, type, help, samples) => {
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+    for (const [labels, value] of samples) lines.push(`${name}${labels} ${value}`);
+  };
+}
+
+/**
+ * Prometheus text exposition of the relayer's state
+ */
+export function renderMetrics(relayer: CctpRelayer, submitter?: WithdrawSubmitter): string {
+  const health = relayer.health();
+  const counters = relayer.counters;
+  const lines: string[] = [];
+  const metric = metricWriter(lines);
+
+  metric("mixvm_relayer_up", "gauge", "1 when the relayer is healthy", [["", health.healthy ? 1 : 0]]);
+  metric(
+    "mixvm_relayer_last_tick_timestamp_seconds",
+    "gauge",
+    "End of the last completed tick",
+    [["", Math.floor((health.lastTickAt ?? 0) / 1000)]]
+  );
+  metric(
+    "mixvm_relayer_burns",
+    "gauge",
+    "Burns in the database by status",
+    Object.entries(health.burns).map(([status, n]) => [`{status="${status}"}`, n])
+  );
+  metric(
+    "mixvm_relayer_oldest_pending_seconds",
+    "gauge",
+    "Age of the oldest burn not yet relayed",
+    [["", health.oldestPendingSeconds ?? 0]]
+  );
+  metric(
+    "mixvm_relayer_chain_cursor_block",
+    "gauge",
+    "Last block scanned per chain",
+    health.chains.map((chain) => [`{chain="${chain.name}",domain="${chain.cctpDomain}"}`, chain.cursor ?? 0])
+  );
+  metric(
+    "mixvm_relayer_chain_lag_blocks",
+    "gauge",
+    "Blocks between the chain head and the scan cursor",
+    health.chains.map((chain) => [
+      `{chain="${chain.name}",domain="${chain.cctpDomain}"}`,
+      chain.head !== undefined && chain.cursor !== undefined ? chain.head - chain.cursor : 0,
+    ])
+  );
+  metric("mixvm_relayer_burns_detected_total", "counter", "Burns picked up from bridge events", [["", counters.burnsDetected]]);
+  metric("mixvm_relayer_relays_total", "counter", "receiveMessage calls sent and confirmed", [["", counters.relayed]]);
+  metric("mixvm_relayer_already_relayed_total", "counter", "Burns minted by someone else first", [["", counters.alreadyRelayed]]);
+  metric("mixvm_relayer_relay_errors_total", "counter", "Failed receiveMessage attempts", [["", counters.relayErrors]]);
+  metric("mixvm_relayer_attestation_errors_total", "counter", "Failed attestation API requests", [["", counters.attestationErrors]]);
+  metric("mixvm_relayer_scan_errors_total", "counter", "Failed chain scans", [["", counters.scanErrors]]);
+  metric("mixvm_relayer_failed_total", "counter", "Burns given up on", [["", counters.failed]]);
+  if (submitter) {
+    metric("mixvm_relayer_withdraws_submitted_total", "counter", "Relayed withdraws sent", [
+      ["", submitter.counters.submitted],
+    ]);
+    metric("mixvm_relayer_withdraws_rejected_total", "counter", "Relayed withdraws refused or failing simulation", [
+      ["", submitter.counters.rejected],
+    ]);
+    metric("mixvm_relayer_transfers_submitted_total", "counter", "Relayed transfers sent", [
+      ["", submitter.counters.transfersSubmitted],
+    ]);
+    metric("mixvm_relayer_transfers_rejected_total", "counter", "Relayed transfers refused or failing simulation", [
+      ["", submitter.counters.transfersRejected],
+    ]);
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * HTTP server for the relayer
+ *
+ * GET /health (JSON, 503 when unhealthy) and GET /metrics always; with a
+ * submitter also GET /quote?chainId=&amount=[&dstEid=], POST /withdraw and
+ * POST /transfer (a transfer quote when dstEid is given). Errors are
+ * JSON { error: { code, message, hint, retryable } }. CORS is open so the
+ * webapp can call it from the browser.
+ *
+ * @param relayer Relayer to report on
+ * @param submitter Serves relayed withdraws and transfers when given
+ * @returns Server, not yet listening
+ */
+export function createStatusServer(relayer: CctpRelayer, submitter?: WithdrawSubmitter): http.Server {
+  return http.createServer((req, res) => {
+    res.setHeader("Access-Control-Allow-Origin", "*");
+    res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+    res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+    handle(relayer, submitter, req, res).catch((err) => sendError(res, decodeError(err)));
+  });
+}
+
+async function handle(
+  relayer: CctpRelayer,
+  submitter: WithdrawSubmitter | undefined,
+  req: http.IncomingMessage,
+  res: http.ServerResponse
+) {
+  const url = new URL(req.url ?? "/", "http://localhost");
+  const route = `${req.method} ${url.pathname}`;
+
+  if (req.method === "OPTIONS") {
+    res.writeHead(204).end();
+    return;
+  }
+  if (route === "GET /health") {
+    const health = relayer.health();
+    const submit = submitter ? await submitter.info() : [];
+    res.writeHead(health.healthy ? 200 : 503, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ ...health, submit }));
+    return;
+  }
+  if (route === "GET /metrics") {
+    res.writeHead(200, { "Content-Type": "text/plain; version=0.0.4" });
+    res.end(renderMetrics(relayer, submitter));
+    return;
+  }
+  if (submitter && route === "GET /quote") {
+    const amount = url.searchParams.get("amount") ?? "";
+    if (!/^\d+$/.test(amount)) {
+      throw new MixvmError("RELAYER_REJECTED", "Invalid or missing amount", { hint: "Pass amount in USDC base units" });
+    }
+    const dstEid = url.searchParams.get("dstEid");
+    if (dstEid !== null && !/^\d+$/.test(dstEid)) {
+      throw new MixvmError("RELAYER_REJECTED", "Invalid dstEid", { hint: "Pass the destination's LayerZero endpoint id" });
+    }
+    const quote = await submitter.quote(
+      Number(url.searchParams.get("chainId")),
+      BigInt(amount),
+      dstEid === null ? undefined : Number(dstEid)
+    );
+    sendJson(res, 200, { ...quote, amount: quote.amount.toString(), fee: quote.fee.toString() });
+    return;
+  }
+  if (submitter && route === "POST /withdraw") {
+    const request = parseWithdrawRequest(await readJson(req));
+    sendJson(res, 200, { txHash: await submitter.submitWithdraw(request) });
+    return;
+  }
+  if (submitter && route === "POST /transfer") {
+    const request = parseTransferRequest(await readJson(req));
+    sendJson(res, 200, { txHash: await submitter.submitTransfer(request) });
+    return;
+  }
+  const paths = submitter ? ["/health", "/metrics", "/quote", "/withdraw", "/transfer"] : ["/health", "/metrics"];
+  res.writeHead(paths.includes(url.pathname) ? 405 : 404).end();
+}
+
+/**
+ * Prometheus text exposition of the pool monitor's state
+ *
+ * USDC figures are in whole USDC. Pools not read yet are left out of the
+ * per-pool gauges.
+ */
+export function renderPoolMetrics(monitor: PoolMonitor): string {
+  const health = monitor.health();
+  const counters = monitor.counters;
+  const lines: string[] = [];
+  const metric = metricWriter(lines);
+  const pools = health.pools.filter((pool) => pool.block !== undefined);
+  const label = (pool: { name: string; eid: number }) => `{chain="${pool.name}",eid="${pool.eid}"}`;
+  const usdc = (amount: bigint) => Number(formatUnits(amount, 6));
+
+  metric("mixvm_pool_monitor_up", "gauge", "1 when the monitor is healthy", [["", health.healthy ? 1 : 0]]);
+  metric(
+    "mixvm_pool_monitor_last_tick_timestamp_seconds",
+    "gauge",
+    "End of the last completed tick",
+    [["", Math.floor((health.lastTickAt ?? 0) / 1000)]]
+  );
+  metric("mixvm_pool_block", "gauge", "Block the pool figures are taken at", pools.map((p) => [label(p), p.block!]));
+  metric("mixvm_pool_balance_usdc", "gauge", "USDC held by the bridge", pools.map((p) => [label(p), usdc(p.balance!)]));
+  metric(
+    "mixvm_pool_liabilities_usdc",
+    "gauge",
+    "Notes outstanding according to bridge events",
+    pools.filter((p) => p.liabilities !== undefined).map((p) => [label(p), usdc(p.liabilities!)])
+  );
+  metric(
+    "mixvm_pool_in_flight_usdc",
+    "gauge",
+    "USDC burned toward the pool over CCTP and not minted yet",
+    pools.filter((p) => p.inFlight !== undefined).map((p) => [label(p), usdc(p.inFlight!)])
+  );
+  metric(
+    "mixvm_pool_surplus_usdc",
+    "gauge",
+    "Balance plus in-flight mints minus liabilities; negative when insolvent",
+    pools.filter((p) => p.surplus !== undefined).map((p) => [label(p), usdc(p.surplus!)])
+  );
+  metric(
+    "mixvm_pool_flow_usdc_total",
+    "counter",
+    "USDC added to or taken from notes since the start block, by event",
+    pools.flatMap((p) =>
+      Object.entries(p.flows).map(([flow, amount]): [string, number] => [
+        `{chain="${p.name}",eid="${p.eid}",flow="${flow}"}`,
+        usdc(amount),
+      ])
+    )
+  );
+  metric("mixvm_pool_tree_leaves", "gauge", "Leaves inserted (nextLeafIndex)", pools.map((p) => [label(p), p.leaves!]));
+  metric("mixvm_pool_tree_capacity", "gauge", "MAX_TREE_SIZE", pools.map((p) => [label(p), p.maxLeaves!]));
+  metric(
+    "mixvm_pool_tree_fill_ratio",
+    "gauge",
+    "Leaves over MAX_TREE_SIZE",
+    pools.map((p) => [label(p), p.leaves! / p.maxLeaves!])
+  );
+  metric(
+    "mixvm_pool_root_history_seconds",
+    "gauge",
+    "Age of the oldest root still accepted, once ROOT_HISTORY_SIZE roots were made",
+    pools.filter((p) => p.rootHistorySeconds !== undefined).map((p) => [label(p), p.rootHistorySeconds!])
+  );
+  metric(
+    "mixvm_pool_lz_stuck_messages",
+    "gauge",
+    "Transfer messages sent from the chain and not delivered in time",
+    pools.map((p) => [label(p), p.stuckLzMessages])
+  );
+  metric(
+    "mixvm_pool_cctp_burns",
+    "gauge",
+    "CCTP burns sent from the chain by status",
+    pools.flatMap((p) =>
+      Object.entries(p.burns).map(([status, n]): [string, number] => [
+        `{chain="${p.name}",eid="${p.eid}",status="${status}"}`,
+        n,
+      ])
+    )
+  );
+  metric(
+    "mixvm_pool_alerts_firing",
+    "gauge",
+    "Alerts firing by severity",
+    (["warning", "critical"] as const).map((severity) => [
+      `{severity="${severity}"}`,
+      health.alerts.filter((alert) => alert.severity === severity).length,
+    ])
+  );
+  metric("mixvm_pool_alerts_total", "counter", "Alerts fired", [["", counters.alertsFired]]);
+  metric("mixvm_pool_notify_errors_total", "counter", "Alert deliveries the webhook rejected", [["", counters.notifyErrors]]);
+  metric("mixvm_pool_scan_errors_total", "counter", "Failed chain reads", [["", counters.scanErrors]]);
+  metric("mixvm_pool_attestation_errors_total", "counter", "Failed CCTP attestation or mint checks", [
+    ["", counters.attestationErrors],
+  ]);
+  metric("mixvm_pool_save_errors_total", "counter", "Failed writes of the monitor's state", [["", counters.saveErrors]]);
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * HTTP server for the pool monitor: GET /health (JSON, 503 when unhealthy,
+ * amounts as decimal strings) and GET /metrics
+ *
+ * @returns Server, not yet listening
+ */
+export function createMonitorServer(monitor: PoolMonitor): http.Server {
+  return http.createServer((req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const route = `${req.method} ${url.pathname}`;
+    if (route === "GET /health") {
+      const health = monitor.health();
+      res.writeHead(health.healthy ? 200 : 503, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(health, (_key, value) => (typeof value === "bigint" ? value.toString() : value)));
+      return;
+    }
+    if (route === "GET /metrics") {
+      res.writeHead(200, { "Content-Type": "text/plain; version=0.0.4" });
+      res.end(renderPoolMetrics(monitor));
+      return;
+    }
+    res.writeHead(["/health", "/metrics"].includes(url.pathname) ? 405 : 404).end();
+  });
+}
+
+function readJson(req: http.IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new MixvmError("RELAYER_REJECTED", "Request body too large"));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString("utf8")));
+      } catch {
+        reject(new MixvmError("RELAYER_REJECTED", "Request body is not JSON"));
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+// Client errors are 400 (404 for unserved chains); node and internal failures 502
+function sendError(res: http.ServerResponse, err: MixvmError) {
+  if (res.headersSent) return;
+  const status = err.code === "UNKNOWN_CHAIN" ? 404 : ["RPC_UNAVAILABLE", "UNKNOWN"].includes(err.code) ? 502 : 400;
+  sendJson(res, status, { error: { code: err.code, message: err.message, hint: err.hint, retryable: err.retryable } });
+}
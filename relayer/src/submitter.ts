@@ -0,0 +1,392 @@
+import { Contract, getAddress, isAddress } from "ethers";
+import { MixvmError, decodeError } from "../../sdk/src/errors";
+import {
+  AuditData,
+  PackedProof,
+  RelayedTransferRequest,
+  RelayedWithdrawRequest,
+  RelayerQuote,
+  StealthData,
+} from "../../sdk/src/types";
+import { WithdrawChain, WithdrawSubmitterOptions } from "./types";
+
+const STEALTH_DATA =
+  "tuple(uint256 ephemeralPubKeyX, uint256 ephemeralPubKeyY, uint256 stealthAddressX, uint256 stealthAddressY, uint256 viewTag)";
+const BRIDGE_ABI = [
+  "function withdrawViaRelayer(address recipient, address relayer, uint256 fee, uint256 amount, bytes32 nullifier, bytes32 newCommitment, bytes32 merkleRoot, uint256[8] proof) external",
+  `function initiateTransferViaRelayer(address relayer, uint256 relayerFee, uint32 dstEid, bytes32 recipientCommitment, uint256 amount, bytes32 nullifier, bytes32 newSenderCommitment, bytes32 refundCommitment, bytes32 merkleRoot, uint256[8] proof, ${STEALTH_DATA} stealthData, tuple(uint256[4] encryptedSender, uint256[4] encryptedRecipient, uint256[4] encryptedAmount) auditData, tuple(uint32 minFinalityThreshold, uint256 maxFee) cctpParams, bytes options) external payable returns (bytes32 guid)`,
+  `function quote(uint32 dstEid, bytes32 recipientCommitment, uint256 amount, ${STEALTH_DATA} stealthData, bytes options) view returns (uint256 nativeFee, uint256 lzTokenFee)`,
+];
+
+// LayerZero fee sent with a transfer: the quote plus 20%, the excess is refunded to the relayer
+const NATIVE_FEE_BUFFER_PERCENT = 120n;
+
+export interface SubmitterCounters {
+  submitted: number;
+  rejected: number;
+  transfersSubmitted: number;
+  transfersRejected: number;
+}
+
+interface FeeSchedule {
+  flatFee: bigint;
+  feeBps: bigint;
+}
+
+/**
+ * Submits proven withdrawViaRelayer and initiateTransferViaRelayer calls for
+ * users and collects the fee
+ *
+ * Requests are checked against this relayer's address and fee, simulated,
+ * then sent one at a time per chain so nonces never collide. The fee is
+ * bound into the proof, so a request is accepted as sent or not at all.
+ * For transfers the relayer also pays the LayerZero fee, up to maxNativeFee.
+ */
+export class WithdrawSubmitter {
+  readonly counters: SubmitterCounters = { submitted: 0, rejected: 0, transfersSubmitted: 0, transfersRejected: 0 };
+  private chains = new Map<number, WithdrawChain>();
+  private withdrawFees?: FeeSchedule;
+  private transferFees?: FeeSchedule & { maxNativeFee: bigint };
+  private gasBufferPercent: bigint;
+  private addresses = new Map<number, string>();
+  private queues = new Map<number, Promise<unknown>>();
+  // Nullifiers of sent withdraws and transfers not mined yet; simulation cannot see them
+  private inFlight = new Set<string>();
+
+  constructor(options: WithdrawSubmitterOptions) {
+    for (const chain of options.chains) this.chains.set(chain.chainId, chain);
+    if (options.withdraws ?? true) {
+      this.withdrawFees = { flatFee: options.flatFee ?? 0n, feeBps: BigInt(options.feeBps ?? 0) };
+    }
+    if (options.transfers) {
+      const { flatFee, feeBps, maxNativeFee } = options.transfers;
+      this.transferFees = { flatFee: flatFee ?? 0n, feeBps: BigInt(feeBps ?? 0), maxNativeFee };
+    }
+    this.gasBufferPercent = BigInt(options.gasBufferPercent ?? 20);
+  }
+
+  /**
+   * Chains served, for /health
+   */
+  async info(): Promise<{ chainId: number; name: string; bridge: string; relayer: string; transfers: boolean }[]> {
+    const info = [];
+    for (const chain of this.chains.values()) {
+      info.push({
+        chainId: chain.chainId,
+        name: chain.name,
+        bridge: chain.bridgeAddress,
+        relayer: await this.relayerAddress(chain),
+        transfers: this.transferFees !== undefined,
+      });
+    }
+    return info;
+  }
+
+  /**
+   * Fee for withdrawing `amount` on a chain, or for a transfer to `dstEid`
+   * taking `amount` from the note
+   */
+  async quote(chainId: number, amount: bigint, dstEid?: number): Promise<RelayerQuote> {
+    const chain = this.getChain(chainId);
+    const fee = dstEid === undefined ? this.fee(this.withdrawSchedule(), amount) : this.fee(this.transferSchedule(), amount);
+    if (amount <= fee) {
+      throw new MixvmError("INVALID_RELAYER_FEE", `Amount ${amount} does not cover the relayer fee ${fee}`, {
+        hint: dstEid === undefined ? "Withdraw a larger amount" : "Send a larger amount",
+      });
+    }
+    return {
+      chainId,
+      bridge: chain.bridgeAddress,
+      relayer: await this.relayerAddress(chain),
+      dstEid,
+      amount,
+      fee,
+    };
+  }
+
+  /**
+   * Simulate and send a withdraw
+   *
+   * @returns Transaction hash once broadcast (not waited for)
+   */
+  async submitWithdraw(request: RelayedWithdrawRequest): Promise<string> {
+    try {
+      const chain = this.getChain(request.chainId);
+      const relayer = await this.relayerAddress(chain);
+      if (getAddress(request.relayer) !== relayer) {
+        throw new MixvmError("RELAYER_REJECTED", `Fee goes to ${request.relayer}, not this relayer (${relayer})`, {
+          hint: "Prove with the relayer address from /quote",
+        });
+      }
+      const minFee = this.fee(this.withdrawSchedule(), request.amount);
+      if (request.fee < minFee) {
+        throw new MixvmError("INVALID_RELAYER_FEE", `Fee ${request.fee} is below this relayer's fee ${minFee}`, {
+          hint: "Get a new quote and prove again",
+        });
+      }
+
+      const bridge = new Contract(chain.bridgeAddress, BRIDGE_ABI, chain.signer);
+      const args = [
+        request.recipient,
+        request.relayer,
+        request.fee,
+        request.amount,
+        request.nullifier,
+        request.newCommitment,
+        request.merkleRoot,
+        request.proof,
+      ];
+
+      const key = `${chain.chainId}:${request.nullifier.toLowerCase()}`;
+      const hash = await this.enqueue(chain.chainId, async () => {
+        if (this.inFlight.has(key)) {
+          throw new MixvmError("NULLIFIER_USED", "A withdraw with this nullifier is already pending", {
+            hint: "Wait for the first withdraw to be mined",
+          });
+        }
+        // Reverts (bad proof, spent nullifier, ...) surface here without costing gas
+        await bridge.withdrawViaRelayer.staticCall(...args);
+        const gas = await bridge.withdrawViaRelayer.estimateGas(...args);
+        const tx = await bridge.withdrawViaRelayer(...args, {
+          gasLimit: (gas * (100n + this.gasBufferPercent)) / 100n,
+        });
+        this.track(key, tx);
+        return tx.hash as string;
+      });
+      this.counters.submitted++;
+      return hash;
+    } catch (err) {
+      this.counters.rejected++;
+      throw decodeError(err, "Relayed withdraw");
+    }
+  }
+
+  /**
+   * Simulate and send a transfer, paying its LayerZero fee
+   *
+   * @returns Transaction hash once broadcast (not waited for)
+   */
+  async submitTransfer(request: RelayedTransferRequest): Promise<string> {
+    try {
+      const chain = this.getChain(request.chainId);
+      const schedule = this.transferSchedule();
+      const relayer = await this.relayerAddress(chain);
+      if (getAddress(request.relayer) !== relayer) {
+        throw new MixvmError("RELAYER_REJECTED", `Fee goes to ${request.relayer}, not this relayer (${relayer})`, {
+          hint: "Prove with the relayer address from /quote",
+        });
+      }
+      // What the transfer takes from the note, as quoted
+      const minFee = this.fee(schedule, request.amount + request.cctpParams.maxFee + request.fee);
+      if (request.fee < minFee) {
+        throw new MixvmError("INVALID_RELAYER_FEE", `Fee ${request.fee} is below this relayer's fee ${minFee}`, {
+          hint: "Get a new quote and prove again",
+        });
+      }
+
+      const bridge = new Contract(chain.bridgeAddress, BRIDGE_ABI, chain.signer);
+      const [nativeFee] = await bridge.quote(
+        request.dstEid,
+        request.recipientCommitment,
+        request.amount,
+        request.stealthData,
+        request.options
+      );
+      if (nativeFee > this.transferFees!.maxNativeFee) {
+        throw new MixvmError("RELAYER_REJECTED", `LayerZero fee ${nativeFee} is above this relayer's limit`, {
+          hint: "Use the default LayerZero options, or send from your own wallet",
+        });
+      }
+      const value = (nativeFee * NATIVE_FEE_BUFFER_PERCENT) / 100n;
+      const args = [
+        request.relayer,
+        request.fee,
+        request.dstEid,
+        request.recipientCommitment,
+        request.amount,
+        request.nullifier,
+        request.newSenderCommitment,
+        request.refundCommitment,
+        request.merkleRoot,
+        request.proof,
+        request.stealthData,
+        request.auditData,
+        request.cctpParams,
+        request.options,
+      ];
+
+      const key = `${chain.chainId}:${request.nullifier.toLowerCase()}`;
+      const hash = await this.enqueue(chain.chainId, async () => {
+        if (this.inFlight.has(key)) {
+          throw new MixvmError("NULLIFIER_USED", "A transaction with this nullifier is already pending", {
+            hint: "Wait for the first one to be mined",
+          });
+        }
+        await bridge.initiateTransferViaRelayer.staticCall(...args, { value });
+        const gas = await bridge.initiateTransferViaRelayer.estimateGas(...args, { value });
+        const tx = await bridge.initiateTransferViaRelayer(...args, {
+          value,
+          gasLimit: (gas * (100n + this.gasBufferPercent)) / 100n,
+        });
+        this.track(key, tx);
+        return tx.hash as string;
+      });
+      this.counters.transfersSubmitted++;
+      return hash;
+    } catch (err) {
+      this.counters.transfersRejected++;
+      throw decodeError(err, "Relayed transfer");
+    }
+  }
+
+  private fee(schedule: FeeSchedule, amount: bigint): bigint {
+    return schedule.flatFee + (amount * schedule.feeBps) / 10_000n;
+  }
+
+  private withdrawSchedule(): FeeSchedule {
+    if (!this.withdrawFees) {
+      throw new MixvmError("RELAYER_REJECTED", "This relayer does not submit withdraws", {
+        hint: "Withdraw from your own wallet, or use another relayer",
+      });
+    }
+    return this.withdrawFees;
+  }
+
+  private transferSchedule(): FeeSchedule {
+    if (!this.transferFees) {
+      throw new MixvmError("RELAYER_REJECTED", "This relayer does not submit transfers", {
+        hint: "Send from your own wallet, or use another relayer",
+      });
+    }
+    return this.transferFees;
+  }
+
+  // Hold the nullifier until its tx is mined
+  private track(key: string, tx: { wait: () => Promise<unknown> }) {
+    this.inFlight.add(key);
+    tx.wait()
+      .catch(() => undefined)
+      .finally(() => this.inFlight.delete(key));
+  }
+
+  private getChain(chainId: number): WithdrawChain {
+    const chain = this.chains.get(chainId);
+    if (!chain) {
+      throw new MixvmError("UNKNOWN_CHAIN", `This relayer does not submit on chain ${chainId}`, {
+        hint: "Check /health for the chains it serves",
+      });
+    }
+    return chain;
+  }
+
+  private async relayerAddress(chain: WithdrawChain): Promise<string> {
+    let address = this.addresses.get(chain.chainId);
+    if (!address) {
+      address = getAddress(await chain.signer.getAddress());
+      this.addresses.set(chain.chainId, address);
+    }
+    return address;
+  }
+
+  // Run sends for one chain strictly one after another
+  private enqueue<T>(chainId: number, send: () => Promise<T>): Promise<T> {
+    const previous = this.queues.get(chainId) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(send);
+    this.queues.set(chainId, next);
+    return next;
+  }
+}
+
+// Field readers for a JSON request body (bigints as decimal strings)
+function bodyReader(body: any) {
+  const bad = (field: string) =>
+    new MixvmError("RELAYER_REJECTED", `Invalid or missing ${field}`, { hint: "Send the request built by RelayerClient" });
+  const bytes32 = (field: string) => {
+    const value = body?.[field];
+    if (typeof value !== "string" || !/^0x[0-9a-fA-F]{64}$/.test(value)) throw bad(field);
+    return value;
+  };
+  const uint = (value: unknown, field: string) => {
+    if (typeof value !== "string" || !/^\d+$/.test(value)) throw bad(field);
+    return BigInt(value);
+  };
+  const address = (field: string) => {
+    const value = body?.[field];
+    if (typeof value !== "string" || !isAddress(value)) throw bad(field);
+    return value;
+  };
+  const integer = (field: string) => {
+    const value = Number(body?.[field]);
+    if (!Number.isSafeInteger(value)) throw bad(field);
+    return value;
+  };
+  const proof = () => {
+    if (!Array.isArray(body?.proof) || body.proof.length !== 8) throw bad("proof");
+    return body.proof.map((p: unknown) => uint(p, "proof")) as PackedProof;
+  };
+  return { bad, bytes32, uint, address, integer, proof };
+}
+
+/**
+ * Parse a POST /withdraw body (bigints as decimal strings)
+ */
+export function parseWithdrawRequest(body: any): RelayedWithdrawRequest {
+  const { bytes32, uint, address, integer, proof } = bodyReader(body);
+  return {
+    chainId: integer("chainId"),
+    recipient: address("recipient"),
+    relayer: address("relayer"),
+    fee: uint(body.fee, "fee"),
+    amount: uint(body.amount, "amount"),
+    nullifier: bytes32("nullifier"),
+    newCommitment: bytes32("newCommitment"),
+    merkleRoot: bytes32("merkleRoot"),
+    proof: proof(),
+  };
+}
+
+/**
+ * Parse a POST /transfer body (bigints as decimal strings)
+ */
+export function parseTransferRequest(body: any): RelayedTransferRequest {
+  const { bad, bytes32, uint, address, integer, proof } = bodyReader(body);
+  const words = (value: unknown, field: string, length: number) => {
+    if (!Array.isArray(value) || value.length !== length) throw bad(field);
+    return value.map((word) => uint(word, field));
+  };
+
+  const stealth = body?.stealthData ?? {};
+  const stealthData = Object.fromEntries(
+    ["ephemeralPubKeyX", "ephemeralPubKeyY", "stealthAddressX", "stealthAddressY", "viewTag"].map((key) => [
+      key,
+      uint(stealth[key], "stealthData"),
+    ])
+  ) as unknown as StealthData;
+  const audit = body?.auditData ?? {};
+  const auditData = {
+    encryptedSender: words(audit.encryptedSender, "auditData", 4),
+    encryptedRecipient: words(audit.encryptedRecipient, "auditData", 4),
+    encryptedAmount: words(audit.encryptedAmount, "auditData", 4),
+  } as AuditData;
+  const minFinalityThreshold = Number(body?.cctpParams?.minFinalityThreshold);
+  if (!Number.isSafeInteger(minFinalityThreshold)) throw bad("cctpParams");
+  if (typeof body?.options !== "string" || !/^0x([0-9a-fA-F]{2})*$/.test(body.options)) throw bad("options");
+
+  return {
+    chainId: integer("chainId"),
+    relayer: address("relayer"),
+    fee: uint(body.fee, "fee"),
+    dstEid: integer("dstEid"),
+    recipientCommitment: bytes32("recipientCommitment"),
+    amount: uint(body.amount, "amount"),
+    nullifier: bytes32("nullifier"),
+    newSenderCommitment: bytes32("newSenderCommitment"),
+    refundCommitment: bytes32("refundCommitment"),
+    merkleRoot: bytes32("merkleRoot"),
+    proof: proof(),
+    stealthData,
+    auditData,
+    cctpParams: { minFinalityThreshold, maxFee: uint(body.cctpParams.maxFee, "cctpParams") },
+    options: body.options,
+  };
+}
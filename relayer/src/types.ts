@@ -0,0 +1,412 @@
+import { Provider, Signer } from "ethers";
+import { RelayGasSettings } from "../../sdk/src/chains";
+import { AttestationClient } from "../../sdk/src/cctp";
+import { RelayerDb } from "./db";
+
+// ============ Configuration ============
+
+/**
+ * One bridge deployment, as written in the config file
+ */
+export interface RelayerChainConfig {
+  name: string;
+  rpcUrl: string;
+  /** Checked against the RPC on startup when set */
+  chainId?: number;
+  eid: number;
+  cctpDomain: number;
+  /** PrivateLZBridge address */
+  bridge: string;
+  /** MessageTransmitterV2 that mints on this chain */
+  messageTransmitter: string;
+  /** First block to scan when the database has no cursor yet */
+  startBlock?: number;
+  /** Blocks to wait before a burn is picked up (default 2) */
+  confirmations?: number;
+  relayGas?: { gasLimit: number; feeMultiplier?: number; minPriorityFeeWei?: string };
+}
+
+/**
+ * Relayer config file (relayer/config.json)
+ */
+export interface RelayerConfig {
+  /** SQLite database path (default relayer.db) */
+  database: string;
+  /** Health and metrics port (default 8090) */
+  port: number;
+  attestationApiUrl?: string;
+  pollIntervalMs?: number;
+  /** Submit withdraws for users on every chain when set */
+  withdraws?: WithdrawFeeConfig;
+  /** Submit cross-chain transfers for users on every chain when set */
+  transfers?: TransferFeeConfig;
+  /** Pool monitor settings (npm run monitor); defaults apply when the section is missing */
+  monitor: MonitorConfig;
+  chains: RelayerChainConfig[];
+}
+
+/**
+ * Fee charged for a relayed withdraw: flatFee + amount * feeBps / 10000
+ */
+export interface WithdrawFeeConfig {
+  /** USDC base units, as a decimal string (default "0") */
+  flatFee?: string;
+  /** Basis points of the withdrawn amount (default 0) */
+  feeBps?: number;
+}
+
+/**
+ * Fee charged for a relayed transfer: flatFee + amount * feeBps / 10000,
+ * where amount is what the transfer takes from the note. The relayer pays
+ * the LayerZero fee, so flatFee should cover it.
+ */
+export interface TransferFeeConfig extends WithdrawFeeConfig {
+  /** Highest LayerZero fee the relayer pays for one transfer, in wei as a decimal string */
+  maxNativeFee: string;
+}
+
+/**
+ * Pool monitor alert thresholds
+ */
+export interface MonitorThresholds {
+  /** Tree fill ratio that raises a warning (default 0.8) */
+  treeFillWarning?: number;
+  /** Tree fill ratio that raises a critical alert (default 0.95) */
+  treeFillCritical?: number;
+  /** Warn when the oldest root still accepted is younger than this (default 1 h) */
+  minRootHistorySeconds?: number;
+  /** Age at which an undelivered LayerZero message counts as stuck (default 15 min) */
+  lzStuckAfterSeconds?: number;
+  /** Age at which an unminted CCTP burn counts as stuck (default 30 min) */
+  cctpStuckAfterSeconds?: number;
+}
+
+/**
+ * "monitor" section of the config file
+ */
+export interface MonitorConfig extends MonitorThresholds {
+  /** Health and metrics port of the monitor (default 8091) */
+  port?: number;
+  /** Alerts are POSTed here as JSON; only logged when unset */
+  webhookUrl?: string;
+  pollIntervalMs?: number;
+  /** USDC base units a pool may be short by before it is reported insolvent, as a decimal string (default "0") */
+  solvencyTolerance?: string;
+  /** SQLite database the monitor resumes from (default monitor.db) */
+  database?: string;
+  /** Attestation API lookups per tick (default 20) */
+  maxAttestationChecks?: number;
+}
+
+// ============ Runtime ============
+
+/**
+ * A chain the relayer watches and relays to
+ */
+export interface RelayerChain {
+  name: string;
+  eid: number;
+  cctpDomain: number;
+  provider: Provider;
+  /** Sends receiveMessage on this chain */
+  signer: Signer;
+  bridgeAddress: string;
+  messageTransmitter: string;
+  startBlock?: number;
+  confirmations?: number;
+  relayGas?: RelayGasSettings;
+}
+
+/**
+ * A chain the relayer submits withdrawViaRelayer and initiateTransferViaRelayer on
+ */
+export interface WithdrawChain {
+  name: string;
+  chainId: number;
+  provider: Provider;
+  /** Sends the withdraw or transfer and receives the fee */
+  signer: Signer;
+  bridgeAddress: string;
+}
+
+/**
+ * Options for WithdrawSubmitter
+ */
+export interface WithdrawSubmitterOptions {
+  chains: WithdrawChain[];
+  /** Serve relayed withdraws (default true) */
+  withdraws?: boolean;
+  flatFee?: bigint;
+  feeBps?: number;
+  /** Serve relayed transfers with these fees when set */
+  transfers?: { flatFee?: bigint; feeBps?: number; maxNativeFee: bigint };
+  /** Percent added to the gas estimate (default 20) */
+  gasBufferPercent?: number;
+}
+
+/**
+ * Options for CctpRelayer
+ */
+export interface CctpRelayerOptions {
+  chains: RelayerChain[];
+  db: RelayerDb;
+  /** Defaults to the Iris sandbox */
+  attestations?: AttestationClient;
+  /** Delay between ticks (default 15 s) */
+  pollIntervalMs?: number;
+  /** Blocks scanned before the head when a chain has no cursor or startBlock (default 5000) */
+  lookbackBlocks?: number;
+  /** Relay attempts before a burn is marked failed (default 8) */
+  maxAttempts?: number;
+  /** First retry delay for a burn; doubles per attempt (default 5 s) */
+  retryDelayMs?: number;
+  /** Longest retry delay (default 5 min) */
+  maxRetryDelayMs?: number;
+}
+
+/**
+ * A chain the pool monitor reads (no signer needed)
+ */
+export interface MonitorChain {
+  name: string;
+  eid: number;
+  cctpDomain: number;
+  provider: Provider;
+  bridgeAddress: string;
+  messageTransmitter: string;
+  /** The bridge's deploy block: the solvency figures need every event since */
+  startBlock: number;
+  /** Blocks behind the head the figures are taken at (default 2) */
+  confirmations?: number;
+}
+
+/**
+ * Options for PoolMonitor
+ */
+export interface PoolMonitorOptions extends MonitorThresholds {
+  chains: MonitorChain[];
+  /** Defaults to the Iris sandbox */
+  attestations?: AttestationClient;
+  /** Receives firing and resolved alerts; without one they are only emitted */
+  notifier?: AlertNotifier;
+  /** Delay between ticks (default 60 s) */
+  pollIntervalMs?: number;
+  /** USDC base units a pool may be short by before it is reported insolvent (default 0) */
+  solvencyTolerance?: bigint;
+  /** Keeps cursors, totals and open burns across restarts; without one every start reads from startBlock */
+  db?: RelayerDb;
+  /** Burns looked up on the attestation API per tick, least recently checked first (default 20) */
+  maxAttestationChecks?: number;
+}
+
+export type AlertSeverity = "warning" | "critical";
+
+/**
+ * insolvent: the pool holds less USDC than its notes, net of mints in flight
+ * incomplete_history: events before startBlock are missing, so the figures are off
+ * tree_fill: the Merkle tree is close to MAX_TREE_SIZE
+ * root_turnover: roots leave the history fast enough to expire proofs in progress
+ * lz_stuck: a transfer message from this chain was not delivered in time
+ * cctp_stuck: a burn from this chain was not attested or not minted in time
+ * chain_error: the chain could not be read this tick
+ */
+export type PoolAlertKind =
+  | "insolvent"
+  | "incomplete_history"
+  | "tree_fill"
+  | "root_turnover"
+  | "lz_stuck"
+  | "cctp_stuck"
+  | "chain_error";
+
+/**
+ * A condition found by the monitor; it fires once and resolves once
+ */
+export interface PoolAlert {
+  /** Stable while the condition lasts: kind, chain and the message or burn it is about */
+  id: string;
+  kind: PoolAlertKind;
+  severity: AlertSeverity;
+  chain: string;
+  summary: string;
+  /** Unix ms of the tick it was first seen on */
+  since: number;
+}
+
+/**
+ * Delivers alerts, e.g. WebhookNotifier
+ */
+export interface AlertNotifier {
+  notify(status: "firing" | "resolved", alert: PoolAlert): Promise<void>;
+}
+
+/**
+ * A CCTP burn made by a monitored bridge
+ *
+ * pending: not attested yet; attested: not minted on the destination yet;
+ * minted: the destination MessageTransmitterV2 used the nonce (minted burns
+ * are only counted, no longer watched)
+ */
+export interface MonitoredBurn {
+  /** `${sourceDomain}:${txHash}` */
+  id: string;
+  sourceDomain: number;
+  destinationDomain: number;
+  txHash: string;
+  blockNumber: number;
+  /** Unix seconds of the burn's block */
+  sentAt: number;
+  amount: bigint;
+  maxFee: bigint;
+  status: "pending" | "attested" | "minted";
+  nonce?: string;
+  /** Unix ms of the last attestation API lookup */
+  checkedAt?: number;
+}
+
+/**
+ * What the pool monitor keeps of one pool between restarts
+ */
+export interface MonitorPoolState {
+  /** Bridge the state was read from; state of another bridge is not resumed */
+  bridge: string;
+  /** Last block scanned */
+  cursor: number;
+  /** Leaves inserted by the scanned events */
+  inserted: number;
+  /** Blocks of the latest inserts, one entry per leaf (at most ROOT_HISTORY_SIZE) */
+  insertBlocks: number[];
+  /** Lowest block with a transfer message that was not delivered at the last look */
+  lzFromBlock: number;
+  flows: PoolFlows;
+  /** Burns from this chain minted so far */
+  minted: number;
+  /** Refunded transfers whose USDC burn back to this pool was not seen yet: guid to amount */
+  refundsDue: Record<string, bigint>;
+  /** Guids of refunds burned from this pool whose source has not seen the refund yet */
+  refundsSent: string[];
+}
+
+/**
+ * USDC moved in and out of a pool's notes, from bridge events (base units)
+ */
+export interface PoolFlows {
+  deposited: bigint;
+  received: bigint;
+  refunded: bigint;
+  withdrawn: bigint;
+  /**
+   * Taken from notes by cross-chain transfers: the recipient's amount plus the
+   * CCTP fee, and the relayer's fee for relayed ones
+   */
+  sent: bigint;
+}
+
+/**
+ * One pool as of its last tick
+ */
+export interface PoolStatus {
+  name: string;
+  eid: number;
+  cctpDomain: number;
+  /** Block the figures are taken at */
+  block?: number;
+  /** USDC held by the bridge */
+  balance?: bigint;
+  /** Notes outstanding: deposited + received + refunded - withdrawn - sent */
+  liabilities?: bigint;
+  /**
+   * Burned toward this pool and not minted yet, less the most CCTP can keep as
+   * fee, plus refunds whose burn back was not seen yet
+   */
+  inFlight?: bigint;
+  /** balance + inFlight - liabilities; negative when insolvent */
+  surplus?: bigint;
+  flows: PoolFlows;
+  leaves?: number;
+  maxLeaves?: number;
+  rootHistorySize?: number;
+  /** Age of the oldest root still accepted, once more leaves than rootHistorySize were inserted */
+  rootHistorySeconds?: number;
+  /** Undelivered LayerZero messages sent from this chain past lzStuckAfterSeconds */
+  stuckLzMessages: number;
+  /** CCTP burns sent from this chain by status */
+  burns: Record<MonitoredBurn["status"], number>;
+  lastScanAt?: number;
+  lastError?: string;
+}
+
+/**
+ * Snapshot served by the monitor's /health
+ */
+export interface MonitorHealth {
+  healthy: boolean;
+  running: boolean;
+  startedAt?: number;
+  lastTickAt?: number;
+  pools: PoolStatus[];
+  alerts: PoolAlert[];
+}
+
+/**
+ * pending: burn seen, waiting for Circle's attestation
+ * attested: attestation stored, receiveMessage not done yet
+ * relayed: minted by this relayer
+ * already_relayed: the nonce was used by someone else
+ * failed: gave up after a permanent error or maxAttempts
+ */
+export type BurnStatus = "pending" | "attested" | "relayed" | "already_relayed" | "failed";
+
+/**
+ * A CCTP burn made by a bridge, as stored in the database
+ */
+export interface BurnRecord {
+  /** `${sourceDomain}:${txHash}` */
+  id: string;
+  sourceDomain: number;
+  destinationDomain: number;
+  srcEid: number;
+  /** From CrossChainTransferInitiated in the same transaction */
+  dstEid?: number;
+  txHash: string;
+  blockNumber: number;
+  amount: bigint;
+  status: BurnStatus;
+  attempts: number;
+  /** Unix ms; the burn is not looked at before then */
+  nextAttemptAt: number;
+  nonce?: string;
+  message?: string;
+  attestation?: string;
+  relayTxHash?: string;
+  lastError?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Scan progress of one chain
+ */
+export interface ChainStatus {
+  name: string;
+  cctpDomain: number;
+  /** Last block scanned (persisted) */
+  cursor?: number;
+  head?: number;
+  lastScanAt?: number;
+  lastError?: string;
+}
+
+/**
+ * Snapshot served by /health
+ */
+export interface RelayerHealth {
+  healthy: boolean;
+  running: boolean;
+  startedAt?: number;
+  lastTickAt?: number;
+  chains: ChainStatus[];
+  burns: Record<BurnStatus, number>;
+  /** Age of the oldest burn still waiting, in seconds */
+  oldestPendingSeconds?: number;
+}
@@ -0,0 +1,157 @@
+import { ethers, network } from "hardhat";
+import * as fs from "fs";
+import * as path from "path";
+import { describeError } from "../sdk/src/errors";
+import { PausableOperation } from "../sdk/src/types";
+import {
+    ADMIN_BRIDGE_ABI,
+    AdminCall,
+    AdminOperation,
+    planAdminCalls,
+    safeBatch,
+    sendAdminCalls,
+    simulateAdminCalls,
+} from "./deploy/admin";
+
+/**
+ * Owner operations on the --network chain's PrivateLZBridge
+ *
+ * Operations come from OPS: a JSON file, or inline JSON, holding an array of
+ *   { "type": "setPeer", "eid": 40161, "peer": "0x..." }
+ *   { "type": "setCCTPDomain", "eid": 40161, "domain": 0 }
+ *   { "type": "setEnforcedOptions", "eid": 40161, "options": "0x0003..." }
+ *   { "type": "setConfig", "lib": "0x...", "eid": 40161, "uln": { "confirmations": 2, "requiredDVNs": ["0x..."] } }
+ *   { "type": "transferOwnership", "newOwner": "0x..." }
+ *   { "type": "setGuardian", "guardian": "0x..." }
+ *   { "type": "pause", "operations": ["deposit", "transfer", "withdraw"] }   (or "all")
+ *   { "type": "unpause", "operations": "all" }
+ *   { "type": "pauseRoute", "eid": 40161 }
+ *   { "type": "unpauseRoute", "eid": 40161 }
+ *
+ * or from shorthands, added after OPS:
+ *   PAUSE / UNPAUSE              comma-separated operations, or "all"
+ *   PAUSE_ROUTES / UNPAUSE_ROUTES  comma-separated destination EIDs
+ *
+ * MODE picks what happens with them:
+ *   preview   current vs proposed state (default)
+ *   simulate  preview + eth_call each change from the owner
+ *   send      simulate, then send from PRIVATE_KEY (the owner, or the guardian
+ *             for pause and pauseRoute)
+ *   safe      simulate from SAFE and write a Safe Transaction Builder batch
+ *             to OUT (default .mixvm/safe-batch-<network>.json)
+ *
+ * Usage:
+ *   OPS=ops.json MODE=simulate npx hardhat run scripts/admin.ts --network baseSepolia
+ *   OPS=ops.json MODE=safe SAFE=0x... npx hardhat run scripts/admin.ts --network baseSepolia
+ *
+ *   # Emergency stop from the guardian key
+ *   PAUSE=all MODE=send npx hardhat run scripts/admin.ts --network baseSepolia
+ *   PAUSE_ROUTES=40161 MODE=send npx hardhat run scripts/admin.ts --network baseSepolia
+ *
+ * Optional: BRIDGE (default: the network's bridge in deployed_addresses.json)
+ */
+
+const DEPLOYED_ADDRESSES = path.join(__dirname, "..", "deployed_addresses.json");
+const MODES = ["preview", "simulate", "send", "safe"];
+
+const list = (value: string | undefined) => (value || "").split(",").map((item) => item.trim()).filter(Boolean);
+
+function pauseOperations(value: string): PausableOperation[] | "all" {
+    return value === "all" ? "all" : (list(value) as PausableOperation[]);
+}
+
+function loadOperations(): AdminOperation[] {
+    const operations: AdminOperation[] = [];
+    const source = process.env.OPS;
+    if (source) {
+        const text = source.trim().startsWith("[") ? source : fs.readFileSync(source, "utf8");
+        const parsed = JSON.parse(text);
+        operations.push(...(Array.isArray(parsed) ? parsed : [parsed]));
+    }
+    if (process.env.PAUSE) operations.push({ type: "pause", operations: pauseOperations(process.env.PAUSE) });
+    if (process.env.UNPAUSE) operations.push({ type: "unpause", operations: pauseOperations(process.env.UNPAUSE) });
+    for (const eid of list(process.env.PAUSE_ROUTES)) operations.push({ type: "pauseRoute", eid: Number(eid) });
+    for (const eid of list(process.env.UNPAUSE_ROUTES)) operations.push({ type: "unpauseRoute", eid: Number(eid) });
+    if (operations.length === 0) {
+        throw new Error("Set OPS to a JSON file or inline JSON array of operations, or PAUSE/UNPAUSE/PAUSE_ROUTES/UNPAUSE_ROUTES");
+    }
+    return operations;
+}
+
+function bridgeAddress(): string {
+    if (process.env.BRIDGE) return process.env.BRIDGE;
+    const deployed = JSON.parse(fs.readFileSync(DEPLOYED_ADDRESSES, "utf8"));
+    const address = deployed[network.name]?.contracts?.privateLZBridge;
+    if (!address) throw new Error(`No bridge for ${network.name} in deployed_addresses.json; set BRIDGE`);
+    return address;
+}
+
+function print(call: AdminCall) {
+    const status = call.unchanged
+        ? "no change"
+        : call.simulation
+          ? call.simulation.ok
+              ? "simulation OK"
+              : `simulation FAILED: ${call.simulation.error}`
+          : "change";
+    console.log(`\n${call.description}: ${status}`);
+    console.log(`   current:  ${call.current}`);
+    console.log(`   proposed: ${call.proposed}`);
+    if (call.txHash) console.log(`   tx: ${call.txHash}`);
+}
+
+async function main() {
+    const mode = process.env.MODE || "preview";
+    if (!MODES.includes(mode)) throw new Error(`MODE must be one of ${MODES.join(", ")}`);
+
+    const bridge = bridgeAddress();
+    const calls = await planAdminCalls(bridge, ethers.provider, loadOperations());
+    const contract = new ethers.Contract(bridge, ADMIN_BRIDGE_ABI, ethers.provider);
+    const owner: string = await contract.owner();
+    // Bridges deployed before pause flags have no guardian
+    const guardian: string = await contract.guardian().catch(() => ethers.ZeroAddress);
+    console.log(`=== PrivateLZBridge admin (${mode}) ===`);
+    console.log(`Network: ${network.name}, bridge ${bridge}, owner ${owner}, guardian ${guardian}`);
+
+    const [signer] = mode === "send" ? await ethers.getSigners() : [];
+    if (signer && ![owner, guardian].map((a) => a.toLowerCase()).includes(signer.address.toLowerCase())) {
+        throw new Error(`${signer.address} is neither the owner (${owner}) nor the guardian; use MODE=safe for a multisig owner`);
+    }
+
+    let ok = true;
+    if (mode === "simulate") ok = await simulateAdminCalls(calls, ethers.provider, owner);
+    if (mode === "send") ok = await simulateAdminCalls(calls, ethers.provider, signer.address);
+    if (mode === "safe") {
+        if (!process.env.SAFE) throw new Error("Set SAFE to the multisig that owns the bridge");
+        if (process.env.SAFE.toLowerCase() !== owner.toLowerCase()) console.log(`Warning: the bridge is owned by ${owner}, not ${process.env.SAFE}`);
+        ok = await simulateAdminCalls(calls, ethers.provider, process.env.SAFE);
+    }
+    calls.forEach(print);
+
+    const changes = calls.filter((call) => !call.unchanged).length;
+    if (changes === 0) {
+        console.log("\nNothing to change");
+        return;
+    }
+    if (!ok) {
+        console.log("\nSimulation failed; nothing was sent or exported");
+        process.exitCode = 1;
+        return;
+    }
+
+    if (mode === "send") {
+        await sendAdminCalls(calls, signer, (call) => console.log(`Sent ${call.description}: ${call.txHash}`));
+        console.log(`\n${changes} change(s) sent`);
+    } else if (mode === "safe") {
+        const chainId = Number((await ethers.provider.getNetwork()).chainId);
+        const out = process.env.OUT || `.mixvm/safe-batch-${network.name}.json`;
+        fs.mkdirSync(path.dirname(out), { recursive: true });
+        fs.writeFileSync(out, JSON.stringify(safeBatch(calls, chainId, process.env.SAFE!), null, 2));
+        console.log(`\n${changes} transaction(s) written to ${out}; import it in the Safe Transaction Builder`);
+    }
+}
+
+main().catch((error) => {
+    console.error(describeError(error));
+    process.exitCode = 1;
+});
@@ -0,0 +1,76 @@
+import { config, ethers } from "hardhat";
+import * as fs from "fs";
+import * as path from "path";
+import { Provider } from "ethers";
+import { HttpNetworkConfig } from "hardhat/types";
+import { DriftCheck, DriftReport, checkDrift } from "./deploy/drift";
+
+/**
+ * Check every bridge's on-chain configuration against deployed_addresses.json
+ *
+ * Reports peers, CCTP domains, enforced options, owner, verifiers and the
+ * endpoint's send/receive libraries and ULN (DVN) config per direction, and
+ * exits with code 1 when anything drifted or could not be read.
+ *
+ * Usage:
+ *   npx hardhat run scripts/check-config.ts
+ *
+ *   # Machine-readable report
+ *   FORMAT=json npx hardhat run scripts/check-config.ts
+ *
+ * Optional: DEPLOYED_ADDRESSES (default deployed_addresses.json), CHAINS
+ * (comma-separated network names), OWNER (expected owner of every bridge)
+ */
+
+const DEPLOYED_PATH = process.env.DEPLOYED_ADDRESSES || path.join(__dirname, "..", "deployed_addresses.json");
+
+// Providers for the deployed chains, through the hardhat network of the same name
+function loadProviders(deployed: Record<string, any>): Record<string, Provider> {
+    const only = (process.env.CHAINS || "").split(",").filter(Boolean);
+    const providers: Record<string, Provider> = {};
+    for (const [name, entry] of Object.entries<any>(deployed)) {
+        if (!entry?.lzEid || (only.length > 0 && !only.includes(name))) continue;
+        const networkConfig = config.networks[name] as HttpNetworkConfig | undefined;
+        if (!networkConfig?.url) continue;
+        providers[name] = new ethers.JsonRpcProvider(networkConfig.url, entry.chainId, { staticNetwork: true });
+    }
+    return providers;
+}
+
+function describeCheck(check: DriftCheck): string {
+    const where = `[${check.chain}] ${check.check}`;
+    if (check.status === "error") return `  ERROR     ${where}: ${check.error}`;
+    return `  MISMATCH  ${where}: expected ${check.expected}, got ${check.actual}`;
+}
+
+function print(report: DriftReport) {
+    const sections = [
+        ...report.chains.map((entry) => ({ title: entry.chain, checks: entry.checks })),
+        ...report.directions.map((entry) => ({ title: `${entry.from} -> ${entry.to}`, checks: entry.checks })),
+    ];
+    for (const { title, checks } of sections) {
+        const problems = checks.filter((c) => c.status === "mismatch" || c.status === "error");
+        const unchecked = checks.filter((c) => c.status === "unchecked").map((c) => c.check);
+        const summary = problems.length === 0 ? "OK" : `${problems.length} problem(s)`;
+        console.log(`${title}: ${summary}${unchecked.length > 0 ? ` (not checked: ${unchecked.join(", ")})` : ""}`);
+        for (const problem of problems) console.log(describeCheck(problem));
+    }
+    console.log(report.ok ? "\nNo drift" : "\nConfiguration drift found");
+}
+
+async function main() {
+    const deployed = JSON.parse(fs.readFileSync(DEPLOYED_PATH, "utf8"));
+    const report = await checkDrift(deployed, { providers: loadProviders(deployed), owner: process.env.OWNER });
+
+    if (process.env.FORMAT === "json") {
+        console.log(JSON.stringify(report, null, 2));
+    } else {
+        print(report);
+    }
+    if (!report.ok) process.exitCode = 1;
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+});
@@ -0,0 +1,104 @@
+import { config, ethers } from "hardhat";
+import * as fs from "fs";
+import * as path from "path";
+import { HttpNetworkConfig } from "hardhat/types";
+import { Signer } from "ethers";
+import { writeChainConfigs } from "./deploy/codegen";
+import { ChainSet, DeployedAddresses, PipelineStep, runPipeline } from "./deploy/pipeline";
+
+/**
+ * Deploy and wire the bridge on every chain of a chain set
+ *
+ * Reads the chain set (CHAIN_SET, default deploy-config.json), deploys what
+ * is missing, wires peers, CCTP domains, enforced options and DVNs across
+ * every chain pair, records each step in DEPLOYED_ADDRESSES (default
+ * deployed_addresses.json) and regenerates sdk/src/deployments.ts and
+ * webapp-layerzero/src/lib/deployments.ts. Steps whose on-chain state is
+ * already correct are skipped, so re-running is safe.
+ *
+ * Usage:
+ *   PRIVATE_KEY=0x... npx hardhat run scripts/deploy.ts
+ *
+ *   # Show the steps that would run, without sending anything
+ *   DRY_RUN=1 npx hardhat run scripts/deploy.ts
+ *
+ *   # Only regenerate the SDK and webapp configs
+ *   CODEGEN_ONLY=1 npx hardhat run scripts/deploy.ts
+ *
+ *   # Deploy a transfer verifier built from a local powers of tau (devnets only)
+ *   ALLOW_DEV_SETUP=1 npx hardhat run scripts/deploy.ts
+ *
+ * Chains are reached through the hardhat network of the same name
+ * (baseSepolia, ethereumSepolia, ...). Optional: CHAINS (comma-separated
+ * subset of the chain set)
+ */
+
+const ROOT = path.join(__dirname, "..");
+const CHAIN_SET_PATH = process.env.CHAIN_SET || path.join(ROOT, "deploy-config.json");
+const DEPLOYED_PATH = process.env.DEPLOYED_ADDRESSES || path.join(ROOT, "deployed_addresses.json");
+
+function loadChainSet(): ChainSet {
+    const chainSet: ChainSet = JSON.parse(fs.readFileSync(CHAIN_SET_PATH, "utf8"));
+    const only = (process.env.CHAINS || "").split(",").filter(Boolean);
+    for (const name of only) {
+        if (!chainSet.chains[name]) throw new Error(`${name} is not in ${CHAIN_SET_PATH}`);
+    }
+    if (only.length > 0) {
+        chainSet.chains = Object.fromEntries(Object.entries(chainSet.chains).filter(([name]) => only.includes(name)));
+    }
+    return chainSet;
+}
+
+function loadSigners(chainSet: ChainSet): Record<string, Signer> {
+    const privateKey = process.env.PRIVATE_KEY;
+    if (!privateKey) throw new Error("Set PRIVATE_KEY to the deployer key");
+    const signers: Record<string, Signer> = {};
+    for (const [name, chain] of Object.entries(chainSet.chains)) {
+        const networkConfig = config.networks[name] as HttpNetworkConfig | undefined;
+        if (!networkConfig?.url) throw new Error(`No hardhat network ${name} with an RPC URL`);
+        const provider = new ethers.JsonRpcProvider(networkConfig.url, chain.chainId, { staticNetwork: true });
+        signers[name] = new ethers.Wallet(privateKey, provider);
+    }
+    return signers;
+}
+
+function printStep(step: PipelineStep) {
+    const detail = step.address ?? step.txHash ?? "";
+    console.log(`  [${step.status.padEnd(7)}] ${step.chain}: ${step.step}${detail ? ` (${detail})` : ""}`);
+}
+
+function save(deployed: DeployedAddresses) {
+    fs.writeFileSync(DEPLOYED_PATH, JSON.stringify(deployed, null, 2) + "\n");
+}
+
+async function main() {
+    const deployed: DeployedAddresses = fs.existsSync(DEPLOYED_PATH)
+        ? JSON.parse(fs.readFileSync(DEPLOYED_PATH, "utf8"))
+        : {};
+
+    if (!process.env.CODEGEN_ONLY) {
+        const chainSet = loadChainSet();
+        const dryRun = !!process.env.DRY_RUN;
+        console.log(`=== ${dryRun ? "Planning" : "Running"} deployment: ${Object.keys(chainSet.chains).join(", ")} ===`);
+
+        const steps = await runPipeline(chainSet, {
+            signers: loadSigners(chainSet),
+            deployed,
+            dryRun,
+            onStep: printStep,
+            save,
+            allowDevSetup: !!process.env.ALLOW_DEV_SETUP,
+        });
+        const count = (status: string) => steps.filter((s) => s.status === status).length;
+        console.log(`\n${count("done")} done, ${count("skipped")} already in place, ${count("planned")} planned`);
+        if (dryRun) return;
+    }
+
+    const changed = writeChainConfigs(deployed, ROOT);
+    console.log(changed.length > 0 ? `Regenerated ${changed.join(", ")}` : "Chain configs are up to date");
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+});
@@ -0,0 +1,273 @@
+import { Contract, Interface, Provider, Signer, ethers } from "ethers";
+import { decodeError } from "../../sdk/src/errors";
+import { decodeLzOptions } from "../../sdk/src/lzOptions";
+import { PAUSABLE_OPERATIONS, pauseBits, pausedFromBits } from "../../sdk/src/pause";
+import { PausableOperation } from "../../sdk/src/types";
+import { CONFIG_TYPE_ULN, UlnConfig, decodeUlnConfig, encodeUlnConfig } from "./pipeline";
+
+/**
+ * Bridge owner operations: preview, simulate, send or export as a Safe batch
+ *
+ * Each operation is turned into a call on PrivateLZBridge together with the
+ * state it changes, read before and rendered after. Calls whose proposed
+ * state is already in place are marked unchanged and left out of sends and
+ * batches. transferOwnership always goes last: nothing after it would
+ * still come from the owner.
+ *
+ * pause and pauseRoute may also come from the guardian; unpausing and
+ * everything else needs the owner.
+ */
+
+export type AdminOperation =
+    | { type: "setPeer"; eid: number; /** Remote bridge address or bytes32 */ peer: string }
+    | { type: "setCCTPDomain"; eid: number; domain: number }
+    | { type: "setEnforcedOptions"; eid: number; options: string }
+    | {
+          type: "setConfig";
+          lib: string;
+          eid: number;
+          /** ULN config (config type 2); or give configType + raw config */
+          uln?: UlnConfig;
+          configType?: number;
+          config?: string;
+      }
+    | { type: "transferOwnership"; newOwner: string }
+    | { type: "setGuardian"; guardian: string }
+    | { type: "pause"; operations: PausableOperation[] | "all" }
+    | { type: "unpause"; operations: PausableOperation[] | "all" }
+    | { type: "pauseRoute"; eid: number }
+    | { type: "unpauseRoute"; eid: number };
+
+export interface AdminCall {
+    operation: AdminOperation;
+    /** e.g. "setPeer(40161)" */
+    description: string;
+    to: string;
+    data: string;
+    /** Readable state before and after */
+    current: string;
+    proposed: string;
+    unchanged: boolean;
+    simulation?: { ok: boolean; error?: string; code?: string };
+    txHash?: string;
+}
+
+export const ADMIN_BRIDGE_ABI = [
+    "function owner() view returns (address)",
+    "function lzEndpoint() view returns (address)",
+    "function peers(uint32 eid) view returns (bytes32)",
+    "function cctpDomains(uint32 eid) view returns (uint32)",
+    "function cctpDomainSet(uint32 eid) view returns (bool)",
+    "function enforcedOptions(uint32 eid) view returns (bytes)",
+    "function guardian() view returns (address)",
+    "function pausedOperations() view returns (uint8)",
+    "function routePaused(uint32 eid) view returns (bool)",
+    "function setPeer(uint32 eid, bytes32 peer)",
+    "function setCCTPDomain(uint32 lzEid, uint32 cctpDomain)",
+    "function setEnforcedOptions(uint32 eid, bytes options)",
+    "function setConfig(address lib, tuple(uint32 eid, uint32 configType, bytes config)[] params)",
+    "function transferOwnership(address newOwner)",
+    "function setGuardian(address guardian)",
+    "function pause(uint8 operations)",
+    "function unpause(uint8 operations)",
+    "function pauseRoute(uint32 dstEid)",
+    "function unpauseRoute(uint32 dstEid)",
+];
+
+const ENDPOINT_ABI = [
+    "function getConfig(address oapp, address lib, uint32 eid, uint32 configType) view returns (bytes)",
+];
+
+const bridgeInterface = new Interface(ADMIN_BRIDGE_ABI);
+
+// Safe{Wallet} Transaction Builder file format
+const SAFE_TX_BUILDER_VERSION = "1.16.5";
+
+export interface SafeBatch {
+    version: "1.0";
+    chainId: string;
+    createdAt: number;
+    meta: {
+        name: string;
+        description: string;
+        txBuilderVersion: string;
+        createdFromSafeAddress: string;
+        createdFromOwnerAddress: string;
+    };
+    transactions: { to: string; value: string; data: string; contractMethod: null; contractInputsValues: null }[];
+}
+
+// ============ Planning ============
+
+function describeOptions(options: string): string {
+    if (ethers.dataLength(options) === 0) return "none (bridge default)";
+    const gas = decodeLzOptions(options).lzReceive?.gas;
+    return gas !== undefined ? `${options} (lzReceive gas ${gas})` : options;
+}
+
+function describeConfig(configType: number, config: string): string {
+    if (configType !== CONFIG_TYPE_ULN) return ethers.dataLength(config) === 0 ? "unset" : config;
+    const uln = decodeUlnConfig(config);
+    return uln ? `${uln.confirmations} confirmations, DVNs [${uln.requiredDVNs.join(", ")}]` : "unset";
+}
+
+function describePaused(bits: number): string {
+    const paused = pausedFromBits(bits);
+    const names = PAUSABLE_OPERATIONS.filter((operation) => paused[operation]);
+    return names.length > 0 ? names.join(", ") : "none";
+}
+
+async function planCall(bridge: Contract, endpoint: () => Promise<Contract>, op: AdminOperation): Promise<AdminCall> {
+    const call = (description: string, fn: string, args: unknown[], current: string, proposed: string): AdminCall => ({
+        operation: op,
+        description,
+        to: bridge.target as string,
+        data: bridgeInterface.encodeFunctionData(fn, args),
+        current,
+        proposed,
+        unchanged: current.toLowerCase() === proposed.toLowerCase(),
+    });
+
+    switch (op.type) {
+        case "setPeer": {
+            const peer = ethers.zeroPadValue(op.peer, 32);
+            return call(`setPeer(${op.eid})`, "setPeer", [op.eid, peer], await bridge.peers(op.eid), peer);
+        }
+        case "setCCTPDomain": {
+            const current = (await bridge.cctpDomainSet(op.eid)) ? String(await bridge.cctpDomains(op.eid)) : "unset";
+            return call(`setCCTPDomain(${op.eid})`, "setCCTPDomain", [op.eid, op.domain], current, String(op.domain));
+        }
+        case "setEnforcedOptions": {
+            const options = ethers.hexlify(op.options);
+            const current = describeOptions(await bridge.enforcedOptions(op.eid));
+            return call(`setEnforcedOptions(${op.eid})`, "setEnforcedOptions", [op.eid, options], current, describeOptions(options));
+        }
+        case "setConfig": {
+            const configType = op.uln ? CONFIG_TYPE_ULN : op.configType;
+            const config = op.uln ? encodeUlnConfig(op.uln) : op.config;
+            if (configType === undefined || config === undefined) {
+                throw new Error("setConfig needs either uln or configType and config");
+            }
+            let current: string;
+            try {
+                current = describeConfig(configType, await (await endpoint()).getConfig(bridge.target, op.lib, op.eid, configType));
+            } catch {
+                current = "unknown";
+            }
+            return call(
+                `setConfig(${op.lib}, ${op.eid}, type ${configType})`,
+                "setConfig",
+                [op.lib, [{ eid: op.eid, configType, config }]],
+                current,
+                describeConfig(configType, config)
+            );
+        }
+        case "transferOwnership": {
+            const newOwner = ethers.getAddress(op.newOwner);
+            return call("transferOwnership", "transferOwnership", [newOwner], await bridge.owner(), newOwner);
+        }
+        case "setGuardian": {
+            const guardian = ethers.getAddress(op.guardian);
+            return call("setGuardian", "setGuardian", [guardian], await bridge.guardian(), guardian);
+        }
+        case "pause":
+        case "unpause": {
+            const bits = pauseBits(op.operations === "all" ? PAUSABLE_OPERATIONS : op.operations);
+            if (bits === 0) throw new Error(`${op.type} needs at least one operation`);
+            const current = Number(await bridge.pausedOperations());
+            const proposed = op.type === "pause" ? current | bits : current & ~bits;
+            return call(`${op.type}(${describePaused(bits)})`, op.type, [bits], describePaused(current), describePaused(proposed));
+        }
+        case "pauseRoute":
+        case "unpauseRoute": {
+            const state = (paused: boolean) => (paused ? "paused" : "open");
+            const current = state(await bridge.routePaused(op.eid));
+            return call(`${op.type}(${op.eid})`, op.type, [op.eid], current, state(op.type === "pauseRoute"));
+        }
+    }
+}
+
+/**
+ * Encode operations and read the state each one changes
+ */
+export async function planAdminCalls(bridgeAddress: string, provider: Provider, operations: AdminOperation[]): Promise<AdminCall[]> {
+    const bridge = new Contract(bridgeAddress, ADMIN_BRIDGE_ABI, provider);
+    let endpoint: Contract | undefined;
+    const getEndpoint = async () => (endpoint ??= new Contract(await bridge.lzEndpoint(), ENDPOINT_ABI, provider));
+
+    const ordered = [
+        ...operations.filter((op) => op.type !== "transferOwnership"),
+        ...operations.filter((op) => op.type === "transferOwnership"),
+    ];
+    const calls: AdminCall[] = [];
+    for (const op of ordered) calls.push(await planCall(bridge, getEndpoint, op));
+    return calls;
+}
+
+// ============ Execution ============
+
+/**
+ * eth_call every changing call from `from` (default: the bridge's current owner)
+ *
+ * Calls are simulated one by one against the current state. Returns true
+ * when all of them would succeed.
+ */
+export async function simulateAdminCalls(calls: AdminCall[], provider: Provider, from?: string): Promise<boolean> {
+    const sender = from ?? (calls.length > 0 ? await new Contract(calls[0].to, ADMIN_BRIDGE_ABI, provider).owner() : undefined);
+    let ok = true;
+    for (const call of calls) {
+        if (call.unchanged) continue;
+        try {
+            await provider.call({ to: call.to, data: call.data, from: sender });
+            call.simulation = { ok: true };
+        } catch (err) {
+            const decoded = decodeError(err, call.description);
+            call.simulation = { ok: false, error: decoded.message, code: decoded.code };
+            ok = false;
+        }
+    }
+    return ok;
+}
+
+/**
+ * Send the changing calls in order, stopping at the first failure
+ */
+export async function sendAdminCalls(calls: AdminCall[], signer: Signer, onSent?: (call: AdminCall) => void): Promise<void> {
+    for (const call of calls) {
+        if (call.unchanged) continue;
+        try {
+            const tx = await signer.sendTransaction({ to: call.to, data: call.data });
+            call.txHash = tx.hash;
+            await tx.wait();
+        } catch (err) {
+            throw decodeError(err, call.description);
+        }
+        onSent?.(call);
+    }
+}
+
+/**
+ * Safe Transaction Builder batch of the changing calls
+ */
+export function safeBatch(calls: AdminCall[], chainId: number, safeAddress: string, name = "PrivateLZBridge admin"): SafeBatch {
+    const changing = calls.filter((call) => !call.unchanged);
+    return {
+        version: "1.0",
+        chainId: String(chainId),
+        createdAt: Date.now(),
+        meta: {
+            name,
+            description: changing.map((call) => call.description).join("; "),
+            txBuilderVersion: SAFE_TX_BUILDER_VERSION,
+            createdFromSafeAddress: safeAddress,
+            createdFromOwnerAddress: "",
+        },
+        transactions: changing.map((call) => ({
+            to: call.to,
+            value: "0",
+            data: call.data,
+            contractMethod: null,
+            contractInputsValues: null,
+        })),
+    };
+}
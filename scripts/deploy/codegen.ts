@@ -0,0 +1,153 @@
+import * as fs from "fs";
+import * as path from "path";
+import { DeployedAddresses, DeployedChain } from "./pipeline";
+
+/**
+ * Chain configs generated from deployed_addresses.json
+ *
+ * The SDK (sdk/src/deployments.ts) and the webapp
+ * (webapp-layerzero/src/lib/deployments.ts) read contract addresses, EIDs,
+ * CCTP domains and deploy blocks from these files; RPCs, explorers and gas
+ * settings stay hand-written in their chains.ts.
+ */
+
+export const SDK_DEPLOYMENTS_PATH = path.join("sdk", "src", "deployments.ts");
+export const WEBAPP_DEPLOYMENTS_PATH = path.join("webapp-layerzero", "src", "lib", "deployments.ts");
+
+const HEADER = "// Generated by scripts/deploy.ts from deployed_addresses.json. Do not edit.";
+
+function deployedChains(deployed: DeployedAddresses): [string, DeployedChain][] {
+    return Object.entries(deployed).filter(
+        ([, entry]) => typeof entry === "object" && entry?.lzEid !== undefined && entry.contracts?.privateLZBridge
+    );
+}
+
+/**
+ * sdk/src/deployments.ts (2-space indent, double quotes)
+ */
+export function renderSdkDeployments(deployed: DeployedAddresses): string {
+    const entries = deployedChains(deployed).map(([name, chain]) => {
+        const c = chain.contracts;
+        return [
+            `  ${name}: {`,
+            `    chainId: ${chain.chainId},`,
+            `    lzEid: ${chain.lzEid},`,
+            `    cctpDomain: ${chain.cctpDomain},`,
+            `    deployBlock: ${chain.deployBlock ?? 0},`,
+            `    contracts: {`,
+            `      privateLZBridge: "${c.privateLZBridge}",`,
+            `      transferVerifier: "${c.transferVerifier ?? ""}",`,
+            `      withdrawVerifier: "${c.withdrawVerifier ?? ""}",`,
+            `      poseidonHasher: "${c.poseidonHasher ?? ""}",`,
+            `      stealthRegistry: "${c.stealthRegistry ?? ""}",`,
+            `    },`,
+            `    lzEndpoint: "${chain.layerzero.endpoint}",`,
+            `    cctp: {`,
+            `      tokenMessenger: "${chain.cctp.tokenMessenger}",`,
+            `      messageTransmitter: "${chain.cctp.messageTransmitter}",`,
+            `      usdc: "${chain.cctp.usdc}",`,
+            `    },`,
+            `  },`,
+        ].join("\n");
+    });
+    return [
+        HEADER,
+        "",
+        "/**",
+        " * Deployed PrivateLZBridge contracts, keyed by network name",
+        " */",
+        "export interface Deployment {",
+        "  chainId: number;",
+        "  lzEid: number;",
+        "  cctpDomain: number;",
+        "  /** Block the bridge was deployed in (event scans start here) */",
+        "  deployBlock: number;",
+        "  contracts: {",
+        "    privateLZBridge: string;",
+        "    transferVerifier: string;",
+        "    withdrawVerifier: string;",
+        "    poseidonHasher: string;",
+        "    stealthRegistry: string;",
+        "  };",
+        "  lzEndpoint: string;",
+        "  cctp: {",
+        "    tokenMessenger: string;",
+        "    messageTransmitter: string;",
+        "    usdc: string;",
+        "  };",
+        "}",
+        "",
+        `export const DEPLOYMENTS_VERSION = ${JSON.stringify(deployed.version ?? "")};`,
+        "",
+        "export const DEPLOYMENTS: Record<string, Deployment> = {",
+        ...entries,
+        "};",
+        "",
+    ].join("\n");
+}
+
+/**
+ * webapp-layerzero/src/lib/deployments.ts (4-space indent, the ChainConfig fields chains.ts spreads in)
+ */
+export function renderWebappDeployments(deployed: DeployedAddresses): string {
+    const entries = deployedChains(deployed).map(([name, chain]) => {
+        const c = chain.contracts;
+        return [
+            `    ${name}: {`,
+            `        id: ${chain.chainId},`,
+            `        lzEid: ${chain.lzEid},`,
+            `        bridge: "${c.privateLZBridge}",`,
+            `        deployBlock: ${chain.deployBlock ?? 0},`,
+            `        stealthRegistry: "${c.stealthRegistry ?? ""}",`,
+            `        transferVerifier: "${c.transferVerifier ?? ""}",`,
+            `        withdrawVerifier: "${c.withdrawVerifier ?? ""}",`,
+            `        poseidonHasher: "${c.poseidonHasher ?? ""}",`,
+            `        usdc: "${chain.cctp.usdc}",`,
+            `        cctpDomain: ${chain.cctpDomain},`,
+            `        cctpMessageTransmitter: "${chain.cctp.messageTransmitter}",`,
+            `    },`,
+        ].join("\n");
+    });
+    return [
+        HEADER,
+        "",
+        "export interface Deployment {",
+        "    id: number;",
+        "    lzEid: number;",
+        "    bridge: string;",
+        "    deployBlock: number;",
+        "    stealthRegistry: string;",
+        "    transferVerifier: string;",
+        "    withdrawVerifier: string;",
+        "    poseidonHasher: string;",
+        "    usdc: string;",
+        "    cctpDomain: number;",
+        "    cctpMessageTransmitter: string;",
+        "}",
+        "",
+        `export const DEPLOYMENTS_VERSION = ${JSON.stringify(deployed.version ?? "")};`,
+        "",
+        "// Keyed by network name",
+        "export const DEPLOYMENTS: Record<string, Deployment> = {",
+        ...entries,
+        "};",
+        "",
+    ].join("\n");
+}
+
+/**
+ * Write both generated files under `rootDir`; returns the paths that changed
+ */
+export function writeChainConfigs(deployed: DeployedAddresses, rootDir: string): string[] {
+    const changed: string[] = [];
+    for (const [file, content] of [
+        [SDK_DEPLOYMENTS_PATH, renderSdkDeployments(deployed)],
+        [WEBAPP_DEPLOYMENTS_PATH, renderWebappDeployments(deployed)],
+    ]) {
+        const target = path.join(rootDir, file);
+        if (fs.existsSync(target) && fs.readFileSync(target, "utf8") === content) continue;
+        fs.writeFileSync(target, content);
+        changed.push(file);
+    }
+    return changed;
+}
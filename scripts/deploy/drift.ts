@@ -0,0 +1,233 @@
+import { Contract, Provider, ethers } from "ethers";
+import { lzReceiveOptions } from "../../sdk/src/lzOptions";
+import { CONFIG_TYPE_ULN, DeployedAddresses, DeployedChain, UlnConfig, decodeUlnConfig, sameUlnConfig } from "./pipeline";
+
+/**
+ * Configuration drift checks
+ *
+ * Compares every bridge listed in deployed_addresses.json with what the file
+ * says it should be. Per chain: the bridge's owner, endpoint, verifiers,
+ * hasher, USDC, TokenMessenger and local EID, and the recorded
+ * MessageTransmitter's domain. Per direction A -> B: A's peer, CCTP domain,
+ * enforced options, send library and its ULN config for B, and B's receive
+ * library and its ULN config for A. (B's peer for A, which B also needs to
+ * accept A's messages, is checked under B -> A.)
+ *
+ * Enforced options and ULN confirmations are compared with the wiring the
+ * deploy pipeline recorded; without a record the options must be the
+ * bridge's default (500k lzReceive gas) and only the DVNs are compared.
+ */
+
+export type DriftStatus = "ok" | "mismatch" | "error" | "unchecked";
+
+export interface DriftCheck {
+    /** e.g. "peer", "owner", "receive ULN config" */
+    check: string;
+    /** Chain whose contract was queried */
+    chain: string;
+    status: DriftStatus;
+    expected?: string;
+    actual?: string;
+    error?: string;
+}
+
+export interface DriftReport {
+    /** No mismatches and no failed queries */
+    ok: boolean;
+    chains: { chain: string; checks: DriftCheck[] }[];
+    directions: { from: string; to: string; checks: DriftCheck[] }[];
+}
+
+export interface DriftOptions {
+    /** Read-only provider per network name */
+    providers: Record<string, Provider>;
+    /** Expected owner of every bridge (default: the owner recorded per chain) */
+    owner?: string;
+}
+
+// PrivateLZBridge's options when none are enforced
+const DEFAULT_ENFORCED_OPTIONS = lzReceiveOptions(500_000n);
+
+const BRIDGE_ABI = [
+    "function owner() view returns (address)",
+    "function lzEndpoint() view returns (address)",
+    "function transferVerifier() view returns (address)",
+    "function withdrawVerifier() view returns (address)",
+    "function poseidonHasher() view returns (address)",
+    "function usdc() view returns (address)",
+    "function localEid() view returns (uint32)",
+    "function cctpMessenger() view returns (address)",
+    "function peers(uint32 eid) view returns (bytes32)",
+    "function cctpDomains(uint32 eid) view returns (uint32)",
+    "function cctpDomainSet(uint32 eid) view returns (bool)",
+    "function enforcedOptions(uint32 eid) view returns (bytes)",
+];
+
+const ENDPOINT_ABI = [
+    "function getSendLibrary(address sender, uint32 dstEid) view returns (address)",
+    "function getReceiveLibrary(address receiver, uint32 srcEid) view returns (address lib, bool isDefault)",
+    "function getConfig(address oapp, address lib, uint32 eid, uint32 configType) view returns (bytes)",
+];
+
+const MESSAGE_TRANSMITTER_ABI = ["function localDomain() view returns (uint32)"];
+
+type Expectation = string | number | undefined;
+
+const normalize = (value: unknown) => String(value).toLowerCase();
+
+const formatUln = (uln: UlnConfig | undefined) =>
+    uln ? `${uln.confirmations} confirmations, DVNs [${uln.requiredDVNs.join(", ")}]` : "unset";
+
+class DriftChecker {
+    constructor(
+        private deployed: DeployedAddresses,
+        private options: DriftOptions
+    ) {}
+
+    async run(): Promise<DriftReport> {
+        const names = Object.keys(this.deployed).filter((name) => this.chain(name) !== undefined);
+        const report: DriftReport = { ok: true, chains: [], directions: [] };
+
+        for (const name of names) {
+            report.chains.push({ chain: name, checks: await this.checkChain(name) });
+        }
+        for (const from of names) {
+            for (const to of names) {
+                if (from !== to) report.directions.push({ from, to, checks: await this.checkDirection(from, to) });
+            }
+        }
+
+        const all = [...report.chains, ...report.directions].flatMap((entry) => entry.checks);
+        report.ok = all.every((check) => check.status === "ok" || check.status === "unchecked");
+        return report;
+    }
+
+    private async checkChain(name: string): Promise<DriftCheck[]> {
+        const chain = this.chain(name)!;
+        const bridge = this.bridge(name);
+        const checks: DriftCheck[] = [];
+        const owner = this.options.owner ?? chain.owner;
+
+        checks.push(await this.compare(name, "owner", owner, () => bridge.owner()));
+        checks.push(await this.compare(name, "endpoint", chain.layerzero?.endpoint, () => bridge.lzEndpoint()));
+        checks.push(await this.compare(name, "transfer verifier", chain.contracts.transferVerifier, () => bridge.transferVerifier()));
+        checks.push(await this.compare(name, "withdraw verifier", chain.contracts.withdrawVerifier, () => bridge.withdrawVerifier()));
+        checks.push(await this.compare(name, "Poseidon hasher", chain.contracts.poseidonHasher, () => bridge.poseidonHasher()));
+        checks.push(await this.compare(name, "USDC", chain.cctp?.usdc, () => bridge.usdc()));
+        checks.push(await this.compare(name, "TokenMessenger", chain.cctp?.tokenMessenger, () => bridge.cctpMessenger()));
+        checks.push(await this.compare(name, "local EID", chain.lzEid, () => bridge.localEid()));
+
+        const transmitter = chain.cctp?.messageTransmitter;
+        checks.push(await this.compare(name, "MessageTransmitter domain", transmitter ? chain.cctpDomain : undefined, async () => {
+            if ((await this.provider(name).getCode(transmitter!)) === "0x") return "no contract";
+            return new Contract(transmitter!, MESSAGE_TRANSMITTER_ABI, this.provider(name)).localDomain();
+        }));
+        return checks;
+    }
+
+    private async checkDirection(from: string, to: string): Promise<DriftCheck[]> {
+        const src = this.chain(from)!;
+        const dst = this.chain(to)!;
+        const bridge = this.bridge(from);
+        const wiring = src.wiring?.[to];
+        const checks: DriftCheck[] = [];
+
+        checks.push(await this.compare(from, "peer", ethers.zeroPadValue(dst.contracts.privateLZBridge!, 32), () => bridge.peers(dst.lzEid)));
+        checks.push(await this.compare(from, "CCTP domain", dst.cctpDomain, async () =>
+            (await bridge.cctpDomainSet(dst.lzEid)) ? bridge.cctpDomains(dst.lzEid) : "unset"));
+        checks.push(await this.compare(from, "enforced options", wiring?.enforcedOptions ?? DEFAULT_ENFORCED_OPTIONS, async () => {
+            const options: string = await bridge.enforcedOptions(dst.lzEid);
+            // Nothing enforced: the bridge falls back to its default
+            return options === "0x" ? DEFAULT_ENFORCED_OPTIONS : options;
+        }));
+
+        const sendLib = src.layerzero?.sendUln302;
+        const receiveLib = dst.layerzero?.receiveUln302;
+        checks.push(await this.compare(from, "send library", sendLib, () =>
+            this.endpoint(from).getSendLibrary(src.contracts.privateLZBridge, dst.lzEid)));
+        checks.push(await this.compareUln(from, "send ULN config", sendLib, src, dst.lzEid, wiring?.uln.confirmations));
+        checks.push(await this.compare(to, "receive library", receiveLib, async () =>
+            (await this.endpoint(to).getReceiveLibrary(dst.contracts.privateLZBridge, src.lzEid)).lib));
+        checks.push(await this.compareUln(to, "receive ULN config", receiveLib, dst, src.lzEid, dst.wiring?.[from]?.uln.confirmations));
+        return checks;
+    }
+
+    private async compareUln(
+        name: string,
+        check: string,
+        lib: string | undefined,
+        chain: DeployedChain,
+        eid: number,
+        confirmations: number | undefined
+    ): Promise<DriftCheck> {
+        if (!lib || !chain.layerzero?.dvn) return { check, chain: name, status: "unchecked" };
+        try {
+            const actual = decodeUlnConfig(await this.endpoint(name).getConfig(chain.contracts.privateLZBridge, lib, eid, CONFIG_TYPE_ULN));
+            // Without recorded wiring only the DVNs are known
+            const expected: UlnConfig = {
+                confirmations: confirmations ?? actual?.confirmations ?? 0,
+                requiredDVNs: [ethers.getAddress(chain.layerzero.dvn)],
+            };
+            return {
+                check,
+                chain: name,
+                status: sameUlnConfig(actual, expected) ? "ok" : "mismatch",
+                expected: confirmations === undefined ? `DVNs [${expected.requiredDVNs.join(", ")}]` : formatUln(expected),
+                actual: formatUln(actual),
+            };
+        } catch (err: any) {
+            return { check, chain: name, status: "error", error: err?.shortMessage ?? err?.message ?? String(err) };
+        }
+    }
+
+    private async compare(name: string, check: string, expected: Expectation, read: () => Promise<unknown>): Promise<DriftCheck> {
+        if (expected === undefined) return { check, chain: name, status: "unchecked" };
+        try {
+            const actual = String(await read());
+            return {
+                check,
+                chain: name,
+                status: normalize(actual) === normalize(expected) ? "ok" : "mismatch",
+                expected: String(expected),
+                actual,
+            };
+        } catch (err: any) {
+            return { check, chain: name, status: "error", expected: String(expected), error: err?.shortMessage ?? err?.message ?? String(err) };
+        }
+    }
+
+    private chain(name: string): DeployedChain | undefined {
+        const entry = this.deployed[name];
+        return typeof entry === "object" && entry?.lzEid !== undefined && entry.contracts?.privateLZBridge && this.options.providers[name]
+            ? entry
+            : undefined;
+    }
+
+    private provider(name: string): Provider {
+        return this.options.providers[name];
+    }
+
+    private bridge(name: string): Contract {
+        return new Contract(this.chain(name)!.contracts.privateLZBridge!, BRIDGE_ABI, this.provider(name));
+    }
+
+    private endpoint(name: string): Contract {
+        return new Contract(this.chain(name)!.layerzero.endpoint, ENDPOINT_ABI, this.provider(name));
+    }
+}
+
+/**
+ * Check every bridge in `deployed` that has a provider against the recorded topology
+ */
+export function checkDrift(deployed: DeployedAddresses, options: DriftOptions): Promise<DriftReport> {
+    return new DriftChecker(deployed, options).run();
+}
+
+/**
+ * Mismatches and failed queries of a report
+ */
+export function driftProblems(report: DriftReport): DriftCheck[] {
+    return [...report.chains, ...report.directions]
+        .flatMap((entry) => entry.checks)
+        .filter((check) => check.status === "mismatch" || check.status === "error");
+}
@@ -0,0 +1,482 @@
+import { artifacts, ethers } from "hardhat";
+import { Contract, Signer } from "ethers";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { lzReceiveOptions } from "../../sdk/src/lzOptions";
+
+/**
+ * Declarative deployment pipeline
+ *
+ * A chain set (deploy-config.json) says which chains the bridge runs on and
+ * which LayerZero and CCTP contracts each one uses; deployed_addresses.json
+ * records what has been deployed and wired so far. runPipeline() brings the
+ * chains to the chain set's state in steps:
+ *
+ * 1. Per chain: PoseidonHasher, BridgeTransferVerifier, WithdrawVerifier,
+ *    PrivateLZBridge and (where enabled) StealthRegistry
+ * 2. Per chain pair (both directions): peer, CCTP domain, enforced options,
+ *    and the ULN config (DVN + confirmations) of the send and receive library
+ *
+ * Every step first reads the on-chain state and is skipped when it is
+ * already correct, so the pipeline can be re-run after a failure or a
+ * partial change. The bridge is redeployed when its constructor arguments
+ * no longer match (e.g. a new verifier); the old address goes to `legacy`.
+ *
+ * BridgeTransferVerifier is only deployed when circuits/bridge_transfer_setup.json
+ * shows its keys were built from a public powers of tau ceremony, unless
+ * allowDevSetup is set.
+ */
+
+export interface ChainSetChain {
+    network: string;
+    chainId: number;
+    lzEid: number;
+    cctpDomain: number;
+    /** Deploy a StealthRegistry on this chain */
+    stealthRegistry?: boolean;
+    layerzero: {
+        endpoint: string;
+        sendUln302: string;
+        receiveUln302: string;
+        dvn: string;
+    };
+    cctp: {
+        tokenMessenger: string;
+        messageTransmitter: string;
+        usdc: string;
+    };
+}
+
+export interface ChainSet {
+    version: string;
+    /** lzReceive gas of the enforced options for every destination */
+    lzReceiveGas: number;
+    /** Block confirmations in the ULN config */
+    confirmations: number;
+    /** Keyed by hardhat network name */
+    chains: Record<string, ChainSetChain>;
+}
+
+/** Peer wiring towards one remote chain, as last applied or verified */
+export interface DeployedWiring {
+    lzEid: number;
+    peer: string;
+    cctpDomain: number;
+    enforcedOptions: string;
+    uln: UlnConfig;
+}
+
+export interface DeployedChain {
+    network: string;
+    chainId: number;
+    lzEid: number;
+    cctpDomain: number;
+    deployBlock?: number;
+    /** Bridge owner the pipeline deployed or wired with */
+    owner?: string;
+    contracts: {
+        privateLZBridge?: string;
+        transferVerifier?: string;
+        withdrawVerifier?: string;
+        poseidonHasher?: string;
+        stealthRegistry?: string;
+    };
+    layerzero: ChainSetChain["layerzero"];
+    cctp: ChainSetChain["cctp"];
+    /** Keyed by remote network name */
+    wiring?: Record<string, DeployedWiring>;
+}
+
+/**
+ * deployed_addresses.json: chains by network name plus deployedAt, version and legacy
+ */
+export type DeployedAddresses = Record<string, any> & {
+    deployedAt?: string;
+    version?: string;
+    legacy?: Record<string, string>;
+};
+
+export interface UlnConfig {
+    confirmations: number;
+    requiredDVNs: string[];
+}
+
+export type PipelineStepStatus = "done" | "skipped" | "planned";
+
+export interface PipelineStep {
+    chain: string;
+    /** e.g. "deploy PrivateLZBridge" or "peer -> ethereumSepolia" */
+    step: string;
+    status: PipelineStepStatus;
+    txHash?: string;
+    address?: string;
+}
+
+export interface PipelineOptions {
+    /** Deployer / owner per network name */
+    signers: Record<string, Signer>;
+    /** Current deployed_addresses.json content (updated in place) */
+    deployed: DeployedAddresses;
+    /** Only report the steps that would run */
+    dryRun?: boolean;
+    /** Called after every step, e.g. to print it */
+    onStep?: (step: PipelineStep) => void;
+    /** Called whenever `deployed` changed, to persist it */
+    save?: (deployed: DeployedAddresses) => void;
+    /** Deploy a BridgeTransferVerifier built from a local powers of tau (devnets and tests only) */
+    allowDevSetup?: boolean;
+}
+
+/** circuits/bridge_transfer_setup.json, written by circuits/build.sh */
+export interface TransferSetupRecord {
+    circuit: string;
+    /** File name of the powers of tau, or "local" for the throwaway one build.sh generates */
+    ptau: string;
+    ptauSha256: string;
+    zkeySha256: string;
+    verifierSha256: string;
+}
+
+export const CONFIG_TYPE_ULN = 2;
+
+const ULN_CONFIG_TYPE = "tuple(uint64 confirmations, uint8 requiredDVNCount, uint8 optionalDVNCount, uint8 optionalDVNThreshold, address[] requiredDVNs, address[] optionalDVNs)";
+
+const BRIDGE_CONFIG_ABI = [
+    "function owner() view returns (address)",
+    "function lzEndpoint() view returns (address)",
+    "function transferVerifier() view returns (address)",
+    "function withdrawVerifier() view returns (address)",
+    "function poseidonHasher() view returns (address)",
+    "function usdc() view returns (address)",
+    "function localEid() view returns (uint32)",
+    "function cctpMessenger() view returns (address)",
+    "function peers(uint32 eid) view returns (bytes32)",
+    "function cctpDomains(uint32 eid) view returns (uint32)",
+    "function cctpDomainSet(uint32 eid) view returns (bool)",
+    "function enforcedOptions(uint32 eid) view returns (bytes)",
+    "function setPeer(uint32 eid, bytes32 peer)",
+    "function setCCTPDomain(uint32 lzEid, uint32 cctpDomain)",
+    "function setEnforcedOptions(uint32 eid, bytes options)",
+    "function setConfig(address lib, tuple(uint32 eid, uint32 configType, bytes config)[] params)",
+];
+
+const ENDPOINT_CONFIG_ABI = [
+    "function getConfig(address oapp, address lib, uint32 eid, uint32 configType) view returns (bytes)",
+];
+
+// ============ ULN config ============
+
+/**
+ * ABI-encode a ULN config with required DVNs only (sorted, as ReceiveUln302 requires)
+ */
+export function encodeUlnConfig(config: UlnConfig): string {
+    const dvns = [...config.requiredDVNs].map((a) => ethers.getAddress(a)).sort((a, b) => (BigInt(a) < BigInt(b) ? -1 : 1));
+    return ethers.AbiCoder.defaultAbiCoder().encode([ULN_CONFIG_TYPE], [[config.confirmations, dvns.length, 0, 0, dvns, []]]);
+}
+
+/**
+ * Decode an endpoint getConfig() ULN config; undefined when unset
+ */
+export function decodeUlnConfig(encoded: string): UlnConfig | undefined {
+    if (ethers.dataLength(encoded) === 0) return undefined;
+    const [config] = ethers.AbiCoder.defaultAbiCoder().decode([ULN_CONFIG_TYPE], encoded);
+    return {
+        confirmations: Number(config.confirmations),
+        requiredDVNs: config.requiredDVNs.map((a: string) => ethers.getAddress(a)),
+    };
+}
+
+export function sameUlnConfig(a: UlnConfig | undefined, b: UlnConfig): boolean {
+    if (!a || a.confirmations !== b.confirmations) return false;
+    const normalize = (dvns: string[]) => dvns.map((d) => d.toLowerCase()).sort().join(",");
+    return normalize(a.requiredDVNs) === normalize(b.requiredDVNs);
+}
+
+/**
+ * Wiring the chain set asks for from `chain` to `remote`
+ */
+export function expectedWiring(chainSet: ChainSet, chain: ChainSetChain, remote: ChainSetChain, remoteBridge: string): DeployedWiring {
+    return {
+        lzEid: remote.lzEid,
+        peer: ethers.zeroPadValue(remoteBridge, 32).toLowerCase(),
+        cctpDomain: remote.cctpDomain,
+        enforcedOptions: lzReceiveOptions(BigInt(chainSet.lzReceiveGas)),
+        uln: { confirmations: chainSet.confirmations, requiredDVNs: [ethers.getAddress(chain.layerzero.dvn)] },
+    };
+}
+
+// ============ Transfer verifier setup ============
+
+const ROOT = path.join(__dirname, "..", "..");
+const TRANSFER_SETUP_PATH = path.join(ROOT, "circuits", "bridge_transfer_setup.json");
+const TRANSFER_VERIFIER_PATH = path.join(ROOT, "contracts", "BridgeTransferVerifier.sol");
+
+/**
+ * Read the setup record of BridgeTransferVerifier and check it can be deployed
+ *
+ * The record must be the one of the verifier source, and its powers of tau
+ * must not be a local one (whoever generated it could forge transfer
+ * proofs) unless `allowDevSetup` is set.
+ */
+export function checkTransferSetup(
+    options: { allowDevSetup?: boolean; setupPath?: string; verifierPath?: string } = {}
+): TransferSetupRecord {
+    const setupPath = options.setupPath ?? TRANSFER_SETUP_PATH;
+    const verifierPath = options.verifierPath ?? TRANSFER_VERIFIER_PATH;
+    if (!fs.existsSync(setupPath)) {
+        throw new Error(`${path.basename(setupPath)} not found: rebuild the transfer circuit with circuits/build.sh`);
+    }
+    const record: TransferSetupRecord = JSON.parse(fs.readFileSync(setupPath, "utf8"));
+    const verifierSha256 = crypto.createHash("sha256").update(fs.readFileSync(verifierPath)).digest("hex");
+    if (record.verifierSha256 !== verifierSha256) {
+        throw new Error(`${path.basename(verifierPath)} was not built with the setup ${path.basename(setupPath)} records: rebuild it with circuits/build.sh`);
+    }
+    if (record.ptau === "local" && !options.allowDevSetup) {
+        throw new Error(
+            "BridgeTransferVerifier keys come from a local powers of tau and are only fit for devnets: " +
+            "rebuild with PTAU set to a public ceremony file, or allow a development setup"
+        );
+    }
+    return record;
+}
+
+// ============ Pipeline ============
+
+class Pipeline {
+    readonly steps: PipelineStep[] = [];
+
+    constructor(
+        private chainSet: ChainSet,
+        private options: PipelineOptions
+    ) {}
+
+    async run(): Promise<void> {
+        for (const name of Object.keys(this.chainSet.chains)) {
+            await this.deployChain(name);
+        }
+        for (const name of Object.keys(this.chainSet.chains)) {
+            for (const remote of Object.keys(this.chainSet.chains)) {
+                if (remote !== name) await this.wire(name, remote);
+            }
+        }
+    }
+
+    private async deployChain(name: string): Promise<void> {
+        const spec = this.chainSet.chains[name];
+        const signer = this.signer(name);
+        const network = await signer.provider!.getNetwork();
+        if (Number(network.chainId) !== spec.chainId) {
+            throw new Error(`${name}: signer is on chain ${network.chainId}, expected ${spec.chainId}`);
+        }
+
+        const entry = this.entry(name);
+        const contracts = entry.contracts;
+        contracts.poseidonHasher = await this.deployOnce(name, "PoseidonHasher", contracts.poseidonHasher);
+        // v10.2 chains recorded the four-signal TransferVerifier here, so the code is compared too
+        contracts.transferVerifier = await this.deployOnce(name, "BridgeTransferVerifier", contracts.transferVerifier, true);
+        contracts.withdrawVerifier = await this.deployOnce(name, "WithdrawVerifier", contracts.withdrawVerifier);
+
+        const owner = await signer.getAddress();
+        const args = [
+            spec.layerzero.endpoint,
+            contracts.transferVerifier,
+            contracts.withdrawVerifier,
+            contracts.poseidonHasher,
+            spec.cctp.usdc,
+            spec.lzEid,
+            owner,
+            spec.cctp.tokenMessenger,
+        ];
+        const current = contracts.privateLZBridge;
+        if (current && (await this.hasCode(name, current)) && (await this.bridgeMatches(name, current, args))) {
+            this.report({ chain: name, step: "deploy PrivateLZBridge", status: "skipped", address: current });
+        } else {
+            if (current) {
+                const legacy = (this.options.deployed.legacy ??= {});
+                legacy[`${this.options.deployed.version ?? "previous"}_${name}_bridge`] = current;
+            }
+            const { address, blockNumber } = await this.deploy(name, "PrivateLZBridge", args);
+            contracts.privateLZBridge = address;
+            if (blockNumber !== undefined) entry.deployBlock = blockNumber;
+            entry.owner = owner;
+            // Wiring recorded for the old bridge no longer applies
+            delete entry.wiring;
+            this.options.deployed.version = this.chainSet.version;
+            this.options.deployed.deployedAt = new Date().toISOString();
+        }
+        this.save();
+
+        if (spec.stealthRegistry) {
+            contracts.stealthRegistry = await this.deployOnce(name, "StealthRegistry", contracts.stealthRegistry);
+        }
+    }
+
+    private async wire(name: string, remoteName: string): Promise<void> {
+        const spec = this.chainSet.chains[name];
+        const remote = this.chainSet.chains[remoteName];
+        const bridgeAddress = this.entry(name).contracts.privateLZBridge;
+        const remoteBridge = this.entry(remoteName).contracts.privateLZBridge;
+        if (!bridgeAddress || !remoteBridge) {
+            // Only reachable in a dry run, before the bridges exist
+            for (const step of ["peer", "CCTP domain", "enforced options", "send ULN config", "receive ULN config"]) {
+                this.report({ chain: name, step: `${step} -> ${remoteName}`, status: "planned" });
+            }
+            return;
+        }
+
+        const signer = this.signer(name);
+        const bridge = new Contract(bridgeAddress, BRIDGE_CONFIG_ABI, signer);
+        const endpoint = new Contract(spec.layerzero.endpoint, ENDPOINT_CONFIG_ABI, signer);
+        const expected = expectedWiring(this.chainSet, spec, remote, remoteBridge);
+        const eid = remote.lzEid;
+
+        if (!this.options.dryRun) {
+            const owner: string = await bridge.owner();
+            if (owner.toLowerCase() !== (await signer.getAddress()).toLowerCase()) {
+                throw new Error(`${name}: PrivateLZBridge ${bridgeAddress} is owned by ${owner}, not the deployer`);
+            }
+            this.entry(name).owner = owner;
+        }
+
+        await this.ensure(name, `peer -> ${remoteName}`,
+            async () => (await bridge.peers(eid)).toLowerCase() === expected.peer,
+            () => bridge.setPeer(eid, expected.peer));
+        await this.ensure(name, `CCTP domain -> ${remoteName}`,
+            async () => (await bridge.cctpDomainSet(eid)) && Number(await bridge.cctpDomains(eid)) === expected.cctpDomain,
+            () => bridge.setCCTPDomain(eid, expected.cctpDomain));
+        await this.ensure(name, `enforced options -> ${remoteName}`,
+            async () => (await bridge.enforcedOptions(eid)).toLowerCase() === expected.enforcedOptions.toLowerCase(),
+            () => bridge.setEnforcedOptions(eid, expected.enforcedOptions));
+
+        for (const [label, lib] of [["send", spec.layerzero.sendUln302], ["receive", spec.layerzero.receiveUln302]]) {
+            await this.ensure(name, `${label} ULN config -> ${remoteName}`,
+                async () => sameUlnConfig(await this.ulnConfig(endpoint, bridgeAddress, lib, eid), expected.uln),
+                () => bridge.setConfig(lib, [{ eid, configType: CONFIG_TYPE_ULN, config: encodeUlnConfig(expected.uln) }]));
+        }
+
+        const entry = this.entry(name);
+        (entry.wiring ??= {})[remoteName] = expected;
+        this.save();
+    }
+
+    // Run `apply` unless `check` says the on-chain state is already right
+    private async ensure(chain: string, step: string, check: () => Promise<boolean>, apply: () => Promise<any>): Promise<void> {
+        if (await check()) {
+            this.report({ chain, step, status: "skipped" });
+            return;
+        }
+        if (this.options.dryRun) {
+            this.report({ chain, step, status: "planned" });
+            return;
+        }
+        const tx = await apply();
+        await tx.wait();
+        this.report({ chain, step, status: "done", txHash: tx.hash });
+    }
+
+    private async ulnConfig(endpoint: Contract, oapp: string, lib: string, eid: number): Promise<UlnConfig | undefined> {
+        try {
+            return decodeUlnConfig(await endpoint.getConfig(oapp, lib, eid, CONFIG_TYPE_ULN));
+        } catch {
+            // Endpoints without the library registered revert; treat as unset
+            return undefined;
+        }
+    }
+
+    // Deploy `contract` unless `current` already has code
+    private async deployOnce(
+        name: string,
+        contract: string,
+        current: string | undefined,
+        sameCode = false
+    ): Promise<string | undefined> {
+        if (current && (await this.hasCode(name, current, sameCode ? contract : undefined))) {
+            this.report({ chain: name, step: `deploy ${contract}`, status: "skipped", address: current });
+            return current;
+        }
+        if (contract === "BridgeTransferVerifier") {
+            checkTransferSetup({ allowDevSetup: this.options.allowDevSetup });
+        }
+        const { address } = await this.deploy(name, contract, []);
+        this.save();
+        return address;
+    }
+
+    private async deploy(name: string, contract: string, args: unknown[]): Promise<{ address?: string; blockNumber?: number }> {
+        if (this.options.dryRun) {
+            this.report({ chain: name, step: `deploy ${contract}`, status: "planned" });
+            return {};
+        }
+        const factory = await ethers.getContractFactory(contract, this.signer(name));
+        const deployed = await factory.deploy(...args);
+        const receipt = await deployed.deploymentTransaction()!.wait();
+        const address = await deployed.getAddress();
+        this.report({ chain: name, step: `deploy ${contract}`, status: "done", txHash: receipt!.hash, address });
+        return { address, blockNumber: receipt!.blockNumber };
+    }
+
+    private async bridgeMatches(name: string, address: string, args: unknown[]): Promise<boolean> {
+        const bridge = new Contract(address, BRIDGE_CONFIG_ABI, this.signer(name));
+        const actual = [
+            await bridge.lzEndpoint(),
+            await bridge.transferVerifier(),
+            await bridge.withdrawVerifier(),
+            await bridge.poseidonHasher(),
+            await bridge.usdc(),
+            await bridge.localEid(),
+            args[6], // the owner can change after deployment
+            await bridge.cctpMessenger(),
+        ];
+        return actual.every((value, i) => String(value).toLowerCase() === String(args[i]).toLowerCase());
+    }
+
+    /** With `contract`, the code must also be that contract's compiled runtime code */
+    private async hasCode(name: string, address: string, contract?: string): Promise<boolean> {
+        const code = await this.signer(name).provider!.getCode(address);
+        if (code === "0x" || !contract) {
+            return code !== "0x";
+        }
+        return code.toLowerCase() === (await artifacts.readArtifact(contract)).deployedBytecode.toLowerCase();
+    }
+
+    private entry(name: string): DeployedChain {
+        const spec = this.chainSet.chains[name];
+        const entry: DeployedChain = (this.options.deployed[name] ??= { contracts: {} });
+        entry.network = spec.network;
+        entry.chainId = spec.chainId;
+        entry.lzEid = spec.lzEid;
+        entry.cctpDomain = spec.cctpDomain;
+        entry.contracts ??= {};
+        entry.layerzero = spec.layerzero;
+        entry.cctp = spec.cctp;
+        return entry;
+    }
+
+    private signer(name: string): Signer {
+        const signer = this.options.signers[name];
+        if (!signer) throw new Error(`No signer for ${name}`);
+        return signer;
+    }
+
+    private report(step: PipelineStep): void {
+        this.steps.push(step);
+        this.options.onStep?.(step);
+    }
+
+    private save(): void {
+        if (!this.options.dryRun) this.options.save?.(this.options.deployed);
+    }
+}
+
+/**
+ * Deploy and wire every chain of the chain set, skipping what is already in place
+ *
+ * `options.deployed` is updated as steps complete and passed to
+ * `options.save`, so a failed run keeps everything it finished.
+ */
+export async function runPipeline(chainSet: ChainSet, options: PipelineOptions): Promise<PipelineStep[]> {
+    const pipeline = new Pipeline(chainSet, options);
+    await pipeline.run();
+    return pipeline.steps;
+}
@@ -0,0 +1,309 @@
+import { ethers } from "hardhat";
+import { BaseWallet, Provider, Signer, Wallet } from "ethers";
+import * as path from "path";
+import { ChainInfo } from "../../sdk/src/chains";
+import { BridgeDestination, CircuitPaths, LzRecoveryChain, TrackerChain } from "../../sdk/src/types";
+import {
+    BridgeTransferVerifier__factory,
+    MockEndpointV2,
+    MockEndpointV2__factory,
+    MockMessageTransmitterV2,
+    MockMessageTransmitterV2__factory,
+    MockTokenMessengerV2__factory,
+    MockTransferVerifier__factory,
+    MockUSDC,
+    MockUSDC__factory,
+    MockWithdrawVerifier__factory,
+    PoseidonHasher__factory,
+    PrivateLZBridge,
+    PrivateLZBridge__factory,
+    WithdrawVerifier__factory,
+} from "../../typechain-types";
+
+/**
+ * Local multi-chain devnet
+ *
+ * Deploys PrivateLZBridge with the real Poseidon hasher and Groth16
+ * verifiers on each chain, behind a mock LayerZero endpoint and mock CCTP
+ * (TokenMessengerV2 + MessageTransmitterV2 checking the devnet attester and
+ * minting USDC), and wires every pair of bridges with setPeer and
+ * setCCTPDomain. LocalLzRelayer and LocalAttestationApi (./relayers) carry
+ * messages between the chains.
+ *
+ * Chains may share one Hardhat network (the default: tests run in-process)
+ * or each use its own node through `signer`.
+ */
+
+export interface DevnetChainSpec {
+    name: string;
+    eid: number;
+    cctpDomain: number;
+    /** Deployer and bridge owner (default: the first Hardhat signer) */
+    signer?: Signer;
+}
+
+// Same EIDs and CCTP domains as the testnets they stand in for
+export const DEVNET_CHAINS: DevnetChainSpec[] = [
+    { name: "base", eid: 40245, cctpDomain: 6 },
+    { name: "ethereum", eid: 40161, cctpDomain: 0 },
+    { name: "arbitrum", eid: 40231, cctpDomain: 3 },
+];
+
+const CIRCUITS_DIR = path.join(__dirname, "..", "..", "webapp-layerzero", "public", "circuits");
+
+// Circuits the on-chain verifiers were generated from
+export const DEVNET_CIRCUITS: CircuitPaths = {
+    transferWasm: path.join(CIRCUITS_DIR, "bridge_transfer.wasm"),
+    transferZkey: path.join(CIRCUITS_DIR, "bridge_transfer_final.zkey"),
+    transferVkey: path.join(CIRCUITS_DIR, "bridge_transfer_vkey.json"),
+    withdrawWasm: path.join(CIRCUITS_DIR, "withdraw.wasm"),
+    withdrawZkey: path.join(CIRCUITS_DIR, "withdraw_final.zkey"),
+    withdrawVkey: path.join(CIRCUITS_DIR, "withdraw_vkey.json"),
+};
+
+export interface DevnetChain {
+    name: string;
+    eid: number;
+    cctpDomain: number;
+    chainId: number;
+    signer: Signer;
+    provider: Provider;
+    /** Block of the first devnet deployment on this chain */
+    deployBlock: number;
+    bridge: PrivateLZBridge;
+    usdc: MockUSDC;
+    endpoint: MockEndpointV2;
+    messageTransmitter: MockMessageTransmitterV2;
+    addresses: {
+        bridge: string;
+        usdc: string;
+        endpoint: string;
+        tokenMessenger: string;
+        messageTransmitter: string;
+        transferVerifier: string;
+        withdrawVerifier: string;
+        poseidonHasher: string;
+    };
+}
+
+export interface Devnet {
+    chains: DevnetChain[];
+    /** Key the mock MessageTransmitters accept attestations from */
+    attester: BaseWallet;
+}
+
+export interface DeployDevnetOptions {
+    chains?: DevnetChainSpec[];
+    attester?: BaseWallet;
+    /** Deploy MockTransferVerifier / MockWithdrawVerifier instead, to skip proving */
+    mockVerifiers?: boolean;
+}
+
+async function deployChain(spec: DevnetChainSpec, attester: BaseWallet, mockVerifiers: boolean): Promise<DevnetChain> {
+    const signer = spec.signer ?? (await ethers.getSigners())[0];
+    const provider = signer.provider!;
+    const owner = await signer.getAddress();
+    const deployBlock = await provider.getBlockNumber();
+
+    const usdc = await new MockUSDC__factory(signer).deploy();
+    const endpoint = await new MockEndpointV2__factory(signer).deploy(spec.eid);
+    const tokenMessenger = await new MockTokenMessengerV2__factory(signer).deploy();
+    const messageTransmitter = await new MockMessageTransmitterV2__factory(signer).deploy(spec.cctpDomain);
+    await (await messageTransmitter.configure(attester.address, await usdc.getAddress())).wait();
+
+    const poseidonHasher = await new PoseidonHasher__factory(signer).deploy();
+    const transferVerifier = mockVerifiers
+        ? await new MockTransferVerifier__factory(signer).deploy()
+        : await new BridgeTransferVerifier__factory(signer).deploy();
+    const withdrawVerifier = mockVerifiers
+        ? await new MockWithdrawVerifier__factory(signer).deploy()
+        : await new WithdrawVerifier__factory(signer).deploy();
+
+    const bridge = await new PrivateLZBridge__factory(signer).deploy(
+        await endpoint.getAddress(),
+        await transferVerifier.getAddress(),
+        await withdrawVerifier.getAddress(),
+        await poseidonHasher.getAddress(),
+        await usdc.getAddress(),
+        spec.eid,
+        owner,
+        await tokenMessenger.getAddress()
+    );
+    await bridge.waitForDeployment();
+
+    return {
+        name: spec.name,
+        eid: spec.eid,
+        cctpDomain: spec.cctpDomain,
+        chainId: Number((await provider.getNetwork()).chainId),
+        signer,
+        provider,
+        deployBlock,
+        bridge,
+        usdc,
+        endpoint,
+        messageTransmitter,
+        addresses: {
+            bridge: await bridge.getAddress(),
+            usdc: await usdc.getAddress(),
+            endpoint: await endpoint.getAddress(),
+            tokenMessenger: await tokenMessenger.getAddress(),
+            messageTransmitter: await messageTransmitter.getAddress(),
+            transferVerifier: await transferVerifier.getAddress(),
+            withdrawVerifier: await withdrawVerifier.getAddress(),
+            poseidonHasher: await poseidonHasher.getAddress(),
+        },
+    };
+}
+
+/**
+ * Deploy a bridge per chain and connect every pair of them
+ */
+export async function deployDevnet(options: DeployDevnetOptions = {}): Promise<Devnet> {
+    const attester = options.attester ?? Wallet.createRandom();
+    const chains: DevnetChain[] = [];
+    for (const spec of options.chains ?? DEVNET_CHAINS) {
+        chains.push(await deployChain(spec, attester, options.mockVerifiers ?? false));
+    }
+
+    for (const chain of chains) {
+        for (const peer of chains) {
+            if (peer === chain) continue;
+            await (await chain.bridge.setPeer(peer.eid, ethers.zeroPadValue(peer.addresses.bridge, 32))).wait();
+            await (await chain.bridge.setCCTPDomain(peer.eid, peer.cctpDomain)).wait();
+        }
+    }
+    return { chains, attester };
+}
+
+export interface DeployBridgeOptions {
+    endpoint: MockEndpointV2;
+    eid: number;
+    usdc: MockUSDC;
+    owner: Signer;
+    /** CCTP TokenMessenger (default: none, so transfers move no USDC) */
+    tokenMessenger?: string;
+}
+
+/**
+ * Deploy one PrivateLZBridge with mock verifiers (any proof passes), for
+ * tests that wire endpoints and peers themselves
+ */
+export async function deployBridge(options: DeployBridgeOptions): Promise<PrivateLZBridge> {
+    const { owner } = options;
+    const hasher = await new PoseidonHasher__factory(owner).deploy();
+    const transferVerifier = await new MockTransferVerifier__factory(owner).deploy();
+    const withdrawVerifier = await new MockWithdrawVerifier__factory(owner).deploy();
+    const bridge = await new PrivateLZBridge__factory(owner).deploy(
+        await options.endpoint.getAddress(),
+        await transferVerifier.getAddress(),
+        await withdrawVerifier.getAddress(),
+        await hasher.getAddress(),
+        await options.usdc.getAddress(),
+        options.eid,
+        await owner.getAddress(),
+        options.tokenMessenger ?? ethers.ZeroAddress
+    );
+    await bridge.waitForDeployment();
+    return bridge;
+}
+
+// initiateTransfer / withdraw arguments for bridges with mock verifiers
+export const EMPTY_PROOF: bigint[] = [0n, 0n, 0n, 0n, 0n, 0n, 0n, 0n];
+export const EMPTY_STEALTH: PrivateLZBridge.StealthDataStruct = {
+    ephemeralPubKeyX: 0n,
+    ephemeralPubKeyY: 0n,
+    stealthAddressX: 0n,
+    stealthAddressY: 0n,
+    viewTag: 0n,
+};
+export const EMPTY_AUDIT: PrivateLZBridge.AuditDataStruct = {
+    encryptedSender: [0n, 0n, 0n, 0n],
+    encryptedRecipient: [0n, 0n, 0n, 0n],
+    encryptedAmount: [0n, 0n, 0n, 0n],
+};
+
+/**
+ * Random bytes32 below the SNARK field, for commitments and nullifiers
+ */
+export function randomField(): string {
+    return ethers.toBeHex(BigInt(ethers.hexlify(ethers.randomBytes(30))), 32);
+}
+
+/**
+ * Devnet chain by name or LayerZero EID
+ */
+export function devnetChain(devnet: Devnet, nameOrEid: string | number): DevnetChain {
+    const chain = devnet.chains.find((c) => c.name === nameOrEid || c.eid === nameOrEid);
+    if (!chain) throw new Error(`No devnet chain ${nameOrEid}`);
+    return chain;
+}
+
+/**
+ * Mint devnet USDC to an account
+ */
+export async function fundUsdc(chain: DevnetChain, to: string, amount: bigint): Promise<void> {
+    await (await chain.usdc.mint(to, amount)).wait();
+}
+
+// ============ SDK configuration ============
+
+/**
+ * Chain registry entry, e.g. for relayCctpMessage({ chain })
+ */
+export function devnetChainInfo(chain: DevnetChain): ChainInfo {
+    return {
+        chainId: chain.chainId,
+        name: `Devnet ${chain.name}`,
+        rpcUrl: "",
+        cctpDomain: chain.cctpDomain,
+        contracts: {
+            privateUSDC: chain.addresses.bridge,
+            transferVerifier: chain.addresses.transferVerifier,
+            withdrawVerifier: chain.addresses.withdrawVerifier,
+            poseidonHasher: chain.addresses.poseidonHasher,
+        },
+        cctp: {
+            tokenMessenger: chain.addresses.tokenMessenger,
+            messageTransmitter: chain.addresses.messageTransmitter,
+            usdc: chain.addresses.usdc,
+        },
+    };
+}
+
+/**
+ * PrivateLZBridgeClient destinations: every other devnet bridge
+ */
+export function devnetDestinations(devnet: Devnet, from: DevnetChain): Record<number, BridgeDestination> {
+    const destinations: Record<number, BridgeDestination> = {};
+    for (const chain of devnet.chains) {
+        if (chain !== from) destinations[chain.eid] = { provider: chain.provider, bridgeAddress: chain.addresses.bridge };
+    }
+    return destinations;
+}
+
+/**
+ * TransferTracker chains
+ */
+export function devnetTrackerChains(devnet: Devnet): TrackerChain[] {
+    return devnet.chains.map((chain) => ({
+        eid: chain.eid,
+        provider: chain.provider,
+        bridgeAddress: chain.addresses.bridge,
+        cctpDomain: chain.cctpDomain,
+        messageTransmitter: chain.addresses.messageTransmitter,
+    }));
+}
+
+/**
+ * LzMessageRecovery chains
+ */
+export function devnetRecoveryChains(devnet: Devnet): LzRecoveryChain[] {
+    return devnet.chains.map((chain) => ({
+        eid: chain.eid,
+        provider: chain.provider,
+        bridgeAddress: chain.addresses.bridge,
+        endpointAddress: chain.addresses.endpoint,
+        fromBlock: chain.deployBlock,
+    }));
+}
@@ -0,0 +1,254 @@
+import { BaseWallet, Contract, Interface, Log, ethers } from "ethers";
+import * as http from "http";
+import { AddressInfo } from "net";
+import { CCTP_FINALITY_FAST, cctpFeeForAmount } from "../../sdk/src/cctp";
+import { decodeError } from "../../sdk/src/errors";
+import { decodeLzOptions } from "../../sdk/src/lzOptions";
+import { ENDPOINT_V2_ABI, decodeLzPacket, lzPayloadHash } from "../../sdk/src/lzRecovery";
+import { CctpMessage, LzPacket } from "../../sdk/src/types";
+import { DevnetChain } from "./fixtures";
+
+/**
+ * Off-chain halves of the devnet: the LayerZero DVNs + executor and
+ * Circle's attestation service, run against the mock endpoints and CCTP
+ * contracts deployed by deployDevnet().
+ */
+
+const MOCK_ENDPOINT_ABI = [
+    ...ENDPOINT_V2_ABI,
+    "function verify(tuple(uint32 srcEid, bytes32 sender, uint64 nonce) origin, address receiver, bytes32 payloadHash)",
+];
+
+const DEPOSIT_FOR_BURN_ABI = [
+    "event DepositForBurn(address indexed burnToken, uint256 amount, address indexed depositor, bytes32 mintRecipient, uint32 destinationDomain, bytes32 destinationTokenMessenger, bytes32 destinationCaller, uint256 maxFee, uint32 indexed minFinalityThreshold, bytes hookData)",
+];
+
+const endpointInterface = new Interface(MOCK_ENDPOINT_ABI);
+const burnInterface = new Interface(DEPOSIT_FOR_BURN_ABI);
+
+// Gas the executor adds on top of the lzReceive gas in the message options
+const EXECUTOR_OVERHEAD_GAS = 100_000n;
+
+// ============ LayerZero ============
+
+export interface LzDelivery {
+    packet: LzPacket;
+    /** "delivered", or "failed" when lzReceive reverted and the message stays verified */
+    status: "delivered" | "failed";
+    txHash?: string;
+    error?: string;
+}
+
+/**
+ * Relays packets between the devnet's mock endpoints as the DVNs and
+ * executor would: verify() on the destination endpoint, then lzReceive()
+ * with the gas the options ask for. A reverting lzReceive leaves the
+ * message verified, so stuck-message recovery works as on a testnet.
+ */
+export class LocalLzRelayer {
+    private nextBlock = new Map<number, number>();
+
+    constructor(private chains: DevnetChain[]) {}
+
+    /**
+     * Deliver the packets sent by one source transaction
+     * (packets that were already executed are left out)
+     */
+    async deliverTx(srcEid: number, txHash: string): Promise<LzDelivery[]> {
+        const src = this.chain(srcEid);
+        const receipt = await src.provider.getTransactionReceipt(txHash);
+        if (!receipt) throw new Error(`Transaction ${txHash} not found on ${src.name}`);
+        return this.deliverLogs(src, receipt.logs);
+    }
+
+    /**
+     * Deliver every packet sent on any chain since the previous call
+     */
+    async deliverPending(): Promise<LzDelivery[]> {
+        const deliveries: LzDelivery[] = [];
+        for (const src of this.chains) {
+            const toBlock = await src.provider.getBlockNumber();
+            const fromBlock = this.nextBlock.get(src.eid) ?? src.deployBlock;
+            if (fromBlock > toBlock) continue;
+            const logs = await src.provider.getLogs({
+                address: src.addresses.endpoint,
+                topics: [endpointInterface.getEvent("PacketSent")!.topicHash],
+                fromBlock,
+                toBlock,
+            });
+            this.nextBlock.set(src.eid, toBlock + 1);
+            deliveries.push(...(await this.deliverLogs(src, logs)));
+        }
+        return deliveries;
+    }
+
+    private async deliverLogs(src: DevnetChain, logs: readonly Log[]): Promise<LzDelivery[]> {
+        const deliveries: LzDelivery[] = [];
+        for (const log of logs) {
+            if (log.address.toLowerCase() !== src.addresses.endpoint.toLowerCase()) continue;
+            const parsed = endpointInterface.parseLog(log);
+            if (parsed?.name !== "PacketSent") continue;
+            const delivery = await this.deliver(decodeLzPacket(parsed.args.encodedPayload), parsed.args.options);
+            if (delivery) deliveries.push(delivery);
+        }
+        return deliveries;
+    }
+
+    // Verify and execute a packet; undefined if it was already executed, skipped or cleared
+    private async deliver(packet: LzPacket, options: string): Promise<LzDelivery | undefined> {
+        const dst = this.chain(packet.dstEid);
+        const endpoint = new Contract(dst.addresses.endpoint, MOCK_ENDPOINT_ABI, dst.signer);
+        const origin = { srcEid: packet.srcEid, sender: packet.sender, nonce: packet.nonce };
+        const receiver = ethers.getAddress(ethers.dataSlice(packet.receiver, 12));
+
+        const payloadHash = await endpoint.inboundPayloadHash(receiver, packet.srcEid, packet.sender, packet.nonce);
+        if (payloadHash === ethers.ZeroHash) {
+            if (packet.nonce <= (await endpoint.lazyInboundNonce(receiver, packet.srcEid, packet.sender))) return undefined;
+            await (await endpoint.verify(origin, receiver, lzPayloadHash(packet.guid, packet.message))).wait();
+        }
+
+        const gas = decodeLzOptions(options).lzReceive?.gas;
+        try {
+            const tx = await endpoint.lzReceive(origin, receiver, packet.guid, packet.message, "0x", {
+                gasLimit: gas ? gas + EXECUTOR_OVERHEAD_GAS : undefined,
+            });
+            await tx.wait();
+            return { packet, status: "delivered", txHash: tx.hash };
+        } catch (err) {
+            return { packet, status: "failed", error: decodeError(err, "lzReceive").message };
+        }
+    }
+
+    private chain(eid: number): DevnetChain {
+        const chain = this.chains.find((c) => c.eid === eid);
+        if (!chain) throw new Error(`No devnet chain with EID ${eid}`);
+        return chain;
+    }
+}
+
+// ============ CCTP ============
+
+/**
+ * Circle attestation API stand-in for the devnet
+ *
+ * Serves /v2/messages/{domain}?transactionHash= by building the CCTP V2
+ * message of each DepositForBurn on the devnet's mock TokenMessenger and
+ * signing keccak256(message) with the attester key the mock
+ * MessageTransmitters check. Fast burns execute fastFeeBps (capped at maxFee),
+ * standard ones no fee. /v2/burn/USDC/fees/{src}/{dst} returns the same fees.
+ */
+export class LocalAttestationApi {
+    /** Polls a burn stays "pending_confirmations" before it is attested */
+    pendingPolls = 0;
+    private polls = new Map<string, number>();
+    private server = http.createServer((req, res) => {
+        this.handle(req, res).catch((err) => {
+            res.writeHead(500).end(JSON.stringify({ error: String(err) }));
+        });
+    });
+
+    constructor(
+        private chains: DevnetChain[],
+        private attester: BaseWallet,
+        private fastFeeBps = 1
+    ) {}
+
+    /**
+     * Start listening on `port` (0 for any free port) and return the API URL
+     */
+    async listen(port = 0): Promise<string> {
+        await new Promise<void>((resolve) => this.server.listen(port, "127.0.0.1", resolve));
+        return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+    }
+
+    close(): Promise<void> {
+        return new Promise((resolve) => this.server.close(() => resolve()));
+    }
+
+    /**
+     * Attested CCTP messages of the burns in a source transaction
+     */
+    async messages(sourceDomain: number, txHash: string): Promise<CctpMessage[]> {
+        const src = this.chains.find((c) => c.cctpDomain === sourceDomain);
+        const receipt = src && (await src.provider.getTransactionReceipt(txHash));
+        if (!src || !receipt) return [];
+
+        const messages: CctpMessage[] = [];
+        for (const log of receipt.logs) {
+            if (log.address.toLowerCase() !== src.addresses.tokenMessenger.toLowerCase()) continue;
+            const burn = burnInterface.parseLog(log);
+            if (!burn) continue;
+            const message = this.buildMessage(src, txHash, log.index, burn.args);
+            messages.push({
+                status: "complete",
+                message,
+                attestation: this.attester.signingKey.sign(ethers.keccak256(message)).serialized,
+            });
+        }
+        return messages;
+    }
+
+    // CCTP V2 header + BurnMessageV2, as decoded by decodeCctpMessage
+    private buildMessage(src: DevnetChain, txHash: string, logIndex: number, burn: ethers.Result): string {
+        const dst = this.chains.find((c) => c.cctpDomain === Number(burn.destinationDomain));
+        const finality = Number(burn.minFinalityThreshold);
+        const fastFee = cctpFeeForAmount(burn.amount, this.fastFeeBps);
+        const feeExecuted = finality <= CCTP_FINALITY_FAST ? (fastFee < burn.maxFee ? fastFee : burn.maxFee) : 0n;
+
+        const u32 = (n: number) => ethers.toBeHex(n, 4);
+        const word = (address: string) => ethers.zeroPadValue(address, 32);
+        const body = ethers.concat([
+            u32(1),
+            word(burn.burnToken),
+            burn.mintRecipient,
+            ethers.toBeHex(burn.amount, 32),
+            word(burn.depositor),
+            ethers.toBeHex(burn.maxFee, 32),
+            ethers.toBeHex(feeExecuted, 32),
+            ethers.toBeHex(0, 32),
+            burn.hookData,
+        ]);
+        return ethers.concat([
+            u32(1),
+            u32(src.cctpDomain),
+            u32(Number(burn.destinationDomain)),
+            ethers.solidityPackedKeccak256(["uint32", "bytes32", "uint256"], [src.cctpDomain, txHash, logIndex]),
+            word(src.addresses.tokenMessenger),
+            word(dst?.addresses.tokenMessenger ?? ethers.ZeroAddress),
+            burn.destinationCaller,
+            u32(finality),
+            u32(finality <= CCTP_FINALITY_FAST ? CCTP_FINALITY_FAST : finality),
+            body,
+        ]);
+    }
+
+    private async handle(req: http.IncomingMessage, res: http.ServerResponse) {
+        const url = new URL(req.url ?? "/", "http://localhost");
+        const messagesPath = url.pathname.match(/^\/v2\/messages\/(\d+)$/);
+        const feesPath = url.pathname.match(/^\/v2\/burn\/USDC\/fees\/(\d+)\/(\d+)$/);
+
+        if (messagesPath) {
+            const txHash = (url.searchParams.get("transactionHash") ?? "").toLowerCase();
+            const messages = await this.messages(Number(messagesPath[1]), txHash);
+            if (messages.length === 0) {
+                res.writeHead(404).end("{}");
+                return;
+            }
+            const polls = this.polls.get(txHash) ?? 0;
+            this.polls.set(txHash, polls + 1);
+            const pending = polls < this.pendingPolls;
+            res.writeHead(200).end(JSON.stringify({
+                messages: messages.map((m) =>
+                    pending ? { ...m, status: "pending_confirmations", attestation: "PENDING" } : m
+                ),
+            }));
+        } else if (feesPath) {
+            res.writeHead(200).end(JSON.stringify([
+                { finalityThreshold: 1000, minimumFee: this.fastFeeBps },
+                { finalityThreshold: 2000, minimumFee: 0 },
+            ]));
+        } else {
+            res.writeHead(404).end("{}");
+        }
+    }
+}
@@ -0,0 +1,126 @@
+import { config, ethers, network } from "hardhat";
+import * as fs from "fs";
+import * as path from "path";
+import { HttpNetworkConfig } from "hardhat/types";
+import { LzMessageRecovery } from "../sdk/src/lzRecovery";
+import { LzRecoveryChain, StuckLzMessage } from "../sdk/src/types";
+import { describeError } from "../sdk/src/errors";
+
+/**
+ * Find and recover LayerZero transfer messages that were verified on the
+ * destination but never executed (lzReceive reverted or was never called).
+ * The USDC of such a transfer is already burned on the source chain.
+ *
+ * Usage:
+ *   # List stuck messages between every deployed bridge
+ *   npx hardhat run scripts/recover-lz-messages.ts
+ *
+ *   # Execute a stuck message again (anyone; fix the cause first, e.g. setPeer)
+ *   ACTION=retry GUID=0x... npx hardhat run scripts/recover-lz-messages.ts --network ethereumSepolia
+ *
+ *   # Refund a transfer the destination can never credit back to the sender
+ *   # (anyone; the signer pays the failure ack fee; --network is the destination chain)
+ *   ACTION=refund GUID=0x... npx hardhat run scripts/recover-lz-messages.ts --network ethereumSepolia
+ *
+ *   # Drop a message that can never execute, or skip a nonce that never verifies
+ *   # (destination bridge owner; --network is the destination chain)
+ *   ACTION=clear GUID=0x... npx hardhat run scripts/recover-lz-messages.ts --network ethereumSepolia
+ *   ACTION=skip GUID=0x... npx hardhat run scripts/recover-lz-messages.ts --network ethereumSepolia
+ *
+ * Optional: LOOKBACK_BLOCKS (default 50000 source blocks), GAS_LIMIT (retry)
+ */
+
+const DEPLOYED_ADDRESSES = path.join(__dirname, "..", "deployed_addresses.json");
+
+// Chains from deployed_addresses.json, read through the matching hardhat network RPC
+function loadChains(): LzRecoveryChain[] {
+    const deployed = JSON.parse(fs.readFileSync(DEPLOYED_ADDRESSES, "utf8"));
+    const chains: LzRecoveryChain[] = [];
+    for (const [name, entry] of Object.entries<any>(deployed)) {
+        const networkConfig = config.networks[name] as HttpNetworkConfig | undefined;
+        if (!entry?.lzEid || !entry.contracts?.privateLZBridge || !networkConfig?.url) continue;
+        chains.push({
+            eid: entry.lzEid,
+            provider: new ethers.JsonRpcProvider(networkConfig.url, entry.chainId, { staticNetwork: true }),
+            bridgeAddress: entry.contracts.privateLZBridge,
+            endpointAddress: entry.layerzero?.endpoint,
+        });
+    }
+    return chains;
+}
+
+function describe(message: StuckLzMessage): string {
+    const lines = [
+        `${message.guid}`,
+        `   ${message.srcEid} -> ${message.dstEid}, nonce ${message.nonce}, ${ethers.formatUnits(message.payload.amount, 6)} USDC`,
+        `   Commitment: ${message.payload.recipientCommitment}`,
+        `   Source tx: ${message.srcTxHash}`,
+    ];
+    if (message.diagnosis.reason) lines.push(`   Revert: ${message.diagnosis.reason}`);
+    if (message.diagnosis.refundReason) lines.push(`   Refundable: ${message.diagnosis.refundReason}`);
+    lines.push(`   ${message.diagnosis.advice}`);
+    if (message.diagnosis.actions.length > 0) lines.push(`   Actions: ${message.diagnosis.actions.join(", ")}`);
+    return lines.join("\n");
+}
+
+async function main() {
+    const recovery = new LzMessageRecovery({
+        chains: loadChains(),
+        lookbackBlocks: Number(process.env.LOOKBACK_BLOCKS || 50_000),
+    });
+
+    const action = process.env.ACTION;
+    const guid = process.env.GUID?.toLowerCase();
+    if (!action) {
+        console.log("Scanning for verified but unexecuted transfer messages...");
+        const stuck = await recovery.findStuck();
+        if (stuck.length === 0) console.log("No stuck messages.");
+        for (const message of stuck) console.log(`\n${describe(message)}`);
+        return;
+    }
+    if (!["retry", "refund", "clear", "skip"].includes(action) || !guid) {
+        throw new Error("Set ACTION to retry, refund, clear or skip and GUID to the message guid");
+    }
+
+    const deployed = JSON.parse(fs.readFileSync(DEPLOYED_ADDRESSES, "utf8"));
+    const dstEid = deployed[network.name]?.lzEid;
+    if (!dstEid) {
+        throw new Error(`No bridge deployment for --network ${network.name}; use the destination chain`);
+    }
+
+    // skip applies to unverified messages, so scan every message rather than only stuck ones
+    const messages = [];
+    for (const srcEid of loadChains().map((c) => c.eid)) {
+        if (srcEid !== dstEid) messages.push(...(await recovery.messages(srcEid, { dstEid })));
+    }
+    const message = messages.find((m) => m.guid === guid);
+    if (!message) {
+        throw new Error(`No message ${guid} to EID ${dstEid} in the last ${process.env.LOOKBACK_BLOCKS || 50_000} source blocks`);
+    }
+
+    const [signer] = await ethers.getSigners();
+    console.log(`${action} ${guid} (${message.status}) as ${signer.address}...`);
+    try {
+        const result =
+            action === "retry"
+                ? await recovery.retry(message, signer, {
+                      gasLimit: process.env.GAS_LIMIT ? BigInt(process.env.GAS_LIMIT) : undefined,
+                  })
+                : action === "refund"
+                  ? await recovery.refund(message, signer)
+                  : action === "clear"
+                    ? await recovery.clear(message, signer)
+                    : await recovery.skip(message, signer);
+        console.log(`Done in block ${result.blockNumber}, tx ${result.txHash}`);
+    } catch (err) {
+        console.log(describeError(err, `LayerZero ${action}`));
+        process.exitCode = 1;
+    }
+}
+
+main()
+    .then(() => process.exit(process.exitCode ?? 0))
+    .catch((error) => {
+        console.error(error);
+        process.exit(1);
+    });
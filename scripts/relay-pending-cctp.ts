@@ -1,4 +1,8 @@
 import { ethers } from "hardhat";
+import { fetchLogs } from "../sdk/src/logs";
+import { AttestationClient, isAttested, relayCctpMessage } from "../sdk/src/cctp";
+import { describeError } from "../sdk/src/errors";
+import { bridgeEventTopics, parseBridgeLog } from "../sdk/src/events";
 
 /**
  * Re-relay pending CCTP transfers that went to wrong MessageTransmitter address.
@@ -8,6 +12,10 @@ import { ethers } from "hardhat";
  *
  * Usage:
  *   npx hardhat run scripts/relay-pending-cctp.ts --network arbitrumSepolia
+ *
+ * Optional: ATTESTATION_API (defaults to the Iris sandbox)
+ *
+ * For continuous relaying on every route, run the relayer service (relayer/).
  */
 
 const BASE_BRIDGE = "0x4cDf8DB3B884418db41fc1Eb15b3152262979AF1";
@@ -15,19 +23,8 @@ const BASE_RPC = "https://sepolia.base.org";
 const BASE_DEPLOY_BLOCK = 37366200;
 const BASE_CCTP_DOMAIN = 6;
 
-// Correct CCTP V2 MessageTransmitterV2 (same on all testnets)
-const MESSAGE_TRANSMITTER_V2 = "0xE737e5cEBEEBa77EFE34D4aa090756590b1CE275";
-
-const BRIDGE_ABI = [
-    "event CrossChainTransferInitiated(uint32 indexed dstEid, bytes32 indexed recipientCommitment, uint256 amount, bytes32 nullifier, bytes32 newSenderCommitment, uint256 senderLeafIndex, bytes32 guid)",
-];
-
-const MESSAGE_TRANSMITTER_ABI = [
-    "function receiveMessage(bytes message, bytes attestation) external returns (bool success)",
-    "function usedNonces(bytes32) view returns (uint256)",
-];
-
-const CIRCLE_IRIS_API = "https://iris-api-sandbox.circle.com/v2/messages";
+// Circle attestation API (override to point at a mock server)
+const ATTESTATION_API = process.env.ATTESTATION_API || undefined;
 
 // LZ EID for Arb Sepolia
 const ARB_LZ_EID = 40231;
@@ -43,21 +40,21 @@ async function main() {
 
     // Connect to Base Sepolia to read events
     const baseProvider = new ethers.JsonRpcProvider(BASE_RPC);
-    const baseBridge = new ethers.Contract(BASE_BRIDGE, BRIDGE_ABI, baseProvider);
 
     // Scan for CrossChainTransferInitiated events targeting Arb Sepolia
     console.log("\n1. Scanning Base Sepolia bridge for cross-chain transfers to Arb...");
     const latestBlock = await baseProvider.getBlockNumber();
 
-    // Scan in chunks to avoid RPC limits
-    const events = [];
-    const CHUNK_SIZE = 10000;
-    for (let from = BASE_DEPLOY_BLOCK; from <= latestBlock; from += CHUNK_SIZE) {
-        const to = Math.min(from + CHUNK_SIZE - 1, latestBlock);
-        const filter = baseBridge.filters.CrossChainTransferInitiated(ARB_LZ_EID);
-        const chunk = await baseBridge.queryFilter(filter, from, to);
-        events.push(...chunk);
-    }
+    // Scan in chunks (retries and shrinks the range on RPC limits, never skips a chunk).
+    // The v10.2 bridge emits the event without grossAmount, so both signatures are matched.
+    const events = await fetchLogs(
+        baseProvider,
+        {
+            address: BASE_BRIDGE,
+            topics: [bridgeEventTopics("CrossChainTransferInitiated"), ethers.toBeHex(ARB_LZ_EID, 32)],
+        },
+        { fromBlock: BASE_DEPLOY_BLOCK, toBlock: latestBlock }
+    );
 
     console.log(`   Found ${events.length} cross-chain transfer(s) to Arb Sepolia`);
 
@@ -66,89 +63,44 @@ async function main() {
         return;
     }
 
-    // For each event, get the source TX hash and check CCTP attestation
-    const messageTransmitter = new ethers.Contract(
-        MESSAGE_TRANSMITTER_V2,
-        MESSAGE_TRANSMITTER_ABI,
-        signer
-    );
-
+    const attestations = new AttestationClient({ apiUrl: ATTESTATION_API });
     let relayedCount = 0;
 
     for (let i = 0; i < events.length; i++) {
         const event = events[i];
         const txHash = event.transactionHash;
-        const amount = (event as ethers.EventLog).args[2];
+        const { grossAmount } = parseBridgeLog(event)!.args;
 
         console.log(`\n--- Transfer ${i + 1}/${events.length} ---`);
         console.log(`   TX: ${txHash}`);
-        console.log(`   Amount: ${ethers.formatUnits(amount, 6)} USDC`);
-
-        // Query Circle Iris API
-        const irisUrl = `${CIRCLE_IRIS_API}/${BASE_CCTP_DOMAIN}?transactionHash=${txHash}`;
-        console.log(`   Querying Iris API...`);
+        console.log(`   Burned: ${ethers.formatUnits(grossAmount, 6)} USDC`);
 
         try {
-            const resp = await fetch(irisUrl);
-            if (!resp.ok) {
-                console.log(`   Iris API returned ${resp.status} - skipping`);
-                continue;
-            }
-
-            const data = await resp.json();
-            if (!data.messages || data.messages.length === 0) {
+            const [msg] = await attestations.getMessages(BASE_CCTP_DOMAIN, txHash);
+            if (!msg) {
                 console.log(`   No CCTP message found for this TX - skipping`);
                 continue;
             }
-
-            const msg = data.messages[0];
             console.log(`   CCTP status: ${msg.status}`);
-
-            if (msg.status !== "complete") {
+            if (!isAttested(msg)) {
                 console.log(`   Attestation not ready - skipping`);
                 continue;
             }
 
-            // Check if nonce is already used on the real MessageTransmitter
-            // CCTP V2 uses source domain + nonce as the key
-            // For now, just try to relay - if nonce is used, it will revert
-            console.log(`   Relaying to correct MessageTransmitterV2...`);
-
-            try {
-                // Get fee data for proper gas pricing on Arb
-                const feeData = await ethers.provider.getFeeData();
-                const gasOverrides: Record<string, unknown> = { gasLimit: 500000 };
-                if (feeData.maxFeePerGas) {
-                    gasOverrides.maxFeePerGas = feeData.maxFeePerGas * 2n;
-                    gasOverrides.maxPriorityFeePerGas = feeData.maxPriorityFeePerGas
-                        ? feeData.maxPriorityFeePerGas * 2n
-                        : 1000000n;
-                }
-
-                const relayTx = await messageTransmitter.receiveMessage(
-                    msg.message,
-                    msg.attestation,
-                    gasOverrides
-                );
-                console.log(`   Relay TX: ${relayTx.hash}`);
-
-                const receipt = await relayTx.wait();
-                console.log(`   Confirmed! Gas used: ${receipt?.gasUsed}`);
-                console.log(`   Logs: ${receipt?.logs?.length || 0}`);
-                relayedCount++;
-
-                // Small delay between relays
-                await new Promise(resolve => setTimeout(resolve, 3000));
-            } catch (relayErr: unknown) {
-                const errMsg = relayErr instanceof Error ? relayErr.message : String(relayErr);
-                if (errMsg.includes("Nonce already used") || errMsg.includes("already received")) {
-                    console.log(`   Already relayed (nonce consumed) - skipping`);
-                } else {
-                    console.error(`   Relay failed:`, errMsg.slice(0, 200));
-                }
+            // Checks usedNonces first and only sends when the message is unrelayed
+            const result = await relayCctpMessage(signer, msg);
+            if (result.status === "already_relayed") {
+                console.log(`   Already relayed (nonce consumed) - skipping`);
+                continue;
             }
-        } catch (fetchErr) {
-            console.error(`   Iris API error:`, fetchErr);
+            console.log(`   Relay TX: ${result.txHash}`);
+            console.log(`   Confirmed! Gas used: ${result.gasUsed}`);
+            relayedCount++;
+
+            // Small delay between relays
+            await new Promise(resolve => setTimeout(resolve, 3000));
+        } catch (err) {
+            console.error(`   ${describeError(err, "Relay")}`);
         }
     }
 
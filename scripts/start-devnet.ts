@@ -0,0 +1,118 @@
+import { ethers, network } from "hardhat";
+import * as fs from "fs";
+import * as path from "path";
+import { DEVNET_CHAINS, DevnetChain, DevnetChainSpec, deployDevnet, fundUsdc } from "./devnet/fixtures";
+import { LocalAttestationApi, LocalLzRelayer } from "./devnet/relayers";
+
+/**
+ * Run a local multi-chain devnet: Base, Ethereum and Arbitrum bridges with
+ * real verifiers behind mock LayerZero endpoints and mock CCTP, a LayerZero
+ * relayer (DVNs + executor) and a CCTP attestation API.
+ *
+ * Usage:
+ *   # All chains on one node
+ *   npx hardhat node
+ *   npx hardhat run scripts/start-devnet.ts --network localhost
+ *
+ *   # One node per chain (same order as the chains: base, ethereum, arbitrum)
+ *   DEVNET_RPC_URLS=http://127.0.0.1:8545,http://127.0.0.1:8546 npx hardhat run scripts/start-devnet.ts
+ *
+ * Addresses are written to DEVNET_OUT (default .mixvm/devnet.json). Point
+ * the SDK's AttestationClient, the tracker or the CCTP relayer at the printed
+ * attestation API to attest burns.
+ *
+ * Optional: ATTESTATION_PORT (default 8790), FAST_FEE_BPS (default 1),
+ * FUND_USDC (USDC minted to the first two accounts per chain, default 1000),
+ * RUN_SECONDS (stop after this long; default: until Ctrl-C)
+ */
+
+const OUT_PATH = process.env.DEVNET_OUT || ".mixvm/devnet.json";
+const POLL_MS = 1000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Chains on their own nodes when DEVNET_RPC_URLS is set, else all on --network
+async function chainSpecs(): Promise<DevnetChainSpec[]> {
+    const urls = (process.env.DEVNET_RPC_URLS || "").split(",").filter(Boolean);
+    if (urls.length === 0) return DEVNET_CHAINS;
+    if (urls.length > DEVNET_CHAINS.length) {
+        throw new Error(`DEVNET_RPC_URLS has ${urls.length} URLs; the devnet has ${DEVNET_CHAINS.length} chains`);
+    }
+    const specs: DevnetChainSpec[] = [];
+    for (const [i, url] of urls.entries()) {
+        specs.push({ ...DEVNET_CHAINS[i], signer: await new ethers.JsonRpcProvider(url).getSigner(0) });
+    }
+    return specs;
+}
+
+function describe(chain: DevnetChain) {
+    return {
+        chainId: chain.chainId,
+        lzEid: chain.eid,
+        cctpDomain: chain.cctpDomain,
+        deployBlock: chain.deployBlock,
+        contracts: {
+            privateLZBridge: chain.addresses.bridge,
+            transferVerifier: chain.addresses.transferVerifier,
+            withdrawVerifier: chain.addresses.withdrawVerifier,
+            poseidonHasher: chain.addresses.poseidonHasher,
+        },
+        layerzero: { endpoint: chain.addresses.endpoint },
+        cctp: {
+            tokenMessenger: chain.addresses.tokenMessenger,
+            messageTransmitter: chain.addresses.messageTransmitter,
+            usdc: chain.addresses.usdc,
+        },
+    };
+}
+
+async function main() {
+    console.log(`Deploying devnet on ${process.env.DEVNET_RPC_URLS || network.name}...`);
+    const devnet = await deployDevnet({ chains: await chainSpecs() });
+
+    const fund = ethers.parseUnits(process.env.FUND_USDC || "1000", 6);
+    // Hardhat nodes share the default accounts
+    const accounts = (await ethers.getSigners()).slice(0, 2);
+    for (const chain of devnet.chains) {
+        for (const account of accounts) await fundUsdc(chain, account.address, fund);
+    }
+
+    const api = new LocalAttestationApi(devnet.chains, devnet.attester, Number(process.env.FAST_FEE_BPS || 1));
+    const apiUrl = await api.listen(Number(process.env.ATTESTATION_PORT || 8790));
+
+    const out = {
+        attestationApi: apiUrl,
+        attester: devnet.attester.address,
+        chains: Object.fromEntries(devnet.chains.map((chain) => [chain.name, describe(chain)])),
+    };
+    fs.mkdirSync(path.dirname(OUT_PATH), { recursive: true });
+    fs.writeFileSync(OUT_PATH, JSON.stringify(out, null, 2));
+
+    for (const chain of devnet.chains) {
+        console.log(`  ${chain.name.padEnd(9)} EID ${chain.eid}, domain ${chain.cctpDomain}: bridge ${chain.addresses.bridge}`);
+    }
+    console.log(`Attestation API: ${apiUrl}`);
+    console.log(`Addresses written to ${OUT_PATH}`);
+    console.log("Relaying LayerZero messages (Ctrl-C to stop)...");
+
+    const lz = new LocalLzRelayer(devnet.chains);
+    const deadline = process.env.RUN_SECONDS ? Date.now() + Number(process.env.RUN_SECONDS) * 1000 : Infinity;
+    while (Date.now() < deadline) {
+        for (const delivery of await lz.deliverPending()) {
+            const { packet } = delivery;
+            console.log(
+                `  ${packet.srcEid} -> ${packet.dstEid} nonce ${packet.nonce}: ${delivery.status}` +
+                    (delivery.error ? ` (${delivery.error})` : "")
+            );
+        }
+        await sleep(POLL_MS);
+    }
+    await api.close();
+}
+
+main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+        console.error(error);
+        process.exit(1);
+    });
@@ -1,4 +1,6 @@
 import { ethers } from "hardhat";
+import { RpcPool } from "../../sdk/src/rpc";
+import { AttestationClient, IRIS_SANDBOX_API } from "../../sdk/src/cctp";
 
 /**
  * Test helper functions for cross-chain privacy transfers
@@ -39,8 +41,8 @@ export const STEALTH_REGISTRY_ADDRESSES: Record<number, string> = {
     11155111: "", // Deploy needed
 };
 
-// Circle Attestation API
-export const CIRCLE_ATTESTATION_API = "https://iris-api-sandbox.circle.com/attestations";
+// Circle Attestation API (override to point at a mock server)
+export const CIRCLE_ATTESTATION_API = process.env.ATTESTATION_API || IRIS_SANDBOX_API;
 
 // Bridge ABI for tests
 export const BRIDGE_ABI = [
@@ -100,33 +102,22 @@ export function generateNullifier(secret: bigint, commitment: string): string {
 }
 
 /**
- * Wait for Circle attestation
+ * Wait for Circle attestation of a source transaction's CCTP burn
+ *
+ * @returns The attested message and its attestation
  */
 export async function waitForAttestation(
-    messageHash: string,
+    sourceDomain: number,
+    txHash: string,
     maxWaitMs: number = 600000 // 10 minutes
-): Promise<string> {
-    const startTime = Date.now();
-
-    while (Date.now() - startTime < maxWaitMs) {
-        try {
-            const response = await fetch(`${CIRCLE_ATTESTATION_API}/${messageHash}`);
-            const data = await response.json();
-
-            if (data.status === "complete") {
-                console.log("Attestation received!");
-                return data.attestation;
-            }
-
-            console.log(`Waiting for attestation... (${data.status || "pending"})`);
-        } catch {
-            console.log("Attestation not ready yet...");
-        }
-
-        await sleep(15000); // 15 second retry
-    }
-
-    throw new Error("Attestation timeout");
+): Promise<{ message: string; attestation: string }> {
+    const client = new AttestationClient({ apiUrl: CIRCLE_ATTESTATION_API, initialDelayMs: 5000, maxDelayMs: 15000 });
+    const attested = await client.waitForAttestation(sourceDomain, txHash, {
+        timeoutMs: maxWaitMs,
+        onStatus: (status) => console.log(`Waiting for attestation... (${status})`),
+    });
+    console.log("Attestation received!");
+    return attested;
 }
 
 /**
@@ -157,16 +148,16 @@ export function parseBalance(amount: string, chainId: number): bigint {
  */
 export async function checkWalletBalances(wallet: string): Promise<void> {
     const chains = [
-        { name: "Arc Testnet", chainId: 5042002, rpc: "https://arc-testnet.drpc.org", native: "USDC", decimals: 18 },
-        { name: "Base Sepolia", chainId: 84532, rpc: "https://sepolia.base.org", native: "ETH", decimals: 18 },
-        { name: "Ethereum Sepolia", chainId: 11155111, rpc: "https://ethereum-sepolia-rpc.publicnode.com", native: "ETH", decimals: 18 },
+        { name: "Arc Testnet", chainId: 5042002, rpcs: ["https://arc-testnet.drpc.org", "https://rpc.testnet.arc.network"], native: "USDC", decimals: 18 },
+        { name: "Base Sepolia", chainId: 84532, rpcs: ["https://sepolia.base.org", "https://base-sepolia-rpc.publicnode.com"], native: "ETH", decimals: 18 },
+        { name: "Ethereum Sepolia", chainId: 11155111, rpcs: ["https://ethereum-sepolia-rpc.publicnode.com", "https://sepolia.drpc.org"], native: "ETH", decimals: 18 },
     ];
 
     console.log("\n=== Wallet Balances ===");
     console.log(`Wallet: ${wallet}\n`);
 
     for (const chain of chains) {
-        const provider = new ethers.JsonRpcProvider(chain.rpc);
+        const provider = new RpcPool(chain.chainId, chain.rpcs);
         const nativeBalance = await provider.getBalance(wallet);
 
         console.log(`${chain.name}:`);
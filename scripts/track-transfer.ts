@@ -0,0 +1,121 @@
+import { config, ethers, network } from "hardhat";
+import * as fs from "fs";
+import * as path from "path";
+import { HttpNetworkConfig } from "hardhat/types";
+import { JsonFileTransferStore, TransferTracker, isTerminalState } from "../sdk/src/tracker";
+import { TrackedTransfer, TrackerChain } from "../sdk/src/types";
+import { describeError } from "../sdk/src/errors";
+
+/**
+ * Track cross-chain transfers: LayerZero delivery, CCTP attestation, USDC mint.
+ *
+ * State is kept in TRANSFER_STORE (default .mixvm/transfers.json), so a
+ * transfer tracked once is resumed by later runs.
+ *
+ * Usage:
+ *   # Track a transfer sent from the --network chain until it completes
+ *   TX_HASH=0x... npx hardhat run scripts/track-transfer.ts --network baseSepolia
+ *
+ *   # Check every unfinished transfer once
+ *   npx hardhat run scripts/track-transfer.ts
+ *
+ * Optional: WAIT_MINUTES (default 30), POLL_SECONDS (default 15)
+ */
+
+const DEPLOYED_ADDRESSES = path.join(__dirname, "..", "deployed_addresses.json");
+const STORE_PATH = process.env.TRANSFER_STORE || ".mixvm/transfers.json";
+
+// Chains from deployed_addresses.json, read through the matching hardhat network RPC
+function loadChains(): TrackerChain[] {
+    const deployed = JSON.parse(fs.readFileSync(DEPLOYED_ADDRESSES, "utf8"));
+    const chains: TrackerChain[] = [];
+    for (const [name, entry] of Object.entries<any>(deployed)) {
+        const networkConfig = config.networks[name] as HttpNetworkConfig | undefined;
+        if (!entry?.lzEid || !entry.contracts?.privateLZBridge || !networkConfig?.url) continue;
+        chains.push({
+            eid: entry.lzEid,
+            provider: new ethers.JsonRpcProvider(networkConfig.url, entry.chainId, { staticNetwork: true }),
+            bridgeAddress: entry.contracts.privateLZBridge,
+            cctpDomain: entry.cctpDomain,
+            messageTransmitter: entry.cctp?.messageTransmitter,
+        });
+    }
+    return chains;
+}
+
+function describe(transfer: TrackedTransfer): string {
+    const lines = [
+        `${transfer.id}`,
+        `   ${transfer.srcEid} -> ${transfer.dstEid}, ${ethers.formatUnits(transfer.amount, 6)} USDC to the recipient`,
+        `   State: ${transfer.state}${transfer.state !== transfer.stage ? ` (at ${transfer.stage})` : ""}`,
+    ];
+    if (transfer.reason) lines.push(`   Reason: ${transfer.reason}`);
+    if (transfer.lz) lines.push(`   Delivered: leaf ${transfer.lz.leafIndex}, tx ${transfer.lz.txHash}`);
+    if (transfer.refund) {
+        lines.push(`   Refunded (${transfer.refund.reason}): source leaf ${transfer.refund.leafIndex}, tx ${transfer.refund.txHash}`);
+    }
+    if (transfer.cctp.required) {
+        if (transfer.grossAmount) {
+            const fee = BigInt(transfer.grossAmount) - BigInt(transfer.amount);
+            lines.push(`   Burned: ${ethers.formatUnits(transfer.grossAmount, 6)} USDC (CCTP fee ${ethers.formatUnits(fee, 6)})`);
+        }
+        const mode = transfer.cctp.mode ? `${transfer.cctp.mode} finality, ` : "";
+        lines.push(`   CCTP: ${mode}${transfer.cctp.status ?? "not indexed"}${transfer.cctp.minted ? ", minted" : ""}`);
+    }
+    return lines.join("\n");
+}
+
+async function main() {
+    const chains = loadChains();
+    const tracker = new TransferTracker({
+        chains,
+        store: new JsonFileTransferStore(STORE_PATH),
+        pollIntervalMs: Number(process.env.POLL_SECONDS || 15) * 1000,
+    });
+
+    tracker.on("progress", (transfer: TrackedTransfer, from: string) => {
+        console.log(`   ${from} -> ${transfer.state}${transfer.reason ? `: ${transfer.reason}` : ""}`);
+    });
+    tracker.on("pollError", (err: unknown) => {
+        console.log(`   Poll failed: ${describeError(err)}`);
+    });
+
+    const txHash = process.env.TX_HASH;
+    if (!txHash) {
+        console.log(`Resuming unfinished transfers from ${STORE_PATH}...`);
+        const transfers = await tracker.resume();
+        if (transfers.length === 0) console.log("No unfinished transfers.");
+        for (const transfer of transfers) console.log(`\n${describe(transfer)}`);
+        return;
+    }
+
+    const chainId = Number((await ethers.provider.getNetwork()).chainId);
+    const deployed = JSON.parse(fs.readFileSync(DEPLOYED_ADDRESSES, "utf8"));
+    const srcEid = deployed[network.name]?.lzEid;
+    if (!srcEid) {
+        throw new Error(`No bridge deployment for --network ${network.name} (chain ${chainId})`);
+    }
+
+    console.log(`Tracking ${txHash} from EID ${srcEid}...`);
+    const transfer = await tracker.track(srcEid, txHash);
+    console.log(describe(transfer));
+    if (isTerminalState(transfer.state)) return;
+
+    const waitMs = Number(process.env.WAIT_MINUTES || 30) * 60_000;
+    try {
+        const done = await tracker.waitFor(transfer.id, "completed", waitMs);
+        console.log(`\n${describe(done)}`);
+    } catch (err) {
+        console.log(`\n${describeError(err)}`);
+        const latest = await tracker.get(transfer.id);
+        if (latest) console.log(describe(latest));
+        process.exitCode = 1;
+    }
+}
+
+main()
+    .then(() => process.exit(process.exitCode ?? 0))
+    .catch((error) => {
+        console.error(error);
+        process.exit(1);
+    });
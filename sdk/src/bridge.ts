@@ -0,0 +1,1110 @@
+import { ethers, Contract, Provider, Signer, Interface, TransactionReceipt } from "ethers";
+import {
+  BridgeConfig,
+  BridgeDepositResult,
+  BridgeDestination,
+  BridgeEvents,
+  BridgeFeeQuote,
+  BridgeTransferParams,
+  BridgeTransferResult,
+  BridgeWithdrawResult,
+  CctpTransferMode,
+  CctpTransferParams,
+  TransferQuote,
+  NoteStatus,
+  NoteStore,
+  PrivateNote,
+  StealthData,
+  AuditData,
+  PreflightReport,
+  BridgePauseState,
+  RelayerQuote,
+  FIELD_SIZE,
+} from "./types";
+import { initPoseidon, computeCommitment, computeNullifier } from "./poseidon";
+import { MerkleTree } from "./merkle";
+import { BRIDGE_EVENTS_ABI, parseBridgeEvents } from "./events";
+import { fetchLogs } from "./logs";
+import { MerkleSync } from "./sync";
+import { ProofGenerator, packProof } from "./proof";
+import { MemoryNoteStore, NoteTransition, sendWithNotes, submitWithNotes, noteStatus } from "./notes";
+import { MixvmError, ContractRevertError, decodeError } from "./errors";
+import {
+  assertPreflight,
+  preflightTransfer as runTransferPreflight,
+  preflightWithdraw as runWithdrawPreflight,
+} from "./preflight";
+import { assertNotPaused, getPauseState } from "./pause";
+import { RelayerClient, relayerFeeBinding } from "./relayer";
+import {
+  AttestationClient,
+  CCTP_FINALITY_FAST,
+  CCTP_MODE_FINALITY,
+  cctpNetAmount,
+  cctpTransferFee,
+  quoteCctpFee,
+} from "./cctp";
+import { getChainById } from "./chains";
+import { encodeLzOptions } from "./lzOptions";
+import * as crypto from "crypto";
+
+// PrivateLZBridge v10 ABI (minimal for SDK operations)
+export const BRIDGE_ABI = [
+  "function deposit(uint256 amount, bytes32 commitment) external",
+  "function initiateTransfer(uint32 dstEid, bytes32 recipientCommitment, uint256 amount, bytes32 nullifier, bytes32 newSenderCommitment, bytes32 refundCommitment, bytes32 merkleRoot, uint256[8] proof, tuple(uint256 ephemeralPubKeyX, uint256 ephemeralPubKeyY, uint256 stealthAddressX, uint256 stealthAddressY, uint256 viewTag) stealthData, tuple(uint256[4] encryptedSender, uint256[4] encryptedRecipient, uint256[4] encryptedAmount) auditData, tuple(uint32 minFinalityThreshold, uint256 maxFee) cctpParams, bytes options) external payable returns (bytes32 guid)",
+  "function withdraw(address recipient, uint256 amount, bytes32 nullifier, bytes32 newCommitment, bytes32 merkleRoot, uint256[8] proof) external",
+  "function withdrawViaRelayer(address recipient, address relayer, uint256 fee, uint256 amount, bytes32 nullifier, bytes32 newCommitment, bytes32 merkleRoot, uint256[8] proof) external",
+  "function quote(uint32 dstEid, bytes32 recipientCommitment, uint256 amount, tuple(uint256 ephemeralPubKeyX, uint256 ephemeralPubKeyY, uint256 stealthAddressX, uint256 stealthAddressY, uint256 viewTag) stealthData, bytes options) view returns (uint256 nativeFee, uint256 lzTokenFee)",
+  "function usdc() view returns (address)",
+  "function nextLeafIndex() view returns (uint256)",
+  "function getLastRoot() view returns (bytes32)",
+  "function isKnownRoot(bytes32 root) view returns (bool)",
+  "function nullifiers(bytes32) view returns (bool)",
+  "function commitmentExists(bytes32) view returns (bool)",
+  "function peers(uint32) view returns (bytes32)",
+  "function cctpMessenger() view returns (address)",
+  "function cctpDomains(uint32) view returns (uint32)",
+  "function cctpDomainSet(uint32) view returns (bool)",
+  "function cctpFeeFor(uint32 dstEid, uint256 amount) view returns (uint256)",
+  "function cctpMaxFeeBps() view returns (uint256)",
+  "function cctpMinFinalityThreshold() view returns (uint32)",
+  "function cctpMaxFinalityThreshold() view returns (uint32)",
+  "function pendingRefunds(bytes32 guid) view returns (bytes32 refundCommitment, uint256 amount, uint32 dstEid)",
+  ...BRIDGE_EVENTS_ABI,
+];
+
+export const ERC20_ABI = [
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function approve(address spender, uint256 amount) returns (bool)",
+  "function balanceOf(address account) view returns (uint256)",
+];
+
+// Type 3 options with lzReceive gas = 500,000 (the bridge's own default)
+export const DEFAULT_LZ_OPTIONS = encodeLzOptions({ lzReceive: { gas: 500_000n } });
+
+// How long to wait for a relayer-submitted withdraw or transfer to be mined
+const RELAYED_TX_TIMEOUT_MS = 10 * 60_000;
+const RELAYED_TX_POLL_MS = 2_000;
+
+// Buffer on the quoted native fee (percent) to avoid LZ_InsufficientFee races
+const FEE_BUFFER_PERCENT = 120n;
+
+const EMPTY_STEALTH_DATA: StealthData = {
+  ephemeralPubKeyX: 0n,
+  ephemeralPubKeyY: 0n,
+  stealthAddressX: 0n,
+  stealthAddressY: 0n,
+  viewTag: 0n,
+};
+
+// Sent when the route has no CCTP domain (the bridge ignores it)
+const NO_CCTP_PARAMS: CctpTransferParams = { minFinalityThreshold: CCTP_FINALITY_FAST, maxFee: 0n };
+
+const EMPTY_AUDIT_DATA: AuditData = {
+  encryptedSender: [0n, 0n, 0n, 0n],
+  encryptedRecipient: [0n, 0n, 0n, 0n],
+  encryptedAmount: [0n, 0n, 0n, 0n],
+};
+
+/**
+ * Client for PrivateLZBridge v10 (USDC pool with LayerZero + CCTP transfers)
+ *
+ * @example
+ * ```typescript
+ * const bridge = new PrivateLZBridgeClient({
+ *   provider,
+ *   signer,
+ *   bridgeAddress: "0x...",
+ *   deployBlock: 37366200,
+ *   circuitPaths,
+ * });
+ *
+ * await bridge.initialize();
+ *
+ * const { note } = await bridge.deposit(1_000_000n);
+ * await bridge.initiateTransfer({ dstEid: 40161, amount: 500_000n, note });
+ * ```
+ */
+export class PrivateLZBridgeClient {
+  protected provider: Provider;
+  protected signer?: Signer;
+  protected contract: Contract;
+  protected iface: Interface;
+  protected merkleSync: MerkleSync;
+  protected proofGenerator?: ProofGenerator;
+  protected initialized: boolean = false;
+  protected bridgeAddress: string;
+  protected usdcAddress?: string;
+  protected deployBlock: number;
+  protected noteStore: NoteStore;
+  protected chainId?: number;
+  protected destinations: Record<number, BridgeDestination>;
+  protected attestations: AttestationClient;
+  private transferAbiChecked = false;
+
+  constructor(config: BridgeConfig) {
+    this.provider = config.provider;
+    this.signer = config.signer;
+    this.bridgeAddress = config.bridgeAddress;
+    this.usdcAddress = config.usdcAddress;
+    this.deployBlock = config.deployBlock ?? 0;
+    this.iface = new Interface(BRIDGE_ABI);
+    this.contract = new Contract(
+      config.bridgeAddress,
+      BRIDGE_ABI,
+      config.signer ?? config.provider
+    );
+    this.merkleSync = new MerkleSync(config.provider, config.bridgeAddress, {
+      deployBlock: this.deployBlock,
+      cache: config.treeCache,
+    });
+    this.noteStore = config.noteStore ?? new MemoryNoteStore();
+    this.destinations = config.destinations ?? {};
+    this.attestations = config.attestations ?? new AttestationClient();
+
+    if (config.circuitPaths) {
+      this.proofGenerator = new ProofGenerator(config.circuitPaths, config.prover);
+    }
+  }
+
+  /**
+   * Initialize the client (must be called before other operations)
+   */
+  async initialize(): Promise<void> {
+    if (this.initialized) return;
+
+    await initPoseidon();
+    this.chainId = Number((await this.provider.getNetwork()).chainId);
+    await this.syncMerkleTree();
+    this.initialized = true;
+  }
+
+  /**
+   * Attach this bridge's chain and address to a note
+   */
+  protected stampNote(note: PrivateNote): PrivateNote {
+    return {
+      ...note,
+      chainId: note.chainId ?? this.chainId,
+      bridgeAddress: note.bridgeAddress ?? this.bridgeAddress,
+    };
+  }
+
+  /**
+   * Nullifier a note is spent with, by transfers and withdraws alike
+   *
+   * Poseidon(randomness, commitment) uses only values the commitment binds, so
+   * a note has one nullifier whichever circuit spends it.
+   */
+  protected noteNullifier(note: PrivateNote): bigint {
+    return computeNullifier(note.randomness, note.commitment);
+  }
+
+  /**
+   * Local merkle tree (available after initialize())
+   */
+  protected get merkleTree(): MerkleTree {
+    return this.merkleSync.getTree();
+  }
+
+  private ensureInitialized(): void {
+    if (!this.initialized) {
+      throw new Error("Bridge client not initialized. Call initialize() first.");
+    }
+  }
+
+  private ensureSigner(): Signer {
+    if (!this.signer) {
+      throw new Error("Signer not provided. Cannot perform write operations.");
+    }
+    return this.signer;
+  }
+
+  private ensureProofGenerator(): ProofGenerator {
+    if (!this.proofGenerator) {
+      throw new Error("Circuit paths not configured. Cannot generate proof.");
+    }
+    return this.proofGenerator;
+  }
+
+  // Poll for the receipt of a tx the relayer sent; null once RELAYED_TX_TIMEOUT_MS passes
+  private async waitForRelayedTx(hash: string): Promise<TransactionReceipt | null> {
+    const deadline = Date.now() + RELAYED_TX_TIMEOUT_MS;
+    for (;;) {
+      const receipt = await this.provider.getTransactionReceipt(hash);
+      if (receipt || Date.now() >= deadline) return receipt;
+      await new Promise((resolve) => setTimeout(resolve, RELAYED_TX_POLL_MS));
+    }
+  }
+
+  /**
+   * Fetch new leaf-inserting bridge events into the local merkle tree
+   */
+  async syncMerkleTree(): Promise<void> {
+    await this.merkleSync.sync();
+  }
+
+  protected randomFieldElement(): bigint {
+    const bytes = crypto.randomBytes(31);
+    return BigInt("0x" + bytes.toString("hex")) % FIELD_SIZE;
+  }
+
+  protected toBytes32(value: bigint): string {
+    return "0x" + value.toString(16).padStart(64, "0");
+  }
+
+  /**
+   * Resolve the pool's USDC token address
+   */
+  async getUsdcAddress(): Promise<string> {
+    if (!this.usdcAddress) {
+      this.usdcAddress = (await this.contract.usdc()) as string;
+    }
+    return this.usdcAddress;
+  }
+
+  /**
+   * Approve the bridge to pull `amount` USDC if the current allowance is lower
+   *
+   * @param amount Amount the bridge must be able to transfer
+   * @returns Approval tx hash, or undefined if no approval was needed
+   */
+  async ensureAllowance(amount: bigint): Promise<string | undefined> {
+    const signer = this.ensureSigner();
+    const owner = await signer.getAddress();
+    const usdc = new Contract(await this.getUsdcAddress(), ERC20_ABI, signer);
+
+    try {
+      const allowance: bigint = await usdc.allowance(owner, this.bridgeAddress);
+      if (allowance >= amount) return undefined;
+
+      const tx = await usdc.approve(this.bridgeAddress, amount);
+      const receipt = await tx.wait();
+      if (!receipt || receipt.status === 0) {
+        throw new ContractRevertError("REVERTED", "USDC approval failed", { txHash: tx.hash });
+      }
+      return tx.hash;
+    } catch (err) {
+      throw decodeError(err, "USDC approval");
+    }
+  }
+
+  // =============================================================
+  // Core Operations
+  // =============================================================
+
+  /**
+   * Deposit USDC into the private pool
+   *
+   * @param amount Amount to deposit (USDC, 6 decimals)
+   * @returns Deposit result with note details
+   */
+  async deposit(amount: bigint): Promise<BridgeDepositResult> {
+    this.ensureInitialized();
+    const signer = this.ensureSigner();
+
+    // Fail before the approval rather than on the deposit's revert
+    await assertNotPaused(this.provider, this.bridgeAddress, "deposit");
+    const approvalTxHash = await this.ensureAllowance(amount);
+
+    const randomness = this.randomFieldElement();
+    const nullifierSecret = this.randomFieldElement();
+    const commitment = computeCommitment(amount, randomness);
+
+    const data = this.iface.encodeFunctionData("deposit", [
+      amount,
+      this.toBytes32(commitment),
+    ]);
+
+    let note = this.stampNote({
+      commitment,
+      balance: amount,
+      randomness,
+      nullifierSecret,
+      leafIndex: -1,
+    });
+
+    const { tx, receipt } = await sendWithNotes(
+      this.noteStore,
+      signer,
+      { to: this.bridgeAddress, data },
+      {
+        spending: [],
+        created: [note],
+        finalize: (receipt) => {
+          const [event] = parseBridgeEvents(receipt.logs, this.bridgeAddress).deposited;
+          const leafIndex = event ? event.leafIndex : this.merkleTree.getLeafCount();
+          note = { ...note, leafIndex, status: "unspent" };
+          return [note];
+        },
+        failureMessage: "Deposit transaction failed",
+      }
+    );
+
+    const leafIndex = note.leafIndex;
+    await this.syncMerkleTree();
+
+    return {
+      txHash: tx.hash,
+      blockNumber: receipt.blockNumber,
+      commitment: this.toBytes32(commitment),
+      leafIndex,
+      note,
+      approvalTxHash,
+    };
+  }
+
+  /**
+   * Quote the LayerZero native fee for a cross-chain transfer
+   *
+   * @param dstEid Destination LayerZero endpoint ID
+   * @param recipientCommitment Recipient commitment (bytes32)
+   * @param amount Amount being transferred
+   * @param stealthData Stealth data sent with the message
+   * @param options LayerZero options (defaults to 500k lzReceive gas)
+   */
+  async quote(
+    dstEid: number,
+    recipientCommitment: string,
+    amount: bigint,
+    stealthData: StealthData = EMPTY_STEALTH_DATA,
+    options: string = DEFAULT_LZ_OPTIONS
+  ): Promise<BridgeFeeQuote> {
+    try {
+      const fee = await this.contract.quote(
+        dstEid,
+        recipientCommitment,
+        amount,
+        stealthData,
+        options
+      );
+      return { nativeFee: fee.nativeFee, lzTokenFee: fee.lzTokenFee };
+    } catch (err) {
+      throw decodeError(err, "Fee quote");
+    }
+  }
+
+  /**
+   * Everything a cross-chain transfer of `amount` costs
+   *
+   * Quotes the LayerZero fee with the payload initiateTransfer sends (fixed
+   * size, so placeholder commitment and stealth data quote the same) and
+   * Circle's current fee for the CCTP burn. In fast mode the bridge's CCTP fee
+   * (the burn's maxFee) comes out of `amount` and the quote's amount is what
+   * the recipient note holds; if Circle's fee is above it the burn settles at
+   * standard finality instead. Standard mode pays no CCTP fee and waits for
+   * finality.
+   *
+   * @param dstEid Destination LayerZero endpoint ID
+   * @param amount Value taken from the sender's note
+   * @param options.lzOptions LayerZero options (defaults to what initiateTransfer sends)
+   * @param options.sourceDomain CCTP domain of this chain, if not in the chain registry
+   * @param options.mode CCTP finality (default "fast")
+   */
+  async quoteTransfer(
+    dstEid: number,
+    amount: bigint,
+    options: { lzOptions?: string; sourceDomain?: number; mode?: CctpTransferMode } = {}
+  ): Promise<TransferQuote> {
+    await this.ensureTransferAbi();
+    const lzOptions = options.lzOptions ?? DEFAULT_LZ_OPTIONS;
+    const mode = options.mode ?? "fast";
+    const [{ amount: netAmount, cctpParams }, destinationDomain] = await Promise.all([
+      this.splitTransferAmount(dstEid, amount, mode),
+      this.contract.cctpDomains(dstEid) as Promise<bigint>,
+    ]).catch((err) => {
+      throw decodeError(err, "Transfer quote");
+    });
+    const fee = await this.quote(dstEid, ethers.ZeroHash, netAmount, EMPTY_STEALTH_DATA, lzOptions);
+    const nativeFeeWithBuffer = (fee.nativeFee * FEE_BUFFER_PERCENT) / 100n;
+    const cctpFee = cctpParams?.maxFee ?? 0n;
+    const grossAmount = netAmount + cctpFee;
+
+    let cctp: TransferQuote["cctp"];
+    if (cctpParams) {
+      const chainId = this.chainId ?? Number((await this.provider.getNetwork()).chainId);
+      const sourceDomain = options.sourceDomain ?? getChainById(chainId)?.cctpDomain;
+      if (sourceDomain === undefined) {
+        throw new MixvmError("UNKNOWN_CHAIN", `No CCTP domain known for chain ${chainId}`, {
+          hint: "Pass options.sourceDomain",
+        });
+      }
+
+      cctp = {
+        ...(await quoteCctpFee(this.attestations, grossAmount, cctpFee, mode, sourceDomain, Number(destinationDomain))),
+        sourceDomain,
+        destinationDomain: Number(destinationDomain),
+        minFinalityThreshold: cctpParams.minFinalityThreshold,
+      };
+    }
+
+    return {
+      dstEid,
+      amount: netAmount,
+      grossAmount,
+      options: lzOptions,
+      nativeFee: fee.nativeFee,
+      lzTokenFee: fee.lzTokenFee,
+      nativeFeeWithBuffer,
+      cctp,
+      breakdown: {
+        usdcSent: grossAmount,
+        usdcDelivered: netAmount,
+        usdcFees: cctpFee,
+        nativeTotal: fee.nativeFee,
+      },
+    };
+  }
+
+  /**
+   * Throws LEGACY_BRIDGE for bridges without this client's initiateTransfer,
+   * such as the v10.2 deployments (no refund commitment or CCTP parameters).
+   * Checked once, from the bridge's bytecode.
+   */
+  private async ensureTransferAbi(): Promise<void> {
+    if (this.transferAbiChecked) return;
+    const code = await this.provider.getCode(this.bridgeAddress);
+    const selector = this.iface.getFunction("initiateTransfer")!.selector.slice(2);
+    if (!code.toLowerCase().includes(selector)) {
+      throw new MixvmError("LEGACY_BRIDGE", `Bridge ${this.bridgeAddress} predates this SDK's cross-chain transfers`, {
+        hint: "Send from an upgraded bridge deployment, or use an SDK release for this one",
+      });
+    }
+    this.transferAbiChecked = true;
+  }
+
+  /**
+   * Split `sent`, the value taken from a note, into the recipient's amount
+   * and the CCTP burn parameters for `mode`, checked against the owner's
+   * finality bounds. A fast burn keeps the largest amount whose bridge fee
+   * fits in `sent` (any unit left over stays in the change note). Standard
+   * mode, or a route that moves no USDC (cctpParams undefined), sends all of it.
+   */
+  private async splitTransferAmount(
+    dstEid: number,
+    sent: bigint,
+    mode: CctpTransferMode
+  ): Promise<{ amount: bigint; cctpParams?: CctpTransferParams }> {
+    const [messenger, domainSet, maxFeeBps, minThreshold, maxThreshold] = await Promise.all([
+      this.contract.cctpMessenger() as Promise<string>,
+      this.contract.cctpDomainSet(dstEid) as Promise<boolean>,
+      this.contract.cctpMaxFeeBps() as Promise<bigint>,
+      this.contract.cctpMinFinalityThreshold() as Promise<bigint>,
+      this.contract.cctpMaxFinalityThreshold() as Promise<bigint>,
+    ]);
+    if (messenger === ethers.ZeroAddress || !domainSet) return { amount: sent };
+
+    const minFinalityThreshold = CCTP_MODE_FINALITY[mode];
+    if (BigInt(minFinalityThreshold) < minThreshold || BigInt(minFinalityThreshold) > maxThreshold) {
+      throw new MixvmError("INVALID_CCTP_PARAMS", `This bridge does not allow ${mode} CCTP transfers`, {
+        hint: `Use ${mode === "fast" ? "standard" : "fast"} mode`,
+      });
+    }
+    if (mode === "standard") {
+      return { amount: sent, cctpParams: { minFinalityThreshold, maxFee: 0n } };
+    }
+    const amount = cctpNetAmount(sent, maxFeeBps);
+    if (amount <= 0n) {
+      throw new MixvmError("INVALID_AMOUNT", `${sent} USDC units do not cover the CCTP fee`, {
+        hint: "Send a larger amount, or use standard mode",
+      });
+    }
+    return { amount, cctpParams: { minFinalityThreshold, maxFee: cctpTransferFee(amount, maxFeeBps) } };
+  }
+
+  /**
+   * What a transfer takes from its note: the relayer's quote and fee (when
+   * params.relayer is set), then the recipient's amount and the CCTP burn
+   * out of what is left (see splitTransferAmount)
+   */
+  private async transferAmounts(params: BridgeTransferParams): Promise<{
+    quote?: RelayerQuote;
+    relayerFee: bigint;
+    amount: bigint;
+    cctpParams?: CctpTransferParams;
+    cctpFee: bigint;
+  }> {
+    // The relayer's fee and address are proven with the transfer
+    const quote = params.relayer ? await params.relayer.quote(this.chainId!, params.amount, params.dstEid) : undefined;
+    if (quote && quote.bridge.toLowerCase() !== this.bridgeAddress.toLowerCase()) {
+      throw new MixvmError("RELAYER_REJECTED", `Relayer serves bridge ${quote.bridge} on chain ${this.chainId}`, {
+        hint: "Use a relayer for this bridge deployment",
+      });
+    }
+    if (quote && quote.fee >= params.amount) {
+      throw new MixvmError("INVALID_RELAYER_FEE", `Relayer fee ${quote.fee} is not below the amount ${params.amount}`, {
+        hint: "Send a larger amount, or send from your own wallet",
+      });
+    }
+    const relayerFee = quote?.fee ?? 0n;
+
+    // The proof takes amount + cctpFee (+ relayerFee) out of the note, so the burn is paid from the pool
+    let split: { amount: bigint; cctpParams?: CctpTransferParams };
+    try {
+      split = await this.splitTransferAmount(params.dstEid, params.amount - relayerFee, params.cctpMode ?? "fast");
+    } catch (err) {
+      throw decodeError(err, "CCTP parameters");
+    }
+    return { quote, relayerFee, ...split, cctpFee: split.cctpParams?.maxFee ?? 0n };
+  }
+
+  /**
+   * Send part or all of a note to another chain
+   *
+   * The recipient note is returned so it can be shared with the recipient;
+   * its leafIndex is -1 until the message is delivered on the destination.
+   * `params.amount` is taken from the note. When USDC is bridged over CCTP in
+   * fast mode (the default) the bridge's fee (see quoteTransfer) comes out of
+   * it and the recipient note holds the rest; standard mode pays no fee. The
+   * signer's wallet only pays the LayerZero fee. Through params.relayer no
+   * wallet pays anything: the relayer sends the LayerZero fee and takes its
+   * own fee out of `amount` first.
+   *
+   * @param params Transfer parameters
+   * @returns Transfer result with change and recipient notes
+   */
+  async initiateTransfer(params: BridgeTransferParams): Promise<BridgeTransferResult> {
+    this.ensureInitialized();
+    const signer = params.relayer ? undefined : this.ensureSigner();
+    const proofGenerator = this.ensureProofGenerator();
+
+    const { dstEid, note } = params;
+    const stealthData = params.stealthData ?? EMPTY_STEALTH_DATA;
+    const auditData = params.auditData ?? EMPTY_AUDIT_DATA;
+    const options = params.options ?? DEFAULT_LZ_OPTIONS;
+
+    if (params.amount <= 0n) {
+      throw new MixvmError("INVALID_AMOUNT", "Amount must be greater than zero");
+    }
+    if (params.amount > note.balance) {
+      throw new MixvmError("INSUFFICIENT_NOTE_BALANCE", "Insufficient balance in note", {
+        hint: "Use a note with a larger balance or send a smaller amount",
+      });
+    }
+
+    await this.ensureTransferAbi();
+    const { quote, relayerFee, amount, cctpParams, cctpFee } = await this.transferAmounts(params);
+
+    const nullifier = this.noteNullifier(note);
+
+    // The bridge always inserts the sender commitment, even for a zero change
+    const newSenderBalance = note.balance - amount - cctpFee - relayerFee;
+    const newSenderRandomness = this.randomFieldElement();
+    const newSenderCommitment = computeCommitment(newSenderBalance, newSenderRandomness);
+
+    const recipientRandomness = params.recipientRandomness ?? this.randomFieldElement();
+    const recipientNullifierSecret =
+      params.recipientNullifierSecret ?? this.randomFieldElement();
+    const recipientCommitment = computeCommitment(amount, recipientRandomness);
+
+    // Inserted on this chain instead if the destination can never credit the transfer
+    const refundRandomness = this.randomFieldElement();
+    const refundNote = this.stampNote({
+      commitment: computeCommitment(amount, refundRandomness),
+      balance: amount,
+      randomness: refundRandomness,
+      nullifierSecret: note.nullifierSecret,
+      leafIndex: -1,
+    });
+
+    const merkleProof = await this.merkleSync.getVerifiedProof(note.leafIndex);
+
+    if (!params.skipPreflight) {
+      assertPreflight(
+        await runTransferPreflight(this.provider, this.bridgeAddress, {
+          dstEid,
+          amount: amount + cctpFee + relayerFee,
+          nullifier,
+          merkleRoot: merkleProof.root,
+          leafIndex: note.leafIndex,
+          leafCount: this.merkleTree.getLeafCount(),
+          recipientCommitment,
+          destination: this.destinations[dstEid],
+        })
+      );
+    }
+
+    const { proofData } = await proofGenerator.generateTransferProof({
+      merkleRoot: merkleProof.root.toString(),
+      nullifier: nullifier.toString(),
+      newSenderCommitment: newSenderCommitment.toString(),
+      recipientCommitment: recipientCommitment.toString(),
+      refundCommitment: refundNote.commitment.toString(),
+      senderBalance: note.balance.toString(),
+      senderRandomness: note.randomness.toString(),
+      transferAmount: amount.toString(),
+      cctpFee: cctpFee.toString(),
+      relayer: BigInt(quote?.relayer ?? 0).toString(),
+      relayerFee: relayerFee.toString(),
+      newSenderRandomness: newSenderRandomness.toString(),
+      recipientRandomness: recipientRandomness.toString(),
+      refundRandomness: refundRandomness.toString(),
+      merklePathElements: merkleProof.pathElements.map((e) => e.toString()),
+      merklePathIndices: merkleProof.pathIndices.map((i) => i.toString()),
+    });
+
+    let changeNote: PrivateNote | undefined =
+      newSenderBalance > 0n
+        ? this.stampNote({
+            commitment: newSenderCommitment,
+            balance: newSenderBalance,
+            randomness: newSenderRandomness,
+            nullifierSecret: note.nullifierSecret,
+            leafIndex: -1,
+          })
+        : undefined;
+
+    const transition: NoteTransition = {
+      spending: [this.stampNote(note)],
+      // The refund note is stored before sending, so it survives a crash after the tx is out
+      created: changeNote ? [changeNote, refundNote] : [refundNote],
+      finalize: (receipt) => {
+        const refundable: PrivateNote = { ...refundNote, status: "refundable" };
+        if (!changeNote) return [refundable];
+        const [event] = parseBridgeEvents(receipt.logs, this.bridgeAddress).transfersInitiated;
+        const leafIndex = event ? event.senderLeafIndex : this.merkleTree.getLeafCount();
+        changeNote = { ...changeNote, leafIndex, status: "unspent" };
+        return [changeNote, refundable];
+      },
+      failureMessage: "Cross-chain transfer transaction failed",
+    };
+
+    let txHash: string;
+    let receipt: TransactionReceipt;
+    let nativeFee = 0n;
+    if (quote) {
+      const relayer = params.relayer!;
+      ({ txHash, receipt } = await submitWithNotes(
+        this.noteStore,
+        async () => {
+          const hash = await relayer.submitTransfer({
+            chainId: quote.chainId,
+            relayer: quote.relayer,
+            fee: relayerFee,
+            dstEid,
+            recipientCommitment: this.toBytes32(recipientCommitment),
+            amount,
+            nullifier: this.toBytes32(nullifier),
+            newSenderCommitment: this.toBytes32(newSenderCommitment),
+            refundCommitment: this.toBytes32(refundNote.commitment),
+            merkleRoot: this.toBytes32(merkleProof.root),
+            proof: packProof(proofData),
+            stealthData,
+            auditData,
+            cctpParams: cctpParams ?? NO_CCTP_PARAMS,
+            options,
+          });
+          return { hash, wait: () => this.waitForRelayedTx(hash) };
+        },
+        transition
+      ));
+    } else {
+      const { nativeFee: quotedFee } = await this.quote(
+        dstEid,
+        this.toBytes32(recipientCommitment),
+        amount,
+        stealthData,
+        options
+      );
+      nativeFee = (quotedFee * FEE_BUFFER_PERCENT) / 100n;
+
+      const data = this.iface.encodeFunctionData("initiateTransfer", [
+        dstEid,
+        this.toBytes32(recipientCommitment),
+        amount,
+        this.toBytes32(nullifier),
+        this.toBytes32(newSenderCommitment),
+        this.toBytes32(refundNote.commitment),
+        this.toBytes32(merkleProof.root),
+        packProof(proofData),
+        stealthData,
+        auditData,
+        cctpParams ?? NO_CCTP_PARAMS,
+        options,
+      ]);
+      const sent = await sendWithNotes(
+        this.noteStore,
+        signer!,
+        { to: this.bridgeAddress, data, value: nativeFee, gasLimit: 1500000 },
+        transition
+      );
+      txHash = sent.tx.hash;
+      receipt = sent.receipt;
+    }
+
+    const [event] = parseBridgeEvents(receipt.logs, this.bridgeAddress).transfersInitiated;
+    const senderLeafIndex = event ? event.senderLeafIndex : this.merkleTree.getLeafCount();
+    await this.syncMerkleTree();
+
+    return {
+      txHash,
+      blockNumber: receipt.blockNumber,
+      guid: event ? event.guid : ethers.ZeroHash,
+      dstEid,
+      amount,
+      grossAmount: amount + cctpFee,
+      cctpFee,
+      cctpMode: cctpParams ? params.cctpMode ?? "fast" : undefined,
+      nativeFee,
+      relayerFee: quote?.fee,
+      nullifier: this.toBytes32(nullifier),
+      newSenderCommitment: this.toBytes32(newSenderCommitment),
+      senderLeafIndex,
+      recipientCommitment: this.toBytes32(recipientCommitment),
+      changeNote,
+      recipientNote: {
+        commitment: recipientCommitment,
+        balance: amount,
+        randomness: recipientRandomness,
+        nullifierSecret: recipientNullifierSecret,
+        leafIndex: -1,
+      },
+      refundNote,
+    };
+  }
+
+  /**
+   * Reclaim the refund of a transfer the destination could not credit
+   *
+   * Once the destination's failure ack arrives, this bridge inserts the refund
+   * commitment made by initiateTransfer (TransferRefunded). The stored
+   * refundable note then becomes spendable at that leaf. Reclaiming again
+   * returns the same note.
+   *
+   * @param guid Transfer guid (BridgeTransferResult.guid)
+   * @param refundNote The transfer's refundNote, if it is not in the note store
+   * @returns The spendable refund note
+   */
+  async reclaimRefund(guid: string, refundNote?: PrivateNote): Promise<PrivateNote> {
+    this.ensureInitialized();
+
+    let refunded;
+    try {
+      const logs = await fetchLogs(
+        this.provider,
+        { address: this.bridgeAddress, topics: [this.iface.getEvent("TransferRefunded")!.topicHash, guid] },
+        { fromBlock: this.deployBlock }
+      );
+      [refunded] = parseBridgeEvents(logs, this.bridgeAddress).transfersRefunded;
+      if (!refunded) {
+        const pending = await this.contract.pendingRefunds(guid);
+        throw pending.amount > 0n
+          ? new MixvmError("REFUND_NOT_AVAILABLE", `Transfer ${guid} has not been refunded`, {
+              hint: "The destination must first send the failure ack (refundInboundTransfer, see LzMessageRecovery)",
+              retryable: true,
+            })
+          : new MixvmError("REFUND_NOT_AVAILABLE", `This bridge has no refund for transfer ${guid}`, {
+              hint: "Check the guid and reclaim on the transfer's source chain",
+            });
+      }
+    } catch (err) {
+      throw decodeError(err, "Refund lookup");
+    }
+
+    const commitment = BigInt(refunded.refundCommitment);
+    const stored = (await this.noteStore.list()).find(
+      (n) =>
+        n.commitment === commitment &&
+        n.chainId === this.chainId &&
+        n.bridgeAddress?.toLowerCase() === this.bridgeAddress.toLowerCase()
+    );
+    // A pending refund note is of a transfer whose outcome was never seen; the refund proves it was sent
+    if (stored && !["refundable", "pending"].includes(noteStatus(stored))) return stored;
+    const note = stored ?? refundNote;
+    if (!note || note.commitment !== commitment) {
+      throw new MixvmError("REFUND_NOT_AVAILABLE", `The refund note of transfer ${guid} is not in the note store`, {
+        hint: "Pass the refundNote returned by initiateTransfer",
+      });
+    }
+
+    const reclaimed = this.stampNote({ ...note, leafIndex: refunded.leafIndex, status: "unspent" });
+    await this.noteStore.put([reclaimed]);
+    await this.syncMerkleTree();
+    return reclaimed;
+  }
+
+  /**
+   * Withdraw USDC from the pool to a public address
+   *
+   * @param amount Amount to withdraw
+   * @param note The private note to spend
+   * @param recipient Address to receive USDC
+   * @param options.skipPreflight Skip the on-chain checks that run before proving
+   * @param options.relayer Submit through a relayer service instead of the
+   * signer; its fee comes out of `amount` and no signer is needed
+   * @returns Withdraw result with change note if partial
+   */
+  async withdraw(
+    amount: bigint,
+    note: PrivateNote,
+    recipient: string,
+    options: { skipPreflight?: boolean; relayer?: RelayerClient } = {}
+  ): Promise<BridgeWithdrawResult> {
+    this.ensureInitialized();
+    const signer = options.relayer ? undefined : this.ensureSigner();
+    const proofGenerator = this.ensureProofGenerator();
+
+    if (amount > note.balance) {
+      throw new MixvmError("INSUFFICIENT_NOTE_BALANCE", "Insufficient balance in note", {
+        hint: "Use a note with a larger balance or withdraw a smaller amount",
+      });
+    }
+
+    const nullifier = this.noteNullifier(note);
+
+    const newBalance = note.balance - amount;
+    const newRandomness = this.randomFieldElement();
+    const newCommitment =
+      newBalance > 0n ? computeCommitment(newBalance, newRandomness) : 0n;
+
+    const merkleProof = await this.merkleSync.getVerifiedProof(note.leafIndex);
+
+    // The relayer's fee and address are proven in place of the recipient
+    const quote = options.relayer ? await options.relayer.quote(this.chainId!, amount) : undefined;
+    if (quote && quote.bridge.toLowerCase() !== this.bridgeAddress.toLowerCase()) {
+      throw new MixvmError("RELAYER_REJECTED", `Relayer serves bridge ${quote.bridge} on chain ${this.chainId}`, {
+        hint: "Use a relayer for this bridge deployment",
+      });
+    }
+    if (quote && quote.fee >= amount) {
+      throw new MixvmError("INVALID_RELAYER_FEE", `Relayer fee ${quote.fee} is not below the amount ${amount}`, {
+        hint: "Withdraw a larger amount, or withdraw from your own wallet",
+      });
+    }
+
+    if (!options.skipPreflight) {
+      assertPreflight(
+        await runWithdrawPreflight(this.provider, this.bridgeAddress, {
+          amount,
+          nullifier,
+          merkleRoot: merkleProof.root,
+          leafIndex: note.leafIndex,
+          leafCount: this.merkleTree.getLeafCount(),
+          createsChange: newBalance > 0n,
+        })
+      );
+    }
+
+    const { proofData } = await proofGenerator.generateWithdrawProof({
+      merkleRoot: merkleProof.root.toString(),
+      nullifier: nullifier.toString(),
+      withdrawAmount: amount.toString(),
+      newCommitment: newCommitment.toString(),
+      recipientAddress: (quote
+        ? relayerFeeBinding(recipient, quote.relayer, quote.fee)
+        : BigInt(recipient)
+      ).toString(),
+      balance: note.balance.toString(),
+      randomness: note.randomness.toString(),
+      // The withdraw circuit hashes this with the commitment; see noteNullifier
+      nullifierSecret: note.randomness.toString(),
+      newRandomness: newRandomness.toString(),
+      merklePathElements: merkleProof.pathElements.map((e) => e.toString()),
+      merklePathIndices: merkleProof.pathIndices.map((i) => i.toString()),
+    });
+
+    const nullifierHex = this.toBytes32(nullifier);
+    const newCommitmentHex = newCommitment > 0n ? this.toBytes32(newCommitment) : ethers.ZeroHash;
+    const proof = packProof(proofData);
+
+    let changeNote: PrivateNote | undefined =
+      newBalance > 0n
+        ? this.stampNote({
+            commitment: newCommitment,
+            balance: newBalance,
+            randomness: newRandomness,
+            nullifierSecret: note.nullifierSecret,
+            leafIndex: -1,
+          })
+        : undefined;
+
+    const transition: NoteTransition = {
+      spending: [this.stampNote(note)],
+      created: changeNote ? [changeNote] : [],
+      finalize: (receipt) => {
+        if (!changeNote) return [];
+        const [event] = parseBridgeEvents(receipt.logs, this.bridgeAddress).withdrawn;
+        const leafIndex = event ? event.newLeafIndex : this.merkleTree.getLeafCount();
+        changeNote = { ...changeNote, leafIndex, status: "unspent" };
+        return [changeNote];
+      },
+      failureMessage: "Withdraw transaction failed",
+    };
+
+    let txHash: string;
+    let receipt: TransactionReceipt;
+    if (quote) {
+      const relayer = options.relayer!;
+      ({ txHash, receipt } = await submitWithNotes(
+        this.noteStore,
+        async () => {
+          const hash = await relayer.submitWithdraw({
+            chainId: quote.chainId,
+            recipient,
+            relayer: quote.relayer,
+            fee: quote.fee,
+            amount,
+            nullifier: nullifierHex,
+            newCommitment: newCommitmentHex,
+            merkleRoot: this.toBytes32(merkleProof.root),
+            proof,
+          });
+          return { hash, wait: () => this.waitForRelayedTx(hash) };
+        },
+        transition
+      ));
+    } else {
+      const data = this.iface.encodeFunctionData("withdraw", [
+        recipient,
+        amount,
+        nullifierHex,
+        newCommitmentHex,
+        this.toBytes32(merkleProof.root),
+        proof,
+      ]);
+      const sent = await sendWithNotes(
+        this.noteStore,
+        signer!,
+        { to: this.bridgeAddress, data, gasLimit: 3000000 },
+        transition
+      );
+      txHash = sent.tx.hash;
+      receipt = sent.receipt;
+    }
+
+    const newLeafIndex = changeNote?.leafIndex;
+    await this.syncMerkleTree();
+
+    return {
+      txHash,
+      blockNumber: receipt.blockNumber,
+      nullifier: this.toBytes32(nullifier),
+      amount,
+      recipient,
+      newCommitment: newCommitment > 0n ? this.toBytes32(newCommitment) : undefined,
+      newLeafIndex,
+      changeNote,
+      relayerFee: quote?.fee,
+    };
+  }
+
+  // =============================================================
+  // Pre-flight Checks
+  // =============================================================
+
+  /**
+   * Check whether a withdraw would succeed, without proving
+   *
+   * withdraw() runs the same checks and throws a PreflightError on failure.
+   *
+   * @param amount Amount to withdraw
+   * @param note The private note to spend
+   * @returns Report of each check against the synced tree and the bridge
+   */
+  async preflightWithdraw(amount: bigint, note: PrivateNote): Promise<PreflightReport> {
+    this.ensureInitialized();
+    await this.syncMerkleTree();
+
+    return runWithdrawPreflight(this.provider, this.bridgeAddress, {
+      amount,
+      nullifier: this.noteNullifier(note),
+      merkleRoot: this.merkleTree.getRoot(),
+      leafIndex: note.leafIndex,
+      leafCount: this.merkleTree.getLeafCount(),
+      createsChange: note.balance > amount,
+    });
+  }
+
+  /**
+   * Check whether a cross-chain transfer would succeed, without proving
+   *
+   * Destination checks need a bridge for params.dstEid in config.destinations.
+   * The recipient commitment is only checked when params.recipientRandomness
+   * is given, since it is random otherwise. Amounts are split as
+   * initiateTransfer splits them: the recipient commitment is of the amount
+   * left after the relayer and CCTP fees.
+   *
+   * @param params Transfer parameters
+   * @returns Report of each check against both bridges
+   */
+  async preflightTransfer(params: BridgeTransferParams): Promise<PreflightReport> {
+    this.ensureInitialized();
+    await this.syncMerkleTree();
+    await this.ensureTransferAbi();
+
+    const { dstEid, note } = params;
+    const { amount, cctpFee, relayerFee } = await this.transferAmounts(params);
+    return runTransferPreflight(this.provider, this.bridgeAddress, {
+      dstEid,
+      amount: amount + cctpFee + relayerFee,
+      nullifier: this.noteNullifier(note),
+      merkleRoot: this.merkleTree.getRoot(),
+      leafIndex: note.leafIndex,
+      leafCount: this.merkleTree.getLeafCount(),
+      recipientCommitment:
+        params.recipientRandomness !== undefined
+          ? computeCommitment(amount, params.recipientRandomness)
+          : undefined,
+      destination: this.destinations[dstEid],
+    });
+  }
+
+  // =============================================================
+  // Query Functions
+  // =============================================================
+
+  /**
+   * Read the bridge's pause flags
+   *
+   * @param dstEids Routes to read (default: the configured destinations)
+   */
+  async getPauseState(dstEids?: number[]): Promise<BridgePauseState> {
+    return getPauseState(
+      this.provider,
+      this.bridgeAddress,
+      dstEids ?? Object.keys(this.destinations).map(Number)
+    );
+  }
+
+  /**
+   * Get this bridge's notes with the given status (spendable notes by default)
+   */
+  async getNotes(status: NoteStatus = "unspent"): Promise<PrivateNote[]> {
+    const notes = await this.noteStore.list();
+    return notes.filter(
+      (note) =>
+        noteStatus(note) === status &&
+        (note.chainId === undefined || note.chainId === this.chainId) &&
+        (note.bridgeAddress === undefined ||
+          note.bridgeAddress.toLowerCase() === this.bridgeAddress.toLowerCase())
+    );
+  }
+
+  /**
+   * Get the local merkle root
+   */
+  getMerkleRoot(): bigint {
+    return this.merkleTree.getRoot();
+  }
+
+  /**
+   * Get the bridge's latest on-chain root
+   */
+  async getOnChainMerkleRoot(): Promise<bigint> {
+    return BigInt(await this.contract.getLastRoot());
+  }
+
+  /**
+   * Check if a nullifier has been spent
+   */
+  async isNullifierUsed(nullifier: bigint): Promise<boolean> {
+    return this.contract.nullifiers(this.toBytes32(nullifier));
+  }
+
+  /**
+   * Get the bridge contract address
+   */
+  getBridgeAddress(): string {
+    return this.bridgeAddress;
+  }
+}
@@ -0,0 +1,90 @@
+import * as fs from "fs";
+import * as path from "path";
+import { SyncCursor, TreeCache } from "./types";
+import { writeFileAtomic } from "./files";
+
+/**
+ * Cache key for a bridge's tree: chain and lowercased address
+ */
+export function treeCacheKey(chainId: number, bridgeAddress: string): string {
+  return `${chainId}-${bridgeAddress.toLowerCase()}`;
+}
+
+/**
+ * In-memory tree cache (lost on exit; useful for tests and short scripts)
+ */
+export class MemoryTreeCache implements TreeCache {
+  private cursors = new Map<string, SyncCursor>();
+
+  async load(chainId: number, bridgeAddress: string): Promise<SyncCursor | undefined> {
+    const cursor = this.cursors.get(treeCacheKey(chainId, bridgeAddress));
+    return cursor ? { nextBlock: cursor.nextBlock, leaves: [...cursor.leaves] } : undefined;
+  }
+
+  async save(chainId: number, bridgeAddress: string, cursor: SyncCursor): Promise<void> {
+    this.cursors.set(treeCacheKey(chainId, bridgeAddress), {
+      nextBlock: cursor.nextBlock,
+      leaves: [...cursor.leaves],
+    });
+  }
+
+  async clear(chainId: number, bridgeAddress: string): Promise<void> {
+    this.cursors.delete(treeCacheKey(chainId, bridgeAddress));
+  }
+}
+
+/**
+ * On-disk tree cache, one JSON file per (chainId, bridge) in a directory
+ *
+ * Leaves are public on-chain data, so files are plain JSON.
+ *
+ * @example
+ * ```typescript
+ * const client = new PrivateLZBridgeClient({
+ *   provider,
+ *   bridgeAddress,
+ *   deployBlock: 37366200,
+ *   treeCache: new FileTreeCache(".mixvm/trees"),
+ * });
+ * ```
+ */
+export class FileTreeCache implements TreeCache {
+  private dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  private filePath(chainId: number, bridgeAddress: string): string {
+    return path.join(this.dir, `${treeCacheKey(chainId, bridgeAddress)}.json`);
+  }
+
+  async load(chainId: number, bridgeAddress: string): Promise<SyncCursor | undefined> {
+    let contents: string;
+    try {
+      contents = await fs.promises.readFile(this.filePath(chainId, bridgeAddress), "utf8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw err;
+    }
+
+    const parsed = JSON.parse(contents) as { version: number } & SyncCursor;
+    if (parsed.version !== 1) return undefined;
+    return { nextBlock: parsed.nextBlock, leaves: parsed.leaves };
+  }
+
+  async save(chainId: number, bridgeAddress: string, cursor: SyncCursor): Promise<void> {
+    const json = JSON.stringify({
+      version: 1,
+      chainId,
+      bridgeAddress: bridgeAddress.toLowerCase(),
+      nextBlock: cursor.nextBlock,
+      leaves: cursor.leaves,
+    });
+    await writeFileAtomic(this.filePath(chainId, bridgeAddress), json, 0o644);
+  }
+
+  async clear(chainId: number, bridgeAddress: string): Promise<void> {
+    await fs.promises.rm(this.filePath(chainId, bridgeAddress), { force: true });
+  }
+}
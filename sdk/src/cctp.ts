@@ -0,0 +1,457 @@
+import { Contract, FetchRequest, Provider, Signer, ethers } from "ethers";
+import {
+  AttestationClientOptions,
+  CctpBurnFee,
+  CctpFeeQuote,
+  CctpMessage,
+  CctpRelayResult,
+  CctpTransferMode,
+  DecodedCctpMessage,
+} from "./types";
+import { ChainInfo, getChainByDomain } from "./chains";
+import { MixvmError, decodeError } from "./errors";
+
+/**
+ * Circle attestation service (Iris) for testnets
+ */
+export const IRIS_SANDBOX_API = "https://iris-api-sandbox.circle.com";
+
+/**
+ * CCTP V2 MessageTransmitterV2 (same address on all testnets)
+ */
+export const MESSAGE_TRANSMITTER_V2 = "0xE737e5cEBEEBa77EFE34D4aa090756590b1CE275";
+
+export const MESSAGE_TRANSMITTER_ABI = [
+  "function receiveMessage(bytes message, bytes attestation) external returns (bool success)",
+  "function usedNonces(bytes32) view returns (uint256)",
+];
+
+// Used when neither the caller nor the chain registry sets a gas limit
+const DEFAULT_RELAY_GAS_LIMIT = 300000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// ============ Message Decoding ============
+
+/**
+ * Decode a CCTP V2 message
+ *
+ * Header: version (4) | sourceDomain (4) | destinationDomain (4) | nonce (32) |
+ * sender (32) | recipient (32) | destinationCaller (32) | minFinalityThreshold (4) |
+ * finalityThresholdExecuted (4) | messageBody. A burn message body is
+ * version (4) | burnToken (32) | mintRecipient (32) | amount (32) |
+ * messageSender (32) | maxFee (32) | feeExecuted (32) | expirationBlock (32) | hookData.
+ *
+ * @param message Message bytes from the attestation API
+ */
+export function decodeCctpMessage(message: string): DecodedCctpMessage {
+  const bytes = ethers.getBytes(message);
+  if (bytes.length < 148) {
+    throw new MixvmError("INVALID_CCTP_MESSAGE", `CCTP message is ${bytes.length} bytes, expected at least 148`);
+  }
+  const uint = (data: Uint8Array, start: number, end: number) => BigInt(ethers.hexlify(data.slice(start, end)));
+  const address = (data: Uint8Array, start: number) => ethers.getAddress(ethers.hexlify(data.slice(start + 12, start + 32)));
+
+  const decoded: DecodedCctpMessage = {
+    version: Number(uint(bytes, 0, 4)),
+    sourceDomain: Number(uint(bytes, 4, 8)),
+    destinationDomain: Number(uint(bytes, 8, 12)),
+    nonce: ethers.hexlify(bytes.slice(12, 44)),
+    sender: address(bytes, 44),
+    recipient: address(bytes, 76),
+    destinationCaller: address(bytes, 108),
+    minFinalityThreshold: Number(uint(bytes, 140, 144)),
+    finalityThresholdExecuted: Number(uint(bytes, 144, 148)),
+    messageBody: ethers.hexlify(bytes.slice(148)),
+  };
+
+  const body = bytes.slice(148);
+  if (body.length >= 228) {
+    decoded.burn = {
+      version: Number(uint(body, 0, 4)),
+      burnToken: address(body, 4),
+      mintRecipient: address(body, 36),
+      amount: uint(body, 68, 100),
+      messageSender: address(body, 100),
+      maxFee: uint(body, 132, 164),
+      feeExecuted: uint(body, 164, 196),
+      expirationBlock: uint(body, 196, 228),
+      hookData: ethers.hexlify(body.slice(228)),
+    };
+  }
+
+  return decoded;
+}
+
+/**
+ * Whether a message nonce was consumed by receiveMessage on the destination
+ */
+export async function isCctpNonceUsed(
+  provider: Provider,
+  messageTransmitter: string,
+  nonce: string
+): Promise<boolean> {
+  const transmitter = new Contract(messageTransmitter, MESSAGE_TRANSMITTER_ABI, provider);
+  return ((await transmitter.usedNonces(nonce)) as bigint) !== 0n;
+}
+
+/**
+ * Whether an API message carries a usable attestation
+ */
+export function isAttested(message: CctpMessage): boolean {
+  return message.status === "complete" && !!message.attestation && message.attestation !== "PENDING";
+}
+
+// ============ Fees ============
+
+/**
+ * Finality thresholds a CCTP V2 burn can request
+ */
+export const CCTP_FINALITY_FAST = 1000;
+export const CCTP_FINALITY_STANDARD = 2000;
+
+/**
+ * CCTP fee for burning `amount` at `feeBps` basis points, rounded up
+ */
+export function cctpFeeForAmount(amount: bigint, feeBps: number): bigint {
+  const hundredthsOfBps = BigInt(Math.round(feeBps * 100));
+  return (amount * hundredthsOfBps + 999_999n) / 1_000_000n;
+}
+
+/**
+ * Default share of a burn PrivateLZBridge allows as CCTP fee (cctpMaxFeeBps: 0.1%)
+ */
+export const CCTP_DEFAULT_MAX_FEE_BPS = 10n;
+
+/**
+ * Largest CCTP fee PrivateLZBridge lets a transfer whose recipient note holds
+ * `amount` pay (same as cctpFeeFor on a bridge with a CCTP domain for the route)
+ */
+export function cctpTransferFee(amount: bigint, maxFeeBps: bigint = CCTP_DEFAULT_MAX_FEE_BPS): bigint {
+  const denominator = 10_000n - maxFeeBps;
+  return (amount * maxFeeBps + denominator - 1n) / denominator;
+}
+
+/**
+ * Largest recipient amount whose amount + fee fits in `grossAmount`
+ */
+export function cctpNetAmount(grossAmount: bigint, maxFeeBps: bigint = CCTP_DEFAULT_MAX_FEE_BPS): bigint {
+  const net = grossAmount - (grossAmount * maxFeeBps + 9_999n) / 10_000n;
+  return net + 1n + cctpTransferFee(net + 1n, maxFeeBps) <= grossAmount ? net + 1n : net;
+}
+
+// ============ Transfer modes ============
+
+/**
+ * Transfer modes, fastest first
+ */
+export const CCTP_TRANSFER_MODES: CctpTransferMode[] = ["fast", "standard"];
+
+/**
+ * Finality each transfer mode burns with
+ */
+export const CCTP_MODE_FINALITY: Record<CctpTransferMode, number> = {
+  fast: CCTP_FINALITY_FAST,
+  standard: CCTP_FINALITY_STANDARD,
+};
+
+/**
+ * Typical time from burn to attestation per mode (standard waits for
+ * Ethereum finality, which the supported L2s inherit)
+ */
+export const CCTP_EXPECTED_LATENCY_SECONDS: Record<CctpTransferMode, number> = {
+  fast: 20,
+  standard: 19 * 60,
+};
+
+/**
+ * "~20 s" / "~19 min"
+ */
+export function formatCctpLatency(seconds: number): string {
+  return seconds < 60 ? `~${seconds} s` : `~${Math.round(seconds / 60)} min`;
+}
+
+/**
+ * Mode of a burn from its minFinalityThreshold
+ */
+export function cctpTransferMode(minFinalityThreshold: number): CctpTransferMode {
+  return minFinalityThreshold <= CCTP_FINALITY_FAST ? "fast" : "standard";
+}
+
+// ============ Attestation API ============
+
+/**
+ * Client for Circle's CCTP V2 attestation API
+ *
+ * Point apiUrl at a local server to test without Circle.
+ *
+ * @example
+ * ```typescript
+ * const client = new AttestationClient({ apiUrl: IRIS_SANDBOX_API });
+ * const attested = await client.waitForAttestation(6, txHash, { timeoutMs: 15 * 60_000 });
+ * await relayCctpMessage(destSigner, attested);
+ * ```
+ */
+export class AttestationClient {
+  readonly apiUrl: string;
+  private timeoutMs: number;
+  private initialDelayMs: number;
+  private maxDelayMs: number;
+
+  constructor(options: AttestationClientOptions = {}) {
+    this.apiUrl = (options.apiUrl ?? IRIS_SANDBOX_API).replace(/\/+$/, "");
+    this.timeoutMs = options.timeoutMs ?? 10_000;
+    this.initialDelayMs = options.initialDelayMs ?? 2_000;
+    this.maxDelayMs = options.maxDelayMs ?? 60_000;
+  }
+
+  /**
+   * Messages emitted by a source transaction
+   *
+   * @param sourceDomain CCTP domain of the source chain
+   * @param txHash Source transaction hash
+   * @returns Messages, or [] if the API has not indexed the transaction yet
+   */
+  async getMessages(sourceDomain: number, txHash: string): Promise<CctpMessage[]> {
+    const body = await this.get(
+      `/v2/messages/${sourceDomain}?transactionHash=${txHash}`,
+      "Check the source domain and transaction hash"
+    );
+    return (body as { messages?: CctpMessage[] } | undefined)?.messages ?? [];
+  }
+
+  /**
+   * Circle's current burn fees between two domains, per finality threshold
+   *
+   * @returns Fees, or [] if the route is unknown to the API
+   */
+  async getBurnFees(sourceDomain: number, destinationDomain: number): Promise<CctpBurnFee[]> {
+    const body = await this.get(`/v2/burn/USDC/fees/${sourceDomain}/${destinationDomain}`, "Check the domains");
+    if (!Array.isArray(body)) return [];
+    return body.map((fee: { finalityThreshold: number | string; minimumFee: number | string }) => ({
+      finalityThreshold: Number(fee.finalityThreshold),
+      minimumFee: Number(fee.minimumFee),
+    }));
+  }
+
+  // GET a JSON body; undefined on 404
+  private async get(path: string, badRequestHint: string): Promise<unknown> {
+    const request = new FetchRequest(`${this.apiUrl}${path}`);
+    request.timeout = this.timeoutMs;
+    request.setThrottleParams({ maxAttempts: 1 });
+
+    let response;
+    try {
+      response = await request.send();
+    } catch (err) {
+      throw new MixvmError(
+        "ATTESTATION_UNAVAILABLE",
+        `Attestation API request failed: ${err instanceof Error ? err.message : String(err)}`,
+        { hint: "Retry later, or check the attestation API URL", retryable: true, cause: err }
+      );
+    }
+
+    if (response.statusCode === 404) return undefined;
+    if (!response.ok()) {
+      const retryable = response.statusCode === 429 || response.statusCode >= 500;
+      throw new MixvmError(
+        "ATTESTATION_UNAVAILABLE",
+        `Attestation API returned ${response.statusCode}: ${response.statusMessage}`,
+        { hint: retryable ? "Retry later" : badRequestHint, retryable }
+      );
+    }
+    return response.bodyJson;
+  }
+
+  /**
+   * Poll until the first message of a transaction is attested
+   *
+   * Pending polls and retryable API errors back off exponentially from
+   * initialDelayMs to maxDelayMs.
+   *
+   * @param sourceDomain CCTP domain of the source chain
+   * @param txHash Source transaction hash
+   * @param options timeoutMs (default 30 min) and a status callback
+   */
+  async waitForAttestation(
+    sourceDomain: number,
+    txHash: string,
+    options: { timeoutMs?: number; onStatus?: (status: string) => void } = {}
+  ): Promise<CctpMessage> {
+    const deadline = Date.now() + (options.timeoutMs ?? 30 * 60_000);
+    let delay = this.initialDelayMs;
+    let lastStatus = "not indexed";
+
+    for (;;) {
+      try {
+        const [message] = await this.getMessages(sourceDomain, txHash);
+        lastStatus = message?.status ?? "not indexed";
+        if (message && isAttested(message)) return message;
+      } catch (err) {
+        if (!(err instanceof MixvmError) || !err.retryable) throw err;
+        lastStatus = err.message;
+      }
+      options.onStatus?.(lastStatus);
+
+      if (Date.now() + delay > deadline) {
+        throw new MixvmError(
+          "ATTESTATION_TIMEOUT",
+          `No attestation for ${txHash} on domain ${sourceDomain} (last status: ${lastStatus})`,
+          { hint: "Attestation can take longer under standard finality; wait and try again", retryable: true }
+        );
+      }
+      await sleep(delay);
+      delay = Math.min(delay * 2, this.maxDelayMs);
+    }
+  }
+}
+
+/**
+ * Fee Circle is expected to take from a burn of `grossAmount` with `maxFee`
+ *
+ * The burn settles at fast finality when Circle's fast fee fits in maxFee
+ * (the bridge's cctpFeeFor in fast mode, 0 in standard mode), at standard
+ * finality otherwise. maxFee is assumed when the fee API is unreachable.
+ *
+ * @param attestations Client for Circle's fee API
+ * @param grossAmount USDC burned
+ * @param maxFee The burn's maxFee
+ * @param mode Requested finality
+ */
+export async function quoteCctpFee(
+  attestations: AttestationClient,
+  grossAmount: bigint,
+  maxFee: bigint,
+  mode: CctpTransferMode,
+  sourceDomain: number,
+  destinationDomain: number
+): Promise<CctpFeeQuote> {
+  let fees: CctpBurnFee[] | undefined;
+  try {
+    fees = await attestations.getBurnFees(sourceDomain, destinationDomain);
+  } catch (err) {
+    if (!(err instanceof MixvmError) || !err.retryable) throw err;
+  }
+  const feeBps = fees?.find((f) => f.finalityThreshold === CCTP_FINALITY_FAST)?.minimumFee;
+  const standardBps = fees?.find((f) => f.finalityThreshold === CCTP_FINALITY_STANDARD)?.minimumFee ?? 0;
+  // The fee is charged on the whole burn, and never above maxFee
+  const fastFee = feeBps !== undefined ? cctpFeeForAmount(grossAmount, feeBps) : maxFee;
+  const fast = mode === "fast" && fastFee <= maxFee;
+  const standardFee = cctpFeeForAmount(grossAmount, standardBps);
+
+  return {
+    mode,
+    maxFee,
+    feeBps,
+    expectedFee: fast ? fastFee : standardFee < maxFee ? standardFee : maxFee,
+    fast,
+    expectedLatencySeconds: CCTP_EXPECTED_LATENCY_SECONDS[fast ? "fast" : "standard"],
+  };
+}
+
+// ============ Relaying ============
+
+/**
+ * Gas overrides for receiveMessage from a chain's relayGas settings
+ *
+ * Fees are the node's current EIP-1559 values times feeMultiplier.
+ */
+export async function cctpRelayGasOverrides(
+  provider: Provider,
+  chain?: ChainInfo
+): Promise<{ gasLimit: number; maxFeePerGas?: bigint; maxPriorityFeePerGas?: bigint }> {
+  const settings = chain?.relayGas;
+  const overrides: { gasLimit: number; maxFeePerGas?: bigint; maxPriorityFeePerGas?: bigint } = {
+    gasLimit: settings?.gasLimit ?? DEFAULT_RELAY_GAS_LIMIT,
+  };
+
+  const feeData = await provider.getFeeData();
+  if (!feeData.maxFeePerGas) return overrides;
+
+  // Percent fixed-point so fractional multipliers work on bigints
+  const percent = BigInt(Math.round((settings?.feeMultiplier ?? 1) * 100));
+  const minPriorityFee = settings?.minPriorityFeeWei ?? 0n;
+  const priorityFee = ((feeData.maxPriorityFeePerGas ?? 0n) * percent) / 100n;
+  overrides.maxPriorityFeePerGas = priorityFee > minPriorityFee ? priorityFee : minPriorityFee;
+  overrides.maxFeePerGas = (feeData.maxFeePerGas * percent) / 100n;
+  if (overrides.maxFeePerGas < overrides.maxPriorityFeePerGas) {
+    overrides.maxFeePerGas = overrides.maxPriorityFeePerGas;
+  }
+  return overrides;
+}
+
+/**
+ * Mint attested USDC on the destination chain with receiveMessage
+ *
+ * The nonce is checked first, so a message that was already relayed returns
+ * "already_relayed" without sending a transaction. The MessageTransmitter
+ * and gas settings come from the chain registry entry for the message's
+ * destination domain unless given.
+ *
+ * @param signer Signer connected to the destination chain
+ * @param attested Attested message from AttestationClient
+ * @param options MessageTransmitter, chain entry or gas limit to use instead
+ */
+export async function relayCctpMessage(
+  signer: Signer,
+  attested: Pick<CctpMessage, "message" | "attestation">,
+  options: { messageTransmitter?: string; chain?: ChainInfo; gasLimit?: number } = {}
+): Promise<CctpRelayResult> {
+  if (!attested.attestation || attested.attestation === "PENDING") {
+    throw new MixvmError("INVALID_CCTP_MESSAGE", "Message is not attested yet", {
+      hint: "Wait for the attestation first",
+      retryable: true,
+    });
+  }
+  const provider = signer.provider;
+  if (!provider) {
+    throw new Error("Signer must be connected to a provider");
+  }
+
+  const decoded = decodeCctpMessage(attested.message);
+  const chain = options.chain ?? getChainByDomain(decoded.destinationDomain);
+  const messageTransmitter = options.messageTransmitter ?? chain?.cctp.messageTransmitter ?? MESSAGE_TRANSMITTER_V2;
+
+  if (chain) {
+    if (chain.cctpDomain !== decoded.destinationDomain) {
+      throw new MixvmError(
+        "UNKNOWN_CHAIN",
+        `Message is for domain ${decoded.destinationDomain}, not ${chain.name} (domain ${chain.cctpDomain})`
+      );
+    }
+    const { chainId } = await provider.getNetwork();
+    if (Number(chainId) !== chain.chainId) {
+      throw new MixvmError(
+        "UNKNOWN_CHAIN",
+        `Message is for ${chain.name} (domain ${decoded.destinationDomain}) but the signer is on chain ${chainId}`,
+        { hint: `Connect the signer to ${chain.name}` }
+      );
+    }
+  }
+
+  const result: CctpRelayResult = {
+    status: "already_relayed",
+    nonce: decoded.nonce,
+    sourceDomain: decoded.sourceDomain,
+    destinationDomain: decoded.destinationDomain,
+  };
+  if (await isCctpNonceUsed(provider, messageTransmitter, decoded.nonce)) {
+    return result;
+  }
+
+  const overrides = await cctpRelayGasOverrides(provider, chain);
+  if (options.gasLimit) overrides.gasLimit = options.gasLimit;
+
+  const transmitter = new Contract(messageTransmitter, MESSAGE_TRANSMITTER_ABI, signer);
+  try {
+    const tx = await transmitter.receiveMessage(attested.message, attested.attestation, overrides);
+    const receipt = await tx.wait();
+    return { ...result, status: "relayed", txHash: tx.hash, gasUsed: receipt?.gasUsed };
+  } catch (err) {
+    // Someone else may have relayed it between the check and our transaction
+    if (await isCctpNonceUsed(provider, messageTransmitter, decoded.nonce).catch(() => false)) {
+      return result;
+    }
+    throw decodeError(err, "CCTP relay");
+  }
+}
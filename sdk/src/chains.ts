@@ -1,11 +1,19 @@
 /**
  * Chain configurations for MixVM SDK
+ *
+ * Bridge deployments come from deployments.ts, generated by scripts/deploy.ts.
  */
 
+import { DEPLOYMENTS } from "./deployments";
+import { RpcPool } from "./rpc";
+import { RpcPoolOptions } from "./types";
+
 export interface ChainInfo {
   chainId: number;
   name: string;
   rpcUrl: string;
+  /** Fallback RPCs, tried after rpcUrl */
+  rpcUrls?: string[];
   cctpDomain: number;
   contracts: {
     privateUSDC: string;
@@ -20,9 +28,22 @@ export interface ChainInfo {
     messageTransmitter: string;
     usdc: string;
   };
+  /** Gas settings for relaying CCTP receiveMessage on this chain */
+  relayGas?: RelayGasSettings;
   explorer?: string;
 }
 
+/**
+ * Gas overrides for CCTP receiveMessage relays
+ */
+export interface RelayGasSettings {
+  gasLimit: number;
+  /** Multiplier applied to the current maxFeePerGas / maxPriorityFeePerGas */
+  feeMultiplier?: number;
+  /** Priority fee floor when the node suggests none */
+  minPriorityFeeWei?: bigint;
+}
+
 /**
  * Arc Testnet configuration
  */
@@ -30,7 +51,7 @@ export const ARC_TESTNET: ChainInfo = {
   chainId: 5042002,
   name: "Arc Testnet",
   rpcUrl: "https://rpc.testnet.arc.network",
-  cctpDomain: 0, // TBD - Arc specific domain
+  cctpDomain: 26,
   contracts: {
     privateUSDC: "0x409bCe14ACA25c00E558CB2A95bE6ecFbFD5c710",
     transferVerifier: "0x95fe4F40000c36CBfD32619C631Fd56Fe4e1f7d2",
@@ -54,20 +75,16 @@ export const BASE_SEPOLIA: ChainInfo = {
   chainId: 84532,
   name: "Base Sepolia",
   rpcUrl: "https://sepolia.base.org",
-  cctpDomain: 6,
+  rpcUrls: ["https://base-sepolia-rpc.publicnode.com", "https://base-sepolia.drpc.org"],
+  cctpDomain: DEPLOYMENTS.baseSepolia.cctpDomain,
   contracts: {
-    privateUSDC: "", // To be deployed
-    transferVerifier: "", // To be deployed
-    withdrawVerifier: "", // To be deployed
-    poseidonHasher: "", // To be deployed
-    cctpSource: undefined,
-    cctpDestination: undefined, // To be deployed
-  },
-  cctp: {
-    tokenMessenger: "0x9f3B8679c73C2Fef8b59B4f3444d4e156fb70AA5",
-    messageTransmitter: "0x7865fAfC2db2093669d92c0F33AeEF291086BEFD",
-    usdc: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+    privateUSDC: DEPLOYMENTS.baseSepolia.contracts.privateLZBridge,
+    transferVerifier: DEPLOYMENTS.baseSepolia.contracts.transferVerifier,
+    withdrawVerifier: DEPLOYMENTS.baseSepolia.contracts.withdrawVerifier,
+    poseidonHasher: DEPLOYMENTS.baseSepolia.contracts.poseidonHasher,
   },
+  cctp: DEPLOYMENTS.baseSepolia.cctp,
+  relayGas: { gasLimit: 300000, feeMultiplier: 2 },
   explorer: "https://sepolia.basescan.org",
 };
 
@@ -78,23 +95,40 @@ export const ETHEREUM_SEPOLIA: ChainInfo = {
   chainId: 11155111,
   name: "Ethereum Sepolia",
   rpcUrl: "https://rpc.sepolia.org",
-  cctpDomain: 0,
+  rpcUrls: ["https://ethereum-sepolia-rpc.publicnode.com", "https://sepolia.drpc.org"],
+  cctpDomain: DEPLOYMENTS.ethereumSepolia.cctpDomain,
   contracts: {
-    privateUSDC: "", // To be deployed
-    transferVerifier: "", // To be deployed
-    withdrawVerifier: "", // To be deployed
-    poseidonHasher: "", // To be deployed
-    cctpSource: undefined,
-    cctpDestination: undefined,
-  },
-  cctp: {
-    tokenMessenger: "0x9f3B8679c73C2Fef8b59B4f3444d4e156fb70AA5",
-    messageTransmitter: "0x7865fAfC2db2093669d92c0F33AeEF291086BEFD",
-    usdc: "0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238",
+    privateUSDC: DEPLOYMENTS.ethereumSepolia.contracts.privateLZBridge,
+    transferVerifier: DEPLOYMENTS.ethereumSepolia.contracts.transferVerifier,
+    withdrawVerifier: DEPLOYMENTS.ethereumSepolia.contracts.withdrawVerifier,
+    poseidonHasher: DEPLOYMENTS.ethereumSepolia.contracts.poseidonHasher,
   },
+  cctp: DEPLOYMENTS.ethereumSepolia.cctp,
+  relayGas: { gasLimit: 300000, feeMultiplier: 2 },
   explorer: "https://sepolia.etherscan.io",
 };
 
+/**
+ * Arbitrum Sepolia configuration
+ */
+export const ARBITRUM_SEPOLIA: ChainInfo = {
+  chainId: 421614,
+  name: "Arbitrum Sepolia",
+  rpcUrl: "https://sepolia-rollup.arbitrum.io/rpc",
+  rpcUrls: ["https://arbitrum-sepolia-rpc.publicnode.com", "https://arbitrum-sepolia.drpc.org"],
+  cctpDomain: DEPLOYMENTS.arbitrumSepolia.cctpDomain,
+  contracts: {
+    privateUSDC: DEPLOYMENTS.arbitrumSepolia.contracts.privateLZBridge,
+    transferVerifier: DEPLOYMENTS.arbitrumSepolia.contracts.transferVerifier,
+    withdrawVerifier: DEPLOYMENTS.arbitrumSepolia.contracts.withdrawVerifier,
+    poseidonHasher: DEPLOYMENTS.arbitrumSepolia.contracts.poseidonHasher,
+  },
+  cctp: DEPLOYMENTS.arbitrumSepolia.cctp,
+  // Arbitrum Sepolia's base fee can drop below what the node estimates
+  relayGas: { gasLimit: 300000, feeMultiplier: 2, minPriorityFeeWei: 1000000n },
+  explorer: "https://sepolia.arbiscan.io",
+};
+
 /**
  * All supported chains
  */
@@ -102,6 +136,7 @@ export const CHAINS: Record<string, ChainInfo> = {
   arcTestnet: ARC_TESTNET,
   baseSepolia: BASE_SEPOLIA,
   ethereumSepolia: ETHEREUM_SEPOLIA,
+  arbitrumSepolia: ARBITRUM_SEPOLIA,
 };
 
 /**
@@ -114,7 +149,7 @@ export const CCTP_DOMAINS = {
   arbitrum: 3,
   base: 6,
   polygon: 7,
-  arc: 99, // Placeholder - TBD
+  arc: 26,
 } as const;
 
 /**
@@ -137,3 +172,27 @@ export function getChainByDomain(domain: number): ChainInfo | undefined {
 export function isSupportedChain(chainId: number): boolean {
   return getChainById(chainId) !== undefined;
 }
+
+/**
+ * All RPC endpoints for a chain, primary first
+ */
+export function getRpcUrls(chain: ChainInfo): string[] {
+  return [chain.rpcUrl, ...(chain.rpcUrls ?? [])];
+}
+
+/**
+ * Create a failover provider for a chain
+ *
+ * @param chainId Chain ID
+ * @param overrides Endpoints to use instead of the built-in list
+ * @param options Pool settings
+ */
+export function createRpcPool(
+  chainId: number,
+  overrides?: string[],
+  options?: RpcPoolOptions
+): RpcPool {
+  const chain = getChainById(chainId);
+  const urls = overrides && overrides.length > 0 ? overrides : chain ? getRpcUrls(chain) : [];
+  return new RpcPool(chainId, urls, options);
+}
@@ -15,7 +15,28 @@ declare module "snarkjs" {
     protocol: string;
   }
 
+  /** In-memory file accepted wherever snarkjs takes a file name */
+  export interface MemFile {
+    type: "mem";
+    data?: Uint8Array;
+  }
+
+  export namespace wtns {
+    function calculate(
+      input: Record<string, string | string[]>,
+      wasmFile: string | MemFile,
+      wtnsFile: string | MemFile
+    ): Promise<void>;
+  }
+
   export namespace groth16 {
+    function prove(
+      zkeyFile: string | MemFile,
+      witnessFile: string | MemFile,
+      logger?: any,
+      options?: { singleThread?: boolean }
+    ): Promise<{ proof: Groth16Proof; publicSignals: string[] }>;
+
     function fullProve(
       input: Record<string, string | string[]>,
       wasmFile: string,
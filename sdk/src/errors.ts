@@ -0,0 +1,614 @@
+import { ethers } from "ethers";
+
+/**
+ * Machine-readable error codes
+ */
+export type MixvmErrorCode =
+  // PrivateLZBridge reverts
+  | "INVALID_PROOF"
+  | "UNKNOWN_MERKLE_ROOT"
+  | "NULLIFIER_USED"
+  | "INSUFFICIENT_LIQUIDITY"
+  | "TREE_FULL"
+  | "PEER_NOT_SET"
+  | "INVALID_PEER"
+  | "COMMITMENT_EXISTS"
+  | "INVALID_AMOUNT"
+  | "INVALID_COMMITMENT"
+  | "INVALID_RECIPIENT"
+  | "INVALID_RELAYER_FEE"
+  | "TOKEN_TRANSFER_FAILED"
+  | "NOT_OWNER"
+  | "INVALID_CCTP_PARAMS"
+  | "BRIDGE_PAUSED"
+  | "ROUTE_PAUSED"
+  // Token / LayerZero reverts
+  | "INSUFFICIENT_BALANCE"
+  | "INSUFFICIENT_ALLOWANCE"
+  | "INSUFFICIENT_FEE"
+  | "REVERTED"
+  // Client-side checks
+  | "INSUFFICIENT_NOTE_BALANCE"
+  | "NOTE_NOT_IN_TREE"
+  | "CCTP_DOMAIN_NOT_SET"
+  | "INVALID_LZ_OPTIONS"
+  | "LEGACY_BRIDGE"
+  // LayerZero message recovery
+  | "INVALID_LZ_MESSAGE"
+  | "LZ_INVALID_NONCE"
+  | "LZ_PAYLOAD_NOT_FOUND"
+  // Refunds of undeliverable transfers
+  | "NOT_REFUNDABLE"
+  | "REFUND_NOT_AVAILABLE"
+  // Transfer tracking / CCTP
+  | "TX_NOT_FOUND"
+  | "UNKNOWN_CHAIN"
+  | "ATTESTATION_UNAVAILABLE"
+  | "ATTESTATION_TIMEOUT"
+  | "INVALID_CCTP_MESSAGE"
+  | "CCTP_NONCE_USED"
+  | "TRANSFER_FAILED"
+  | "TRANSFER_TIMEOUT"
+  // Relayer service
+  | "RELAYER_UNAVAILABLE"
+  | "RELAYER_REJECTED"
+  // Wallet / RPC
+  | "USER_REJECTED"
+  | "INSUFFICIENT_FUNDS"
+  | "RPC_UNAVAILABLE"
+  | "LOG_FETCH_FAILED"
+  | "LEAF_GAP"
+  | "ROOT_MISMATCH"
+  // Proving
+  | "WITNESS_FAILED"
+  | "CIRCUIT_NOT_FOUND"
+  | "PROOF_FAILED"
+  | "PROOF_INVALID_LOCALLY"
+  | "PROOF_TIMEOUT"
+  | "WORKER_FAILED"
+  | "UNKNOWN";
+
+/**
+ * Base class for all SDK errors
+ *
+ * `code` is stable for programmatic handling; `hint` says what the user or
+ * caller can do about it; `retryable` is true when repeating the same
+ * operation (after following the hint) can succeed.
+ */
+export class MixvmError extends Error {
+  readonly code: MixvmErrorCode;
+  readonly hint?: string;
+  readonly retryable: boolean;
+  readonly cause?: unknown;
+
+  constructor(
+    code: MixvmErrorCode,
+    message: string,
+    options: { hint?: string; retryable?: boolean; cause?: unknown } = {}
+  ) {
+    super(message);
+    this.name = "MixvmError";
+    this.code = code;
+    this.hint = options.hint;
+    this.retryable = options.retryable ?? false;
+    this.cause = options.cause;
+  }
+}
+
+/**
+ * A contract call or transaction reverted
+ */
+export class ContractRevertError extends MixvmError {
+  /** Revert reason string or custom error name */
+  readonly reason?: string;
+  readonly txHash?: string;
+
+  constructor(
+    code: MixvmErrorCode,
+    message: string,
+    options: { reason?: string; txHash?: string; hint?: string; retryable?: boolean; cause?: unknown } = {}
+  ) {
+    super(code, message, options);
+    this.name = "ContractRevertError";
+    this.reason = options.reason;
+    this.txHash = options.txHash;
+  }
+}
+
+/**
+ * Witness calculation or proof generation failed
+ */
+export class ProofError extends MixvmError {
+  constructor(
+    code: MixvmErrorCode,
+    message: string,
+    options: { hint?: string; retryable?: boolean; cause?: unknown } = {}
+  ) {
+    super(code, message, options);
+    this.name = "ProofError";
+  }
+}
+
+/**
+ * A proving worker crashed, exited or timed out
+ */
+export class WorkerError extends MixvmError {
+  constructor(message: string, options: { hint?: string; retryable?: boolean; cause?: unknown } = {}) {
+    super("WORKER_FAILED", message, {
+      hint: "Retry; if it keeps failing, prove in-process instead of in a worker",
+      retryable: true,
+      ...options,
+    });
+    this.name = "WorkerError";
+  }
+}
+
+/**
+ * A relayer request failed
+ *
+ * `outcomeUnknown` is true when the relayer may have acted on the request
+ * anyway: no response came back (network failure, timeout) or it answered
+ * with a server error or an unreadable body. A submitted transaction may be
+ * on chain regardless.
+ */
+export class RelayerError extends MixvmError {
+  readonly outcomeUnknown: boolean;
+
+  constructor(
+    code: MixvmErrorCode,
+    message: string,
+    options: { outcomeUnknown?: boolean; hint?: string; retryable?: boolean; cause?: unknown } = {}
+  ) {
+    super(code, message, options);
+    this.name = "RelayerError";
+    this.outcomeUnknown = options.outcomeUnknown ?? false;
+  }
+}
+
+// ============ Revert decoding ============
+
+interface RevertInfo {
+  code: MixvmErrorCode;
+  message: string;
+  hint: string;
+  retryable: boolean;
+}
+
+const RESYNC_HINT = "Resync the merkle tree and regenerate the proof";
+
+/**
+ * PrivateLZBridge (and MessageTransmitterV2) require() messages
+ */
+export const BRIDGE_REVERTS: Record<string, RevertInfo> = {
+  "Invalid withdraw proof": {
+    code: "INVALID_PROOF",
+    message: "The withdraw proof was rejected by the verifier",
+    hint: RESYNC_HINT,
+    retryable: true,
+  },
+  "Invalid transfer proof": {
+    code: "INVALID_PROOF",
+    message: "The transfer proof was rejected by the verifier",
+    hint: RESYNC_HINT,
+    retryable: true,
+  },
+  "Unknown merkle root": {
+    code: "UNKNOWN_MERKLE_ROOT",
+    message: "The proof's merkle root is not in the bridge's recent root history",
+    hint: RESYNC_HINT,
+    retryable: true,
+  },
+  "Nullifier already used": {
+    code: "NULLIFIER_USED",
+    message: "This note has already been spent",
+    hint: "Refresh your notes; if an earlier transaction with this note is pending, wait for it",
+    retryable: false,
+  },
+  "Insufficient liquidity": {
+    code: "INSUFFICIENT_LIQUIDITY",
+    message: "The bridge does not hold enough USDC for this withdrawal yet",
+    hint: "Wait for the pending CCTP mint to reach this chain, or withdraw a smaller amount",
+    retryable: true,
+  },
+  "Tree is full": {
+    code: "TREE_FULL",
+    message: "The bridge's merkle tree is full",
+    hint: "No new notes can be created on this bridge; use another chain",
+    retryable: false,
+  },
+  "Peer not set": {
+    code: "PEER_NOT_SET",
+    message: "The destination chain is not connected to this bridge",
+    hint: "Choose another destination chain",
+    retryable: false,
+  },
+  "Invalid peer": {
+    code: "INVALID_PEER",
+    message: "The message came from an unknown bridge",
+    hint: "Check the peer configuration on both chains",
+    retryable: false,
+  },
+  "Commitment exists": {
+    code: "COMMITMENT_EXISTS",
+    message: "This commitment is already in the tree",
+    hint: "Create the note again with fresh randomness",
+    retryable: true,
+  },
+  "Amount must be > 0": {
+    code: "INVALID_AMOUNT",
+    message: "Amount must be greater than zero",
+    hint: "Enter a positive amount",
+    retryable: false,
+  },
+  "Invalid commitment": {
+    code: "INVALID_COMMITMENT",
+    message: "The commitment is zero",
+    hint: "Create the note again",
+    retryable: true,
+  },
+  "Invalid recipient commitment": {
+    code: "INVALID_COMMITMENT",
+    message: "The recipient commitment is zero",
+    hint: "Create the recipient note again",
+    retryable: true,
+  },
+  "Invalid refund commitment": {
+    code: "INVALID_COMMITMENT",
+    message: "The refund commitment is zero",
+    hint: "Create the refund note again",
+    retryable: true,
+  },
+  "Transfer deliverable": {
+    code: "NOT_REFUNDABLE",
+    message: "The transfer can still be delivered, so it cannot be refunded",
+    hint: "Retry its delivery instead",
+    retryable: false,
+  },
+  "Not a transfer message": {
+    code: "INVALID_LZ_MESSAGE",
+    message: "The message is not a transfer",
+    hint: "Only transfer messages can be refunded",
+    retryable: false,
+  },
+  "Unknown transfer": {
+    code: "NOT_REFUNDABLE",
+    message: "The source bridge has no refund pending for this transfer",
+    hint: "It was already refunded, or was not sent by this bridge",
+    retryable: false,
+  },
+  "Invalid recipient": {
+    code: "INVALID_RECIPIENT",
+    message: "The recipient address is invalid",
+    hint: "Enter a non-zero recipient address",
+    retryable: false,
+  },
+  "Invalid relayer": {
+    code: "INVALID_RECIPIENT",
+    message: "The relayer address is invalid",
+    hint: "Quote the relayer again and use the address it returns",
+    retryable: false,
+  },
+  "Fee exceeds amount": {
+    code: "INVALID_RELAYER_FEE",
+    message: "The relayer fee is not smaller than the withdraw amount",
+    hint: "Withdraw a larger amount or use a cheaper relayer",
+    retryable: false,
+  },
+  "Transfer failed": {
+    code: "TOKEN_TRANSFER_FAILED",
+    message: "The USDC transfer failed",
+    hint: "Check your USDC balance and allowance",
+    retryable: true,
+  },
+  "Not owner": {
+    code: "NOT_OWNER",
+    message: "Only the bridge owner can do this",
+    hint: "Send from the owner account",
+    retryable: false,
+  },
+  "Not owner or guardian": {
+    code: "NOT_OWNER",
+    message: "Only the bridge owner or guardian can do this",
+    hint: "Send from the owner or guardian account",
+    retryable: false,
+  },
+  "Deposits paused": {
+    code: "BRIDGE_PAUSED",
+    message: "Deposits are paused on this bridge",
+    hint: "The bridge operator paused deposits; try again once they are resumed",
+    retryable: true,
+  },
+  "Transfers paused": {
+    code: "BRIDGE_PAUSED",
+    message: "Cross-chain transfers are paused on this bridge",
+    hint: "The bridge operator paused transfers; try again once they are resumed",
+    retryable: true,
+  },
+  "Withdrawals paused": {
+    code: "BRIDGE_PAUSED",
+    message: "Withdrawals are paused on this bridge",
+    hint: "The bridge operator paused withdrawals; your notes stay spendable once they are resumed",
+    retryable: true,
+  },
+  "Route paused": {
+    code: "ROUTE_PAUSED",
+    message: "Transfers to this destination chain are paused",
+    hint: "Choose another destination chain, or try again once the route is resumed",
+    retryable: true,
+  },
+  "CCTP fee too high": {
+    code: "INVALID_CCTP_PARAMS",
+    message: "The CCTP max fee is above the bridge's limit",
+    hint: "Quote the transfer again and use the fee it returns",
+    retryable: true,
+  },
+  "CCTP finality out of bounds": {
+    code: "INVALID_CCTP_PARAMS",
+    message: "The bridge does not allow this CCTP finality",
+    hint: "Choose the other transfer mode",
+    retryable: false,
+  },
+  // MessageTransmitterV2
+  "Nonce already used": {
+    code: "CCTP_NONCE_USED",
+    message: "This CCTP message has already been relayed",
+    hint: "The USDC is already minted on the destination; nothing to do",
+    retryable: false,
+  },
+};
+
+// Custom errors from USDC (OpenZeppelin 5 ERC20) and the LayerZero endpoint
+const CUSTOM_ERRORS = new ethers.Interface([
+  "error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)",
+  "error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)",
+  "error LZ_InsufficientFee(uint256 requiredNative, uint256 suppliedNative, uint256 requiredLzToken, uint256 suppliedLzToken)",
+  "error LZ_InvalidNonce(uint64 nonce)",
+  "error LZ_PayloadHashNotFound(bytes32 expected, bytes32 actual)",
+  "error LZ_Unauthorized()",
+]);
+
+const CUSTOM_REVERTS: Record<string, RevertInfo> = {
+  ERC20InsufficientBalance: {
+    code: "INSUFFICIENT_BALANCE",
+    message: "Not enough USDC",
+    hint: "Top up your USDC balance or use a smaller amount",
+    retryable: true,
+  },
+  ERC20InsufficientAllowance: {
+    code: "INSUFFICIENT_ALLOWANCE",
+    message: "USDC allowance is too low",
+    hint: "Approve the bridge to spend your USDC, then retry",
+    retryable: true,
+  },
+  LZ_InsufficientFee: {
+    code: "INSUFFICIENT_FEE",
+    message: "The LayerZero fee sent is too low",
+    hint: "Quote the fee again and send the quoted value",
+    retryable: true,
+  },
+  LZ_InvalidNonce: {
+    code: "LZ_INVALID_NONCE",
+    message: "The endpoint rejected the inbound nonce",
+    hint: "Earlier nonces from this sender must be verified first; only the next unverified nonce can be skipped",
+    retryable: false,
+  },
+  LZ_PayloadHashNotFound: {
+    code: "LZ_PAYLOAD_NOT_FOUND",
+    message: "The message is not verified on the destination endpoint",
+    hint: "It may already be delivered or cleared, or not yet verified by the DVNs",
+    retryable: false,
+  },
+  LZ_Unauthorized: {
+    code: "NOT_OWNER",
+    message: "Only the OApp or its delegate can do this",
+    hint: "Go through the bridge owner functions",
+    retryable: false,
+  },
+};
+
+// Legacy revert strings that carry the same meaning
+const LEGACY_REVERTS: [RegExp, string][] = [
+  [/transfer amount exceeds balance/i, "ERC20InsufficientBalance"],
+  [/insufficient allowance/i, "ERC20InsufficientAllowance"],
+];
+
+// ============ Proof / worker decoding ============
+
+const PROOF_PATTERNS: [RegExp, MixvmErrorCode, string, string][] = [
+  [
+    /assert failed|error in template|constraint doesn't match|not enough values for input signal|too many values for input signal|signal not found/i,
+    "WITNESS_FAILED",
+    "The circuit rejected the inputs",
+    "Check that the note, amount and merkle proof are current; resync the tree and retry",
+  ],
+  [
+    /ENOENT|no such file|404|failed to fetch|invalid (wasm|zkey)|unexpected end of file/i,
+    "CIRCUIT_NOT_FOUND",
+    "Circuit files could not be loaded",
+    "Check the circuit wasm and zkey paths",
+  ],
+  [
+    /timed? ?out/i,
+    "PROOF_TIMEOUT",
+    "Proof generation timed out",
+    "Retry; close other heavy tabs or processes first",
+  ],
+  [
+    /verification failed locally/i,
+    "PROOF_INVALID_LOCALLY",
+    "The generated proof does not verify",
+    "Check that the zkey matches the deployed verifier",
+  ],
+];
+
+const WORKER_PATTERN = /worker|ERR_WORKER_|exited with code/i;
+
+/**
+ * Collect every message-like field of an ethers / RPC error
+ */
+function errorText(err: unknown): string {
+  const e = err as {
+    message?: string;
+    shortMessage?: string;
+    reason?: string;
+    error?: { message?: string; data?: { message?: string } };
+    info?: { error?: { message?: string } };
+  };
+  return [e?.reason, e?.shortMessage, e?.message, e?.error?.message, e?.error?.data?.message, e?.info?.error?.message]
+    .filter((x): x is string => typeof x === "string")
+    .join(" | ");
+}
+
+/**
+ * Find revert data (0x...) nested anywhere in an ethers / RPC error
+ */
+function revertData(err: unknown): string | undefined {
+  const e = err as { data?: unknown; error?: { data?: unknown }; info?: { error?: { data?: unknown } } };
+  for (const candidate of [e?.data, e?.error?.data, e?.info?.error?.data]) {
+    if (typeof candidate === "string" && candidate.startsWith("0x") && candidate.length >= 10) {
+      return candidate;
+    }
+    const nested = (candidate as { data?: unknown })?.data;
+    if (typeof nested === "string" && nested.startsWith("0x") && nested.length >= 10) {
+      return nested;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Map a revert reason (require message or custom error name) to its info
+ */
+function lookupRevert(reason: string): RevertInfo | undefined {
+  if (BRIDGE_REVERTS[reason]) return BRIDGE_REVERTS[reason];
+  if (CUSTOM_REVERTS[reason]) return CUSTOM_REVERTS[reason];
+  for (const [pattern, name] of LEGACY_REVERTS) {
+    if (pattern.test(reason)) return CUSTOM_REVERTS[name];
+  }
+  return undefined;
+}
+
+/**
+ * Pull the revert reason out of an error, if it is a revert
+ */
+export function getRevertReason(err: unknown): string | undefined {
+  const e = err as { reason?: string | null; revert?: { name?: string; args?: unknown[] } };
+
+  if (e?.revert?.name === "Error" && typeof e.revert.args?.[0] === "string") {
+    return e.revert.args[0] as string;
+  }
+  if (e?.revert?.name) return e.revert.name;
+  if (typeof e?.reason === "string" && e.reason.length > 0) return e.reason;
+
+  const data = revertData(err);
+  if (data) {
+    try {
+      // Error(string)
+      if (data.startsWith("0x08c379a0")) {
+        return ethers.AbiCoder.defaultAbiCoder().decode(["string"], ethers.dataSlice(data, 4))[0] as string;
+      }
+      const parsed = CUSTOM_ERRORS.parseError(data);
+      if (parsed) return parsed.name;
+    } catch {
+      // Not decodable; fall back to message matching
+    }
+  }
+
+  // Some RPCs only put the reason in the message text
+  const text = errorText(err);
+  const known = [...Object.keys(BRIDGE_REVERTS), ...Object.keys(CUSTOM_REVERTS)]
+    .sort((a, b) => b.length - a.length)
+    .find((reason) => text.includes(reason));
+  if (known) return known;
+  return LEGACY_REVERTS.find(([pattern]) => pattern.test(text))?.[1];
+}
+
+/**
+ * Convert any thrown value into a MixvmError
+ *
+ * Decodes bridge, USDC and LayerZero reverts, wallet rejections, RPC
+ * failures, and snarkjs/worker failures. MixvmErrors pass through unchanged.
+ *
+ * @param err Thrown value
+ * @param context Short description of the operation for unknown errors (e.g. "Withdraw")
+ */
+export function decodeError(err: unknown, context?: string): MixvmError {
+  if (err instanceof MixvmError) return err;
+
+  const text = errorText(err);
+  const prefix = context ? `${context} failed: ` : "";
+
+  // EIP-1193 wallets (e.g. in a browser) reject with code 4001 without ethers wrapping it
+  if (ethers.isError(err, "ACTION_REJECTED") || (err as { code?: unknown })?.code === 4001) {
+    return new MixvmError("USER_REJECTED", `${prefix}Request rejected in wallet`, {
+      hint: "Approve the request in your wallet to continue",
+      retryable: true,
+      cause: err,
+    });
+  }
+  if (ethers.isError(err, "INSUFFICIENT_FUNDS")) {
+    return new MixvmError("INSUFFICIENT_FUNDS", `${prefix}Not enough native token for gas`, {
+      hint: "Top up the account's gas balance",
+      retryable: true,
+      cause: err,
+    });
+  }
+
+  // Before revert decoding: ethers transport errors carry a `reason` too
+  if (
+    ethers.isError(err, "NETWORK_ERROR") ||
+    ethers.isError(err, "TIMEOUT") ||
+    ethers.isError(err, "SERVER_ERROR")
+  ) {
+    return new MixvmError("RPC_UNAVAILABLE", `${prefix}RPC request failed: ${text}`, {
+      hint: "Retry, or add another RPC endpoint for this chain",
+      retryable: true,
+      cause: err,
+    });
+  }
+
+  const reason = getRevertReason(err);
+  if (reason !== undefined || ethers.isError(err, "CALL_EXCEPTION")) {
+    const info = reason ? lookupRevert(reason) : undefined;
+    const txHash = (err as { receipt?: { hash?: string } })?.receipt?.hash;
+    if (info) {
+      return new ContractRevertError(info.code, prefix + info.message, {
+        reason,
+        txHash,
+        hint: info.hint,
+        retryable: info.retryable,
+        cause: err,
+      });
+    }
+    return new ContractRevertError("REVERTED", `${prefix}Transaction reverted${reason ? `: ${reason}` : ""}`, {
+      reason,
+      txHash,
+      hint: "Run a preflight check to see which condition fails",
+      cause: err,
+    });
+  }
+
+  for (const [pattern, code, message, hint] of PROOF_PATTERNS) {
+    if (pattern.test(text)) {
+      return new ProofError(code, `${prefix}${message}: ${text}`, {
+        hint,
+        retryable: code !== "CIRCUIT_NOT_FOUND" && code !== "PROOF_INVALID_LOCALLY",
+        cause: err,
+      });
+    }
+  }
+  if (WORKER_PATTERN.test(text)) {
+    return new WorkerError(`${prefix}${text}`, { cause: err });
+  }
+
+  return new MixvmError("UNKNOWN", prefix + (text || String(err)), { cause: err });
+}
+
+/**
+ * One-line user-facing description: message plus recovery hint
+ */
+export function describeError(err: unknown, context?: string): string {
+  const e = decodeError(err, context);
+  const message = e.message.replace(/\.+$/, "");
+  return e.hint ? `${message}. ${e.hint}.` : message;
+}
@@ -0,0 +1,189 @@
+import { Interface, Log } from "ethers";
+import { BridgeEvents, RefundReason } from "./types";
+
+// PrivateLZBridge events
+export const BRIDGE_EVENTS_ABI = [
+  "event Deposited(address indexed user, uint256 amount, bytes32 indexed commitment, uint256 leafIndex)",
+  "event CrossChainTransferInitiated(uint32 indexed dstEid, bytes32 indexed recipientCommitment, uint256 amount, uint256 grossAmount, bytes32 nullifier, bytes32 newSenderCommitment, uint256 senderLeafIndex, bytes32 guid)",
+  "event CrossChainTransferReceived(uint32 indexed srcEid, bytes32 indexed commitment, uint256 amount, uint256 grossAmount, uint256 leafIndex)",
+  "event Withdrawn(address indexed recipient, uint256 amount, bytes32 indexed nullifier, bytes32 newCommitment, uint256 newLeafIndex)",
+  "event RefundAckSent(bytes32 indexed guid, uint32 indexed srcEid, uint8 reason, uint256 amount, bool usdcReturned)",
+  "event TransferRefunded(bytes32 indexed guid, bytes32 indexed refundCommitment, uint256 amount, uint8 reason, uint256 leafIndex)",
+  "event RelayerFeePaid(address indexed relayer, bytes32 indexed nullifier, uint256 fee)",
+];
+
+// Burns of the bridge's own USDC (transfers and refunds of undeliverable ones)
+export const CCTP_BURN_EVENT_ABI =
+  "event CCTPBurnInitiated(uint32 indexed dstDomain, uint256 amount, uint256 maxFee, uint32 minFinalityThreshold, uint64 cctpNonce)";
+
+// Signatures emitted by v10.2 bridges (still deployed), from before the
+// gross amount and the burn's fee and finality were added
+export const LEGACY_BRIDGE_EVENTS_ABI = [
+  "event CrossChainTransferInitiated(uint32 indexed dstEid, bytes32 indexed recipientCommitment, uint256 amount, bytes32 nullifier, bytes32 newSenderCommitment, uint256 senderLeafIndex, bytes32 guid)",
+  "event CrossChainTransferReceived(uint32 indexed srcEid, bytes32 indexed commitment, uint256 amount, uint256 leafIndex)",
+  "event CCTPBurnInitiated(uint32 indexed dstDomain, uint256 amount, uint64 cctpNonce)",
+];
+
+// v10.2 burned every transfer with fast finality and maxFee = amount / 1000
+const LEGACY_FINALITY = 1000;
+const LEGACY_MAX_FEE_DIVISOR = 1000n;
+
+// PrivateLZBridge REFUND_* reason codes (index = code)
+const REFUND_REASONS: (RefundReason | undefined)[] = [undefined, "invalid_peer", "commitment_exists", "tree_full"];
+
+/**
+ * Name of a PrivateLZBridge refund reason code ("unknown" for codes this SDK predates)
+ */
+export function refundReason(code: number | bigint): RefundReason {
+  return REFUND_REASONS[Number(code)] ?? "unknown";
+}
+
+const eventsInterface = new Interface([...BRIDGE_EVENTS_ABI, CCTP_BURN_EVENT_ABI]);
+const legacyInterface = new Interface(LEGACY_BRIDGE_EVENTS_ABI);
+
+/**
+ * A bridge log decoded under its current or v10.2 signature
+ *
+ * args has the current event's fields either way: v10.2 logs get
+ * grossAmount = amount (no fee was taken from transfers) and, for burns, the
+ * fast finality and maxFee they were sent with.
+ */
+export interface ParsedBridgeLog {
+  name: string;
+  args: Record<string, any>;
+  /** Emitted by a v10.2 bridge */
+  legacy: boolean;
+}
+
+/**
+ * Decode one PrivateLZBridge log, whichever bridge version emitted it
+ *
+ * @returns null for logs that are not bridge events
+ */
+export function parseBridgeLog(log: { topics: readonly string[]; data: string }): ParsedBridgeLog | null {
+  const raw = { topics: log.topics as string[], data: log.data };
+  for (const [iface, legacy] of [[eventsInterface, false], [legacyInterface, true]] as const) {
+    let parsed;
+    try {
+      parsed = iface.parseLog(raw);
+    } catch {
+      // Same topic but undecodable data: not ours
+      continue;
+    }
+    if (!parsed) continue;
+
+    const args = parsed.args.toObject();
+    if (legacy) {
+      args.grossAmount = args.amount;
+      if (parsed.name === "CCTPBurnInitiated") {
+        args.maxFee = (args.amount as bigint) / LEGACY_MAX_FEE_DIVISOR;
+        args.minFinalityThreshold = BigInt(LEGACY_FINALITY);
+      }
+    }
+    return { name: parsed.name, args, legacy };
+  }
+  return null;
+}
+
+/**
+ * topic0 of a bridge event under every signature it has had, for log filters
+ * that must also match v10.2 bridges
+ */
+export function bridgeEventTopics(name: string): string[] {
+  const topics = [eventsInterface.getEvent(name)!.topicHash];
+  const legacy = legacyInterface.getEvent(name);
+  if (legacy) topics.push(legacy.topicHash);
+  return topics;
+}
+
+/**
+ * Decode PrivateLZBridge events from transaction or query logs
+ *
+ * @param logs Logs to decode (foreign logs are ignored)
+ * @param bridgeAddress Only decode logs emitted by this address
+ * @returns Decoded events grouped by type
+ */
+export function parseBridgeEvents(
+  logs: readonly Log[],
+  bridgeAddress?: string
+): BridgeEvents {
+  const events: BridgeEvents = {
+    deposited: [],
+    transfersInitiated: [],
+    transfersReceived: [],
+    withdrawn: [],
+    refundAcksSent: [],
+    transfersRefunded: [],
+  };
+
+  for (const log of logs) {
+    if (bridgeAddress && log.address.toLowerCase() !== bridgeAddress.toLowerCase()) {
+      continue;
+    }
+
+    const parsed = parseBridgeLog(log);
+    if (!parsed) continue;
+
+    const args = parsed.args;
+    switch (parsed.name) {
+      case "Deposited":
+        events.deposited.push({
+          user: args.user,
+          amount: args.amount,
+          commitment: args.commitment,
+          leafIndex: Number(args.leafIndex),
+        });
+        break;
+      case "CrossChainTransferInitiated":
+        events.transfersInitiated.push({
+          dstEid: Number(args.dstEid),
+          recipientCommitment: args.recipientCommitment,
+          amount: args.amount,
+          grossAmount: args.grossAmount,
+          nullifier: args.nullifier,
+          newSenderCommitment: args.newSenderCommitment,
+          senderLeafIndex: Number(args.senderLeafIndex),
+          guid: args.guid,
+        });
+        break;
+      case "CrossChainTransferReceived":
+        events.transfersReceived.push({
+          srcEid: Number(args.srcEid),
+          commitment: args.commitment,
+          amount: args.amount,
+          grossAmount: args.grossAmount,
+          leafIndex: Number(args.leafIndex),
+        });
+        break;
+      case "Withdrawn":
+        events.withdrawn.push({
+          recipient: args.recipient,
+          amount: args.amount,
+          nullifier: args.nullifier,
+          newCommitment: args.newCommitment,
+          newLeafIndex: Number(args.newLeafIndex),
+        });
+        break;
+      case "RefundAckSent":
+        events.refundAcksSent.push({
+          guid: args.guid,
+          srcEid: Number(args.srcEid),
+          reason: refundReason(args.reason),
+          amount: args.amount,
+          usdcReturned: args.usdcReturned,
+        });
+        break;
+      case "TransferRefunded":
+        events.transfersRefunded.push({
+          guid: args.guid,
+          refundCommitment: args.refundCommitment,
+          amount: args.amount,
+          reason: refundReason(args.reason),
+          leafIndex: Number(args.leafIndex),
+        });
+        break;
+    }
+  }
+
+  return events;
+}
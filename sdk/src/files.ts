@@ -0,0 +1,29 @@
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * Write a file atomically
+ *
+ * Contents go to a temp file which is fsynced and renamed over the target,
+ * so a crash mid-write leaves the previous file intact.
+ *
+ * @param filePath Target file (parent directories are created)
+ * @param contents File contents
+ * @param mode Permissions for a newly created file
+ */
+export async function writeFileAtomic(
+  filePath: string,
+  contents: string,
+  mode: number = 0o600
+): Promise<void> {
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  const handle = await fs.promises.open(tmpPath, "w", mode);
+  try {
+    await handle.writeFile(contents, "utf8");
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+  await fs.promises.rename(tmpPath, filePath);
+}
@@ -8,16 +8,19 @@ import {
   CrossChainTransferResult,
   CircuitPaths,
   FIELD_SIZE,
-  MERKLE_DEPTH,
   StealthMetaAddress,
   IncomingPayment,
   StealthData,
   AuditData,
+  NoteStore,
+  NoteStatus,
 } from "./types";
 import { StealthScanner, generateStealthPayment } from "./scanner";
 import { initPoseidon, computeCommitment, computeNullifier } from "./poseidon";
 import { MerkleTree } from "./merkle";
+import { MerkleSync } from "./sync";
 import { ProofGenerator } from "./proof";
+import { MemoryNoteStore, sendWithNotes, noteStatus } from "./notes";
 import * as crypto from "crypto";
 
 // Contract ABI (minimal for SDK operations)
@@ -66,7 +69,7 @@ export class PrivateUSDCSDK {
   protected signer?: Signer;
   protected contract: Contract;
   protected iface: Interface;
-  protected merkleTree: MerkleTree;
+  protected merkleSync: MerkleSync;
   protected proofGenerator?: ProofGenerator;
   protected scanner: StealthScanner;
   protected initialized: boolean = false;
@@ -77,8 +80,10 @@ export class PrivateUSDCSDK {
   protected spendingPubKeyX?: bigint;
   protected spendingPubKeyY?: bigint;
 
-  // User's private notes
+  // User's private notes (cache of noteStore)
   protected notes: PrivateNote[] = [];
+  protected noteStore: NoteStore;
+  protected chainId?: number;
 
   constructor(config: SDKConfig) {
     this.provider = config.provider;
@@ -100,11 +105,15 @@ export class PrivateUSDCSDK {
       );
     }
 
-    this.merkleTree = new MerkleTree(MERKLE_DEPTH);
+    this.merkleSync = new MerkleSync(config.provider, config.contractAddress, {
+      deployBlock: config.deployBlock,
+      cache: config.treeCache,
+    });
     this.scanner = new StealthScanner(config.provider, config.contractAddress);
+    this.noteStore = config.noteStore ?? new MemoryNoteStore();
 
     if (config.circuitPaths) {
-      this.proofGenerator = new ProofGenerator(config.circuitPaths);
+      this.proofGenerator = new ProofGenerator(config.circuitPaths, config.prover);
     }
   }
 
@@ -124,10 +133,37 @@ export class PrivateUSDCSDK {
     if (this.initialized) return;
 
     await initPoseidon();
+    this.chainId = Number((await this.provider.getNetwork()).chainId);
+    await this.loadNotes();
     await this.syncMerkleTree();
     this.initialized = true;
   }
 
+  /**
+   * Reload the note cache from the note store
+   */
+  protected async loadNotes(): Promise<void> {
+    this.notes = await this.noteStore.list();
+  }
+
+  /**
+   * Attach this SDK's chain and contract to a note
+   */
+  protected stampNote(note: PrivateNote): PrivateNote {
+    return {
+      ...note,
+      chainId: note.chainId ?? this.chainId,
+      bridgeAddress: note.bridgeAddress ?? this.contractAddress,
+    };
+  }
+
+  /**
+   * Local merkle tree (available after initialize())
+   */
+  protected get merkleTree(): MerkleTree {
+    return this.merkleSync.getTree();
+  }
+
   /**
    * Ensure SDK is initialized
    */
@@ -140,7 +176,7 @@ export class PrivateUSDCSDK {
   /**
    * Ensure signer is available for write operations
    */
-  private ensureSigner(): Signer {
+  protected ensureSigner(): Signer {
     if (!this.signer) {
       throw new Error("Signer not provided. Cannot perform write operations.");
     }
@@ -149,38 +185,12 @@ export class PrivateUSDCSDK {
 
   /**
    * Sync merkle tree with on-chain state
+   *
+   * Scans every leaf-inserting event from the deploy block (resuming from
+   * the last synced block on subsequent calls).
    */
   async syncMerkleTree(): Promise<void> {
-    const currentBlock = await this.provider.getBlockNumber();
-    const fromBlock = Math.max(0, currentBlock - 10000);
-
-    const depositFilter = this.contract.filters.Deposited();
-    const events = await this.contract.queryFilter(
-      depositFilter,
-      fromBlock,
-      currentBlock
-    );
-
-    const leaves: { commitment: bigint; leafIndex: number }[] = [];
-
-    for (const event of events) {
-      const parsed = this.iface.parseLog({
-        topics: event.topics as string[],
-        data: event.data,
-      });
-      if (parsed) {
-        leaves.push({
-          commitment: BigInt(parsed.args.commitment),
-          leafIndex: Number(parsed.args.leafIndex),
-        });
-      }
-    }
-
-    // Sort by leaf index
-    leaves.sort((a, b) => a.leafIndex - b.leafIndex);
-
-    // Set leaves in tree
-    this.merkleTree.setLeaves(leaves.map((l) => l.commitment));
+    await this.merkleSync.sync();
   }
 
   /**
@@ -221,52 +231,57 @@ export class PrivateUSDCSDK {
       this.toBytes32(commitment),
     ]);
 
-    const tx = await signer.sendTransaction({
-      to: await this.contract.getAddress(),
-      data,
-      value: amount,
-    });
-
-    const receipt = await tx.wait();
-    if (!receipt) throw new Error("Transaction failed");
-
-    // Find deposit event
-    const depositEvent = receipt.logs.find((log) => {
-      try {
-        const parsed = this.iface.parseLog({
-          topics: log.topics as string[],
-          data: log.data,
-        });
-        return parsed?.name === "Deposited";
-      } catch {
-        return false;
-      }
-    });
-
-    let leafIndex: number;
-    if (depositEvent) {
-      const parsed = this.iface.parseLog({
-        topics: depositEvent.topics as string[],
-        data: depositEvent.data,
-      });
-      leafIndex = Number(parsed!.args.leafIndex);
-    } else {
-      leafIndex = this.merkleTree.getLeafCount();
-    }
-
-    // Add to local tree
-    this.merkleTree.addLeaf(commitment);
-
-    // Create note
-    const note: PrivateNote = {
+    // Note is stored as pending before sending so a crash cannot lose it
+    let note = this.stampNote({
       commitment,
       balance: amount,
       randomness,
       nullifierSecret,
-      leafIndex,
-    };
+      leafIndex: -1,
+    });
+
+    const { tx, receipt } = await sendWithNotes(
+      this.noteStore,
+      signer,
+      { to: await this.contract.getAddress(), data, value: amount },
+      {
+        spending: [],
+        created: [note],
+        finalize: (receipt) => {
+          // Find deposit event
+          const depositEvent = receipt.logs.find((log) => {
+            try {
+              const parsed = this.iface.parseLog({
+                topics: log.topics as string[],
+                data: log.data,
+              });
+              return parsed?.name === "Deposited";
+            } catch {
+              return false;
+            }
+          });
+
+          let leafIndex: number;
+          if (depositEvent) {
+            const parsed = this.iface.parseLog({
+              topics: depositEvent.topics as string[],
+              data: depositEvent.data,
+            });
+            leafIndex = Number(parsed!.args.leafIndex);
+          } else {
+            leafIndex = this.merkleTree.getLeafCount();
+          }
+
+          note = { ...note, leafIndex, status: "unspent" };
+          return [note];
+        },
+      }
+    );
+    const leafIndex = note.leafIndex;
 
-    this.notes.push(note);
+    // Pick up the new leaf in the local tree
+    await this.syncMerkleTree();
+    await this.loadNotes();
 
     return {
       txHash: tx.hash,
@@ -310,8 +325,8 @@ export class PrivateUSDCSDK {
     const newCommitment =
       newBalance > 0n ? computeCommitment(newBalance, newRandomness) : 0n;
 
-    // Get merkle proof
-    const proof = this.merkleTree.getProof(note.leafIndex);
+    // Get merkle proof (refuses roots the contract does not know)
+    const proof = await this.merkleSync.getVerifiedProof(note.leafIndex);
 
     // Generate ZK proof
     const { proofData } = await this.proofGenerator.generateWithdrawProof({
@@ -337,38 +352,32 @@ export class PrivateUSDCSDK {
       proofData,
     ]);
 
-    const tx = await signer.sendTransaction({
-      to: await this.contract.getAddress(),
-      data,
-      gasLimit: 3000000,
+    const changeNote = this.stampNote({
+      commitment: newCommitment,
+      balance: newBalance,
+      randomness: newRandomness,
+      nullifierSecret: this.randomFieldElement(),
+      leafIndex: -1,
     });
 
-    const receipt = await tx.wait();
-    if (!receipt || receipt.status === 0) {
-      throw new Error("Withdraw transaction failed");
-    }
+    const { tx, receipt } = await sendWithNotes(
+      this.noteStore,
+      signer,
+      { to: await this.contract.getAddress(), data, gasLimit: 3000000 },
+      {
+        spending: [this.stampNote(note)],
+        created: newBalance > 0n ? [changeNote] : [],
+        finalize: () =>
+          newBalance > 0n
+            ? [{ ...changeNote, leafIndex: this.merkleTree.getLeafCount() }]
+            : [],
+        failureMessage: "Withdraw transaction failed",
+      }
+    );
 
     // Update local state
-    const noteIndex = this.notes.findIndex(
-      (n) => n.commitment === note.commitment
-    );
-    if (noteIndex >= 0) {
-      if (newBalance > 0n) {
-        // Update note with new commitment
-        const newNote: PrivateNote = {
-          commitment: newCommitment,
-          balance: newBalance,
-          randomness: newRandomness,
-          nullifierSecret: this.randomFieldElement(),
-          leafIndex: this.merkleTree.getLeafCount(),
-        };
-        this.notes[noteIndex] = newNote;
-        this.merkleTree.addLeaf(newCommitment);
-      } else {
-        // Remove spent note
-        this.notes.splice(noteIndex, 1);
-      }
-    }
+    await this.syncMerkleTree();
+    await this.loadNotes();
 
     return {
       txHash: tx.hash,
@@ -445,8 +454,8 @@ export class PrivateUSDCSDK {
       encryptedAmount: [amount, 0n, 0n, 0n],
     };
 
-    // Get merkle proof
-    const merkleProof = this.merkleTree.getProof(note.leafIndex);
+    // Get merkle proof (refuses roots the contract does not know)
+    const merkleProof = await this.merkleSync.getVerifiedProof(note.leafIndex);
 
     // Generate ZK proof
     const { proofData } = await this.proofGenerator.generateTransferProof({
@@ -496,16 +505,28 @@ export class PrivateUSDCSDK {
       formattedProofData,
     ]);
 
-    const tx = await signer.sendTransaction({
-      to: await this.contract.getAddress(),
-      data,
-      gasLimit: 3000000,
+    const changeNote = this.stampNote({
+      commitment: newSenderCommitment,
+      balance: newSenderBalance,
+      randomness: newSenderRandomness,
+      nullifierSecret: this.randomFieldElement(),
+      leafIndex: -1,
     });
 
-    const receipt = await tx.wait();
-    if (!receipt || receipt.status === 0) {
-      throw new Error("Private transfer transaction failed");
-    }
+    const { tx, receipt } = await sendWithNotes(
+      this.noteStore,
+      signer,
+      { to: await this.contract.getAddress(), data, gasLimit: 3000000 },
+      {
+        spending: [this.stampNote(note)],
+        created: newSenderBalance > 0n ? [changeNote] : [],
+        finalize: () =>
+          newSenderBalance > 0n
+            ? [{ ...changeNote, leafIndex: this.merkleTree.getLeafCount() }]
+            : [],
+        failureMessage: "Private transfer transaction failed",
+      }
+    );
 
     // Find announcement index from event
     let announcementIndex = 0;
@@ -525,22 +546,8 @@ export class PrivateUSDCSDK {
     }
 
     // Update local state
-    const noteIndex = this.notes.findIndex(
-      (n) => n.commitment === note.commitment
-    );
-    if (noteIndex >= 0) {
-      // Update note with new commitment
-      const newNote: PrivateNote = {
-        commitment: newSenderCommitment,
-        balance: newSenderBalance,
-        randomness: newSenderRandomness,
-        nullifierSecret: this.randomFieldElement(),
-        leafIndex: this.merkleTree.getLeafCount(),
-      };
-      this.notes[noteIndex] = newNote;
-      this.merkleTree.addLeaf(newSenderCommitment);
-      this.merkleTree.addLeaf(recipientCommitment);
-    }
+    await this.syncMerkleTree();
+    await this.loadNotes();
 
     return {
       txHash: tx.hash,
@@ -577,21 +584,22 @@ export class PrivateUSDCSDK {
    * Get total private balance
    */
   getBalance(): bigint {
-    return this.notes.reduce((sum, note) => sum + note.balance, 0n);
+    return this.getNotes().reduce((sum, note) => sum + note.balance, 0n);
   }
 
   /**
-   * Get all private notes
+   * Get private notes with the given status (spendable notes by default)
    */
-  getNotes(): PrivateNote[] {
-    return [...this.notes];
+  getNotes(status: NoteStatus = "unspent"): PrivateNote[] {
+    return this.notes.filter((note) => noteStatus(note) === status);
   }
 
   /**
    * Add a note (for importing/restoring state)
    */
-  addNote(note: PrivateNote): void {
-    this.notes.push(note);
+  async addNote(note: PrivateNote): Promise<void> {
+    await this.noteStore.put([this.stampNote(note)]);
+    await this.loadNotes();
   }
 
   /**
@@ -721,9 +729,7 @@ export class CrossChainPrivateUSDCSDK extends PrivateUSDCSDK {
       throw new Error("Circuit paths not configured. Cannot generate proof.");
     }
 
-    if (!this.signer) {
-      throw new Error("Signer not provided. Cannot perform write operations.");
-    }
+    const signer = this.ensureSigner();
 
     if (amount > note.balance) {
       throw new Error("Insufficient balance in note");
@@ -766,8 +772,8 @@ export class CrossChainPrivateUSDCSDK extends PrivateUSDCSDK {
       encryptedAmount: [amount, 0n, 0n, 0n],
     };
 
-    // 6. Get merkle proof
-    const merkleProof = this.merkleTree.getProof(note.leafIndex);
+    // 6. Get merkle proof (refuses roots the contract does not know)
+    const merkleProof = await this.merkleSync.getVerifiedProof(note.leafIndex);
 
     // 7. Generate ZK proof
     const { proofData } = await this.proofGenerator.generateTransferProof({
@@ -819,16 +825,28 @@ export class CrossChainPrivateUSDCSDK extends PrivateUSDCSDK {
       formattedProofData,
     ]);
 
-    const tx = await this.signer.sendTransaction({
-      to: this.cctpSourceAddress,
-      data,
-      gasLimit: 3000000,
+    const changeNote = this.stampNote({
+      commitment: newSenderCommitment,
+      balance: newSenderBalance,
+      randomness: newSenderRandomness,
+      nullifierSecret: this.randomFieldElement(),
+      leafIndex: -1,
     });
 
-    const receipt = await tx.wait();
-    if (!receipt || receipt.status === 0) {
-      throw new Error("Cross-chain transfer transaction failed");
-    }
+    const { tx, receipt } = await sendWithNotes(
+      this.noteStore,
+      signer,
+      { to: this.cctpSourceAddress, data, gasLimit: 3000000 },
+      {
+        spending: [this.stampNote(note)],
+        created: newSenderBalance > 0n ? [changeNote] : [],
+        finalize: () =>
+          newSenderBalance > 0n
+            ? [{ ...changeNote, leafIndex: this.merkleTree.getLeafCount() }]
+            : [],
+        failureMessage: "Cross-chain transfer transaction failed",
+      }
+    );
 
     // 10. Extract CCTP nonce from event
     let cctpNonce = 0n;
@@ -848,26 +866,8 @@ export class CrossChainPrivateUSDCSDK extends PrivateUSDCSDK {
     }
 
     // 11. Update local state
-    const noteIndex = this.notes.findIndex(
-      (n) => n.commitment === note.commitment
-    );
-    if (noteIndex >= 0) {
-      if (newSenderBalance > 0n) {
-        // Update note with new commitment for remaining balance
-        const newNote: PrivateNote = {
-          commitment: newSenderCommitment,
-          balance: newSenderBalance,
-          randomness: newSenderRandomness,
-          nullifierSecret: this.randomFieldElement(),
-          leafIndex: this.merkleTree.getLeafCount(),
-        };
-        this.notes[noteIndex] = newNote;
-        this.merkleTree.addLeaf(newSenderCommitment);
-      } else {
-        // Remove spent note
-        this.notes.splice(noteIndex, 1);
-      }
-    }
+    await this.syncMerkleTree();
+    await this.loadNotes();
 
     return {
       txHash: tx.hash,
@@ -921,5 +921,23 @@ export * from "./types";
 export * from "./poseidon";
 export * from "./merkle";
 export * from "./proof";
+export * from "./prover";
+export * from "./witness";
 export * from "./scanner";
 export * from "./chains";
+export * from "./deployments";
+export * from "./bridge";
+export * from "./notes";
+export * from "./events";
+export * from "./sync";
+export * from "./logs";
+export * from "./cache";
+export * from "./rpc";
+export * from "./errors";
+export * from "./preflight";
+export * from "./pause";
+export * from "./cctp";
+export * from "./tracker";
+export * from "./relayer";
+export * from "./lzOptions";
+export * from "./lzRecovery";
@@ -0,0 +1,153 @@
+import { Provider, Log } from "ethers";
+import { MixvmError } from "./errors";
+
+// Default max block range per eth_getLogs request
+export const DEFAULT_LOG_CHUNK_SIZE = 10000;
+
+// RPC error messages that mean "ask for a smaller block range"
+const RANGE_TOO_LARGE = /range (is )?too (large|wide)|block range|too many (blocks|results|logs)|more than \d+ (results|logs)|limit exceeded|response size|query timeout|-32005/i;
+
+/**
+ * eth_getLogs kept failing for a block range
+ */
+export class LogFetchError extends MixvmError {
+  readonly fromBlock: number;
+  readonly toBlock: number;
+
+  constructor(fromBlock: number, toBlock: number, cause?: unknown) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super("LOG_FETCH_FAILED", `Failed to fetch logs for blocks ${fromBlock}-${toBlock}: ${reason}`, {
+      hint: "Retry, or add another RPC endpoint for this chain",
+      retryable: true,
+      cause,
+    });
+    this.name = "LogFetchError";
+    this.fromBlock = fromBlock;
+    this.toBlock = toBlock;
+  }
+}
+
+/**
+ * Fetched leaf indices are not contiguous, so a tree built from them would be wrong
+ */
+export class LeafGapError extends MixvmError {
+  readonly expectedIndex: number;
+  readonly foundIndex?: number;
+
+  constructor(expectedIndex: number, foundIndex?: number) {
+    super(
+      "LEAF_GAP",
+      foundIndex === undefined
+        ? `Missing merkle leaf ${expectedIndex}`
+        : `Missing merkle leaf ${expectedIndex} (next fetched leaf is ${foundIndex})`,
+      { hint: "The RPC returned incomplete logs; resync, ideally from another endpoint", retryable: true }
+    );
+    this.name = "LeafGapError";
+    this.expectedIndex = expectedIndex;
+    this.foundIndex = foundIndex;
+  }
+}
+
+/**
+ * Options for fetchLogs
+ */
+export interface FetchLogsOptions {
+  fromBlock: number;
+  /** Defaults to the latest block */
+  toBlock?: number;
+  chunkSize?: number;
+  /** Smallest range to shrink to before giving up */
+  minChunkSize?: number;
+  /** Retries per chunk for non-range errors */
+  maxRetries?: number;
+  /** First retry delay; doubles on each retry */
+  retryDelayMs?: number;
+  onChunk?: (fromBlock: number, toBlock: number, logs: Log[]) => void;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Check whether an RPC error asks for a smaller block range
+ */
+export function isRangeTooLargeError(err: unknown): boolean {
+  const e = err as { message?: string; shortMessage?: string; error?: { message?: string; code?: number } };
+  const text = [e?.message, e?.shortMessage, e?.error?.message, e?.error?.code]
+    .filter((x) => x !== undefined)
+    .join(" ");
+  return RANGE_TOO_LARGE.test(text);
+}
+
+/**
+ * Fetch logs over a block range in chunks
+ *
+ * Failed chunks are retried with exponential backoff. When the RPC rejects a
+ * range as too large the chunk is halved (down to minChunkSize) and retried.
+ * A chunk that still fails throws LogFetchError - chunks are never skipped.
+ *
+ * @param provider Provider to query
+ * @param filter Address and topics to match
+ * @param options Block range and retry settings
+ * @returns Logs in block order
+ */
+export async function fetchLogs(
+  provider: Provider,
+  filter: { address?: string | string[]; topics?: (string | string[] | null)[] },
+  options: FetchLogsOptions
+): Promise<Log[]> {
+  const toBlock = options.toBlock ?? (await provider.getBlockNumber());
+  const minChunkSize = options.minChunkSize ?? 1;
+  const maxRetries = options.maxRetries ?? 4;
+  const retryDelayMs = options.retryDelayMs ?? 1000;
+  let chunkSize = options.chunkSize ?? DEFAULT_LOG_CHUNK_SIZE;
+
+  const logs: Log[] = [];
+  let from = options.fromBlock;
+  let attempt = 0;
+
+  while (from <= toBlock) {
+    const to = Math.min(from + chunkSize - 1, toBlock);
+    let chunk: Log[];
+    try {
+      chunk = await provider.getLogs({ ...filter, fromBlock: from, toBlock: to });
+    } catch (err) {
+      if (isRangeTooLargeError(err) && chunkSize > minChunkSize) {
+        chunkSize = Math.max(minChunkSize, Math.floor(chunkSize / 2));
+        continue;
+      }
+      if (attempt >= maxRetries) {
+        throw new LogFetchError(from, to, err);
+      }
+      await sleep(retryDelayMs * 2 ** attempt);
+      attempt++;
+      continue;
+    }
+
+    logs.push(...chunk);
+    options.onChunk?.(from, to, chunk);
+    from = to + 1;
+    attempt = 0;
+  }
+
+  return logs;
+}
+
+/**
+ * Sort leaves by index and check they form the contiguous range start..n
+ *
+ * @param leaves Leaves with their tree indices
+ * @param start First expected index (leaves before it are already known)
+ * @returns Leaves in index order
+ */
+export function assertContiguousLeaves<T extends { leafIndex: number }>(
+  leaves: T[],
+  start: number = 0
+): T[] {
+  const sorted = [...leaves].sort((a, b) => a.leafIndex - b.leafIndex);
+  for (let i = 0; i < sorted.length; i++) {
+    if (sorted[i].leafIndex !== start + i) {
+      throw new LeafGapError(start + i, sorted[i].leafIndex);
+    }
+  }
+  return sorted;
+}
@@ -0,0 +1,187 @@
+import { ethers } from "ethers";
+import { LzOptions } from "./types";
+import { MixvmError } from "./errors";
+
+/**
+ * LayerZero V2 message options (OptionsBuilder format)
+ *
+ * Type 3 options are a uint16 header (3) followed by worker options:
+ *   workerId (uint8) | length (uint16) | optionType (uint8) | params
+ * where length counts optionType and params. DVN options (workerId 2) put a
+ * uint8 DVN index before optionType, included in the length.
+ */
+
+export const EXECUTOR_WORKER_ID = 1;
+export const DVN_WORKER_ID = 2;
+
+export const OPTION_TYPE_LZRECEIVE = 1;
+export const OPTION_TYPE_NATIVE_DROP = 2;
+export const OPTION_TYPE_LZCOMPOSE = 3;
+export const OPTION_TYPE_ORDERED_EXECUTION = 4;
+
+const MAX_UINT128 = (1n << 128n) - 1n;
+
+// ============ Encoding ============
+
+/**
+ * Encode type 3 options
+ *
+ * @example
+ * ```typescript
+ * encodeLzOptions({ lzReceive: { gas: 500_000n } });
+ * // "0x0003010011010000000000000000000000000007a120"
+ * ```
+ */
+export function encodeLzOptions(options: LzOptions): string {
+  const parts: string[] = [ethers.toBeHex(3, 2)];
+  const executor = (optionType: number, params: string[]) => {
+    const body = ethers.concat([ethers.toBeHex(optionType, 1), ...params]);
+    parts.push(ethers.toBeHex(EXECUTOR_WORKER_ID, 1), ethers.toBeHex(ethers.dataLength(body), 2), body);
+  };
+
+  if (options.lzReceive) {
+    const { gas, value = 0n } = options.lzReceive;
+    executor(OPTION_TYPE_LZRECEIVE, value > 0n ? [uint128(gas, "lzReceive gas"), uint128(value, "lzReceive value")] : [uint128(gas, "lzReceive gas")]);
+  }
+  for (const drop of options.nativeDrops ?? []) {
+    executor(OPTION_TYPE_NATIVE_DROP, [uint128(drop.amount, "native drop amount"), ethers.zeroPadValue(drop.receiver, 32)]);
+  }
+  for (const compose of options.composes ?? []) {
+    const { index, gas, value = 0n } = compose;
+    const params = [ethers.toBeHex(index, 2), uint128(gas, "lzCompose gas")];
+    executor(OPTION_TYPE_LZCOMPOSE, value > 0n ? [...params, uint128(value, "lzCompose value")] : params);
+  }
+  if (options.orderedExecution) {
+    executor(OPTION_TYPE_ORDERED_EXECUTION, []);
+  }
+  for (const dvn of options.dvnOptions ?? []) {
+    const body = ethers.concat([ethers.toBeHex(dvn.index, 1), ethers.toBeHex(dvn.optionType, 1), dvn.params]);
+    parts.push(ethers.toBeHex(DVN_WORKER_ID, 1), ethers.toBeHex(ethers.dataLength(body), 2), body);
+  }
+  return ethers.hexlify(ethers.concat(parts));
+}
+
+/**
+ * Options with only lzReceive gas (and optional msg.value on the destination)
+ */
+export function lzReceiveOptions(gas: bigint, value: bigint = 0n): string {
+  return encodeLzOptions({ lzReceive: { gas, value } });
+}
+
+// ============ Decoding ============
+
+/**
+ * Decode options for inspection
+ *
+ * Accepts type 3 and the legacy type 1 (gas) and type 2 (gas + native
+ * drop) formats. "0x" decodes to an empty object (the bridge then uses its
+ * enforced or default options).
+ */
+export function decodeLzOptions(hex: string): LzOptions {
+  const bytes = ethers.getBytes(hex);
+  if (bytes.length === 0) return {};
+  if (bytes.length < 2) throw invalid("options shorter than the type header");
+
+  const view = new Reader(bytes);
+  const type = view.uint(2);
+
+  if (type === 1n || type === 2n) {
+    const gas = view.uint(32);
+    const decoded: LzOptions = { lzReceive: { gas } };
+    if (type === 2n) {
+      const amount = view.uint(32);
+      decoded.nativeDrops = [{ amount, receiver: ethers.zeroPadValue(view.bytes(20), 32) }];
+    }
+    if (!view.done()) throw invalid(`${view.remaining()} trailing bytes after type ${type} options`);
+    return decoded;
+  }
+  if (type !== 3n) throw invalid(`unknown options type ${type}`);
+
+  const decoded: LzOptions = {};
+  while (!view.done()) {
+    const workerId = Number(view.uint(1));
+    const length = Number(view.uint(2));
+    const option = new Reader(view.bytes(length));
+
+    if (workerId === DVN_WORKER_ID) {
+      const index = Number(option.uint(1));
+      const optionType = Number(option.uint(1));
+      (decoded.dvnOptions ??= []).push({ index, optionType, params: ethers.hexlify(option.rest()) });
+      continue;
+    }
+    if (workerId !== EXECUTOR_WORKER_ID) throw invalid(`unknown worker id ${workerId}`);
+
+    const optionType = Number(option.uint(1));
+    switch (optionType) {
+      case OPTION_TYPE_LZRECEIVE: {
+        const gas = option.uint(16);
+        const value = option.done() ? 0n : option.uint(16);
+        // Repeated lzReceive options are summed by the executor
+        decoded.lzReceive = {
+          gas: (decoded.lzReceive?.gas ?? 0n) + gas,
+          value: (decoded.lzReceive?.value ?? 0n) + value,
+        };
+        break;
+      }
+      case OPTION_TYPE_NATIVE_DROP:
+        (decoded.nativeDrops ??= []).push({ amount: option.uint(16), receiver: ethers.hexlify(option.bytes(32)) });
+        break;
+      case OPTION_TYPE_LZCOMPOSE: {
+        const index = Number(option.uint(2));
+        const gas = option.uint(16);
+        const value = option.done() ? 0n : option.uint(16);
+        (decoded.composes ??= []).push({ index, gas, value });
+        break;
+      }
+      case OPTION_TYPE_ORDERED_EXECUTION:
+        decoded.orderedExecution = true;
+        break;
+      default:
+        throw invalid(`unknown executor option type ${optionType}`);
+    }
+    if (!option.done()) throw invalid(`executor option type ${optionType} has ${option.remaining()} extra bytes`);
+  }
+  return decoded;
+}
+
+// ============ Helpers ============
+
+function uint128(value: bigint, name: string): string {
+  if (value < 0n || value > MAX_UINT128) throw invalid(`${name} does not fit in uint128`);
+  return ethers.toBeHex(value, 16);
+}
+
+function invalid(detail: string): MixvmError {
+  return new MixvmError("INVALID_LZ_OPTIONS", `Invalid LayerZero options: ${detail}`, {
+    hint: "Build options with encodeLzOptions",
+  });
+}
+
+class Reader {
+  private offset = 0;
+
+  constructor(private data: Uint8Array) {}
+
+  bytes(length: number): Uint8Array {
+    if (this.offset + length > this.data.length) throw invalid("options are truncated");
+    const slice = this.data.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+
+  uint(length: number): bigint {
+    return ethers.toBigInt(this.bytes(length));
+  }
+
+  rest(): Uint8Array {
+    return this.bytes(this.remaining());
+  }
+
+  remaining(): number {
+    return this.data.length - this.offset;
+  }
+
+  done(): boolean {
+    return this.offset >= this.data.length;
+  }
+}
@@ -0,0 +1,442 @@
+import { Contract, Interface, Signer, ethers } from "ethers";
+import {
+  InboundLzMessage,
+  LzDiagnosis,
+  LzMessageStatus,
+  LzPacket,
+  LzRecoveryAction,
+  LzRecoveryChain,
+  LzRecoveryOptions,
+  LzRecoveryResult,
+  StuckLzMessage,
+  TransferPayload,
+} from "./types";
+import { ContractRevertError, MixvmError, decodeError, getRevertReason } from "./errors";
+import { BRIDGE_EVENTS_ABI, bridgeEventTopics, parseBridgeEvents, refundReason } from "./events";
+import { fetchLogs } from "./logs";
+
+/**
+ * EndpointV2 calls and events used to find and recover inbound messages
+ */
+export const ENDPOINT_V2_ABI = [
+  "event PacketSent(bytes encodedPayload, bytes options, address sendLibrary)",
+  "function inboundPayloadHash(address receiver, uint32 srcEid, bytes32 sender, uint64 nonce) view returns (bytes32)",
+  "function lazyInboundNonce(address receiver, uint32 srcEid, bytes32 sender) view returns (uint64)",
+  "function inboundNonce(address receiver, uint32 srcEid, bytes32 sender) view returns (uint64)",
+  "function lzReceive(tuple(uint32 srcEid, bytes32 sender, uint64 nonce) origin, address receiver, bytes32 guid, bytes message, bytes extraData) payable",
+];
+
+const RECOVERY_BRIDGE_ABI = [
+  "function lzEndpoint() view returns (address)",
+  "function skipInboundNonce(uint32 srcEid, bytes32 sender, uint64 nonce)",
+  "function clearInboundMessage(tuple(uint32 srcEid, bytes32 sender, uint64 nonce) origin, bytes32 guid, bytes message)",
+  "function undeliverableReason(uint32 srcEid, bytes32 sender, bytes32 recipientCommitment) view returns (uint8)",
+  "function refundInboundTransfer(tuple(uint32 srcEid, bytes32 sender, uint64 nonce) origin, bytes32 guid, bytes message, bytes options) payable returns (uint8)",
+  "function quoteRefund(tuple(uint32 srcEid, bytes32 sender, uint64 nonce) origin, bytes options) view returns (uint256 nativeFee, uint256 lzTokenFee)",
+  ...BRIDGE_EVENTS_ABI,
+];
+
+const endpointInterface = new Interface(ENDPOINT_V2_ABI);
+// Current and v10.2 signatures
+const initiatedTopics = bridgeEventTopics("CrossChainTransferInitiated");
+
+const EMPTY_PAYLOAD_HASH = ethers.ZeroHash;
+const NIL_PAYLOAD_HASH = ethers.toBeHex(ethers.MaxUint256, 32);
+
+// Buffer on the quoted refund ack fee (percent); the endpoint returns the excess
+const FEE_BUFFER_PERCENT = 120n;
+
+// version(1) nonce(8) srcEid(4) sender(32) dstEid(4) receiver(32) guid(32)
+const PACKET_HEADER_BYTES = 113;
+
+const STEALTH_DATA_TYPE =
+  "tuple(uint256 ephemeralPubKeyX, uint256 ephemeralPubKeyY, uint256 stealthAddressX, uint256 stealthAddressY, uint256 viewTag)";
+const TRANSFER_PAYLOAD_TYPES = ["bytes32", "uint256", "uint256", STEALTH_DATA_TYPE];
+// v10.2 bridges send no gross amount: (recipientCommitment, amount, StealthData)
+const LEGACY_TRANSFER_PAYLOAD_TYPES = ["bytes32", "uint256", STEALTH_DATA_TYPE];
+const LEGACY_TRANSFER_PAYLOAD_LENGTH = 224;
+
+// ============ Codecs ============
+
+/**
+ * Decode a PacketV1 (PacketSent's encodedPayload)
+ */
+export function decodeLzPacket(encoded: string): LzPacket {
+  if (ethers.dataLength(encoded) < PACKET_HEADER_BYTES) {
+    throw new MixvmError("INVALID_LZ_MESSAGE", "LayerZero packet is shorter than its header");
+  }
+  const version = Number(ethers.dataSlice(encoded, 0, 1));
+  if (version !== 1) {
+    throw new MixvmError("INVALID_LZ_MESSAGE", `Unsupported LayerZero packet version ${version}`);
+  }
+  return {
+    nonce: BigInt(ethers.dataSlice(encoded, 1, 9)),
+    srcEid: Number(ethers.dataSlice(encoded, 9, 13)),
+    sender: ethers.dataSlice(encoded, 13, 45),
+    dstEid: Number(ethers.dataSlice(encoded, 45, 49)),
+    receiver: ethers.dataSlice(encoded, 49, 81),
+    guid: ethers.dataSlice(encoded, 81, 113),
+    message: ethers.dataSlice(encoded, 113),
+  };
+}
+
+/**
+ * Decode a PrivateLZBridge transfer message (current or v10.2 layout; v10.2
+ * messages get grossAmount = amount)
+ */
+export function decodeTransferPayload(message: string): TransferPayload {
+  const legacy = ethers.dataLength(message) === LEGACY_TRANSFER_PAYLOAD_LENGTH;
+  let decoded: ethers.Result;
+  try {
+    decoded = ethers.AbiCoder.defaultAbiCoder().decode(
+      legacy ? LEGACY_TRANSFER_PAYLOAD_TYPES : TRANSFER_PAYLOAD_TYPES,
+      message
+    );
+  } catch (err) {
+    throw new MixvmError("INVALID_LZ_MESSAGE", "Message is not a PrivateLZBridge transfer", { cause: err });
+  }
+  const [recipientCommitment, amount, grossAmount, stealth] = legacy
+    ? [decoded[0], decoded[1], decoded[1], decoded[2]]
+    : decoded;
+  return {
+    recipientCommitment,
+    amount,
+    grossAmount,
+    stealthData: {
+      ephemeralPubKeyX: stealth.ephemeralPubKeyX,
+      ephemeralPubKeyY: stealth.ephemeralPubKeyY,
+      stealthAddressX: stealth.stealthAddressX,
+      stealthAddressY: stealth.stealthAddressY,
+      viewTag: stealth.viewTag,
+    },
+  };
+}
+
+/**
+ * Hash the destination endpoint stores for a verified message
+ */
+export function lzPayloadHash(guid: string, message: string): string {
+  return ethers.keccak256(ethers.concat([guid, message]));
+}
+
+// ============ Recovery ============
+
+/**
+ * Finds transfer messages that are verified on the destination endpoint but
+ * were never executed, works out why, and retries, clears or skips them
+ *
+ * Messages are found from the source side: every CrossChainTransferInitiated
+ * of a configured bridge is matched with the endpoint's PacketSent in the
+ * same transaction, and the destination endpoint's inbound state says where
+ * the message is. The diagnosis is a static call of the endpoint's lzReceive,
+ * so it reports the revert the executor hits.
+ *
+ * - retry: execute lzReceive again (anyone; after fixing the cause)
+ * - refund: drop a transfer the destination can never credit and send the
+ *   failure ack that refunds the sender on the source (anyone, refundInboundTransfer)
+ * - clear: drop a verified message unexecuted (bridge owner, clearInboundMessage)
+ * - skip: skip the next unverified nonce (bridge owner, skipInboundNonce)
+ *
+ * @example
+ * ```typescript
+ * const recovery = new LzMessageRecovery({
+ *   chains: [
+ *     { eid: 40245, provider: baseProvider, bridgeAddress: baseBridge, fromBlock: 37366200 },
+ *     { eid: 40161, provider: ethProvider, bridgeAddress: ethBridge },
+ *   ],
+ * });
+ * for (const message of await recovery.findStuck()) {
+ *   console.log(message.guid, message.diagnosis.advice);
+ * }
+ * ```
+ */
+export class LzMessageRecovery {
+  private chains = new Map<number, LzRecoveryChain>();
+  private endpoints = new Map<number, Promise<string>>();
+  private lookbackBlocks: number;
+
+  constructor(options: LzRecoveryOptions) {
+    for (const chain of options.chains) {
+      this.chains.set(chain.eid, chain);
+    }
+    this.lookbackBlocks = options.lookbackBlocks ?? 50_000;
+  }
+
+  /**
+   * Transfer messages sent from `srcEid` and where each is on its destination
+   *
+   * @param srcEid Source chain EID
+   * @param options.dstEid Only messages to this destination
+   * @param options.fromBlock Source block to scan from (defaults to the chain's fromBlock or lookback)
+   * @param options.toBlock Source block to scan to (defaults to the head)
+   */
+  async messages(
+    srcEid: number,
+    options: { dstEid?: number; fromBlock?: number; toBlock?: number } = {}
+  ): Promise<InboundLzMessage[]> {
+    const src = this.chain(srcEid);
+    const fromBlock =
+      options.fromBlock ??
+      src.fromBlock ??
+      Math.max(0, (await src.provider.getBlockNumber()) - this.lookbackBlocks);
+    const dstTopic = options.dstEid === undefined ? null : ethers.toBeHex(options.dstEid, 32);
+    const logs = await fetchLogs(
+      src.provider,
+      { address: src.bridgeAddress, topics: [initiatedTopics, dstTopic] },
+      { fromBlock, toBlock: options.toBlock }
+    );
+
+    const srcEndpoint = (await this.endpoint(srcEid)).toLowerCase();
+    const txHashes = [...new Set(logs.map((log) => log.transactionHash))];
+    const messages: InboundLzMessage[] = [];
+    for (const txHash of txHashes) {
+      const receipt = await src.provider.getTransactionReceipt(txHash);
+      if (!receipt) continue;
+      const guids = new Set(parseBridgeEvents(receipt.logs, src.bridgeAddress).transfersInitiated.map((e) => e.guid));
+
+      for (const log of receipt.logs) {
+        if (log.address.toLowerCase() !== srcEndpoint) continue;
+        const parsed = endpointInterface.parseLog({ topics: log.topics as string[], data: log.data });
+        if (parsed?.name !== "PacketSent") continue;
+
+        const packet = decodeLzPacket(parsed.args.encodedPayload);
+        if (!guids.has(packet.guid) || !this.chains.has(packet.dstEid)) continue;
+        const message: InboundLzMessage = {
+          ...packet,
+          srcTxHash: receipt.hash,
+          srcBlockNumber: receipt.blockNumber,
+          receiverAddress: ethers.getAddress(ethers.dataSlice(packet.receiver, 12)),
+          payload: decodeTransferPayload(packet.message),
+          payloadHash: lzPayloadHash(packet.guid, packet.message),
+          status: "unverified",
+        };
+        message.status = await this.status(message);
+        messages.push(message);
+      }
+    }
+    return messages;
+  }
+
+  /**
+   * Verified but unexecuted messages between the configured bridges, diagnosed
+   *
+   * @param options.srcEid Only messages from this chain (default: every chain)
+   * @param options.dstEid Only messages to this chain
+   */
+  async findStuck(options: { srcEid?: number; dstEid?: number } = {}): Promise<StuckLzMessage[]> {
+    const sources = options.srcEid === undefined ? [...this.chains.keys()] : [options.srcEid];
+    const stuck: StuckLzMessage[] = [];
+    for (const srcEid of sources) {
+      for (const message of await this.messages(srcEid, { dstEid: options.dstEid })) {
+        if (message.status !== "verified") continue;
+        stuck.push({ ...message, diagnosis: await this.diagnose(message) });
+      }
+    }
+    return stuck;
+  }
+
+  /**
+   * Why a message has not been delivered and which operations apply
+   */
+  async diagnose(message: InboundLzMessage): Promise<LzDiagnosis> {
+    const status = await this.status(message);
+    if (status === "delivered") {
+      return { executable: false, actions: [], advice: "Already delivered, cleared or skipped; nothing to do" };
+    }
+    if (status === "nilified") {
+      return { executable: false, actions: [], advice: "Nilified on the destination endpoint; it can never execute" };
+    }
+    if (status === "unverified") {
+      const endpoint = await this.endpointContract(message.dstEid);
+      const inbound: bigint = await endpoint.inboundNonce(message.receiverAddress, message.srcEid, message.sender);
+      return message.nonce === inbound + 1n
+        ? {
+            executable: false,
+            actions: ["skip"],
+            advice: "Not verified by the DVNs yet; wait, or skip the nonce if it will never verify",
+          }
+        : {
+            executable: false,
+            actions: [],
+            advice: `Not verified yet; nonce ${inbound + 1n} from this sender must be verified or skipped first`,
+          };
+    }
+
+    try {
+      const endpoint = await this.endpointContract(message.dstEid);
+      await endpoint.lzReceive.staticCall(
+        this.origin(message),
+        message.receiverAddress,
+        message.guid,
+        message.message,
+        "0x"
+      );
+      return { executable: true, actions: ["retry"], advice: "lzReceive succeeds now; retry to deliver it" };
+    } catch (err) {
+      const reason = getRevertReason(err);
+      const { code, hint } = decodeError(err, "lzReceive");
+      const diagnosis: LzDiagnosis = { executable: false, reason, code, actions: ["retry", "clear"], advice: "" };
+
+      const bridge = new Contract(message.receiverAddress, RECOVERY_BRIDGE_ABI, this.chain(message.dstEid).provider);
+      const undeliverable = Number(
+        await bridge.undeliverableReason(message.srcEid, message.sender, message.payload.recipientCommitment)
+      );
+      if (undeliverable !== 0) diagnosis.refundReason = refundReason(undeliverable);
+
+      switch (reason) {
+        case "Commitment exists":
+        case "Tree is full":
+          diagnosis.actions = ["refund", "clear"];
+          diagnosis.advice =
+            reason === "Tree is full"
+              ? "The destination tree is full, so this message can never execute; refund it to the sender"
+              : "The recipient commitment is already in the destination tree, so this message can never execute; refund it to the sender";
+          break;
+        case "Invalid peer":
+          diagnosis.actions = ["retry", "refund", "clear"];
+          diagnosis.advice =
+            `Set the sender as peer for EID ${message.srcEid} on the destination bridge, then retry; ` +
+            "or refund it to the sender (its USDC stays in the destination pool)";
+          break;
+        default:
+          diagnosis.advice = hint ? `${hint}, then retry; clear it if it can never execute` : "Retry later, or clear it";
+      }
+      return diagnosis;
+    }
+  }
+
+  /**
+   * Execute a verified message through the destination endpoint (anyone can)
+   *
+   * @param signer Signer on the destination chain
+   * @param options.gasLimit Gas for the lzReceive call (default: estimated)
+   */
+  async retry(
+    message: InboundLzMessage,
+    signer: Signer,
+    options: { gasLimit?: bigint } = {}
+  ): Promise<LzRecoveryResult> {
+    await this.expectStatus(message, "verified");
+    const endpoint = (await this.endpointContract(message.dstEid)).connect(signer) as Contract;
+    return this.send("retry", () =>
+      endpoint.lzReceive(this.origin(message), message.receiverAddress, message.guid, message.message, "0x", {
+        gasLimit: options.gasLimit,
+      })
+    );
+  }
+
+  /**
+   * Refund a verified transfer the destination can never credit (anyone can)
+   *
+   * The destination bridge clears the message, burns its USDC back over CCTP
+   * when the sender is its peer, and sends the failure ack that inserts the
+   * sender's refund note on the source. The ack's LayerZero fee is paid by
+   * `signer`.
+   *
+   * @param signer Signer on the destination chain
+   * @param options.lzOptions LayerZero options for the ack (default: the bridge's)
+   */
+  async refund(
+    message: InboundLzMessage,
+    signer: Signer,
+    options: { lzOptions?: string } = {}
+  ): Promise<LzRecoveryResult> {
+    await this.expectStatus(message, "verified");
+    const bridge = new Contract(message.receiverAddress, RECOVERY_BRIDGE_ABI, signer);
+    const lzOptions = options.lzOptions ?? "0x";
+    return this.send("refund", async () => {
+      const { nativeFee } = await bridge.quoteRefund(this.origin(message), lzOptions);
+      return bridge.refundInboundTransfer(this.origin(message), message.guid, message.message, lzOptions, {
+        value: (nativeFee * FEE_BUFFER_PERCENT) / 100n,
+      });
+    });
+  }
+
+  /**
+   * Drop a verified message without executing it (destination bridge owner)
+   */
+  async clear(message: InboundLzMessage, signer: Signer): Promise<LzRecoveryResult> {
+    await this.expectStatus(message, "verified");
+    const bridge = new Contract(message.receiverAddress, RECOVERY_BRIDGE_ABI, signer);
+    return this.send("clear", () => bridge.clearInboundMessage(this.origin(message), message.guid, message.message));
+  }
+
+  /**
+   * Skip an unverified message's nonce (destination bridge owner); only the
+   * next nonce after the last verified one can be skipped
+   */
+  async skip(message: InboundLzMessage, signer: Signer): Promise<LzRecoveryResult> {
+    await this.expectStatus(message, "unverified");
+    const bridge = new Contract(message.receiverAddress, RECOVERY_BRIDGE_ABI, signer);
+    return this.send("skip", () => bridge.skipInboundNonce(message.srcEid, message.sender, message.nonce));
+  }
+
+  // ============ Internals ============
+
+  private chain(eid: number): LzRecoveryChain {
+    const chain = this.chains.get(eid);
+    if (!chain) {
+      throw new MixvmError("UNKNOWN_CHAIN", `No chain configured for EID ${eid}`, {
+        hint: "Add the chain to the recovery's chains",
+      });
+    }
+    return chain;
+  }
+
+  private endpoint(eid: number): Promise<string> {
+    let address = this.endpoints.get(eid);
+    if (!address) {
+      const chain = this.chain(eid);
+      address = chain.endpointAddress
+        ? Promise.resolve(chain.endpointAddress)
+        : (new Contract(chain.bridgeAddress, RECOVERY_BRIDGE_ABI, chain.provider).lzEndpoint() as Promise<string>);
+      address.catch(() => this.endpoints.delete(eid));
+      this.endpoints.set(eid, address);
+    }
+    return address;
+  }
+
+  private async endpointContract(eid: number): Promise<Contract> {
+    return new Contract(await this.endpoint(eid), ENDPOINT_V2_ABI, this.chain(eid).provider);
+  }
+
+  private async status(message: InboundLzMessage): Promise<LzMessageStatus> {
+    const endpoint = await this.endpointContract(message.dstEid);
+    const [hash, lazyNonce]: [string, bigint] = await Promise.all([
+      endpoint.inboundPayloadHash(message.receiverAddress, message.srcEid, message.sender, message.nonce),
+      endpoint.lazyInboundNonce(message.receiverAddress, message.srcEid, message.sender),
+    ]);
+    if (hash === NIL_PAYLOAD_HASH) return "nilified";
+    if (hash !== EMPTY_PAYLOAD_HASH) return "verified";
+    return message.nonce <= lazyNonce ? "delivered" : "unverified";
+  }
+
+  private async expectStatus(message: InboundLzMessage, expected: LzMessageStatus): Promise<void> {
+    const status = await this.status(message);
+    if (status !== expected) {
+      throw new MixvmError("LZ_PAYLOAD_NOT_FOUND", `Message ${message.guid} is ${status}, not ${expected}`, {
+        hint: "Scan the messages again for their current status",
+      });
+    }
+  }
+
+  private origin(message: InboundLzMessage) {
+    return { srcEid: message.srcEid, sender: message.sender, nonce: message.nonce };
+  }
+
+  private async send(
+    action: LzRecoveryAction,
+    submit: () => Promise<ethers.ContractTransactionResponse>
+  ): Promise<LzRecoveryResult> {
+    try {
+      const tx = await submit();
+      const receipt = await tx.wait();
+      if (!receipt || receipt.status === 0) {
+        throw new ContractRevertError("REVERTED", `LayerZero ${action} reverted`, { txHash: tx.hash });
+      }
+      return { action, txHash: tx.hash, blockNumber: receipt.blockNumber };
+    } catch (err) {
+      throw decodeError(err, `LayerZero ${action}`);
+    }
+  }
+}
@@ -1,18 +1,30 @@
 import { hash2 } from "./poseidon";
-import { MerkleProof, MERKLE_DEPTH } from "./types";
+import { MerkleProof, MerkleTreeState, MERKLE_DEPTH } from "./types";
 
 /**
- * Merkle tree for tracking commitments
+ * Incremental sparse merkle tree for tracking commitments
+ *
+ * Mirrors the contract's filledSubtrees/zeros insertion. Only nodes with at
+ * least one leaf below them are stored; everything else is a zero value, so
+ * inserts and proofs cost O(depth) hashes and memory grows with the number
+ * of leaves rather than 2^depth.
  */
 export class MerkleTree {
   private leaves: bigint[];
   private zeroValues: bigint[];
   private depth: number;
+  private filledSubtrees: bigint[];
+  // nodes[level] maps index -> hash for levels 1..depth (level 0 is leaves)
+  private nodes: Map<number, bigint>[];
+  private root: bigint;
 
   constructor(depth: number = MERKLE_DEPTH) {
     this.depth = depth;
     this.leaves = [];
     this.zeroValues = this.computeZeroValues();
+    this.filledSubtrees = this.zeroValues.slice(0, depth);
+    this.nodes = Array.from({ length: depth + 1 }, () => new Map<number, bigint>());
+    this.root = this.zeroValues[depth];
   }
 
   /**
@@ -30,12 +42,46 @@ export class MerkleTree {
     return zeros;
   }
 
+  /**
+   * Get the node at (level, index), falling back to the zero value
+   */
+  private getNode(level: number, index: number): bigint {
+    if (level === 0) {
+      return index < this.leaves.length ? this.leaves[index] : this.zeroValues[0];
+    }
+    return this.nodes[level].get(index) ?? this.zeroValues[level];
+  }
+
   /**
    * Add a leaf to the tree
    */
   addLeaf(commitment: bigint): number {
     const index = this.leaves.length;
+    if (index >= 2 ** this.depth) {
+      throw new Error("Tree is full");
+    }
     this.leaves.push(commitment);
+
+    let currentIndex = index;
+    let currentHash = commitment;
+
+    for (let level = 0; level < this.depth; level++) {
+      let left: bigint;
+      let right: bigint;
+      if (currentIndex % 2 === 0) {
+        left = currentHash;
+        right = this.zeroValues[level];
+        this.filledSubtrees[level] = currentHash;
+      } else {
+        left = this.filledSubtrees[level];
+        right = currentHash;
+      }
+      currentHash = hash2(left, right);
+      currentIndex = Math.floor(currentIndex / 2);
+      this.nodes[level + 1].set(currentIndex, currentHash);
+    }
+
+    this.root = currentHash;
     return index;
   }
 
@@ -43,7 +89,14 @@ export class MerkleTree {
    * Set leaves from an array (for syncing from chain)
    */
   setLeaves(leaves: bigint[]): void {
-    this.leaves = [...leaves];
+    this.leaves = [];
+    this.filledSubtrees = this.zeroValues.slice(0, this.depth);
+    this.nodes = Array.from({ length: this.depth + 1 }, () => new Map<number, bigint>());
+    this.root = this.zeroValues[this.depth];
+
+    for (const leaf of leaves) {
+      this.addLeaf(leaf);
+    }
   }
 
   /**
@@ -61,32 +114,10 @@ export class MerkleTree {
   }
 
   /**
-   * Compute the current merkle root
+   * Get the current merkle root
    */
   getRoot(): bigint {
-    if (this.leaves.length === 0) {
-      return this.zeroValues[this.depth];
-    }
-
-    // Build complete tree
-    const numLeaves = 2 ** this.depth;
-    let currentLevel: bigint[] = [];
-
-    // Fill level 0 with leaves and zeros
-    for (let i = 0; i < numLeaves; i++) {
-      currentLevel.push(i < this.leaves.length ? this.leaves[i] : this.zeroValues[0]);
-    }
-
-    // Build up the tree
-    for (let level = 0; level < this.depth; level++) {
-      const nextLevel: bigint[] = [];
-      for (let i = 0; i < currentLevel.length; i += 2) {
-        nextLevel.push(hash2(currentLevel[i], currentLevel[i + 1]));
-      }
-      currentLevel = nextLevel;
-    }
-
-    return currentLevel[0];
+    return this.root;
   }
 
   /**
@@ -97,28 +128,6 @@ export class MerkleTree {
       throw new Error(`Invalid leaf index: ${leafIndex}`);
     }
 
-    // Build full tree
-    const numLeaves = 2 ** this.depth;
-    const tree: bigint[][] = [];
-
-    // Level 0
-    const level0: bigint[] = [];
-    for (let i = 0; i < numLeaves; i++) {
-      level0.push(i < this.leaves.length ? this.leaves[i] : this.zeroValues[0]);
-    }
-    tree.push(level0);
-
-    // Build remaining levels
-    for (let level = 1; level <= this.depth; level++) {
-      const prevLevel = tree[level - 1];
-      const currentLevel: bigint[] = [];
-      for (let i = 0; i < prevLevel.length; i += 2) {
-        currentLevel.push(hash2(prevLevel[i], prevLevel[i + 1]));
-      }
-      tree.push(currentLevel);
-    }
-
-    // Extract path
     const pathElements: bigint[] = [];
     const pathIndices: number[] = [];
     let currentIndex = leafIndex;
@@ -127,7 +136,7 @@ export class MerkleTree {
       const isLeft = currentIndex % 2 === 0;
       const siblingIndex = isLeft ? currentIndex + 1 : currentIndex - 1;
 
-      pathElements.push(tree[level][siblingIndex]);
+      pathElements.push(this.getNode(level, siblingIndex));
       pathIndices.push(isLeft ? 0 : 1);
 
       currentIndex = Math.floor(currentIndex / 2);
@@ -136,7 +145,7 @@ export class MerkleTree {
     return {
       pathElements,
       pathIndices,
-      root: tree[this.depth][0],
+      root: this.root,
       leafIndex,
     };
   }
@@ -164,4 +173,38 @@ export class MerkleTree {
   getZeroValues(): bigint[] {
     return [...this.zeroValues];
   }
+
+  /**
+   * Export the tree state (JSON-serializable)
+   */
+  serialize(): MerkleTreeState {
+    return {
+      depth: this.depth,
+      leaves: this.leaves.map((l) => l.toString()),
+      filledSubtrees: this.filledSubtrees.map((n) => n.toString()),
+      nodes: this.nodes
+        .slice(1)
+        .map((level) => [...level.entries()].map(([i, n]) => [i, n.toString()] as [number, string])),
+      root: this.root.toString(),
+    };
+  }
+
+  /**
+   * Restore a tree exported with serialize() without rehashing
+   */
+  static restore(state: MerkleTreeState): MerkleTree {
+    if (state.nodes.length !== state.depth) {
+      throw new Error("Invalid merkle tree state: node levels do not match depth");
+    }
+
+    const tree = new MerkleTree(state.depth);
+    tree.leaves = state.leaves.map((l) => BigInt(l));
+    tree.filledSubtrees = state.filledSubtrees.map((n) => BigInt(n));
+    tree.nodes = [
+      new Map<number, bigint>(),
+      ...state.nodes.map((level) => new Map(level.map(([i, n]) => [i, BigInt(n)] as [number, bigint]))),
+    ];
+    tree.root = BigInt(state.root);
+    return tree;
+  }
 }
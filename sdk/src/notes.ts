@@ -0,0 +1,327 @@
+import { ethers, Signer, TransactionRequest, TransactionResponse, TransactionReceipt } from "ethers";
+import * as fs from "fs";
+import * as crypto from "crypto";
+import { PrivateNote, NoteStatus, NoteStore } from "./types";
+import { writeFileAtomic } from "./files";
+import { decodeError, MixvmError, ContractRevertError, RelayerError } from "./errors";
+
+/**
+ * Unique key of a note: chain, pool contract and commitment
+ */
+export function noteKey(note: PrivateNote): string {
+  return `${note.chainId ?? ""}:${(note.bridgeAddress ?? "").toLowerCase()}:${note.commitment}`;
+}
+
+/**
+ * Effective status of a note (notes without one are unspent)
+ */
+export function noteStatus(note: PrivateNote): NoteStatus {
+  return note.status ?? "unspent";
+}
+
+interface SerializedNote {
+  commitment: string;
+  balance: string;
+  randomness: string;
+  nullifierSecret: string;
+  leafIndex: number;
+  chainId?: number;
+  bridgeAddress?: string;
+  status?: NoteStatus;
+}
+
+function serializeNote(note: PrivateNote): SerializedNote {
+  return {
+    commitment: note.commitment.toString(),
+    balance: note.balance.toString(),
+    randomness: note.randomness.toString(),
+    nullifierSecret: note.nullifierSecret.toString(),
+    leafIndex: note.leafIndex,
+    chainId: note.chainId,
+    bridgeAddress: note.bridgeAddress,
+    status: note.status,
+  };
+}
+
+function deserializeNote(note: SerializedNote): PrivateNote {
+  return {
+    commitment: BigInt(note.commitment),
+    balance: BigInt(note.balance),
+    randomness: BigInt(note.randomness),
+    nullifierSecret: BigInt(note.nullifierSecret),
+    leafIndex: note.leafIndex,
+    chainId: note.chainId,
+    bridgeAddress: note.bridgeAddress,
+    status: note.status,
+  };
+}
+
+/**
+ * In-memory note store (lost on restart; useful for tests and browsers)
+ */
+export class MemoryNoteStore implements NoteStore {
+  private notes = new Map<string, PrivateNote>();
+
+  async list(): Promise<PrivateNote[]> {
+    return [...this.notes.values()].map((n) => ({ ...n }));
+  }
+
+  async put(notes: PrivateNote[], removed: PrivateNote[] = []): Promise<void> {
+    for (const note of notes) {
+      this.notes.set(noteKey(note), { ...note });
+    }
+    for (const note of removed) {
+      this.notes.delete(noteKey(note));
+    }
+  }
+
+  async remove(notes: PrivateNote[]): Promise<void> {
+    for (const note of notes) {
+      this.notes.delete(noteKey(note));
+    }
+  }
+}
+
+/**
+ * Plain JSON file note store
+ *
+ * Writes go to a temp file which is then renamed over the target, so a
+ * crash mid-write leaves the previous file intact.
+ */
+export class JsonFileNoteStore implements NoteStore {
+  protected filePath: string;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async list(): Promise<PrivateNote[]> {
+    await this.queue;
+    return [...(await this.read()).values()];
+  }
+
+  async put(notes: PrivateNote[], removed: PrivateNote[] = []): Promise<void> {
+    return this.update((all) => {
+      for (const note of notes) all.set(noteKey(note), { ...note });
+      for (const note of removed) all.delete(noteKey(note));
+    });
+  }
+
+  async remove(notes: PrivateNote[]): Promise<void> {
+    return this.update((all) => {
+      for (const note of notes) all.delete(noteKey(note));
+    });
+  }
+
+  /**
+   * Encode the file contents (overridden by EncryptedFileNoteStore)
+   */
+  protected encode(json: string): string {
+    return json;
+  }
+
+  /**
+   * Decode the file contents (overridden by EncryptedFileNoteStore)
+   */
+  protected decode(contents: string): string {
+    return contents;
+  }
+
+  private update(fn: (all: Map<string, PrivateNote>) => void): Promise<void> {
+    const next = this.queue.then(async () => {
+      const all = await this.read();
+      fn(all);
+      await this.write(all);
+    });
+    // Keep the queue alive after a failed write
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  private async read(): Promise<Map<string, PrivateNote>> {
+    let contents: string;
+    try {
+      contents = await fs.promises.readFile(this.filePath, "utf8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return new Map();
+      throw err;
+    }
+
+    const parsed = JSON.parse(this.decode(contents)) as { version: number; notes: SerializedNote[] };
+    const all = new Map<string, PrivateNote>();
+    for (const serialized of parsed.notes) {
+      const note = deserializeNote(serialized);
+      all.set(noteKey(note), note);
+    }
+    return all;
+  }
+
+  private async write(all: Map<string, PrivateNote>): Promise<void> {
+    const json = JSON.stringify(
+      { version: 1, notes: [...all.values()].map(serializeNote) },
+      null,
+      2
+    );
+
+    await writeFileAtomic(this.filePath, this.encode(json));
+  }
+}
+
+/**
+ * Password-encrypted JSON file note store (scrypt + AES-256-GCM)
+ */
+export class EncryptedFileNoteStore extends JsonFileNoteStore {
+  private password: string;
+
+  constructor(filePath: string, password: string) {
+    super(filePath);
+    if (!password) {
+      throw new Error("Password required for encrypted note store");
+    }
+    this.password = password;
+  }
+
+  protected encode(json: string): string {
+    const salt = crypto.randomBytes(16);
+    const iv = crypto.randomBytes(12);
+    const key = crypto.scryptSync(this.password, salt, 32);
+    const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+    const data = Buffer.concat([cipher.update(json, "utf8"), cipher.final()]);
+
+    return JSON.stringify({
+      version: 1,
+      cipher: "aes-256-gcm",
+      kdf: "scrypt",
+      salt: salt.toString("hex"),
+      iv: iv.toString("hex"),
+      tag: cipher.getAuthTag().toString("hex"),
+      data: data.toString("hex"),
+    });
+  }
+
+  protected decode(contents: string): string {
+    const envelope = JSON.parse(contents);
+    const key = crypto.scryptSync(this.password, Buffer.from(envelope.salt, "hex"), 32);
+    const decipher = crypto.createDecipheriv("aes-256-gcm", key, Buffer.from(envelope.iv, "hex"));
+    decipher.setAuthTag(Buffer.from(envelope.tag, "hex"));
+
+    try {
+      return Buffer.concat([
+        decipher.update(Buffer.from(envelope.data, "hex")),
+        decipher.final(),
+      ]).toString("utf8");
+    } catch {
+      throw new Error("Failed to decrypt note store (wrong password or corrupted file)");
+    }
+  }
+}
+
+/**
+ * Note changes made by a single transaction
+ */
+export interface NoteTransition {
+  /** Notes consumed by the tx */
+  spending: PrivateNote[];
+  /** Notes the tx creates (leafIndex may be unknown until mined) */
+  created: PrivateNote[];
+  /**
+   * Resolve created notes from the receipt (e.g. fill in leaf indices); they
+   * become unspent unless given another status (e.g. refundable)
+   */
+  finalize?: (receipt: TransactionReceipt) => PrivateNote[];
+  /** Error message when the tx reverts */
+  failureMessage?: string;
+}
+
+/**
+ * Send a transaction with note state written through the store around it
+ *
+ * Before sending, spending and created notes are stored as pending. Once
+ * mined, spending notes become spent and created notes unspent in a single
+ * write. If the tx is rejected or reverts, spending notes go back to unspent
+ * and created notes are removed. If the outcome is unknown (e.g. the RPC
+ * dropped while waiting, or a relayer gave no answer) both stay pending, so
+ * nothing is orphaned.
+ */
+export async function sendWithNotes(
+  store: NoteStore,
+  signer: Signer,
+  request: TransactionRequest,
+  transition: NoteTransition
+): Promise<{ tx: TransactionResponse; receipt: TransactionReceipt }> {
+  let tx!: TransactionResponse;
+  const { receipt } = await submitWithNotes(
+    store,
+    async () => {
+      tx = await signer.sendTransaction(request);
+      return { hash: tx.hash, wait: () => tx.wait() };
+    },
+    transition
+  );
+  return { tx, receipt };
+}
+
+/**
+ * sendWithNotes for transactions sent by someone else (e.g. a relayer)
+ *
+ * @param send Submits the transaction; `wait` resolves with its receipt
+ */
+export async function submitWithNotes(
+  store: NoteStore,
+  send: () => Promise<{ hash: string; wait: () => Promise<TransactionReceipt | null> }>,
+  transition: NoteTransition
+): Promise<{ txHash: string; receipt: TransactionReceipt }> {
+  const { spending, created } = transition;
+  const failureMessage = transition.failureMessage ?? "Transaction failed";
+  const withStatus = (notes: PrivateNote[], status: NoteStatus) =>
+    notes.map((n) => ({ ...n, status }));
+
+  const rollback = () => store.put(withStatus(spending, "unspent"), created);
+
+  await store.put([...withStatus(spending, "pending"), ...withStatus(created, "pending")]);
+
+  let sent: { hash: string; wait: () => Promise<TransactionReceipt | null> };
+  try {
+    sent = await send();
+  } catch (err) {
+    const error = decodeError(err);
+    // A relayer that timed out may still have broadcast the tx: keep its notes
+    if (error instanceof RelayerError && error.outcomeUnknown) {
+      throw new RelayerError(error.code, error.message, {
+        hint: "The relayer may have sent it; check the note's nullifier before retrying. Its notes stay pending until then",
+        outcomeUnknown: true,
+        cause: error,
+      });
+    }
+    await rollback();
+    throw error;
+  }
+
+  let receipt: TransactionReceipt | null;
+  try {
+    receipt = await sent.wait();
+  } catch (err) {
+    if (ethers.isError(err, "CALL_EXCEPTION")) {
+      await rollback();
+    }
+    throw decodeError(err);
+  }
+
+  if (!receipt) {
+    throw new MixvmError("UNKNOWN", failureMessage, {
+      hint: `Check transaction ${sent.hash} before retrying; its notes stay pending until then`,
+    });
+  }
+  if (receipt.status === 0) {
+    await rollback();
+    throw new ContractRevertError("REVERTED", failureMessage, { txHash: sent.hash });
+  }
+
+  const finalized = (transition.finalize ? transition.finalize(receipt) : created).map((n) => ({
+    ...n,
+    status: n.status && n.status !== "pending" ? n.status : ("unspent" as NoteStatus),
+  }));
+  await store.put([...withStatus(spending, "spent"), ...finalized]);
+  return { txHash: sent.hash, receipt };
+}
@@ -0,0 +1,146 @@
+import { Contract, Provider, ethers } from "ethers";
+import { BridgePauseState, PausableOperation } from "./types";
+import { BRIDGE_REVERTS, MixvmError, decodeError } from "./errors";
+
+/**
+ * Bridge views for the emergency pause flags
+ */
+export const PAUSE_ABI = [
+  "function pausedOperations() view returns (uint8)",
+  "function routePaused(uint32 dstEid) view returns (bool)",
+  "function guardian() view returns (address)",
+];
+
+/**
+ * PrivateLZBridge PAUSE_* bits
+ */
+export const PAUSE_BITS: Record<PausableOperation, number> = {
+  deposit: 1,
+  transfer: 2,
+  withdraw: 4,
+};
+
+/**
+ * Revert reason a paused operation fails with
+ */
+export const PAUSE_REVERTS: Record<PausableOperation, string> = {
+  deposit: "Deposits paused",
+  transfer: "Transfers paused",
+  withdraw: "Withdrawals paused",
+};
+
+export const PAUSABLE_OPERATIONS = Object.keys(PAUSE_BITS) as PausableOperation[];
+
+/**
+ * pausedOperations bits for a set of operations
+ */
+export function pauseBits(operations: PausableOperation[]): number {
+  return operations.reduce((bits, operation) => {
+    if (!(operation in PAUSE_BITS)) throw new Error(`Unknown pausable operation: ${operation}`);
+    return bits | PAUSE_BITS[operation];
+  }, 0);
+}
+
+/**
+ * Operations set in a pausedOperations value
+ */
+export function pausedFromBits(bits: number | bigint): Record<PausableOperation, boolean> {
+  const value = Number(bits);
+  return {
+    deposit: (value & PAUSE_BITS.deposit) !== 0,
+    transfer: (value & PAUSE_BITS.transfer) !== 0,
+    withdraw: (value & PAUSE_BITS.withdraw) !== 0,
+  };
+}
+
+/**
+ * State of a bridge without pause flags, and a placeholder before the first read
+ */
+export const NOT_PAUSED: BridgePauseState = {
+  supported: false,
+  paused: pausedFromBits(0),
+  pausedRoutes: [],
+  guardian: ethers.ZeroAddress,
+};
+
+/**
+ * Read a bridge's pause flags
+ *
+ * Bridges deployed before pause flags existed report supported: false and
+ * nothing paused.
+ *
+ * @param provider Bridge chain provider
+ * @param bridgeAddress PrivateLZBridge
+ * @param dstEids Destination EIDs whose route flag to read
+ * @param blockTag Block to read at (default latest)
+ */
+export async function getPauseState(
+  provider: Provider,
+  bridgeAddress: string,
+  dstEids: number[] = [],
+  blockTag?: number
+): Promise<BridgePauseState> {
+  const bridge = new Contract(bridgeAddress, PAUSE_ABI, provider);
+  const overrides = { blockTag };
+
+  let bits: bigint;
+  try {
+    bits = await bridge.pausedOperations(overrides);
+  } catch (err) {
+    if (ethers.isError(err, "CALL_EXCEPTION")) {
+      return NOT_PAUSED;
+    }
+    throw decodeError(err, "Pause state");
+  }
+
+  try {
+    const [guardian, routes] = await Promise.all([
+      bridge.guardian(overrides) as Promise<string>,
+      Promise.all(dstEids.map((eid) => bridge.routePaused(eid, overrides) as Promise<boolean>)),
+    ]);
+    return {
+      supported: true,
+      paused: pausedFromBits(bits),
+      pausedRoutes: dstEids.filter((_, i) => routes[i]),
+      guardian,
+    };
+  } catch (err) {
+    throw decodeError(err, "Pause state");
+  }
+}
+
+/**
+ * The error an operation would revert with under `state`, or undefined if it is not paused
+ *
+ * @param dstEid Destination of a transfer; its route flag must be in `state`
+ */
+export function pausedError(
+  state: BridgePauseState,
+  operation: PausableOperation,
+  dstEid?: number
+): MixvmError | undefined {
+  const revert = state.paused[operation]
+    ? PAUSE_REVERTS[operation]
+    : operation === "transfer" && dstEid !== undefined && state.pausedRoutes.includes(dstEid)
+      ? "Route paused"
+      : undefined;
+  if (!revert) return undefined;
+
+  const info = BRIDGE_REVERTS[revert];
+  const message = revert === "Route paused" ? `Transfers to EID ${dstEid} are paused` : info.message;
+  return new MixvmError(info.code, message, { hint: info.hint, retryable: info.retryable });
+}
+
+/**
+ * Throw a BRIDGE_PAUSED or ROUTE_PAUSED error if the operation is paused
+ */
+export async function assertNotPaused(
+  provider: Provider,
+  bridgeAddress: string,
+  operation: PausableOperation,
+  dstEid?: number
+): Promise<void> {
+  const state = await getPauseState(provider, bridgeAddress, dstEid === undefined ? [] : [dstEid]);
+  const error = pausedError(state, operation, dstEid);
+  if (error) throw error;
+}
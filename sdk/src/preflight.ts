@@ -0,0 +1,349 @@
+import { Contract, Provider, ethers } from "ethers";
+import { BridgeDestination, BridgePauseState, PreflightCheck, PreflightReport } from "./types";
+import { BRIDGE_REVERTS, MixvmError, MixvmErrorCode, decodeError } from "./errors";
+import { getPauseState, pausedError } from "./pause";
+
+/**
+ * Bridge views read by the pre-flight checks
+ */
+export const PREFLIGHT_ABI = [
+  "function nullifiers(bytes32) view returns (bool)",
+  "function isKnownRoot(bytes32 root) view returns (bool)",
+  "function commitmentExists(bytes32) view returns (bool)",
+  "function peers(uint32) view returns (bytes32)",
+  "function cctpDomainSet(uint32) view returns (bool)",
+  "function nextLeafIndex() view returns (uint256)",
+  "function localEid() view returns (uint32)",
+  "function usdc() view returns (address)",
+  "function MAX_TREE_SIZE() view returns (uint256)",
+];
+
+const BALANCE_OF_ABI = ["function balanceOf(address account) view returns (uint256)"];
+
+/**
+ * A pre-flight check failed; `report` has every check result
+ */
+export class PreflightError extends MixvmError {
+  readonly report: PreflightReport;
+
+  constructor(report: PreflightReport) {
+    const failed = report.checks.filter((check) => check.status === "fail");
+    const first = failed[0];
+    super(
+      first?.code ?? "UNKNOWN",
+      `${report.operation === "withdraw" ? "Withdraw" : "Transfer"} would fail: ` +
+        failed.map((check) => check.detail).join("; "),
+      { hint: first?.hint, retryable: false }
+    );
+    this.name = "PreflightError";
+    this.report = report;
+  }
+}
+
+/**
+ * Throw a PreflightError if any check failed
+ */
+export function assertPreflight(report: PreflightReport): void {
+  if (!report.ok) throw new PreflightError(report);
+}
+
+export interface WithdrawPreflightParams {
+  amount: bigint;
+  nullifier: bigint;
+  /** Root the proof will be generated against */
+  merkleRoot: bigint;
+  /** Leaf index of the note being spent, and the local tree size */
+  leafIndex: number;
+  leafCount: number;
+  /** Whether the withdraw inserts a change commitment */
+  createsChange: boolean;
+}
+
+export interface TransferPreflightParams {
+  dstEid: number;
+  amount: bigint;
+  nullifier: bigint;
+  merkleRoot: bigint;
+  leafIndex: number;
+  leafCount: number;
+  /** Recipient commitment, if already chosen */
+  recipientCommitment?: bigint;
+  destination?: BridgeDestination;
+}
+
+// ============ Check helpers ============
+
+function pass(name: PreflightCheck["name"], detail: string): PreflightCheck {
+  return { name, status: "pass", detail };
+}
+
+function skipped(name: PreflightCheck["name"], detail: string): PreflightCheck {
+  return { name, status: "skipped", detail };
+}
+
+function fail(
+  name: PreflightCheck["name"],
+  detail: string,
+  code: MixvmErrorCode,
+  hint?: string
+): PreflightCheck {
+  return { name, status: "fail", detail, code, hint };
+}
+
+/**
+ * Failed check for a condition the bridge enforces with require(..., revert)
+ */
+function failRevert(name: PreflightCheck["name"], detail: string, revert: string): PreflightCheck {
+  const info = BRIDGE_REVERTS[revert];
+  return fail(name, detail, info.code, info.hint);
+}
+
+function toBytes32(value: bigint): string {
+  return ethers.toBeHex(value, 32);
+}
+
+function report(
+  operation: PreflightReport["operation"],
+  checks: PreflightCheck[],
+  blockNumber: number
+): PreflightReport {
+  return {
+    operation,
+    ok: checks.every((check) => check.status !== "fail"),
+    checks,
+    blockNumber,
+  };
+}
+
+function checkPaused(state: BridgePauseState, operation: "withdraw" | "transfer", dstEid?: number): PreflightCheck {
+  if (!state.supported) return skipped("notPaused", "Bridge has no pause flags");
+  const error = pausedError(state, operation, dstEid);
+  return error
+    ? fail("notPaused", error.message, error.code, error.hint)
+    : pass("notPaused", `${operation === "withdraw" ? "Withdrawals" : "Transfers"} are not paused`);
+}
+
+function checkNoteInTree(leafIndex: number, leafCount: number): PreflightCheck {
+  return leafIndex >= 0 && leafIndex < leafCount
+    ? pass("noteInTree", `Note is leaf ${leafIndex} of ${leafCount}`)
+    : fail(
+        "noteInTree",
+        leafIndex < 0
+          ? "Note has no leaf index yet"
+          : `Note leaf ${leafIndex} is not in the synced tree (${leafCount} leaves)`,
+        "NOTE_NOT_IN_TREE",
+        "Wait for the note's transaction to confirm, then resync the merkle tree"
+      );
+}
+
+function checkNullifier(used: boolean): PreflightCheck {
+  return used
+    ? failRevert("nullifierUnspent", "Note has already been spent", "Nullifier already used")
+    : pass("nullifierUnspent", "Nullifier is unused");
+}
+
+function checkRoot(known: boolean): PreflightCheck {
+  return known
+    ? pass("rootKnown", "Local merkle root is in the bridge's root history")
+    : failRevert(
+        "rootKnown",
+        "Local merkle root is not in the bridge's root history",
+        "Unknown merkle root"
+      );
+}
+
+function checkLiquidity(balance: bigint, amount: bigint): PreflightCheck {
+  return balance >= amount
+    ? pass("liquidity", `Pool holds ${balance} USDC units`)
+    : failRevert(
+        "liquidity",
+        `Pool holds ${balance} USDC units, ${amount} needed`,
+        "Insufficient liquidity"
+      );
+}
+
+function checkCapacity(
+  name: "treeCapacity" | "destinationTreeCapacity",
+  nextLeafIndex: bigint,
+  maxTreeSize: bigint
+): PreflightCheck {
+  return nextLeafIndex < maxTreeSize
+    ? pass(name, `${maxTreeSize - nextLeafIndex} leaves free`)
+    : failRevert(name, "Merkle tree is full", "Tree is full");
+}
+
+// ============ Pre-flight ============
+
+/**
+ * Check a withdraw against the bridge before generating its proof
+ *
+ * Reads the pause flags, nullifiers, isKnownRoot, the pool's USDC balance
+ * and tree capacity at one block, in parallel.
+ *
+ * @param provider Source chain provider
+ * @param bridgeAddress Source PrivateLZBridge
+ * @param params Values the withdraw proof will commit to
+ */
+export async function preflightWithdraw(
+  provider: Provider,
+  bridgeAddress: string,
+  params: WithdrawPreflightParams
+): Promise<PreflightReport> {
+  try {
+    const bridge = new Contract(bridgeAddress, PREFLIGHT_ABI, provider);
+    const blockNumber = await provider.getBlockNumber();
+    const overrides = { blockTag: blockNumber };
+    const usdc = new Contract(await bridge.usdc(), BALANCE_OF_ABI, provider);
+
+    const [used, known, balance, nextLeafIndex, maxTreeSize, pauseState] = await Promise.all([
+      bridge.nullifiers(toBytes32(params.nullifier), overrides) as Promise<boolean>,
+      bridge.isKnownRoot(toBytes32(params.merkleRoot), overrides) as Promise<boolean>,
+      usdc.balanceOf(bridgeAddress, overrides) as Promise<bigint>,
+      bridge.nextLeafIndex(overrides) as Promise<bigint>,
+      bridge.MAX_TREE_SIZE(overrides) as Promise<bigint>,
+      getPauseState(provider, bridgeAddress, [], blockNumber),
+    ]);
+
+    return report(
+      "withdraw",
+      [
+        checkPaused(pauseState, "withdraw"),
+        checkNoteInTree(params.leafIndex, params.leafCount),
+        checkNullifier(used),
+        checkRoot(known),
+        checkLiquidity(balance, params.amount),
+        params.createsChange
+          ? checkCapacity("treeCapacity", nextLeafIndex, maxTreeSize)
+          : skipped("treeCapacity", "Full withdraw inserts no change note"),
+      ],
+      blockNumber
+    );
+  } catch (err) {
+    throw decodeError(err, "Withdraw preflight");
+  }
+}
+
+/**
+ * Check a cross-chain transfer against both bridges before generating its proof
+ *
+ * Source: pause flags (transfers and the dstEid route), nullifiers,
+ * isKnownRoot, peers, cctpDomainSet (skipped for LayerZero-only routes), the
+ * pool's USDC balance (burned via CCTP) and tree capacity. Destination, when given:
+ * its peer for this chain, tree capacity and commitmentExists for the
+ * recipient commitment (a duplicate makes lzReceive revert).
+ *
+ * @param provider Source chain provider
+ * @param bridgeAddress Source PrivateLZBridge
+ * @param params Values the transfer proof will commit to
+ */
+export async function preflightTransfer(
+  provider: Provider,
+  bridgeAddress: string,
+  params: TransferPreflightParams
+): Promise<PreflightReport> {
+  try {
+    const bridge = new Contract(bridgeAddress, PREFLIGHT_ABI, provider);
+    const blockNumber = await provider.getBlockNumber();
+    const overrides = { blockTag: blockNumber };
+    const usdc = new Contract(await bridge.usdc(), BALANCE_OF_ABI, provider);
+
+    const [used, known, peer, cctpDomainSet, balance, nextLeafIndex, maxTreeSize, localEid, pauseState] =
+      await Promise.all([
+        bridge.nullifiers(toBytes32(params.nullifier), overrides) as Promise<boolean>,
+        bridge.isKnownRoot(toBytes32(params.merkleRoot), overrides) as Promise<boolean>,
+        bridge.peers(params.dstEid, overrides) as Promise<string>,
+        bridge.cctpDomainSet(params.dstEid, overrides) as Promise<boolean>,
+        usdc.balanceOf(bridgeAddress, overrides) as Promise<bigint>,
+        bridge.nextLeafIndex(overrides) as Promise<bigint>,
+        bridge.MAX_TREE_SIZE(overrides) as Promise<bigint>,
+        bridge.localEid(overrides) as Promise<bigint>,
+        getPauseState(provider, bridgeAddress, [params.dstEid], blockNumber),
+      ]);
+
+    const checks: PreflightCheck[] = [
+      checkPaused(pauseState, "transfer", params.dstEid),
+      checkNoteInTree(params.leafIndex, params.leafCount),
+      checkNullifier(used),
+      checkRoot(known),
+      peer === ethers.ZeroHash
+        ? failRevert("peerSet", `No peer set for EID ${params.dstEid}`, "Peer not set")
+        : pass("peerSet", `Peer for EID ${params.dstEid} is ${peer}`),
+      // Without a CCTP domain the bridge sends the commitment over LayerZero only
+      cctpDomainSet
+        ? pass("cctpDomainSet", `CCTP domain set for EID ${params.dstEid}`)
+        : skipped("cctpDomainSet", `No CCTP domain set for EID ${params.dstEid}; the route is LayerZero only`),
+      cctpDomainSet
+        ? checkLiquidity(balance, params.amount)
+        : skipped("liquidity", "No CCTP burn without a CCTP domain"),
+      checkCapacity("treeCapacity", nextLeafIndex, maxTreeSize),
+    ];
+
+    checks.push(...(await checkDestination(params, bridgeAddress, peer, Number(localEid))));
+    return report("transfer", checks, blockNumber);
+  } catch (err) {
+    throw decodeError(err, "Transfer preflight");
+  }
+}
+
+/**
+ * Destination-side checks; skipped when no destination bridge is known
+ */
+async function checkDestination(
+  params: TransferPreflightParams,
+  sourceBridge: string,
+  sourcePeer: string,
+  localEid: number
+): Promise<PreflightCheck[]> {
+  const { destination, recipientCommitment } = params;
+  if (!destination) {
+    const detail = `No destination bridge configured for EID ${params.dstEid}`;
+    return [
+      skipped("destinationPeer", detail),
+      skipped("destinationTreeCapacity", detail),
+      skipped("recipientCommitmentUnused", detail),
+    ];
+  }
+
+  const dst = new Contract(destination.bridgeAddress, PREFLIGHT_ABI, destination.provider);
+  const [dstPeer, nextLeafIndex, maxTreeSize, exists] = await Promise.all([
+    dst.peers(localEid) as Promise<string>,
+    dst.nextLeafIndex() as Promise<bigint>,
+    dst.MAX_TREE_SIZE() as Promise<bigint>,
+    recipientCommitment === undefined
+      ? Promise.resolve(undefined)
+      : (dst.commitmentExists(toBytes32(recipientCommitment)) as Promise<boolean>),
+  ]);
+
+  const expectedDstPeer = ethers.zeroPadValue(sourceBridge, 32).toLowerCase();
+  const expectedSourcePeer = ethers.zeroPadValue(destination.bridgeAddress, 32).toLowerCase();
+  let peerCheck: PreflightCheck;
+  if (sourcePeer !== ethers.ZeroHash && sourcePeer.toLowerCase() !== expectedSourcePeer) {
+    peerCheck = failRevert(
+      "destinationPeer",
+      `Source peer for EID ${params.dstEid} is ${sourcePeer}, not ${destination.bridgeAddress}`,
+      "Invalid peer"
+    );
+  } else if (dstPeer.toLowerCase() !== expectedDstPeer) {
+    peerCheck = failRevert(
+      "destinationPeer",
+      `Destination peer for EID ${localEid} is ${dstPeer}, not this bridge`,
+      "Invalid peer"
+    );
+  } else {
+    peerCheck = pass("destinationPeer", `Destination accepts messages from EID ${localEid}`);
+  }
+
+  return [
+    peerCheck,
+    checkCapacity("destinationTreeCapacity", nextLeafIndex, maxTreeSize),
+    exists === undefined
+      ? skipped("recipientCommitmentUnused", "Recipient commitment not chosen yet")
+      : exists
+        ? failRevert(
+            "recipientCommitmentUnused",
+            "Recipient commitment already exists on the destination",
+            "Commitment exists"
+          )
+        : pass("recipientCommitmentUnused", "Recipient commitment is unused on the destination"),
+  ];
+}
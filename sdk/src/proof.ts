@@ -1,51 +1,94 @@
 import * as snarkjs from "snarkjs";
 import * as fs from "fs";
-import { ProofData, CircuitPaths } from "./types";
+import {
+  ProofData,
+  CircuitPaths,
+  CircuitInputs,
+  CircuitName,
+  Groth16Proof,
+  PackedProof,
+  Prover,
+} from "./types";
+import { decodeError, ProofError } from "./errors";
+import { SnarkjsProver } from "./prover";
+
+// Parsed verification keys by path
+const verificationKeys = new Map<string, Promise<unknown>>();
+
+/**
+ * Load and cache a verification key
+ */
+export function loadVerificationKey(vkeyPath: string): Promise<unknown> {
+  let vkey = verificationKeys.get(vkeyPath);
+  if (!vkey) {
+    vkey = fs.promises.readFile(vkeyPath, "utf8").then((json) => JSON.parse(json));
+    vkey.catch(() => verificationKeys.delete(vkeyPath));
+    verificationKeys.set(vkeyPath, vkey);
+  }
+  return vkey;
+}
+
+/**
+ * Verify a Groth16 proof against a verification key file
+ */
+export async function verifyProofLocally(
+  vkeyPath: string,
+  publicSignals: string[],
+  proof: Groth16Proof
+): Promise<boolean> {
+  return snarkjs.groth16.verify(await loadVerificationKey(vkeyPath), publicSignals, proof);
+}
 
 /**
  * Proof generator for ZK circuits
+ *
+ * Proving is delegated to a Prover (in-process snarkjs by default); every
+ * proof is verified locally before it is returned.
  */
 export class ProofGenerator {
   private circuitPaths: CircuitPaths;
+  private prover: Prover;
 
-  constructor(circuitPaths: CircuitPaths) {
+  constructor(circuitPaths: CircuitPaths, prover?: Prover) {
     this.circuitPaths = circuitPaths;
+    this.prover = prover ?? new SnarkjsProver(circuitPaths);
+  }
+
+  /**
+   * Release the prover's resources (worker threads etc.)
+   */
+  async close(): Promise<void> {
+    await this.prover.close?.();
   }
 
   /**
    * Generate a transfer proof
+   *
+   * refundCommitment, cctpFee, relayer, relayerFee and refundRandomness are
+   * inputs of the PrivateLZBridge circuit (bridge_transfer) only, and
+   * senderNullifierSecret of the PrivateUSDC one (private_transfer) only.
    */
   async generateTransferProof(inputs: {
     merkleRoot: string;
     nullifier: string;
     newSenderCommitment: string;
     recipientCommitment: string;
+    refundCommitment?: string;
     senderBalance: string;
     senderRandomness: string;
-    senderNullifierSecret: string;
+    senderNullifierSecret?: string;
     transferAmount: string;
+    cctpFee?: string;
+    /** Relayer address as a decimal field element; "0" when the sender submits */
+    relayer?: string;
+    relayerFee?: string;
     newSenderRandomness: string;
     recipientRandomness: string;
+    refundRandomness?: string;
     merklePathElements: string[];
     merklePathIndices: string[];
   }): Promise<{ proofData: ProofData; publicSignals: string[] }> {
-    const { proof, publicSignals } = await snarkjs.groth16.fullProve(
-      inputs,
-      this.circuitPaths.transferWasm,
-      this.circuitPaths.transferZkey
-    );
-
-    // Verify locally
-    const vkey = JSON.parse(
-      fs.readFileSync(this.circuitPaths.transferVkey, "utf8")
-    );
-    const valid = await snarkjs.groth16.verify(vkey, publicSignals, proof);
-    if (!valid) {
-      throw new Error("Transfer proof verification failed locally");
-    }
-
-    const proofData = this.formatProofForContract(proof, publicSignals);
-    return { proofData, publicSignals };
+    return this.prove("transfer", inputs, this.circuitPaths.transferVkey, "Transfer");
   }
 
   /**
@@ -64,19 +107,37 @@ export class ProofGenerator {
     merklePathElements: string[];
     merklePathIndices: string[];
   }): Promise<{ proofData: ProofData; publicSignals: string[] }> {
-    const { proof, publicSignals } = await snarkjs.groth16.fullProve(
-      inputs,
-      this.circuitPaths.withdrawWasm,
-      this.circuitPaths.withdrawZkey
-    );
-
-    // Verify locally
-    const vkey = JSON.parse(
-      fs.readFileSync(this.circuitPaths.withdrawVkey, "utf8")
-    );
-    const valid = await snarkjs.groth16.verify(vkey, publicSignals, proof);
+    return this.prove("withdraw", inputs, this.circuitPaths.withdrawVkey, "Withdraw");
+  }
+
+  /**
+   * Generate and locally verify a proof
+   *
+   * Prover failures are rethrown as ProofError with a code and hint.
+   */
+  private async prove(
+    circuit: CircuitName,
+    inputs: CircuitInputs,
+    vkeyPath: string,
+    label: string
+  ): Promise<{ proofData: ProofData; publicSignals: string[] }> {
+    let proof: Groth16Proof;
+    let publicSignals: string[];
+    let valid: boolean;
+    try {
+      ({ proof, publicSignals } = await this.prover.prove(circuit, inputs));
+      valid = await verifyProofLocally(vkeyPath, publicSignals, proof);
+    } catch (err) {
+      const decoded = decodeError(err, `${label} proof generation`);
+      throw decoded.code === "UNKNOWN"
+        ? new ProofError("PROOF_FAILED", decoded.message, { retryable: true, cause: err })
+        : decoded;
+    }
+
     if (!valid) {
-      throw new Error("Withdraw proof verification failed locally");
+      throw new ProofError("PROOF_INVALID_LOCALLY", `${label} proof verification failed locally`, {
+        hint: "Check that the zkey and verification key come from the same circuit build",
+      });
     }
 
     const proofData = this.formatProofForContract(proof, publicSignals);
@@ -87,7 +148,7 @@ export class ProofGenerator {
    * Format proof for Solidity contract
    */
   private formatProofForContract(
-    proof: snarkjs.Groth16Proof,
+    proof: Groth16Proof,
     publicSignals: string[]
   ): ProofData {
     return {
@@ -105,7 +166,7 @@ export class ProofGenerator {
    * Export proof as Solidity calldata string
    */
   async exportSolidityCalldata(
-    proof: snarkjs.Groth16Proof,
+    proof: Groth16Proof,
     publicSignals: string[]
   ): Promise<string> {
     return await snarkjs.groth16.exportSolidityCallData(proof, publicSignals);
@@ -128,3 +189,19 @@ export function parseCalldata(calldata: string): ProofData {
     publicSignals: parsed[3].map((s: string) => BigInt(s)),
   };
 }
+
+/**
+ * Pack ProofData into the uint256[8] layout used by PrivateLZBridge
+ */
+export function packProof(proofData: ProofData): PackedProof {
+  return [
+    proofData.pA[0],
+    proofData.pA[1],
+    proofData.pB[0][0],
+    proofData.pB[0][1],
+    proofData.pB[1][0],
+    proofData.pB[1][1],
+    proofData.pC[0],
+    proofData.pC[1],
+  ];
+}
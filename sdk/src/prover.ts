@@ -0,0 +1,384 @@
+import * as snarkjs from "snarkjs";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { execFile } from "child_process";
+import { Worker } from "worker_threads";
+import { FetchRequest } from "ethers";
+import { CircuitInputs, CircuitName, CircuitPaths, Groth16Proof, Prover } from "./types";
+import { ProofError, WorkerError } from "./errors";
+import { calculateWitness, circuitFiles } from "./witness";
+
+type ProveResult = { proof: Groth16Proof; publicSignals: string[] };
+
+// =============================================================
+// In-process snarkjs
+// =============================================================
+
+/**
+ * snarkjs on the calling thread
+ *
+ * Simplest backend; proving blocks the event loop for the duration.
+ */
+export class SnarkjsProver implements Prover {
+  private circuitPaths: CircuitPaths;
+
+  constructor(circuitPaths: CircuitPaths) {
+    this.circuitPaths = circuitPaths;
+  }
+
+  async prove(circuit: CircuitName, inputs: CircuitInputs): Promise<ProveResult> {
+    const files = circuitFiles(this.circuitPaths, circuit);
+    const witness = await calculateWitness(files.wasm, inputs);
+    return snarkjs.groth16.prove(files.zkey, { type: "mem", data: witness });
+  }
+}
+
+// =============================================================
+// worker_threads pool
+// =============================================================
+
+export interface WorkerPoolProverOptions {
+  /** Number of worker threads (default: CPU count - 1, at least 1) */
+  size?: number;
+  /** Per-proof timeout; the worker is replaced when it expires (default 120s) */
+  timeoutMs?: number;
+  /** Circuits whose wasm and zkey each worker loads at startup */
+  preload?: CircuitName[];
+}
+
+interface PoolJob {
+  id: number;
+  circuit: CircuitName;
+  inputs: CircuitInputs;
+  resolve: (result: ProveResult) => void;
+  reject: (err: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  job?: PoolJob;
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * Resolve the worker entry next to this module (.js when built, .ts under ts-node)
+ */
+function workerEntry(): { file: string; execArgv?: string[] } {
+  const js = path.join(__dirname, "proverWorker.js");
+  if (fs.existsSync(js)) return { file: js };
+  return {
+    file: path.join(__dirname, "proverWorker.ts"),
+    execArgv: ["--require", "ts-node/register"],
+  };
+}
+
+/**
+ * Pool of worker_threads that keep circuit wasm and zkeys in memory
+ *
+ * Proofs run in parallel up to the pool size; further requests queue.
+ * Idle workers do not keep the process alive. Call close() when done.
+ *
+ * @example
+ * ```typescript
+ * const prover = new WorkerPoolProver(circuitPaths, { size: 4, preload: ["withdraw"] });
+ * const bridge = new PrivateLZBridgeClient({ provider, signer, bridgeAddress, circuitPaths, prover });
+ * ```
+ */
+export class WorkerPoolProver implements Prover {
+  private circuitPaths: CircuitPaths;
+  private size: number;
+  private timeoutMs: number;
+  private preload: CircuitName[];
+  private workers: PoolWorker[] = [];
+  private queue: PoolJob[] = [];
+  private nextJobId = 0;
+  private closed = false;
+
+  constructor(circuitPaths: CircuitPaths, options: WorkerPoolProverOptions = {}) {
+    this.circuitPaths = circuitPaths;
+    this.size = Math.max(1, options.size ?? os.cpus().length - 1);
+    this.timeoutMs = options.timeoutMs ?? 120000;
+    this.preload = options.preload ?? [];
+  }
+
+  prove(circuit: CircuitName, inputs: CircuitInputs): Promise<ProveResult> {
+    if (this.closed) {
+      return Promise.reject(new WorkerError("Prover pool is closed"));
+    }
+    return new Promise<ProveResult>((resolve, reject) => {
+      this.queue.push({ id: this.nextJobId++, circuit, inputs, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Terminate all workers and reject queued proofs
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    for (const job of this.queue.splice(0)) {
+      job.reject(new WorkerError("Prover pool closed before the proof started"));
+    }
+    const workers = this.workers.splice(0);
+    for (const entry of workers) {
+      const job = entry.job;
+      this.finish(entry);
+      job?.reject(new WorkerError("Prover pool closed during the proof"));
+    }
+    await Promise.all(workers.map((entry) => entry.worker.terminate()));
+  }
+
+  /**
+   * Number of proofs running and waiting
+   */
+  getStatus(): { workers: number; busy: number; queued: number } {
+    return {
+      workers: this.workers.length,
+      busy: this.workers.filter((entry) => entry.job).length,
+      queued: this.queue.length,
+    };
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      let entry = this.workers.find((w) => !w.job);
+      if (!entry) {
+        if (this.workers.length >= this.size) return;
+        entry = this.spawn();
+      }
+      this.start(entry, this.queue.shift()!);
+    }
+  }
+
+  private spawn(): PoolWorker {
+    const { file, execArgv } = workerEntry();
+    const worker = new Worker(file, {
+      execArgv,
+      // `mod` is read by the web-worker shim that ffjavascript loads in any
+      // non-main thread; pointing it at this entry makes its require() a no-op
+      workerData: { mod: file, circuitPaths: this.circuitPaths, preload: this.preload },
+    });
+    const entry: PoolWorker = { worker };
+
+    worker.on("message", (msg: { id: number; result?: ProveResult; error?: string }) => {
+      const job = entry.job;
+      if (!job || job.id !== msg.id) return;
+      this.finish(entry);
+      if (msg.error !== undefined) {
+        // Keep the snarkjs message so decodeError can classify it
+        job.reject(new Error(msg.error));
+      } else {
+        job.resolve(msg.result!);
+      }
+      this.dispatch();
+    });
+    worker.on("error", (err: Error) =>
+      this.replace(entry, new WorkerError(`Proof worker crashed: ${err.message}`, { cause: err }))
+    );
+    worker.on("exit", (code) =>
+      this.replace(entry, new WorkerError(`Proof worker exited with code ${code}`))
+    );
+
+    worker.unref();
+    this.workers.push(entry);
+    return entry;
+  }
+
+  private start(entry: PoolWorker, job: PoolJob): void {
+    entry.job = job;
+    entry.worker.ref();
+    entry.timer = setTimeout(() => {
+      this.replace(
+        entry,
+        new ProofError("PROOF_TIMEOUT", `Proof generation timed out (${this.timeoutMs / 1000}s)`, {
+          hint: "Retry with a smaller pool or a longer timeout",
+          retryable: true,
+        })
+      );
+      void entry.worker.terminate();
+    }, this.timeoutMs);
+    entry.worker.postMessage({ id: job.id, circuit: job.circuit, inputs: job.inputs });
+  }
+
+  private finish(entry: PoolWorker): void {
+    if (entry.timer) clearTimeout(entry.timer);
+    entry.timer = undefined;
+    entry.job = undefined;
+    entry.worker.unref();
+  }
+
+  /**
+   * Drop a dead or stuck worker, fail its proof and keep the queue moving
+   */
+  private replace(entry: PoolWorker, err: Error): void {
+    const index = this.workers.indexOf(entry);
+    if (index === -1) return;
+    this.workers.splice(index, 1);
+
+    const job = entry.job;
+    this.finish(entry);
+    job?.reject(err);
+    if (!this.closed) this.dispatch();
+  }
+}
+
+// =============================================================
+// rapidsnark
+// =============================================================
+
+export interface RapidsnarkProverOptions {
+  /** rapidsnark prover binary (default: "prover" on PATH) */
+  binaryPath?: string;
+  /** Directory for witness and proof files (default: OS temp dir) */
+  tmpDir?: string;
+  timeoutMs?: number;
+}
+
+/**
+ * Native rapidsnark prover
+ *
+ * Writes the witness to a temp file and runs
+ * `prover <zkey> <wtns> <proof.json> <public.json>`.
+ */
+export class RapidsnarkProver implements Prover {
+  private circuitPaths: CircuitPaths;
+  private binaryPath: string;
+  private tmpDir: string;
+  private timeoutMs: number;
+
+  constructor(circuitPaths: CircuitPaths, options: RapidsnarkProverOptions = {}) {
+    this.circuitPaths = circuitPaths;
+    this.binaryPath = options.binaryPath ?? "prover";
+    this.tmpDir = options.tmpDir ?? os.tmpdir();
+    this.timeoutMs = options.timeoutMs ?? 120000;
+  }
+
+  async prove(circuit: CircuitName, inputs: CircuitInputs): Promise<ProveResult> {
+    const files = circuitFiles(this.circuitPaths, circuit);
+    const witness = await calculateWitness(files.wasm, inputs);
+
+    const dir = await fs.promises.mkdtemp(path.join(this.tmpDir, "mixvm-rapidsnark-"));
+    try {
+      const wtnsPath = path.join(dir, "witness.wtns");
+      const proofPath = path.join(dir, "proof.json");
+      const publicPath = path.join(dir, "public.json");
+      await fs.promises.writeFile(wtnsPath, witness, { mode: 0o600 });
+
+      await this.run([files.zkey, wtnsPath, proofPath, publicPath]);
+
+      const [proof, publicSignals] = await Promise.all([
+        fs.promises.readFile(proofPath, "utf8").then((json) => JSON.parse(json) as Groth16Proof),
+        fs.promises.readFile(publicPath, "utf8").then((json) => JSON.parse(json) as string[]),
+      ]);
+      return { proof, publicSignals };
+    } finally {
+      await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  private run(args: string[]): Promise<void> {
+    return new Promise((resolve, reject) => {
+      execFile(this.binaryPath, args, { timeout: this.timeoutMs }, (err, _stdout, stderr) => {
+        if (!err) return resolve();
+
+        const code = (err as NodeJS.ErrnoException).code;
+        if (code === "ENOENT") {
+          reject(
+            new ProofError("PROOF_FAILED", `rapidsnark binary not found: ${this.binaryPath}`, {
+              hint: "Install rapidsnark or set binaryPath",
+              cause: err,
+            })
+          );
+        } else if ((err as { killed?: boolean }).killed) {
+          reject(
+            new ProofError("PROOF_TIMEOUT", `rapidsnark timed out (${this.timeoutMs / 1000}s)`, {
+              retryable: true,
+              cause: err,
+            })
+          );
+        } else {
+          reject(
+            new ProofError("PROOF_FAILED", `rapidsnark failed: ${stderr.trim() || err.message}`, {
+              retryable: true,
+              cause: err,
+            })
+          );
+        }
+      });
+    });
+  }
+}
+
+// =============================================================
+// Remote prover
+// =============================================================
+
+export interface RemoteProverOptions {
+  /** Extra request headers (e.g. an API key) */
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+}
+
+/**
+ * HTTP client for a remote proving service
+ *
+ * The witness is computed locally and sent as
+ * `POST {url}/prove {"circuit", "witness": <base64 .wtns>}`; the service
+ * answers `{"proof", "publicSignals"}`. The witness contains the note's
+ * secrets, so only use a prover you trust, over HTTPS.
+ */
+export class RemoteProver implements Prover {
+  private circuitPaths: CircuitPaths;
+  private url: string;
+  private headers: Record<string, string>;
+  private timeoutMs: number;
+
+  constructor(url: string, circuitPaths: CircuitPaths, options: RemoteProverOptions = {}) {
+    this.url = url.replace(/\/+$/, "");
+    this.circuitPaths = circuitPaths;
+    this.headers = options.headers ?? {};
+    this.timeoutMs = options.timeoutMs ?? 120000;
+  }
+
+  async prove(circuit: CircuitName, inputs: CircuitInputs): Promise<ProveResult> {
+    const { wasm } = circuitFiles(this.circuitPaths, circuit);
+    const witness = await calculateWitness(wasm, inputs);
+
+    const request = new FetchRequest(`${this.url}/prove`);
+    request.method = "POST";
+    request.timeout = this.timeoutMs;
+    request.setThrottleParams({ maxAttempts: 1 });
+    request.setHeader("content-type", "application/json");
+    for (const [name, value] of Object.entries(this.headers)) {
+      request.setHeader(name, value);
+    }
+    request.body = JSON.stringify({ circuit, witness: Buffer.from(witness).toString("base64") });
+
+    let response;
+    try {
+      response = await request.send();
+    } catch (err) {
+      const timedOut = (err as { code?: string }).code === "TIMEOUT";
+      throw new ProofError(
+        timedOut ? "PROOF_TIMEOUT" : "PROOF_FAILED",
+        timedOut ? `Remote prover timed out (${this.timeoutMs / 1000}s)` : `Remote prover unreachable: ${this.url}`,
+        { hint: "Check the prover URL and that the service is running", retryable: true, cause: err }
+      );
+    }
+
+    if (!response.ok()) {
+      throw new ProofError(
+        "PROOF_FAILED",
+        `Remote prover returned ${response.statusCode}: ${response.bodyText || response.statusMessage}`,
+        { retryable: response.statusCode >= 500 || response.statusCode === 429 }
+      );
+    }
+
+    const body = response.bodyJson as Partial<ProveResult>;
+    if (!body?.proof || !Array.isArray(body.publicSignals)) {
+      throw new ProofError("PROOF_FAILED", "Remote prover returned no proof");
+    }
+    return { proof: body.proof, publicSignals: body.publicSignals };
+  }
+}
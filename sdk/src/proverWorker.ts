@@ -0,0 +1,54 @@
+/**
+ * worker_threads entry for WorkerPoolProver
+ *
+ * Reads each circuit's wasm and zkey once and proves from memory.
+ */
+
+import * as snarkjs from "snarkjs";
+import * as fs from "fs";
+import { parentPort, workerData } from "worker_threads";
+import { CircuitInputs, CircuitName, CircuitPaths } from "./types";
+import { calculateWitness, circuitFiles } from "./witness";
+
+interface LoadedCircuit {
+  wasm: Uint8Array;
+  zkey: Uint8Array;
+}
+
+const { circuitPaths, preload } = workerData as { circuitPaths: CircuitPaths; preload: CircuitName[] };
+const loaded = new Map<CircuitName, Promise<LoadedCircuit>>();
+
+function load(circuit: CircuitName): Promise<LoadedCircuit> {
+  let entry = loaded.get(circuit);
+  if (!entry) {
+    const files = circuitFiles(circuitPaths, circuit);
+    entry = Promise.all([fs.promises.readFile(files.wasm), fs.promises.readFile(files.zkey)]).then(
+      ([wasm, zkey]) => ({ wasm, zkey })
+    );
+    // Retry the read on the next proof if it failed
+    entry.catch(() => loaded.delete(circuit));
+    loaded.set(circuit, entry);
+  }
+  return entry;
+}
+
+for (const circuit of preload) {
+  load(circuit).catch(() => undefined);
+}
+
+parentPort!.on("message", async (msg: { id: number; circuit: CircuitName; inputs: CircuitInputs }) => {
+  try {
+    const { wasm, zkey } = await load(msg.circuit);
+    const witness = await calculateWitness(wasm, msg.inputs);
+    // The pool provides the parallelism; ffjavascript cannot spawn threads from a worker
+    const result = await snarkjs.groth16.prove(
+      { type: "mem", data: zkey },
+      { type: "mem", data: witness },
+      undefined,
+      { singleThread: true }
+    );
+    parentPort!.postMessage({ id: msg.id, result });
+  } catch (err) {
+    parentPort!.postMessage({ id: msg.id, error: err instanceof Error ? err.message : String(err) });
+  }
+});
@@ -0,0 +1,181 @@
+import { FetchRequest, ethers } from "ethers";
+import {
+  RelayedTransferRequest,
+  RelayedWithdrawRequest,
+  RelayerQuote,
+  RelayerServiceStatus,
+} from "./types";
+import { MixvmErrorCode, RelayerError } from "./errors";
+
+/** Bit 160, set in every binding (PrivateLZBridge.RELAYER_BINDING_TAG) */
+export const RELAYER_BINDING_TAG = 1n << 160n;
+
+/**
+ * Value a relayed withdraw proves as its recipientAddress input
+ *
+ * Same as PrivateLZBridge.relayerBinding: the low 160 bits of
+ * keccak256(abi.encode(recipient, relayer, fee)), tagged with bit 160 so the
+ * proof cannot be submitted through a plain withdraw().
+ */
+export function relayerFeeBinding(recipient: string, relayer: string, fee: bigint): bigint {
+  const hash = ethers.keccak256(
+    ethers.AbiCoder.defaultAbiCoder().encode(["address", "address", "uint256"], [recipient, relayer, fee])
+  );
+  return (BigInt(hash) & ((1n << 160n) - 1n)) | RELAYER_BINDING_TAG;
+}
+
+/**
+ * HTTP client for a relayer service (see relayer/ in the repo)
+ *
+ * The relayer submits withdrawViaRelayer and initiateTransferViaRelayer for
+ * the user, so no address of theirs needs gas or the LayerZero fee. Its fee is
+ * bound into the proof; the relayer can only submit the call as proven or not
+ * at all.
+ *
+ * @example
+ * ```typescript
+ * const relayer = new RelayerClient("https://relayer.example.com");
+ * await bridge.withdraw(amount, note, recipient, { relayer });
+ * await bridge.initiateTransfer({ dstEid, amount, note, relayer });
+ * ```
+ */
+export class RelayerClient {
+  readonly url: string;
+  private timeoutMs: number;
+
+  constructor(url: string, options: { timeoutMs?: number } = {}) {
+    this.url = url.replace(/\/+$/, "");
+    this.timeoutMs = options.timeoutMs ?? 15_000;
+  }
+
+  /**
+   * Service health and the chains it submits on
+   */
+  async status(): Promise<RelayerServiceStatus> {
+    // /health answers 503 with a body when unhealthy; that is still a status
+    const body = await this.request("GET", "/health", undefined, [503]);
+    return {
+      healthy: Boolean(body.healthy),
+      submit: (body.submit ?? []).map((chain: any) => ({
+        chainId: Number(chain.chainId),
+        name: String(chain.name),
+        bridge: String(chain.bridge),
+        relayer: String(chain.relayer),
+        transfers: Boolean(chain.transfers),
+      })),
+    };
+  }
+
+  /**
+   * Fee for withdrawing `amount` through this relayer, or for a transfer to
+   * `dstEid` taking `amount` from the note
+   *
+   * @param chainId Chain the withdraw or transfer runs on
+   * @param amount Amount withdrawn or taken from the note (the fee comes out of it)
+   * @param dstEid Destination of a transfer; unset for withdraws
+   */
+  async quote(chainId: number, amount: bigint, dstEid?: number): Promise<RelayerQuote> {
+    const transfer = dstEid === undefined ? "" : `&dstEid=${dstEid}`;
+    const body = await this.request("GET", `/quote?chainId=${chainId}&amount=${amount}${transfer}`);
+    return {
+      chainId: Number(body.chainId),
+      bridge: String(body.bridge),
+      relayer: String(body.relayer),
+      dstEid: body.dstEid === undefined ? undefined : Number(body.dstEid),
+      amount: BigInt(body.amount),
+      fee: BigInt(body.fee),
+    };
+  }
+
+  /**
+   * Hand a proven withdrawViaRelayer call to the relayer
+   *
+   * The relayer simulates it before sending; a call that would revert comes
+   * back as the revert's error code.
+   *
+   * @returns Hash of the submitted transaction (not yet mined)
+   */
+  async submitWithdraw(request: RelayedWithdrawRequest): Promise<string> {
+    const body = await this.request("POST", "/withdraw", {
+      ...request,
+      fee: request.fee.toString(),
+      amount: request.amount.toString(),
+      proof: request.proof.map((p) => p.toString()),
+    });
+    return String(body.txHash);
+  }
+
+  /**
+   * Hand a proven initiateTransferViaRelayer call to the relayer
+   *
+   * The relayer pays the LayerZero fee and simulates the call before sending;
+   * a call that would revert comes back as the revert's error code.
+   *
+   * @returns Hash of the submitted transaction (not yet mined)
+   */
+  async submitTransfer(request: RelayedTransferRequest): Promise<string> {
+    // Every bigint, nested ones included, goes as a decimal string
+    const json = JSON.stringify(request, (_, value) => (typeof value === "bigint" ? value.toString() : value));
+    const body = await this.request("POST", "/transfer", JSON.parse(json));
+    return String(body.txHash);
+  }
+
+  private async request(method: string, path: string, body?: unknown, okStatuses: number[] = []): Promise<any> {
+    const request = new FetchRequest(`${this.url}${path}`);
+    request.method = method;
+    request.timeout = this.timeoutMs;
+    request.setThrottleParams({ maxAttempts: 1 });
+    if (body !== undefined) {
+      request.setHeader("Content-Type", "application/json");
+      request.body = JSON.stringify(body);
+    }
+
+    // Without an answer, or with a server error, a POST may still have been acted on
+    let response;
+    try {
+      response = await request.send();
+    } catch (err) {
+      throw new RelayerError(
+        "RELAYER_UNAVAILABLE",
+        `Relayer request failed: ${err instanceof Error ? err.message : String(err)}`,
+        {
+          hint: "Check the relayer URL, or withdraw from your own wallet",
+          retryable: true,
+          outcomeUnknown: true,
+          cause: err,
+        }
+      );
+    }
+
+    let json: any;
+    try {
+      json = response.bodyJson;
+    } catch {
+      json = undefined;
+    }
+    if (response.ok() || okStatuses.includes(response.statusCode)) {
+      if (json === undefined) {
+        throw new RelayerError("RELAYER_UNAVAILABLE", `Relayer returned a non-JSON response to ${path}`, {
+          hint: "Check the relayer URL",
+          outcomeUnknown: true,
+        });
+      }
+      return json;
+    }
+
+    // Errors carry { error: { code, message, hint, retryable } }
+    const error = json?.error;
+    if (response.statusCode >= 500 && !error) {
+      throw new RelayerError("RELAYER_UNAVAILABLE", `Relayer returned ${response.statusCode}: ${response.statusMessage}`, {
+        hint: "Retry later, or withdraw from your own wallet",
+        retryable: true,
+        outcomeUnknown: true,
+      });
+    }
+    throw new RelayerError(
+      (error?.code as MixvmErrorCode) ?? "RELAYER_REJECTED",
+      error?.message ?? `Relayer returned ${response.statusCode}: ${response.statusMessage}`,
+      { hint: error?.hint, retryable: Boolean(error?.retryable), outcomeUnknown: response.statusCode >= 500 }
+    );
+  }
+}
@@ -0,0 +1,323 @@
+import {
+  FetchRequest,
+  Interface,
+  JsonRpcApiProvider,
+  JsonRpcPayload,
+  JsonRpcResult,
+  JsonRpcError,
+  Network,
+} from "ethers";
+import { RpcEndpointStatus, RpcPoolOptions } from "./types";
+import { MixvmError } from "./errors";
+
+// JSON-RPC error codes / messages that mean "slow down". -32005 is not listed:
+// providers also use it for "range too large", which fetchLogs handles.
+const RATE_LIMITED = /rate.?limit|too many requests|exceeded .*(quota|capacity)|throttl/i;
+const RATE_LIMIT_CODES = new Set([429, -32029]);
+
+const ROOT_IFACE = new Interface(["function getLastRoot() view returns (bytes32)"]);
+
+/**
+ * No endpoint in the pool could serve a request
+ */
+export class RpcPoolError extends MixvmError {
+  readonly errors: { url: string; error: string }[];
+
+  constructor(message: string, errors: { url: string; error: string }[] = []) {
+    super(
+      "RPC_UNAVAILABLE",
+      errors.length > 0
+        ? `${message}: ${errors.map((e) => `${e.url} (${e.error})`).join(", ")}`
+        : message,
+      { hint: "Retry, or add another RPC endpoint for this chain", retryable: true }
+    );
+    this.name = "RpcPoolError";
+    this.errors = errors;
+  }
+}
+
+class RateLimitedError extends Error {}
+
+interface Endpoint extends RpcEndpointStatus {
+  consecutiveFailures: number;
+}
+
+/**
+ * Provider backed by several RPC endpoints for one chain
+ *
+ * Requests go to the healthiest endpoint and fail over to the next one on
+ * transport errors or rate limiting. Rate-limited and failing endpoints are
+ * backed off exponentially. JSON-RPC errors (reverts, bad params) are
+ * returned as-is since another endpoint would answer the same.
+ *
+ * Use quorumCall()/getLastRoot() for values that must not come from a
+ * single lagging or misbehaving node.
+ *
+ * @example
+ * ```typescript
+ * const provider = new RpcPool(84532, [
+ *   "https://sepolia.base.org",
+ *   "https://base-sepolia-rpc.publicnode.com",
+ * ]);
+ * const root = await provider.getLastRoot(bridgeAddress);
+ * ```
+ */
+export class RpcPool extends JsonRpcApiProvider {
+  readonly chainId: number;
+  private endpoints: Endpoint[];
+  private timeoutMs: number;
+  private baseBackoffMs: number;
+  private maxBackoffMs: number;
+  private maxBlockLag: number;
+  private healthTimer?: ReturnType<typeof setInterval>;
+
+  constructor(chainId: number, urls: string[], options: RpcPoolOptions = {}) {
+    if (urls.length === 0) {
+      throw new Error(`No RPC endpoints configured for chain ${chainId}`);
+    }
+    const network = Network.from(chainId);
+    super(network, { staticNetwork: network, batchMaxCount: 1 });
+
+    this.chainId = chainId;
+    this.endpoints = [...new Set(urls)].map((url) => ({
+      url,
+      healthy: true,
+      failures: 0,
+      consecutiveFailures: 0,
+      backoffUntil: 0,
+    }));
+    this.timeoutMs = options.timeoutMs ?? 10000;
+    this.baseBackoffMs = options.baseBackoffMs ?? 1000;
+    this.maxBackoffMs = options.maxBackoffMs ?? 60000;
+    this.maxBlockLag = options.maxBlockLag ?? 10;
+
+    if (options.healthCheckIntervalMs) {
+      this.startHealthChecks(options.healthCheckIntervalMs);
+    }
+  }
+
+  /**
+   * Endpoints in the order they will be tried
+   */
+  private ranked(): Endpoint[] {
+    const now = Date.now();
+    return [...this.endpoints].sort((a, b) => {
+      const aReady = a.healthy && a.backoffUntil <= now ? 0 : 1;
+      const bReady = b.healthy && b.backoffUntil <= now ? 0 : 1;
+      if (aReady !== bReady) return aReady - bReady;
+      if (aReady === 1) return a.backoffUntil - b.backoffUntil;
+      return (a.latencyMs ?? Infinity) - (b.latencyMs ?? Infinity);
+    });
+  }
+
+  private markSuccess(endpoint: Endpoint, latencyMs: number): void {
+    endpoint.healthy = true;
+    endpoint.consecutiveFailures = 0;
+    endpoint.backoffUntil = 0;
+    endpoint.latencyMs = latencyMs;
+    endpoint.lastError = undefined;
+  }
+
+  private markFailure(endpoint: Endpoint, error: unknown): void {
+    endpoint.failures++;
+    endpoint.consecutiveFailures++;
+    endpoint.lastError =
+      (error as { shortMessage?: string })?.shortMessage ??
+      (error instanceof Error ? error.message : String(error));
+    const delay = Math.min(
+      this.maxBackoffMs,
+      this.baseBackoffMs * 2 ** (endpoint.consecutiveFailures - 1)
+    );
+    endpoint.backoffUntil = Date.now() + delay;
+    if (!(error instanceof RateLimitedError)) {
+      endpoint.healthy = false;
+    }
+  }
+
+  /**
+   * POST a JSON-RPC payload to a single endpoint
+   */
+  private async sendTo(
+    endpoint: Endpoint,
+    payload: JsonRpcPayload | JsonRpcPayload[]
+  ): Promise<(JsonRpcResult | JsonRpcError)[]> {
+    const request = new FetchRequest(endpoint.url);
+    request.timeout = this.timeoutMs;
+    request.body = JSON.stringify(payload);
+    request.setHeader("content-type", "application/json");
+    // Rate limits are handled here by failing over, not by FetchRequest retries
+    request.setThrottleParams({ maxAttempts: 1 });
+
+    const started = Date.now();
+    const response = await request.send();
+    // With maxAttempts 1 a 429 comes back as a 599 "throttle" response
+    if (response.statusCode === 429 || /\b429\b/.test(response.statusMessage)) {
+      throw new RateLimitedError("HTTP 429 Too Many Requests");
+    }
+    response.assertOk();
+
+    const body = response.bodyJson;
+    const results: (JsonRpcResult | JsonRpcError)[] = Array.isArray(body) ? body : [body];
+    for (const result of results) {
+      if ("error" in result && result.error) {
+        const { code, message } = result.error;
+        if (RATE_LIMIT_CODES.has(code) || RATE_LIMITED.test(message ?? "")) {
+          throw new RateLimitedError(message ?? `code ${code}`);
+        }
+      }
+    }
+
+    this.markSuccess(endpoint, Date.now() - started);
+    return results;
+  }
+
+  /**
+   * Send with failover across endpoints
+   */
+  async _send(
+    payload: JsonRpcPayload | JsonRpcPayload[]
+  ): Promise<(JsonRpcResult | JsonRpcError)[]> {
+    const errors: { url: string; error: string }[] = [];
+
+    for (const endpoint of this.ranked()) {
+      try {
+        return await this.sendTo(endpoint, payload);
+      } catch (err) {
+        this.markFailure(endpoint, err);
+        errors.push({ url: endpoint.url, error: endpoint.lastError ?? "unknown" });
+      }
+    }
+
+    throw new RpcPoolError(`All RPC endpoints failed for chain ${this.chainId}`, errors);
+  }
+
+  /**
+   * Send one request to several endpoints and require matching answers
+   *
+   * @param method JSON-RPC method
+   * @param params JSON-RPC params
+   * @param minAgreement Matching answers required (capped at the pool size)
+   * @returns The agreed result
+   */
+  async quorumCall(method: string, params: unknown[], minAgreement: number = 2): Promise<any> {
+    // Every endpoint is asked, backed off or not: a quorum read is rare and
+    // should not shrink because some endpoints recently failed
+    const candidates = this.endpoints;
+    const required = Math.min(minAgreement, this.endpoints.length);
+    const payload: JsonRpcPayload = { id: 1, jsonrpc: "2.0", method, params } as JsonRpcPayload;
+
+    const errors: { url: string; error: string }[] = [];
+    const answers = await Promise.all(
+      candidates.map(async (endpoint) => {
+        try {
+          const [result] = await this.sendTo(endpoint, payload);
+          if ("error" in result && result.error) {
+            errors.push({ url: endpoint.url, error: result.error.message ?? String(result.error.code) });
+            return undefined;
+          }
+          return JSON.stringify((result as JsonRpcResult).result);
+        } catch (err) {
+          this.markFailure(endpoint, err);
+          errors.push({ url: endpoint.url, error: endpoint.lastError ?? "unknown" });
+          return undefined;
+        }
+      })
+    );
+
+    const counts = new Map<string, number>();
+    for (const answer of answers) {
+      if (answer === undefined) continue;
+      const count = (counts.get(answer) ?? 0) + 1;
+      counts.set(answer, count);
+      if (count >= required) return JSON.parse(answer);
+    }
+
+    throw new RpcPoolError(
+      `No quorum (${required}) for ${method} on chain ${this.chainId}; answers: ${[...counts.entries()]
+        .map(([a, c]) => `${a} x${c}`)
+        .join(", ") || "none"}`,
+      errors
+    );
+  }
+
+  /**
+   * Read a bridge's latest merkle root with quorum
+   *
+   * @param bridgeAddress PrivateLZBridge address
+   * @param minAgreement Matching answers required
+   */
+  async getLastRoot(bridgeAddress: string, minAgreement: number = 2): Promise<string> {
+    const data = ROOT_IFACE.encodeFunctionData("getLastRoot");
+    const result = await this.quorumCall(
+      "eth_call",
+      [{ to: bridgeAddress, data }, "latest"],
+      minAgreement
+    );
+    return ROOT_IFACE.decodeFunctionResult("getLastRoot", result)[0];
+  }
+
+  /**
+   * Probe every endpoint with eth_blockNumber
+   *
+   * Endpoints that fail, or lag more than maxBlockLag behind the best head,
+   * are marked unhealthy and tried last.
+   */
+  async checkHealth(): Promise<RpcEndpointStatus[]> {
+    const payload = { id: 1, jsonrpc: "2.0", method: "eth_blockNumber", params: [] } as JsonRpcPayload;
+
+    await Promise.all(
+      this.endpoints.map(async (endpoint) => {
+        try {
+          const [result] = await this.sendTo(endpoint, payload);
+          if ("error" in result && result.error) {
+            throw new Error(result.error.message ?? `code ${result.error.code}`);
+          }
+          endpoint.blockNumber = Number((result as JsonRpcResult).result);
+        } catch (err) {
+          endpoint.blockNumber = undefined;
+          this.markFailure(endpoint, err);
+        }
+      })
+    );
+
+    const head = Math.max(0, ...this.endpoints.map((e) => e.blockNumber ?? 0));
+    for (const endpoint of this.endpoints) {
+      if (endpoint.blockNumber !== undefined && head - endpoint.blockNumber > this.maxBlockLag) {
+        endpoint.healthy = false;
+        endpoint.lastError = `${head - endpoint.blockNumber} blocks behind`;
+      }
+    }
+
+    return this.getStatus();
+  }
+
+  /**
+   * Run checkHealth() periodically (timer does not keep Node alive)
+   */
+  startHealthChecks(intervalMs: number): void {
+    this.stopHealthChecks();
+    this.healthTimer = setInterval(() => {
+      this.checkHealth().catch(() => undefined);
+    }, intervalMs);
+    (this.healthTimer as { unref?: () => void }).unref?.();
+  }
+
+  stopHealthChecks(): void {
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = undefined;
+    }
+  }
+
+  /**
+   * Current state of each endpoint
+   */
+  getStatus(): RpcEndpointStatus[] {
+    return this.endpoints.map(({ consecutiveFailures: _, ...status }) => ({ ...status }));
+  }
+
+  destroy(): void {
+    this.stopHealthChecks();
+    super.destroy();
+  }
+}
@@ -0,0 +1,282 @@
+import { ethers, Contract, Provider } from "ethers";
+import { MerkleProof, MERKLE_DEPTH, SyncCursor, TreeCache } from "./types";
+import { MerkleTree } from "./merkle";
+import { parseBridgeEvents } from "./events";
+import { fetchLogs, LeafGapError, DEFAULT_LOG_CHUNK_SIZE } from "./logs";
+import { RpcPool, RpcPoolError } from "./rpc";
+import { MixvmError } from "./errors";
+
+const ROOT_ABI = [
+  "function getLastRoot() view returns (bytes32)",
+  "function isKnownRoot(bytes32 root) view returns (bool)",
+];
+
+/**
+ * The locally rebuilt root is neither the bridge's last root nor a known root
+ */
+export class MerkleRootMismatchError extends MixvmError {
+  readonly localRoot: string;
+  readonly lastRoot: string;
+
+  constructor(localRoot: string, lastRoot: string) {
+    super("ROOT_MISMATCH", `Local merkle root ${localRoot} is not known on-chain (last root ${lastRoot})`, {
+      hint: "Rebuild the merkle tree from the deploy block",
+      retryable: true,
+    });
+    this.name = "MerkleRootMismatchError";
+    this.localRoot = localRoot;
+    this.lastRoot = lastRoot;
+  }
+}
+
+/**
+ * Merkle tree sync from PrivateLZBridge events
+ *
+ * Rebuilds the commitment tree from every leaf-inserting event since the
+ * deploy block: Deposited, CrossChainTransferInitiated (newSenderCommitment),
+ * CrossChainTransferReceived, Withdrawn (non-zero newCommitment) and
+ * TransferRefunded. Progress is kept in a cursor so later syncs only scan new
+ * blocks. With a TreeCache the cursor is persisted per (chainId, bridge) and
+ * picked up on the next run; a cached tree that no longer matches the chain
+ * is rebuilt from the deploy block.
+ *
+ * @example
+ * ```typescript
+ * const sync = new MerkleSync(provider, bridgeAddress, { deployBlock: 37366200 });
+ * await sync.sync();
+ * const proof = await sync.getVerifiedProof(note.leafIndex);
+ * ```
+ */
+export class MerkleSync {
+  private provider: Provider;
+  private bridgeAddress: string;
+  private contract: Contract;
+  private chunkSize: number;
+  private depth: number;
+  private deployBlock: number;
+  private nextBlock: number;
+  private leaves: bigint[] = [];
+  private tree?: MerkleTree;
+  private cache?: TreeCache;
+  private cacheLoaded = false;
+  private chainId?: number;
+
+  constructor(
+    provider: Provider,
+    bridgeAddress: string,
+    options: {
+      deployBlock?: number;
+      chunkSize?: number;
+      depth?: number;
+      cursor?: SyncCursor;
+      cache?: TreeCache;
+    } = {}
+  ) {
+    this.provider = provider;
+    this.bridgeAddress = bridgeAddress;
+    this.contract = new Contract(bridgeAddress, ROOT_ABI, provider);
+    this.chunkSize = options.chunkSize ?? DEFAULT_LOG_CHUNK_SIZE;
+    this.depth = options.depth ?? MERKLE_DEPTH;
+    this.deployBlock = options.deployBlock ?? 0;
+    this.nextBlock = this.deployBlock;
+    this.cache = options.cache;
+
+    if (options.cursor) {
+      this.nextBlock = options.cursor.nextBlock;
+      this.leaves = options.cursor.leaves.map((l) => BigInt(l));
+    }
+  }
+
+  /**
+   * Fetch events since the cursor and append new leaves to the tree
+   *
+   * @returns Number of leaves added
+   */
+  async sync(): Promise<number> {
+    await this.loadCache();
+
+    const latestBlock = await this.provider.getBlockNumber();
+    const pending = new Map<number, bigint>();
+    const before = this.leaves.length;
+    const startBlock = this.nextBlock;
+    if (this.nextBlock > latestBlock) return 0;
+
+    // Leaves already placed are skipped when a range is rescanned
+    const add = (leafIndex: number, commitment: string) => {
+      if (leafIndex >= this.leaves.length) pending.set(leafIndex, BigInt(commitment));
+    };
+
+    try {
+      await fetchLogs(
+        this.provider,
+        { address: this.bridgeAddress },
+        {
+          fromBlock: this.nextBlock,
+          toBlock: latestBlock,
+          chunkSize: this.chunkSize,
+          onChunk: (_fromBlock, toBlock, logs) => {
+            const events = parseBridgeEvents(logs, this.bridgeAddress);
+
+            for (const e of events.deposited) {
+              add(e.leafIndex, e.commitment);
+            }
+            for (const e of events.transfersInitiated) {
+              // Inserted even when zero (full-amount transfers)
+              add(e.senderLeafIndex, e.newSenderCommitment);
+            }
+            for (const e of events.transfersReceived) {
+              add(e.leafIndex, e.commitment);
+            }
+            for (const e of events.withdrawn) {
+              if (e.newCommitment !== ethers.ZeroHash) {
+                add(e.newLeafIndex, e.newCommitment);
+              }
+            }
+            for (const e of events.transfersRefunded) {
+              add(e.leafIndex, e.refundCommitment);
+            }
+
+            // Append in leafIndex order
+            while (pending.has(this.leaves.length)) {
+              const leaf = pending.get(this.leaves.length)!;
+              pending.delete(this.leaves.length);
+              this.leaves.push(leaf);
+              this.tree?.addLeaf(leaf);
+            }
+
+            // Only advance the cursor past ranges whose leaves were all placed
+            if (pending.size === 0) {
+              this.nextBlock = toBlock + 1;
+            }
+          },
+        }
+      );
+    } finally {
+      // Keep partial progress too; the cursor only covers fully placed ranges
+      if (this.nextBlock !== startBlock) await this.saveCache();
+    }
+
+    if (pending.size > 0) {
+      throw new LeafGapError(this.leaves.length, Math.min(...pending.keys()));
+    }
+
+    return this.leaves.length - before;
+  }
+
+  /**
+   * Local tree (Poseidon must be initialized)
+   */
+  getTree(): MerkleTree {
+    if (!this.tree) {
+      this.tree = new MerkleTree(this.depth);
+      this.tree.setLeaves(this.leaves);
+    }
+    return this.tree;
+  }
+
+  /**
+   * Check the local root against the bridge
+   *
+   * With an RpcPool provider getLastRoot() is read with quorum so a single
+   * lagging endpoint cannot force a needless resync.
+   *
+   * @returns The local root if it equals getLastRoot() or passes isKnownRoot()
+   */
+  async verifyRoot(): Promise<bigint> {
+    const root = this.getTree().getRoot();
+    const rootHex = ethers.toBeHex(root, 32);
+
+    const lastRoot = await this.getLastRoot();
+    if (lastRoot.toLowerCase() === rootHex) return root;
+    if (await this.contract.isKnownRoot(rootHex)) return root;
+
+    throw new MerkleRootMismatchError(rootHex, lastRoot);
+  }
+
+  /**
+   * Latest on-chain root, with quorum when the provider is an RpcPool
+   */
+  private async getLastRoot(): Promise<string> {
+    if (this.provider instanceof RpcPool) {
+      try {
+        return await this.provider.getLastRoot(this.bridgeAddress);
+      } catch (err) {
+        // Endpoints at different heads can disagree right after an insert
+        if (!(err instanceof RpcPoolError)) throw err;
+      }
+    }
+    return this.contract.getLastRoot();
+  }
+
+  /**
+   * Sync, verify the root on-chain, then build a proof for a leaf
+   *
+   * A root mismatch (stale cache, reorg) triggers one rebuild from the
+   * deploy block before giving up.
+   *
+   * @param leafIndex Leaf to prove
+   */
+  async getVerifiedProof(leafIndex: number): Promise<MerkleProof> {
+    await this.sync();
+
+    try {
+      await this.verifyRoot();
+    } catch (err) {
+      if (!(err instanceof MerkleRootMismatchError)) throw err;
+      await this.rebuild();
+      await this.verifyRoot();
+    }
+
+    if (leafIndex < 0 || leafIndex >= this.leaves.length) {
+      throw new Error(`Leaf ${leafIndex} not in synced tree (${this.leaves.length} leaves)`);
+    }
+    return this.getTree().getProof(leafIndex);
+  }
+
+  /**
+   * Drop the local and cached tree and sync again from the deploy block
+   *
+   * @returns Number of leaves after the rebuild
+   */
+  async rebuild(): Promise<number> {
+    await this.loadCache();
+    if (this.cache && this.chainId !== undefined) {
+      await this.cache.clear(this.chainId, this.bridgeAddress);
+    }
+    this.leaves = [];
+    this.tree = undefined;
+    this.nextBlock = this.deployBlock;
+    return this.sync();
+  }
+
+  /**
+   * Pick up the cached cursor on first use, if it is ahead of ours
+   */
+  private async loadCache(): Promise<void> {
+    if (!this.cache || this.cacheLoaded) return;
+    this.chainId = Number((await this.provider.getNetwork()).chainId);
+    this.cacheLoaded = true;
+
+    const cursor = await this.cache.load(this.chainId, this.bridgeAddress);
+    if (cursor && cursor.nextBlock > this.nextBlock && cursor.leaves.length >= this.leaves.length) {
+      this.nextBlock = cursor.nextBlock;
+      this.leaves = cursor.leaves.map((l) => BigInt(l));
+      this.tree = undefined;
+    }
+  }
+
+  private async saveCache(): Promise<void> {
+    if (!this.cache || this.chainId === undefined) return;
+    await this.cache.save(this.chainId, this.bridgeAddress, this.getCursor());
+  }
+
+  /**
+   * Resumable sync position
+   */
+  getCursor(): SyncCursor {
+    return {
+      nextBlock: this.nextBlock,
+      leaves: this.leaves.map((l) => l.toString()),
+    };
+  }
+}
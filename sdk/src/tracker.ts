@@ -0,0 +1,577 @@
+import { EventEmitter } from "events";
+import * as fs from "fs";
+import { Contract, Interface, ethers } from "ethers";
+import {
+  RefundReason,
+  TrackedTransfer,
+  TrackerChain,
+  TransferState,
+  TransferStore,
+  TransferTrackerOptions,
+} from "./types";
+import { MixvmError } from "./errors";
+import { BRIDGE_EVENTS_ABI, bridgeEventTopics, parseBridgeEvents, parseBridgeLog } from "./events";
+import { fetchLogs } from "./logs";
+import { writeFileAtomic } from "./files";
+import {
+  AttestationClient,
+  CCTP_EXPECTED_LATENCY_SECONDS,
+  MESSAGE_TRANSMITTER_V2,
+  cctpTransferMode,
+  decodeCctpMessage,
+  formatCctpLatency,
+  isAttested,
+  isCctpNonceUsed,
+} from "./cctp";
+
+const TRACKER_ABI = [
+  "function commitmentExists(bytes32) view returns (bool)",
+  "function pendingRefunds(bytes32 guid) view returns (bytes32 refundCommitment, uint256 amount, uint32 dstEid)",
+];
+
+// Current and v10.2 signatures
+const receivedTopics = bridgeEventTopics("CrossChainTransferReceived");
+const refundedTopic = new Interface(BRIDGE_EVENTS_ABI).getEvent("TransferRefunded")!.topicHash;
+
+const REFUND_REASON_TEXT: Record<RefundReason, string> = {
+  invalid_peer: "the destination does not trust the source bridge",
+  commitment_exists: "the recipient commitment already exists on the destination",
+  tree_full: "the destination tree is full",
+  unknown: "unknown reason",
+};
+
+// Happy-path order; stuck and failed keep the stage they stopped at
+const STAGES: TransferState[] = ["initiated", "lz_delivered", "cctp_attested", "usdc_minted", "completed"];
+
+const TERMINAL: TransferState[] = ["completed", "refunded", "failed"];
+
+/**
+ * Transfer id for a source chain and transaction
+ */
+export function transferId(srcEid: number, srcTxHash: string): string {
+  return `${srcEid}:${srcTxHash.toLowerCase()}`;
+}
+
+/**
+ * Whether a transfer can still change state
+ */
+export function isTerminalState(state: TransferState): boolean {
+  return TERMINAL.includes(state);
+}
+
+// ============ Stores ============
+
+/**
+ * In-memory transfer store (lost on exit)
+ */
+export class MemoryTransferStore implements TransferStore {
+  private transfers = new Map<string, TrackedTransfer>();
+
+  async get(id: string): Promise<TrackedTransfer | undefined> {
+    const transfer = this.transfers.get(id);
+    return transfer ? structuredClone(transfer) : undefined;
+  }
+
+  async list(): Promise<TrackedTransfer[]> {
+    return [...this.transfers.values()].map((transfer) => structuredClone(transfer));
+  }
+
+  async put(transfer: TrackedTransfer): Promise<void> {
+    this.transfers.set(transfer.id, structuredClone(transfer));
+  }
+}
+
+/**
+ * JSON file transfer store
+ *
+ * Transfers hold no secrets unless the caller puts them in `context`.
+ */
+export class JsonFileTransferStore implements TransferStore {
+  private filePath: string;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async get(id: string): Promise<TrackedTransfer | undefined> {
+    await this.queue;
+    return (await this.read()).get(id);
+  }
+
+  async list(): Promise<TrackedTransfer[]> {
+    await this.queue;
+    return [...(await this.read()).values()];
+  }
+
+  async put(transfer: TrackedTransfer): Promise<void> {
+    const next = this.queue.then(async () => {
+      const all = await this.read();
+      all.set(transfer.id, transfer);
+      await writeFileAtomic(
+        this.filePath,
+        JSON.stringify({ version: 1, transfers: [...all.values()] }, null, 2)
+      );
+    });
+    // Keep the queue alive after a failed write
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  private async read(): Promise<Map<string, TrackedTransfer>> {
+    let contents: string;
+    try {
+      contents = await fs.promises.readFile(this.filePath, "utf8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return new Map();
+      throw err;
+    }
+    const parsed = JSON.parse(contents) as { version: number; transfers: TrackedTransfer[] };
+    return new Map(parsed.transfers.map((transfer) => [transfer.id, transfer]));
+  }
+}
+
+// ============ Tracker ============
+
+/**
+ * Follows cross-chain transfers from the source transaction to completion
+ *
+ * Each poll reads the destination bridge (commitmentExists, then the matching
+ * CrossChainTransferReceived), the CCTP attestation for the source burn and
+ * the destination MessageTransmitter's usedNonces, and advances the transfer
+ * one stage at a time. Every change is persisted before events are emitted,
+ * so a restarted tracker resumes from the store.
+ *
+ * Events:
+ * - "progress" (transfer, previousState) on every state change
+ * - "completed" / "refunded" / "stuck" / "failed" (transfer) on entering those states
+ * - "pollError" (error, transfer) when a poll fails; the transfer is retried
+ *
+ * @example
+ * ```typescript
+ * const tracker = new TransferTracker({
+ *   chains: [
+ *     { eid: 40245, provider: baseProvider, bridgeAddress: baseBridge, cctpDomain: 6 },
+ *     { eid: 40161, provider: ethProvider, bridgeAddress: ethBridge, cctpDomain: 0 },
+ *   ],
+ *   store: new JsonFileTransferStore(".mixvm/transfers.json"),
+ * });
+ * tracker.on("progress", (t) => console.log(t.id, t.state));
+ * const transfer = await tracker.track(40245, txHash);
+ * tracker.start();
+ * await tracker.waitFor(transfer.id, "completed");
+ * ```
+ */
+export class TransferTracker extends EventEmitter {
+  private chains = new Map<number, TrackerChain>();
+  private store: TransferStore;
+  private attestations: AttestationClient;
+  private pollIntervalMs: number;
+  private stuckAfterMs: number;
+  private standardAttestationStuckAfterMs: number;
+  private lookbackBlocks: number;
+  private timer?: ReturnType<typeof setTimeout>;
+  private running = false;
+  private polling = new Map<string, Promise<TrackedTransfer>>();
+
+  constructor(options: TransferTrackerOptions) {
+    super();
+    for (const chain of options.chains) {
+      this.chains.set(chain.eid, chain);
+    }
+    this.store = options.store ?? new MemoryTransferStore();
+    this.attestations = options.attestations ?? new AttestationClient({ apiUrl: options.attestationApiUrl });
+    this.pollIntervalMs = options.pollIntervalMs ?? 15_000;
+    this.stuckAfterMs = options.stuckAfterMs ?? 30 * 60_000;
+    this.standardAttestationStuckAfterMs = options.standardAttestationStuckAfterMs ?? 90 * 60_000;
+    this.lookbackBlocks = options.lookbackBlocks ?? 5000;
+  }
+
+  /**
+   * Start tracking a transfer from its source transaction
+   *
+   * Tracking the same transaction again returns the stored transfer.
+   *
+   * @param srcEid Source chain EID
+   * @param srcTxHash initiateTransfer transaction hash
+   * @param context Caller data stored with the transfer
+   */
+  async track(srcEid: number, srcTxHash: string, context?: Record<string, string>): Promise<TrackedTransfer> {
+    const id = transferId(srcEid, srcTxHash);
+    const existing = await this.store.get(id);
+    if (existing) return existing;
+
+    const src = this.chain(srcEid);
+    const receipt = await src.provider.getTransactionReceipt(srcTxHash);
+    if (!receipt) {
+      throw new MixvmError("TX_NOT_FOUND", `Transaction ${srcTxHash} not found on EID ${srcEid}`, {
+        hint: "Wait for the transaction to be mined, or check the source chain",
+        retryable: true,
+      });
+    }
+
+    const now = Date.now();
+    const transfer: TrackedTransfer = {
+      id,
+      srcEid,
+      dstEid: 0,
+      srcTxHash: receipt.hash,
+      srcBlockNumber: receipt.blockNumber,
+      guid: ethers.ZeroHash,
+      recipientCommitment: ethers.ZeroHash,
+      amount: "0",
+      state: "initiated",
+      stage: "initiated",
+      cctp: { required: false },
+      dstFromBlock: 0,
+      context,
+      history: [{ state: "initiated", at: now }],
+      createdAt: now,
+      updatedAt: now,
+      progressedAt: now,
+    };
+
+    const [event] = parseBridgeEvents(receipt.logs, src.bridgeAddress).transfersInitiated;
+    if (receipt.status !== 1 || !event) {
+      this.setState(
+        transfer,
+        "failed",
+        receipt.status !== 1 ? "Source transaction reverted" : "Source transaction initiated no transfer"
+      );
+      await this.store.put(transfer);
+      this.emit("failed", transfer);
+      return transfer;
+    }
+
+    transfer.dstEid = event.dstEid;
+    transfer.guid = event.guid;
+    transfer.recipientCommitment = event.recipientCommitment;
+    transfer.amount = event.amount.toString();
+    transfer.grossAmount = event.grossAmount.toString();
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== src.bridgeAddress.toLowerCase()) continue;
+      const parsed = parseBridgeLog(log);
+      if (parsed?.name !== "CCTPBurnInitiated") continue;
+      transfer.cctp.required = true;
+      transfer.cctp.mode = cctpTransferMode(Number(parsed.args.minFinalityThreshold));
+      transfer.cctp.maxFee = parsed.args.maxFee.toString();
+    }
+
+    const dst = this.chain(event.dstEid);
+    const dstBlock = await dst.provider.getBlockNumber();
+    transfer.dstFromBlock = Math.max(0, dstBlock - this.lookbackBlocks);
+
+    await this.store.put(transfer);
+    return transfer;
+  }
+
+  /**
+   * Check a transfer once and advance it as far as it has got
+   */
+  async poll(id: string): Promise<TrackedTransfer> {
+    // One poll per transfer at a time
+    let pending = this.polling.get(id);
+    if (!pending) {
+      pending = this.pollOnce(id).finally(() => this.polling.delete(id));
+      this.polling.set(id, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Poll every transfer that is not completed or failed
+   *
+   * A failing poll emits "pollError" and does not stop the others.
+   */
+  async resume(): Promise<TrackedTransfer[]> {
+    const active = (await this.store.list()).filter((transfer) => !isTerminalState(transfer.state));
+    const results: TrackedTransfer[] = [];
+    for (const transfer of active) {
+      try {
+        results.push(await this.poll(transfer.id));
+      } catch (err) {
+        this.emit("pollError", err, transfer);
+        results.push(transfer);
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Poll active transfers every pollIntervalMs until stop()
+   *
+   * The timer does not keep the process alive on its own.
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    const loop = async () => {
+      await this.resume().catch((err) => this.emit("pollError", err));
+      if (!this.running) return;
+      this.timer = setTimeout(loop, this.pollIntervalMs);
+      (this.timer as { unref?: () => void }).unref?.();
+    };
+    void loop();
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  async get(id: string): Promise<TrackedTransfer | undefined> {
+    return this.store.get(id);
+  }
+
+  async list(): Promise<TrackedTransfer[]> {
+    return this.store.list();
+  }
+
+  /**
+   * Resolve once a transfer reaches a state, polling it meanwhile
+   *
+   * Rejects if the transfer fails, or completes without reaching the state.
+   */
+  async waitFor(id: string, state: TransferState = "completed", timeoutMs?: number): Promise<TrackedTransfer> {
+    const deadline = timeoutMs === undefined ? Infinity : Date.now() + timeoutMs;
+    for (;;) {
+      let transfer: TrackedTransfer;
+      try {
+        transfer = await this.poll(id);
+      } catch (err) {
+        const stored = await this.store.get(id);
+        if (!stored) throw err;
+        this.emit("pollError", err, stored);
+        transfer = stored;
+      }
+
+      if (transfer.state === state || transfer.history.some((entry) => entry.state === state)) {
+        return transfer;
+      }
+      if (isTerminalState(transfer.state)) {
+        throw new MixvmError(
+          "TRANSFER_FAILED",
+          `Transfer ${id} is ${transfer.state} without reaching ${state}${transfer.reason ? `: ${transfer.reason}` : ""}`
+        );
+      }
+      if (Date.now() + this.pollIntervalMs > deadline) {
+        throw new MixvmError(
+          "TRANSFER_TIMEOUT",
+          `Timed out waiting for transfer ${id} to reach ${state} (currently ${transfer.state})`,
+          { hint: "The transfer is still tracked; wait again or check it later", retryable: true }
+        );
+      }
+      await new Promise((resolve) => setTimeout(resolve, this.pollIntervalMs));
+    }
+  }
+
+  // ============ Internals ============
+
+  private chain(eid: number): TrackerChain {
+    const chain = this.chains.get(eid);
+    if (!chain) {
+      throw new MixvmError("UNKNOWN_CHAIN", `No chain configured for EID ${eid}`, {
+        hint: "Add the chain to the tracker's chains",
+      });
+    }
+    return chain;
+  }
+
+  private async pollOnce(id: string): Promise<TrackedTransfer> {
+    const transfer = await this.store.get(id);
+    if (!transfer) {
+      throw new MixvmError("TX_NOT_FOUND", `Transfer ${id} is not tracked`, { hint: "Call track() first" });
+    }
+    if (isTerminalState(transfer.state)) return transfer;
+
+    const src = this.chain(transfer.srcEid);
+    const dst = this.chain(transfer.dstEid);
+    const before = transfer.state;
+    let changed = false;
+
+    // LayerZero delivery, or a refund on the source when it can never be delivered
+    if (!transfer.lz) {
+      const refund = await this.findRefund(transfer);
+      if (refund) {
+        transfer.refund = refund;
+        transfer.progressedAt = Date.now();
+        this.setState(
+          transfer,
+          "refunded",
+          `Not credited: ${REFUND_REASON_TEXT[refund.reason]}; the sender's refund note is on the source chain`
+        );
+        return this.save(transfer, before);
+      }
+
+      const bridge = new Contract(dst.bridgeAddress, TRACKER_ABI, dst.provider);
+      if (await bridge.commitmentExists(transfer.recipientCommitment)) {
+        const logs = await fetchLogs(
+          dst.provider,
+          {
+            address: dst.bridgeAddress,
+            topics: [
+              receivedTopics,
+              ethers.toBeHex(transfer.srcEid, 32),
+              transfer.recipientCommitment,
+            ],
+          },
+          { fromBlock: transfer.dstFromBlock }
+        );
+        const [received] = parseBridgeEvents(logs, dst.bridgeAddress).transfersReceived;
+        if (!received) {
+          // Inserted by something else, so lzReceive would revert "Commitment exists"
+          return this.stall(transfer, "Recipient commitment exists on the destination but was not delivered from the source chain");
+        }
+        if (received.amount.toString() !== transfer.amount) {
+          this.setState(transfer, "failed", `Delivered amount ${received.amount} does not match sent amount ${transfer.amount}`);
+          return this.save(transfer, before);
+        }
+        const [log] = logs;
+        transfer.lz = { txHash: log.transactionHash, blockNumber: log.blockNumber, leafIndex: received.leafIndex };
+        changed = true;
+      }
+    }
+
+    // CCTP attestation and mint
+    if (transfer.cctp.required && src.cctpDomain !== undefined) {
+      if (!transfer.cctp.attestation) {
+        const [message] = await this.attestations.getMessages(src.cctpDomain, transfer.srcTxHash);
+        if (message && message.status !== transfer.cctp.status) {
+          transfer.cctp.status = message.status;
+          transfer.updatedAt = Date.now();
+        }
+        if (message && isAttested(message)) {
+          transfer.cctp.message = message.message;
+          transfer.cctp.attestation = message.attestation;
+          transfer.cctp.nonce = decodeCctpMessage(message.message).nonce;
+          changed = true;
+        }
+      }
+      if (transfer.cctp.nonce && !transfer.cctp.minted) {
+        if (await isCctpNonceUsed(dst.provider, dst.messageTransmitter ?? MESSAGE_TRANSMITTER_V2, transfer.cctp.nonce)) {
+          transfer.cctp.minted = true;
+          changed = true;
+        }
+      }
+    }
+
+    const target = this.targetStage(transfer);
+    const from = STAGES.indexOf(transfer.stage);
+    const to = STAGES.indexOf(target);
+    if (to > from) {
+      const steps = STAGES.slice(from + 1, to + 1);
+      for (const state of steps) {
+        this.setState(transfer, state);
+      }
+      transfer.progressedAt = Date.now();
+      await this.store.put(transfer);
+      // One event per step, each with the transfer as of that step
+      let previous = before;
+      for (const state of steps) {
+        this.emit("progress", state === transfer.state ? transfer : { ...transfer, state, stage: state }, previous);
+        previous = state;
+      }
+      if (transfer.state === "completed") this.emit("completed", transfer);
+      return transfer;
+    }
+
+    if (Date.now() - transfer.progressedAt > this.stuckAfter(transfer)) {
+      return this.stall(transfer, this.pendingReason(transfer, src));
+    }
+    if (changed || transfer.updatedAt > transfer.progressedAt) {
+      await this.store.put(transfer);
+    }
+    return transfer;
+  }
+
+  // TransferRefunded for the transfer on its source bridge (pendingRefunds is cleared by it)
+  private async findRefund(transfer: TrackedTransfer): Promise<TrackedTransfer["refund"]> {
+    const src = this.chain(transfer.srcEid);
+    const bridge = new Contract(src.bridgeAddress, TRACKER_ABI, src.provider);
+    if ((await bridge.pendingRefunds(transfer.guid)).amount > 0n) return undefined;
+
+    const logs = await fetchLogs(
+      src.provider,
+      { address: src.bridgeAddress, topics: [refundedTopic, transfer.guid] },
+      { fromBlock: transfer.srcBlockNumber }
+    );
+    const [refunded] = parseBridgeEvents(logs, src.bridgeAddress).transfersRefunded;
+    if (!refunded) return undefined;
+    const [log] = logs;
+    return {
+      txHash: log.transactionHash,
+      blockNumber: log.blockNumber,
+      leafIndex: refunded.leafIndex,
+      reason: refunded.reason,
+    };
+  }
+
+  // Furthest stage the collected facts support
+  private targetStage(transfer: TrackedTransfer): TransferState {
+    if (!transfer.lz) return "initiated";
+    if (!transfer.cctp.required) return "completed";
+    if (transfer.cctp.minted) return "completed";
+    if (transfer.cctp.attestation) return "cctp_attested";
+    return "lz_delivered";
+  }
+
+  // Standard-finality burns take much longer to attest than fast ones
+  private stuckAfter(transfer: TrackedTransfer): number {
+    return transfer.stage === "lz_delivered" && transfer.cctp.mode === "standard"
+      ? this.standardAttestationStuckAfterMs
+      : this.stuckAfterMs;
+  }
+
+  private pendingReason(transfer: TrackedTransfer, src: TrackerChain): string {
+    const minutes = Math.round((Date.now() - transfer.progressedAt) / 60_000);
+    switch (transfer.stage) {
+      case "initiated":
+        return (
+          `No LayerZero delivery after ${minutes} min; check the message on LayerZero Scan (guid ${transfer.guid}). ` +
+          "If the destination can never credit it, refund it (LzMessageRecovery)"
+        );
+      case "lz_delivered":
+        return src.cctpDomain === undefined
+          ? `No CCTP domain configured for EID ${transfer.srcEid}; cannot fetch the attestation`
+          : `No CCTP attestation after ${minutes} min (${transfer.cctp.mode ?? "fast"} transfers usually attest in ` +
+            `${formatCctpLatency(CCTP_EXPECTED_LATENCY_SECONDS[transfer.cctp.mode ?? "fast"])}; ` +
+            `status: ${transfer.cctp.status ?? "not indexed"})`;
+      default:
+        return `Attested USDC not minted after ${minutes} min; relay receiveMessage on the destination`;
+    }
+  }
+
+  private async stall(transfer: TrackedTransfer, reason: string): Promise<TrackedTransfer> {
+    if (transfer.state === "stuck") {
+      // Refresh the reason without re-announcing
+      if (transfer.reason !== reason) {
+        transfer.reason = reason;
+        transfer.updatedAt = Date.now();
+        await this.store.put(transfer);
+      }
+      return transfer;
+    }
+    const before = transfer.state;
+    this.setState(transfer, "stuck", reason);
+    return this.save(transfer, before);
+  }
+
+  private async save(transfer: TrackedTransfer, before: TransferState): Promise<TrackedTransfer> {
+    await this.store.put(transfer);
+    this.emit("progress", transfer, before);
+    if (transfer.state === "refunded" || transfer.state === "stuck" || transfer.state === "failed") {
+      this.emit(transfer.state, transfer);
+    }
+    return transfer;
+  }
+
+  private setState(transfer: TrackedTransfer, state: TransferState, reason?: string): void {
+    const now = Date.now();
+    transfer.state = state;
+    transfer.reason = reason;
+    if (STAGES.includes(state)) transfer.stage = state;
+    transfer.history.push(reason ? { state, at: now, reason } : { state, at: now });
+    transfer.updatedAt = now;
+  }
+}
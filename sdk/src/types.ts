@@ -1,4 +1,7 @@
 import { Provider, Signer } from "ethers";
+import type { MixvmErrorCode } from "./errors";
+import type { AttestationClient } from "./cctp";
+import type { RelayerClient } from "./relayer";
 
 /**
  * SDK Configuration
@@ -11,12 +14,18 @@ export interface SDKConfig {
   withdrawVerifierAddress?: string;
   poseidonAddress?: string;
   circuitPaths?: CircuitPaths;
+  noteStore?: NoteStore;
+  treeCache?: TreeCache;
+  deployBlock?: number;
+  /** Proving backend (defaults to in-process snarkjs) */
+  prover?: Prover;
 }
 
 /**
  * Circuit file paths
  */
 export interface CircuitPaths {
+  /** bridge_transfer for PrivateLZBridgeClient, private_transfer for the PrivateUSDC classes */
   transferWasm: string;
   transferZkey: string;
   transferVkey: string;
@@ -25,6 +34,39 @@ export interface CircuitPaths {
   withdrawVkey: string;
 }
 
+export type CircuitName = "transfer" | "withdraw";
+
+/**
+ * Circuit input signals as decimal strings
+ */
+export type CircuitInputs = Record<string, string | string[]>;
+
+/**
+ * Groth16 proof in snarkjs JSON form
+ */
+export interface Groth16Proof {
+  pi_a: string[];
+  pi_b: string[][];
+  pi_c: string[];
+  protocol: string;
+  curve?: string;
+}
+
+/**
+ * Proving backend
+ *
+ * Implementations compute the witness with calculateWitness() and return an
+ * unverified proof; ProofGenerator verifies it locally.
+ */
+export interface Prover {
+  prove(
+    circuit: CircuitName,
+    inputs: CircuitInputs
+  ): Promise<{ proof: Groth16Proof; publicSignals: string[] }>;
+  /** Release workers, temp files or connections */
+  close?(): Promise<void>;
+}
+
 /**
  * Private note containing commitment details
  */
@@ -34,8 +76,32 @@ export interface PrivateNote {
   randomness: bigint;
   nullifierSecret: bigint;
   leafIndex: number;
+  chainId?: number;
+  bridgeAddress?: string;
+  status?: NoteStatus;
+}
+
+/**
+ * Note lifecycle: pending while a tx that creates or spends it is in flight;
+ * refundable while it is the refund of a sent transfer, not yet in the tree
+ */
+export type NoteStatus = "unspent" | "pending" | "spent" | "refundable";
+
+/**
+ * Persistent storage for private notes
+ *
+ * Every call is atomic: either all given notes are written or none are.
+ */
+export interface NoteStore {
+  /** Load every stored note (any status) */
+  list(): Promise<PrivateNote[]>;
+  /** Insert or replace `notes` and delete `removed`, keyed by noteKey() */
+  put(notes: PrivateNote[], removed?: PrivateNote[]): Promise<void>;
+  /** Delete notes, keyed by noteKey() */
+  remove(notes: PrivateNote[]): Promise<void>;
 }
 
+
 /**
  * Merkle proof for a leaf
  */
@@ -46,6 +112,17 @@ export interface MerkleProof {
   leafIndex: number;
 }
 
+/**
+ * Serialized incremental merkle tree (nodes[i] holds level i + 1)
+ */
+export interface MerkleTreeState {
+  depth: number;
+  leaves: string[];
+  filledSubtrees: string[];
+  nodes: [number, string][][];
+  root: string;
+}
+
 /**
  * ZK Proof data for contract calls
  */
@@ -241,3 +318,750 @@ export interface AuditData {
   encryptedRecipient: [bigint, bigint, bigint, bigint];
   encryptedAmount: [bigint, bigint, bigint, bigint];
 }
+
+/**
+ * Resumable merkle sync position (JSON-serializable)
+ */
+export interface SyncCursor {
+  nextBlock: number;
+  leaves: string[];
+}
+
+/**
+ * Persistent storage for merkle sync cursors, keyed by chain and bridge
+ */
+export interface TreeCache {
+  load(chainId: number, bridgeAddress: string): Promise<SyncCursor | undefined>;
+  save(chainId: number, bridgeAddress: string, cursor: SyncCursor): Promise<void>;
+  clear(chainId: number, bridgeAddress: string): Promise<void>;
+}
+
+/**
+ * PrivateLZBridge (v10) client configuration
+ */
+export interface BridgeConfig {
+  provider: Provider;
+  signer?: Signer;
+  bridgeAddress: string;
+  usdcAddress?: string;
+  deployBlock?: number;
+  circuitPaths?: CircuitPaths;
+  noteStore?: NoteStore;
+  treeCache?: TreeCache;
+  /** Proving backend (defaults to in-process snarkjs) */
+  prover?: Prover;
+  /** Destination bridges by LayerZero EID, checked by preflightTransfer */
+  destinations?: Record<number, BridgeDestination>;
+  /** Circle API used by quoteTransfer for CCTP fees (defaults to the Iris sandbox) */
+  attestations?: AttestationClient;
+}
+
+/**
+ * Read access to a peer bridge on another chain
+ */
+export interface BridgeDestination {
+  provider: Provider;
+  bridgeAddress: string;
+}
+
+/**
+ * Groth16 proof packed as the bridge's uint256[8]: [pA(2), pB(4), pC(2)]
+ */
+export type PackedProof = [bigint, bigint, bigint, bigint, bigint, bigint, bigint, bigint];
+
+/**
+ * Cross-chain transfer parameters for PrivateLZBridge.initiateTransfer
+ */
+export interface BridgeTransferParams {
+  dstEid: number;
+  /** Value taken from the note: the recipient note plus, in fast mode, the CCTP fee */
+  amount: bigint;
+  note: PrivateNote;
+  /** CCTP finality (default "fast"); "standard" pays no CCTP fee */
+  cctpMode?: CctpTransferMode;
+  stealthData?: StealthData;
+  auditData?: AuditData;
+  recipientRandomness?: bigint;
+  recipientNullifierSecret?: bigint;
+  options?: string;
+  /** Skip the on-chain checks that run before proving */
+  skipPreflight?: boolean;
+  /**
+   * Submit through a relayer service instead of the signer. It pays the
+   * LayerZero fee; its own fee comes out of `amount` and no signer is needed.
+   */
+  relayer?: RelayerClient;
+}
+
+/**
+ * Result of one pre-flight check; "skipped" when the data to check is unavailable
+ */
+export interface PreflightCheck {
+  name:
+    | "notPaused"
+    | "noteInTree"
+    | "nullifierUnspent"
+    | "rootKnown"
+    | "liquidity"
+    | "treeCapacity"
+    | "peerSet"
+    | "cctpDomainSet"
+    | "destinationPeer"
+    | "destinationTreeCapacity"
+    | "recipientCommitmentUnused";
+  status: "pass" | "fail" | "skipped";
+  detail: string;
+  /** Error code the operation would fail with (failed checks only) */
+  code?: MixvmErrorCode;
+  hint?: string;
+}
+
+/**
+ * Bridge operations the owner or guardian can pause
+ */
+export type PausableOperation = "deposit" | "transfer" | "withdraw";
+
+/**
+ * A bridge's emergency pause flags
+ */
+export interface BridgePauseState {
+  /** False for bridges deployed before pause flags existed (nothing is ever paused) */
+  supported: boolean;
+  paused: Record<PausableOperation, boolean>;
+  /** Outbound routes that are paused, among the destination EIDs asked about */
+  pausedRoutes: number[];
+  /** Account that may pause besides the owner (zero address if none) */
+  guardian: string;
+}
+
+/**
+ * On-chain checks run before proving a withdraw or transfer
+ */
+export interface PreflightReport {
+  operation: "withdraw" | "transfer";
+  ok: boolean;
+  checks: PreflightCheck[];
+  /** Source chain block the checks were read at */
+  blockNumber: number;
+}
+
+/**
+ * LayerZero fee quote
+ */
+export interface BridgeFeeQuote {
+  nativeFee: bigint;
+  lzTokenFee: bigint;
+}
+
+/**
+ * LayerZero V2 executor and DVN options (see encodeLzOptions)
+ */
+export interface LzOptions {
+  /** Gas (and msg.value) for lzReceive on the destination */
+  lzReceive?: { gas: bigint; value?: bigint };
+  /** Native token airdropped to receivers (bytes32) on the destination */
+  nativeDrops?: { amount: bigint; receiver: string }[];
+  composes?: { index: number; gas: bigint; value?: bigint }[];
+  orderedExecution?: boolean;
+  /** Raw DVN options, passed through */
+  dvnOptions?: { index: number; optionType: number; params: string }[];
+}
+
+/**
+ * CCTP finality a transfer burns with: "fast" (minFinalityThreshold 1000,
+ * attested in seconds for a fee) or "standard" (2000, waits for finality, no fee)
+ */
+export type CctpTransferMode = "fast" | "standard";
+
+/**
+ * Burn parameters initiateTransfer passes to PrivateLZBridge (CCTPParams)
+ */
+export interface CctpTransferParams {
+  minFinalityThreshold: number;
+  /** Fee burned on top of amount, out of the sender's note; at most cctpFeeFor(dstEid, amount) */
+  maxFee: bigint;
+}
+
+/**
+ * Circle's fee for a CCTP burn at one finality threshold
+ */
+export interface CctpBurnFee {
+  /** 1000 = fast, 2000 = standard */
+  finalityThreshold: number;
+  /** Basis points of the burned amount (may be fractional) */
+  minimumFee: number;
+}
+
+/**
+ * What Circle is expected to take from a CCTP burn, from quoteCctpFee
+ */
+export interface CctpFeeQuote {
+  mode: CctpTransferMode;
+  /** Fee taken from the note on top of amount; the burn's maxFee (cctpFeeFor for fast, 0 for standard) */
+  maxFee: bigint;
+  /** Circle's current fast-transfer fee; unset when the fee API was unreachable */
+  feeBps?: number;
+  /** Circle's fee on grossAmount, or maxFee when feeBps is unknown; the rest stays in the destination pool */
+  expectedFee: bigint;
+  /** False for standard mode, or when Circle's fee exceeds maxFee so the burn settles at standard finality */
+  fast: boolean;
+  /** Typical time from burn to attestation */
+  expectedLatencySeconds: number;
+}
+
+/**
+ * Cost of a cross-chain transfer, from quoteTransfer
+ */
+export interface TransferQuote {
+  dstEid: number;
+  /** Recipient note value */
+  amount: bigint;
+  /** USDC taken from the note and burned: amount plus cctp.maxFee */
+  grossAmount: bigint;
+  /** Options the quote (and initiateTransfer) uses */
+  options: string;
+  /** LayerZero fee as quoted by the bridge */
+  nativeFee: bigint;
+  lzTokenFee: bigint;
+  /** What initiateTransfer sends as msg.value (quote plus buffer, excess refunded) */
+  nativeFeeWithBuffer: bigint;
+  /** Unset when the destination has no CCTP domain (no USDC is moved) */
+  cctp?: CctpFeeQuote & {
+    sourceDomain: number;
+    destinationDomain: number;
+    minFinalityThreshold: number;
+  };
+  breakdown: {
+    /** USDC burned on the source chain */
+    usdcSent: bigint;
+    /** USDC the recipient note holds */
+    usdcDelivered: bigint;
+    /** USDC the note pays for CCTP */
+    usdcFees: bigint;
+    /** Native token spent by the sender (the buffer above it is refunded) */
+    nativeTotal: bigint;
+  };
+}
+
+/**
+ * PrivateLZBridge deposit result
+ */
+export interface BridgeDepositResult extends DepositResult {
+  approvalTxHash?: string;
+}
+
+/**
+ * PrivateLZBridge cross-chain transfer result
+ */
+export interface BridgeTransferResult {
+  txHash: string;
+  blockNumber: number;
+  guid: string;
+  dstEid: number;
+  /** Recipient note value */
+  amount: bigint;
+  /** USDC taken from the note and burned: amount plus cctpFee */
+  grossAmount: bigint;
+  /** CCTP fee paid from the note (the burn's maxFee) */
+  cctpFee: bigint;
+  /** Unset when the destination has no CCTP domain */
+  cctpMode?: CctpTransferMode;
+  /** LayerZero fee sent by the signer; 0 when submitted through a relayer */
+  nativeFee: bigint;
+  /** Fee paid to the relayer out of the note when submitted through one */
+  relayerFee?: bigint;
+  nullifier: string;
+  newSenderCommitment: string;
+  senderLeafIndex: number;
+  recipientCommitment: string;
+  changeNote?: PrivateNote;
+  recipientNote: PrivateNote;
+  /** Inserted on the source chain if the destination cannot credit the transfer (see reclaimRefund) */
+  refundNote: PrivateNote;
+}
+
+/**
+ * PrivateLZBridge withdraw result
+ */
+export interface BridgeWithdrawResult extends WithdrawResult {
+  newLeafIndex?: number;
+  changeNote?: PrivateNote;
+  /** Fee paid out of `amount` when submitted through a relayer */
+  relayerFee?: bigint;
+}
+
+/**
+ * Deposited(user, amount, commitment, leafIndex)
+ */
+export interface DepositedEvent {
+  user: string;
+  amount: bigint;
+  commitment: string;
+  leafIndex: number;
+}
+
+/**
+ * CrossChainTransferInitiated(dstEid, recipientCommitment, amount, grossAmount, nullifier, newSenderCommitment, senderLeafIndex, guid)
+ */
+export interface CrossChainTransferInitiatedEvent {
+  dstEid: number;
+  recipientCommitment: string;
+  /** Recipient note value (net) */
+  amount: bigint;
+  /** amount plus the CCTP fee burned with it */
+  grossAmount: bigint;
+  nullifier: string;
+  newSenderCommitment: string;
+  senderLeafIndex: number;
+  guid: string;
+}
+
+/**
+ * CrossChainTransferReceived(srcEid, commitment, amount, grossAmount, leafIndex)
+ */
+export interface CrossChainTransferReceivedEvent {
+  srcEid: number;
+  commitment: string;
+  amount: bigint;
+  grossAmount: bigint;
+  leafIndex: number;
+}
+
+/**
+ * Withdrawn(recipient, amount, nullifier, newCommitment, newLeafIndex)
+ */
+export interface WithdrawnEvent {
+  recipient: string;
+  amount: bigint;
+  nullifier: string;
+  newCommitment: string;
+  newLeafIndex: number;
+}
+
+/**
+ * Why the destination could not credit a transfer (PrivateLZBridge REFUND_* codes)
+ */
+export type RefundReason = "invalid_peer" | "commitment_exists" | "tree_full" | "unknown";
+
+/**
+ * RefundAckSent(guid, srcEid, reason, amount, usdcReturned), emitted by the destination
+ */
+export interface RefundAckSentEvent {
+  guid: string;
+  srcEid: number;
+  reason: RefundReason;
+  amount: bigint;
+  /** USDC was burned back to the source bridge over CCTP */
+  usdcReturned: boolean;
+}
+
+/**
+ * TransferRefunded(guid, refundCommitment, amount, reason, leafIndex), emitted by the source
+ */
+export interface TransferRefundedEvent {
+  guid: string;
+  refundCommitment: string;
+  amount: bigint;
+  reason: RefundReason;
+  leafIndex: number;
+}
+
+/**
+ * Bridge events decoded from a set of logs
+ */
+export interface BridgeEvents {
+  deposited: DepositedEvent[];
+  transfersInitiated: CrossChainTransferInitiatedEvent[];
+  transfersReceived: CrossChainTransferReceivedEvent[];
+  withdrawn: WithdrawnEvent[];
+  refundAcksSent: RefundAckSentEvent[];
+  transfersRefunded: TransferRefundedEvent[];
+}
+
+/**
+ * RpcPool settings
+ */
+export interface RpcPoolOptions {
+  /** Per-request timeout */
+  timeoutMs?: number;
+  /** First backoff after a failure or rate limit; doubles on each repeat */
+  baseBackoffMs?: number;
+  maxBackoffMs?: number;
+  /** Blocks behind the best endpoint before one is marked unhealthy */
+  maxBlockLag?: number;
+  /** Run checkHealth() on this interval when set */
+  healthCheckIntervalMs?: number;
+}
+
+/**
+ * State of one RpcPool endpoint
+ */
+export interface RpcEndpointStatus {
+  url: string;
+  healthy: boolean;
+  latencyMs?: number;
+  blockNumber?: number;
+  failures: number;
+  /** Not tried again before this time (ms since epoch) unless all endpoints are backed off */
+  backoffUntil: number;
+  lastError?: string;
+}
+
+/**
+ * Cross-chain transfer lifecycle
+ *
+ * initiated -> lz_delivered -> cctp_attested -> usdc_minted -> completed.
+ * Transfers without a CCTP burn go from lz_delivered to completed. "refunded"
+ * (terminal) means the destination could not credit it and the sender's
+ * refund note was inserted on the source. "stuck" (no progress for a while,
+ * may recover) and "failed" (terminal) carry a reason.
+ */
+export type TransferState =
+  | "initiated"
+  | "lz_delivered"
+  | "cctp_attested"
+  | "usdc_minted"
+  | "completed"
+  | "refunded"
+  | "stuck"
+  | "failed";
+
+/**
+ * A tracked cross-chain transfer (JSON-serializable)
+ */
+export interface TrackedTransfer {
+  /** `${srcEid}:${srcTxHash}` */
+  id: string;
+  srcEid: number;
+  dstEid: number;
+  srcTxHash: string;
+  srcBlockNumber: number;
+  guid: string;
+  recipientCommitment: string;
+  /** USDC units the recipient note holds, decimal string */
+  amount: string;
+  /** USDC units burned (amount plus the CCTP fee); missing on transfers tracked before fees */
+  grossAmount?: string;
+  state: TransferState;
+  /** Furthest step reached; differs from state while stuck or failed */
+  stage: TransferState;
+  reason?: string;
+  /** Destination delivery (CrossChainTransferReceived) */
+  lz?: { txHash?: string; blockNumber?: number; leafIndex: number };
+  /** Refund commitment inserted on the source (TransferRefunded) */
+  refund?: { txHash: string; blockNumber: number; leafIndex: number; reason: RefundReason };
+  cctp: {
+    /** False when the source transaction burned no USDC */
+    required: boolean;
+    /** Finality the burn asked for; missing on transfers tracked before modes */
+    mode?: CctpTransferMode;
+    /** Burn maxFee (USDC units, decimal string) */
+    maxFee?: string;
+    status?: string;
+    nonce?: string;
+    message?: string;
+    attestation?: string;
+    minted?: boolean;
+  };
+  /** Destination block to search for the delivery event from */
+  dstFromBlock: number;
+  /** Caller data kept with the transfer (e.g. the recipient note) */
+  context?: Record<string, string>;
+  history: { state: TransferState; at: number; reason?: string }[];
+  createdAt: number;
+  updatedAt: number;
+  /** Last time the transfer advanced (drives stuck detection) */
+  progressedAt: number;
+}
+
+/**
+ * Persistent storage for tracked transfers
+ */
+export interface TransferStore {
+  get(id: string): Promise<TrackedTransfer | undefined>;
+  list(): Promise<TrackedTransfer[]>;
+  put(transfer: TrackedTransfer): Promise<void>;
+}
+
+/**
+ * A chain the transfer tracker reads from
+ */
+export interface TrackerChain {
+  /** LayerZero endpoint ID */
+  eid: number;
+  provider: Provider;
+  bridgeAddress: string;
+  /** CCTP domain; needed to fetch attestations for transfers sent from this chain */
+  cctpDomain?: number;
+  /** MessageTransmitterV2 used to check mints on this chain */
+  messageTransmitter?: string;
+}
+
+/**
+ * TransferTracker settings
+ */
+export interface TransferTrackerOptions {
+  chains: TrackerChain[];
+  /** Defaults to an in-memory store */
+  store?: TransferStore;
+  /** Circle attestation API base URL (defaults to the Iris sandbox) */
+  attestationApiUrl?: string;
+  /** Attestation client to use instead of one built from attestationApiUrl */
+  attestations?: AttestationClient;
+  /** Interval for start() */
+  pollIntervalMs?: number;
+  /** Time without progress before a transfer is marked stuck */
+  stuckAfterMs?: number;
+  /**
+   * Time without an attestation, after LayerZero delivery, before a
+   * standard-finality transfer is marked stuck (fast ones use stuckAfterMs)
+   */
+  standardAttestationStuckAfterMs?: number;
+  /** Destination blocks before the tracking start to search for the delivery event */
+  lookbackBlocks?: number;
+}
+
+// ============ LayerZero Message Recovery ============
+
+/**
+ * A chain LzMessageRecovery reads from (and sends recovery transactions to)
+ */
+export interface LzRecoveryChain {
+  /** LayerZero endpoint ID */
+  eid: number;
+  provider: Provider;
+  bridgeAddress: string;
+  /** EndpointV2 address; defaults to the bridge's lzEndpoint() */
+  endpointAddress?: string;
+  /** First block to scan for sent transfers (e.g. the bridge's deploy block) */
+  fromBlock?: number;
+}
+
+/**
+ * LzMessageRecovery settings
+ */
+export interface LzRecoveryOptions {
+  chains: LzRecoveryChain[];
+  /** Source blocks scanned back from the head for chains without fromBlock */
+  lookbackBlocks?: number;
+}
+
+/**
+ * LayerZero PacketV1 as emitted in the source endpoint's PacketSent
+ */
+export interface LzPacket {
+  nonce: bigint;
+  srcEid: number;
+  /** bytes32 */
+  sender: string;
+  dstEid: number;
+  /** bytes32 */
+  receiver: string;
+  guid: string;
+  message: string;
+}
+
+/**
+ * PrivateLZBridge transfer message: abi.encode(recipientCommitment, amount, grossAmount, stealthData)
+ */
+export interface TransferPayload {
+  recipientCommitment: string;
+  amount: bigint;
+  grossAmount: bigint;
+  stealthData: StealthData;
+}
+
+/**
+ * Where an inbound message is on the destination endpoint
+ * - unverified: not verified by the DVNs yet (or skipped later)
+ * - verified: verified but not executed; lzReceive has not run or reverted
+ * - delivered: executed, cleared or skipped
+ * - nilified: nilified by the OApp and never executable
+ */
+export type LzMessageStatus = "unverified" | "verified" | "delivered" | "nilified";
+
+/**
+ * A transfer message sent by one bridge to another
+ */
+export interface InboundLzMessage extends LzPacket {
+  srcTxHash: string;
+  srcBlockNumber: number;
+  /** Destination bridge address */
+  receiverAddress: string;
+  payload: TransferPayload;
+  /** keccak256(guid ++ message), as stored by the destination endpoint */
+  payloadHash: string;
+  status: LzMessageStatus;
+}
+
+export type LzRecoveryAction = "retry" | "refund" | "clear" | "skip";
+
+/**
+ * Why a message is not delivered and what can be done about it
+ */
+export interface LzDiagnosis {
+  /** lzReceive would succeed if executed now */
+  executable: boolean;
+  /** Revert reason from a static lzReceive call */
+  reason?: string;
+  /** Error code for the revert */
+  code?: MixvmErrorCode;
+  /** Why the destination can never credit it; set when it can be refunded */
+  refundReason?: RefundReason;
+  /** Operations that apply, most useful first */
+  actions: LzRecoveryAction[];
+  advice: string;
+}
+
+/**
+ * A verified message that has not been executed, with its diagnosis
+ */
+export interface StuckLzMessage extends InboundLzMessage {
+  diagnosis: LzDiagnosis;
+}
+
+/**
+ * A mined retry, clear or skip transaction
+ */
+export interface LzRecoveryResult {
+  action: LzRecoveryAction;
+  txHash: string;
+  blockNumber: number;
+}
+
+/**
+ * A burn message as returned by Circle's attestation API (/v2/messages)
+ */
+export interface CctpMessage {
+  /** "pending_confirmations" until attested, then "complete" */
+  status: string;
+  message: string;
+  /** "PENDING" until attested */
+  attestation: string;
+  eventNonce?: string;
+}
+
+/**
+ * Decoded CCTP V2 message header and burn message body
+ */
+export interface DecodedCctpMessage {
+  version: number;
+  sourceDomain: number;
+  destinationDomain: number;
+  nonce: string;
+  sender: string;
+  recipient: string;
+  destinationCaller: string;
+  minFinalityThreshold: number;
+  finalityThresholdExecuted: number;
+  messageBody: string;
+  /** BurnMessageV2 fields, when the body is a burn message */
+  burn?: {
+    version: number;
+    burnToken: string;
+    mintRecipient: string;
+    amount: bigint;
+    messageSender: string;
+    maxFee: bigint;
+    feeExecuted: bigint;
+    expirationBlock: bigint;
+    hookData: string;
+  };
+}
+
+/**
+ * AttestationClient settings
+ */
+export interface AttestationClientOptions {
+  /** Attestation API base URL (defaults to the Iris sandbox) */
+  apiUrl?: string;
+  /** Per-request timeout */
+  timeoutMs?: number;
+  /** First poll delay; doubles after each pending or failed poll */
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+/**
+ * Result of relaying a CCTP message with relayCctpMessage
+ */
+export interface CctpRelayResult {
+  /** "already_relayed" when the nonce was used before; nothing is sent */
+  status: "relayed" | "already_relayed";
+  nonce: string;
+  sourceDomain: number;
+  destinationDomain: number;
+  txHash?: string;
+  gasUsed?: bigint;
+}
+
+// ============ Relayer Service ============
+
+/**
+ * GET /health of a relayer service
+ */
+export interface RelayerServiceStatus {
+  healthy: boolean;
+  /** Chains the relayer submits withdraws on */
+  submit: {
+    chainId: number;
+    name: string;
+    bridge: string;
+    /** Address the relayer fee is paid to */
+    relayer: string;
+    /** Also submits cross-chain transfers from this chain */
+    transfers: boolean;
+  }[];
+}
+
+/**
+ * Fee quote for a relayed withdraw or transfer
+ */
+export interface RelayerQuote {
+  chainId: number;
+  bridge: string;
+  /** Address the fee is paid to; bound into the proof with the fee */
+  relayer: string;
+  /** Set for transfers: the destination endpoint id */
+  dstEid?: number;
+  amount: bigint;
+  /** USDC taken from the withdrawn amount, or from the amount a transfer takes from the note */
+  fee: bigint;
+}
+
+/**
+ * Proven withdrawViaRelayer call sent to a relayer service
+ */
+export interface RelayedWithdrawRequest {
+  chainId: number;
+  recipient: string;
+  relayer: string;
+  fee: bigint;
+  amount: bigint;
+  nullifier: string;
+  newCommitment: string;
+  merkleRoot: string;
+  proof: PackedProof;
+}
+
+/**
+ * Proven initiateTransferViaRelayer call sent to a relayer service
+ */
+export interface RelayedTransferRequest {
+  chainId: number;
+  relayer: string;
+  fee: bigint;
+  dstEid: number;
+  recipientCommitment: string;
+  /** Recipient note value */
+  amount: bigint;
+  nullifier: string;
+  newSenderCommitment: string;
+  refundCommitment: string;
+  merkleRoot: string;
+  proof: PackedProof;
+  stealthData: StealthData;
+  auditData: AuditData;
+  cctpParams: CctpTransferParams;
+  options: string;
+}
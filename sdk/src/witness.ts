@@ -0,0 +1,45 @@
+import * as snarkjs from "snarkjs";
+import { CircuitInputs, CircuitName, CircuitPaths } from "./types";
+
+/**
+ * Artifacts for one circuit
+ */
+export interface CircuitFiles {
+  wasm: string;
+  zkey: string;
+  vkey: string;
+}
+
+/**
+ * Select one circuit's artifact paths
+ */
+export function circuitFiles(paths: CircuitPaths, circuit: CircuitName): CircuitFiles {
+  return circuit === "transfer"
+    ? { wasm: paths.transferWasm, zkey: paths.transferZkey, vkey: paths.transferVkey }
+    : { wasm: paths.withdrawWasm, zkey: paths.withdrawZkey, vkey: paths.withdrawVkey };
+}
+
+/**
+ * Compute a circuit witness (.wtns bytes)
+ *
+ * Shared by every prover so witness errors (unsatisfied constraints, bad
+ * inputs) surface the same way regardless of backend.
+ *
+ * @param wasm Path to the circuit wasm, or its contents
+ * @param inputs Input signals
+ */
+export async function calculateWitness(
+  wasm: string | Uint8Array,
+  inputs: CircuitInputs
+): Promise<Uint8Array> {
+  const wtns: snarkjs.MemFile = { type: "mem" };
+  await snarkjs.wtns.calculate(
+    inputs,
+    typeof wasm === "string" ? wasm : { type: "mem", data: wasm },
+    wtns
+  );
+  if (!wtns.data) {
+    throw new Error("Witness calculation produced no output");
+  }
+  return wtns.data;
+}
@@ -1,290 +1,210 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
-import { Signer, parseEther, formatEther } from "ethers";
+import { PrivateLZBridgeClient } from "../../sdk/src/bridge";
+import { AttestationClient, relayCctpMessage } from "../../sdk/src/cctp";
+import { parseBridgeEvents } from "../../sdk/src/events";
+import { MemoryNoteStore } from "../../sdk/src/notes";
+import { computeCommitment } from "../../sdk/src/poseidon";
+import { TransferTracker } from "../../sdk/src/tracker";
+import { BridgeTransferResult, PrivateNote } from "../../sdk/src/types";
+import {
+  DEVNET_CIRCUITS,
+  Devnet,
+  DevnetChain,
+  deployDevnet,
+  devnetChain,
+  devnetChainInfo,
+  devnetDestinations,
+  devnetTrackerChains,
+  fundUsdc,
+} from "../../scripts/devnet/fixtures";
+import { LocalAttestationApi, LocalLzRelayer } from "../../scripts/devnet/relayers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 
 /**
  * Full Flow E2E Test
  *
- * Tests the complete privacy system:
- * 1. Deposit USDC into privacy pool
- * 2. Private transfer to another user
- * 3. Withdraw from privacy pool
- *
- * Prerequisites:
- * - Contracts deployed on Arc Testnet
- * - Circuit files compiled (private_transfer.wasm/zkey, withdraw.wasm/zkey)
- * - Test wallets funded with USDC
+ * Runs the complete privacy flow offline on the local devnet (Base and
+ * Ethereum bridges on the Hardhat network, mock LayerZero endpoint and CCTP,
+ * real Poseidon hasher and Groth16 verifiers):
+ * 1. Deposit USDC into the Base pool
+ * 2. initiateTransfer to Ethereum with a real transfer proof
+ * 3. LayerZero delivery inserts the recipient commitment on Ethereum
+ * 4. The attested CCTP burn is relayed and mints USDC to the Ethereum pool
+ * 5. The recipient withdraws on Ethereum with a real withdraw proof
  */
 
-// Contract addresses (from deployed_addresses.json)
-const CONTRACTS = {
-  privateUSDC: "0x409bCe14ACA25c00E558CB2A95bE6ecFbFD5c710",
-  transferVerifier: "0x95fe4F40000c36CBfD32619C631Fd56Fe4e1f7d2",
-  withdrawVerifier: "0x45f043b1C830b4a43487B724A4cde7ae37Af4D7F",
-  poseidonHasher: "0x8a228D723444105592b0d51cd342C9d28bC52bfa",
-};
-
-// Circuit paths
-const CIRCUIT_PATHS = {
-  transferWasm: "./privacy-poc/build/private_transfer_js/private_transfer.wasm",
-  transferZkey: "./privacy-poc/build/private_transfer_final.zkey",
-  transferVkey: "./privacy-poc/build/private_transfer_verification_key.json",
-  withdrawWasm: "./privacy-poc/build/withdraw_js/withdraw.wasm",
-  withdrawZkey: "./privacy-poc/build/withdraw_final.zkey",
-  withdrawVkey: "./privacy-poc/build/withdraw_verification_key.json",
-};
-
-// Simplified ABI for testing
-const PRIVATE_USDC_ABI = [
-  "function deposit(bytes32 commitment) external payable",
-  "function getMerkleRoot() view returns (bytes32)",
-  "function nextLeafIndex() view returns (uint256)",
-  "function isUserRegistered(address) view returns (bool)",
-  "function commitmentExists(bytes32) view returns (bool)",
-  "event Deposited(address indexed user, uint256 amount, bytes32 indexed commitment, uint256 leafIndex)",
-];
-
-// Field size for BN254
-const FIELD_SIZE = BigInt("21888242871839275222246405745257275088548364400416034343698204186575808495617");
-
-// Simple hash for testing (placeholder for Poseidon)
-function simpleHash(a: bigint, b: bigint): bigint {
-  const combined = a.toString() + b.toString();
-  let hash = BigInt(0);
-  for (let i = 0; i < combined.length; i++) {
-    hash = (hash * BigInt(31) + BigInt(combined.charCodeAt(i))) % FIELD_SIZE;
-  }
-  return hash;
-}
-
-function randomFieldElement(): bigint {
-  const bytes = ethers.randomBytes(31);
-  return BigInt("0x" + Buffer.from(bytes).toString("hex")) % FIELD_SIZE;
-}
-
-function toBytes32(value: bigint): string {
-  return "0x" + value.toString(16).padStart(64, "0");
-}
-
 describe("Full Flow E2E", function () {
-  // Increase timeout for blockchain operations
-  this.timeout(120000);
-
-  let alice: Signer;
-  let bob: Signer;
-  let aliceAddress: string;
-  let bobAddress: string;
-  let contract: any;
+  // Proving runs in-process on the CPU
+  this.timeout(600000);
+
+  let devnet: Devnet;
+  let base: DevnetChain;
+  let eth: DevnetChain;
+  let api: LocalAttestationApi;
+  let apiUrl: string;
+  let lz: LocalLzRelayer;
+  let tracker: TransferTracker;
+  let alice: HardhatEthersSigner;
+  let bob: HardhatEthersSigner;
+  let aliceClient: PrivateLZBridgeClient;
+  let bobClient: PrivateLZBridgeClient;
+  let aliceNotes: MemoryNoteStore;
+  let bobNotes: MemoryNoteStore;
+
+  let depositNote: PrivateNote;
+  let transfer: BridgeTransferResult;
+  let trackedId: string;
 
   before(async function () {
-    // Get signers
-    const signers = await ethers.getSigners();
-    alice = signers[0];
-    bob = signers[1] || signers[0]; // Use same signer if only one available
-
-    aliceAddress = await alice.getAddress();
-    bobAddress = await bob.getAddress();
-
-    console.log("Alice:", aliceAddress);
-    console.log("Bob:", bobAddress);
+    [alice, bob] = await ethers.getSigners();
+    devnet = await deployDevnet({
+      chains: [
+        { name: "base", eid: 40245, cctpDomain: 6 },
+        { name: "ethereum", eid: 40161, cctpDomain: 0 },
+      ],
+    });
+    base = devnetChain(devnet, "base");
+    eth = devnetChain(devnet, "ethereum");
+
+    api = new LocalAttestationApi(devnet.chains, devnet.attester);
+    apiUrl = await api.listen();
+    lz = new LocalLzRelayer(devnet.chains);
+    tracker = new TransferTracker({
+      chains: devnetTrackerChains(devnet),
+      attestations: new AttestationClient({ apiUrl }),
+    });
 
-    // Connect to contract
-    contract = new ethers.Contract(CONTRACTS.privateUSDC, PRIVATE_USDC_ABI, alice);
+    aliceNotes = new MemoryNoteStore();
+    aliceClient = new PrivateLZBridgeClient({
+      provider: ethers.provider,
+      signer: alice,
+      noteStore: aliceNotes,
+      bridgeAddress: base.addresses.bridge,
+      deployBlock: base.deployBlock,
+      circuitPaths: DEVNET_CIRCUITS,
+      destinations: devnetDestinations(devnet, base),
+      attestations: new AttestationClient({ apiUrl }),
+    });
+    bobNotes = new MemoryNoteStore();
+    bobClient = new PrivateLZBridgeClient({
+      provider: ethers.provider,
+      signer: bob,
+      bridgeAddress: eth.addresses.bridge,
+      deployBlock: eth.deployBlock,
+      circuitPaths: DEVNET_CIRCUITS,
+      noteStore: bobNotes,
+    });
+    await aliceClient.initialize();
+    await bobClient.initialize();
 
-    // Check balances
-    const aliceBalance = await ethers.provider.getBalance(aliceAddress);
-    console.log("Alice balance:", formatEther(aliceBalance), "USDC");
+    await fundUsdc(base, alice.address, 20_000_000n);
+  });
 
-    if (aliceBalance < parseEther("0.1")) {
-      console.warn("Warning: Alice may not have enough balance for testing");
-    }
+  after(async function () {
+    await api?.close();
   });
 
   describe("Deposit", function () {
-    it("should deposit USDC and create commitment", async function () {
-      const depositAmount = parseEther("0.01");
-
-      // Generate commitment
-      const randomness = randomFieldElement();
-      const commitment = simpleHash(depositAmount, randomness);
-      const commitmentBytes32 = toBytes32(commitment);
-
-      console.log("\nDeposit Details:");
-      console.log("  Amount:", formatEther(depositAmount), "USDC");
-      console.log("  Commitment:", commitmentBytes32.slice(0, 20) + "...");
-
-      // Get initial state
-      const initialLeafIndex = await contract.nextLeafIndex();
-      console.log("  Initial leaf index:", initialLeafIndex.toString());
-
-      // Execute deposit
-      const tx = await contract.deposit(commitmentBytes32, { value: depositAmount });
-      console.log("  TX Hash:", tx.hash);
-
-      const receipt = await tx.wait();
-      expect(receipt.status).to.equal(1);
-
-      // Verify commitment exists
-      const exists = await contract.commitmentExists(commitmentBytes32);
-      expect(exists).to.be.true;
-
-      // Verify leaf index incremented
-      const newLeafIndex = await contract.nextLeafIndex();
-      expect(newLeafIndex).to.equal(initialLeafIndex + 1n);
-
-      console.log("  New leaf index:", newLeafIndex.toString());
-      console.log("  Deposit successful!");
+    it("should deposit USDC and insert a Poseidon commitment", async function () {
+      const result = await aliceClient.deposit(10_000_000n);
+      depositNote = result.note;
+
+      expect(depositNote.commitment).to.equal(computeCommitment(10_000_000n, depositNote.randomness));
+      expect(await base.bridge.commitmentExists(result.commitment)).to.equal(true);
+      expect(result.leafIndex).to.equal(0);
+      expect(await base.usdc.balanceOf(base.addresses.bridge)).to.equal(10_000_000n);
+      // The local tree (real Poseidon) matches the bridge's root
+      expect(await aliceClient.getOnChainMerkleRoot()).to.equal(BigInt(await base.bridge.getLastRoot()));
     });
 
-    it("should prevent duplicate commitment", async function () {
-      const depositAmount = parseEther("0.01");
-      const randomness = randomFieldElement();
-      const commitment = simpleHash(depositAmount, randomness);
-      const commitmentBytes32 = toBytes32(commitment);
-
-      // First deposit
-      await contract.deposit(commitmentBytes32, { value: depositAmount });
-
-      // Second deposit with same commitment should fail
-      try {
-        await contract.deposit(commitmentBytes32, { value: depositAmount });
-        expect.fail("Should have reverted");
-      } catch (error: any) {
-        // Expected to fail
-        console.log("  Duplicate commitment correctly rejected");
-      }
+    it("should reject a duplicate commitment", async function () {
+      await (await base.usdc.approve(base.addresses.bridge, 1n)).wait();
+      await expect(
+        base.bridge.deposit(1n, ethers.toBeHex(depositNote.commitment, 32))
+      ).to.be.revertedWith("Commitment exists");
     });
   });
 
-  describe("Merkle Tree", function () {
-    it("should return valid merkle root", async function () {
-      const merkleRoot = await contract.getMerkleRoot();
-      console.log("\nMerkle Root:", merkleRoot);
-
-      expect(merkleRoot).to.not.equal(ethers.ZeroHash);
+  describe("Cross-Chain Transfer", function () {
+    it("should initiate a transfer to Ethereum with a real proof", async function () {
+      const quote = await aliceClient.quoteTransfer(eth.eid, 4_000_000n, { sourceDomain: base.cctpDomain });
+      expect(quote.cctp!.mode).to.equal("fast");
+
+      transfer = await aliceClient.initiateTransfer({ dstEid: eth.eid, amount: 4_000_000n, note: depositNote });
+      expect(transfer.cctpFee).to.equal(quote.cctp!.maxFee);
+      expect(transfer.amount).to.equal(quote.amount);
+      expect(transfer.grossAmount).to.equal(4_000_000n);
+      expect(transfer.recipientNote.balance).to.equal(4_000_000n - transfer.cctpFee);
+      expect(transfer.changeNote!.balance).to.equal(6_000_000n);
+      expect(await base.bridge.nullifiers(transfer.nullifier)).to.equal(true);
+      // The note paid the whole burn, fee included
+      expect(await base.usdc.balanceOf(base.addresses.bridge)).to.equal(6_000_000n);
+      // The refund note is kept until the transfer is delivered or refunded
+      const stored = (await aliceNotes.list()).find((n) => n.commitment === transfer.refundNote.commitment);
+      expect(stored!.status).to.equal("refundable");
+
+      trackedId = (await tracker.track(base.eid, transfer.txHash)).id;
     });
-  });
-
-  describe("Multiple Deposits", function () {
-    it("should handle multiple deposits", async function () {
-      const numDeposits = 3;
-      const depositAmount = parseEther("0.005");
-
-      console.log("\nMultiple Deposits Test:");
 
-      for (let i = 0; i < numDeposits; i++) {
-        const randomness = randomFieldElement();
-        const commitment = simpleHash(depositAmount, randomness);
-        const commitmentBytes32 = toBytes32(commitment);
-
-        const tx = await contract.deposit(commitmentBytes32, { value: depositAmount });
-        await tx.wait();
-
-        console.log(`  Deposit ${i + 1} complete`);
-      }
-
-      const finalLeafIndex = await contract.nextLeafIndex();
-      console.log(`  Final leaf index: ${finalLeafIndex}`);
+    it("should deliver the commitment over LayerZero", async function () {
+      const [delivery] = await lz.deliverTx(base.eid, transfer.txHash);
+      expect(delivery.status).to.equal("delivered");
+      expect(delivery.packet.guid).to.equal(transfer.guid);
+
+      const receipt = await ethers.provider.getTransactionReceipt(delivery.txHash!);
+      const [received] = parseBridgeEvents(receipt!.logs, eth.addresses.bridge).transfersReceived;
+      expect(received.commitment).to.equal(transfer.recipientCommitment);
+      expect(received.amount).to.equal(transfer.amount);
+      // Already executed, so the next sweep has nothing to deliver
+      expect(await lz.deliverPending()).to.deep.equal([]);
+
+      const tracked = await tracker.poll(trackedId);
+      expect(tracked.lz!.leafIndex).to.equal(received.leafIndex);
+      expect(tracked.state).to.equal("cctp_attested");
     });
-  });
-
-  describe("Contract State", function () {
-    it("should have correct state after deposits", async function () {
-      const merkleRoot = await contract.getMerkleRoot();
-      const leafIndex = await contract.nextLeafIndex();
-
-      console.log("\nContract State:");
-      console.log("  Merkle Root:", merkleRoot);
-      console.log("  Next Leaf Index:", leafIndex.toString());
 
-      expect(Number(leafIndex)).to.be.greaterThan(0);
-    });
-  });
+    it("should mint the attested USDC to the Ethereum pool", async function () {
+      const [message] = await new AttestationClient({ apiUrl }).getMessages(base.cctpDomain, transfer.txHash);
+      const result = await relayCctpMessage(eth.signer, message, { chain: devnetChainInfo(eth) });
+      expect(result.status).to.equal("relayed");
 
-  // Note: Full transfer and withdraw tests require ZK proof generation
-  // which needs snarkjs and circuit files
-  describe("Private Transfer (Requires Circuit)", function () {
-    it.skip("should execute private transfer with ZK proof", async function () {
-      // This test requires:
-      // 1. snarkjs to generate proof
-      // 2. Circuit files (private_transfer.wasm, .zkey)
-      // 3. Proper merkle proof generation
+      // The pool receives at least the recipient's amount: Circle keeps at most maxFee
+      const minted = await eth.usdc.balanceOf(eth.addresses.bridge);
+      expect(minted >= transfer.amount && minted <= transfer.grossAmount).to.equal(true);
+      expect((await tracker.poll(trackedId)).state).to.equal("completed");
 
-      console.log("\nPrivate Transfer Test:");
-      console.log("  Skipped - requires ZK proof generation");
-      console.log("  Run with full SDK to test");
+      // A forged attestation is rejected
+      const forged = { ...message, attestation: ethers.Wallet.createRandom().signingKey.sign(ethers.keccak256(message.message)).serialized };
+      await expect(eth.messageTransmitter.receiveMessage(forged.message, forged.attestation))
+        .to.be.revertedWith("Invalid signature: not attester");
     });
   });
 
-  describe("Withdraw (Requires Circuit)", function () {
-    it.skip("should execute withdraw with ZK proof", async function () {
-      // This test requires:
-      // 1. snarkjs to generate proof
-      // 2. Circuit files (withdraw.wasm, .zkey)
-      // 3. Proper merkle proof generation
-
-      console.log("\nWithdraw Test:");
-      console.log("  Skipped - requires ZK proof generation");
-      console.log("  Run with full SDK to test");
+  describe("Withdraw", function () {
+    it("should let the recipient withdraw on Ethereum with a real proof", async function () {
+      const tracked = await tracker.get(trackedId);
+      const note: PrivateNote = {
+        ...transfer.recipientNote,
+        leafIndex: tracked!.lz!.leafIndex,
+        chainId: eth.chainId,
+        bridgeAddress: eth.addresses.bridge,
+        status: "unspent",
+      };
+      await bobNotes.put([note]);
+      await bobClient.syncMerkleTree();
+
+      const result = await bobClient.withdraw(3_000_000n, note, bob.address);
+      expect(await eth.usdc.balanceOf(bob.address)).to.equal(3_000_000n);
+      expect(result.changeNote!.balance).to.equal(transfer.amount - 3_000_000n);
+      expect((await bobClient.getNotes()).map((n) => n.balance)).to.deep.equal([transfer.amount - 3_000_000n]);
     });
-  });
-
-  describe("Cross-Chain Transfer (Future)", function () {
-    it.skip("should initiate cross-chain transfer", async function () {
-      // This test requires:
-      // 1. CCTP source contract deployed
-      // 2. Destination contract on target chain
-      // 3. CCTP attestation service
 
-      console.log("\nCross-Chain Transfer Test:");
-      console.log("  Skipped - requires CCTP setup");
+    it("should let the sender withdraw the change note on Base", async function () {
+      const before = await base.usdc.balanceOf(alice.address);
+      await aliceClient.withdraw(6_000_000n, transfer.changeNote!, alice.address);
+      expect((await base.usdc.balanceOf(alice.address)) - before).to.equal(6_000_000n);
+      expect(await base.usdc.balanceOf(base.addresses.bridge)).to.equal(0n);
     });
   });
 });
-
-/**
- * Integration test with full SDK
- */
-describe("SDK Integration E2E", function () {
-  this.timeout(300000);
-
-  it.skip("should complete full flow with SDK", async function () {
-    // This would use the full SDK:
-    //
-    // const sdk = new PrivateUSDCSDK({
-    //   provider: ethers.provider,
-    //   signer: alice,
-    //   contractAddress: CONTRACTS.privateUSDC,
-    //   circuitPaths: CIRCUIT_PATHS,
-    // });
-    //
-    // await sdk.initialize();
-    //
-    // // Deposit
-    // const depositResult = await sdk.deposit(parseEther("1.0"));
-    // expect(depositResult.txHash).to.not.be.empty;
-    //
-    // // Transfer
-    // const bobKeys = await sdk.getRecipientStealthAddress(bobAddress);
-    // const transferResult = await sdk.privateTransfer(
-    //   bobKeys.spendingPubKeyX,
-    //   bobKeys.spendingPubKeyY,
-    //   bobKeys.viewingPubKeyX,
-    //   bobKeys.viewingPubKeyY,
-    //   parseEther("0.3"),
-    //   depositResult.note
-    // );
-    // expect(transferResult.txHash).to.not.be.empty;
-    //
-    // // Withdraw
-    // const withdrawResult = await sdk.withdraw(
-    //   parseEther("0.5"),
-    //   /* updated note */,
-    //   aliceAddress
-    // );
-    // expect(withdrawResult.txHash).to.not.be.empty;
-
-    console.log("\nSDK Integration Test:");
-    console.log("  Skipped - requires full SDK setup");
-  });
-});
@@ -0,0 +1,294 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import * as fs from "fs";
+import * as http from "http";
+import * as os from "os";
+import * as path from "path";
+import { AddressInfo } from "net";
+import { AttestationClient } from "../../sdk/src/cctp";
+import { CctpRelayer, RelayerDb, RelayerChain, burnId, createStatusServer } from "../../relayer/src";
+import {
+    MockBridgeEvents,
+    MockBridgeEvents__factory,
+    MockMessageTransmitterV2,
+    MockMessageTransmitterV2__factory,
+} from "../../typechain-types";
+
+/**
+ * CCTP Relayer E2E Test
+ *
+ * Runs the relayer against the local Hardhat network with two "chains"
+ * (Base Sepolia and Arbitrum Sepolia domains) and a mock attestation API:
+ * 1. Burn picked up from bridge events and persisted
+ * 2. Attestation polled until ready, across a restart
+ * 3. receiveMessage relayed once; messages relayed by others are skipped
+ * 4. Health and metrics endpoints
+ */
+
+const BASE = { eid: 40245, domain: 6 };
+const ARB = { eid: 40231, domain: 3 };
+const TOKEN_MESSENGER_V2 = "0x8FE6B999Dc680CcFDD5Bf7EB0974218be2542DAA";
+
+interface MockBurn {
+    message: string;
+    pendingPolls: number;
+}
+
+// Circle attestation API stand-in: /v2/messages/{domain}?transactionHash=
+class MockAttestationApi {
+    burns = new Map<string, MockBurn>();
+    failNext = 0;
+    requests = 0;
+    private server = http.createServer((req, res) => this.handle(req, res));
+
+    async listen(): Promise<string> {
+        await new Promise<void>((resolve) => this.server.listen(0, "127.0.0.1", resolve));
+        return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+    }
+
+    close(): Promise<void> {
+        return new Promise((resolve) => this.server.close(() => resolve()));
+    }
+
+    private handle(req: http.IncomingMessage, res: http.ServerResponse) {
+        this.requests++;
+        const url = new URL(req.url ?? "/", "http://localhost");
+        const burn = this.burns.get((url.searchParams.get("transactionHash") ?? "").toLowerCase());
+        if (this.failNext > 0) {
+            this.failNext--;
+            res.writeHead(503).end("{}");
+        } else if (!burn) {
+            res.writeHead(404).end("{}");
+        } else if (burn.pendingPolls > 0) {
+            burn.pendingPolls--;
+            res.writeHead(200).end(JSON.stringify({
+                messages: [{ status: "pending_confirmations", message: "0x", attestation: "PENDING" }],
+            }));
+        } else {
+            res.writeHead(200).end(JSON.stringify({
+                messages: [{ status: "complete", message: burn.message, attestation: "0x" + "ab".repeat(65) }],
+            }));
+        }
+    }
+}
+
+// CCTP V2 message with a BurnMessageV2 body, nonce derived from the source tx
+function cctpMessage(txHash: string, sourceDomain: number, destinationDomain: number, mintRecipient: string, amount: bigint) {
+    const u32 = (n: number) => ethers.toBeHex(n, 4);
+    const word = (address: string) => ethers.zeroPadValue(address, 32);
+    const body = ethers.concat([
+        u32(1),
+        word("0x036CbD53842c5426634e7929541eC2318f3dCF7e"),
+        word(mintRecipient),
+        ethers.toBeHex(amount, 32),
+        word(ethers.ZeroAddress),
+        ethers.toBeHex(amount / 1000n, 32),
+        ethers.toBeHex(0, 32),
+        ethers.toBeHex(0, 32),
+    ]);
+    const nonce = ethers.keccak256(txHash);
+    const message = ethers.concat([
+        u32(1),
+        u32(sourceDomain),
+        u32(destinationDomain),
+        nonce,
+        word(TOKEN_MESSENGER_V2),
+        word(TOKEN_MESSENGER_V2),
+        ethers.ZeroHash,
+        u32(1000),
+        u32(1000),
+        body,
+    ]);
+    return { message, nonce };
+}
+
+describe("CCTP Relayer E2E", function () {
+    this.timeout(60000);
+
+    let api: MockAttestationApi;
+    let apiUrl: string;
+    let dbPath: string;
+    let db: RelayerDb;
+    let chains: RelayerChain[];
+    let baseBridge: MockBridgeEvents;
+    let arbBridge: MockBridgeEvents;
+    let arbTransmitter: MockMessageTransmitterV2;
+
+    function newRelayer(): CctpRelayer {
+        return new CctpRelayer({
+            chains,
+            db,
+            attestations: new AttestationClient({ apiUrl, timeoutMs: 5000 }),
+            pollIntervalMs: 100,
+            retryDelayMs: 0,
+        });
+    }
+
+    // Emit a CCTP-backed transfer from Base and register it with the mock API
+    async function sendBurn(amount: bigint, pendingPolls: number) {
+        const tx = await baseBridge.initiateTransfer(ARB.eid, ARB.domain, ethers.hexlify(ethers.randomBytes(32)), amount);
+        await tx.wait();
+        const { message, nonce } = cctpMessage(tx.hash, BASE.domain, ARB.domain, await arbBridge.getAddress(), amount);
+        api.burns.set(tx.hash.toLowerCase(), { message, pendingPolls });
+        return { txHash: tx.hash, id: burnId(BASE.domain, tx.hash), message, nonce };
+    }
+
+    before(async function () {
+        const [signer] = await ethers.getSigners();
+        const Bridge = new MockBridgeEvents__factory(signer);
+        const Transmitter = new MockMessageTransmitterV2__factory(signer);
+        baseBridge = await Bridge.deploy();
+        arbBridge = await Bridge.deploy();
+        const baseTransmitter = await Transmitter.deploy(BASE.domain);
+        arbTransmitter = await Transmitter.deploy(ARB.domain);
+        const startBlock = await ethers.provider.getBlockNumber();
+
+        api = new MockAttestationApi();
+        apiUrl = await api.listen();
+        dbPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "mixvm-relayer-")), "relayer.db");
+        db = new RelayerDb(dbPath);
+
+        chains = [
+            {
+                name: "Base Sepolia (local)",
+                eid: BASE.eid,
+                cctpDomain: BASE.domain,
+                provider: ethers.provider,
+                signer,
+                bridgeAddress: await baseBridge.getAddress(),
+                messageTransmitter: await baseTransmitter.getAddress(),
+                startBlock,
+                confirmations: 0,
+            },
+            {
+                name: "Arbitrum Sepolia (local)",
+                eid: ARB.eid,
+                cctpDomain: ARB.domain,
+                provider: ethers.provider,
+                signer,
+                bridgeAddress: await arbBridge.getAddress(),
+                messageTransmitter: await arbTransmitter.getAddress(),
+                startBlock,
+                confirmations: 0,
+            },
+        ];
+    });
+
+    after(async function () {
+        db.close();
+        await api.close();
+        fs.rmSync(path.dirname(dbPath), { recursive: true, force: true });
+    });
+
+    it("should relay a burn once attested, resuming after a restart", async function () {
+        const burn = await sendBurn(1_000_000n, 1);
+
+        const first = newRelayer();
+        const detected: string[] = [];
+        first.on("burn", (record) => detected.push(record.id));
+        await first.tick();
+
+        expect(detected).to.deep.equal([burn.id]);
+        const pending = db.getBurn(burn.id)!;
+        expect(pending.status).to.equal("pending");
+        expect(pending.dstEid).to.equal(ARB.eid);
+        expect(pending.amount).to.equal(1_000_000n);
+
+        // Restart on the same database: no rescan duplicates, attestation now ready
+        db.close();
+        db = new RelayerDb(dbPath);
+        const second = newRelayer();
+        const redetected: string[] = [];
+        second.on("burn", (record) => redetected.push(record.id));
+        await second.tick();
+
+        expect(redetected).to.be.empty;
+        const relayed = db.getBurn(burn.id)!;
+        expect(relayed.status).to.equal("relayed");
+        expect(relayed.nonce).to.equal(burn.nonce);
+        expect(relayed.relayTxHash).to.match(/^0x[0-9a-f]{64}$/);
+        expect(await arbTransmitter.usedNonces(burn.nonce)).to.equal(1n);
+        expect(db.listBurns()).to.have.length(1);
+
+        // Nothing left to do
+        const requests = api.requests;
+        await second.tick();
+        expect(api.requests).to.equal(requests);
+    });
+
+    it("should not resend a message someone else relayed", async function () {
+        const burn = await sendBurn(2_000_000n, 0);
+        await (await arbTransmitter.receiveMessage(burn.message, "0x01")).wait();
+
+        const relayer = newRelayer();
+        await relayer.tick();
+
+        const record = db.getBurn(burn.id)!;
+        expect(record.status).to.equal("already_relayed");
+        expect(record.relayTxHash).to.be.undefined;
+        expect(relayer.counters.alreadyRelayed).to.equal(1);
+    });
+
+    it("should back off on attestation API outages without using attempts", async function () {
+        const burn = await sendBurn(3_000_000n, 0);
+        api.failNext = 1;
+
+        const relayer = newRelayer();
+        await relayer.tick();
+        let record = db.getBurn(burn.id)!;
+        expect(record.status).to.equal("pending");
+        expect(record.attempts).to.equal(0);
+        expect(record.lastError).to.contain("503");
+        expect(relayer.counters.attestationErrors).to.equal(1);
+
+        db.updateBurn(burn.id, { nextAttemptAt: 0 });
+        await relayer.tick();
+        record = db.getBurn(burn.id)!;
+        expect(record.status).to.equal("relayed");
+        expect(record.lastError).to.be.undefined;
+    });
+
+    it("should skip burns to domains it does not serve", async function () {
+        const tx = await baseBridge.initiateTransfer(40999, 99, ethers.ZeroHash, 1n);
+        await tx.wait();
+
+        const relayer = newRelayer();
+        const skipped: number[] = [];
+        relayer.on("skipped", (_chain, _txHash, domain) => skipped.push(domain));
+        await relayer.tick();
+
+        expect(skipped).to.deep.equal([99]);
+        expect(db.getBurn(burnId(BASE.domain, tx.hash))).to.be.undefined;
+    });
+
+    it("should serve health and metrics", async function () {
+        const relayer = newRelayer();
+        const server = createStatusServer(relayer);
+        await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+        const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+        try {
+            expect((await fetch(`${url}/health`)).status).to.equal(503);
+
+            const ticked = new Promise((resolve) => relayer.once("tick", resolve));
+            relayer.start();
+            await ticked;
+
+            const health = await fetch(`${url}/health`);
+            expect(health.status).to.equal(200);
+            const body = await health.json();
+            expect(body.healthy).to.equal(true);
+            expect(body.burns.relayed).to.equal(2);
+            expect(body.chains.map((chain: { cctpDomain: number }) => chain.cctpDomain)).to.deep.equal([BASE.domain, ARB.domain]);
+
+            const metrics = await (await fetch(`${url}/metrics`)).text();
+            expect(metrics).to.contain('mixvm_relayer_burns{status="relayed"} 2');
+            expect(metrics).to.contain('mixvm_relayer_burns{status="already_relayed"} 1');
+            expect(metrics).to.contain("mixvm_relayer_up 1");
+            expect(metrics).to.match(/mixvm_relayer_chain_lag_blocks\{chain="Base Sepolia \(local\)",domain="6"\} 0/);
+        } finally {
+            await relayer.stop();
+            await new Promise((resolve) => server.close(resolve));
+        }
+    });
+});
@@ -0,0 +1,551 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import * as fs from "fs";
+import * as http from "http";
+import * as os from "os";
+import * as path from "path";
+import { AddressInfo } from "net";
+import { AttestationClient } from "../../sdk/src/cctp";
+import { LzMessageRecovery } from "../../sdk/src/lzRecovery";
+import { PoolMonitor, RelayerDb, WebhookNotifier, WebhookPayload, createMonitorServer } from "../../relayer/src";
+import {
+    Devnet,
+    DevnetChain,
+    EMPTY_AUDIT,
+    EMPTY_PROOF,
+    EMPTY_STEALTH,
+    deployDevnet,
+    devnetChain,
+    randomField,
+} from "../../scripts/devnet/fixtures";
+import { LocalAttestationApi, LocalLzRelayer } from "../../scripts/devnet/relayers";
+import { MockWithdrawVerifier__factory } from "../../typechain-types";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+
+/**
+ * Pool Monitor Test
+ *
+ * Watches two devnet bridges while USDC moves through them:
+ * 1. Deposits and transfers balance out, counting CCTP mints in flight
+ * 2. A burn not attested in time and a message not delivered in time each
+ *    alert once and resolve once
+ * 3. A drained pool is reported insolvent; a rejected webhook call is retried
+ * 4. Tree fill and root turnover warnings
+ * 5. Health and Prometheus metrics
+ * 6. A refund burned back before either side's figures catch up stays solvent
+ * 7. A restart resumes from the saved cursors, and attestation lookups are
+ *    capped per tick
+ * 8. Relayer fees paid out of the pool by relayed transfers and withdraws
+ *    are counted once
+ */
+
+const STUCK_AFTER = 600;
+
+// A standard-finality transfer between two devnet bridges
+async function sendTransfer(src: DevnetChain, dst: DevnetChain, amount: bigint, recipientCommitment = randomField()) {
+    const tx = await src.bridge.initiateTransfer(
+        dst.eid,
+        recipientCommitment,
+        amount,
+        randomField(),
+        randomField(),
+        randomField(),
+        await src.bridge.getLastRoot(),
+        EMPTY_PROOF,
+        EMPTY_STEALTH,
+        EMPTY_AUDIT,
+        { minFinalityThreshold: 2000, maxFee: 0n },
+        "0x",
+        { value: ethers.parseEther("0.01") }
+    );
+    await tx.wait();
+    return tx.hash as string;
+}
+
+// Mint a burn's USDC on its destination as a CCTP relayer would
+async function mintBurn(api: LocalAttestationApi, src: DevnetChain, dst: DevnetChain, txHash: string) {
+    const [message] = await api.messages(src.cctpDomain, txHash);
+    await (await dst.messageTransmitter.receiveMessage(message.message, message.attestation)).wait();
+}
+
+function monitorChains(devnet: Devnet, confirmations: Record<string, number> = {}) {
+    return devnet.chains.map((chain) => ({
+        name: chain.name,
+        eid: chain.eid,
+        cctpDomain: chain.cctpDomain,
+        provider: chain.provider,
+        bridgeAddress: chain.addresses.bridge,
+        messageTransmitter: chain.addresses.messageTransmitter,
+        startBlock: chain.deployBlock,
+        confirmations: confirmations[chain.name] ?? 0,
+    }));
+}
+
+// Alert receiver: records every body, rejects the next `failNext` requests
+class WebhookStub {
+    received: WebhookPayload[] = [];
+    failNext = 0;
+    private server = http.createServer((req, res) => {
+        const chunks: Buffer[] = [];
+        req.on("data", (chunk: Buffer) => chunks.push(chunk));
+        req.on("end", () => {
+            if (this.failNext > 0) {
+                this.failNext--;
+                res.writeHead(500).end();
+                return;
+            }
+            this.received.push(JSON.parse(Buffer.concat(chunks).toString("utf8")));
+            res.writeHead(204).end();
+        });
+    });
+
+    async listen(): Promise<string> {
+        await new Promise<void>((resolve) => this.server.listen(0, "127.0.0.1", resolve));
+        return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/alerts`;
+    }
+
+    close(): Promise<void> {
+        return new Promise((resolve) => this.server.close(() => resolve()));
+    }
+
+    // [status, alert kind] of the bodies received so far
+    summary(): [string, string][] {
+        return this.received.map((body) => [body.status, body.alert.kind]);
+    }
+}
+
+describe("Pool Monitor", function () {
+    this.timeout(180000);
+
+    let owner: HardhatEthersSigner;
+    let base: DevnetChain;
+    let eth: DevnetChain;
+    let api: LocalAttestationApi;
+    let lz: LocalLzRelayer;
+    let webhook: WebhookStub;
+    let monitor: PoolMonitor;
+
+    const pool = (name: string) => monitor.health().pools.find((p) => p.name === name)!;
+    const alertKinds = () => monitor.activeAlerts().map((alert) => alert.kind);
+
+    async function increaseTime(seconds: number) {
+        await ethers.provider.send("evm_increaseTime", [seconds]);
+        await ethers.provider.send("evm_mine", []);
+    }
+
+    const transfer = (amount: bigint) => sendTransfer(base, eth, amount);
+    const mint = (txHash: string) => mintBurn(api, base, eth, txHash);
+
+    async function deposits(count: number) {
+        for (let i = 0; i < count; i++) await (await base.bridge.deposit(1n, randomField())).wait();
+    }
+
+    before(async function () {
+        [owner] = await ethers.getSigners();
+        const devnet = await deployDevnet({
+            chains: [
+                { name: "base", eid: 40245, cctpDomain: 6 },
+                { name: "ethereum", eid: 40161, cctpDomain: 0 },
+            ],
+            mockVerifiers: true,
+        });
+        base = devnetChain(devnet, "base");
+        eth = devnetChain(devnet, "ethereum");
+        api = new LocalAttestationApi(devnet.chains, devnet.attester);
+        lz = new LocalLzRelayer(devnet.chains);
+        webhook = new WebhookStub();
+
+        monitor = new PoolMonitor({
+            chains: monitorChains(devnet),
+            attestations: new AttestationClient({ apiUrl: await api.listen(), timeoutMs: 5000 }),
+            notifier: new WebhookNotifier(await webhook.listen()),
+            treeFillWarning: 0.05,
+            treeFillCritical: 0.09,
+            minRootHistorySeconds: 3600,
+            lzStuckAfterSeconds: STUCK_AFTER,
+            cctpStuckAfterSeconds: STUCK_AFTER,
+        });
+
+        await (await base.usdc.mint(owner.address, 100_000_000n)).wait();
+        await (await base.usdc.approve(base.addresses.bridge, 100_000_000n)).wait();
+    });
+
+    after(async function () {
+        await api.close();
+        await webhook.close();
+    });
+
+    it("should find deposits backed by the pool's balance", async function () {
+        await (await base.bridge.deposit(10_000_000n, randomField())).wait();
+        await monitor.tick();
+
+        expect(pool("base")).to.deep.include({
+            balance: 10_000_000n,
+            liabilities: 10_000_000n,
+            inFlight: 0n,
+            surplus: 0n,
+            leaves: 1,
+            maxLeaves: 1024,
+            rootHistorySize: 100,
+            rootHistorySeconds: undefined,
+        });
+        expect(pool("base").flows.deposited).to.equal(10_000_000n);
+        expect(pool("ethereum").balance).to.equal(0n);
+        expect(monitor.activeAlerts()).to.deep.equal([]);
+        expect(webhook.received).to.deep.equal([]);
+    });
+
+    it("should count a transfer's USDC as in flight until the destination mints it", async function () {
+        api.pendingPolls = 1000;
+        await transfer(4_000_000n);
+        await lz.deliverPending();
+        await monitor.tick();
+
+        expect(pool("base")).to.deep.include({ balance: 6_000_000n, liabilities: 6_000_000n, surplus: 0n });
+        expect(pool("base").flows.sent).to.equal(4_000_000n);
+        expect(pool("base").burns).to.deep.equal({ pending: 1, attested: 0, minted: 0 });
+        // Credited on Ethereum before its USDC arrives
+        expect(pool("ethereum")).to.deep.include({
+            balance: 0n,
+            liabilities: 4_000_000n,
+            inFlight: 4_000_000n,
+            surplus: 0n,
+        });
+        expect(monitor.activeAlerts()).to.deep.equal([]);
+    });
+
+    it("should alert once on a burn not attested in time and resolve when it is minted", async function () {
+        await increaseTime(STUCK_AFTER + 1);
+        await monitor.tick();
+        await monitor.tick();
+
+        expect(webhook.summary()).to.deep.equal([["firing", "cctp_stuck"]]);
+        const [body] = webhook.received;
+        expect(body.alert.chain).to.equal("base");
+        expect(body.alert.severity).to.equal("warning");
+        expect(body.text).to.match(/^\[WARNING\] base: Burn 0x[0-9a-f]{64} of 4\.0 USDC to domain 0 not attested after 10 min$/);
+
+        // Attested but nobody relayed it: the same alert keeps firing
+        api.pendingPolls = 0;
+        await monitor.tick();
+        expect(pool("base").burns.attested).to.equal(1);
+        expect(monitor.activeAlerts()[0].summary).to.contain("attested but not minted");
+        expect(webhook.received).to.have.length(1);
+
+        await mint(body.alert.id.split(":").pop()!);
+        await monitor.tick();
+        expect(webhook.summary()).to.deep.equal([
+            ["firing", "cctp_stuck"],
+            ["resolved", "cctp_stuck"],
+        ]);
+        expect(webhook.received[1].text).to.match(/^\[RESOLVED\] base: /);
+        expect(pool("ethereum")).to.deep.include({ balance: 4_000_000n, inFlight: 0n, surplus: 0n });
+        expect(pool("base").burns).to.deep.equal({ pending: 0, attested: 0, minted: 1 });
+    });
+
+    it("should alert on a transfer message that is not delivered in time", async function () {
+        const txHash = await transfer(1_000_000n);
+        await mint(txHash);
+        await monitor.tick();
+        expect(alertKinds()).to.deep.equal([]);
+
+        await increaseTime(STUCK_AFTER + 1);
+        await monitor.tick();
+        expect(alertKinds()).to.deep.equal(["lz_stuck"]);
+        expect(pool("base").stuckLzMessages).to.equal(1);
+        expect(monitor.activeAlerts()[0].summary).to.contain("to EID 40161 (nonce 2) unverified but not delivered after 10 min");
+
+        await lz.deliverPending();
+        await monitor.tick();
+        expect(alertKinds()).to.deep.equal([]);
+        expect(webhook.summary().slice(-2)).to.deep.equal([
+            ["firing", "lz_stuck"],
+            ["resolved", "lz_stuck"],
+        ]);
+        expect(pool("ethereum")).to.deep.include({ balance: 5_000_000n, liabilities: 5_000_000n, surplus: 0n });
+    });
+
+    it("should report a drained pool as insolvent, retrying a rejected webhook call", async function () {
+        // Take 2 USDC from the Ethereum bridge behind its back (MockUSDC balanceOf is slot 1)
+        const slot = ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(["address", "uint256"], [eth.addresses.bridge, 1]));
+        await ethers.provider.send("hardhat_setStorageAt", [eth.addresses.usdc, slot, ethers.toBeHex(3_000_000n, 32)]);
+        const delivered = webhook.received.length;
+
+        webhook.failNext = 1;
+        await monitor.tick();
+        expect(alertKinds()).to.deep.equal(["insolvent"]);
+        expect(monitor.activeAlerts()[0]).to.include({
+            severity: "critical",
+            chain: "ethereum",
+            summary: "Pool holds 3.0 USDC with 0.0 USDC in flight, notes need 5.0 USDC: short by 2.0 USDC",
+        });
+        expect(monitor.counters.notifyErrors).to.equal(1);
+        expect(webhook.received).to.have.length(delivered);
+
+        await monitor.tick();
+        expect(webhook.summary().slice(delivered)).to.deep.equal([["firing", "insolvent"]]);
+
+        await (await eth.usdc.mint(eth.addresses.bridge, 2_000_000n)).wait();
+        await monitor.tick();
+        expect(pool("ethereum").surplus).to.equal(0n);
+        expect(webhook.summary().slice(delivered)).to.deep.equal([
+            ["firing", "insolvent"],
+            ["resolved", "insolvent"],
+        ]);
+    });
+
+    it("should warn as the tree fills and the root history turns over", async function () {
+        // 3 leaves so far: a deposit and two transfers' change notes
+        await deposits(57);
+        await monitor.tick();
+        expect(monitor.activeAlerts().map((a) => [a.kind, a.severity])).to.deep.equal([["tree_fill", "warning"]]);
+        expect(monitor.activeAlerts()[0].summary).to.equal("Tree has 60 of 1024 leaves (5.9%)");
+
+        await deposits(43);
+        await monitor.tick();
+        expect(pool("base").leaves).to.equal(103);
+        expect(pool("base").rootHistorySeconds).to.be.lessThan(3600);
+        expect(monitor.activeAlerts().map((a) => [a.kind, a.severity])).to.deep.equal([
+            ["tree_fill", "critical"],
+            ["root_turnover", "warning"],
+        ]);
+        expect(monitor.activeAlerts()[1].summary).to.match(/^The last 100 roots span \d+ min; proofs against older roots are rejected$/);
+
+        // The severity change is delivered again
+        const fills = webhook.received.filter((body) => body.alert.kind === "tree_fill");
+        expect(fills.map((body) => [body.status, body.alert.severity])).to.deep.equal([
+            ["firing", "warning"],
+            ["firing", "critical"],
+        ]);
+    });
+
+    it("should serve health and Prometheus metrics", async function () {
+        const server = createMonitorServer(monitor);
+        await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+        const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+        try {
+            // Not start()ed, so not healthy
+            const health = await fetch(`${url}/health`);
+            expect(health.status).to.equal(503);
+            const body = await health.json();
+            expect(body.pools[0]).to.include({ name: "base", leaves: 103, liabilities: "5000100" });
+            expect(body.alerts.map((a: { kind: string }) => a.kind)).to.deep.equal(["tree_fill", "root_turnover"]);
+
+            const metrics = await fetch(`${url}/metrics`);
+            expect(metrics.headers.get("content-type")).to.equal("text/plain; version=0.0.4");
+            const text = await metrics.text();
+            expect(text).to.contain("# TYPE mixvm_pool_balance_usdc gauge");
+            expect(text).to.contain('mixvm_pool_balance_usdc{chain="base",eid="40245"} 5.0001');
+            expect(text).to.contain('mixvm_pool_surplus_usdc{chain="ethereum",eid="40161"} 0');
+            expect(text).to.contain('mixvm_pool_flow_usdc_total{chain="base",eid="40245",flow="sent"} 5');
+            expect(text).to.contain('mixvm_pool_tree_leaves{chain="base",eid="40245"} 103');
+            expect(text).to.contain('mixvm_pool_cctp_burns{chain="base",eid="40245",status="minted"} 2');
+            expect(text).to.contain('mixvm_pool_alerts_firing{severity="critical"} 1');
+            expect(text).to.match(/mixvm_pool_root_history_seconds\{chain="base",eid="40245"\} \d+/);
+            expect(text).not.to.match(/mixvm_pool_root_history_seconds\{chain="ethereum"/);
+
+            expect((await fetch(`${url}/nope`)).status).to.equal(404);
+        } finally {
+            server.close();
+        }
+    });
+});
+
+describe("Pool Monitor State", function () {
+    this.timeout(180000);
+
+    let owner: HardhatEthersSigner;
+    let devnet: Devnet;
+    let base: DevnetChain;
+    let eth: DevnetChain;
+    let api: LocalAttestationApi;
+    let apiUrl: string;
+    let lz: LocalLzRelayer;
+    let db: RelayerDb;
+    let dbDir: string;
+    let monitor: PoolMonitor;
+    let lookups: string[] = [];
+
+    // Records the burns looked up on the attestation API
+    class RecordingAttestations extends AttestationClient {
+        async getMessages(sourceDomain: number, txHash: string) {
+            lookups.push(txHash);
+            return super.getMessages(sourceDomain, txHash);
+        }
+    }
+
+    const pool = (m: PoolMonitor, name: string) => m.health().pools.find((p) => p.name === name)!;
+
+    function newMonitor(options: { confirmations?: Record<string, number>; maxAttestationChecks?: number } = {}) {
+        return new PoolMonitor({
+            chains: monitorChains(devnet, options.confirmations),
+            attestations: new RecordingAttestations({ apiUrl, timeoutMs: 5000 }),
+            db,
+            maxAttestationChecks: options.maxAttestationChecks,
+        });
+    }
+
+    before(async function () {
+        [owner] = await ethers.getSigners();
+        devnet = await deployDevnet({
+            chains: [
+                { name: "base", eid: 40245, cctpDomain: 6 },
+                { name: "ethereum", eid: 40161, cctpDomain: 0 },
+            ],
+            mockVerifiers: true,
+        });
+        base = devnetChain(devnet, "base");
+        eth = devnetChain(devnet, "ethereum");
+        api = new LocalAttestationApi(devnet.chains, devnet.attester);
+        apiUrl = await api.listen();
+        lz = new LocalLzRelayer(devnet.chains);
+        dbDir = fs.mkdtempSync(path.join(os.tmpdir(), "mixvm-monitor-"));
+        db = new RelayerDb(path.join(dbDir, "monitor.db"));
+
+        for (const chain of [base, eth]) {
+            await (await chain.usdc.mint(owner.address, 100_000_000n)).wait();
+            await (await chain.usdc.approve(chain.addresses.bridge, 100_000_000n)).wait();
+        }
+    });
+
+    after(async function () {
+        await api.close();
+        db.close();
+        fs.rmSync(dbDir, { recursive: true, force: true });
+    });
+
+    it("should count a refund burned back before the transfer is minted or the destination is read", async function () {
+        // Ethereum is read 3 blocks behind the head
+        monitor = newMonitor({ confirmations: { ethereum: 3 } });
+        api.pendingPolls = 1000;
+        await (await base.bridge.deposit(10_000_000n, randomField())).wait();
+        // The recipient commitment is taken on Ethereum, so the transfer cannot be delivered
+        const taken = randomField();
+        await (await eth.bridge.deposit(5_000_000n, taken)).wait();
+        const txHash = await sendTransfer(base, eth, 2_000_000n, taken);
+        const [delivery] = await lz.deliverTx(base.eid, txHash);
+        expect(delivery.status).to.equal("failed");
+
+        const recovery = new LzMessageRecovery({
+            chains: devnet.chains.map((chain) => ({
+                eid: chain.eid,
+                provider: chain.provider,
+                bridgeAddress: chain.addresses.bridge,
+                fromBlock: chain.deployBlock,
+            })),
+        });
+        const [message] = await recovery.messages(base.eid, { dstEid: eth.eid });
+        const refund = await recovery.refund(message, owner);
+        const refundBlock = (await ethers.provider.getTransactionReceipt(refund.txHash))!.blockNumber;
+        await lz.deliverTx(eth.eid, refund.txHash);
+        await monitor.tick();
+
+        // Base inserted the refund note; Ethereum's refund burn is not read yet
+        expect(pool(monitor, "ethereum").block).to.be.lessThan(refundBlock);
+        expect(pool(monitor, "base")).to.deep.include({
+            balance: 8_000_000n,
+            liabilities: 10_000_000n,
+            inFlight: 2_000_000n,
+            surplus: 0n,
+        });
+        expect(monitor.activeAlerts()).to.deep.equal([]);
+
+        // The refund burn left Ethereum before the transfer's USDC arrived
+        await ethers.provider.send("hardhat_mine", ["0x3"]);
+        await monitor.tick();
+        expect(pool(monitor, "ethereum")).to.deep.include({
+            balance: 3_000_000n,
+            liabilities: 5_000_000n,
+            inFlight: 2_000_000n,
+            surplus: 0n,
+        });
+        expect(pool(monitor, "base")).to.deep.include({ inFlight: 2_000_000n, surplus: 0n });
+        expect(pool(monitor, "ethereum").burns.pending).to.equal(1);
+        expect(monitor.activeAlerts()).to.deep.equal([]);
+
+        // Both burns are minted and no longer watched
+        api.pendingPolls = 0;
+        await mintBurn(api, base, eth, txHash);
+        await mintBurn(api, eth, base, refund.txHash);
+        await ethers.provider.send("hardhat_mine", ["0x3"]);
+        await monitor.tick();
+        expect(pool(monitor, "base")).to.deep.include({ balance: 10_000_000n, inFlight: 0n, surplus: 0n });
+        expect(pool(monitor, "ethereum")).to.deep.include({ balance: 5_000_000n, inFlight: 0n, surplus: 0n });
+        expect(pool(monitor, "base").burns).to.deep.equal({ pending: 0, attested: 0, minted: 1 });
+        expect(pool(monitor, "ethereum").burns).to.deep.equal({ pending: 0, attested: 0, minted: 1 });
+        expect(db.listMonitorBurns()).to.deep.equal([]);
+    });
+
+    it("should resume from the saved cursors without looking up minted burns again", async function () {
+        const saved = monitor.health().pools;
+        expect(db.getMonitorPool(base.cctpDomain)!.cursor).to.equal(saved[0].block);
+
+        lookups = [];
+        const resumed = newMonitor();
+        await resumed.tick();
+        expect(lookups).to.deep.equal([]);
+        for (const [i, status] of resumed.health().pools.entries()) {
+            const { balance, liabilities, surplus, flows, burns } = saved[i];
+            expect(status).to.deep.include({ balance, liabilities, surplus, flows, burns });
+        }
+        // The leaves seen before the restart count too (no incomplete_history)
+        expect(resumed.activeAlerts()).to.deep.equal([]);
+    });
+
+    it("should look up at most maxAttestationChecks burns per tick, least recently checked first", async function () {
+        api.pendingPolls = 1000;
+        const sent: string[] = [];
+        for (let i = 0; i < 3; i++) sent.push(await sendTransfer(base, eth, 1_000_000n));
+        const limited = newMonitor({ maxAttestationChecks: 2 });
+
+        lookups = [];
+        await limited.tick();
+        expect(lookups).to.have.members(sent.slice(0, 2));
+        lookups = [];
+        await limited.tick();
+        expect(lookups).to.have.members([sent[2], sent[0]]);
+        expect(pool(limited, "base").burns).to.deep.equal({ pending: 3, attested: 0, minted: 1 });
+        expect(db.listMonitorBurns().map((burn) => burn.txHash)).to.deep.equal(sent);
+    });
+
+    it("should count relayer fees paid out of the pool once", async function () {
+        const [, relayer] = await ethers.getSigners();
+        const relayed = newMonitor();
+        await relayed.tick();
+        // Burns toward Ethereum whose messages are not delivered count as surplus
+        const { flows: before, surplus } = pool(relayed, "ethereum");
+        await (await eth.bridge.deposit(3_000_000n, randomField())).wait();
+
+        // The transfer's relayer fee comes on top of its gross amount
+        await (await eth.bridge.initiateTransferViaRelayer(
+            relayer.address,
+            100_000n,
+            base.eid,
+            randomField(),
+            1_000_000n,
+            randomField(),
+            randomField(),
+            randomField(),
+            await eth.bridge.getLastRoot(),
+            EMPTY_PROOF,
+            EMPTY_STEALTH,
+            EMPTY_AUDIT,
+            { minFinalityThreshold: 2000, maxFee: 0n },
+            "0x",
+            { value: ethers.parseEther("0.01") }
+        )).wait();
+        // The withdraw's is part of its amount
+        const verifier = MockWithdrawVerifier__factory.connect(await eth.bridge.withdrawVerifier(), owner);
+        await (await verifier.setRecipientSignal(await eth.bridge.relayerBinding(owner.address, relayer.address, 50_000n))).wait();
+        await (await eth.bridge.withdrawViaRelayer(
+            owner.address, relayer.address, 50_000n, 500_000n, randomField(), ethers.ZeroHash, await eth.bridge.getLastRoot(), EMPTY_PROOF
+        )).wait();
+        await relayed.tick();
+
+        const { flows } = pool(relayed, "ethereum");
+        expect(flows.sent - before.sent).to.equal(1_100_000n);
+        expect(flows.withdrawn - before.withdrawn).to.equal(500_000n);
+        expect(pool(relayed, "ethereum").surplus).to.equal(surplus);
+        expect(relayed.activeAlerts()).to.deep.equal([]);
+    });
+});
@@ -0,0 +1,247 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import * as fs from "fs";
+import * as http from "http";
+import * as os from "os";
+import * as path from "path";
+import { AddressInfo } from "net";
+import { PrivateLZBridgeClient } from "../../sdk/src/bridge";
+import { AttestationClient } from "../../sdk/src/cctp";
+import { MixvmError, RelayerError } from "../../sdk/src/errors";
+import { parseBridgeEvents } from "../../sdk/src/events";
+import { MemoryNoteStore } from "../../sdk/src/notes";
+import { RelayerClient } from "../../sdk/src/relayer";
+import { PrivateNote, RelayedTransferRequest } from "../../sdk/src/types";
+import { CctpRelayer, RelayerDb, WithdrawSubmitter, createStatusServer } from "../../relayer/src";
+import {
+    DEVNET_CIRCUITS,
+    Devnet,
+    DevnetChain,
+    deployDevnet,
+    devnetChain,
+    devnetDestinations,
+    fundUsdc,
+} from "../../scripts/devnet/fixtures";
+import { LocalAttestationApi, LocalLzRelayer } from "../../scripts/devnet/relayers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+
+/**
+ * Relayed Transfer E2E Test
+ *
+ * Sends a cross-chain transfer through the relayer's /transfer endpoint on
+ * the local devnet, with real transfer proofs and verifiers:
+ * 1. A request whose relayer fee differs from the proven one fails
+ *    simulation, and the sender's note is left spendable
+ * 2. The honest request is sent from the relayer's wallet: the relayer pays
+ *    the LayerZero fee and is paid its fee in USDC out of the note
+ * 3. A relayer that sends the transfer but never answers leaves the spent,
+ *    change and refund notes pending rather than rolling them back
+ * 4. A relayer without a withdraw service refuses withdraw quotes
+ */
+
+const TRANSFER_FLAT_FEE = 200_000n;
+const TRANSFER_FEE_BPS = 10;
+
+// Forwards transfers to the relayer with the fee raised after proving
+class FeeBumpingClient extends RelayerClient {
+    async submitTransfer(request: RelayedTransferRequest): Promise<string> {
+        return super.submitTransfer({ ...request, fee: request.fee + 1n });
+    }
+}
+
+describe("Relayed Transfer E2E", function () {
+    // Proving runs in-process on the CPU
+    this.timeout(600000);
+
+    let devnet: Devnet;
+    let base: DevnetChain;
+    let eth: DevnetChain;
+    let api: LocalAttestationApi;
+    let alice: HardhatEthersSigner;
+    let relayerSigner: HardhatEthersSigner;
+    let aliceClient: PrivateLZBridgeClient;
+    let aliceNotes: MemoryNoteStore;
+    let db: RelayerDb;
+    let dbDir: string;
+    let submitter: WithdrawSubmitter;
+    let server: http.Server;
+    let client: RelayerClient;
+    let depositNote: PrivateNote;
+    let changeNote: PrivateNote;
+
+    async function expectRejected(promise: Promise<unknown>, code: string) {
+        try {
+            await promise;
+            expect.fail("expected the relayer to refuse");
+        } catch (err) {
+            expect(err).to.be.instanceOf(MixvmError);
+            expect((err as MixvmError).code).to.equal(code);
+        }
+    }
+
+    before(async function () {
+        [alice, relayerSigner] = await ethers.getSigners();
+        devnet = await deployDevnet({
+            chains: [
+                { name: "base", eid: 40245, cctpDomain: 6 },
+                { name: "ethereum", eid: 40161, cctpDomain: 0 },
+            ],
+        });
+        base = devnetChain(devnet, "base");
+        eth = devnetChain(devnet, "ethereum");
+        api = new LocalAttestationApi(devnet.chains, devnet.attester);
+        const apiUrl = await api.listen();
+
+        aliceNotes = new MemoryNoteStore();
+        aliceClient = new PrivateLZBridgeClient({
+            provider: ethers.provider,
+            signer: alice,
+            noteStore: aliceNotes,
+            bridgeAddress: base.addresses.bridge,
+            deployBlock: base.deployBlock,
+            circuitPaths: DEVNET_CIRCUITS,
+            destinations: devnetDestinations(devnet, base),
+            attestations: new AttestationClient({ apiUrl }),
+        });
+        await aliceClient.initialize();
+        await fundUsdc(base, alice.address, 10_000_000n);
+        depositNote = (await aliceClient.deposit(10_000_000n)).note;
+
+        dbDir = fs.mkdtempSync(path.join(os.tmpdir(), "mixvm-transfer-submitter-"));
+        db = new RelayerDb(path.join(dbDir, "relayer.db"));
+        submitter = new WithdrawSubmitter({
+            chains: [{
+                name: "Devnet base",
+                chainId: base.chainId,
+                provider: ethers.provider,
+                signer: relayerSigner,
+                bridgeAddress: base.addresses.bridge,
+            }],
+            withdraws: false,
+            transfers: {
+                flatFee: TRANSFER_FLAT_FEE,
+                feeBps: TRANSFER_FEE_BPS,
+                maxNativeFee: ethers.parseEther("1"),
+            },
+        });
+        server = createStatusServer(new CctpRelayer({ chains: [], db }), submitter);
+        await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+        client = new RelayerClient(`http://127.0.0.1:${(server.address() as AddressInfo).port}`, { timeoutMs: 30000 });
+    });
+
+    after(async function () {
+        await new Promise((resolve) => server?.close(resolve));
+        db?.close();
+        if (dbDir) fs.rmSync(dbDir, { recursive: true, force: true });
+        await api?.close();
+    });
+
+    it("should refuse a transfer whose relayer fee differs from the proof", async function () {
+        const tampered = new FeeBumpingClient(client.url, { timeoutMs: 30000 });
+        await expectRejected(
+            aliceClient.initiateTransfer({ dstEid: eth.eid, amount: 4_000_000n, note: depositNote, relayer: tampered }),
+            "INVALID_PROOF"
+        );
+
+        expect(submitter.counters.transfersRejected).to.equal(1);
+        expect(submitter.counters.transfersSubmitted).to.equal(0);
+        const notes = await aliceNotes.list();
+        expect(notes.find((n) => n.commitment === depositNote.commitment)!.status).to.equal("unspent");
+        expect(notes).to.have.length(1);
+    });
+
+    it("should send the transfer from the relayer and pay its fee from the note", async function () {
+        const quote = await client.quote(base.chainId, 4_000_000n, eth.eid);
+        expect(quote.fee).to.equal(TRANSFER_FLAT_FEE + (4_000_000n * BigInt(TRANSFER_FEE_BPS)) / 10_000n);
+        expect(quote.dstEid).to.equal(eth.eid);
+
+        const aliceEthBefore = await ethers.provider.getBalance(alice.address);
+        const relayerUsdcBefore = await base.usdc.balanceOf(relayerSigner.address);
+        const transfer = await aliceClient.initiateTransfer({
+            dstEid: eth.eid,
+            amount: 4_000_000n,
+            note: depositNote,
+            relayer: client,
+        });
+
+        expect(transfer.relayerFee).to.equal(quote.fee);
+        expect(transfer.nativeFee).to.equal(0n);
+        expect(transfer.amount + transfer.cctpFee + quote.fee).to.equal(4_000_000n);
+        expect(transfer.changeNote!.balance).to.equal(6_000_000n);
+        changeNote = transfer.changeNote!;
+        // The sender's wallet paid nothing, the relayer sent it and got its fee
+        expect(await ethers.provider.getBalance(alice.address)).to.equal(aliceEthBefore);
+        const receipt = await ethers.provider.getTransactionReceipt(transfer.txHash);
+        expect(receipt!.from).to.equal(relayerSigner.address);
+        expect((await base.usdc.balanceOf(relayerSigner.address)) - relayerUsdcBefore).to.equal(quote.fee);
+        expect(await base.usdc.balanceOf(base.addresses.bridge)).to.equal(6_000_000n);
+        const paid = receipt!.logs
+            .map((log) => { try { return base.bridge.interface.parseLog(log); } catch { return null; } })
+            .find((log) => log?.name === "RelayerFeePaid");
+        expect(paid!.args.relayer).to.equal(relayerSigner.address);
+        expect(paid!.args.fee).to.equal(quote.fee);
+        expect(submitter.counters.transfersSubmitted).to.equal(1);
+
+        // LayerZero delivers the recipient commitment as for a self-sent transfer
+        const [delivery] = await new LocalLzRelayer(devnet.chains).deliverTx(base.eid, transfer.txHash);
+        expect(delivery.status).to.equal("delivered");
+        const delivered = await ethers.provider.getTransactionReceipt(delivery.txHash!);
+        const [received] = parseBridgeEvents(delivered!.logs, eth.addresses.bridge).transfersReceived;
+        expect(received.commitment).to.equal(transfer.recipientCommitment);
+    });
+
+    it("should keep the notes pending when the relayer sends and then times out", async function () {
+        // Forwards to the relayer, but the answer to a submission never comes back
+        let forwarded!: Promise<string>;
+        const proxy = http.createServer((req, res) => {
+            let body = "";
+            req.on("data", (chunk) => (body += chunk));
+            req.on("end", () => {
+                const upstream = fetch(`${client.url}${req.url}`, {
+                    method: req.method,
+                    headers: { "Content-Type": "application/json" },
+                    body: req.method === "POST" ? body : undefined,
+                });
+                if (req.method === "POST") {
+                    forwarded = upstream.then(async (r) => (await r.json()).txHash);
+                    return;
+                }
+                upstream.then(async (r) => res.writeHead(r.status).end(await r.text()));
+            });
+        });
+        await new Promise<void>((resolve) => proxy.listen(0, "127.0.0.1", resolve));
+        const silent = new RelayerClient(`http://127.0.0.1:${(proxy.address() as AddressInfo).port}`, { timeoutMs: 1000 });
+
+        let error: unknown;
+        try {
+            await aliceClient.initiateTransfer({ dstEid: eth.eid, amount: 2_000_000n, note: changeNote, relayer: silent });
+        } catch (err) {
+            error = err;
+        } finally {
+            proxy.closeAllConnections();
+            await new Promise((resolve) => proxy.close(resolve));
+        }
+        expect(error).to.be.instanceOf(RelayerError);
+        expect(error).to.include({ code: "RELAYER_UNAVAILABLE", outcomeUnknown: true, retryable: false });
+        expect((error as RelayerError).hint).to.contain("notes stay pending");
+
+        // The transfer went out regardless
+        const receipt = await ethers.provider.getTransactionReceipt(await forwarded);
+        expect(receipt!.status).to.equal(1);
+        expect(submitter.counters.transfersSubmitted).to.equal(2);
+
+        // The spent note, the new change note and the refund note all kept their secrets
+        const pending = (await aliceNotes.list()).filter((n) => n.status === "pending");
+        expect(pending).to.have.length(3);
+        expect(pending.map((n) => n.commitment)).to.include(changeNote.commitment);
+        const [event] = parseBridgeEvents(receipt!.logs, base.addresses.bridge).transfersInitiated;
+        expect(pending.map((n) => n.commitment)).to.include(BigInt(event.newSenderCommitment));
+        expect(pending.find((n) => n.commitment === BigInt(event.newSenderCommitment))!.balance).to.equal(4_000_000n);
+    });
+
+    it("should refuse withdraws when only transfers are served", async function () {
+        await expectRejected(client.quote(base.chainId, 1_000_000n), "RELAYER_REJECTED");
+        const [served] = (await client.status()).submit;
+        expect(served.transfers).to.equal(true);
+    });
+});
@@ -0,0 +1,201 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import * as fs from "fs";
+import * as http from "http";
+import * as os from "os";
+import * as path from "path";
+import { AddressInfo } from "net";
+import { MixvmError } from "../../sdk/src/errors";
+import { RelayerClient, relayerFeeBinding } from "../../sdk/src/relayer";
+import { PackedProof } from "../../sdk/src/types";
+import { CctpRelayer, RelayerDb, WithdrawSubmitter, createStatusServer } from "../../relayer/src";
+import { deployBridge, randomField } from "../../scripts/devnet/fixtures";
+import {
+    MockEndpointV2__factory,
+    MockUSDC,
+    MockUSDC__factory,
+    MockWithdrawVerifier,
+    MockWithdrawVerifier__factory,
+    PrivateLZBridge,
+} from "../../typechain-types";
+
+/**
+ * Relayed Withdraw E2E Test
+ *
+ * Runs the relayer's withdraw endpoints against a local PrivateLZBridge whose
+ * verifier accepts a proof only for one recipientAddress signal, standing in
+ * for a proof of relayerFeeBinding(recipient, relayer, fee):
+ * 1. Quote and submit through the SDK client; recipient and relayer paid
+ * 2. Changing the fee, relayer or nullifier is refused before sending, and the
+ *    proof cannot be replayed through withdraw()
+ * 3. Health and metrics list the withdraw service
+ */
+
+const CHAIN_ID = 31337;
+const FLAT_FEE = 50_000n;
+const FEE_BPS = 10;
+const EMPTY_PROOF = [0n, 0n, 0n, 0n, 0n, 0n, 0n, 0n] as PackedProof;
+
+describe("Relayed Withdraw E2E", function () {
+    this.timeout(60000);
+
+    let bridge: PrivateLZBridge;
+    let usdc: MockUSDC;
+    let verifier: MockWithdrawVerifier;
+    let relayerAddress: string;
+    let recipient: string;
+    let db: RelayerDb;
+    let dbDir: string;
+    let submitter: WithdrawSubmitter;
+    let server: http.Server;
+    let client: RelayerClient;
+
+    // Deposit a note and return the root that includes it
+    async function depositNote(amount: bigint) {
+        await (await usdc.approve(await bridge.getAddress(), amount)).wait();
+        await (await bridge.deposit(amount, randomField())).wait();
+        return bridge.getLastRoot();
+    }
+
+    function withdrawRequest(merkleRoot: string, amount: bigint, fee: bigint) {
+        return {
+            chainId: CHAIN_ID,
+            recipient,
+            relayer: relayerAddress,
+            fee,
+            amount,
+            nullifier: ethers.hexlify(ethers.randomBytes(32)),
+            newCommitment: ethers.ZeroHash,
+            merkleRoot,
+            proof: EMPTY_PROOF,
+        };
+    }
+
+    async function expectRejected(promise: Promise<unknown>, code: string) {
+        try {
+            await promise;
+            expect.fail("expected the relayer to refuse");
+        } catch (err) {
+            expect(err).to.be.instanceOf(MixvmError);
+            expect((err as MixvmError).code).to.equal(code);
+        }
+    }
+
+    before(async function () {
+        const [owner, relayerSigner, recipientSigner] = await ethers.getSigners();
+        relayerAddress = relayerSigner.address;
+        recipient = recipientSigner.address;
+
+        usdc = await new MockUSDC__factory(owner).deploy();
+        const endpoint = await new MockEndpointV2__factory(owner).deploy(40245);
+        bridge = await deployBridge({ endpoint, eid: 40245, usdc, owner });
+        verifier = MockWithdrawVerifier__factory.connect(await bridge.withdrawVerifier(), owner);
+        await (await usdc.mint(owner.address, 100_000_000n)).wait();
+
+        dbDir = fs.mkdtempSync(path.join(os.tmpdir(), "mixvm-submitter-"));
+        db = new RelayerDb(path.join(dbDir, "relayer.db"));
+        submitter = new WithdrawSubmitter({
+            chains: [{
+                name: "Hardhat",
+                chainId: CHAIN_ID,
+                provider: ethers.provider,
+                signer: relayerSigner,
+                bridgeAddress: await bridge.getAddress(),
+            }],
+            flatFee: FLAT_FEE,
+            feeBps: FEE_BPS,
+        });
+        server = createStatusServer(new CctpRelayer({ chains: [], db }), submitter);
+        await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+        client = new RelayerClient(`http://127.0.0.1:${(server.address() as AddressInfo).port}`, { timeoutMs: 10000 });
+    });
+
+    after(async function () {
+        await new Promise((resolve) => server.close(resolve));
+        db.close();
+        fs.rmSync(dbDir, { recursive: true, force: true });
+    });
+
+    it("should quote, submit and pay the recipient and relayer", async function () {
+        const amount = 5_000_000n;
+        const merkleRoot = await depositNote(amount);
+
+        const quote = await client.quote(CHAIN_ID, amount);
+        expect(quote.fee).to.equal(FLAT_FEE + (amount * BigInt(FEE_BPS)) / 10_000n);
+        expect(quote.relayer).to.equal(relayerAddress);
+        expect(quote.bridge).to.equal(await bridge.getAddress());
+
+        await (await verifier.setRecipientSignal(relayerFeeBinding(recipient, quote.relayer, quote.fee))).wait();
+        expect(await bridge.relayerBinding(recipient, quote.relayer, quote.fee))
+            .to.equal(relayerFeeBinding(recipient, quote.relayer, quote.fee));
+
+        const relayerBefore = await usdc.balanceOf(relayerAddress);
+        const request = withdrawRequest(merkleRoot, amount, quote.fee);
+        const txHash = await client.submitWithdraw(request);
+        const receipt = await (await ethers.provider.getTransaction(txHash))!.wait();
+
+        expect(receipt!.status).to.equal(1);
+        expect(receipt!.from).to.equal(relayerAddress);
+        expect(await usdc.balanceOf(recipient)).to.equal(amount - quote.fee);
+        expect((await usdc.balanceOf(relayerAddress)) - relayerBefore).to.equal(quote.fee);
+        expect(await bridge.nullifiers(request.nullifier)).to.equal(true);
+        const paid = receipt!.logs
+            .map((log) => { try { return bridge.interface.parseLog(log); } catch { return null; } })
+            .find((log) => log?.name === "RelayerFeePaid");
+        expect(paid!.args.fee).to.equal(quote.fee);
+
+        // Replaying the spent nullifier fails simulation
+        await expectRejected(client.submitWithdraw(request), "NULLIFIER_USED");
+    });
+
+    it("should refuse withdraws whose fee or relayer differ from the proof or quote", async function () {
+        const amount = 2_000_000n;
+        const merkleRoot = await depositNote(amount);
+        const { fee } = await client.quote(CHAIN_ID, amount);
+        await (await verifier.setRecipientSignal(relayerFeeBinding(recipient, relayerAddress, fee))).wait();
+        const submittedBefore = submitter.counters.submitted;
+
+        // A larger fee than proven: the proof does not verify
+        await expectRejected(client.submitWithdraw(withdrawRequest(merkleRoot, amount, fee + 1n)), "INVALID_PROOF");
+        // A fee below the relayer's own quote
+        await expectRejected(client.submitWithdraw(withdrawRequest(merkleRoot, amount, fee - 1n)), "INVALID_RELAYER_FEE");
+        // Fee paid to someone else
+        await expectRejected(
+            client.submitWithdraw({ ...withdrawRequest(merkleRoot, amount, fee), relayer: recipient }),
+            "RELAYER_REJECTED"
+        );
+        // The relayed proof submitted as a plain withdraw to the binding's address
+        const request = withdrawRequest(merkleRoot, amount, fee);
+        const binding = relayerFeeBinding(recipient, relayerAddress, fee);
+        await expect(bridge.withdraw(
+            ethers.getAddress(ethers.toBeHex(binding & ((1n << 160n) - 1n), 20)),
+            amount, request.nullifier, request.newCommitment, merkleRoot, request.proof
+        )).to.be.revertedWith("Invalid withdraw proof");
+        // A chain the relayer does not serve
+        await expectRejected(client.quote(1, amount), "UNKNOWN_CHAIN");
+        // An amount that does not cover the fee
+        await expectRejected(client.quote(CHAIN_ID, FLAT_FEE), "INVALID_RELAYER_FEE");
+
+        expect(submitter.counters.submitted).to.equal(submittedBefore);
+    });
+
+    it("should list the withdraw service in health and metrics", async function () {
+        const status = await client.status();
+        expect(status.healthy).to.equal(false); // CCTP relayer loop not started
+        expect(status.submit).to.deep.equal([{
+            chainId: CHAIN_ID,
+            name: "Hardhat",
+            bridge: await bridge.getAddress(),
+            relayer: relayerAddress,
+            transfers: false,
+        }]);
+
+        const metrics = await (await fetch(`${client.url}/metrics`)).text();
+        expect(metrics).to.contain("mixvm_relayer_withdraws_submitted_total 1");
+        expect(metrics).to.contain("mixvm_relayer_withdraws_rejected_total 4");
+
+        const preflight = await fetch(`${client.url}/withdraw`, { method: "OPTIONS" });
+        expect(preflight.status).to.equal(204);
+        expect(preflight.headers.get("access-control-allow-origin")).to.equal("*");
+    });
+});
@@ -0,0 +1,151 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { AdminOperation, planAdminCalls, safeBatch, sendAdminCalls, simulateAdminCalls } from "../../scripts/deploy/admin";
+import { Devnet, DevnetChain, deployDevnet, devnetChain } from "../../scripts/devnet/fixtures";
+import { MixvmError } from "../../sdk/src/errors";
+import { lzReceiveOptions } from "../../sdk/src/lzOptions";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+
+/**
+ * Bridge Admin Test
+ *
+ * Plans owner operations on a devnet bridge (scripts/deploy/admin.ts),
+ * simulates them from the owner and from another account, applies them
+ * through an exported Safe batch and sends them directly, including pause
+ * toggles from a guardian.
+ */
+
+describe("Bridge Admin", function () {
+    this.timeout(120000);
+
+    let owner: HardhatEthersSigner;
+    let other: HardhatEthersSigner;
+    let devnet: Devnet;
+    let base: DevnetChain;
+    let eth: DevnetChain;
+    let sendLib: string;
+    let dvn: string;
+    let operations: AdminOperation[];
+
+    before(async function () {
+        [owner, other] = await ethers.getSigners();
+        devnet = await deployDevnet({
+            chains: [
+                { name: "base", eid: 40245, cctpDomain: 6 },
+                { name: "ethereum", eid: 40161, cctpDomain: 0 },
+            ],
+            mockVerifiers: true,
+        });
+        base = devnetChain(devnet, "base");
+        eth = devnetChain(devnet, "ethereum");
+        sendLib = ethers.Wallet.createRandom().address;
+        dvn = ethers.Wallet.createRandom().address;
+        operations = [
+            { type: "transferOwnership", newOwner: other.address },
+            { type: "setPeer", eid: 30101, peer: eth.addresses.bridge },
+            { type: "setCCTPDomain", eid: eth.eid, domain: eth.cctpDomain },
+            { type: "setEnforcedOptions", eid: eth.eid, options: lzReceiveOptions(300_000n) },
+            { type: "setConfig", lib: sendLib, eid: eth.eid, uln: { confirmations: 5, requiredDVNs: [dvn] } },
+        ];
+    });
+
+    it("should preview current and proposed state, ownership last", async function () {
+        const calls = await planAdminCalls(base.addresses.bridge, ethers.provider, operations);
+        expect(calls.map((c) => c.description)).to.deep.equal([
+            "setPeer(30101)",
+            "setCCTPDomain(40161)",
+            "setEnforcedOptions(40161)",
+            `setConfig(${sendLib}, 40161, type 2)`,
+            "transferOwnership",
+        ]);
+        expect(calls.map((c) => c.unchanged)).to.deep.equal([false, true, false, false, false]);
+
+        expect(calls[0].current).to.equal(ethers.ZeroHash);
+        expect(calls[0].proposed).to.equal(ethers.zeroPadValue(eth.addresses.bridge, 32));
+        expect(calls[2].current).to.equal("none (bridge default)");
+        expect(calls[2].proposed).to.contain("lzReceive gas 300000");
+        expect(calls[3].current).to.equal("unset");
+        expect(calls[3].proposed).to.equal(`5 confirmations, DVNs [${dvn}]`);
+        expect(calls[4].current).to.equal(owner.address);
+    });
+
+    it("should simulate from the owner and report reverts for anyone else", async function () {
+        const calls = await planAdminCalls(base.addresses.bridge, ethers.provider, operations);
+        expect(await simulateAdminCalls(calls, ethers.provider)).to.equal(true);
+        expect(calls[1].simulation).to.equal(undefined);
+
+        expect(await simulateAdminCalls(calls, ethers.provider, other.address)).to.equal(false);
+        expect(calls.filter((c) => !c.unchanged).map((c) => c.simulation!.code)).to.deep.equal([
+            "NOT_OWNER",
+            "NOT_OWNER",
+            "NOT_OWNER",
+            "NOT_OWNER",
+        ]);
+    });
+
+    it("should export a Safe batch of the changes that applies them", async function () {
+        const withoutOwnership = operations.filter((op) => op.type !== "transferOwnership");
+        const calls = await planAdminCalls(base.addresses.bridge, ethers.provider, withoutOwnership);
+        const batch = safeBatch(calls, base.chainId, owner.address);
+
+        expect(batch.chainId).to.equal(String(base.chainId));
+        expect(batch.meta.createdFromSafeAddress).to.equal(owner.address);
+        expect(batch.transactions.length).to.equal(3);
+        expect(batch.transactions.every((tx) => tx.to === base.addresses.bridge && tx.value === "0")).to.equal(true);
+
+        // Executed by the owner as the Safe would
+        for (const tx of batch.transactions) await (await owner.sendTransaction({ to: tx.to, data: tx.data })).wait();
+        const after = await planAdminCalls(base.addresses.bridge, ethers.provider, withoutOwnership);
+        expect(after.every((c) => c.unchanged)).to.equal(true);
+    });
+
+    it("should let the guardian pause but not unpause", async function () {
+        const [, , guardian] = await ethers.getSigners();
+        await sendAdminCalls(
+            await planAdminCalls(base.addresses.bridge, ethers.provider, [{ type: "setGuardian", guardian: guardian.address }]),
+            owner
+        );
+
+        const pauses = await planAdminCalls(base.addresses.bridge, ethers.provider, [
+            { type: "pause", operations: ["deposit", "withdraw"] },
+            { type: "pauseRoute", eid: eth.eid },
+        ]);
+        expect(pauses.map((c) => [c.description, c.current, c.proposed])).to.deep.equal([
+            ["pause(deposit, withdraw)", "none", "deposit, withdraw"],
+            ["pauseRoute(40161)", "open", "paused"],
+        ]);
+        expect(await simulateAdminCalls(pauses, ethers.provider, guardian.address)).to.equal(true);
+        await sendAdminCalls(pauses, guardian);
+
+        const resume = await planAdminCalls(base.addresses.bridge, ethers.provider, [
+            { type: "unpause", operations: "all" },
+            { type: "unpauseRoute", eid: eth.eid },
+        ]);
+        expect(resume.map((c) => [c.current, c.proposed])).to.deep.equal([
+            ["deposit, withdraw", "none"],
+            ["paused", "open"],
+        ]);
+        expect(await simulateAdminCalls(resume, ethers.provider, guardian.address)).to.equal(false);
+        expect(resume.map((c) => c.simulation!.code)).to.deep.equal(["NOT_OWNER", "NOT_OWNER"]);
+        await sendAdminCalls(resume, owner);
+        expect(await base.bridge.pausedOperations()).to.equal(0n);
+    });
+
+    it("should send only the calls that change something", async function () {
+        const calls = await planAdminCalls(base.addresses.bridge, ethers.provider, operations);
+        expect(calls.filter((c) => !c.unchanged).map((c) => c.description)).to.deep.equal(["transferOwnership"]);
+
+        const sent: string[] = [];
+        await sendAdminCalls(calls, owner, (call) => sent.push(call.description));
+        expect(sent).to.deep.equal(["transferOwnership"]);
+        expect(await base.bridge.owner()).to.equal(other.address);
+
+        // The old owner's calls are now rejected with a decoded error
+        const retry = await planAdminCalls(base.addresses.bridge, ethers.provider, [
+            { type: "setPeer", eid: 30101, peer: ethers.ZeroHash },
+        ]);
+        let error: MixvmError | undefined;
+        await sendAdminCalls(retry, owner).catch((err) => (error = err));
+        expect(error?.code).to.equal("NOT_OWNER");
+    });
+});
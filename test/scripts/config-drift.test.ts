@@ -0,0 +1,113 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { checkDrift, driftProblems } from "../../scripts/deploy/drift";
+import { CONFIG_TYPE_ULN, ChainSet, DeployedAddresses, encodeUlnConfig, runPipeline } from "../../scripts/deploy/pipeline";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+
+/**
+ * Configuration Drift Test
+ *
+ * Deploys two chains with the deploy pipeline, then breaks a peer, a receive
+ * ULN config, the recorded MessageTransmitter and the owner, and checks that
+ * scripts/deploy/drift.ts reports each one on the right chain and direction.
+ */
+
+const BASE_EID = 40245;
+const ETH_EID = 40161;
+
+describe("Configuration Drift", function () {
+    this.timeout(120000);
+
+    let owner: HardhatEthersSigner;
+    let other: HardhatEthersSigner;
+    let chainSet: ChainSet;
+    let deployed: DeployedAddresses;
+
+    const check = () => checkDrift(deployed, { providers: { base: ethers.provider, ethereum: ethers.provider } });
+    const bridgeOf = (name: string) => ethers.getContractAt("PrivateLZBridge", deployed[name].contracts.privateLZBridge);
+
+    async function chainSpec(eid: number, cctpDomain: number) {
+        const endpoint = await (await ethers.getContractFactory("MockEndpointV2")).deploy(eid);
+        const messenger = await (await ethers.getContractFactory("MockTokenMessengerV2")).deploy();
+        const transmitter = await (await ethers.getContractFactory("MockMessageTransmitterV2")).deploy(cctpDomain);
+        const usdc = await (await ethers.getContractFactory("MockUSDC")).deploy();
+        const sendUln302 = ethers.Wallet.createRandom().address;
+        const receiveUln302 = ethers.Wallet.createRandom().address;
+        // Libraries are the endpoint defaults, as on the testnets
+        for (const remote of [BASE_EID, ETH_EID]) {
+            await (await endpoint.setDefaultSendLibrary(remote, sendUln302)).wait();
+            await (await endpoint.setDefaultReceiveLibrary(remote, receiveUln302, 0)).wait();
+        }
+        return {
+            network: `Devnet ${eid}`,
+            chainId: 31337,
+            lzEid: eid,
+            cctpDomain,
+            layerzero: {
+                endpoint: await endpoint.getAddress(),
+                sendUln302,
+                receiveUln302,
+                dvn: ethers.Wallet.createRandom().address,
+            },
+            cctp: {
+                tokenMessenger: await messenger.getAddress(),
+                messageTransmitter: await transmitter.getAddress(),
+                usdc: await usdc.getAddress(),
+            },
+        };
+    }
+
+    before(async function () {
+        [owner, other] = await ethers.getSigners();
+        chainSet = {
+            version: "test",
+            lzReceiveGas: 500000,
+            confirmations: 2,
+            chains: {
+                base: await chainSpec(BASE_EID, 6),
+                ethereum: await chainSpec(ETH_EID, 0),
+            },
+        };
+        deployed = {};
+        await runPipeline(chainSet, { signers: { base: owner, ethereum: owner }, deployed, allowDevSetup: true });
+    });
+
+    it("should find no drift right after a deploy", async function () {
+        const report = await check();
+        expect(driftProblems(report)).to.deep.equal([]);
+        expect(report.ok).to.equal(true);
+        expect(report.directions.map((d) => `${d.from} -> ${d.to}`)).to.deep.equal(["base -> ethereum", "ethereum -> base"]);
+        const statuses = [...report.chains, ...report.directions].flatMap((entry) => entry.checks.map((c) => c.status));
+        expect(new Set(statuses)).to.deep.equal(new Set(["ok"]));
+    });
+
+    it("should report each mismatch on its chain and direction", async function () {
+        const base = await bridgeOf("base");
+        const eth = await bridgeOf("ethereum");
+        await (await base.setPeer(ETH_EID, ethers.ZeroHash)).wait();
+        const rogueDvn = ethers.Wallet.createRandom().address;
+        await (await eth.setConfig(chainSet.chains.ethereum.layerzero.receiveUln302, [
+            { eid: BASE_EID, configType: CONFIG_TYPE_ULN, config: encodeUlnConfig({ confirmations: 2, requiredDVNs: [rogueDvn] }) },
+        ])).wait();
+        await (await base.transferOwnership(other.address)).wait();
+        // The recorded MessageTransmitter is Base's, not Ethereum's
+        deployed.ethereum.cctp.messageTransmitter = chainSet.chains.base.cctp.messageTransmitter;
+
+        const report = await check();
+        expect(report.ok).to.equal(false);
+
+        const problems = (checks: { chain: string; check: string; status: string }[]) =>
+            checks.filter((c) => c.status !== "ok").map((c) => `${c.chain}: ${c.check}`);
+        expect(problems(report.chains[0].checks)).to.deep.equal(["base: owner"]);
+        expect(problems(report.chains[1].checks)).to.deep.equal(["ethereum: MessageTransmitter domain"]);
+        expect(problems(report.directions[0].checks)).to.deep.equal(["base: peer", "ethereum: receive ULN config"]);
+        expect(problems(report.directions[1].checks)).to.deep.equal([]);
+
+        const [peer] = report.directions[0].checks;
+        expect(peer.expected).to.equal(ethers.zeroPadValue(await eth.getAddress(), 32));
+        expect(peer.actual).to.equal(ethers.ZeroHash);
+        expect(report.directions[0].checks[6].actual).to.contain(rogueDvn);
+        // Plain JSON for FORMAT=json
+        expect(JSON.parse(JSON.stringify(report))).to.deep.equal(report);
+    });
+});
@@ -0,0 +1,193 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { renderSdkDeployments, renderWebappDeployments } from "../../scripts/deploy/codegen";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+    CONFIG_TYPE_ULN,
+    ChainSet,
+    DeployedAddresses,
+    PipelineStep,
+    checkTransferSetup,
+    decodeUlnConfig,
+    runPipeline,
+} from "../../scripts/deploy/pipeline";
+import { lzReceiveOptions } from "../../sdk/src/lzOptions";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+
+/**
+ * Deployment Pipeline Test
+ *
+ * Runs scripts/deploy/pipeline.ts against two chains on the Hardhat network
+ * (mock LayerZero endpoints and CCTP): a first run deploys and wires
+ * everything, re-runs only touch what drifted, and a redeployed verifier
+ * brings a new bridge that both sides are rewired to. A transfer verifier
+ * built from a local powers of tau, or not the one its setup record
+ * describes, is refused unless a development setup is allowed.
+ */
+
+const BASE_EID = 40245;
+const ETH_EID = 40161;
+
+describe("Deployment Pipeline", function () {
+    this.timeout(120000);
+
+    let owner: HardhatEthersSigner;
+    let other: HardhatEthersSigner;
+    let chainSet: ChainSet;
+    let deployed: DeployedAddresses;
+    let saves: number;
+
+    const run = (options: { dryRun?: boolean } = {}) =>
+        runPipeline(chainSet, {
+            signers: { base: owner, ethereum: owner },
+            deployed,
+            dryRun: options.dryRun,
+            save: () => saves++,
+            allowDevSetup: true,
+        });
+
+    const bridgeOf = (name: string) => ethers.getContractAt("PrivateLZBridge", deployed[name].contracts.privateLZBridge);
+    const byStatus = (steps: PipelineStep[], status: string) =>
+        steps.filter((s) => s.status === status).map((s) => `${s.chain}: ${s.step}`);
+
+    async function chainSpec(eid: number, cctpDomain: number, stealthRegistry: boolean) {
+        const endpoint = await (await ethers.getContractFactory("MockEndpointV2")).deploy(eid);
+        const messenger = await (await ethers.getContractFactory("MockTokenMessengerV2")).deploy();
+        const usdc = await (await ethers.getContractFactory("MockUSDC")).deploy();
+        return {
+            network: `Devnet ${eid}`,
+            chainId: 31337,
+            lzEid: eid,
+            cctpDomain,
+            stealthRegistry,
+            layerzero: {
+                endpoint: await endpoint.getAddress(),
+                sendUln302: ethers.Wallet.createRandom().address,
+                receiveUln302: ethers.Wallet.createRandom().address,
+                dvn: ethers.Wallet.createRandom().address,
+            },
+            cctp: {
+                tokenMessenger: await messenger.getAddress(),
+                messageTransmitter: ethers.Wallet.createRandom().address,
+                usdc: await usdc.getAddress(),
+            },
+        };
+    }
+
+    before(async function () {
+        [owner, other] = await ethers.getSigners();
+        chainSet = {
+            version: "test",
+            lzReceiveGas: 500000,
+            confirmations: 2,
+            chains: {
+                base: await chainSpec(BASE_EID, 6, true),
+                ethereum: await chainSpec(ETH_EID, 0, false),
+            },
+        };
+        deployed = {};
+        saves = 0;
+    });
+
+    it("should refuse a transfer verifier without a ceremony setup", async function () {
+        let error: Error | undefined;
+        await runPipeline(chainSet, { signers: { base: owner, ethereum: owner }, deployed: {}, dryRun: true })
+            .catch((err) => (error = err));
+        expect(error?.message).to.contain("local powers of tau");
+
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), "mixvm-setup-"));
+        try {
+            const setupPath = path.join(dir, "setup.json");
+            const record = JSON.parse(fs.readFileSync(path.join(__dirname, "../../circuits/bridge_transfer_setup.json"), "utf8"));
+            fs.writeFileSync(setupPath, JSON.stringify({ ...record, ptau: "powersOfTau28_hez_final_14.ptau" }));
+            expect(checkTransferSetup({ setupPath }).ptau).to.equal("powersOfTau28_hez_final_14.ptau");
+
+            fs.writeFileSync(setupPath, JSON.stringify({ ...record, verifierSha256: "00" }));
+            expect(() => checkTransferSetup({ setupPath, allowDevSetup: true })).to.throw("was not built with the setup");
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+
+    it("should deploy every contract and wire both directions", async function () {
+        const steps = await run();
+        expect(byStatus(steps, "skipped")).to.deep.equal([]);
+        expect(steps.filter((s) => s.step.startsWith("deploy")).length).to.equal(9);
+        expect(saves).to.be.greaterThan(0);
+
+        const base = await bridgeOf("base");
+        const eth = await bridgeOf("ethereum");
+        expect(await base.peers(ETH_EID)).to.equal(ethers.zeroPadValue(await eth.getAddress(), 32).toLowerCase());
+        expect(await eth.peers(BASE_EID)).to.equal(ethers.zeroPadValue(await base.getAddress(), 32).toLowerCase());
+        expect(await base.cctpDomains(ETH_EID)).to.equal(0n);
+        expect(await eth.cctpDomains(BASE_EID)).to.equal(6n);
+        expect(await base.enforcedOptions(ETH_EID)).to.equal(lzReceiveOptions(500000n));
+
+        const spec = chainSet.chains.base;
+        const endpoint = await ethers.getContractAt("MockEndpointV2", spec.layerzero.endpoint);
+        for (const lib of [spec.layerzero.sendUln302, spec.layerzero.receiveUln302]) {
+            const uln = decodeUlnConfig(await endpoint.getConfig(await base.getAddress(), lib, ETH_EID, CONFIG_TYPE_ULN));
+            expect(uln).to.deep.equal({ confirmations: 2, requiredDVNs: [ethers.getAddress(spec.layerzero.dvn)] });
+        }
+
+        // Recorded for later runs and the generated configs
+        expect(deployed.base.contracts.stealthRegistry).to.be.a("string");
+        expect(deployed.ethereum.contracts.stealthRegistry).to.equal(undefined);
+        expect(deployed.base.deployBlock).to.be.a("number");
+        expect(deployed.base.wiring.ethereum.cctpDomain).to.equal(0);
+        expect(renderSdkDeployments(deployed)).to.contain(`privateLZBridge: "${await base.getAddress()}"`);
+        expect(renderWebappDeployments(deployed)).to.contain(`bridge: "${await eth.getAddress()}"`);
+    });
+
+    it("should skip every step on a re-run", async function () {
+        const block = await ethers.provider.getBlockNumber();
+        const steps = await run();
+        expect(byStatus(steps, "done")).to.deep.equal([]);
+        expect(await ethers.provider.getBlockNumber()).to.equal(block);
+    });
+
+    it("should only repair the steps that drifted", async function () {
+        const base = await bridgeOf("base");
+        await (await base.setPeer(ETH_EID, ethers.ZeroHash)).wait();
+        await (await base.setEnforcedOptions(ETH_EID, "0x")).wait();
+
+        const planned = await run({ dryRun: true });
+        expect(byStatus(planned, "planned")).to.deep.equal(["base: peer -> ethereum", "base: enforced options -> ethereum"]);
+
+        const steps = await run();
+        expect(byStatus(steps, "done")).to.deep.equal(["base: peer -> ethereum", "base: enforced options -> ethereum"]);
+        expect(await base.enforcedOptions(ETH_EID)).to.equal(lzReceiveOptions(500000n));
+    });
+
+    it("should redeploy the bridge for a new verifier and rewire both sides", async function () {
+        const oldBridge = deployed.base.contracts.privateLZBridge;
+        // Recorded verifier has code, but not the transfer verifier's (as on v10.2 chains)
+        deployed.base.contracts.transferVerifier = deployed.base.contracts.withdrawVerifier;
+
+        const steps = await run();
+        expect(byStatus(steps, "done")).to.include.members([
+            "base: deploy BridgeTransferVerifier",
+            "base: deploy PrivateLZBridge",
+            "base: peer -> ethereum",
+            "ethereum: peer -> base",
+        ]);
+        expect(deployed.base.contracts.privateLZBridge).to.not.equal(oldBridge);
+        expect(deployed.legacy).to.deep.equal({ test_base_bridge: oldBridge });
+
+        const eth = await bridgeOf("ethereum");
+        expect(await eth.peers(BASE_EID)).to.equal(ethers.zeroPadValue(deployed.base.contracts.privateLZBridge, 32).toLowerCase());
+    });
+
+    it("should refuse to wire a bridge it does not own", async function () {
+        const eth = await bridgeOf("ethereum");
+        await (await eth.transferOwnership(other.address)).wait();
+        const asOther = await ethers.getContractAt("PrivateLZBridge", await eth.getAddress(), other);
+        await (await asOther.setPeer(BASE_EID, ethers.ZeroHash)).wait();
+
+        let error: Error | undefined;
+        await run().catch((err) => (error = err));
+        expect(error?.message).to.contain("not the deployer");
+    });
+});
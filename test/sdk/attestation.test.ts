@@ -0,0 +1,210 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import * as http from "http";
+import { AddressInfo } from "net";
+import { AttestationClient, decodeCctpMessage, isAttested, isCctpNonceUsed, relayCctpMessage } from "../../sdk/src/cctp";
+import { MixvmError } from "../../sdk/src/errors";
+import {
+    DevnetChain,
+    EMPTY_AUDIT,
+    EMPTY_PROOF,
+    EMPTY_STEALTH,
+    deployDevnet,
+    devnetChain,
+    devnetChainInfo,
+    fundUsdc,
+    randomField,
+} from "../../scripts/devnet/fixtures";
+import { LocalAttestationApi } from "../../scripts/devnet/relayers";
+
+/**
+ * Attestation Client Test
+ *
+ * Fetches the attestation for a devnet burn and relays it, then runs the
+ * client against a scripted API:
+ * 1. Pending messages are polled until attested, reporting each status
+ * 2. The attested message decodes to the burn and mints once on the
+ *    destination; relaying again is a no-op, an unattested or misrouted
+ *    message is refused
+ * 3. Unindexed transactions give no messages; 5xx answers are retried,
+ *    4xx answers and unreachable APIs throw, and waiting gives up at the
+ *    timeout with the last status
+ */
+
+async function expectCode(promise: Promise<unknown>, code: string): Promise<MixvmError> {
+    try {
+        await promise;
+    } catch (err) {
+        expect(err).to.be.instanceOf(MixvmError);
+        expect((err as MixvmError).code).to.equal(code);
+        return err as MixvmError;
+    }
+    expect.fail(`expected ${code}`);
+}
+
+describe("Attestation Client", function () {
+    this.timeout(120000);
+
+    let base: DevnetChain;
+    let eth: DevnetChain;
+    let api: LocalAttestationApi;
+    let apiUrl: string;
+    let txHash: string;
+
+    before(async function () {
+        const [owner] = await ethers.getSigners();
+        const devnet = await deployDevnet({
+            chains: [
+                { name: "base", eid: 40245, cctpDomain: 6 },
+                { name: "ethereum", eid: 40161, cctpDomain: 0 },
+            ],
+            mockVerifiers: true,
+        });
+        base = devnetChain(devnet, "base");
+        eth = devnetChain(devnet, "ethereum");
+        api = new LocalAttestationApi(devnet.chains, devnet.attester);
+        apiUrl = await api.listen();
+
+        await fundUsdc(base, owner.address, 5_000_000n);
+        await (await base.usdc.approve(base.addresses.bridge, ethers.MaxUint256)).wait();
+        await (await base.bridge.deposit(5_000_000n, randomField())).wait();
+        const tx = await base.bridge.initiateTransfer(
+            eth.eid,
+            randomField(),
+            3_000_000n,
+            randomField(),
+            randomField(),
+            randomField(),
+            await base.bridge.getLastRoot(),
+            EMPTY_PROOF,
+            EMPTY_STEALTH,
+            EMPTY_AUDIT,
+            { minFinalityThreshold: 1000, maxFee: 3_000n },
+            "0x",
+            { value: ethers.parseEther("0.01") }
+        );
+        await tx.wait();
+        txHash = tx.hash;
+    });
+
+    after(async function () {
+        await api?.close();
+    });
+
+    it("should poll a pending burn until it is attested", async function () {
+        api.pendingPolls = 2;
+        const client = new AttestationClient({ apiUrl: `${apiUrl}/`, initialDelayMs: 10, maxDelayMs: 20 });
+
+        const [pending] = await client.getMessages(base.cctpDomain, txHash);
+        expect(pending).to.include({ status: "pending_confirmations", attestation: "PENDING" });
+        expect(isAttested(pending)).to.equal(false);
+
+        const statuses: string[] = [];
+        const attested = await client.waitForAttestation(base.cctpDomain, txHash, {
+            timeoutMs: 5000,
+            onStatus: (status) => statuses.push(status),
+        });
+        expect(statuses).to.deep.equal(["pending_confirmations"]);
+        expect(attested.status).to.equal("complete");
+        expect(isAttested(attested)).to.equal(true);
+        expect(attested.message).to.equal(pending.message);
+
+        expect(await client.getBurnFees(base.cctpDomain, eth.cctpDomain)).to.deep.equal([
+            { finalityThreshold: 1000, minimumFee: 1 },
+            { finalityThreshold: 2000, minimumFee: 0 },
+        ]);
+    });
+
+    it("should decode the burn and relay it once", async function () {
+        const client = new AttestationClient({ apiUrl });
+        const [attested] = await client.getMessages(base.cctpDomain, txHash);
+
+        const decoded = decodeCctpMessage(attested.message);
+        expect(decoded).to.include({ version: 1, sourceDomain: base.cctpDomain, destinationDomain: eth.cctpDomain });
+        expect(decoded.minFinalityThreshold).to.equal(1000);
+        expect(decoded.burn!.amount).to.equal(3_003_000n);
+        expect(decoded.burn!.maxFee).to.equal(3_000n);
+        expect(decoded.burn!.mintRecipient).to.equal(eth.addresses.bridge);
+        expect(decoded.burn!.burnToken).to.equal(base.addresses.usdc);
+
+        // The message is for Ethereum, not Base
+        await expectCode(relayCctpMessage(eth.signer, attested, { chain: devnetChainInfo(base) }), "UNKNOWN_CHAIN");
+        await expectCode(relayCctpMessage(eth.signer, { ...attested, attestation: "PENDING" }), "INVALID_CCTP_MESSAGE");
+
+        const before = await eth.usdc.balanceOf(eth.addresses.bridge);
+        const relayed = await relayCctpMessage(eth.signer, attested, { chain: devnetChainInfo(eth) });
+        expect(relayed).to.include({ status: "relayed", nonce: decoded.nonce, destinationDomain: eth.cctpDomain });
+        expect(relayed.txHash).to.be.a("string");
+        expect(await isCctpNonceUsed(eth.provider, eth.addresses.messageTransmitter, decoded.nonce)).to.equal(true);
+        const minted = (await eth.usdc.balanceOf(eth.addresses.bridge)) - before;
+        expect(minted).to.equal(decoded.burn!.amount - decoded.burn!.feeExecuted);
+
+        const again = await relayCctpMessage(eth.signer, attested, { chain: devnetChainInfo(eth) });
+        expect(again.status).to.equal("already_relayed");
+        expect(again.txHash).to.equal(undefined);
+        expect(await eth.usdc.balanceOf(eth.addresses.bridge)).to.equal(before + minted);
+
+        expect(() => decodeCctpMessage("0x1234")).to.throw("CCTP message is 2 bytes, expected at least 148");
+    });
+
+    describe("API errors", function () {
+        let server: http.Server;
+        let url: string;
+        // Status code and body for each request, in order; the last one repeats
+        let script: [number, unknown][];
+        let requests: string[];
+
+        before(async function () {
+            server = http.createServer((req, res) => {
+                requests.push(req.url ?? "");
+                const [status, body] = script.length > 1 ? script.shift()! : script[0];
+                res.writeHead(status).end(JSON.stringify(body));
+            });
+            await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+            url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+        });
+
+        beforeEach(function () {
+            requests = [];
+        });
+
+        after(async function () {
+            await new Promise((resolve) => server?.close(resolve));
+        });
+
+        it("should return no messages for an unindexed transaction", async function () {
+            script = [[404, {}]];
+            const client = new AttestationClient({ apiUrl: url });
+            expect(await client.getMessages(6, "0xabc")).to.deep.equal([]);
+            expect(await client.getBurnFees(6, 0)).to.deep.equal([]);
+            expect(requests).to.deep.equal(["/v2/messages/6?transactionHash=0xabc", "/v2/burn/USDC/fees/6/0"]);
+        });
+
+        it("should retry 5xx answers while waiting and throw on 4xx answers", async function () {
+            const complete = { status: "complete", message: "0x01", attestation: "0x02" };
+            script = [[503, {}], [429, {}], [200, { messages: [complete] }]];
+            const client = new AttestationClient({ apiUrl: url, initialDelayMs: 5, maxDelayMs: 10 });
+            const statuses: string[] = [];
+            const message = await client.waitForAttestation(6, "0xabc", { onStatus: (s) => statuses.push(s) });
+            expect(message).to.deep.equal(complete);
+            expect(statuses).to.have.length(2);
+            expect(statuses[0]).to.contain("Attestation API returned 503");
+
+            script = [[400, { error: "Invalid domain" }]];
+            const err = await expectCode(client.waitForAttestation(99, "0xabc"), "ATTESTATION_UNAVAILABLE");
+            expect(err).to.include({ retryable: false, hint: "Check the source domain and transaction hash" });
+            expect(requests).to.have.length(4);
+        });
+
+        it("should give up at the timeout with the last status", async function () {
+            script = [[200, { messages: [{ status: "pending_confirmations", message: "0x01", attestation: "PENDING" }] }]];
+            const client = new AttestationClient({ apiUrl: url, initialDelayMs: 10, maxDelayMs: 10 });
+            const err = await expectCode(client.waitForAttestation(6, "0xabc", { timeoutMs: 50 }), "ATTESTATION_TIMEOUT");
+            expect(err.message).to.equal("No attestation for 0xabc on domain 6 (last status: pending_confirmations)");
+            expect(err.retryable).to.equal(true);
+
+            const down = new AttestationClient({ apiUrl: "http://127.0.0.1:1", timeoutMs: 1000 });
+            expect(await expectCode(down.getMessages(6, "0xabc"), "ATTESTATION_UNAVAILABLE")).to.include({ retryable: true });
+        });
+    });
+});
@@ -0,0 +1,165 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { ContractRevertError, MixvmError, ProofError, WorkerError, decodeError, describeError, getRevertReason } from "../../sdk/src/errors";
+import { DevnetChain, EMPTY_PROOF, deployDevnet, devnetChain, fundUsdc, randomField } from "../../scripts/devnet/fixtures";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import type { PrivateLZBridge } from "../../typechain-types";
+
+/**
+ * Revert Decoding Test
+ *
+ * decodeError() on real devnet reverts and on the shapes other RPCs and
+ * wallets throw:
+ * 1. Bridge require() messages and USDC's legacy or custom errors map to
+ *    their codes
+ * 2. Revert data nested in RPC errors, or only a message, is decoded too
+ * 3. Unknown reverts keep their reason under REVERTED
+ * 4. Wallet, RPC, witness, circuit and worker failures get their own codes
+ * 5. MixvmErrors pass through, and describeError() adds the hint
+ */
+
+describe("Revert Decoding", function () {
+    this.timeout(120000);
+
+    let owner: HardhatEthersSigner;
+    let other: HardhatEthersSigner;
+    let base: DevnetChain;
+    let bridge: PrivateLZBridge;
+
+    async function rejection(promise: Promise<unknown>): Promise<unknown> {
+        try {
+            await promise;
+        } catch (err) {
+            return err;
+        }
+        expect.fail("expected a revert");
+    }
+
+    const decoded = async (promise: Promise<unknown>, context?: string) => decodeError(await rejection(promise), context);
+
+    // Error(string) revert data, as RPCs return it for require() failures
+    const errorData = (reason: string) =>
+        "0x08c379a0" + ethers.AbiCoder.defaultAbiCoder().encode(["string"], [reason]).slice(2);
+
+    before(async function () {
+        [owner, other] = await ethers.getSigners();
+        const devnet = await deployDevnet({
+            chains: [{ name: "base", eid: 40245, cctpDomain: 6 }],
+            mockVerifiers: true,
+        });
+        base = devnetChain(devnet, "base");
+        bridge = base.bridge;
+        await fundUsdc(base, owner.address, 10_000_000n);
+        await (await base.usdc.approve(base.addresses.bridge, ethers.MaxUint256)).wait();
+    });
+
+    it("should decode bridge require() reverts", async function () {
+        const zero = await decoded(bridge.deposit.staticCall(0n, randomField()), "Deposit");
+        expect(zero).to.be.instanceOf(ContractRevertError);
+        expect(zero).to.include({
+            code: "INVALID_AMOUNT",
+            reason: "Amount must be > 0",
+            message: "Deposit failed: Amount must be greater than zero",
+            retryable: false,
+        });
+        expect((zero as ContractRevertError).cause).to.exist;
+
+        expect((await decoded(bridge.deposit.staticCall(1n, ethers.ZeroHash))).code).to.equal("INVALID_COMMITMENT");
+        const commitment = randomField();
+        await (await bridge.deposit(1_000_000n, commitment)).wait();
+        expect(await decoded(bridge.deposit.staticCall(1n, commitment))).to.include({
+            code: "COMMITMENT_EXISTS",
+            retryable: true,
+        });
+
+        const withdraw = (amount: bigint) =>
+            bridge.withdraw.staticCall(owner.address, amount, randomField(), ethers.ZeroHash, randomField(), EMPTY_PROOF);
+        expect((await decoded(withdraw(2_000_000n))).code).to.equal("INSUFFICIENT_LIQUIDITY");
+        const unknownRoot = await decoded(withdraw(1n));
+        expect(unknownRoot).to.include({ code: "UNKNOWN_MERKLE_ROOT", hint: "Resync the merkle tree and regenerate the proof" });
+        expect(getRevertReason(await rejection(withdraw(1n)))).to.equal("Unknown merkle root");
+    });
+
+    it("should decode USDC reverts", async function () {
+        // No allowance, then an allowance without the balance behind it. The
+        // mock USDC reverts with the legacy OpenZeppelin strings.
+        expect(await decoded(bridge.connect(other).deposit.staticCall(1n, randomField()))).to.include({
+            code: "INSUFFICIENT_ALLOWANCE",
+            reason: "ERC20: insufficient allowance",
+        });
+        await (await base.usdc.connect(other).approve(base.addresses.bridge, 1n)).wait();
+        expect(await decoded(bridge.connect(other).deposit.staticCall(1n, randomField()))).to.include({
+            code: "INSUFFICIENT_BALANCE",
+            reason: "ERC20: transfer amount exceeds balance",
+        });
+
+        // OpenZeppelin 5 USDC custom errors
+        const erc20 = new ethers.Interface(["error ERC20InsufficientBalance(address,uint256,uint256)"]);
+        const data = erc20.encodeErrorResult("ERC20InsufficientBalance", [other.address, 0n, 1n]);
+        expect(decodeError({ error: { data } })).to.include({
+            code: "INSUFFICIENT_BALANCE",
+            reason: "ERC20InsufficientBalance",
+        });
+    });
+
+    it("should decode reverts from raw RPC error shapes", function () {
+        // Revert data nested the way JSON-RPC errors carry it
+        expect(decodeError({ error: { code: 3, data: errorData("Nullifier already used") } }).code).to.equal("NULLIFIER_USED");
+        expect(decodeError({ info: { error: { data: { data: errorData("Route paused") } } } }).code).to.equal("ROUTE_PAUSED");
+
+        const lz = new ethers.Interface(["error LZ_InsufficientFee(uint256,uint256,uint256,uint256)"]);
+        const fee = decodeError({ data: lz.encodeErrorResult("LZ_InsufficientFee", [2n, 1n, 0n, 0n]) });
+        expect(fee).to.include({ code: "INSUFFICIENT_FEE", reason: "LZ_InsufficientFee", retryable: true });
+
+        // Only the message text, longest known reason first
+        expect(decodeError(new Error("execution reverted: Invalid refund commitment")).code).to.equal("INVALID_COMMITMENT");
+        expect(getRevertReason(new Error("execution reverted: Invalid refund commitment"))).to.equal("Invalid refund commitment");
+        expect(decodeError({ reason: "ERC20: transfer amount exceeds balance" }).code).to.equal("INSUFFICIENT_BALANCE");
+        expect(decodeError({ message: "reverted: ERC20: insufficient allowance" }).code).to.equal("INSUFFICIENT_ALLOWANCE");
+    });
+
+    it("should keep unknown reverts under REVERTED", function () {
+        const err = decodeError({ data: errorData("Something else") }, "Withdraw");
+        expect(err).to.be.instanceOf(ContractRevertError);
+        expect(err).to.include({ code: "REVERTED", reason: "Something else", message: "Withdraw failed: Transaction reverted: Something else" });
+
+        const bare = decodeError(ethers.makeError("missing revert data", "CALL_EXCEPTION", { receipt: { hash: "0x1234" } } as never));
+        expect(bare).to.include({ code: "REVERTED", message: "Transaction reverted", txHash: "0x1234" });
+    });
+
+    it("should classify wallet, RPC, proving and worker failures", function () {
+        expect(decodeError(ethers.makeError("user rejected action", "ACTION_REJECTED", { action: "sendTransaction", reason: "rejected" }))).to.include({
+            code: "USER_REJECTED",
+            retryable: true,
+        });
+        // A browser wallet's own EIP-1193 rejection
+        expect(decodeError({ code: 4001, message: "User rejected the request." }).code).to.equal("USER_REJECTED");
+        expect(decodeError(ethers.makeError("insufficient funds", "INSUFFICIENT_FUNDS", { transaction: {} })).code).to.equal("INSUFFICIENT_FUNDS");
+        expect(decodeError(ethers.makeError("request timeout", "TIMEOUT", { operation: "getLogs", reason: "timeout" })).code).to.equal("RPC_UNAVAILABLE");
+
+        const witness = decodeError(new Error("Error: Assert Failed.\nError in template Transfer_123 line: 45"));
+        expect(witness).to.be.instanceOf(ProofError);
+        expect(witness).to.include({ code: "WITNESS_FAILED", retryable: true });
+        expect(decodeError(new Error("ENOENT: no such file or directory, open 'transfer.wasm'"))).to.include({
+            code: "CIRCUIT_NOT_FOUND",
+            retryable: false,
+        });
+        expect(decodeError(new Error("Proof verification failed locally")).code).to.equal("PROOF_INVALID_LOCALLY");
+
+        const worker = decodeError(new Error("Prover worker exited with code 1"));
+        expect(worker).to.be.instanceOf(WorkerError);
+        expect(worker).to.include({ code: "WORKER_FAILED", retryable: true });
+
+        expect(decodeError("boom", "Sync")).to.include({ code: "UNKNOWN", message: "Sync failed: boom" });
+    });
+
+    it("should pass MixvmErrors through and describe errors with their hint", function () {
+        const original = new MixvmError("LEAF_GAP", "Missing merkle leaf 3", { hint: "Resync" });
+        expect(decodeError(original, "Sync")).to.equal(original);
+
+        expect(describeError({ data: errorData("Peer not set") })).to.equal(
+            "The destination chain is not connected to this bridge. Choose another destination chain."
+        );
+        expect(describeError("boom")).to.equal("boom");
+    });
+});
@@ -0,0 +1,109 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { PrivateLZBridgeClient } from "../../sdk/src/bridge";
+import { MixvmError } from "../../sdk/src/errors";
+import { bridgeEventTopics, parseBridgeEvents, parseBridgeLog } from "../../sdk/src/events";
+import { decodeTransferPayload } from "../../sdk/src/lzRecovery";
+import { MerkleSync } from "../../sdk/src/sync";
+import { randomField } from "../../scripts/devnet/fixtures";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { MockLegacyBridgeEvents, MockLegacyBridgeEvents__factory } from "../../typechain-types";
+
+/**
+ * v10.2 Bridge Compatibility Test
+ *
+ * The deployed v10.2 bridges emit CrossChainTransferInitiated / Received
+ * without grossAmount and CCTPBurnInitiated without fee or finality. The SDK
+ * decodes both signatures, syncs trees built from either, and refuses to
+ * send through a bridge whose initiateTransfer it cannot call.
+ */
+
+const ETH_EID = 40161;
+const BASE_EID = 40245;
+const ETH_DOMAIN = 0;
+
+describe("v10.2 Bridge Compatibility", function () {
+    this.timeout(60000);
+
+    let owner: HardhatEthersSigner;
+    let legacy: MockLegacyBridgeEvents;
+    let bridgeAddress: string;
+
+    before(async function () {
+        [owner] = await ethers.getSigners();
+        legacy = await new MockLegacyBridgeEvents__factory(owner).deploy();
+        bridgeAddress = await legacy.getAddress();
+    });
+
+    it("should decode v10.2 transfer and burn events with the current fields", async function () {
+        const amount = 2_000_000n;
+        const recipientCommitment = randomField();
+        const receipt = (await (await legacy.initiateTransfer(ETH_EID, ETH_DOMAIN, recipientCommitment, randomField(), amount)).wait())!;
+
+        const [initiated] = parseBridgeEvents(receipt.logs, bridgeAddress).transfersInitiated;
+        expect(initiated.dstEid).to.equal(ETH_EID);
+        expect(initiated.recipientCommitment).to.equal(recipientCommitment);
+        expect(initiated.amount).to.equal(amount);
+        expect(initiated.grossAmount).to.equal(amount);
+
+        const burn = receipt.logs.map((log) => parseBridgeLog(log)).find((parsed) => parsed?.name === "CCTPBurnInitiated")!;
+        expect(burn.legacy).to.equal(true);
+        expect(burn.args.amount).to.equal(amount);
+        expect(burn.args.maxFee).to.equal(amount / 1000n);
+        expect(burn.args.minFinalityThreshold).to.equal(1000n);
+
+        const received = (await (await legacy.receiveTransfer(BASE_EID, randomField(), amount)).wait())!;
+        const [event] = parseBridgeEvents(received.logs, bridgeAddress).transfersReceived;
+        expect(event.srcEid).to.equal(BASE_EID);
+        expect(event.grossAmount).to.equal(amount);
+    });
+
+    it("should filter on both signatures of the changed events", async function () {
+        expect(bridgeEventTopics("CrossChainTransferInitiated")).to.have.length(2);
+        expect(bridgeEventTopics("CrossChainTransferReceived")).to.have.length(2);
+        expect(bridgeEventTopics("CCTPBurnInitiated")).to.have.length(2);
+        expect(bridgeEventTopics("Deposited")).to.deep.equal([legacy.interface.getEvent("Deposited").topicHash]);
+        expect(bridgeEventTopics("CrossChainTransferReceived")).to.include(
+            legacy.interface.getEvent("CrossChainTransferReceived").topicHash
+        );
+    });
+
+    it("should sync a tree whose leaves come from v10.2 transfers", async function () {
+        await (await legacy.deposit(randomField(), 1_000_000n)).wait();
+        await (await legacy.initiateTransfer(ETH_EID, ETH_DOMAIN, randomField(), randomField(), 500_000n)).wait();
+        await (await legacy.receiveTransfer(BASE_EID, randomField(), 700_000n)).wait();
+
+        const sync = new MerkleSync(ethers.provider, bridgeAddress);
+        // Leaves from the first test, then these three
+        expect(await sync.sync()).to.equal(Number(await legacy.nextLeafIndex()));
+        expect(await sync.sync()).to.equal(0);
+    });
+
+    it("should decode v10.2 LayerZero payloads without a gross amount", function () {
+        const commitment = randomField();
+        const stealth = [1n, 2n, 3n, 4n, 5n];
+        const message = ethers.AbiCoder.defaultAbiCoder().encode(
+            ["bytes32", "uint256", "tuple(uint256,uint256,uint256,uint256,uint256)"],
+            [commitment, 3_000_000n, stealth]
+        );
+
+        const payload = decodeTransferPayload(message);
+        expect(payload.recipientCommitment).to.equal(commitment);
+        expect(payload.amount).to.equal(3_000_000n);
+        expect(payload.grossAmount).to.equal(3_000_000n);
+        expect(payload.stealthData.viewTag).to.equal(5n);
+    });
+
+    it("should refuse to quote or send through a v10.2 bridge", async function () {
+        const client = new PrivateLZBridgeClient({ provider: ethers.provider, signer: owner, bridgeAddress });
+        await client.initialize();
+
+        try {
+            await client.quoteTransfer(ETH_EID, 1_000_000n);
+            expect.fail("expected LEGACY_BRIDGE");
+        } catch (err) {
+            expect(err).to.be.instanceOf(MixvmError);
+            expect((err as MixvmError).code).to.equal("LEGACY_BRIDGE");
+        }
+    });
+});
@@ -0,0 +1,159 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Filter, Log, Provider } from "ethers";
+import { LeafGapError, LogFetchError, assertContiguousLeaves, fetchLogs, isRangeTooLargeError } from "../../sdk/src/logs";
+import { DevnetChain, deployDevnet, devnetChain, fundUsdc, randomField } from "../../scripts/devnet/fixtures";
+
+/**
+ * Log Fetcher Test
+ *
+ * Fetches a devnet bridge's Deposited logs through a provider that fails on
+ * cue:
+ * 1. Chunks cover the range exactly once and logs come back in block order
+ * 2. Transient errors are retried with doubling delays, then LogFetchError
+ * 3. "Range too large" errors halve the chunk down to minChunkSize, then fail
+ * 4. Leaf indices with a gap are refused
+ */
+
+type GetLogs = (filter: Filter) => Promise<Log[]>;
+
+// Forwards to the Hardhat provider; `fail` decides per request whether to throw instead
+function flakyProvider(fail: (range: [number, number]) => Error | undefined) {
+    const requests: [number, number][] = [];
+    const getLogs: GetLogs = async (filter) => {
+        const range: [number, number] = [Number(filter.fromBlock), Number(filter.toBlock)];
+        requests.push(range);
+        const err = fail(range);
+        if (err) throw err;
+        return ethers.provider.getLogs(filter);
+    };
+    const provider = { getLogs, getBlockNumber: () => ethers.provider.getBlockNumber() } as unknown as Provider;
+    return { provider, requests };
+}
+
+describe("Log Fetcher", function () {
+    this.timeout(120000);
+
+    let base: DevnetChain;
+    let filter: { address: string; topics: string[] };
+    let fromBlock: number;
+    let toBlock: number;
+    const depositBlocks: number[] = [];
+
+    before(async function () {
+        const [owner] = await ethers.getSigners();
+        const devnet = await deployDevnet({
+            chains: [{ name: "base", eid: 40245, cctpDomain: 6 }],
+            mockVerifiers: true,
+        });
+        base = devnetChain(devnet, "base");
+        await fundUsdc(base, owner.address, 10_000_000n);
+        await (await base.usdc.approve(base.addresses.bridge, ethers.MaxUint256)).wait();
+
+        fromBlock = await ethers.provider.getBlockNumber();
+        for (let i = 0; i < 6; i++) {
+            const receipt = await (await base.bridge.deposit(1_000_000n, randomField())).wait();
+            depositBlocks.push(receipt!.blockNumber);
+            // Empty blocks between deposits so chunks straddle them
+            await ethers.provider.send("hardhat_mine", ["0x2"]);
+        }
+        toBlock = await ethers.provider.getBlockNumber();
+        filter = {
+            address: base.addresses.bridge,
+            topics: [base.bridge.interface.getEvent("Deposited").topicHash],
+        };
+    });
+
+    it("should fetch every chunk once, in block order", async function () {
+        const { provider, requests } = flakyProvider(() => undefined);
+        const chunks: [number, number, number][] = [];
+        const logs = await fetchLogs(provider, filter, {
+            fromBlock,
+            chunkSize: 4,
+            onChunk: (from, to, chunk) => chunks.push([from, to, chunk.length]),
+        });
+
+        expect(logs.map((log) => log.blockNumber)).to.deep.equal(depositBlocks);
+        expect(chunks.reduce((n, [, , count]) => n + count, 0)).to.equal(6);
+        // Contiguous, non-overlapping, up to the latest block
+        expect(requests[0][0]).to.equal(fromBlock);
+        expect(requests[requests.length - 1][1]).to.equal(toBlock);
+        for (let i = 1; i < requests.length; i++) {
+            expect(requests[i][0]).to.equal(requests[i - 1][1] + 1);
+            expect(requests[i][1] - requests[i][0]).to.be.at.most(3);
+        }
+        expect(chunks.map(([from, to]) => [from, to])).to.deep.equal(requests);
+    });
+
+    it("should retry transient errors with backoff and then give up", async function () {
+        // Fails twice on the second chunk, then recovers
+        let failures = 0;
+        const recovering = flakyProvider(([from]) =>
+            from === fromBlock + 10 && failures++ < 2 ? new Error("connection reset") : undefined
+        );
+        const started = Date.now();
+        const logs = await fetchLogs(recovering.provider, filter, { fromBlock, chunkSize: 10, retryDelayMs: 50 });
+        expect(Date.now() - started).to.be.at.least(150);
+        expect(logs).to.have.length(6);
+        expect(recovering.requests.filter(([from]) => from === fromBlock + 10)).to.have.length(3);
+
+        const down = flakyProvider(() => new Error("connection reset"));
+        let error: unknown;
+        try {
+            await fetchLogs(down.provider, filter, { fromBlock, toBlock, chunkSize: 100, maxRetries: 2, retryDelayMs: 1 });
+        } catch (err) {
+            error = err;
+        }
+        expect(error).to.be.instanceOf(LogFetchError);
+        expect(error).to.include({ code: "LOG_FETCH_FAILED", retryable: true, fromBlock, toBlock });
+        expect((error as Error).message).to.contain("connection reset");
+        expect(down.requests).to.have.length(3);
+    });
+
+    it("should halve the range when the RPC says it is too large", async function () {
+        const { provider, requests } = flakyProvider(([from, to]) =>
+            to - from + 1 > 5 ? new Error("query returned more than 10000 results") : undefined
+        );
+        const logs = await fetchLogs(provider, filter, { fromBlock, chunkSize: 16, retryDelayMs: 1 });
+
+        expect(logs.map((log) => log.blockNumber)).to.deep.equal(depositBlocks);
+        // 16 -> 8 -> 4, then it stays small
+        expect(requests.slice(0, 3).map(([from, to]) => to - from + 1)).to.deep.equal([16, 8, 4]);
+        expect(requests.slice(3).every(([from, to]) => to - from + 1 <= 5)).to.equal(true);
+
+        const stubborn = flakyProvider(() => new Error("block range is too wide"));
+        let error: unknown;
+        try {
+            await fetchLogs(stubborn.provider, filter, { fromBlock, chunkSize: 8, minChunkSize: 2, maxRetries: 1, retryDelayMs: 1 });
+        } catch (err) {
+            error = err;
+        }
+        expect(error).to.be.instanceOf(LogFetchError);
+        // 8, 4, 2, then one retry at the minimum size
+        expect(stubborn.requests.map(([from, to]) => to - from + 1)).to.deep.equal([8, 4, 2, 2]);
+    });
+
+    it("should recognise range errors from common providers", function () {
+        expect(isRangeTooLargeError(new Error("eth_getLogs block range too large, range: 50000, max: 10000"))).to.equal(true);
+        expect(isRangeTooLargeError({ error: { code: -32005, message: "limit exceeded" } })).to.equal(true);
+        expect(isRangeTooLargeError({ shortMessage: "Log response size exceeded" })).to.equal(true);
+        expect(isRangeTooLargeError(new Error("connection reset"))).to.equal(false);
+        expect(isRangeTooLargeError(undefined)).to.equal(false);
+    });
+
+    it("should sort leaves and refuse a gap", function () {
+        const leaves = [2, 0, 1].map((leafIndex) => ({ leafIndex }));
+        expect(assertContiguousLeaves(leaves).map((l) => l.leafIndex)).to.deep.equal([0, 1, 2]);
+        expect(assertContiguousLeaves([{ leafIndex: 5 }], 5)).to.have.length(1);
+
+        expect(() => assertContiguousLeaves([{ leafIndex: 0 }, { leafIndex: 2 }]))
+            .to.throw(LeafGapError, "Missing merkle leaf 1 (next fetched leaf is 2)");
+        let error: unknown;
+        try {
+            assertContiguousLeaves([{ leafIndex: 4 }], 3);
+        } catch (err) {
+            error = err;
+        }
+        expect(error).to.include({ code: "LEAF_GAP", retryable: true, expectedIndex: 3, foundIndex: 4 });
+    });
+});
@@ -0,0 +1,171 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { MixvmError } from "../../sdk/src/errors";
+import {
+    LzMessageRecovery,
+    decodeLzPacket,
+    decodeTransferPayload,
+    lzPayloadHash,
+} from "../../sdk/src/lzRecovery";
+import { InboundLzMessage } from "../../sdk/src/types";
+import { EMPTY_AUDIT, EMPTY_PROOF, deployBridge, randomField } from "../../scripts/devnet/fixtures";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { MockEndpointV2, MockEndpointV2__factory, MockUSDC, MockUSDC__factory, PrivateLZBridge } from "../../typechain-types";
+
+/**
+ * LayerZero Message Recovery Test
+ *
+ * Two bridges on one chain, each behind its own mock endpoint. A transfer
+ * from BASE is verified on the ETH endpoint as the DVNs would, and the
+ * recovery finds it from the source transaction, diagnoses why lzReceive
+ * reverts and retries, clears or skips it.
+ */
+
+const BASE_EID = 40245;
+const ETH_EID = 40161;
+// Non-zero so the decoded payload shows where each field went
+const STEALTH = { ephemeralPubKeyX: 1n, ephemeralPubKeyY: 2n, stealthAddressX: 3n, stealthAddressY: 4n, viewTag: 5n };
+
+describe("LayerZero Message Recovery", function () {
+    this.timeout(60000);
+
+    let owner: HardhatEthersSigner;
+    let other: HardhatEthersSigner;
+    let usdc: MockUSDC;
+    let srcEndpoint: MockEndpointV2;
+    let dstEndpoint: MockEndpointV2;
+    let srcBridge: PrivateLZBridge;
+    let dstBridge: PrivateLZBridge;
+    let recovery: LzMessageRecovery;
+
+    before(async function () {
+        [owner, other] = await ethers.getSigners();
+        usdc = await new MockUSDC__factory(owner).deploy();
+        const Endpoint = new MockEndpointV2__factory(owner);
+        srcEndpoint = await Endpoint.deploy(BASE_EID);
+        dstEndpoint = await Endpoint.deploy(ETH_EID);
+        srcBridge = await deployBridge({ endpoint: srcEndpoint, eid: BASE_EID, usdc, owner });
+        dstBridge = await deployBridge({ endpoint: dstEndpoint, eid: ETH_EID, usdc, owner });
+
+        // The destination does not trust the source yet, so lzReceive reverts "Invalid peer"
+        await (await srcBridge.setPeer(ETH_EID, ethers.zeroPadValue(await dstBridge.getAddress(), 32))).wait();
+
+        await (await usdc.mint(owner.address, 100_000_000n)).wait();
+        await (await usdc.approve(await srcBridge.getAddress(), 100_000_000n)).wait();
+        await (await srcBridge.deposit(50_000_000n, randomField())).wait();
+
+        recovery = new LzMessageRecovery({
+            chains: [
+                { eid: BASE_EID, provider: ethers.provider, bridgeAddress: await srcBridge.getAddress(), fromBlock: 0 },
+                { eid: ETH_EID, provider: ethers.provider, bridgeAddress: await dstBridge.getAddress(), fromBlock: 0 },
+            ],
+        });
+    });
+
+    // Send a transfer from BASE to ETH and return the recovery's view of it
+    async function send(recipientCommitment = randomField()): Promise<InboundLzMessage> {
+        const tx = await srcBridge.initiateTransfer(
+            ETH_EID,
+            recipientCommitment,
+            1_000_000n,
+            ethers.hexlify(ethers.randomBytes(32)),
+            randomField(),
+            randomField(),
+            await srcBridge.getLastRoot(),
+            EMPTY_PROOF,
+            STEALTH,
+            EMPTY_AUDIT,
+            { minFinalityThreshold: 1000, maxFee: 0n },
+            "0x",
+            { value: ethers.parseEther("0.01") }
+        );
+        const receipt = (await tx.wait())!;
+        const messages = await recovery.messages(BASE_EID, { fromBlock: receipt.blockNumber });
+        expect(messages).to.have.length(1);
+        return messages[0];
+    }
+
+    async function expectRejected(promise: Promise<unknown>, code: string) {
+        try {
+            await promise;
+            expect.fail("expected the recovery to refuse");
+        } catch (err) {
+            expect(err).to.be.instanceOf(MixvmError);
+            expect((err as MixvmError).code).to.equal(code);
+        }
+    }
+
+    async function verify(message: InboundLzMessage) {
+        const origin = { srcEid: message.srcEid, sender: message.sender, nonce: message.nonce };
+        await (await dstEndpoint.verify(origin, message.receiverAddress, message.payloadHash)).wait();
+    }
+
+    it("should decode the sent packet and transfer payload", async function () {
+        const recipientCommitment = randomField();
+        const message = await send(recipientCommitment);
+
+        expect(message.srcEid).to.equal(BASE_EID);
+        expect(message.dstEid).to.equal(ETH_EID);
+        expect(message.sender).to.equal(ethers.zeroPadValue(await srcBridge.getAddress(), 32).toLowerCase());
+        expect(message.receiverAddress).to.equal(await dstBridge.getAddress());
+        expect(message.status).to.equal("unverified");
+        expect(message.payload).to.deep.equal({
+            recipientCommitment,
+            amount: 1_000_000n,
+            grossAmount: 1_000_000n,
+            stealthData: { ephemeralPubKeyX: 1n, ephemeralPubKeyY: 2n, stealthAddressX: 3n, stealthAddressY: 4n, viewTag: 5n },
+        });
+        expect(message.payloadHash).to.equal(lzPayloadHash(message.guid, message.message));
+        expect(decodeTransferPayload(message.message)).to.deep.equal(message.payload);
+        expect(() => decodeLzPacket("0x01")).to.throw().with.property("code", "INVALID_LZ_MESSAGE");
+
+        // Nonce 1 never verifies: only the owner can skip it
+        await expectRejected(recovery.skip(message, other), "NOT_OWNER");
+        const result = await recovery.skip(message, owner);
+        expect(result.action).to.equal("skip");
+        expect((await recovery.messages(BASE_EID, { fromBlock: message.srcBlockNumber }))[0].status).to.equal("delivered");
+    });
+
+    it("should diagnose an invalid peer and retry once it is set", async function () {
+        const message = await send();
+        expect((await recovery.diagnose(message)).actions).to.deep.equal(["skip"]);
+
+        await verify(message);
+        const stuck = await recovery.findStuck();
+        expect(stuck.map((m) => m.guid)).to.deep.equal([message.guid]);
+        expect(stuck[0].status).to.equal("verified");
+        expect(stuck[0].diagnosis).to.include({ executable: false, reason: "Invalid peer" });
+        expect(stuck[0].diagnosis.actions).to.deep.equal(["retry", "refund", "clear"]);
+        expect(stuck[0].diagnosis.refundReason).to.equal("invalid_peer");
+        expect(stuck[0].diagnosis.advice).to.contain("peer");
+
+        await (await dstBridge.setPeer(BASE_EID, message.sender)).wait();
+        expect((await recovery.diagnose(message)).executable).to.equal(true);
+
+        const result = await recovery.retry(message, other);
+        expect(result.action).to.equal("retry");
+        expect(await dstBridge.commitmentExists(message.payload.recipientCommitment)).to.equal(true);
+        expect(await recovery.findStuck()).to.deep.equal([]);
+        await expectRejected(recovery.retry(message, other), "LZ_PAYLOAD_NOT_FOUND");
+    });
+
+    it("should diagnose an existing commitment and let the owner clear it", async function () {
+        const recipientCommitment = randomField();
+        const message = await send(recipientCommitment);
+        await verify(message);
+
+        // The commitment is already in the destination tree, so the message can never execute
+        await (await usdc.approve(await dstBridge.getAddress(), 1n)).wait();
+        await (await dstBridge.deposit(1n, recipientCommitment)).wait();
+
+        const diagnosis = await recovery.diagnose(message);
+        expect(diagnosis).to.include({ executable: false, reason: "Commitment exists" });
+        expect(diagnosis.actions).to.deep.equal(["refund", "clear"]);
+        expect(diagnosis.refundReason).to.equal("commitment_exists");
+
+        await expectRejected(recovery.clear(message, other), "NOT_OWNER");
+        await recovery.clear(message, owner);
+        expect(await recovery.findStuck()).to.deep.equal([]);
+        expect((await recovery.diagnose(message)).actions).to.deep.equal([]);
+    });
+});
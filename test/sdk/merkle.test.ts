@@ -0,0 +1,132 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { MerkleTree } from "../../sdk/src/merkle";
+import { hash2, initPoseidon } from "../../sdk/src/poseidon";
+import { MERKLE_DEPTH } from "../../sdk/src/types";
+import { DevnetChain, deployDevnet, devnetChain, fundUsdc, randomField } from "../../scripts/devnet/fixtures";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+
+/**
+ * Merkle Tree Test
+ *
+ * Checks the SDK's incremental sparse tree against a devnet bridge's tree:
+ * 1. Zero values, the empty root and the depth match the contract
+ * 2. After every deposit the SDK root equals getLastRoot(), the filled
+ *    subtrees match, and every leaf's proof verifies against the root
+ * 3. A serialized tree restores without rehashing and keeps matching
+ * 4. Proofs for nodes past the last leaf use zero values, bad indices and a
+ *    full tree are refused
+ */
+
+describe("Merkle Tree", function () {
+    this.timeout(120000);
+
+    let owner: HardhatEthersSigner;
+    let base: DevnetChain;
+    const leaves: bigint[] = [];
+
+    async function deposit(): Promise<bigint> {
+        const commitment = randomField();
+        await (await base.bridge.connect(owner).deposit(1_000_000n, commitment)).wait();
+        const leaf = BigInt(commitment);
+        leaves.push(leaf);
+        return leaf;
+    }
+
+    async function expectMatchesContract(tree: MerkleTree) {
+        expect(tree.getRoot()).to.equal(BigInt(await base.bridge.getLastRoot()));
+        const state = tree.serialize();
+        for (let level = 0; level < MERKLE_DEPTH; level++) {
+            expect(BigInt(state.filledSubtrees[level])).to.equal(BigInt(await base.bridge.filledSubtrees(level)));
+        }
+    }
+
+    before(async function () {
+        await initPoseidon();
+        [owner] = await ethers.getSigners();
+        const devnet = await deployDevnet({
+            chains: [{ name: "base", eid: 40245, cctpDomain: 6 }],
+            mockVerifiers: true,
+        });
+        base = devnetChain(devnet, "base");
+        await fundUsdc(base, owner.address, 100_000_000n);
+        await (await base.usdc.connect(owner).approve(base.addresses.bridge, ethers.MaxUint256)).wait();
+    });
+
+    it("should start from the contract's zero values and empty root", async function () {
+        const tree = new MerkleTree();
+        const zeros = tree.getZeroValues();
+        expect(zeros).to.have.length(MERKLE_DEPTH + 1);
+        expect(BigInt(await base.bridge.TREE_DEPTH())).to.equal(BigInt(MERKLE_DEPTH));
+        for (let level = 0; level < MERKLE_DEPTH; level++) {
+            expect(zeros[level]).to.equal(BigInt(await base.bridge.zeros(level)));
+        }
+        expect(tree.getRoot()).to.equal(zeros[MERKLE_DEPTH]);
+        await expectMatchesContract(tree);
+    });
+
+    it("should follow the contract root deposit by deposit", async function () {
+        const tree = new MerkleTree();
+        const roots: bigint[] = [];
+        for (let i = 0; i < 7; i++) {
+            const leaf = await deposit();
+            expect(tree.addLeaf(leaf)).to.equal(i);
+            await expectMatchesContract(tree);
+            roots.push(tree.getRoot());
+        }
+
+        // Every intermediate root is still in the contract's root history
+        for (const root of roots) {
+            expect(await base.bridge.isKnownRoot(ethers.toBeHex(root, 32))).to.equal(true);
+        }
+        for (let index = 0; index < leaves.length; index++) {
+            const proof = tree.getProof(index);
+            expect(proof.root).to.equal(tree.getRoot());
+            expect(proof.pathIndices[0]).to.equal(index % 2);
+            expect(tree.verifyProof(leaves[index], proof)).to.equal(true);
+            expect(tree.verifyProof(leaves[(index + 1) % leaves.length], proof)).to.equal(false);
+        }
+    });
+
+    it("should restore a serialized tree and keep matching", async function () {
+        const tree = new MerkleTree();
+        tree.setLeaves(leaves);
+        await expectMatchesContract(tree);
+
+        // Through JSON, as the tree cache stores it
+        const restored = MerkleTree.restore(JSON.parse(JSON.stringify(tree.serialize())));
+        expect(restored.getRoot()).to.equal(tree.getRoot());
+        expect(restored.getLeaves()).to.deep.equal(leaves);
+        expect(restored.getProof(3)).to.deep.equal(tree.getProof(3));
+
+        const leaf = await deposit();
+        restored.addLeaf(leaf);
+        await expectMatchesContract(restored);
+
+        const state = tree.serialize();
+        expect(() => MerkleTree.restore({ ...state, nodes: state.nodes.slice(1) })).to.throw(
+            "Invalid merkle tree state: node levels do not match depth"
+        );
+    });
+
+    it("should use zero values for empty subtrees and refuse bad indices", function () {
+        const tree = new MerkleTree(3);
+        const zeros = tree.getZeroValues();
+        tree.addLeaf(11n);
+        tree.addLeaf(22n);
+        tree.addLeaf(33n);
+
+        const proof = tree.getProof(2);
+        expect(proof.pathElements).to.deep.equal([zeros[0], hash2(11n, 22n), zeros[2]]);
+        expect(proof.pathIndices).to.deep.equal([0, 1, 0]);
+        expect(tree.getRoot()).to.equal(hash2(hash2(hash2(11n, 22n), hash2(33n, 0n)), zeros[2]));
+        // Only the nodes above a leaf are stored
+        expect(tree.serialize().nodes.map((level) => level.length)).to.deep.equal([2, 1, 1]);
+
+        expect(() => tree.getProof(3)).to.throw("Invalid leaf index: 3");
+        expect(() => tree.getProof(-1)).to.throw("Invalid leaf index: -1");
+        for (let i = 3; i < 8; i++) tree.addLeaf(BigInt(i));
+        expect(() => tree.addLeaf(8n)).to.throw("Tree is full");
+        expect(tree.getLeafCount()).to.equal(8);
+    });
+});
@@ -0,0 +1,169 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { EncryptedFileNoteStore, JsonFileNoteStore, MemoryNoteStore, noteKey } from "../../sdk/src/notes";
+import { NoteStore, PrivateNote } from "../../sdk/src/types";
+
+/**
+ * Note Store Test
+ *
+ * Runs the same checks against the memory, JSON file and encrypted file
+ * stores: notes round-trip with their bigints, are keyed by chain, bridge and
+ * commitment, and survive a new store instance on the same file. The
+ * encrypted store keeps nothing readable on disk and refuses a wrong password.
+ */
+
+const BRIDGE = "0x4cDf8DB3B884418db41fc1Eb15b3152262979AF1";
+
+function note(commitment: bigint, overrides: Partial<PrivateNote> = {}): PrivateNote {
+    return {
+        commitment,
+        balance: 1_000_000n,
+        // Above 2^53, so a lossy number encoding would show
+        randomness: 2n ** 200n + commitment,
+        nullifierSecret: 3n ** 100n,
+        leafIndex: Number(commitment),
+        chainId: 84532,
+        bridgeAddress: BRIDGE,
+        status: "unspent",
+        ...overrides,
+    };
+}
+
+const sorted = (notes: PrivateNote[]) => [...notes].sort((a, b) => Number(a.commitment - b.commitment));
+
+describe("Note Stores", function () {
+    let dir: string;
+
+    beforeEach(function () {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "mixvm-notes-"));
+    });
+
+    afterEach(function () {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const stores: [string, () => NoteStore][] = [
+        ["MemoryNoteStore", () => new MemoryNoteStore()],
+        ["JsonFileNoteStore", () => new JsonFileNoteStore(path.join(dir, "notes.json"))],
+        ["EncryptedFileNoteStore", () => new EncryptedFileNoteStore(path.join(dir, "notes.enc"), "correct horse")],
+    ];
+
+    for (const [name, create] of stores) {
+        describe(name, function () {
+            it("should start empty and round-trip notes", async function () {
+                const store = create();
+                expect(await store.list()).to.deep.equal([]);
+
+                await store.put([note(1n), note(2n, { status: "pending", leafIndex: -1 })]);
+                expect(sorted(await store.list())).to.deep.equal([note(1n), note(2n, { status: "pending", leafIndex: -1 })]);
+            });
+
+            it("should key notes by chain, bridge and commitment", async function () {
+                const store = create();
+                await store.put([note(1n), note(1n, { chainId: 11155111 })]);
+                expect(await store.list()).to.have.length(2);
+
+                // The same note with a checksummed or lowercase bridge is replaced
+                await store.put([note(1n, { bridgeAddress: BRIDGE.toLowerCase(), status: "spent" })]);
+                const notes = await store.list();
+                expect(notes).to.have.length(2);
+                expect(notes.find((n) => n.chainId === 84532)!.status).to.equal("spent");
+                expect(noteKey(note(1n))).to.equal(noteKey(note(1n, { bridgeAddress: BRIDGE.toLowerCase() })));
+            });
+
+            it("should put and remove in one call, and remove on its own", async function () {
+                const store = create();
+                await store.put([note(1n), note(2n)]);
+                await store.put([note(3n)], [note(1n)]);
+                expect(sorted(await store.list()).map((n) => n.commitment)).to.deep.equal([2n, 3n]);
+
+                await store.remove([note(2n), note(4n)]);
+                expect((await store.list()).map((n) => n.commitment)).to.deep.equal([3n]);
+            });
+
+            it("should keep every one of concurrent writes", async function () {
+                const store = create();
+                await Promise.all([1n, 2n, 3n, 4n, 5n].map((c) => store.put([note(c)])));
+                expect(sorted(await store.list()).map((n) => n.commitment)).to.deep.equal([1n, 2n, 3n, 4n, 5n]);
+            });
+
+            it("should hand out copies of the stored notes", async function () {
+                const store = create();
+                const stored = note(1n);
+                await store.put([stored]);
+                stored.status = "spent";
+                const [listed] = await store.list();
+                listed.balance = 0n;
+                expect(await store.list()).to.deep.equal([note(1n)]);
+            });
+        });
+    }
+
+    describe("JSON file format", function () {
+        it("should write versioned JSON that a new instance reads back", async function () {
+            const file = path.join(dir, "nested", "notes.json");
+            await new JsonFileNoteStore(file).put([note(1n)]);
+
+            const contents = JSON.parse(fs.readFileSync(file, "utf8"));
+            expect(contents.version).to.equal(1);
+            expect(contents.notes[0]).to.include({ commitment: "1", randomness: (2n ** 200n + 1n).toString() });
+            expect(await new JsonFileNoteStore(file).list()).to.deep.equal([note(1n)]);
+            // Written through a temp file that is renamed away, owner-only
+            expect(fs.readdirSync(path.dirname(file))).to.deep.equal(["notes.json"]);
+            expect(fs.statSync(file).mode & 0o777).to.equal(0o600);
+        });
+    });
+
+    describe("Encrypted file format", function () {
+        it("should keep nothing readable on disk and decrypt with the password", async function () {
+            const file = path.join(dir, "notes.enc");
+            await new EncryptedFileNoteStore(file, "correct horse").put([note(1n)]);
+
+            const contents = fs.readFileSync(file, "utf8");
+            const envelope = JSON.parse(contents);
+            expect(envelope).to.include({ version: 1, cipher: "aes-256-gcm", kdf: "scrypt" });
+            expect(contents).not.to.contain((2n ** 200n + 1n).toString());
+            expect(contents).not.to.contain(BRIDGE);
+            expect(await new EncryptedFileNoteStore(file, "correct horse").list()).to.deep.equal([note(1n)]);
+        });
+
+        it("should use a new salt and IV on every write", async function () {
+            const file = path.join(dir, "notes.enc");
+            const store = new EncryptedFileNoteStore(file, "correct horse");
+            await store.put([note(1n)]);
+            const first = JSON.parse(fs.readFileSync(file, "utf8"));
+            await store.put([note(1n)]);
+            const second = JSON.parse(fs.readFileSync(file, "utf8"));
+            expect(second.salt).not.to.equal(first.salt);
+            expect(second.iv).not.to.equal(first.iv);
+        });
+
+        it("should refuse a wrong password, a tampered file and an empty password", async function () {
+            const file = path.join(dir, "notes.enc");
+            await new EncryptedFileNoteStore(file, "correct horse").put([note(1n)]);
+
+            let error: unknown;
+            try {
+                await new EncryptedFileNoteStore(file, "wrong").list();
+            } catch (err) {
+                error = err;
+            }
+            expect((error as Error).message).to.equal("Failed to decrypt note store (wrong password or corrupted file)");
+
+            const envelope = JSON.parse(fs.readFileSync(file, "utf8"));
+            envelope.data = (envelope.data[0] === "0" ? "1" : "0") + envelope.data.slice(1);
+            fs.writeFileSync(file, JSON.stringify(envelope));
+            error = undefined;
+            try {
+                await new EncryptedFileNoteStore(file, "correct horse").list();
+            } catch (err) {
+                error = err;
+            }
+            expect((error as Error).message).to.contain("wrong password or corrupted file");
+
+            expect(() => new EncryptedFileNoteStore(file, "")).to.throw("Password required for encrypted note store");
+        });
+    });
+});
@@ -0,0 +1,181 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { PrivateLZBridgeClient } from "../../sdk/src/bridge";
+import { MixvmError, decodeError, getRevertReason } from "../../sdk/src/errors";
+import { MemoryNoteStore } from "../../sdk/src/notes";
+import { getPauseState, pauseBits, pausedError } from "../../sdk/src/pause";
+import { preflightTransfer, preflightWithdraw } from "../../sdk/src/preflight";
+import {
+    DevnetChain,
+    EMPTY_AUDIT,
+    EMPTY_PROOF,
+    EMPTY_STEALTH,
+    deployDevnet,
+    devnetChain,
+    randomField,
+} from "../../scripts/devnet/fixtures";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import type { PrivateLZBridge } from "../../typechain-types";
+
+/**
+ * Emergency Pause Test
+ *
+ * A guardian pauses deposits, transfers, withdrawals and a single route on a
+ * devnet bridge; the bridge reverts the paused operations and the SDK
+ * reports them before sending anything. Only the owner unpauses.
+ */
+
+
+describe("Emergency Pause", function () {
+    this.timeout(120000);
+
+    let owner: HardhatEthersSigner;
+    let guardian: HardhatEthersSigner;
+    let other: HardhatEthersSigner;
+    let base: DevnetChain;
+    let eth: DevnetChain;
+    let arb: DevnetChain;
+    let bridge: PrivateLZBridge;
+
+    async function rejection(promise: Promise<unknown>): Promise<unknown> {
+        try {
+            await promise;
+        } catch (err) {
+            return err;
+        }
+        expect.fail("expected a revert");
+    }
+
+    const revertReason = async (promise: Promise<unknown>) => getRevertReason(await rejection(promise));
+
+    const transfer = (dstEid: number, from = owner) =>
+        bridge
+            .connect(from)
+            .initiateTransfer.staticCall(
+                dstEid,
+                randomField(),
+                1_000_000n,
+                randomField(),
+                randomField(),
+                randomField(),
+                ethers.ZeroHash,
+                EMPTY_PROOF,
+                EMPTY_STEALTH,
+                EMPTY_AUDIT,
+                { minFinalityThreshold: 2000, maxFee: 0n },
+                "0x"
+            );
+
+    before(async function () {
+        [owner, guardian, other] = await ethers.getSigners();
+        const devnet = await deployDevnet({
+            chains: [
+                { name: "base", eid: 40245, cctpDomain: 6 },
+                { name: "ethereum", eid: 40161, cctpDomain: 0 },
+                { name: "arbitrum", eid: 40231, cctpDomain: 3 },
+            ],
+            mockVerifiers: true,
+        });
+        base = devnetChain(devnet, "base");
+        eth = devnetChain(devnet, "ethereum");
+        arb = devnetChain(devnet, "arbitrum");
+        bridge = base.bridge;
+        await (await bridge.setGuardian(guardian.address)).wait();
+    });
+
+    it("should let the guardian pause but only the owner unpause", async function () {
+        expect(await revertReason(bridge.connect(other).pause.staticCall(1))).to.equal("Not owner or guardian");
+        expect(await revertReason(bridge.connect(other).pauseRoute.staticCall(eth.eid))).to.equal("Not owner or guardian");
+        expect(await revertReason(bridge.connect(guardian).pause.staticCall(8))).to.equal("Invalid operations");
+
+        await expect(bridge.connect(guardian).pause(pauseBits(["deposit", "withdraw"])))
+            .to.emit(bridge, "Paused")
+            .withArgs(5, 5, guardian.address);
+        await expect(bridge.connect(guardian).pauseRoute(eth.eid))
+            .to.emit(bridge, "RoutePaused")
+            .withArgs(eth.eid, guardian.address);
+        expect(await bridge.pausedOperations()).to.equal(5n);
+        expect(await bridge.routePaused(eth.eid)).to.equal(true);
+
+        expect(await revertReason(bridge.connect(guardian).unpause.staticCall(1))).to.equal("Not owner");
+        expect(await revertReason(bridge.connect(guardian).unpauseRoute.staticCall(eth.eid))).to.equal("Not owner");
+        expect(decodeError(await rejection(bridge.connect(other).pause.staticCall(1))).code).to.equal("NOT_OWNER");
+    });
+
+    it("should revert paused operations and leave the rest open", async function () {
+        await (await base.usdc.mint(owner.address, 10_000_000n)).wait();
+        await (await base.usdc.approve(base.addresses.bridge, 10_000_000n)).wait();
+
+        expect(await revertReason(bridge.deposit.staticCall(1_000_000n, randomField()))).to.equal("Deposits paused");
+        expect(
+            await revertReason(
+                bridge.withdraw.staticCall(owner.address, 1_000_000n, randomField(), ethers.ZeroHash, ethers.ZeroHash, EMPTY_PROOF)
+            )
+        ).to.equal("Withdrawals paused");
+        expect(await revertReason(transfer(eth.eid))).to.equal("Route paused");
+        // Other routes pass the pause checks and fail further on
+        expect(await revertReason(transfer(arb.eid))).to.equal("Unknown merkle root");
+
+        await (await bridge.connect(guardian).pause(pauseBits(["transfer"]))).wait();
+        expect(await revertReason(transfer(arb.eid))).to.equal("Transfers paused");
+        expect(decodeError(await rejection(transfer(arb.eid))).code).to.equal("BRIDGE_PAUSED");
+    });
+
+    it("should read the pause state and block operations in the SDK", async function () {
+        const state = await getPauseState(ethers.provider, base.addresses.bridge, [eth.eid, arb.eid]);
+        expect(state).to.deep.equal({
+            supported: true,
+            paused: { deposit: true, transfer: true, withdraw: true },
+            pausedRoutes: [eth.eid],
+            guardian: guardian.address,
+        });
+        expect(pausedError(state, "deposit")!.code).to.equal("BRIDGE_PAUSED");
+
+        // Deposits fail before the approval
+        const client = new PrivateLZBridgeClient({
+            provider: ethers.provider,
+            signer: other,
+            bridgeAddress: base.addresses.bridge,
+            noteStore: new MemoryNoteStore(),
+        });
+        await client.initialize();
+        let error: unknown;
+        await client.deposit(1_000_000n).catch((err) => (error = err));
+        expect(error).to.be.instanceOf(MixvmError);
+        expect((error as MixvmError).code).to.equal("BRIDGE_PAUSED");
+        expect((error as MixvmError).retryable).to.equal(true);
+        expect(await base.usdc.allowance(other.address, base.addresses.bridge)).to.equal(0n);
+
+        const withdrawReport = await preflightWithdraw(ethers.provider, base.addresses.bridge, {
+            amount: 1n,
+            nullifier: 1n,
+            merkleRoot: 0n,
+            leafIndex: 0,
+            leafCount: 1,
+            createsChange: false,
+        });
+        expect(withdrawReport.checks[0]).to.include({ name: "notPaused", status: "fail", code: "BRIDGE_PAUSED" });
+
+        // The route flag is reported once transfers as a whole resume
+        await (await bridge.unpause(pauseBits(["transfer"]))).wait();
+        const transferParams = { amount: 1n, nullifier: 1n, merkleRoot: 0n, leafIndex: 0, leafCount: 1 };
+        const paused = await preflightTransfer(ethers.provider, base.addresses.bridge, { ...transferParams, dstEid: eth.eid });
+        expect(paused.checks[0]).to.include({ name: "notPaused", status: "fail", code: "ROUTE_PAUSED" });
+        expect(paused.checks[0].detail).to.equal(`Transfers to EID ${eth.eid} are paused`);
+        const open = await preflightTransfer(ethers.provider, base.addresses.bridge, { ...transferParams, dstEid: arb.eid });
+        expect(open.checks[0]).to.include({ name: "notPaused", status: "pass" });
+    });
+
+    it("should resume everything once the owner unpauses", async function () {
+        await expect(bridge.unpause(pauseBits(["deposit", "transfer", "withdraw"])))
+            .to.emit(bridge, "Unpaused")
+            .withArgs(7, 0, owner.address);
+        await expect(bridge.unpauseRoute(eth.eid)).to.emit(bridge, "RouteUnpaused");
+
+        const state = await getPauseState(ethers.provider, base.addresses.bridge, [eth.eid]);
+        expect(state.paused).to.deep.equal({ deposit: false, transfer: false, withdraw: false });
+        expect(state.pausedRoutes).to.deep.equal([]);
+        await (await bridge.deposit(1_000_000n, randomField())).wait();
+        expect(await revertReason(transfer(eth.eid))).to.equal("Unknown merkle root");
+    });
+});
@@ -0,0 +1,287 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as http from "http";
+import * as os from "os";
+import * as path from "path";
+import * as snarkjs from "snarkjs";
+import { AddressInfo } from "net";
+import { ProofError, WorkerError, decodeError } from "../../sdk/src/errors";
+import { MerkleTree } from "../../sdk/src/merkle";
+import { computeCommitment, computeNullifier, initPoseidon } from "../../sdk/src/poseidon";
+import { verifyProofLocally } from "../../sdk/src/proof";
+import { RapidsnarkProver, RemoteProver, SnarkjsProver, WorkerPoolProver } from "../../sdk/src/prover";
+import { CircuitInputs, Groth16Proof } from "../../sdk/src/types";
+import { DEVNET_CIRCUITS, randomField } from "../../scripts/devnet/fixtures";
+
+/**
+ * Prover Backends Test
+ *
+ * Proves the same withdraw with every Prover backend and checks each proof
+ * against the circuit's verification key:
+ * 1. In-process snarkjs
+ * 2. The worker pool: proofs run in parallel up to the pool size and queue
+ *    beyond it; a stuck proof times out and its worker is replaced; witness
+ *    errors keep the snarkjs message; close() rejects what is left
+ * 3. rapidsnark, through a stand-in binary with the same command line;
+ *    missing, failing and hanging binaries map to ProofErrors
+ * 4. A remote prover over HTTP, with its headers, and its error responses
+ */
+
+const RECIPIENT = "0x00000000000000000000000000000000000000bb";
+
+function withdrawInputs(amount: bigint): CircuitInputs {
+    const balance = 5_000_000n;
+    const randomness = BigInt(randomField());
+    const nullifierSecret = BigInt(randomField());
+    const newRandomness = BigInt(randomField());
+    const commitment = computeCommitment(balance, randomness);
+
+    const tree = new MerkleTree();
+    const leafIndex = tree.addLeaf(commitment);
+    const merklePath = tree.getProof(leafIndex);
+    return {
+        merkleRoot: tree.getRoot().toString(),
+        nullifier: computeNullifier(nullifierSecret, commitment).toString(),
+        withdrawAmount: amount.toString(),
+        newCommitment: computeCommitment(balance - amount, newRandomness).toString(),
+        recipientAddress: BigInt(RECIPIENT).toString(),
+        balance: balance.toString(),
+        randomness: randomness.toString(),
+        nullifierSecret: nullifierSecret.toString(),
+        newRandomness: newRandomness.toString(),
+        merklePathElements: merklePath.pathElements.map((e) => e.toString()),
+        merklePathIndices: merklePath.pathIndices.map((i) => i.toString()),
+    };
+}
+
+async function expectValid(result: { proof: Groth16Proof; publicSignals: string[] }, amount: bigint) {
+    expect(await verifyProofLocally(DEVNET_CIRCUITS.withdrawVkey, result.publicSignals, result.proof)).to.equal(true);
+    expect(result.publicSignals).to.include(amount.toString());
+}
+
+async function rejection(promise: Promise<unknown>): Promise<Error> {
+    try {
+        await promise;
+    } catch (err) {
+        return err as Error;
+    }
+    expect.fail("expected the prover to fail");
+}
+
+describe("Prover Backends", function () {
+    // Proving runs on the CPU
+    this.timeout(600000);
+
+    let dir: string;
+
+    before(async function () {
+        await initPoseidon();
+    });
+
+    beforeEach(function () {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "mixvm-provers-"));
+    });
+
+    afterEach(function () {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("should prove in-process with snarkjs", async function () {
+        await expectValid(await new SnarkjsProver(DEVNET_CIRCUITS).prove("withdraw", withdrawInputs(1_000_000n)), 1_000_000n);
+    });
+
+    describe("WorkerPoolProver", function () {
+        it("should prove in parallel up to the pool size and queue the rest", async function () {
+            const prover = new WorkerPoolProver(DEVNET_CIRCUITS, { size: 2, preload: ["withdraw"] });
+            try {
+                const amounts = [1_000_000n, 2_000_000n, 3_000_000n];
+                const proofs = amounts.map((amount) => prover.prove("withdraw", withdrawInputs(amount)));
+                expect(prover.getStatus()).to.deep.equal({ workers: 2, busy: 2, queued: 1 });
+
+                const results = await Promise.all(proofs);
+                for (let i = 0; i < amounts.length; i++) await expectValid(results[i], amounts[i]);
+                // Workers stay up, idle, for the next proof
+                expect(prover.getStatus()).to.deep.equal({ workers: 2, busy: 0, queued: 0 });
+            } finally {
+                await prover.close();
+            }
+        });
+
+        it("should keep the witness error message and keep serving", async function () {
+            const prover = new WorkerPoolProver(DEVNET_CIRCUITS, { size: 1 });
+            try {
+                const inputs = { ...withdrawInputs(1_000_000n), nullifier: "1" };
+                const err = await rejection(prover.prove("withdraw", inputs));
+                expect(decodeError(err).code).to.equal("WITNESS_FAILED");
+
+                await expectValid(await prover.prove("withdraw", withdrawInputs(1_000_000n)), 1_000_000n);
+            } finally {
+                await prover.close();
+            }
+        });
+
+        it("should time out a stuck proof, replace its worker and reject after close", async function () {
+            const prover = new WorkerPoolProver(DEVNET_CIRCUITS, { size: 1, timeoutMs: 1 });
+            const stuck = prover.prove("withdraw", withdrawInputs(1_000_000n));
+            const queued = prover.prove("withdraw", withdrawInputs(2_000_000n));
+
+            const timedOut = await rejection(stuck);
+            expect(timedOut).to.be.instanceOf(ProofError);
+            expect(timedOut).to.include({ code: "PROOF_TIMEOUT", retryable: true });
+            // The queued proof moved to a new worker
+            expect(prover.getStatus()).to.deep.equal({ workers: 1, busy: 1, queued: 0 });
+
+            await prover.close();
+            const closed = await rejection(queued);
+            expect(closed).to.be.instanceOf(WorkerError);
+            expect(closed.message).to.equal("Prover pool closed during the proof");
+            expect((await rejection(prover.prove("withdraw", withdrawInputs(1n)))).message).to.equal("Prover pool is closed");
+            expect(prover.getStatus()).to.deep.equal({ workers: 0, busy: 0, queued: 0 });
+        });
+    });
+
+    describe("RapidsnarkProver", function () {
+        function binary(name: string, script: string): string {
+            const file = path.join(dir, name);
+            fs.writeFileSync(file, script, { mode: 0o755 });
+            return file;
+        }
+
+        it("should run the binary on a witness file and read its output", async function () {
+            // Same command line as rapidsnark, proving with snarkjs
+            const prover = binary(
+                "prover",
+                [
+                    "#!/usr/bin/env node",
+                    `const snarkjs = require(${JSON.stringify(require.resolve("snarkjs"))});`,
+                    "const fs = require(\"fs\");",
+                    "const [zkey, wtns, proofPath, publicPath] = process.argv.slice(2);",
+                    "fs.writeFileSync(process.env.ARGS_OUT, JSON.stringify(process.argv.slice(2)));",
+                    "snarkjs.groth16.prove(zkey, wtns).then(({ proof, publicSignals }) => {",
+                    "    fs.writeFileSync(proofPath, JSON.stringify(proof));",
+                    "    fs.writeFileSync(publicPath, JSON.stringify(publicSignals));",
+                    "    process.exit(0);",
+                    "});",
+                ].join("\n")
+            );
+            const argsOut = path.join(dir, "args.json");
+            process.env.ARGS_OUT = argsOut;
+            const tmpDir = path.join(dir, "tmp");
+            fs.mkdirSync(tmpDir);
+            try {
+                const result = await new RapidsnarkProver(DEVNET_CIRCUITS, { binaryPath: prover, tmpDir }).prove(
+                    "withdraw",
+                    withdrawInputs(1_000_000n)
+                );
+                await expectValid(result, 1_000_000n);
+            } finally {
+                delete process.env.ARGS_OUT;
+            }
+
+            const [zkey, wtns, proofPath, publicPath] = JSON.parse(fs.readFileSync(argsOut, "utf8"));
+            expect(zkey).to.equal(DEVNET_CIRCUITS.withdrawZkey);
+            expect(path.dirname(wtns)).to.equal(path.dirname(proofPath));
+            expect(path.dirname(publicPath)).to.match(/mixvm-rapidsnark-/);
+            // The witness holds the note's secrets; its directory is removed
+            expect(fs.readdirSync(tmpDir)).to.deep.equal([]);
+        });
+
+        it("should map a missing, failing or hanging binary to ProofErrors", async function () {
+            const prove = (binaryPath: string, timeoutMs?: number) =>
+                rejection(
+                    new RapidsnarkProver(DEVNET_CIRCUITS, { binaryPath, timeoutMs, tmpDir: dir }).prove(
+                        "withdraw",
+                        withdrawInputs(1_000_000n)
+                    )
+                );
+
+            expect(await prove(path.join(dir, "missing"))).to.include({
+                code: "PROOF_FAILED",
+                message: `rapidsnark binary not found: ${path.join(dir, "missing")}`,
+                retryable: false,
+            });
+            expect(await prove(binary("failing", "#!/bin/sh\necho 'Invalid witness length' >&2\nexit 1\n"))).to.include({
+                code: "PROOF_FAILED",
+                message: "rapidsnark failed: Invalid witness length",
+                retryable: true,
+            });
+            expect(await prove(binary("hanging", "#!/bin/sh\nsleep 10\n"), 200)).to.include({
+                code: "PROOF_TIMEOUT",
+                retryable: true,
+            });
+            expect(fs.readdirSync(dir).filter((f) => f.startsWith("mixvm-rapidsnark-"))).to.deep.equal([]);
+        });
+    });
+
+    describe("RemoteProver", function () {
+        let server: http.Server;
+        let url: string;
+        let requests: { path?: string; headers: http.IncomingHttpHeaders; circuit: string }[];
+        let respond: (witness: Buffer, res: http.ServerResponse) => Promise<void>;
+
+        before(async function () {
+            server = http.createServer((req, res) => {
+                let body = "";
+                req.on("data", (chunk) => (body += chunk));
+                req.on("end", async () => {
+                    const { circuit, witness } = JSON.parse(body);
+                    requests.push({ path: req.url, headers: req.headers, circuit });
+                    await respond(Buffer.from(witness, "base64"), res);
+                });
+            });
+            await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+            url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+        });
+
+        beforeEach(function () {
+            requests = [];
+        });
+
+        after(async function () {
+            await new Promise((resolve) => server?.close(resolve));
+        });
+
+        it("should send the witness with the configured headers and return the proof", async function () {
+            respond = async (witness, res) => {
+                const result = await snarkjs.groth16.prove(DEVNET_CIRCUITS.withdrawZkey, { type: "mem", data: witness });
+                res.setHeader("content-type", "application/json");
+                res.end(JSON.stringify(result));
+            };
+
+            const prover = new RemoteProver(`${url}/`, DEVNET_CIRCUITS, { headers: { "x-api-key": "secret" } });
+            await expectValid(await prover.prove("withdraw", withdrawInputs(1_000_000n)), 1_000_000n);
+            expect(requests).to.have.length(1);
+            expect(requests[0]).to.deep.include({ path: "/prove", circuit: "withdraw" });
+            expect(requests[0].headers["x-api-key"]).to.equal("secret");
+        });
+
+        it("should turn error responses into ProofErrors", async function () {
+            const prover = new RemoteProver(url, DEVNET_CIRCUITS);
+            const reply = (status: number, body: string) => {
+                respond = async (_witness, res) => {
+                    res.statusCode = status;
+                    res.end(body);
+                };
+            };
+
+            reply(503, "busy");
+            expect(await rejection(prover.prove("withdraw", withdrawInputs(1_000_000n)))).to.include({
+                code: "PROOF_FAILED",
+                message: "Remote prover returned 503: busy",
+                retryable: true,
+            });
+            reply(400, "unknown circuit");
+            expect(await rejection(prover.prove("withdraw", withdrawInputs(1_000_000n)))).to.include({ retryable: false });
+            reply(200, JSON.stringify({ publicSignals: [] }));
+            expect((await rejection(prover.prove("withdraw", withdrawInputs(1_000_000n)))).message).to.equal(
+                "Remote prover returned no proof"
+            );
+
+            const down = new RemoteProver("http://127.0.0.1:1", DEVNET_CIRCUITS);
+            expect(await rejection(down.prove("withdraw", withdrawInputs(1_000_000n)))).to.include({
+                code: "PROOF_FAILED",
+                message: "Remote prover unreachable: http://127.0.0.1:1",
+            });
+        });
+    });
+});
@@ -0,0 +1,252 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { PrivateLZBridgeClient } from "../../sdk/src/bridge";
+import { MixvmError } from "../../sdk/src/errors";
+import { parseBridgeEvents } from "../../sdk/src/events";
+import { LzMessageRecovery, decodeLzPacket } from "../../sdk/src/lzRecovery";
+import { MemoryNoteStore, NoteTransition, submitWithNotes } from "../../sdk/src/notes";
+import { computeCommitment, initPoseidon } from "../../sdk/src/poseidon";
+import { TransferTracker } from "../../sdk/src/tracker";
+import { PrivateNote } from "../../sdk/src/types";
+import { EMPTY_AUDIT, EMPTY_PROOF, EMPTY_STEALTH, deployBridge, randomField } from "../../scripts/devnet/fixtures";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+    MockEndpointV2,
+    MockEndpointV2__factory,
+    MockTokenMessengerV2,
+    MockTokenMessengerV2__factory,
+    MockUSDC,
+    MockUSDC__factory,
+    PrivateLZBridge,
+} from "../../typechain-types";
+
+/**
+ * Undeliverable Transfer Refund Test
+ *
+ * BASE sends a transfer that ETH can never credit. ETH refunds it with
+ * refundInboundTransfer, which burns the USDC back over CCTP and sends the
+ * failure ack; delivering the ack on BASE inserts the sender's refund note,
+ * which the tracker reports and the SDK client reclaims. The refund note is
+ * stored before the transfer is sent, so it is never lost with the page.
+ */
+
+const BASE_EID = 40245;
+const ETH_EID = 40161;
+const BASE_DOMAIN = 6;
+
+describe("Undeliverable Transfer Refunds", function () {
+    this.timeout(60000);
+
+    let owner: HardhatEthersSigner;
+    let other: HardhatEthersSigner;
+    let usdc: MockUSDC;
+    let messenger: MockTokenMessengerV2;
+    let srcEndpoint: MockEndpointV2;
+    let dstEndpoint: MockEndpointV2;
+    let srcBridge: PrivateLZBridge;
+    let dstBridge: PrivateLZBridge;
+    let recovery: LzMessageRecovery;
+
+    before(async function () {
+        [owner, other] = await ethers.getSigners();
+        await initPoseidon();
+        usdc = await new MockUSDC__factory(owner).deploy();
+        messenger = await new MockTokenMessengerV2__factory(owner).deploy();
+        const Endpoint = new MockEndpointV2__factory(owner);
+        srcEndpoint = await Endpoint.deploy(BASE_EID);
+        dstEndpoint = await Endpoint.deploy(ETH_EID);
+        // Only the destination burns over CCTP, so the refund is the only burn
+        srcBridge = await deployBridge({ endpoint: srcEndpoint, eid: BASE_EID, usdc, owner });
+        dstBridge = await deployBridge({
+            endpoint: dstEndpoint,
+            eid: ETH_EID,
+            usdc,
+            owner,
+            tokenMessenger: await messenger.getAddress(),
+        });
+
+        await (await srcBridge.setPeer(ETH_EID, ethers.zeroPadValue(await dstBridge.getAddress(), 32))).wait();
+        await (await dstBridge.setPeer(BASE_EID, ethers.zeroPadValue(await srcBridge.getAddress(), 32))).wait();
+        await (await dstBridge.setCCTPDomain(BASE_EID, BASE_DOMAIN)).wait();
+
+        await (await usdc.mint(owner.address, 100_000_000n)).wait();
+        await (await usdc.approve(await srcBridge.getAddress(), 50_000_000n)).wait();
+        await (await srcBridge.deposit(50_000_000n, randomField())).wait();
+        // The destination pool holds the USDC a refund burns back
+        await (await usdc.approve(await dstBridge.getAddress(), 10_000_000n)).wait();
+        await (await dstBridge.deposit(10_000_000n, randomField())).wait();
+
+        recovery = new LzMessageRecovery({
+            chains: [
+                { eid: BASE_EID, provider: ethers.provider, bridgeAddress: await srcBridge.getAddress(), fromBlock: 0 },
+                { eid: ETH_EID, provider: ethers.provider, bridgeAddress: await dstBridge.getAddress(), fromBlock: 0 },
+            ],
+        });
+    });
+
+    // Send a transfer from BASE to ETH, verify it on ETH and return it with its source tx
+    async function send(recipientCommitment: string, refundCommitment: string) {
+        const tx = await srcBridge.initiateTransfer(
+            ETH_EID,
+            recipientCommitment,
+            1_000_000n,
+            ethers.hexlify(ethers.randomBytes(32)),
+            randomField(),
+            refundCommitment,
+            await srcBridge.getLastRoot(),
+            EMPTY_PROOF,
+            EMPTY_STEALTH,
+            EMPTY_AUDIT,
+            { minFinalityThreshold: 2000, maxFee: 0n },
+            "0x",
+            { value: ethers.parseEther("0.01") }
+        );
+        const receipt = (await tx.wait())!;
+        const [message] = await recovery.messages(BASE_EID, { fromBlock: receipt.blockNumber });
+        const origin = { srcEid: message.srcEid, sender: message.sender, nonce: message.nonce };
+        await (await dstEndpoint.verify(origin, message.receiverAddress, message.payloadHash)).wait();
+        return { message, txHash: receipt.hash };
+    }
+
+    // Relay the failure ack sent in `txHash` from ETH to BASE, as the DVNs and executor would
+    async function deliverAck(txHash: string) {
+        const receipt = await ethers.provider.getTransactionReceipt(txHash);
+        const sent = receipt!.logs
+            .map((log) => { try { return dstEndpoint.interface.parseLog(log); } catch { return null; } })
+            .find((log) => log?.name === "PacketSent");
+        const packet = decodeLzPacket(sent!.args.encodedPayload);
+        const origin = { srcEid: packet.srcEid, sender: packet.sender, nonce: packet.nonce };
+        await (await srcEndpoint.verify(origin, await srcBridge.getAddress(), ethers.keccak256(ethers.concat([packet.guid, packet.message])))).wait();
+        return (await srcEndpoint.lzReceive(origin, await srcBridge.getAddress(), packet.guid, packet.message, "0x")).wait();
+    }
+
+    async function expectRejected(promise: Promise<unknown>, code: string) {
+        try {
+            await promise;
+            expect.fail("expected the refund to be refused");
+        } catch (err) {
+            expect(err).to.be.instanceOf(MixvmError);
+            expect((err as MixvmError).code).to.equal(code);
+        }
+    }
+
+    it("should refund a transfer whose commitment exists and reclaim the refund note", async function () {
+        const randomness = BigInt(randomField());
+        const refundNote: PrivateNote = {
+            commitment: computeCommitment(1_000_000n, randomness),
+            balance: 1_000_000n,
+            randomness,
+            nullifierSecret: BigInt(randomField()),
+            leafIndex: -1,
+            status: "refundable",
+        };
+        const recipientCommitment = randomField();
+        const { message, txHash } = await send(recipientCommitment, ethers.toBeHex(refundNote.commitment, 32));
+        const pending = await srcBridge.pendingRefunds(message.guid);
+        expect(pending.amount).to.equal(1_000_000n);
+        expect(pending.dstEid).to.equal(ETH_EID);
+
+        const tracker = new TransferTracker({
+            chains: [
+                { eid: BASE_EID, provider: ethers.provider, bridgeAddress: await srcBridge.getAddress() },
+                { eid: ETH_EID, provider: ethers.provider, bridgeAddress: await dstBridge.getAddress() },
+            ],
+        });
+        const tracked = await tracker.track(BASE_EID, txHash);
+        expect(tracked.state).to.equal("initiated");
+
+        // Someone else takes the recipient commitment on ETH first
+        await (await usdc.approve(await dstBridge.getAddress(), 1n)).wait();
+        await (await dstBridge.deposit(1n, recipientCommitment)).wait();
+        const diagnosis = await recovery.diagnose(message);
+        expect(diagnosis.actions).to.deep.equal(["refund", "clear"]);
+        expect(diagnosis.refundReason).to.equal("commitment_exists");
+
+        const client = new PrivateLZBridgeClient({
+            provider: ethers.provider,
+            bridgeAddress: await srcBridge.getAddress(),
+            noteStore: new MemoryNoteStore(),
+        });
+        await client.initialize();
+        await expectRejected(client.reclaimRefund(message.guid, refundNote), "REFUND_NOT_AVAILABLE");
+
+        // Anyone can refund; the USDC is burned back to the source bridge
+        const result = await recovery.refund(message, other);
+        expect(result.action).to.equal("refund");
+        expect(await usdc.balanceOf(await messenger.getAddress())).to.equal(1_000_000n);
+        const [ack] = parseBridgeEvents(
+            (await ethers.provider.getTransactionReceipt(result.txHash))!.logs,
+            await dstBridge.getAddress()
+        ).refundAcksSent;
+        expect(ack).to.deep.include({ guid: message.guid, srcEid: BASE_EID, reason: "commitment_exists", usdcReturned: true });
+        expect(await recovery.findStuck()).to.deep.equal([]);
+        await expectRejected(recovery.refund(message, other), "LZ_PAYLOAD_NOT_FOUND");
+
+        await deliverAck(result.txHash);
+        expect(await srcBridge.commitmentExists(ethers.toBeHex(refundNote.commitment, 32))).to.equal(true);
+        expect((await srcBridge.pendingRefunds(message.guid)).amount).to.equal(0n);
+
+        const refunded = await tracker.poll(tracked.id);
+        expect(refunded.state).to.equal("refunded");
+        expect(refunded.refund).to.include({ reason: "commitment_exists" });
+        expect(refunded.reason).to.contain("refund");
+
+        const reclaimed = await client.reclaimRefund(message.guid, refundNote);
+        expect(reclaimed.status).to.equal("unspent");
+        expect(reclaimed.leafIndex).to.equal(refunded.refund!.leafIndex);
+        expect(reclaimed.commitment).to.equal(refundNote.commitment);
+        // Reclaiming again returns the stored note
+        expect((await client.reclaimRefund(message.guid)).leafIndex).to.equal(reclaimed.leafIndex);
+    });
+
+    it("should store the refund note before the transfer is sent", async function () {
+        const store = new MemoryNoteStore();
+        const nullifierSecret = BigInt(randomField());
+        const spent: PrivateNote = { commitment: 1n, balance: 2_000_000n, randomness: 1n, nullifierSecret, leafIndex: 0 };
+        const refundNote: PrivateNote = { commitment: 2n, balance: 1_000_000n, randomness: 2n, nullifierSecret, leafIndex: -1 };
+        // Same notes as PrivateLZBridgeClient.initiateTransfer without change
+        const transition: NoteTransition = {
+            spending: [spent],
+            created: [refundNote],
+            finalize: () => [{ ...refundNote, status: "refundable" }],
+        };
+        const statuses = async () => (await store.list()).map((n) => `${n.commitment}:${n.status}`).sort();
+
+        // Rejected in the wallet: the refund note is dropped again
+        await expectRejected(
+            submitWithNotes(store, async () => {
+                expect(await statuses()).to.deep.equal(["1:pending", "2:pending"]);
+                throw ethers.makeError("Rejected", "ACTION_REJECTED", { action: "sendTransaction", reason: "rejected" });
+            }, transition),
+            "USER_REJECTED"
+        );
+        expect(await statuses()).to.deep.equal(["1:unspent"]);
+
+        await submitWithNotes(store, async () => {
+            expect(await statuses()).to.deep.equal(["1:pending", "2:pending"]);
+            const tx = await owner.sendTransaction({ to: other.address, value: 1n });
+            return { hash: tx.hash, wait: () => tx.wait() };
+        }, transition);
+        expect(await statuses()).to.deep.equal(["1:spent", "2:refundable"]);
+    });
+
+    it("should refuse to refund a deliverable transfer or accept an unknown ack", async function () {
+        const { message } = await send(randomField(), randomField());
+        expect((await recovery.diagnose(message)).executable).to.equal(true);
+        await expectRejected(recovery.refund(message, other), "NOT_REFUNDABLE");
+
+        // An ack for a guid the source never sent, from its real peer
+        const fakeAck = ethers.AbiCoder.defaultAbiCoder().encode(["bytes32", "uint8"], [ethers.hexlify(ethers.randomBytes(32)), 2]);
+        const sender = ethers.zeroPadValue(await dstBridge.getAddress(), 32);
+        const nonce = (await srcEndpoint.inboundNonce(await srcBridge.getAddress(), ETH_EID, sender)) + 1n;
+        const origin = { srcEid: ETH_EID, sender, nonce };
+        const guid = ethers.hexlify(ethers.randomBytes(32));
+        await (await srcEndpoint.verify(origin, await srcBridge.getAddress(), ethers.keccak256(ethers.concat([guid, fakeAck])))).wait();
+        await expect(srcEndpoint.lzReceive(origin, await srcBridge.getAddress(), guid, fakeAck, "0x")).to.be.revertedWith(
+            "Unknown transfer"
+        );
+
+        await recovery.retry(message, other);
+        expect(await dstBridge.commitmentExists(message.payload.recipientCommitment)).to.equal(true);
+    });
+});
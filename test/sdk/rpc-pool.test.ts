@@ -0,0 +1,200 @@
+import { expect } from "chai";
+import { ethers, network } from "hardhat";
+import * as http from "http";
+import { AddressInfo } from "net";
+import { RpcPool, RpcPoolError } from "../../sdk/src/rpc";
+import { DevnetChain, deployDevnet, devnetChain } from "../../scripts/devnet/fixtures";
+
+/**
+ * RPC Pool Test
+ *
+ * Puts an RpcPool in front of local JSON-RPC endpoints that forward to the
+ * Hardhat node, each of which can be switched to misbehave:
+ * 1. A down endpoint is failed over, marked unhealthy and backed off
+ * 2. Rate-limited endpoints (HTTP 429 or JSON-RPC) are backed off but stay healthy
+ * 3. JSON-RPC errors are returned without trying another endpoint
+ * 4. All endpoints down throws RpcPoolError with every endpoint's error
+ * 5. Quorum reads ignore a lying endpoint and fail without agreement
+ * 6. Health checks mark lagging endpoints unhealthy and rank them last
+ */
+
+type Mode = "ok" | "down" | "http429" | "rpc429" | "lagging" | "lying";
+
+interface FakeEndpoint {
+    url: string;
+    mode: Mode;
+    requests: string[];
+    server: http.Server;
+}
+
+const LIE = "0x" + "ab".repeat(32);
+
+async function startEndpoint(mode: Mode = "ok"): Promise<FakeEndpoint> {
+    const endpoint = { mode, requests: [] as string[] } as FakeEndpoint;
+    endpoint.server = http.createServer((req, res) => {
+        let body = "";
+        req.on("data", (chunk) => (body += chunk));
+        req.on("end", async () => {
+            const { id, method, params } = JSON.parse(body);
+            endpoint.requests.push(method);
+            const reply = (payload: object) => {
+                res.setHeader("content-type", "application/json");
+                res.end(JSON.stringify({ jsonrpc: "2.0", id, ...payload }));
+            };
+
+            if (endpoint.mode === "down") {
+                res.statusCode = 502;
+                return res.end("bad gateway");
+            }
+            if (endpoint.mode === "http429") {
+                res.statusCode = 429;
+                return res.end("slow down");
+            }
+            if (endpoint.mode === "rpc429") {
+                return reply({ error: { code: -32029, message: "rate limit exceeded" } });
+            }
+            try {
+                let result = await network.provider.request({ method, params });
+                if (endpoint.mode === "lagging" && method === "eth_blockNumber") {
+                    result = ethers.toQuantity(Number(result) - 50);
+                }
+                if (endpoint.mode === "lying" && method === "eth_call") {
+                    result = LIE;
+                }
+                reply({ result });
+            } catch (err) {
+                const e = err as { code?: number; message: string };
+                reply({ error: { code: e.code ?? -32603, message: e.message } });
+            }
+        });
+    });
+    await new Promise<void>((resolve) => endpoint.server.listen(0, "127.0.0.1", resolve));
+    endpoint.url = `http://127.0.0.1:${(endpoint.server.address() as AddressInfo).port}`;
+    return endpoint;
+}
+
+describe("RPC Pool", function () {
+    this.timeout(120000);
+
+    let base: DevnetChain;
+    let endpoints: FakeEndpoint[] = [];
+    let pools: RpcPool[] = [];
+
+    async function pool(modes: Mode[], options = {}): Promise<[RpcPool, FakeEndpoint[]]> {
+        const started = await Promise.all(modes.map((mode) => startEndpoint(mode)));
+        endpoints.push(...started);
+        const rpc = new RpcPool(base.chainId, started.map((e) => e.url), { baseBackoffMs: 60000, ...options });
+        pools.push(rpc);
+        return [rpc, started];
+    }
+
+    async function rejection(promise: Promise<unknown>): Promise<unknown> {
+        try {
+            await promise;
+        } catch (err) {
+            return err;
+        }
+        expect.fail("expected the pool to fail");
+    }
+
+    before(async function () {
+        // Mine some blocks so a lagging endpoint's head stays positive
+        await network.provider.send("hardhat_mine", ["0x40"]);
+        const devnet = await deployDevnet({
+            chains: [{ name: "base", eid: 40245, cctpDomain: 6 }],
+            mockVerifiers: true,
+        });
+        base = devnetChain(devnet, "base");
+    });
+
+    afterEach(async function () {
+        for (const rpc of pools) rpc.destroy();
+        await Promise.all(endpoints.map((e) => new Promise((resolve) => e.server.close(resolve))));
+        pools = [];
+        endpoints = [];
+    });
+
+    it("should fail over from a down endpoint and back it off", async function () {
+        const [rpc, [down, up]] = await pool(["down", "ok"]);
+        const head = await ethers.provider.getBlockNumber();
+
+        expect(Number(await rpc.send("eth_blockNumber", []))).to.equal(head);
+        expect(Number(await rpc.send("eth_blockNumber", []))).to.equal(head);
+        // The down endpoint was tried once, then skipped while backed off
+        expect(down.requests).to.deep.equal(["eth_blockNumber"]);
+        expect(up.requests).to.deep.equal(["eth_blockNumber", "eth_blockNumber"]);
+
+        const [downStatus, upStatus] = rpc.getStatus();
+        expect(downStatus).to.include({ url: down.url, healthy: false, failures: 1 });
+        expect(downStatus.backoffUntil).to.be.greaterThan(Date.now());
+        expect(downStatus.lastError).to.contain("502");
+        expect(upStatus).to.include({ healthy: true, failures: 0, backoffUntil: 0 });
+        expect(upStatus.latencyMs).to.be.a("number");
+    });
+
+    it("should back off rate-limited endpoints without marking them unhealthy", async function () {
+        const [rpc, [http429, rpc429, up]] = await pool(["http429", "rpc429", "ok"]);
+
+        expect(Number(await rpc.send("eth_blockNumber", []))).to.equal(await ethers.provider.getBlockNumber());
+        expect(http429.requests).to.have.length(1);
+        expect(rpc429.requests).to.have.length(1);
+        expect(up.requests).to.have.length(1);
+
+        const [first, second] = rpc.getStatus();
+        expect(first).to.include({ healthy: true, failures: 1, lastError: "HTTP 429 Too Many Requests" });
+        expect(second).to.include({ healthy: true, failures: 1, lastError: "rate limit exceeded" });
+        expect(first.backoffUntil).to.be.greaterThan(Date.now());
+        expect(second.backoffUntil).to.be.greaterThan(Date.now());
+    });
+
+    it("should return JSON-RPC errors without failing over", async function () {
+        const [rpc, [first, second]] = await pool(["ok", "ok"]);
+
+        await rejection(rpc.send("eth_getBalance", ["not an address", "latest"]));
+        expect(first.requests.length + second.requests.length).to.equal(1);
+        expect(rpc.getStatus().every((s) => s.healthy && s.failures === 0)).to.equal(true);
+    });
+
+    it("should throw RpcPoolError when every endpoint fails", async function () {
+        const [rpc, [a, b]] = await pool(["down", "http429"]);
+
+        const err = await rejection(rpc.send("eth_blockNumber", []));
+        expect(err).to.be.instanceOf(RpcPoolError);
+        expect(err).to.include({ code: "RPC_UNAVAILABLE", retryable: true });
+        expect((err as RpcPoolError).errors.map((e) => e.url)).to.have.members([a.url, b.url]);
+        expect((err as Error).message).to.contain(`All RPC endpoints failed for chain ${base.chainId}`);
+    });
+
+    it("should read the root with quorum and refuse without agreement", async function () {
+        const root = await base.bridge.getLastRoot();
+
+        const [rpc, [, , liar]] = await pool(["ok", "ok", "lying"]);
+        expect(await rpc.getLastRoot(base.addresses.bridge)).to.equal(root);
+        expect(liar.requests).to.deep.equal(["eth_call"]);
+        expect(await rpc.getLastRoot(base.addresses.bridge, 3).catch((e) => e)).to.be.instanceOf(RpcPoolError);
+
+        // Backed-off endpoints are still asked for a quorum read
+        const [split, [down]] = await pool(["down", "ok", "lying"]);
+        await split.send("eth_blockNumber", []);
+        expect(split.getStatus()[0].backoffUntil).to.be.greaterThan(Date.now());
+        const err = await rejection(split.getLastRoot(base.addresses.bridge));
+        expect(down.requests).to.include("eth_call");
+        expect((err as Error).message).to.contain("No quorum (2) for eth_call");
+        expect((err as RpcPoolError).errors.map((e) => e.url)).to.deep.equal([down.url]);
+    });
+
+    it("should mark lagging endpoints unhealthy and try them last", async function () {
+        const [rpc, [lagging, up]] = await pool(["lagging", "ok"], { maxBlockLag: 10 });
+
+        const status = await rpc.checkHealth();
+        const head = await ethers.provider.getBlockNumber();
+        expect(status[0]).to.include({ healthy: false, blockNumber: head - 50, lastError: "50 blocks behind" });
+        expect(status[1]).to.include({ healthy: true, blockNumber: head });
+
+        lagging.requests = [];
+        up.requests = [];
+        await rpc.send("eth_blockNumber", []);
+        expect(lagging.requests).to.deep.equal([]);
+        expect(up.requests).to.deep.equal(["eth_blockNumber"]);
+    });
+});
@@ -0,0 +1,240 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { AttestationClient } from "../../sdk/src/cctp";
+import { MixvmError } from "../../sdk/src/errors";
+import { JsonFileTransferStore, MemoryTransferStore, TransferTracker, transferId } from "../../sdk/src/tracker";
+import { TrackedTransfer, TransferState, TransferStore } from "../../sdk/src/types";
+import {
+    Devnet,
+    DevnetChain,
+    EMPTY_AUDIT,
+    EMPTY_PROOF,
+    EMPTY_STEALTH,
+    deployDevnet,
+    devnetChain,
+    devnetTrackerChains,
+    fundUsdc,
+    randomField,
+} from "../../scripts/devnet/fixtures";
+import { LocalAttestationApi, LocalLzRelayer } from "../../scripts/devnet/relayers";
+
+/**
+ * Transfer Tracker Test
+ *
+ * Follows devnet transfers while LayerZero delivery, the CCTP attestation and
+ * the mint are released one at a time:
+ * 1. Each stage is reached in order, with one "progress" event per step, and
+ *    a new tracker on the same JSON store picks up where the last one stopped
+ * 2. A transfer without progress is marked stuck once, with the reason, and
+ *    still completes when its messages arrive
+ * 3. Transactions that initiated no transfer fail; unknown transactions and
+ *    chains are refused
+ */
+
+describe("Transfer Tracker", function () {
+    this.timeout(120000);
+
+    let devnet: Devnet;
+    let base: DevnetChain;
+    let eth: DevnetChain;
+    let api: LocalAttestationApi;
+    let attestations: AttestationClient;
+    let lz: LocalLzRelayer;
+    let dir: string;
+
+    async function sendTransfer(amount: bigint): Promise<string> {
+        const tx = await base.bridge.initiateTransfer(
+            eth.eid,
+            randomField(),
+            amount,
+            randomField(),
+            randomField(),
+            randomField(),
+            await base.bridge.getLastRoot(),
+            EMPTY_PROOF,
+            EMPTY_STEALTH,
+            EMPTY_AUDIT,
+            { minFinalityThreshold: 2000, maxFee: 0n },
+            "0x",
+            { value: ethers.parseEther("0.01") }
+        );
+        await tx.wait();
+        return tx.hash;
+    }
+
+    async function mint(txHash: string) {
+        const [message] = await api.messages(base.cctpDomain, txHash);
+        await (await eth.messageTransmitter.receiveMessage(message.message, message.attestation)).wait();
+    }
+
+    function tracker(store: TransferStore, options: { stuckAfterMs?: number } = {}) {
+        const t = new TransferTracker({ chains: devnetTrackerChains(devnet), attestations, store, pollIntervalMs: 10, ...options });
+        const events: [string, TransferState][] = [];
+        for (const name of ["progress", "completed", "stuck", "failed"]) {
+            t.on(name, (transfer: TrackedTransfer) => events.push([name, transfer.state]));
+        }
+        return { tracker: t, events };
+    }
+
+    before(async function () {
+        const [owner] = await ethers.getSigners();
+        devnet = await deployDevnet({
+            chains: [
+                { name: "base", eid: 40245, cctpDomain: 6 },
+                { name: "ethereum", eid: 40161, cctpDomain: 0 },
+            ],
+            mockVerifiers: true,
+        });
+        base = devnetChain(devnet, "base");
+        eth = devnetChain(devnet, "ethereum");
+        api = new LocalAttestationApi(devnet.chains, devnet.attester);
+        attestations = new AttestationClient({ apiUrl: await api.listen() });
+        lz = new LocalLzRelayer(devnet.chains);
+
+        await fundUsdc(base, owner.address, 10_000_001n);
+        await (await base.usdc.approve(base.addresses.bridge, ethers.MaxUint256)).wait();
+        await (await base.bridge.deposit(10_000_000n, randomField())).wait();
+    });
+
+    after(async function () {
+        await api?.close();
+    });
+
+    beforeEach(function () {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "mixvm-tracker-"));
+    });
+
+    afterEach(function () {
+        fs.rmSync(dir, { recursive: true, force: true });
+        api.pendingPolls = 0;
+    });
+
+    it("should advance stage by stage and resume from its store", async function () {
+        api.pendingPolls = 1;
+        const txHash = await sendTransfer(2_000_000n);
+        const file = path.join(dir, "transfers.json");
+        const first = tracker(new JsonFileTransferStore(file));
+
+        const tracked = await first.tracker.track(base.eid, txHash, { label: "rent" });
+        expect(tracked).to.include({
+            id: transferId(base.eid, txHash),
+            srcEid: base.eid,
+            dstEid: eth.eid,
+            amount: "2000000",
+            state: "initiated",
+        });
+        expect(tracked.cctp).to.deep.include({ required: true, mode: "standard", maxFee: "0" });
+        expect(tracked.context).to.deep.equal({ label: "rent" });
+        expect((await first.tracker.track(base.eid, "0x" + txHash.slice(2).toUpperCase())).createdAt).to.equal(tracked.createdAt);
+
+        // Nothing delivered; the burn is seen but not attested yet
+        let transfer = await first.tracker.poll(tracked.id);
+        expect(transfer.state).to.equal("initiated");
+        expect(transfer.cctp.status).to.equal("pending_confirmations");
+        expect(first.events).to.deep.equal([]);
+
+        // Delivery and attestation land between two polls: one event per step
+        expect((await lz.deliverTx(base.eid, txHash))[0].status).to.equal("delivered");
+        transfer = await first.tracker.poll(tracked.id);
+        expect(transfer.state).to.equal("cctp_attested");
+        expect(transfer.lz!.leafIndex).to.be.a("number");
+        expect(transfer.cctp.attestation).to.be.a("string");
+        expect(first.events).to.deep.equal([
+            ["progress", "lz_delivered"],
+            ["progress", "cctp_attested"],
+        ]);
+
+        // A new tracker on the same file carries on
+        await mint(txHash);
+        const second = tracker(new JsonFileTransferStore(file));
+        const [resumed] = await second.tracker.resume();
+        expect(resumed.state).to.equal("completed");
+        expect(resumed.history.map((entry) => entry.state)).to.deep.equal([
+            "initiated",
+            "lz_delivered",
+            "cctp_attested",
+            "usdc_minted",
+            "completed",
+        ]);
+        expect(second.events).to.deep.equal([
+            ["progress", "usdc_minted"],
+            ["progress", "completed"],
+            ["completed", "completed"],
+        ]);
+        expect(await second.tracker.resume()).to.deep.equal([]);
+        expect(await second.tracker.waitFor(tracked.id, "lz_delivered")).to.deep.include({ state: "completed" });
+    });
+
+    it("should mark a transfer stuck once and still complete it", async function () {
+        const txHash = await sendTransfer(1_000_000n);
+        const { tracker: t, events } = tracker(new MemoryTransferStore(), { stuckAfterMs: 0 });
+        const { id } = await t.track(base.eid, txHash);
+
+        let transfer = await t.poll(id);
+        expect(transfer.state).to.equal("stuck");
+        expect(transfer.stage).to.equal("initiated");
+        expect(transfer.reason).to.contain("No LayerZero delivery after 0 min");
+        expect(transfer.reason).to.contain(transfer.guid);
+        await t.poll(id);
+        expect(events).to.deep.equal([
+            ["progress", "stuck"],
+            ["stuck", "stuck"],
+        ]);
+
+        let error: unknown;
+        try {
+            await t.waitFor(id, "completed", 50);
+        } catch (err) {
+            error = err;
+        }
+        expect(error).to.include({ code: "TRANSFER_TIMEOUT", retryable: true });
+
+        await lz.deliverTx(base.eid, txHash);
+        await mint(txHash);
+        transfer = await t.waitFor(id, "completed", 5000);
+        expect(transfer.state).to.equal("completed");
+        expect(transfer.reason).to.equal(undefined);
+        expect(transfer.history.map((entry) => entry.state)).to.deep.equal([
+            "initiated",
+            "stuck",
+            "lz_delivered",
+            "cctp_attested",
+            "usdc_minted",
+            "completed",
+        ]);
+    });
+
+    it("should fail transactions without a transfer and refuse unknown ones", async function () {
+        const { tracker: t, events } = tracker(new MemoryTransferStore());
+        const deposit = await (await base.bridge.deposit(1n, randomField())).wait();
+
+        const failed = await t.track(base.eid, deposit!.hash);
+        expect(failed).to.include({ state: "failed", reason: "Source transaction initiated no transfer" });
+        expect(events).to.deep.equal([["failed", "failed"]]);
+        expect(await t.poll(failed.id)).to.deep.equal(failed);
+
+        let error: unknown;
+        try {
+            await t.waitFor(failed.id);
+        } catch (err) {
+            error = err;
+        }
+        expect(error).to.include({ code: "TRANSFER_FAILED" });
+
+        const expectCode = async (promise: Promise<unknown>, code: string) => {
+            try {
+                await promise;
+                expect.fail("expected the tracker to refuse");
+            } catch (err) {
+                expect(err).to.be.instanceOf(MixvmError);
+                expect((err as MixvmError).code).to.equal(code);
+            }
+        };
+        await expectCode(t.track(base.eid, ethers.ZeroHash), "TX_NOT_FOUND");
+        await expectCode(t.track(1, deposit!.hash), "UNKNOWN_CHAIN");
+        await expectCode(t.poll("40245:0x1234"), "TX_NOT_FOUND");
+    });
+});
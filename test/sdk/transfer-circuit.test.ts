@@ -0,0 +1,137 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { decodeError } from "../../sdk/src/errors";
+import { MerkleTree } from "../../sdk/src/merkle";
+import { computeCommitment, computeNullifier, initPoseidon } from "../../sdk/src/poseidon";
+import { ProofGenerator } from "../../sdk/src/proof";
+import { ProofData } from "../../sdk/src/types";
+import { DEVNET_CIRCUITS, randomField } from "../../scripts/devnet/fixtures";
+import { BridgeTransferVerifier, BridgeTransferVerifier__factory } from "../../typechain-types";
+
+/**
+ * Bridge Transfer Circuit Test
+ *
+ * Proves a real transfer with circuits/bridge_transfer and checks it against
+ * the Solidity verifier PrivateLZBridge uses: the proof verifies with its own
+ * public signals and fails once the refund commitment, the amount, the CCTP
+ * fee, the relayer or its fee is changed, so none of them can be swapped by
+ * whoever submits it. The nullifier can only be the one the note's
+ * commitment fixes, so a note cannot be spent twice under two nullifiers.
+ */
+
+const RELAYER = "0x00000000000000000000000000000000000000aa";
+
+describe("Bridge Transfer Circuit", function () {
+    this.timeout(120000);
+
+    let verifier: BridgeTransferVerifier;
+    let generator: ProofGenerator;
+    let inputs: Parameters<ProofGenerator["generateTransferProof"]>[0];
+    let proof: ProofData;
+    let signals: bigint[];
+
+    before(async function () {
+        const [owner] = await ethers.getSigners();
+        verifier = await new BridgeTransferVerifier__factory(owner).deploy();
+        await initPoseidon();
+
+        const balance = 10_000_000n;
+        const amount = 3_996_000n;
+        const cctpFee = 4_000n;
+        const relayerFee = 200_000n;
+        const randomness = BigInt(randomField());
+        const commitment = computeCommitment(balance, randomness);
+
+        const tree = new MerkleTree();
+        tree.addLeaf(BigInt(randomField()));
+        const leafIndex = tree.addLeaf(commitment);
+        const path = tree.getProof(leafIndex);
+
+        const newSenderRandomness = BigInt(randomField());
+        const recipientRandomness = BigInt(randomField());
+        const refundRandomness = BigInt(randomField());
+        generator = new ProofGenerator(DEVNET_CIRCUITS);
+        inputs = {
+            merkleRoot: tree.getRoot().toString(),
+            nullifier: computeNullifier(randomness, commitment).toString(),
+            newSenderCommitment: computeCommitment(balance - amount - cctpFee - relayerFee, newSenderRandomness).toString(),
+            recipientCommitment: computeCommitment(amount, recipientRandomness).toString(),
+            refundCommitment: computeCommitment(amount, refundRandomness).toString(),
+            senderBalance: balance.toString(),
+            senderRandomness: randomness.toString(),
+            transferAmount: amount.toString(),
+            cctpFee: cctpFee.toString(),
+            relayer: BigInt(RELAYER).toString(),
+            relayerFee: relayerFee.toString(),
+            newSenderRandomness: newSenderRandomness.toString(),
+            recipientRandomness: recipientRandomness.toString(),
+            refundRandomness: refundRandomness.toString(),
+            merklePathElements: path.pathElements.map((e) => e.toString()),
+            merklePathIndices: path.pathIndices.map((i) => i.toString()),
+        };
+        ({ proofData: proof } = await generator.generateTransferProof(inputs));
+        signals = proof.publicSignals;
+    });
+
+    after(async function () {
+        await generator?.close();
+    });
+
+    async function verifies(publicSignals: bigint[]) {
+        return verifier.verifyProof(proof.pA, proof.pB, proof.pC, publicSignals as [
+            bigint, bigint, bigint, bigint, bigint, bigint, bigint, bigint, bigint,
+        ]);
+    }
+
+    it("should publish the bridge's nine signals in order", function () {
+        expect(signals).to.have.length(9);
+        // [merkleRoot, nullifier, newSenderCommitment, recipientCommitment, refundCommitment, amount, cctpFee, relayer, relayerFee]
+        expect(signals.slice(5)).to.deep.equal([3_996_000n, 4_000n, BigInt(RELAYER), 200_000n]);
+    });
+
+    it("should verify on-chain with its own signals", async function () {
+        expect(await verifies(signals)).to.equal(true);
+    });
+
+    it("should fail for another refund commitment, amount or fee", async function () {
+        const refundSwapped = [...signals];
+        refundSwapped[4] = BigInt(randomField());
+        expect(await verifies(refundSwapped)).to.equal(false);
+
+        const moreAmount = [...signals];
+        moreAmount[5] += 4_000n;
+        expect(await verifies(moreAmount)).to.equal(false);
+
+        const noFee = [...signals];
+        noFee[6] = 0n;
+        expect(await verifies(noFee)).to.equal(false);
+    });
+
+    it("should fail for another relayer or relayer fee", async function () {
+        const relayerSwapped = [...signals];
+        relayerSwapped[7] = BigInt("0x00000000000000000000000000000000000000bb");
+        expect(await verifies(relayerSwapped)).to.equal(false);
+
+        const moreRelayerFee = [...signals];
+        moreRelayerFee[8] += 1n;
+        expect(await verifies(moreRelayerFee)).to.equal(false);
+    });
+
+    it("should not prove any nullifier but the note's own", async function () {
+        const commitment = computeCommitment(BigInt(inputs.senderBalance), BigInt(inputs.senderRandomness));
+        let error: unknown;
+        try {
+            await generator.generateTransferProof({
+                ...inputs,
+                nullifier: computeNullifier(BigInt(randomField()), commitment).toString(),
+            });
+        } catch (err) {
+            error = err;
+        }
+        expect(decodeError(error).code).to.equal("WITNESS_FAILED");
+
+        const nullifierSwapped = [...signals];
+        nullifierSwapped[1] = computeNullifier(BigInt(randomField()), commitment);
+        expect(await verifies(nullifierSwapped)).to.equal(false);
+    });
+});
@@ -0,0 +1,390 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { ContractTransactionReceipt, Interface } from "ethers";
+import * as http from "http";
+import { AddressInfo } from "net";
+import { PrivateLZBridgeClient, DEFAULT_LZ_OPTIONS } from "../../sdk/src/bridge";
+import { AttestationClient, cctpNetAmount, cctpTransferFee } from "../../sdk/src/cctp";
+import { MixvmError } from "../../sdk/src/errors";
+import { parseBridgeEvents } from "../../sdk/src/events";
+import { decodeLzOptions, encodeLzOptions } from "../../sdk/src/lzOptions";
+import { decodeLzPacket } from "../../sdk/src/lzRecovery";
+import { computeCommitment } from "../../sdk/src/poseidon";
+import { preflightTransfer } from "../../sdk/src/preflight";
+import { EMPTY_AUDIT, EMPTY_PROOF, EMPTY_STEALTH, deployBridge, randomField } from "../../scripts/devnet/fixtures";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+    MockEndpointV2,
+    MockEndpointV2__factory,
+    MockTokenMessengerV2,
+    MockTokenMessengerV2__factory,
+    MockUSDC,
+    MockUSDC__factory,
+    PrivateLZBridge,
+} from "../../typechain-types";
+
+/**
+ * LayerZero Options and Transfer Quote Test
+ *
+ * 1. Type 3 options encode to the bridge's own default and round-trip
+ * 2. quoteTransfer quotes the initiateTransfer payload against a mock
+ *    endpoint whose fee is per byte of message and options
+ * 3. CCTP fees come from a mock fee API, falling back to maxFee when down
+ * 4. initiateTransfer credits the recipient with amount and burns amount
+ *    plus the CCTP fee from the pool (the proof takes both from the note),
+ *    never touching the caller's USDC; preflightTransfer checks the same
+ *    net amount and recipient commitment, and passes LayerZero-only routes
+ */
+
+const BASE = { eid: 40245, domain: 6 };
+const ETH = { eid: 40161, domain: 0 };
+const ARB_EID = 40231;
+// abi.encode(bytes32 recipientCommitment, uint256 amount, uint256 grossAmount, StealthData(5 x uint256))
+const PAYLOAD_BYTES = 8 * 32;
+
+describe("LayerZero Options and Transfer Quote", function () {
+    this.timeout(60000);
+
+    describe("options codec", function () {
+        it("should encode the bridge's default options", function () {
+            expect(encodeLzOptions({ lzReceive: { gas: 500_000n } }))
+                .to.equal("0x0003010011010000000000000000000000000007a120");
+            expect(DEFAULT_LZ_OPTIONS).to.equal("0x0003010011010000000000000000000000000007a120");
+        });
+
+        it("should round-trip every option type", function () {
+            const receiver = ethers.zeroPadValue("0x000000000000000000000000000000000000dEaD", 32).toLowerCase();
+            const options = {
+                lzReceive: { gas: 200_000n, value: 1_000n },
+                nativeDrops: [{ amount: 10n ** 15n, receiver }],
+                composes: [{ index: 0, gas: 100_000n, value: 0n }],
+                orderedExecution: true,
+                dvnOptions: [{ index: 0, optionType: 1, params: "0x" }],
+            };
+            const encoded = encodeLzOptions(options);
+            expect(encoded.startsWith("0x0003")).to.equal(true);
+            expect(decodeLzOptions(encoded)).to.deep.equal(options);
+        });
+
+        it("should decode legacy type 1 options and reject malformed ones", function () {
+            const legacy = ethers.concat(["0x0001", ethers.toBeHex(300_000, 32)]);
+            expect(decodeLzOptions(legacy)).to.deep.equal({ lzReceive: { gas: 300_000n } });
+            expect(decodeLzOptions("0x")).to.deep.equal({});
+
+            for (const bad of ["0x0004", "0x000301001101", "0x0003090001ff"]) {
+                expect(() => decodeLzOptions(bad)).to.throw(MixvmError).with.property("code", "INVALID_LZ_OPTIONS");
+            }
+            expect(() => encodeLzOptions({ lzReceive: { gas: 1n << 128n } })).to.throw(MixvmError);
+        });
+    });
+
+    describe("quoteTransfer and CCTP fees", function () {
+        let client: PrivateLZBridgeClient;
+        let server: http.Server;
+        let fees: { status: number; body: unknown };
+        let bridge: PrivateLZBridge;
+        let usdc: MockUSDC;
+        let endpoint: MockEndpointV2;
+        let messenger: MockTokenMessengerV2;
+        let owner: HardhatEthersSigner;
+        let other: HardhatEthersSigner;
+
+        before(async function () {
+            [owner, other] = await ethers.getSigners();
+            usdc = await new MockUSDC__factory(owner).deploy();
+            endpoint = await new MockEndpointV2__factory(owner).deploy(BASE.eid);
+            messenger = await new MockTokenMessengerV2__factory(owner).deploy();
+            bridge = await deployBridge({
+                endpoint,
+                eid: BASE.eid,
+                usdc,
+                owner,
+                tokenMessenger: await messenger.getAddress(),
+            });
+            await (await bridge.setCCTPDomain(ETH.eid, ETH.domain)).wait();
+            await (await bridge.setPeer(ETH.eid, ethers.zeroPadValue(owner.address, 32))).wait();
+            await (await usdc.mint(owner.address, 100_000_000n)).wait();
+
+            // Circle fee API stand-in: /v2/burn/USDC/fees/{source}/{destination}
+            server = http.createServer((req, res) => {
+                const ok = req.url === `/v2/burn/USDC/fees/${BASE.domain}/${ETH.domain}`;
+                res.writeHead(ok ? fees.status : 404).end(JSON.stringify(fees.body));
+            });
+            await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+            client = new PrivateLZBridgeClient({
+                provider: ethers.provider,
+                bridgeAddress: await bridge.getAddress(),
+                attestations: new AttestationClient({
+                    apiUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+                    timeoutMs: 5000,
+                }),
+            });
+        });
+
+        after(async function () {
+            await new Promise((resolve) => server.close(resolve));
+        });
+
+        it("should quote the LayerZero fee and Circle's fast fee", async function () {
+            fees = { status: 200, body: [{ finalityThreshold: 1000, minimumFee: 1 }, { finalityThreshold: 2000, minimumFee: 0 }] };
+            const amount = 10_000_000n;
+            const cctpFee = 10_011n; // ceil(amount / 999)
+            // Quoted by what leaves the note; the fee comes out of it
+            const quote = await client.quoteTransfer(ETH.eid, amount + cctpFee, { sourceDomain: BASE.domain });
+
+            const nativeFee = BigInt(PAYLOAD_BYTES + ethers.dataLength(DEFAULT_LZ_OPTIONS)) * 10n ** 9n;
+            expect(quote.nativeFee).to.equal(nativeFee);
+            expect(quote.nativeFeeWithBuffer).to.equal((nativeFee * 120n) / 100n);
+            expect(quote.options).to.equal(DEFAULT_LZ_OPTIONS);
+            expect(quote.amount).to.equal(amount);
+            expect(quote.grossAmount).to.equal(amount + cctpFee);
+            expect(quote.cctp).to.deep.equal({
+                sourceDomain: BASE.domain,
+                destinationDomain: ETH.domain,
+                mode: "fast",
+                minFinalityThreshold: 1000,
+                maxFee: cctpFee,
+                feeBps: 1,
+                expectedFee: 1_002n, // 1 bp of the 10,010,011 burned, rounded up
+                fast: true,
+                expectedLatencySeconds: 20,
+            });
+            expect(quote.breakdown).to.deep.equal({
+                usdcSent: amount + cctpFee,
+                usdcDelivered: amount,
+                usdcFees: cctpFee,
+                nativeTotal: nativeFee,
+            });
+        });
+
+        it("should quote custom options by their encoded size", async function () {
+            const lzOptions = encodeLzOptions({
+                lzReceive: { gas: 800_000n },
+                nativeDrops: [{ amount: 1n, receiver: ethers.ZeroHash }],
+            });
+            const quote = await client.quoteTransfer(ETH.eid, 1_000_000n, { lzOptions, sourceDomain: BASE.domain });
+            expect(quote.nativeFee).to.equal(BigInt(PAYLOAD_BYTES + ethers.dataLength(lzOptions)) * 10n ** 9n);
+        });
+
+        it("should fall back to standard finality when the fast fee exceeds maxFee", async function () {
+            fees = { status: 200, body: [{ finalityThreshold: 1000, minimumFee: 14 }, { finalityThreshold: 2000, minimumFee: 0 }] };
+            const quote = await client.quoteTransfer(ETH.eid, 10_000_000n, { sourceDomain: BASE.domain });
+            expect(quote.cctp!.fast).to.equal(false);
+            expect(quote.cctp!.expectedFee).to.equal(0n);
+        });
+
+        it("should quote standard finality without a CCTP fee", async function () {
+            fees = { status: 200, body: [{ finalityThreshold: 1000, minimumFee: 1 }, { finalityThreshold: 2000, minimumFee: 0 }] };
+            const quote = await client.quoteTransfer(ETH.eid, 10_000_000n, { sourceDomain: BASE.domain, mode: "standard" });
+            expect(quote.grossAmount).to.equal(10_000_000n);
+            expect(quote.breakdown.usdcFees).to.equal(0n);
+            expect(quote.cctp).to.include({
+                mode: "standard",
+                minFinalityThreshold: 2000,
+                maxFee: 0n,
+                expectedFee: 0n,
+                fast: false,
+                expectedLatencySeconds: 19 * 60,
+            });
+        });
+
+        it("should assume maxFee when the fee API is down", async function () {
+            fees = { status: 503, body: {} };
+            const quote = await client.quoteTransfer(ETH.eid, 10_000_000n, { sourceDomain: BASE.domain });
+            expect(quote.cctp!.feeBps).to.be.undefined;
+            expect(quote.cctp!.expectedFee).to.equal(quote.cctp!.maxFee);
+            expect(quote.breakdown.usdcDelivered).to.equal(cctpNetAmount(10_000_000n));
+        });
+
+        it("should leave out CCTP for destinations without a domain", async function () {
+            const quote = await client.quoteTransfer(ARB_EID, 10_000_000n, { sourceDomain: BASE.domain });
+            expect(quote.cctp).to.be.undefined;
+            expect(quote.breakdown.usdcFees).to.equal(0n);
+            expect(quote.grossAmount).to.equal(10_000_000n);
+        });
+
+        it("should match the bridge's fee and invert it for a gross budget", async function () {
+            for (const amount of [1n, 998n, 999n, 1_000n, 10_000_000n, 123_456_789n]) {
+                expect(await bridge.cctpFeeFor(ETH.eid, amount)).to.equal(cctpTransferFee(amount));
+            }
+            const net = cctpNetAmount(10_000_000n);
+            expect(net + cctpTransferFee(net)).to.be.at.most(10_000_000n);
+            expect(net + 1n + cctpTransferFee(net + 1n)).to.be.above(10_000_000n);
+        });
+
+        it("should preflight the net amount and commitment initiateTransfer sends", async function () {
+            const destination = await deployBridge({
+                endpoint: await new MockEndpointV2__factory(owner).deploy(ETH.eid),
+                eid: ETH.eid,
+                usdc,
+                owner,
+            });
+            const preflightClient = new PrivateLZBridgeClient({
+                provider: ethers.provider,
+                bridgeAddress: await bridge.getAddress(),
+                destinations: { [ETH.eid]: { provider: ethers.provider, bridgeAddress: await destination.getAddress() } },
+            });
+            await preflightClient.initialize();
+
+            const balance = 10_000_000n;
+            const randomness = 7n;
+            const commitment = computeCommitment(balance, randomness);
+            const leafIndex = Number(await bridge.nextLeafIndex());
+            await (await usdc.approve(await bridge.getAddress(), balance)).wait();
+            await (await bridge.deposit(balance, ethers.toBeHex(commitment, 32))).wait();
+            const note = { commitment, balance, randomness, nullifierSecret: 11n, leafIndex };
+
+            // The recipient note of a fast transfer holds what is left after the CCTP fee
+            const recipientRandomness = 13n;
+            const net = cctpNetAmount(balance);
+            await (await usdc.approve(await destination.getAddress(), net)).wait();
+            await (await destination.deposit(net, ethers.toBeHex(computeCommitment(net, recipientRandomness), 32))).wait();
+
+            const report = await preflightClient.preflightTransfer({ dstEid: ETH.eid, amount: balance, note, recipientRandomness });
+            expect(report.checks.find((c) => c.name === "recipientCommitmentUnused")!.status).to.equal("fail");
+
+            const standard = await preflightClient.preflightTransfer({
+                dstEid: ETH.eid,
+                amount: balance,
+                note,
+                recipientRandomness,
+                cctpMode: "standard",
+            });
+            expect(standard.checks.find((c) => c.name === "recipientCommitmentUnused")!.status).to.equal("pass");
+        });
+
+        it("should preflight a route without a CCTP domain as LayerZero only", async function () {
+            await (await bridge.setPeer(ARB_EID, ethers.zeroPadValue(owner.address, 32))).wait();
+            const leafCount = Number(await bridge.nextLeafIndex());
+            const report = await preflightTransfer(ethers.provider, await bridge.getAddress(), {
+                dstEid: ARB_EID,
+                amount: 1_000_000n,
+                nullifier: 1n,
+                merkleRoot: BigInt(await bridge.getLastRoot()),
+                leafIndex: leafCount - 1,
+                leafCount,
+            });
+            const check = (name: string) => report.checks.find((c) => c.name === name)!;
+            expect(check("cctpDomainSet")).to.include({ status: "skipped", detail: `No CCTP domain set for EID ${ARB_EID}; the route is LayerZero only` });
+            expect(check("liquidity").status).to.equal("skipped");
+            expect(report.ok).to.equal(true);
+        });
+
+        // initiateTransfer to ETH (the mock verifier accepts any proof)
+        async function initiate(
+            amount: bigint,
+            cctpParams: { minFinalityThreshold: number; maxFee: bigint },
+            value: bigint,
+            recipientCommitment = ethers.hexlify(ethers.randomBytes(32))
+        ) {
+            return bridge.initiateTransfer(
+                ETH.eid,
+                recipientCommitment,
+                amount,
+                ethers.hexlify(ethers.randomBytes(32)),
+                randomField(),
+                randomField(),
+                await bridge.getLastRoot(),
+                EMPTY_PROOF,
+                EMPTY_STEALTH,
+                EMPTY_AUDIT,
+                cctpParams,
+                "0x",
+                { value }
+            );
+        }
+
+        function findLog(receipt: ContractTransactionReceipt | null, contract: { interface: Interface }, name: string) {
+            const log = receipt!.logs
+                .map((log) => { try { return contract.interface.parseLog(log); } catch { return null; } })
+                .find((log) => log?.name === name);
+            return log!;
+        }
+
+        it("should burn amount plus the fee from the pool and credit amount", async function () {
+            const deposit = 20_000_000n;
+            await (await usdc.approve(await bridge.getAddress(), deposit)).wait();
+            await (await bridge.deposit(deposit, randomField())).wait();
+
+            const amount = 10_000_000n;
+            const cctpFee = cctpTransferFee(amount);
+            const quote = await client.quoteTransfer(ETH.eid, amount + cctpFee, { sourceDomain: BASE.domain });
+            expect([quote.amount, quote.cctp!.maxFee]).to.deep.equal([amount, cctpFee]);
+            const cctpParams = { minFinalityThreshold: 1000, maxFee: cctpFee };
+            const recipientCommitment = ethers.hexlify(ethers.randomBytes(32));
+
+            const walletBefore = await usdc.balanceOf(owner.address);
+            const poolBefore = await usdc.balanceOf(await bridge.getAddress());
+            const receipt = await (await initiate(amount, cctpParams, quote.nativeFeeWithBuffer, recipientCommitment)).wait();
+
+            // No allowance was given: the fee is paid from the note, not the wallet
+            expect(await usdc.balanceOf(owner.address)).to.equal(walletBefore);
+            expect(poolBefore - (await usdc.balanceOf(await bridge.getAddress()))).to.equal(amount + cctpFee);
+            expect(await usdc.balanceOf(await messenger.getAddress())).to.equal(amount + cctpFee);
+
+            const burn = findLog(receipt, messenger, "DepositForBurn");
+            expect(burn.args.amount).to.equal(amount + cctpFee);
+            expect(burn.args.maxFee).to.equal(cctpFee);
+            expect(burn.args.minFinalityThreshold).to.equal(1000n);
+            expect(burn.args.destinationDomain).to.equal(ETH.domain);
+
+            const [initiated] = parseBridgeEvents(receipt!.logs, await bridge.getAddress()).transfersInitiated;
+            expect(initiated.amount).to.equal(amount);
+            expect(initiated.grossAmount).to.equal(amount + cctpFee);
+
+            // The payload carries both amounts and was priced by quoteTransfer
+            const sent = findLog(receipt, endpoint, "PacketSent");
+            const { message } = decodeLzPacket(sent.args.encodedPayload);
+            const [commitment, net, gross] = ethers.AbiCoder.defaultAbiCoder().decode(
+                ["bytes32", "uint256", "uint256", "tuple(uint256,uint256,uint256,uint256,uint256)"],
+                message
+            );
+            expect([commitment, net, gross]).to.deep.equal([recipientCommitment, amount, amount + cctpFee]);
+            expect(BigInt(ethers.dataLength(message) + ethers.dataLength(sent.args.options)) * 10n ** 9n)
+                .to.equal(quote.nativeFee);
+        });
+
+        it("should burn at standard finality without a fee", async function () {
+            const amount = 2_000_000n;
+            const quote = await client.quoteTransfer(ETH.eid, amount, { sourceDomain: BASE.domain, mode: "standard" });
+            const walletBefore = await usdc.balanceOf(owner.address);
+            const receipt = await (
+                await initiate(amount, { minFinalityThreshold: 2000, maxFee: 0n }, quote.nativeFeeWithBuffer)
+            ).wait();
+
+            expect(await usdc.balanceOf(owner.address)).to.equal(walletBefore);
+            const burn = findLog(receipt, messenger, "DepositForBurn");
+            expect(burn.args.amount).to.equal(amount);
+            expect(burn.args.maxFee).to.equal(0n);
+            expect(burn.args.minFinalityThreshold).to.equal(2000n);
+            const event = findLog(receipt, bridge, "CCTPBurnInitiated");
+            expect([event.args.amount, event.args.maxFee, event.args.minFinalityThreshold]).to.deep.equal([amount, 0n, 2000n]);
+        });
+
+        it("should keep the caller's CCTP parameters within the owner's bounds", async function () {
+            const amount = 1_000_000n;
+            const cctpFee = cctpTransferFee(amount);
+            const value = (await client.quoteTransfer(ETH.eid, amount, { sourceDomain: BASE.domain })).nativeFeeWithBuffer;
+
+            await expect(initiate(amount, { minFinalityThreshold: 1000, maxFee: cctpFee + 1n }, value))
+                .to.be.revertedWith("CCTP fee too high");
+            await expect(bridge.connect(other).setCCTPBounds(2000, 2000, 10)).to.be.revertedWith("Not owner");
+
+            // Standard only, at most 5 bps
+            await expect(bridge.setCCTPBounds(2000, 2000, 5)).to.emit(bridge, "CCTPBoundsSet").withArgs(2000, 2000, 5);
+            try {
+                await expect(initiate(amount, { minFinalityThreshold: 1000, maxFee: 0n }, value))
+                    .to.be.revertedWith("CCTP finality out of bounds");
+                expect(await bridge.cctpFeeFor(ETH.eid, amount)).to.equal(cctpTransferFee(amount, 5n));
+                const err = await client.quoteTransfer(ETH.eid, amount, { sourceDomain: BASE.domain }).catch((e) => e);
+                expect(err).to.be.instanceOf(MixvmError);
+                expect(err.code).to.equal("INVALID_CCTP_PARAMS");
+                expect((await client.quoteTransfer(ETH.eid, amount, { sourceDomain: BASE.domain, mode: "standard" })).cctp!.mode)
+                    .to.equal("standard");
+            } finally {
+                await (await bridge.setCCTPBounds(1000, 2000, 10)).wait();
+            }
+        });
+    });
+});
@@ -0,0 +1,157 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Filter, Provider } from "ethers";
+import { FileTreeCache, MemoryTreeCache, treeCacheKey } from "../../sdk/src/cache";
+import { initPoseidon } from "../../sdk/src/poseidon";
+import { MerkleSync } from "../../sdk/src/sync";
+import { DevnetChain, deployDevnet, devnetChain, fundUsdc, randomField } from "../../scripts/devnet/fixtures";
+
+/**
+ * Tree Cache Test
+ *
+ * Syncs a devnet bridge's merkle tree through a tree cache:
+ * 1. File and memory caches round-trip cursors per chain and bridge
+ * 2. A new MerkleSync picks up the cached cursor and only scans new blocks
+ * 3. A cache that no longer matches the chain is cleared and rebuilt from
+ *    the deploy block before a proof is handed out
+ */
+
+const BRIDGE = "0x4cDf8DB3B884418db41fc1Eb15b3152262979AF1";
+
+// Hardhat provider that records the block ranges of eth_getLogs requests
+function countingProvider() {
+    const ranges: [number, number][] = [];
+    const provider = new Proxy(ethers.provider, {
+        get(target, prop) {
+            if (prop === "getLogs") {
+                return (filter: Filter) => {
+                    ranges.push([Number(filter.fromBlock), Number(filter.toBlock)]);
+                    return target.getLogs(filter);
+                };
+            }
+            const value = Reflect.get(target, prop, target);
+            return typeof value === "function" ? value.bind(target) : value;
+        },
+    }) as unknown as Provider;
+    return { provider, ranges };
+}
+
+describe("Tree Cache", function () {
+    this.timeout(120000);
+
+    let base: DevnetChain;
+    let dir: string;
+    const commitments: string[] = [];
+
+    async function deposit(count: number) {
+        for (let i = 0; i < count; i++) {
+            const commitment = randomField();
+            await (await base.bridge.deposit(1_000_000n, commitment)).wait();
+            commitments.push(BigInt(commitment).toString());
+        }
+    }
+
+    before(async function () {
+        await initPoseidon();
+        const [owner] = await ethers.getSigners();
+        const devnet = await deployDevnet({
+            chains: [{ name: "base", eid: 40245, cctpDomain: 6 }],
+            mockVerifiers: true,
+        });
+        base = devnetChain(devnet, "base");
+        await fundUsdc(base, owner.address, 100_000_000n);
+        await (await base.usdc.approve(base.addresses.bridge, ethers.MaxUint256)).wait();
+    });
+
+    beforeEach(function () {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "mixvm-trees-"));
+    });
+
+    afterEach(function () {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("should round-trip cursors per chain and bridge", async function () {
+        const cursor = { nextBlock: 120, leaves: ["1", "2", (2n ** 250n).toString()] };
+
+        for (const cache of [new MemoryTreeCache(), new FileTreeCache(dir)]) {
+            expect(await cache.load(84532, BRIDGE)).to.equal(undefined);
+            await cache.save(84532, BRIDGE, cursor);
+            expect(await cache.load(84532, BRIDGE.toLowerCase())).to.deep.equal(cursor);
+            expect(await cache.load(11155111, BRIDGE)).to.equal(undefined);
+
+            // Callers get copies
+            const loaded = await cache.load(84532, BRIDGE);
+            loaded!.leaves.push("3");
+            expect(await cache.load(84532, BRIDGE)).to.deep.equal(cursor);
+
+            await cache.clear(84532, BRIDGE);
+            expect(await cache.load(84532, BRIDGE)).to.equal(undefined);
+            await cache.clear(84532, BRIDGE);
+        }
+    });
+
+    it("should write one versioned file per bridge and ignore other versions", async function () {
+        const cache = new FileTreeCache(path.join(dir, "trees"));
+        await cache.save(84532, BRIDGE, { nextBlock: 7, leaves: ["5"] });
+
+        const file = path.join(dir, "trees", `${treeCacheKey(84532, BRIDGE)}.json`);
+        expect(path.basename(file)).to.equal(`84532-${BRIDGE.toLowerCase()}.json`);
+        expect(JSON.parse(fs.readFileSync(file, "utf8"))).to.deep.equal({
+            version: 1,
+            chainId: 84532,
+            bridgeAddress: BRIDGE.toLowerCase(),
+            nextBlock: 7,
+            leaves: ["5"],
+        });
+
+        fs.writeFileSync(file, JSON.stringify({ version: 2, nextBlock: 7, leaves: ["5"] }));
+        expect(await cache.load(84532, BRIDGE)).to.equal(undefined);
+    });
+
+    it("should resume a new sync from the cached cursor", async function () {
+        const cache = new FileTreeCache(dir);
+        await deposit(3);
+
+        const first = countingProvider();
+        const sync = new MerkleSync(first.provider, base.addresses.bridge, { deployBlock: base.deployBlock, cache });
+        expect(await sync.sync()).to.equal(commitments.length);
+        const head = await ethers.provider.getBlockNumber();
+        expect(first.ranges[0][0]).to.equal(base.deployBlock);
+
+        const cached = await cache.load(base.chainId, base.addresses.bridge);
+        expect(cached).to.deep.equal({ nextBlock: head + 1, leaves: commitments });
+
+        await deposit(2);
+        const second = countingProvider();
+        const resumed = new MerkleSync(second.provider, base.addresses.bridge, { deployBlock: base.deployBlock, cache });
+        expect(await resumed.sync()).to.equal(2);
+        // Only the blocks after the cached cursor were scanned
+        expect(second.ranges).to.deep.equal([[head + 1, await ethers.provider.getBlockNumber()]]);
+        expect(resumed.getCursor().leaves).to.deep.equal(commitments);
+        expect(await resumed.verifyRoot()).to.equal(resumed.getTree().getRoot());
+    });
+
+    it("should rebuild from the deploy block when the cached tree is stale", async function () {
+        const cache = new MemoryTreeCache();
+        await deposit(1);
+        const head = await ethers.provider.getBlockNumber();
+        // A cursor whose leaves disagree with the chain, e.g. saved before a reorg
+        const stale = [...commitments.slice(0, -1), "12345"];
+        await cache.save(base.chainId, base.addresses.bridge, { nextBlock: head + 1, leaves: stale });
+
+        const { provider, ranges } = countingProvider();
+        const sync = new MerkleSync(provider, base.addresses.bridge, { deployBlock: base.deployBlock, cache });
+        const proof = await sync.getVerifiedProof(commitments.length - 1);
+
+        expect(ethers.toBeHex(proof.root, 32)).to.equal(await base.bridge.getLastRoot());
+        expect(ranges[0][0]).to.equal(base.deployBlock);
+        expect(await cache.load(base.chainId, base.addresses.bridge)).to.deep.equal({
+            nextBlock: head + 1,
+            leaves: commitments,
+        });
+    });
+});
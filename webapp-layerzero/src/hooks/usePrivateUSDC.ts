@@ -5,6 +5,12 @@ import { useSDKStore } from '../lib/store'
 import { CONTRACTS } from '../lib/wagmi'
 import { CHAIN_CONFIGS } from '../lib/chains'
 import { getMerkleProof, MerkleTree, buildMerkleTreeFromEvents } from '../lib/merkle'
+import { getChainProvider } from '../lib/rpc'
+import { ContractRevertError, MixvmError, ProofError, WorkerError, describeError, decodeError } from '../../../sdk/src/errors'
+import { assertPreflight, preflightWithdraw } from '../../../sdk/src/preflight'
+import { NOT_PAUSED, getPauseState, pausedError } from '../../../sdk/src/pause'
+import { RelayerClient, relayerFeeBinding } from '../../../sdk/src/relayer'
+import type { BridgePauseState, PackedProof } from '../../../sdk/src/types'
 import { encryptNoteData, generateStealthDataForTransfer, StealthDataForContract } from '../lib/stealth'
 import { secp256k1 } from '@noble/curves/secp256k1'
 
@@ -25,7 +31,6 @@ function getChainConfig(chainId: number | undefined) {
       usdcAddress: CHAIN_CONFIGS[84532].usdc,
       usdcDecimals: CHAIN_CONFIGS[84532].usdcDecimals,
       deployBlock: CHAIN_CONFIGS[84532].deployBlock,
-      rpc: CHAIN_CONFIGS[84532].rpc,
       chainId: 84532,
     }
   }
@@ -36,7 +41,6 @@ function getChainConfig(chainId: number | undefined) {
     usdcAddress: config.usdc,
     usdcDecimals: config.usdcDecimals,
     deployBlock: config.deployBlock,
-    rpc: config.rpc,
     chainId: chainId,
   }
 }
@@ -85,7 +89,6 @@ const ERC20_ABI = [
 
 // StealthRegistry address (deployed on Base Sepolia)
 const STEALTH_REGISTRY_ADDRESS = '0x5ceCfD0bF5E815D935E4b0b85F5a604B784CA6E5'
-const STEALTH_REGISTRY_RPC = 'https://sepolia.base.org'
 const STEALTH_REGISTRY_CHAIN_ID = 84532
 const STEALTH_REGISTRY_ABI = [
   'function isUserRegistered(address user) view returns (bool)',
@@ -105,6 +108,7 @@ const PRIVATE_USDC_STEALTH_ABI = [
 const CONTRACT_ABI = [
   'function deposit(uint256 amount, bytes32 commitment) external',
   'function withdraw(address recipient, uint256 amount, bytes32 nullifier, bytes32 newCommitment, bytes32 merkleRoot, uint256[8] proof) external',
+  'function withdrawViaRelayer(address recipient, address relayer, uint256 fee, uint256 amount, bytes32 nullifier, bytes32 newCommitment, bytes32 merkleRoot, uint256[8] proof) external',
   'function getLastRoot() view returns (bytes32)',
   'function nextLeafIndex() view returns (uint256)',
   'function nullifiers(bytes32) view returns (bool)',
@@ -179,7 +183,10 @@ async function generateProofWithWorker(
 
     const timeout = setTimeout(() => {
       worker.terminate()
-      reject(new Error('Proof generation timed out (120s)'))
+      reject(new ProofError('PROOF_TIMEOUT', 'Proof generation timed out (120s)', {
+        hint: 'Close other heavy tabs and try again',
+        retryable: true,
+      }))
     }, 120000)
 
     worker.onmessage = (e) => {
@@ -193,14 +200,14 @@ async function generateProofWithWorker(
           calldata: e.data.calldata
         })
       } else {
-        reject(new Error(e.data.error || 'Proof generation failed'))
+        reject(decodeError(new Error(e.data.error || 'Proof generation failed')))
       }
     }
 
     worker.onerror = (err) => {
       clearTimeout(timeout)
       worker.terminate()
-      reject(new Error(`Worker error: ${err.message}`))
+      reject(new WorkerError(`Proof worker crashed: ${err.message}`))
     }
 
     worker.postMessage({
@@ -222,7 +229,6 @@ export function usePrivateUSDC() {
   const USDC_ADDRESS = chainConfig.usdcAddress
   const USDC_DECIMALS = chainConfig.usdcDecimals
   const DEPLOY_BLOCK = chainConfig.deployBlock
-  const RPC_URL = chainConfig.rpc
   const IS_NATIVE_USDC = false // LayerZero version uses ERC-20 USDC only
 
   const {
@@ -246,6 +252,7 @@ export function usePrivateUSDC() {
   const providerRef = useRef<BrowserProvider | null>(null)
   const merkleTreeRef = useRef<MerkleTree | null>(null)
   const [circuitsLoaded, setCircuitsLoaded] = useState(false)
+  const [pauseState, setPauseState] = useState<BridgePauseState>(NOT_PAUSED)
 
   // Get ethers signer from wallet client
   const getSigner = useCallback(async () => {
@@ -282,6 +289,23 @@ export function usePrivateUSDC() {
     }
   }, [isConnected, walletClient, isInitialized, setInitialized])
 
+  // Pause flags of this chain's bridge, so pages can block paused actions up front
+  const refreshPauseState = useCallback(async () => {
+    try {
+      const state = await getPauseState(getChainProvider(chainConfig.chainId), CONTRACT_ADDRESS)
+      setPauseState(state)
+      return state
+    } catch (err) {
+      console.warn('Failed to read pause state:', err)
+      return undefined
+    }
+  }, [chainConfig.chainId, CONTRACT_ADDRESS])
+
+  useEffect(() => {
+    setPauseState(NOT_PAUSED)
+    refreshPauseState()
+  }, [refreshPauseState])
+
   // Filter notes by current chain (memoized to prevent infinite re-renders)
   const chainNotes = useMemo(
     () => notes.filter((n) => !n.chainId || n.chainId === chainId),
@@ -300,7 +324,7 @@ export function usePrivateUSDC() {
     try {
       const tree = await buildMerkleTreeFromEvents(CONTRACT_ADDRESS, providerRef.current, {
         deployBlock: DEPLOY_BLOCK,
-        rpcUrl: RPC_URL,
+        chainId: chainConfig.chainId,
       })
       merkleTreeRef.current = tree
       return tree
@@ -308,7 +332,7 @@ export function usePrivateUSDC() {
       console.error('Failed to build merkle tree:', err)
       return null
     }
-  }, [CONTRACT_ADDRESS, DEPLOY_BLOCK, RPC_URL])
+  }, [CONTRACT_ADDRESS, DEPLOY_BLOCK, chainConfig.chainId])
 
   /**
    * Deposit funds into private balance
@@ -336,6 +360,10 @@ export function usePrivateUSDC() {
       const signerAddress = await signer.getAddress()
       console.log('5. Signer address:', signerAddress)
 
+      // Stop before the approval if deposits are paused
+      const paused = pausedError((await refreshPauseState()) ?? NOT_PAUSED, 'deposit')
+      if (paused) throw paused
+
       // Initialize Poseidon first
       await initPoseidon()
       console.log('6. Poseidon initialized')
@@ -485,22 +513,23 @@ export function usePrivateUSDC() {
       } else {
         console.error('18. TX failed! Status:', receipt?.status)
         updateTransaction(tx.hash, { status: 'failed' })
-        throw new Error('Transaction failed')
+        throw new ContractRevertError('REVERTED', 'Transaction failed', { txHash: tx.hash })
       }
     } catch (err) {
       console.error('=== DEPOSIT ERROR ===', err)
-      const message = err instanceof Error ? err.message : 'Deposit failed'
-      setError(message)
+      setError(describeError(err, 'Deposit'))
       throw err
     } finally {
       setLoading(false)
     }
-  }, [isConnected, walletClient, getSigner, setLoading, setError, addNote, addTransaction, updateTransaction, refreshMerkleTree, chainId, CONTRACT_ADDRESS, USDC_ADDRESS, USDC_DECIMALS])
+  }, [isConnected, walletClient, getSigner, setLoading, setError, addNote, addTransaction, updateTransaction, refreshMerkleTree, refreshPauseState, chainId, CONTRACT_ADDRESS, USDC_ADDRESS, USDC_DECIMALS])
 
   /**
    * Withdraw from private balance with ZK proof
+   *
+   * With a relayer URL the relayer submits and pays gas; its fee comes out of amount.
    */
-  const withdraw = useCallback(async (amount: bigint, recipient: string) => {
+  const withdraw = useCallback(async (amount: bigint, recipient: string, relayerUrl?: string) => {
     if (!isConnected || !walletClient) {
       throw new Error('Wallet not connected')
     }
@@ -508,7 +537,9 @@ export function usePrivateUSDC() {
     // Find a note with sufficient balance (chain-filtered)
     const note = chainNotes.find((n) => BigInt(n.balance) >= amount)
     if (!note) {
-      throw new Error('Insufficient balance')
+      throw new MixvmError('INSUFFICIENT_NOTE_BALANCE', 'Insufficient balance', {
+        hint: 'No single note covers this amount; use a smaller amount',
+      })
     }
 
     setLoading(true)
@@ -521,10 +552,6 @@ export function usePrivateUSDC() {
       console.log('3. Note balance:', note.balance)
       console.log('4. Note leaf index:', note.leafIndex)
 
-      const signer = await getSigner()
-      if (!signer) throw new Error('Failed to get signer')
-      console.log('5. Signer obtained')
-
       // Import snarkjs dynamically
       const snarkjs = await import('snarkjs')
       console.log('6. snarkjs loaded')
@@ -541,7 +568,7 @@ export function usePrivateUSDC() {
       if (!providerRef.current) throw new Error('Provider not available')
       const contractTree = await buildMerkleTreeFromEvents(CONTRACT_ADDRESS, providerRef.current, {
         deployBlock: DEPLOY_BLOCK,
-        rpcUrl: RPC_URL,
+        chainId: chainConfig.chainId,
       })
       console.log('9. Merkle tree built')
 
@@ -577,9 +604,20 @@ export function usePrivateUSDC() {
       console.log('17. New balance:', newBalance.toString())
       console.log('18. New commitment:', newCommitment === 0n ? '0' : '0x' + newCommitment.toString(16).padStart(64, '0'))
 
-      // Convert recipient address to BigInt (remove 0x prefix)
-      const recipientBigInt = BigInt(recipient)
-      console.log('19. Recipient as BigInt:', recipientBigInt.toString())
+      // Relayed withdraws prove the relayer and fee in place of the recipient
+      const quote = relayerUrl ? await new RelayerClient(relayerUrl).quote(chainConfig.chainId, amount) : undefined
+      if (quote && quote.bridge.toLowerCase() !== CONTRACT_ADDRESS.toLowerCase()) {
+        throw new MixvmError('RELAYER_REJECTED', `Relayer serves bridge ${quote.bridge}, not ${CONTRACT_ADDRESS}`, {
+          hint: 'Use a relayer for this deployment, or withdraw from your wallet',
+        })
+      }
+      if (quote && quote.fee >= amount) {
+        throw new MixvmError('INVALID_RELAYER_FEE', 'Relayer fee is not below the amount', {
+          hint: 'Withdraw a larger amount, or withdraw from your wallet',
+        })
+      }
+      const recipientBigInt = quote ? relayerFeeBinding(recipient, quote.relayer, quote.fee) : BigInt(recipient)
+      console.log('19. Recipient signal:', recipientBigInt.toString(), quote ? `(relayer fee ${quote.fee})` : '')
 
       // Use contract's merkle root as ground truth (workaround for JS tree root mismatch)
       const contractRootBigInt = BigInt(contractMerkleRoot)
@@ -602,6 +640,18 @@ export function usePrivateUSDC() {
         merklePathIndices: merkleProof.pathIndices.map(i => i.toString()),
       }
 
+      // Pre-flight checks before spending time on the proof
+      const preflight = await preflightWithdraw(providerRef.current, CONTRACT_ADDRESS, {
+        amount,
+        nullifier,
+        merkleRoot: contractRootBigInt,
+        leafIndex: note.leafIndex,
+        leafCount: contractTree.getLeafCount(),
+        createsChange: newBalance > 0n,
+      })
+      console.log('19.1. Preflight:', preflight.checks.map(c => `${c.name}=${c.status}`).join(', '))
+      assertPreflight(preflight)
+
       console.log('20. Circuit input prepared')
       console.log('    - merkleRoot:', input.merkleRoot)
       console.log('    - nullifier:', input.nullifier)
@@ -627,12 +677,16 @@ export function usePrivateUSDC() {
           const isValid = await snarkjs.groth16.verify(vkey, publicSignals, proof)
           console.log('24. Off-chain proof verification:', isValid ? '✅ VALID' : '❌ INVALID')
           if (!isValid) {
-            throw new Error('Withdraw proof verification failed off-chain!')
+            throw new ProofError('PROOF_INVALID_LOCALLY', 'Proof verification failed off-chain', {
+              hint: 'Refresh your notes and the merkle tree, then try again',
+            })
           }
         } else {
           console.log('24. Verification key not found, skipping off-chain verification')
         }
       } catch (verifyErr) {
+        // An invalid proof would only revert on-chain; missing vkey etc. is not fatal
+        if (verifyErr instanceof ProofError) throw verifyErr
         console.warn('Off-chain verification skipped:', verifyErr)
       }
 
@@ -645,7 +699,7 @@ export function usePrivateUSDC() {
       // Create transaction - convert all BigInt to string for ethers.js
       // Contract signature: withdraw(address recipient, uint256 amount, bytes32 nullifier, bytes32 newCommitment, WithdrawProofData proof)
       // Flatten proof to uint256[8]: [pA[0], pA[1], pB[0][0], pB[0][1], pB[1][0], pB[1][1], pC[0], pC[1]]
-      const flatProof: bigint[] = [
+      const flatProof: PackedProof = [
         proofData.pA[0], proofData.pA[1],
         proofData.pB[0][0], proofData.pB[0][1],
         proofData.pB[1][0], proofData.pB[1][1],
@@ -653,19 +707,38 @@ export function usePrivateUSDC() {
       ]
 
       const iface = new ethers.Interface(CONTRACT_ABI)
-      const data = iface.encodeFunctionData('withdraw', [
-        recipient,  // address recipient
-        amount,     // uint256 amount
-        toBytes32(nullifier),      // bytes32 nullifier
-        toBytes32(newCommitment),  // bytes32 newCommitment
-        contractMerkleRoot,        // bytes32 merkleRoot (from contract)
-        flatProof.map((x: bigint) => x.toString()),
-      ])
-
-      const gasParams = await getGasParams(signer.provider!)
-      const tx = await signer.sendTransaction({ to: CONTRACT_ADDRESS, data, gasLimit: 3000000, ...gasParams } as Parameters<typeof signer.sendTransaction>[0])
+      let tx: { hash: string; wait: () => Promise<ethers.TransactionReceipt | null> }
+      if (quote && relayerUrl) {
+        const hash = await new RelayerClient(relayerUrl).submitWithdraw({
+          chainId: chainConfig.chainId,
+          recipient,
+          relayer: quote.relayer,
+          fee: quote.fee,
+          amount,
+          nullifier: toBytes32(nullifier),
+          newCommitment: toBytes32(newCommitment),
+          merkleRoot: contractMerkleRoot,
+          proof: flatProof,
+        })
+        const provider = providerRef.current
+        tx = { hash, wait: () => provider.waitForTransaction(hash, 1, 10 * 60_000) }
+      } else {
+        const signer = await getSigner()
+        if (!signer) throw new Error('Failed to get signer')
+        const data = iface.encodeFunctionData('withdraw', [
+          recipient,  // address recipient
+          amount,     // uint256 amount
+          toBytes32(nullifier),      // bytes32 nullifier
+          toBytes32(newCommitment),  // bytes32 newCommitment
+          contractMerkleRoot,        // bytes32 merkleRoot (from contract)
+          flatProof.map((x: bigint) => x.toString()),
+        ])
+
+        const gasParams = await getGasParams(signer.provider!)
+        tx = await signer.sendTransaction({ to: CONTRACT_ADDRESS, data, gasLimit: 3000000, ...gasParams } as Parameters<typeof signer.sendTransaction>[0])
+      }
 
-      console.log('26. TX sent:', tx.hash)
+      console.log('26. TX sent:', tx.hash, quote ? '(by relayer)' : '')
 
       // Add pending transaction
       addTransaction({
@@ -723,21 +796,21 @@ export function usePrivateUSDC() {
           txHash: tx.hash,
           nullifier: toBytes32(nullifier),
           newCommitment: toBytes32(newCommitment),
+          relayerFee: quote?.fee,
         }
       } else {
         console.error('27. TX failed!')
         updateTransaction(tx.hash, { status: 'failed' })
-        throw new Error('Withdraw transaction failed')
+        throw new ContractRevertError('REVERTED', 'Withdraw transaction failed', { txHash: tx.hash })
       }
     } catch (err) {
       console.error('=== WITHDRAW ERROR ===', err)
-      const message = err instanceof Error ? err.message : 'Withdraw failed'
-      setError(message)
+      setError(describeError(err, 'Withdraw'))
       throw err
     } finally {
       setLoading(false)
     }
-  }, [isConnected, walletClient, chainNotes, getSigner, setLoading, setError, addNote, removeNote, addTransaction, updateTransaction, CONTRACT_ADDRESS, USDC_DECIMALS, chainId])
+  }, [isConnected, walletClient, chainNotes, getSigner, setLoading, setError, addNote, removeNote, addTransaction, updateTransaction, CONTRACT_ADDRESS, USDC_DECIMALS, chainId, chainConfig.chainId])
 
   /**
    * Private transfer to another user with ZK proof
@@ -753,7 +826,9 @@ export function usePrivateUSDC() {
     // Find a note with sufficient balance (chain-filtered)
     const note = chainNotes.find((n) => BigInt(n.balance) >= amount)
     if (!note) {
-      throw new Error('Insufficient balance')
+      throw new MixvmError('INSUFFICIENT_NOTE_BALANCE', 'Insufficient balance', {
+        hint: 'No single note covers this amount; use a smaller amount',
+      })
     }
 
     setLoading(true)
@@ -777,7 +852,7 @@ export function usePrivateUSDC() {
       if (!providerRef.current) throw new Error('Provider not available')
       const contractTree = await buildMerkleTreeFromEvents(CONTRACT_ADDRESS, providerRef.current, {
         deployBlock: DEPLOY_BLOCK,
-        rpcUrl: RPC_URL,
+        chainId: chainConfig.chainId,
       })
       console.log('3.6. Contract tree built')
 
@@ -885,10 +960,13 @@ export function usePrivateUSDC() {
           const isValid = await snarkjs.groth16.verify(vkey, publicSignals, proof)
           console.log('Off-chain proof verification:', isValid ? '✅ VALID' : '❌ INVALID')
           if (!isValid) {
-            throw new Error('Proof verification failed off-chain!')
+            throw new ProofError('PROOF_INVALID_LOCALLY', 'Proof verification failed off-chain', {
+              hint: 'Refresh your notes and the merkle tree, then try again',
+            })
           }
         }
       } catch (verifyErr) {
+        if (verifyErr instanceof ProofError) throw verifyErr
         console.error('Off-chain verification error:', verifyErr)
       }
 
@@ -900,10 +978,10 @@ export function usePrivateUSDC() {
       let recipientViewingPubKey: Uint8Array | null = null
       let stealthDataForContract: StealthDataForContract | null = null
 
-      // Try StealthRegistry first - use JsonRpcProvider to avoid MetaMask issues
+      // Try StealthRegistry first - use the RPC pool to avoid MetaMask issues
       try {
         // Use dedicated provider for read calls (more reliable than MetaMask)
-        const readProvider = new ethers.JsonRpcProvider(STEALTH_REGISTRY_RPC, STEALTH_REGISTRY_CHAIN_ID)
+        const readProvider = getChainProvider(STEALTH_REGISTRY_CHAIN_ID)
         const stealthRegistry = new ethers.Contract(STEALTH_REGISTRY_ADDRESS, STEALTH_REGISTRY_ABI, readProvider)
 
         const isRegistered = await stealthRegistry.isUserRegistered(recipientAddress)
@@ -1168,7 +1246,7 @@ export function usePrivateUSDC() {
 
             // Test: verify contract is accessible by reading announcement count
             try {
-              const directProvider = new ethers.JsonRpcProvider(STEALTH_REGISTRY_RPC, STEALTH_REGISTRY_CHAIN_ID)
+              const directProvider = getChainProvider(STEALTH_REGISTRY_CHAIN_ID)
               const readRegistry = new ethers.Contract(
                 STEALTH_REGISTRY_ADDRESS,
                 ['function getAnnouncementCount() view returns (uint256)'],
@@ -1190,7 +1268,7 @@ export function usePrivateUSDC() {
             console.log('Attempting announce via contract method...')
             try {
               // Use direct provider for simulation first
-              const directProvider = new ethers.JsonRpcProvider(STEALTH_REGISTRY_RPC, STEALTH_REGISTRY_CHAIN_ID)
+              const directProvider = getChainProvider(STEALTH_REGISTRY_CHAIN_ID)
               const testRegistry = new ethers.Contract(STEALTH_REGISTRY_ADDRESS, STEALTH_REGISTRY_ABI, directProvider)
 
               // Simulate the call
@@ -1221,7 +1299,7 @@ export function usePrivateUSDC() {
             // Try to estimate gas using direct RPC (more reliable than MetaMask)
             let gasLimit = 800000n // Default high gas limit
             try {
-              const directProvider = new ethers.JsonRpcProvider(STEALTH_REGISTRY_RPC, STEALTH_REGISTRY_CHAIN_ID)
+              const directProvider = getChainProvider(STEALTH_REGISTRY_CHAIN_ID)
               const estimatedGas = await directProvider.estimateGas({
                 from: await signer.getAddress(),
                 to: STEALTH_REGISTRY_ADDRESS,
@@ -1236,7 +1314,7 @@ export function usePrivateUSDC() {
 
               // Try to simulate the call to get more details
               try {
-                const directProvider = new ethers.JsonRpcProvider(STEALTH_REGISTRY_RPC, STEALTH_REGISTRY_CHAIN_ID)
+                const directProvider = getChainProvider(STEALTH_REGISTRY_CHAIN_ID)
                 await directProvider.call({
                   from: await signer.getAddress(),
                   to: STEALTH_REGISTRY_ADDRESS,
@@ -1313,11 +1391,10 @@ export function usePrivateUSDC() {
         }
       } else {
         updateTransaction(tx.hash, { status: 'failed' })
-        throw new Error('Transfer transaction failed')
+        throw new ContractRevertError('REVERTED', 'Transfer transaction failed', { txHash: tx.hash })
       }
     } catch (err) {
-      const message = err instanceof Error ? err.message : 'Transfer failed'
-      setError(message)
+      setError(describeError(err, 'Transfer'))
       throw err
     } finally {
       setLoading(false)
@@ -1369,8 +1446,7 @@ export function usePrivateUSDC() {
       return tx.hash
     } catch (err) {
       console.error('=== WRAP USDC ERROR ===', err)
-      const message = err instanceof Error ? err.message : 'Wrap failed'
-      setError(message)
+      setError(describeError(err, 'Wrap'))
       throw err
     } finally {
       setLoading(false)
@@ -1398,6 +1474,7 @@ export function usePrivateUSDC() {
     address,
     chainId,
     circuitsLoaded,
+    pauseState,
 
     // Balance
     privateBalance,
@@ -1424,5 +1501,6 @@ export function usePrivateUSDC() {
     usdcDecimals: USDC_DECIMALS,
     isNativeUSDC: IS_NATIVE_USDC,
     refreshMerkleTree,
+    refreshPauseState,
   }
 }
@@ -5,14 +5,20 @@
  * - Base Sepolia (ERC20 USDC, LZ EID 40245)
  * - Ethereum Sepolia (ERC20 USDC, LZ EID 40161)
  * - Arbitrum Sepolia (ERC20 USDC, LZ EID 40231)
+ *
+ * Contract addresses, EIDs and CCTP domains come from deployments.ts,
+ * generated by scripts/deploy.ts.
  */
 
+import { DEPLOYMENTS } from "./deployments";
+
 export interface ChainConfig {
     id: number;
     name: string;
     shortName: string;
     lzEid: number; // LayerZero Endpoint ID
-    rpc: string;
+    rpc: string; // primary RPC (wallet config)
+    rpcs: string[]; // read endpoints for the failover pool, in preference order
     explorer: string;
     bridge: string; // PrivateLZBridge address
     deployBlock: number; // Block number when bridge contract was deployed
@@ -24,6 +30,12 @@ export interface ChainConfig {
     usdcDecimals: number;
     cctpDomain: number; // CCTP domain ID for this chain
     cctpMessageTransmitter: string; // MessageTransmitterV2 address for receiving CCTP messages
+    relayGas: {
+        // receiveMessage gas settings (fees are the node's suggestion times feeMultiplier)
+        gasLimit: number;
+        feeMultiplier?: number;
+        minPriorityFeeWei?: bigint;
+    };
     nativeCurrency: {
         name: string;
         symbol: string;
@@ -33,9 +45,9 @@ export interface ChainConfig {
 
 // LayerZero Endpoint IDs
 export const LZ_EIDS = {
-    baseSepolia: 40245,
-    ethereumSepolia: 40161,
-    arbitrumSepolia: 40231,
+    baseSepolia: DEPLOYMENTS.baseSepolia.lzEid,
+    ethereumSepolia: DEPLOYMENTS.ethereumSepolia.lzEid,
+    arbitrumSepolia: DEPLOYMENTS.arbitrumSepolia.lzEid,
 } as const;
 
 // LayerZero Endpoint address (same on all chains)
@@ -45,23 +57,14 @@ export const LZ_ENDPOINT = "0x6EDCE65403992e310A62460808c4b910D972f10f";
 export const CHAIN_CONFIGS: Record<number, ChainConfig> = {
     // Base Sepolia - ERC20 USDC
     84532: {
-        id: 84532,
+        ...DEPLOYMENTS.baseSepolia,
         name: "Base Sepolia",
         shortName: "Base",
-        lzEid: LZ_EIDS.baseSepolia,
         rpc: "https://sepolia.base.org",
+        rpcs: ["https://base-sepolia-rpc.publicnode.com", "https://sepolia.base.org", "https://base-sepolia.drpc.org"],
         explorer: "https://sepolia.basescan.org",
-        // PrivateLZBridge v10.1 (merkle tree fix)
-        bridge: "0x4cDf8DB3B884418db41fc1Eb15b3152262979AF1",
-        deployBlock: 37366200,
-        stealthRegistry: "0x5ceCfD0bF5E815D935E4b0b85F5a604B784CA6E5",
-        transferVerifier: "0xE961c624EB7fAFC6Fdea184C5BeC768dA5db495B",
-        withdrawVerifier: "0x4aC6108858A2ba9C715d3E1694d413b01919A043",
-        poseidonHasher: "0xF900978c52C9773C40Df173802f66922D57FDCec",
-        usdc: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
         usdcDecimals: 6,
-        cctpDomain: 6,
-        cctpMessageTransmitter: "0xE737e5cEBEEBa77EFE34D4aa090756590b1CE275",
+        relayGas: { gasLimit: 300000, feeMultiplier: 2, minPriorityFeeWei: 1000000n },
         nativeCurrency: {
             name: "Ether",
             symbol: "ETH",
@@ -70,23 +73,14 @@ export const CHAIN_CONFIGS: Record<number, ChainConfig> = {
     },
     // Arbitrum Sepolia - ERC20 USDC
     421614: {
-        id: 421614,
+        ...DEPLOYMENTS.arbitrumSepolia,
         name: "Arbitrum Sepolia",
         shortName: "Arbitrum",
-        lzEid: LZ_EIDS.arbitrumSepolia,
         rpc: "https://sepolia-rollup.arbitrum.io/rpc",
+        rpcs: ["https://sepolia-rollup.arbitrum.io/rpc", "https://arbitrum-sepolia-rpc.publicnode.com", "https://arbitrum-sepolia.drpc.org"],
         explorer: "https://sepolia.arbiscan.io",
-        // PrivateLZBridge v10.1 (merkle tree fix)
-        bridge: "0x976f28253965A5bA21ad8ada897CC8383cdF206F",
-        deployBlock: 240680000,
-        stealthRegistry: "",
-        transferVerifier: "0xA9FC0Ec2A133abFcf801d8ba4c4eb4fD0C0aF467",
-        withdrawVerifier: "0x55B4BcCdeF026c8cbF5AB495A85aa28F235a4Fed",
-        poseidonHasher: "0xB83e014c837763C4c86f21C194d7Fb613edFbE2b",
-        usdc: "0x75faf114eafb1BDbe2F0316DF893fd58CE46AA4d",
         usdcDecimals: 6,
-        cctpDomain: 3,
-        cctpMessageTransmitter: "0xE737e5cEBEEBa77EFE34D4aa090756590b1CE275",
+        relayGas: { gasLimit: 300000, feeMultiplier: 2, minPriorityFeeWei: 1000000n },
         nativeCurrency: {
             name: "Ether",
             symbol: "ETH",
@@ -95,23 +89,14 @@ export const CHAIN_CONFIGS: Record<number, ChainConfig> = {
     },
     // Ethereum Sepolia - ERC20 USDC
     11155111: {
-        id: 11155111,
+        ...DEPLOYMENTS.ethereumSepolia,
         name: "Ethereum Sepolia",
         shortName: "Sepolia",
-        lzEid: LZ_EIDS.ethereumSepolia,
         rpc: "https://ethereum-sepolia-rpc.publicnode.com",
+        rpcs: ["https://ethereum-sepolia-rpc.publicnode.com", "https://sepolia.drpc.org", "https://rpc.sepolia.org"],
         explorer: "https://sepolia.etherscan.io",
-        // PrivateLZBridge v10.1 (merkle tree fix)
-        bridge: "0xBe5233d68db3329c62958157854e1FE483d1b4c9",
-        deployBlock: 10213180,
-        stealthRegistry: "",
-        transferVerifier: "0x1F17d25E82B24326D899Cc17b75F7FF3a263f56b",
-        withdrawVerifier: "0x96B97C487506813689092b0DD561a2052E7b25C4",
-        poseidonHasher: "0xD35f2b612F96149f9869d8Db2B0a63Bef523cb0b",
-        usdc: "0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238",
         usdcDecimals: 6,
-        cctpDomain: 0,
-        cctpMessageTransmitter: "0xE737e5cEBEEBa77EFE34D4aa090756590b1CE275",
+        relayGas: { gasLimit: 300000, feeMultiplier: 2, minPriorityFeeWei: 1000000n },
         nativeCurrency: {
             name: "Ether",
             symbol: "ETH",
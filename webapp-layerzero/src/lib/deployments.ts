@@ -0,0 +1,60 @@
+// Generated by scripts/deploy.ts from deployed_addresses.json. Do not edit.
+
+export interface Deployment {
+    id: number;
+    lzEid: number;
+    bridge: string;
+    deployBlock: number;
+    stealthRegistry: string;
+    transferVerifier: string;
+    withdrawVerifier: string;
+    poseidonHasher: string;
+    usdc: string;
+    cctpDomain: number;
+    cctpMessageTransmitter: string;
+}
+
+export const DEPLOYMENTS_VERSION = "v10.2 - CCTP V2 Return Fix + Merkle Tree Fix + On-Chain Proof Verification";
+
+// Keyed by network name
+export const DEPLOYMENTS: Record<string, Deployment> = {
+    baseSepolia: {
+        id: 84532,
+        lzEid: 40245,
+        bridge: "0x4cDf8DB3B884418db41fc1Eb15b3152262979AF1",
+        deployBlock: 37366200,
+        stealthRegistry: "0x5ceCfD0bF5E815D935E4b0b85F5a604B784CA6E5",
+        transferVerifier: "0xE961c624EB7fAFC6Fdea184C5BeC768dA5db495B",
+        withdrawVerifier: "0x4aC6108858A2ba9C715d3E1694d413b01919A043",
+        poseidonHasher: "0xF900978c52C9773C40Df173802f66922D57FDCec",
+        usdc: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+        cctpDomain: 6,
+        cctpMessageTransmitter: "0xE737e5cEBEEBa77EFE34D4aa090756590b1CE275",
+    },
+    ethereumSepolia: {
+        id: 11155111,
+        lzEid: 40161,
+        bridge: "0xBe5233d68db3329c62958157854e1FE483d1b4c9",
+        deployBlock: 10213180,
+        stealthRegistry: "",
+        transferVerifier: "0x1F17d25E82B24326D899Cc17b75F7FF3a263f56b",
+        withdrawVerifier: "0x96B97C487506813689092b0DD561a2052E7b25C4",
+        poseidonHasher: "0xD35f2b612F96149f9869d8Db2B0a63Bef523cb0b",
+        usdc: "0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238",
+        cctpDomain: 0,
+        cctpMessageTransmitter: "0xE737e5cEBEEBa77EFE34D4aa090756590b1CE275",
+    },
+    arbitrumSepolia: {
+        id: 421614,
+        lzEid: 40231,
+        bridge: "0x976f28253965A5bA21ad8ada897CC8383cdF206F",
+        deployBlock: 240680000,
+        stealthRegistry: "",
+        transferVerifier: "0xA9FC0Ec2A133abFcf801d8ba4c4eb4fD0C0aF467",
+        withdrawVerifier: "0x55B4BcCdeF026c8cbF5AB495A85aa28F235a4Fed",
+        poseidonHasher: "0xB83e014c837763C4c86f21C194d7Fb613edFbE2b",
+        usdc: "0x75faf114eafb1BDbe2F0316DF893fd58CE46AA4d",
+        cctpDomain: 3,
+        cctpMessageTransmitter: "0xE737e5cEBEEBa77EFE34D4aa090756590b1CE275",
+    },
+};
@@ -1,5 +1,9 @@
 import { ethers } from 'ethers'
 import { buildPoseidon } from 'circomlibjs'
+import { bridgeEventTopics, parseBridgeLog } from '../../../sdk/src/events'
+import { fetchLogs, assertContiguousLeaves } from '../../../sdk/src/logs'
+import { getChainProvider } from './rpc'
+import { loadTreeCache, saveTreeCache, clearTreeCache } from './treeCache'
 
 // Poseidon hash instance (initialized lazily)
 let poseidonInstance: any = null
@@ -33,18 +37,35 @@ export interface MerkleProof {
   pathIndices: number[]
 }
 
+export interface MerkleTreeState {
+  depth: number
+  leaves: string[]
+  filledSubtrees: string[]
+  nodes: [number, string][][]  // nodes[i] holds level i + 1
+  root: string
+}
+
+/**
+ * Incremental sparse merkle tree mirroring the contract's filledSubtrees/zeros
+ * insertion. Only nodes with a leaf below them are stored, so inserts and
+ * proofs are O(depth) hashes.
+ */
 export class MerkleTree {
   private depth: number
   private leaves: bigint[]
   private zeros: bigint[]
-  private filledSubtrees: Map<number, bigint>
+  private filledSubtrees: bigint[]
+  private nodes: Map<number, bigint>[]
+  private root: bigint
 
   constructor(depth: number) {
     this.depth = depth
     this.leaves = []
     this.zeros = []
-    this.filledSubtrees = new Map()
     this.initZeros()
+    this.filledSubtrees = this.zeros.slice(0, depth)
+    this.nodes = Array.from({ length: depth + 1 }, () => new Map<number, bigint>())
+    this.root = this.zeros[depth]
   }
 
   private initZeros() {
@@ -54,13 +75,13 @@ export class MerkleTree {
       currentZero = poseidonHash([currentZero, currentZero])
       this.zeros.push(currentZero)
     }
-    for (let i = 0; i < this.depth; i++) {
-      this.filledSubtrees.set(i, this.zeros[i])
-    }
   }
 
   insert(commitment: bigint): number {
     const leafIndex = this.leaves.length
+    if (leafIndex >= 2 ** this.depth) {
+      throw new Error('Tree is full')
+    }
     this.leaves.push(commitment)
 
     let currentHash = commitment
@@ -68,34 +89,25 @@ export class MerkleTree {
 
     for (let level = 0; level < this.depth; level++) {
       if (currentIndex % 2 === 0) {
-        this.filledSubtrees.set(level, currentHash)
+        this.filledSubtrees[level] = currentHash
         currentHash = poseidonHash([currentHash, this.zeros[level]])
       } else {
-        const left = this.filledSubtrees.get(level) || this.zeros[level]
-        currentHash = poseidonHash([left, currentHash])
+        currentHash = poseidonHash([this.filledSubtrees[level], currentHash])
       }
       currentIndex = Math.floor(currentIndex / 2)
+      this.nodes[level + 1].set(currentIndex, currentHash)
     }
 
+    this.root = currentHash
     return leafIndex
   }
 
+  getLeafCount(): number {
+    return this.leaves.length
+  }
+
   getRoot(): bigint {
-    if (this.leaves.length === 0) {
-      return this.zeros[this.depth]
-    }
-    let currentHash = this.leaves[this.leaves.length - 1]
-    let currentIndex = this.leaves.length - 1
-    for (let level = 0; level < this.depth; level++) {
-      if (currentIndex % 2 === 0) {
-        currentHash = poseidonHash([currentHash, this.zeros[level]])
-      } else {
-        const left = this.filledSubtrees.get(level) || this.zeros[level]
-        currentHash = poseidonHash([left, currentHash])
-      }
-      currentIndex = Math.floor(currentIndex / 2)
-    }
-    return currentHash
+    return this.root
   }
 
   getProof(leafIndex: number): MerkleProof {
@@ -111,80 +123,155 @@ export class MerkleTree {
       const isLeft = currentIndex % 2 === 0
       const siblingIndex = isLeft ? currentIndex + 1 : currentIndex - 1
 
-      let sibling: bigint
-      // At level 0, check if sibling leaf exists
-      if (level === 0) {
-        sibling = siblingIndex < this.leaves.length ? this.leaves[siblingIndex] : this.zeros[0]
-      } else {
-        // For higher levels, compute the sibling node
-        sibling = this.computeNodeAt(siblingIndex, level)
-      }
-
-      pathElements.push(sibling)
+      pathElements.push(this.getNode(level, siblingIndex))
       pathIndices.push(isLeft ? 0 : 1)  // 0 = current is on left, 1 = current is on right
       currentIndex = Math.floor(currentIndex / 2)
     }
 
     return {
-      root: this.getRoot(),
+      root: this.root,
       pathElements,
       pathIndices,
     }
   }
 
-  // Compute node hash at a given level and index
-  private computeNodeAt(index: number, level: number): bigint {
+  // Stored node at a given level and index, or the zero value for empty subtrees
+  private getNode(level: number, index: number): bigint {
     if (level === 0) {
       return index < this.leaves.length ? this.leaves[index] : this.zeros[0]
     }
+    return this.nodes[level].get(index) ?? this.zeros[level]
+  }
 
-    const leftChildIdx = index * 2
-    const rightChildIdx = leftChildIdx + 1
-
-    const left = this.computeNodeAt(leftChildIdx, level - 1)
-    const right = this.computeNodeAt(rightChildIdx, level - 1)
-
-    return poseidonHash([left, right])
+  serialize(): MerkleTreeState {
+    return {
+      depth: this.depth,
+      leaves: this.leaves.map(l => l.toString()),
+      filledSubtrees: this.filledSubtrees.map(n => n.toString()),
+      nodes: this.nodes.slice(1).map(level => [...level.entries()].map(([i, n]) => [i, n.toString()] as [number, string])),
+      root: this.root.toString(),
+    }
   }
 
+  // Restore a tree exported with serialize() without rehashing
+  static restore(state: MerkleTreeState): MerkleTree {
+    if (state.nodes.length !== state.depth) {
+      throw new Error('Invalid merkle tree state: node levels do not match depth')
+    }
+    const tree = new MerkleTree(state.depth)
+    tree.leaves = state.leaves.map(l => BigInt(l))
+    tree.filledSubtrees = state.filledSubtrees.map(n => BigInt(n))
+    tree.nodes = [
+      new Map<number, bigint>(),
+      ...state.nodes.map(level => new Map(level.map(([i, n]) => [i, BigInt(n)] as [number, bigint]))),
+    ]
+    tree.root = BigInt(state.root)
+    return tree
+  }
 }
 
-// Contract ABI for all events that add commitments to the PrivateLZBridge tree
-const CONTRACT_EVENTS_ABI = [
-  'event Deposited(address indexed user, uint256 amount, bytes32 indexed commitment, uint256 leafIndex)',
-  'event CrossChainTransferInitiated(uint32 indexed dstEid, bytes32 indexed recipientCommitment, uint256 amount, bytes32 nullifier, bytes32 newSenderCommitment, uint256 senderLeafIndex, bytes32 guid)',
-  'event CrossChainTransferReceived(uint32 indexed srcEid, bytes32 indexed commitment, uint256 amount, uint256 leafIndex)',
-  'event Withdrawn(address indexed recipient, uint256 amount, bytes32 indexed nullifier, bytes32 newCommitment, uint256 newLeafIndex)',
-]
-
 interface CommitmentEvent {
   commitment: bigint
   leafIndex: number
-  blockNumber: number
-  logIndex: number
-  type: 'deposit' | 'cross_chain_send' | 'cross_chain_receive' | 'withdraw'
+  type: 'deposit' | 'cross_chain_send' | 'cross_chain_receive' | 'withdraw_change' | 'refund'
+}
+
+const ROOT_ABI = [
+  'function getLastRoot() view returns (bytes32)',
+  'function isKnownRoot(bytes32 root) view returns (bool)',
+]
+
+// Turn bridge logs into leaf insertions
+function parseCommitmentEvents(logs: ethers.Log[]): CommitmentEvent[] {
+  const commitmentEvents: CommitmentEvent[] = []
+
+  for (const log of logs) {
+    // Current and v10.2 event signatures
+    const parsed = parseBridgeLog(log)
+    if (!parsed) continue
+
+    switch (parsed.name) {
+      case 'Deposited':
+        // deposit() adds commitment to tree
+        commitmentEvents.push({
+          commitment: BigInt(parsed.args.commitment),
+          leafIndex: Number(parsed.args.leafIndex),
+          type: 'deposit',
+        })
+        break
+      case 'CrossChainTransferInitiated':
+        // initiateTransfer() always adds newSenderCommitment to tree (even when zero)
+        commitmentEvents.push({
+          commitment: BigInt(parsed.args.newSenderCommitment),
+          leafIndex: Number(parsed.args.senderLeafIndex),
+          type: 'cross_chain_send',
+        })
+        break
+      case 'CrossChainTransferReceived':
+        // lzReceive() adds commitment to tree
+        commitmentEvents.push({
+          commitment: BigInt(parsed.args.commitment),
+          leafIndex: Number(parsed.args.leafIndex),
+          type: 'cross_chain_receive',
+        })
+        break
+      case 'Withdrawn':
+        // withdraw() only inserts a non-zero change commitment
+        if (parsed.args.newCommitment !== ethers.ZeroHash) {
+          commitmentEvents.push({
+            commitment: BigInt(parsed.args.newCommitment),
+            leafIndex: Number(parsed.args.newLeafIndex),
+            type: 'withdraw_change',
+          })
+        }
+        break
+      case 'TransferRefunded':
+        // The failure ack of an undeliverable transfer adds the sender's refund commitment
+        commitmentEvents.push({
+          commitment: BigInt(parsed.args.refundCommitment),
+          leafIndex: Number(parsed.args.leafIndex),
+          type: 'refund',
+        })
+        break
+    }
+  }
+
+  return commitmentEvents
+}
+
+// Local root matches the bridge's last root or one in its root history
+async function isRootKnownOnChain(contractAddress: string, provider: ethers.Provider, root: bigint): Promise<boolean> {
+  const contract = new ethers.Contract(contractAddress, ROOT_ABI, provider)
+  const rootHex = '0x' + root.toString(16).padStart(64, '0')
+  const lastRoot: string = await contract.getLastRoot()
+  if (lastRoot.toLowerCase() === rootHex) return true
+  return contract.isKnownRoot(rootHex)
 }
 
 /**
  * Build merkle tree from contract events
- * Queries both Deposited and PrivateTransfer events
+ * Queries every event that inserts a leaf (deposits, change notes, received transfers, refunds)
+ * Throws LogFetchError if a block range cannot be fetched and LeafGapError if
+ * leaf indices are not contiguous, rather than building a wrong tree.
+ *
+ * Leaves are cached in IndexedDB per (chainId, bridge): later builds only
+ * scan blocks since the last sync. If the result no longer matches the chain
+ * (stale cache, reorg) the cache is dropped and the tree rebuilt from the
+ * deploy block.
  */
 export async function buildMerkleTreeFromEvents(
   contractAddress: string,
   provider: ethers.Provider,
-  options?: { deployBlock?: number, rpcUrl?: string }
+  options?: { deployBlock?: number, chainId?: number, useCache?: boolean }
 ): Promise<MerkleTree> {
   console.log('[Merkle] Starting tree build...')
 
   // Initialize Poseidon first
   await initPoseidon()
 
-  const tree = new MerkleTree(10)
-
-  // Use direct RPC to avoid MetaMask rate limiting
-  const rpcUrl = options?.rpcUrl || 'https://base-sepolia-rpc.publicnode.com'
-  const rpcProvider = new ethers.JsonRpcProvider(rpcUrl)
-  const contract = new ethers.Contract(contractAddress, CONTRACT_EVENTS_ABI, rpcProvider)
+  // Use the chain's RPC pool rather than the wallet to avoid MetaMask rate limiting
+  const chainId = options?.chainId ?? 84532
+  const rpcProvider = getChainProvider(chainId)
 
   // Get current block number
   console.log('[Merkle] Getting current block...')
@@ -193,130 +280,69 @@ export async function buildMerkleTreeFromEvents(
 
   // Scan from contract deploy block to catch all events
   const CONTRACT_DEPLOY_BLOCK = options?.deployBlock ?? Math.max(0, currentBlock - 50000)
-  const CHUNK_SIZE = 10000
-
-  // Collect all commitment events
-  const commitmentEvents: CommitmentEvent[] = []
-
-  console.log(`[Merkle] Querying from block ${CONTRACT_DEPLOY_BLOCK} to ${currentBlock} in chunks of ${CHUNK_SIZE}`)
-
-  // Query in chunks to avoid RPC limits
-  for (let fromBlock = CONTRACT_DEPLOY_BLOCK; fromBlock <= currentBlock; fromBlock += CHUNK_SIZE) {
-    const toBlock = Math.min(fromBlock + CHUNK_SIZE - 1, currentBlock)
 
-    try {
-      // Query Deposited events - deposit() adds commitment to tree
-      const depositFilter = contract.filters.Deposited()
-      const depositEvents = await contract.queryFilter(depositFilter, fromBlock, toBlock)
-
-      for (const event of depositEvents) {
-        const e = event as ethers.EventLog
-        if (e.args?.commitment) {
-          commitmentEvents.push({
-            commitment: BigInt(e.args.commitment),
-            leafIndex: Number(e.args.leafIndex),
-            blockNumber: e.blockNumber,
-            logIndex: e.index,
-            type: 'deposit',
-          })
-        }
-      }
-
-      // Query CrossChainTransferInitiated events - initiateTransfer() adds newSenderCommitment to tree
-      const cctSendFilter = contract.filters.CrossChainTransferInitiated()
-      const cctSendEvents = await contract.queryFilter(cctSendFilter, fromBlock, toBlock)
-
-      for (const event of cctSendEvents) {
-        const e = event as ethers.EventLog
-        if (e.args?.newSenderCommitment) {
-          commitmentEvents.push({
-            commitment: BigInt(e.args.newSenderCommitment),
-            leafIndex: Number(e.args.senderLeafIndex),
-            blockNumber: e.blockNumber,
-            logIndex: e.index,
-            type: 'cross_chain_send',
-          })
-        }
-      }
-
-      // Query CrossChainTransferReceived events - lzReceive() adds commitment to tree
-      const cctRecvFilter = contract.filters.CrossChainTransferReceived()
-      const cctRecvEvents = await contract.queryFilter(cctRecvFilter, fromBlock, toBlock)
+  // Resume from the cached leaves when there are any
+  const useCache = options?.useCache !== false
+  const cached = useCache ? await loadTreeCache(chainId, contractAddress) : undefined
+  const fromCache = cached !== undefined && cached.nextBlock > CONTRACT_DEPLOY_BLOCK
+  const leaves = fromCache ? cached.leaves.map(l => BigInt(l)) : []
+  const fromBlock = fromCache ? cached.nextBlock : CONTRACT_DEPLOY_BLOCK
+  if (fromCache) {
+    console.log(`[Merkle] Loaded ${leaves.length} cached leaves up to block ${fromBlock - 1}`)
+  }
 
-      for (const event of cctRecvEvents) {
-        const e = event as ethers.EventLog
-        if (e.args?.commitment) {
-          commitmentEvents.push({
-            commitment: BigInt(e.args.commitment),
-            leafIndex: Number(e.args.leafIndex),
-            blockNumber: e.blockNumber,
-            logIndex: e.index,
-            type: 'cross_chain_receive',
-          })
-        }
+  console.log(`[Merkle] Querying from block ${fromBlock} to ${currentBlock}`)
+
+  // One getLogs per chunk for all five events, under current and v10.2 signatures
+  const topics = [[
+    'Deposited',
+    'CrossChainTransferInitiated',
+    'CrossChainTransferReceived',
+    'Withdrawn',
+    'TransferRefunded',
+  ].flatMap(name => bridgeEventTopics(name))]
+
+  let chunks = 0
+  const logs = fromBlock > currentBlock ? [] : await fetchLogs(rpcProvider, { address: contractAddress, topics }, {
+    fromBlock,
+    toBlock: currentBlock,
+    onChunk: (chunkFrom) => {
+      // Log progress every 10 chunks
+      if (++chunks % 10 === 0) {
+        console.log(`[Merkle] Progress: block ${chunkFrom}`)
       }
+    },
+  })
 
-      // Query Withdrawn events - withdraw() may insert a change commitment
-      const withdrawFilter = contract.filters.Withdrawn()
-      const withdrawEvents = await contract.queryFilter(withdrawFilter, fromBlock, toBlock)
+  // Collect commitment events not already in the cached leaves
+  const commitmentEvents = parseCommitmentEvents(logs).filter(e => e.leafIndex >= leaves.length)
 
-      for (const event of withdrawEvents) {
-        const e = event as ethers.EventLog
-        if (e.args?.newCommitment && e.args.newCommitment !== ethers.ZeroHash) {
-          commitmentEvents.push({
-            commitment: BigInt(e.args.newCommitment),
-            leafIndex: Number(e.args.newLeafIndex),
-            blockNumber: e.blockNumber,
-            logIndex: e.index,
-            type: 'withdraw_change',
-          })
-        }
-      }
+  console.log(`[Merkle] New events found: ${commitmentEvents.length}`)
 
-      // Log progress every 10 chunks
-      if ((fromBlock - CONTRACT_DEPLOY_BLOCK) % (CHUNK_SIZE * 10) === 0) {
-        console.log(`[Merkle] Progress: block ${fromBlock}, found ${commitmentEvents.length} events so far`)
-      }
-    } catch (err) {
-      console.warn(`[Merkle] Chunk ${fromBlock}-${toBlock} failed, skipping...`)
-    }
-  }
+  // Order by leaf index and refuse to build a tree with missing leaves
+  const ordered = assertContiguousLeaves(commitmentEvents, leaves.length)
+  leaves.push(...ordered.map(e => e.commitment))
 
-  console.log(`[Merkle] Total events found: ${commitmentEvents.length}`)
+  console.log(`[Merkle] Inserting ${leaves.length} commitments into tree`)
 
-  // Sort by block number and log index to get correct insertion order
-  commitmentEvents.sort((a, b) => {
-    if (a.blockNumber !== b.blockNumber) {
-      return a.blockNumber - b.blockNumber
-    }
-    return a.logIndex - b.logIndex
-  })
-
-  // All PrivateLZBridge events have explicit leafIndex, verify ordering
-  for (let i = 0; i < commitmentEvents.length; i++) {
-    const event = commitmentEvents[i]
-    if (i > 0 && event.leafIndex <= commitmentEvents[i - 1].leafIndex) {
-      console.warn(`[Merkle] LeafIndex ordering issue at position ${i}: ${event.leafIndex}`)
-    }
+  const tree = new MerkleTree(10)
+  for (const leaf of leaves) {
+    tree.insert(leaf)
   }
 
-  // Log any gaps in leaf indices
-  if (commitmentEvents.length > 0) {
-    const firstIdx = commitmentEvents[0].leafIndex
-    const lastIdx = commitmentEvents[commitmentEvents.length - 1].leafIndex
-    const expectedCount = lastIdx - firstIdx + 1
-    if (firstIdx !== 0) {
-      console.warn(`[Merkle] Missing events for leaf indices 0-${firstIdx - 1}`)
-    }
-    if (commitmentEvents.length !== expectedCount) {
-      console.warn(`[Merkle] Gap detected: have ${commitmentEvents.length} events for range ${firstIdx}-${lastIdx}`)
-    }
+  const known = await isRootKnownOnChain(contractAddress, rpcProvider, tree.getRoot())
+  if (!known && fromCache) {
+    console.warn('[Merkle] Cached tree does not match on-chain root, rebuilding from deploy block')
+    await clearTreeCache(chainId, contractAddress)
+    return buildMerkleTreeFromEvents(contractAddress, provider, { ...options, useCache: false })
   }
-
-  console.log(`[Merkle] Inserting ${commitmentEvents.length} commitments into tree`)
-
-  for (const event of commitmentEvents) {
-    tree.insert(event.commitment)
+  if (known) {
+    await saveTreeCache(chainId, contractAddress, {
+      nextBlock: currentBlock + 1,
+      leaves: leaves.map(l => l.toString()),
+    })
+  } else {
+    console.warn('[Merkle] Local root is not known on-chain; not caching this tree')
   }
 
   console.log('[Merkle] Tree build complete, root:', '0x' + tree.getRoot().toString(16).padStart(64, '0'))
@@ -330,7 +356,7 @@ export async function getMerkleProof(
   leafIndex: number,
   contractAddress: string,
   provider: ethers.Provider,
-  options?: { deployBlock?: number, rpcUrl?: string }
+  options?: { deployBlock?: number, chainId?: number, useCache?: boolean }
 ): Promise<MerkleProof> {
   const tree = await buildMerkleTreeFromEvents(contractAddress, provider, options)
   return tree.getProof(leafIndex)
@@ -0,0 +1,19 @@
+/**
+ * Relayer URL chosen in Settings, kept in localStorage. Requests go through
+ * the SDK's RelayerClient (sdk/src/relayer.ts).
+ */
+
+const URL_KEY = 'mixvm_relayer_url'
+
+/**
+ * Relayer URL from Settings ('' = withdraw from the wallet)
+ */
+export function loadRelayerUrl(): string {
+  return localStorage.getItem(URL_KEY) ?? ''
+}
+
+export function saveRelayerUrl(url: string) {
+  const trimmed = url.trim().replace(/\/+$/, '')
+  if (trimmed) localStorage.setItem(URL_KEY, trimmed)
+  else localStorage.removeItem(URL_KEY)
+}
@@ -10,6 +10,12 @@ interface PrivateNote {
   chainId?: number
 }
 
+// Refund note of a cross-chain transfer, saved before the transfer is sent.
+// Not spendable until a failed delivery inserts it on the source chain.
+interface RefundNote extends Omit<PrivateNote, 'leafIndex'> {
+  txHash?: string // set once the transfer is sent
+}
+
 interface Transaction {
   type: 'deposit' | 'transfer' | 'withdraw' | 'receive'
   amount: string
@@ -28,6 +34,7 @@ interface SDKState {
   // Balance state
   privateBalance: string
   notes: PrivateNote[]
+  refundNotes: RefundNote[]
 
   // Transaction history
   transactions: Transaction[]
@@ -45,6 +52,8 @@ interface SDKState {
   setNotes: (notes: PrivateNote[]) => void
   addNote: (note: PrivateNote) => void
   removeNote: (commitment: string) => void
+  addRefundNote: (note: RefundNote) => void
+  removeRefundNote: (commitment: string) => void
   addTransaction: (tx: Transaction) => void
   updateTransaction: (txHash: string, updates: Partial<Transaction>) => void
   setKeys: (viewing: string, spendingX: string, spendingY: string) => void
@@ -58,6 +67,7 @@ const initialState = {
   error: null,
   privateBalance: '0',
   notes: [],
+  refundNotes: [],
   transactions: [],
   viewingPrivKey: null,
   spendingPubKeyX: null,
@@ -95,6 +105,20 @@ export const useSDKStore = create<SDKState>()(
           return { notes: newNotes, privateBalance: newBalance }
         }),
 
+      // Refund notes don't count towards privateBalance
+      addRefundNote: (note) =>
+        set((state) => ({
+          refundNotes: [
+            ...state.refundNotes.filter((n) => n.commitment !== note.commitment),
+            note,
+          ],
+        })),
+
+      removeRefundNote: (commitment) =>
+        set((state) => ({
+          refundNotes: state.refundNotes.filter((n) => n.commitment !== commitment),
+        })),
+
       addTransaction: (tx) =>
         set((state) => ({
           transactions: [tx, ...state.transactions].slice(0, 50), // Keep last 50
@@ -127,6 +151,7 @@ export const useSDKStore = create<SDKState>()(
       name: 'mixvm-sdk-storage',
       partialize: (state) => ({
         notes: state.notes,
+        refundNotes: state.refundNotes,
         transactions: state.transactions,
         privateBalance: state.privateBalance,
         // Don't persist keys in localStorage for security
@@ -0,0 +1,81 @@
+import { TransferTracker } from '../../../sdk/src/tracker'
+import type { TrackedTransfer, TransferState, TransferStore } from '../../../sdk/src/types'
+import { CHAIN_CONFIGS } from './chains'
+import { getChainProvider } from './rpc'
+
+/**
+ * Cross-chain transfer tracking for the app: the SDK's TransferTracker over
+ * every configured chain, persisted in localStorage so pending transfers
+ * survive a reload.
+ */
+
+export type { TrackedTransfer, TransferState } from '../../../sdk/src/types'
+
+const STORAGE_KEY = 'mixvm_transfers'
+
+export const TRANSFER_STATE_LABELS: Record<TransferState, string> = {
+  initiated: 'Waiting for LayerZero delivery',
+  lz_delivered: 'Delivered, waiting for CCTP attestation',
+  cctp_attested: 'Attested, waiting for USDC mint',
+  usdc_minted: 'USDC minted',
+  completed: 'Completed',
+  refunded: 'Refunded',
+  stuck: 'Stuck',
+  failed: 'Failed',
+}
+
+// ============ Storage ============
+
+export function loadTransfers(): TrackedTransfer[] {
+  try {
+    const data = localStorage.getItem(STORAGE_KEY)
+    return data ? JSON.parse(data) : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Transfer store in localStorage, shared by the tracker and the page
+ */
+export class LocalStorageTransferStore implements TransferStore {
+  async get(id: string): Promise<TrackedTransfer | undefined> {
+    return loadTransfers().find(t => t.id === id)
+  }
+
+  async list(): Promise<TrackedTransfer[]> {
+    return loadTransfers()
+  }
+
+  async put(transfer: TrackedTransfer): Promise<void> {
+    const all = loadTransfers()
+    // Keep context written by updateTransferContext during a poll
+    const stored = all.find(t => t.id === transfer.id)
+    if (stored?.context) transfer.context = { ...stored.context, ...transfer.context }
+    localStorage.setItem(STORAGE_KEY, JSON.stringify([...all.filter(t => t.id !== transfer.id), transfer]))
+  }
+}
+
+/**
+ * Merge caller data into a transfer's context
+ */
+export function updateTransferContext(id: string, context: Record<string, string>) {
+  const all = loadTransfers()
+  const transfer = all.find(t => t.id === id)
+  if (!transfer) return
+  transfer.context = { ...transfer.context, ...context }
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(all))
+}
+
+// ============ Tracker ============
+
+export const transferTracker = new TransferTracker({
+  chains: Object.values(CHAIN_CONFIGS).map(chain => ({
+    eid: chain.lzEid,
+    provider: getChainProvider(chain.id),
+    bridgeAddress: chain.bridge,
+    cctpDomain: chain.cctpDomain,
+    messageTransmitter: chain.cctpMessageTransmitter,
+  })),
+  store: new LocalStorageTransferStore(),
+})
@@ -0,0 +1,100 @@
+/**
+ * IndexedDB cache of merkle tree leaves per (chainId, bridge), so proofs
+ * only need the logs since the last sync instead of a full scan from the
+ * deploy block. Same role as FileTreeCache in sdk/src/cache.ts.
+ *
+ * Leaves are public on-chain data. If IndexedDB is unavailable (private
+ * browsing, old browsers) every call degrades to "no cache".
+ */
+
+const DB_NAME = 'mixvm'
+const DB_VERSION = 1
+const STORE = 'merkleTrees'
+
+export interface TreeCursor {
+  nextBlock: number   // first block not yet scanned
+  leaves: string[]    // leaves 0..n-1 as decimal strings
+}
+
+interface CachedTree extends TreeCursor {
+  key: string
+  chainId: number
+  bridge: string
+  updatedAt: number
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB not available'))
+        return
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE)) {
+          request.result.createObjectStore(STORE, { keyPath: 'key' })
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+    // Allow a retry on the next call if opening failed
+    dbPromise.catch(() => { dbPromise = null })
+  }
+  return dbPromise
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDb()
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(STORE, mode)
+    const request = fn(tx.objectStore(STORE))
+    tx.oncomplete = () => resolve(request.result as T)
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+function cacheKey(chainId: number, bridge: string): string {
+  return `${chainId}-${bridge.toLowerCase()}`
+}
+
+export async function loadTreeCache(chainId: number, bridge: string): Promise<TreeCursor | undefined> {
+  try {
+    const cached = await withStore<CachedTree | undefined>('readonly', store => store.get(cacheKey(chainId, bridge)))
+    return cached ? { nextBlock: cached.nextBlock, leaves: cached.leaves } : undefined
+  } catch (err) {
+    console.warn('[TreeCache] Load failed, scanning without cache:', err)
+    return undefined
+  }
+}
+
+export async function saveTreeCache(chainId: number, bridge: string, cursor: TreeCursor) {
+  const entry: CachedTree = {
+    key: cacheKey(chainId, bridge),
+    chainId,
+    bridge: bridge.toLowerCase(),
+    nextBlock: cursor.nextBlock,
+    leaves: cursor.leaves,
+    updatedAt: Date.now(),
+  }
+  try {
+    await withStore('readwrite', store => store.put(entry))
+  } catch (err) {
+    console.warn('[TreeCache] Save failed:', err)
+  }
+}
+
+export async function clearTreeCache(chainId: number, bridge: string) {
+  try {
+    await withStore('readwrite', store => store.delete(cacheKey(chainId, bridge)))
+  } catch (err) {
+    console.warn('[TreeCache] Clear failed:', err)
+  }
+}
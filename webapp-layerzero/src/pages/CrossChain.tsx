@@ -1,6 +1,7 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { ethers } from 'ethers'
 import { usePrivateUSDC } from '../hooks/usePrivateUSDC'
+import { useSDKStore } from '../lib/store'
 import { useWalletClient, useAccount, useChainId, useSwitchChain } from 'wagmi'
 import { generateStealthTransfer } from '../lib/stealth'
 import { secp256k1 } from '@noble/curves/secp256k1'
@@ -10,36 +11,102 @@ import {
   getDestinationChains,
   parseUSDC,
   getLzEid,
+  formatUSDC,
   type ChainConfig,
 } from '../lib/chains'
+import { getChainProvider } from '../lib/rpc'
+import { MixvmError, RelayerError, describeError } from '../../../sdk/src/errors'
+import { getPauseState, pausedError } from '../../../sdk/src/pause'
+import { assertPreflight, preflightTransfer } from '../../../sdk/src/preflight'
+import {
+  AttestationClient,
+  CCTP_EXPECTED_LATENCY_SECONDS,
+  CCTP_MODE_FINALITY,
+  CCTP_TRANSFER_MODES,
+  cctpNetAmount,
+  cctpTransferFee,
+  formatCctpLatency,
+  quoteCctpFee,
+  relayCctpMessage,
+} from '../../../sdk/src/cctp'
+import type { AuditData, CctpFeeQuote, CctpTransferMode, PackedProof, StealthData } from '../../../sdk/src/types'
+import { encodeLzOptions } from '../../../sdk/src/lzOptions'
+import { RelayerClient } from '../../../sdk/src/relayer'
+import { loadRelayerUrl } from '../lib/relayer'
+import {
+  loadTransfers,
+  transferTracker,
+  updateTransferContext,
+  TRANSFER_STATE_LABELS,
+  type TrackedTransfer,
+  type TransferState,
+} from '../lib/tracker'
 
 // PrivateLZBridge ABI (LayerZero V2 - v10 with merkleRoot + proof verification)
 const BRIDGE_ABI = [
   'function deposit(uint256 amount, bytes32 commitment) external',
-  'function initiateTransfer(uint32 dstEid, bytes32 recipientCommitment, uint256 amount, bytes32 nullifier, bytes32 newSenderCommitment, bytes32 merkleRoot, uint256[8] proof, tuple(uint256 ephemeralPubKeyX, uint256 ephemeralPubKeyY, uint256 stealthAddressX, uint256 stealthAddressY, uint256 viewTag) stealthData, tuple(uint256[4] encryptedSender, uint256[4] encryptedRecipient, uint256[4] encryptedAmount) auditData, bytes options) external payable returns (bytes32 guid)',
+  'function initiateTransfer(uint32 dstEid, bytes32 recipientCommitment, uint256 amount, bytes32 nullifier, bytes32 newSenderCommitment, bytes32 refundCommitment, bytes32 merkleRoot, uint256[8] proof, tuple(uint256 ephemeralPubKeyX, uint256 ephemeralPubKeyY, uint256 stealthAddressX, uint256 stealthAddressY, uint256 viewTag) stealthData, tuple(uint256[4] encryptedSender, uint256[4] encryptedRecipient, uint256[4] encryptedAmount) auditData, tuple(uint32 minFinalityThreshold, uint256 maxFee) cctpParams, bytes options) external payable returns (bytes32 guid)',
   'function quote(uint32 dstEid, bytes32 recipientCommitment, uint256 amount, tuple(uint256 ephemeralPubKeyX, uint256 ephemeralPubKeyY, uint256 stealthAddressX, uint256 stealthAddressY, uint256 viewTag) stealthData, bytes options) external view returns (uint256 nativeFee, uint256 lzTokenFee)',
   'function getLastRoot() view returns (bytes32)',
   'function nextLeafIndex() view returns (uint256)',
-  'event CrossChainTransferInitiated(uint32 indexed dstEid, bytes32 indexed recipientCommitment, uint256 amount, bytes32 nullifier, bytes32 newSenderCommitment, uint256 senderLeafIndex, bytes32 guid)',
+  'function cctpFeeFor(uint32 dstEid, uint256 amount) view returns (uint256)',
+  'function cctpMaxFeeBps() view returns (uint256)',
+  'function cctpDomainSet(uint32) view returns (bool)',
+  'function cctpMinFinalityThreshold() view returns (uint32)',
+  'function cctpMaxFinalityThreshold() view returns (uint32)',
+  'event CrossChainTransferInitiated(uint32 indexed dstEid, bytes32 indexed recipientCommitment, uint256 amount, uint256 grossAmount, bytes32 nullifier, bytes32 newSenderCommitment, uint256 senderLeafIndex, bytes32 guid)',
   'event Deposited(address indexed user, uint256 amount, bytes32 indexed commitment, uint256 leafIndex)',
 ]
 
-// CCTP MessageTransmitterV2 ABI (for relaying USDC on destination)
-const MESSAGE_TRANSMITTER_ABI = [
-  'function receiveMessage(bytes message, bytes attestation) external returns (bool success)',
-]
-
 // StealthRegistry ABI
 const STEALTH_REGISTRY_ABI = [
   'function isUserRegistered(address user) view returns (bool)',
   'function getStealthMetaAddress(address user) view returns (tuple(uint256 spendingPubKeyX, uint256 spendingPubKeyY, uint256 viewingPubKeyX, uint256 viewingPubKeyY, uint256 registeredAt))',
 ]
 
-// LayerZero V2 Options: 500k gas (Type 3 format)
-const LZ_OPTIONS_500K = '0x0003010011010000000000000000000000000007a120'
+// LayerZero V2 Options: 500k lzReceive gas (the bridge's own default)
+const LZ_OPTIONS = encodeLzOptions({ lzReceive: { gas: 500_000n } })
+
+// Circle's sandbox attestation and fee API
+const attestations = new AttestationClient()
+
+/**
+ * Split `sent`, taken from the note, into the recipient's amount and the CCTP
+ * fee of a fast burn (same split as the SDK's initiateTransfer): the largest
+ * amount whose fee still fits. Routes without CCTP send all of it.
+ */
+async function fastTransferSplit(contract: ethers.Contract, dstEid: number, sent: bigint) {
+  const [maxFeeBps, fee] = await Promise.all([
+    contract.cctpMaxFeeBps() as Promise<bigint>,
+    contract.cctpFeeFor(dstEid, sent) as Promise<bigint>,
+  ])
+  if (fee === 0n) return { amount: sent, cctpFee: 0n }
+  const amount = cctpNetAmount(sent, maxFeeBps)
+  if (amount <= 0n) {
+    throw new MixvmError('INVALID_AMOUNT', 'Amount does not cover the CCTP fee', {
+      hint: 'Send a larger amount, or use standard speed',
+    })
+  }
+  return { amount, cctpFee: cctpTransferFee(amount, maxFeeBps) }
+}
+
+/**
+ * Fail before proving on bridges without this page's initiateTransfer, such
+ * as the v10.2 deployments (no refund commitment or CCTP parameters)
+ */
+async function assertTransferAbi(provider: ethers.Provider, bridge: string) {
+  const selector = new ethers.Interface(BRIDGE_ABI).getFunction('initiateTransfer')!.selector.slice(2)
+  const code = await provider.getCode(bridge)
+  if (!code.toLowerCase().includes(selector)) {
+    throw new MixvmError('LEGACY_BRIDGE', `Bridge ${bridge} predates this app's cross-chain transfers`, {
+      hint: 'Send from a chain whose bridge has been upgraded',
+    })
+  }
+}
 
 function CrossChain() {
   const { isConnected, formattedBalance, notes, removeNote, addNote } = usePrivateUSDC()
+  const { addRefundNote, removeRefundNote } = useSDKStore()
   const { data: walletClient } = useWalletClient()
   const { address } = useAccount()
   const currentChainId = useChainId()
@@ -51,14 +118,30 @@ function CrossChain() {
   const [recipient, setRecipient] = useState('')
   const [amount, setAmount] = useState('')
   const [localError, setLocalError] = useState<string | null>(null)
+  // Set when the source bridge has transfers, or this route, paused
+  const [paused, setPaused] = useState<MixvmError | undefined>()
   const [localLoading, setLocalLoading] = useState(false)
-  const [quotedFee, setQuotedFee] = useState<string | null>(null)
+  const [cctpMode, setCctpMode] = useState<CctpTransferMode>('fast')
+  const [relayerUrl] = useState(loadRelayerUrl)
+  const [useRelayer, setUseRelayer] = useState(() => loadRelayerUrl() !== '')
+  const [relayerFee, setRelayerFee] = useState<{ fee: bigint } | { error: string } | null>(null)
+  const [quotedFee, setQuotedFee] = useState<{
+    nativeFee: string
+    amount: bigint // the recipient's, after the CCTP fee
+    fastFee: bigint // what fast mode would pay
+    cctpFee: bigint // taken from the note with amount in the selected mode
+    cctp?: CctpFeeQuote
+    cctpModes: CctpTransferMode[] // allowed by the bridge owner; [] when the route has no CCTP
+  } | null>(null)
   const [txResult, setTxResult] = useState<{
     txHash: string
     guid: string
     destinationChain: string
-    cctpStatus?: string
   } | null>(null)
+  const [transfers, setTransfers] = useState<TrackedTransfer[]>(() => loadTransfers())
+  const [relayingId, setRelayingId] = useState<string | null>(null)
+  // Transfers sent from this page relay USDC as soon as they are attested
+  const autoRelayIds = useRef(new Set<string>())
 
   // Configs
   const sourceChain = getChainConfig(sourceChainId)
@@ -104,6 +187,18 @@ function CrossChain() {
     }
   }
 
+  // Block the transfer up front if the source bridge paused it
+  useEffect(() => {
+    const dstEid = getLzEid(destinationChainId)
+    setPaused(undefined)
+    if (!sourceChain || dstEid === undefined) return
+    let cancelled = false
+    getPauseState(getChainProvider(sourceChain.id), sourceChain.bridge, [dstEid])
+      .then(state => { if (!cancelled) setPaused(pausedError(state, 'transfer', dstEid)) })
+      .catch(err => console.warn('Failed to read pause state:', err))
+    return () => { cancelled = true }
+  }, [sourceChain?.id, sourceChain?.bridge, destinationChainId])
+
   // Quote fee when amount changes
   useEffect(() => {
     const quoteFee = async () => {
@@ -113,10 +208,12 @@ function CrossChain() {
       }
 
       try {
-        const provider = new ethers.JsonRpcProvider(sourceChain.rpc, sourceChain.id)
+        const provider = getChainProvider(sourceChain.id)
         const contract = new ethers.Contract(sourceChain.bridge, BRIDGE_ABI, provider)
 
-        const amountWei = parseUSDC(amount, sourceChainId)
+        // A relayer takes its fee out of the amount first
+        const relayed = useRelayer && relayerFee && 'fee' in relayerFee ? relayerFee.fee : 0n
+        const amountWei = parseUSDC(amount, sourceChainId) - relayed
         const dstEid = getLzEid(destinationChainId)
         const testCommitment = ethers.keccak256(ethers.toUtf8Bytes('quote-test'))
         const stealthData = {
@@ -127,15 +224,31 @@ function CrossChain() {
           viewTag: 0n,
         }
 
-        const [nativeFee] = await contract.quote(
-          dstEid,
-          testCommitment,
-          amountWei,
-          stealthData,
-          LZ_OPTIONS_500K
-        )
+        const [[nativeFee], fast, domainSet, minThreshold, maxThreshold] = await Promise.all([
+          contract.quote(dstEid, testCommitment, amountWei, stealthData, LZ_OPTIONS),
+          fastTransferSplit(contract, dstEid!, amountWei),
+          contract.cctpDomainSet(dstEid) as Promise<boolean>,
+          contract.cctpMinFinalityThreshold() as Promise<bigint>,
+          contract.cctpMaxFinalityThreshold() as Promise<bigint>,
+        ])
+        const cctpModes = domainSet
+          ? CCTP_TRANSFER_MODES.filter(m => CCTP_MODE_FINALITY[m] >= Number(minThreshold) && CCTP_MODE_FINALITY[m] <= Number(maxThreshold))
+          : []
+        if (cctpModes.length > 0 && !cctpModes.includes(cctpMode)) {
+          // Quoted again with the allowed mode
+          setCctpMode(cctpModes[0])
+          return
+        }
+
+        const { amount: net, cctpFee } = cctpMode === 'fast' ? fast : { amount: amountWei, cctpFee: 0n }
+        const cctp = cctpModes.length > 0
+          ? await quoteCctpFee(attestations, net + cctpFee, cctpFee, cctpMode, sourceChain.cctpDomain, destinationChain.cctpDomain).catch(err => {
+              console.warn('CCTP fee quote failed:', err)
+              return undefined
+            })
+          : undefined
 
-        setQuotedFee(ethers.formatEther(nativeFee))
+        setQuotedFee({ nativeFee: ethers.formatEther(nativeFee), amount: net, fastFee: fast.cctpFee, cctp, cctpFee, cctpModes })
       } catch (err) {
         console.warn('Quote failed:', err)
         setQuotedFee(null)
@@ -143,7 +256,156 @@ function CrossChain() {
     }
 
     quoteFee()
-  }, [amount, sourceChainId, destinationChainId])
+  }, [amount, sourceChainId, destinationChainId, cctpMode, useRelayer, relayerFee])
+
+  // Quote the relayer fee for the entered amount and route
+  useEffect(() => {
+    setRelayerFee(null)
+    if (!useRelayer || !relayerUrl || !amount || parseFloat(amount) <= 0) return
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      try {
+        const quote = await new RelayerClient(relayerUrl).quote(sourceChainId, parseUSDC(amount, sourceChainId), getLzEid(destinationChainId))
+        if (!cancelled) setRelayerFee({ fee: quote.fee })
+      } catch (err) {
+        if (!cancelled) setRelayerFee({ error: describeError(err, 'Relayer quote') })
+      }
+    }, 400)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [useRelayer, relayerUrl, amount, sourceChainId, destinationChainId])
+
+  // Save the recipient note once LayerZero has inserted its commitment
+  const saveDeliveredNote = (transfer: TrackedTransfer) => {
+    const stored = loadTransfers().find(t => t.id === transfer.id)
+    if (!transfer.lz || !stored?.context?.note || stored.context.noteSaved) return
+    updateTransferContext(transfer.id, { noteSaved: 'true' })
+    addNote({ ...JSON.parse(stored.context.note), leafIndex: transfer.lz.leafIndex })
+    console.log('Recipient note saved, chain:', transfer.dstEid, 'leafIndex:', transfer.lz.leafIndex)
+  }
+
+  // Save the refund note once the failure ack has inserted it on the source chain,
+  // or drop it once the transfer completes
+  const saveRefundNote = (transfer: TrackedTransfer) => {
+    const stored = loadTransfers().find(t => t.id === transfer.id)
+    if (!stored?.context?.refundNote) return
+    const refundNote = JSON.parse(stored.context.refundNote)
+    if (transfer.state === 'completed') return removeRefundNote(refundNote.commitment)
+    if (!transfer.refund || stored.context.refundSaved) return
+    updateTransferContext(transfer.id, { refundSaved: 'true' })
+    addNote({ ...refundNote, leafIndex: transfer.refund.leafIndex })
+    removeRefundNote(refundNote.commitment)
+    console.log('Refund note saved, chain:', transfer.srcEid, 'leafIndex:', transfer.refund.leafIndex)
+  }
+
+  // Relay the attested CCTP message so USDC is minted to the destination bridge
+  const relayUsdc = async (transfer: TrackedTransfer) => {
+    const dst = Object.values(CHAIN_CONFIGS).find(c => c.lzEid === transfer.dstEid)
+    if (!walletClient || !dst || !transfer.cctp.message || !transfer.cctp.attestation) return
+
+    setRelayingId(transfer.id)
+    try {
+      console.log('CCTP attestation complete! Relaying USDC to', dst.shortName, '...')
+
+      // Switch to destination chain
+      if (currentChainId !== dst.id && switchChain) {
+        try {
+          await switchChain({ chainId: dst.id })
+          // Wait for chain switch
+          await new Promise(resolve => setTimeout(resolve, 2000))
+        } catch (switchErr) {
+          console.warn('Chain switch failed, user may need to switch manually:', switchErr)
+        }
+      }
+
+      const destProvider = new ethers.BrowserProvider(walletClient.transport)
+      const destSigner = await destProvider.getSigner()
+
+      // Skips the transaction if the nonce was already used; gas settings come from the SDK chain registry
+      const result = await relayCctpMessage(destSigner, { message: transfer.cctp.message, attestation: transfer.cctp.attestation })
+      if (result.status === 'already_relayed') {
+        console.log('CCTP message was already relayed.')
+      } else {
+        console.log('CCTP relay confirmed! USDC minted to destination contract. TX:', result.txHash)
+      }
+      await transferTracker.poll(transfer.id)
+    } catch (relayErr) {
+      console.error('CCTP relay failed:', relayErr)
+      setLocalError(describeError(relayErr, 'USDC relay'))
+    } finally {
+      setRelayingId(null)
+      setTransfers(loadTransfers())
+    }
+  }
+
+  // Latest closures for the tracker subscription below
+  const relayRef = useRef(relayUsdc)
+  relayRef.current = relayUsdc
+  const saveNoteRef = useRef(saveDeliveredNote)
+  saveNoteRef.current = saveDeliveredNote
+  const saveRefundRef = useRef(saveRefundNote)
+  saveRefundRef.current = saveRefundNote
+
+  // Track transfers that were sent but never tracked, e.g. when the page was
+  // closed while the transaction was mining
+  useEffect(() => {
+    const trackSent = async () => {
+      const tracked = new Set(loadTransfers().map(t => t.srcTxHash.toLowerCase()))
+      for (const { txHash, ...refundNote } of useSDKStore.getState().refundNotes) {
+        if (!txHash || !refundNote.chainId || tracked.has(txHash.toLowerCase())) continue
+        try {
+          const receipt = await getChainProvider(refundNote.chainId).getTransactionReceipt(txHash)
+          if (!receipt) continue
+          if (receipt.status === 0) {
+            removeRefundNote(refundNote.commitment)
+            continue
+          }
+          await transferTracker.track(getLzEid(refundNote.chainId)!, txHash, { refundNote: JSON.stringify(refundNote) })
+        } catch (err) {
+          console.warn('Failed to track sent transfer', txHash, err)
+        }
+      }
+      setTransfers(loadTransfers())
+    }
+    trackSent()
+  }, [])
+
+  // Follow pending transfers, including ones left from an earlier visit
+  useEffect(() => {
+    const onProgress = (transfer: TrackedTransfer, from: TransferState) => {
+      console.log(`Transfer ${transfer.id}: ${from} -> ${transfer.state}`, transfer.reason ?? '')
+      saveNoteRef.current(transfer)
+      saveRefundRef.current(transfer)
+      if (transfer.state === 'cctp_attested' && autoRelayIds.current.delete(transfer.id)) {
+        relayRef.current(transfer)
+      }
+      setTransfers(loadTransfers())
+    }
+    const onPollError = (err: unknown, transfer?: TrackedTransfer) => {
+      console.warn(`Transfer ${transfer?.id ?? ''} poll failed:`, err)
+    }
+    transferTracker.on('progress', onProgress)
+    transferTracker.on('pollError', onPollError)
+
+    const poll = async () => {
+      const active = await transferTracker.resume()
+      active.forEach(transfer => {
+        saveNoteRef.current(transfer)
+        saveRefundRef.current(transfer)
+      })
+      setTransfers(loadTransfers())
+    }
+    poll()
+    const timer = setInterval(poll, 10000)
+
+    return () => {
+      transferTracker.off('progress', onProgress)
+      transferTracker.off('pollError', onPollError)
+      clearInterval(timer)
+    }
+  }, [])
 
   const handleTransfer = async () => {
     if (!recipient || !amount || parseFloat(amount) <= 0 || !walletClient || !sourceChain || !destinationChain) return
@@ -164,8 +426,32 @@ function CrossChain() {
       if (!note) {
         throw new Error('Insufficient private balance')
       }
+      await assertTransferAbi(getChainProvider(sourceChain.id), sourceChain.bridge)
       console.log('2. Using note with balance:', note.balance)
 
+      // A relayer's fee and address are proven with the transfer; the fee comes out of the amount first
+      const relayerQuote = useRelayer && relayerUrl
+        ? await new RelayerClient(relayerUrl).quote(sourceChainId, amountWei, getLzEid(destinationChainId))
+        : undefined
+      if (relayerQuote && relayerQuote.bridge.toLowerCase() !== sourceChain.bridge.toLowerCase()) {
+        throw new MixvmError('RELAYER_REJECTED', `Relayer serves bridge ${relayerQuote.bridge}, not ${sourceChain.bridge}`, {
+          hint: 'Use a relayer for this deployment, or send from your wallet',
+        })
+      }
+      if (relayerQuote && relayerQuote.fee >= amountWei) {
+        throw new MixvmError('INVALID_RELAYER_FEE', 'Relayer fee is not below the amount', {
+          hint: 'Send a larger amount, or send from your wallet',
+        })
+      }
+      const relayerFee = relayerQuote?.fee ?? 0n
+
+      // The note pays the recipient's amount and, in fast mode, the CCTP fee
+      const readBridge = new ethers.Contract(sourceChain.bridge, BRIDGE_ABI, getChainProvider(sourceChain.id))
+      const { amount: transferAmount, cctpFee } = cctpMode === 'fast'
+        ? await fastTransferSplit(readBridge, getLzEid(destinationChainId)!, amountWei - relayerFee)
+        : { amount: amountWei - relayerFee, cctpFee: 0n }
+      console.log('2.1. Recipient receives', formatUSDC(transferAmount, sourceChainId), 'USDC, CCTP fee', formatUSDC(cctpFee, sourceChainId))
+
       // Get signer
       const provider = new ethers.BrowserProvider(walletClient.transport)
       const signer = await provider.getSigner()
@@ -185,7 +471,7 @@ function CrossChain() {
       await initPoseidon()
       const tree = await buildMerkleTreeFromEvents(sourceChain.bridge, provider, {
         deployBlock: sourceChain.deployBlock,
-        rpcUrl: sourceChain.rpc,
+        chainId: sourceChain.id,
       })
       const merkleProof = tree.getProof(note.leafIndex)
       console.log('5. Merkle proof obtained')
@@ -202,30 +488,26 @@ function CrossChain() {
       const toBytes32 = (value: bigint): string => '0x' + value.toString(16).padStart(64, '0')
 
       const currentBalance = BigInt(note.balance)
-      const newSenderBalance = currentBalance - amountWei
+      const newSenderBalance = currentBalance - transferAmount - cctpFee - relayerFee
       const newSenderRandomness = randomFieldElement()
-      const newSenderCommitment = newSenderBalance > 0n
-        ? poseidonHash([newSenderBalance, newSenderRandomness])
-        : BigInt(0)
+      // Inserted even for a zero change, and the proof checks it
+      const newSenderCommitment = poseidonHash([newSenderBalance, newSenderRandomness])
+      // Re-inserted for the sender if the destination can never credit the transfer
+      const refundRandomness = randomFieldElement()
+      const refundCommitment = poseidonHash([transferAmount, refundRandomness])
 
       // Generate stealth address + ECDH-derived note params for recipient
       console.log('6. Generating stealth data...')
       let recipientRandomness: bigint
       let recipientNullifierSecret: bigint
-      let stealthData: {
-        ephemeralPubKeyX: string
-        ephemeralPubKeyY: string
-        stealthAddressX: string
-        stealthAddressY: string
-        viewTag: string
-      }
+      let stealthData: StealthData
       let isStealthDerived = false
 
       const destRegistry = destinationChain.stealthRegistry
 
       if (destRegistry) {
         try {
-          const destProvider = new ethers.JsonRpcProvider(destinationChain.rpc, destinationChain.id)
+          const destProvider = getChainProvider(destinationChain.id)
           const registryContract = new ethers.Contract(destRegistry, STEALTH_REGISTRY_ABI, destProvider)
 
           const isRegistered = await registryContract.isUserRegistered(recipient)
@@ -248,11 +530,11 @@ function CrossChain() {
             const stealthAddrBigInt = BigInt(stealthTransfer.stealthData.stealthAddress)
 
             stealthData = {
-              ephemeralPubKeyX: stealthTransfer.stealthData.ephemeralPubKeyX.toString(),
-              ephemeralPubKeyY: stealthTransfer.stealthData.ephemeralPubKeyY.toString(),
-              stealthAddressX: stealthAddrBigInt.toString(),
-              stealthAddressY: '0',
-              viewTag: stealthTransfer.stealthData.viewTag.toString(),
+              ephemeralPubKeyX: BigInt(stealthTransfer.stealthData.ephemeralPubKeyX),
+              ephemeralPubKeyY: BigInt(stealthTransfer.stealthData.ephemeralPubKeyY),
+              stealthAddressX: stealthAddrBigInt,
+              stealthAddressY: 0n,
+              viewTag: BigInt(stealthTransfer.stealthData.viewTag),
             }
 
             // Use ECDH-derived note params (recipient can independently derive these)
@@ -264,11 +546,11 @@ function CrossChain() {
             recipientRandomness = randomFieldElement()
             recipientNullifierSecret = randomFieldElement()
             stealthData = {
-              ephemeralPubKeyX: '0',
-              ephemeralPubKeyY: '0',
-              stealthAddressX: BigInt(recipient).toString(),
-              stealthAddressY: '0',
-              viewTag: '0',
+              ephemeralPubKeyX: 0n,
+              ephemeralPubKeyY: 0n,
+              stealthAddressX: BigInt(recipient),
+              stealthAddressY: 0n,
+              viewTag: 0n,
             }
           }
         } catch (regErr) {
@@ -276,29 +558,30 @@ function CrossChain() {
           recipientRandomness = randomFieldElement()
           recipientNullifierSecret = randomFieldElement()
           stealthData = {
-            ephemeralPubKeyX: '0',
-            ephemeralPubKeyY: '0',
-            stealthAddressX: BigInt(recipient).toString(),
-            stealthAddressY: '0',
-            viewTag: '0',
+            ephemeralPubKeyX: 0n,
+            ephemeralPubKeyY: 0n,
+            stealthAddressX: BigInt(recipient),
+            stealthAddressY: 0n,
+            viewTag: 0n,
           }
         }
       } else {
         recipientRandomness = randomFieldElement()
         recipientNullifierSecret = randomFieldElement()
         stealthData = {
-          ephemeralPubKeyX: '0',
-          ephemeralPubKeyY: '0',
-          stealthAddressX: BigInt(recipient).toString(),
-          stealthAddressY: '0',
-          viewTag: '0',
+          ephemeralPubKeyX: 0n,
+          ephemeralPubKeyY: 0n,
+          stealthAddressX: BigInt(recipient),
+          stealthAddressY: 0n,
+          viewTag: 0n,
         }
       }
 
-      const recipientCommitment = poseidonHash([amountWei, recipientRandomness])
+      const recipientCommitment = poseidonHash([transferAmount, recipientRandomness])
 
       const oldCommitment = poseidonHash([BigInt(note.balance), BigInt(note.randomness)])
-      const nullifier = poseidonHash([BigInt(note.nullifierSecret), oldCommitment])
+      // Spent with Poseidon(randomness, commitment), as the bridge_transfer circuit proves
+      const nullifier = poseidonHash([BigInt(note.randomness), oldCommitment])
 
       console.log('7. Commitments calculated', isStealthDerived ? '(ECDH-derived)' : '(random)')
 
@@ -308,6 +591,20 @@ function CrossChain() {
       const contractRootBigInt = BigInt(contractMerkleRoot)
       console.log('6.1. Contract merkle root:', contractMerkleRoot)
 
+      // Pre-flight checks on both bridges before spending time on the proof
+      const preflight = await preflightTransfer(getChainProvider(sourceChain.id), sourceChain.bridge, {
+        dstEid: getLzEid(destinationChainId)!,
+        amount: transferAmount + cctpFee + relayerFee,
+        nullifier,
+        merkleRoot: contractRootBigInt,
+        leafIndex: note.leafIndex,
+        leafCount: tree.getLeafCount(),
+        recipientCommitment,
+        destination: { provider: getChainProvider(destinationChain.id), bridgeAddress: destinationChain.bridge },
+      })
+      console.log('6.2. Preflight:', preflight.checks.map(c => `${c.name}=${c.status}`).join(', '))
+      assertPreflight(preflight)
+
       // Generate ZK proof for transfer
       console.log('7. Generating transfer ZK proof...')
       const snarkjs = await import('snarkjs')
@@ -318,76 +615,130 @@ function CrossChain() {
         nullifier: nullifier.toString(),
         newSenderCommitment: newSenderCommitment.toString(),
         recipientCommitment: recipientCommitment.toString(),
+        refundCommitment: refundCommitment.toString(),
+        transferAmount: transferAmount.toString(),
+        cctpFee: cctpFee.toString(),
+        relayer: BigInt(relayerQuote?.relayer ?? 0).toString(),
+        relayerFee: relayerFee.toString(),
         // Private inputs
         senderBalance: note.balance,
         senderRandomness: note.randomness,
-        senderNullifierSecret: note.nullifierSecret,
-        transferAmount: amountWei.toString(),
         newSenderRandomness: newSenderRandomness.toString(),
         recipientRandomness: recipientRandomness.toString(),
+        refundRandomness: refundRandomness.toString(),
         merklePathElements: merkleProof.pathElements.map(e => e.toString()),
         merklePathIndices: merkleProof.pathIndices.map(i => i.toString()),
       }
 
       const { proof: zkProof, publicSignals } = await snarkjs.groth16.fullProve(
         transferInput,
-        '/circuits/private_transfer.wasm',
-        '/circuits/private_transfer_final.zkey'
+        '/circuits/bridge_transfer.wasm',
+        '/circuits/bridge_transfer_final.zkey'
       )
       console.log('7.1. Proof generated, public signals:', publicSignals)
 
       // Convert to contract format (flat uint256[8])
       const calldata = await snarkjs.groth16.exportSolidityCallData(zkProof, publicSignals)
       const parsed = JSON.parse('[' + calldata + ']')
-      const flatProof = [
-        ...parsed[0].map((x: string) => BigInt(x).toString()),
-        ...parsed[1].flat().map((x: string) => BigInt(x).toString()),
-        ...parsed[2].map((x: string) => BigInt(x).toString()),
-      ]
+      const flatProof = [...parsed[0], ...parsed[1].flat(), ...parsed[2]].map((x: string) => BigInt(x)) as PackedProof
       console.log('7.2. Flat proof ready')
 
       // Audit data
-      const auditData = {
-        encryptedSender: ['0', '0', '0', '0'],
-        encryptedRecipient: ['0', '0', '0', '0'],
-        encryptedAmount: [amountWei.toString(), '0', '0', '0'],
+      const auditData: AuditData = {
+        encryptedSender: [0n, 0n, 0n, 0n],
+        encryptedRecipient: [0n, 0n, 0n, 0n],
+        encryptedAmount: [transferAmount, 0n, 0n, 0n],
       }
 
-      // Quote fee
-      console.log('8. Quoting LayerZero fee...')
       const contract = new ethers.Contract(sourceChain.bridge, BRIDGE_ABI, signer)
-      const dstEid = getLzEid(destinationChainId)
-
-      const [quotedFee] = await contract.quote(
-        dstEid,
-        toBytes32(recipientCommitment),
-        amountWei,
-        stealthData,
-        LZ_OPTIONS_500K
-      )
-      // Add 20% buffer to prevent LZ_InsufficientFee race condition
-      const nativeFee = (quotedFee * 120n) / 100n
-      console.log('   Quoted Fee:', ethers.formatEther(quotedFee), 'ETH')
-      console.log('   Fee with 20% buffer:', ethers.formatEther(nativeFee), 'ETH')
-
-      // Call contract with merkleRoot + real proof
-      console.log('9. Calling PrivateLZBridge.initiateTransfer...')
-      const tx = await contract.initiateTransfer(
-        dstEid,
-        toBytes32(recipientCommitment),
-        amountWei,
-        toBytes32(nullifier),
-        toBytes32(newSenderCommitment),
-        contractMerkleRoot,  // merkleRoot from contract
-        flatProof,
-        stealthData,
-        auditData,
-        LZ_OPTIONS_500K,
-        { value: nativeFee, gasLimit: 1500000 }
-      )
+      const dstEid = getLzEid(destinationChainId)!
+
+      // The bridge ignores cctpParams on routes without CCTP
+      const cctpParams = { minFinalityThreshold: CCTP_MODE_FINALITY[cctpMode], maxFee: cctpFee }
+
+      // Store the refund note before sending, so a closed page can't lose it
+      const refundNote = {
+        commitment: toBytes32(refundCommitment),
+        balance: transferAmount.toString(),
+        randomness: refundRandomness.toString(),
+        nullifierSecret: note.nullifierSecret,
+        chainId: sourceChainId,
+      }
+      addRefundNote(refundNote)
+
+      let tx: { hash: string; wait: () => Promise<ethers.TransactionReceipt | null> }
+      try {
+        if (relayerQuote && relayerUrl) {
+          // The relayer pays the LayerZero fee
+          console.log('9. Submitting initiateTransferViaRelayer to the relayer...')
+          const hash = await new RelayerClient(relayerUrl).submitTransfer({
+            chainId: sourceChainId,
+            relayer: relayerQuote.relayer,
+            fee: relayerFee,
+            dstEid,
+            recipientCommitment: toBytes32(recipientCommitment),
+            amount: transferAmount,
+            nullifier: toBytes32(nullifier),
+            newSenderCommitment: toBytes32(newSenderCommitment),
+            refundCommitment: toBytes32(refundCommitment),
+            merkleRoot: contractMerkleRoot,
+            proof: flatProof,
+            stealthData,
+            auditData,
+            cctpParams,
+            options: LZ_OPTIONS,
+          })
+          tx = { hash, wait: () => getChainProvider(sourceChain.id).waitForTransaction(hash, 1, 10 * 60_000) }
+        } else {
+          console.log('8. Quoting LayerZero fee...')
+          const [quotedFee] = await contract.quote(
+            dstEid,
+            toBytes32(recipientCommitment),
+            transferAmount,
+            stealthData,
+            LZ_OPTIONS
+          )
+          // Add 20% buffer to prevent LZ_InsufficientFee race condition
+          const nativeFee = (quotedFee * 120n) / 100n
+          console.log('   Quoted Fee:', ethers.formatEther(quotedFee), 'ETH')
+          console.log('   Fee with 20% buffer:', ethers.formatEther(nativeFee), 'ETH')
+
+          // Call contract with merkleRoot + real proof
+          console.log('9. Calling PrivateLZBridge.initiateTransfer...')
+          tx = await contract.initiateTransfer(
+            dstEid,
+            toBytes32(recipientCommitment),
+            transferAmount,
+            toBytes32(nullifier),
+            toBytes32(newSenderCommitment),
+            toBytes32(refundCommitment),
+            contractMerkleRoot,  // merkleRoot from contract
+            flatProof,
+            stealthData,
+            auditData,
+            cctpParams,
+            LZ_OPTIONS,
+            { value: nativeFee, gasLimit: 1500000 }
+          )
+        }
+      } catch (sendErr) {
+        // A relayer that never answered may still have sent it; keep the refund note's secrets
+        if (!(sendErr instanceof RelayerError && sendErr.outcomeUnknown)) removeRefundNote(refundNote.commitment)
+        throw sendErr
+      }
+      addRefundNote({ ...refundNote, txHash: tx.hash })
 
-      console.log('10. TX sent:', tx.hash)
-      const receipt = await tx.wait()
+      console.log('10. TX sent:', tx.hash, relayerQuote ? '(by relayer)' : '')
+      const receipt = await tx.wait().catch((waitErr: unknown) => {
+        if (ethers.isError(waitErr, 'CALL_EXCEPTION')) removeRefundNote(refundNote.commitment)
+        throw waitErr
+      })
+      if (!receipt || receipt.status !== 1) {
+        if (receipt) removeRefundNote(refundNote.commitment)
+        throw new MixvmError(receipt ? 'REVERTED' : 'TX_NOT_FOUND', `Transfer ${tx.hash} ${receipt ? 'reverted' : 'was not mined in time'}`, {
+          hint: receipt ? 'Run the transfer again to see which check fails' : 'It is tracked once mined; check the explorer',
+        })
+      }
       console.log('11. TX confirmed!')
 
       // Find GUID from events
@@ -432,12 +783,19 @@ function CrossChain() {
         })
       }
 
-      // Wait for LayerZero delivery on destination chain, then save recipient note
+      // Track LayerZero delivery and CCTP; the recipient note is saved once delivered,
+      // or the refund note if the transfer is refunded instead
       const recipientCommitmentBytes = toBytes32(recipientCommitment)
+      const recipientNote = {
+        commitment: recipientCommitmentBytes,
+        balance: transferAmount.toString(),
+        randomness: recipientRandomness.toString(),
+        nullifierSecret: recipientNullifierSecret.toString(),
+        chainId: destinationChainId,
+      }
 
-      console.log('12. Waiting for LayerZero delivery on', destinationChain.shortName, '...')
+      console.log('12. Tracking transfer to', destinationChain.shortName, '...')
       console.log('    Recipient commitment:', recipientCommitmentBytes)
-      console.log('    Amount:', amountWei.toString())
 
       setTxResult({
         txHash: tx.hash,
@@ -445,172 +803,18 @@ function CrossChain() {
         destinationChain: destinationChain.name,
       })
 
-      // Poll destination chain until commitment appears (max ~5 min)
-      const destProvider = new ethers.JsonRpcProvider(destinationChain.rpc, destinationChainId)
-      const destContract = new ethers.Contract(destinationChain.bridge, [
-        'function commitmentExists(bytes32) view returns (bool)',
-        'event Deposited(address indexed user, uint256 amount, bytes32 indexed commitment, uint256 leafIndex)',
-        'event CrossChainTransferReceived(uint32 indexed srcEid, bytes32 indexed commitment, uint256 amount, uint256 leafIndex)',
-      ], destProvider)
-
-      let delivered = false
-      let destLeafIndex = 0
-      const maxAttempts = 60 // 5 min (every 5 sec)
-
-      for (let i = 0; i < maxAttempts; i++) {
-        try {
-          const exists = await destContract.commitmentExists(recipientCommitmentBytes)
-          if (exists) {
-            console.log(`13. Commitment confirmed on ${destinationChain.shortName} after ${(i + 1) * 5}s`)
-
-            // Get leafIndex from events
-            const currentBlock = await destProvider.getBlockNumber()
-            const fromBlock = Math.max(0, currentBlock - 1000)
-
-            // Check CrossChainReceived event first
-            try {
-              const filter = destContract.filters.CrossChainTransferReceived(null, recipientCommitmentBytes)
-              const events = await destContract.queryFilter(filter, fromBlock, currentBlock)
-              if (events.length > 0) {
-                const e = events[events.length - 1] as ethers.EventLog
-                destLeafIndex = Number(e.args?.leafIndex ?? 0)
-                console.log('    LeafIndex from CrossChainReceived:', destLeafIndex)
-              }
-            } catch {
-              // Fallback: check Deposited event
-              try {
-                const filter = destContract.filters.Deposited(null, null, recipientCommitmentBytes)
-                const events = await destContract.queryFilter(filter, fromBlock, currentBlock)
-                if (events.length > 0) {
-                  const e = events[events.length - 1] as ethers.EventLog
-                  destLeafIndex = Number(e.args?.leafIndex ?? 0)
-                  console.log('    LeafIndex from Deposited:', destLeafIndex)
-                }
-              } catch (evErr) {
-                console.warn('    Could not get leafIndex from events:', evErr)
-              }
-            }
-
-            delivered = true
-            break
-          }
-        } catch (pollErr) {
-          console.warn(`    Poll attempt ${i + 1} error:`, pollErr)
-        }
-
-        // Wait 5 seconds before next poll
-        console.log(`    Polling... attempt ${i + 1}/${maxAttempts} (${(i + 1) * 5}s)`)
-        await new Promise(resolve => setTimeout(resolve, 5000))
-      }
-
-      if (delivered) {
-        addNote({
-          commitment: recipientCommitmentBytes,
-          balance: amountWei.toString(),
-          randomness: recipientRandomness.toString(),
-          nullifierSecret: recipientNullifierSecret.toString(),
-          leafIndex: destLeafIndex,
-          chainId: destinationChainId,
-        })
-        console.log('14. Recipient note saved for', destinationChain.shortName)
-        console.log('    LeafIndex:', destLeafIndex, 'ChainId:', destinationChainId)
-      } else {
-        console.error('14. LayerZero delivery timeout! Note NOT saved.')
-        console.error('    You may need to manually check destination chain.')
-        setLocalError('Cross-chain TX sent but LayerZero delivery not confirmed within 5 min. Check LayerZero Scan.')
-      }
-
-      // CCTP V2: Poll for attestation and relay USDC to destination
-      console.log('15. Polling CCTP attestation...')
-      setTxResult(prev => prev ? { ...prev, cctpStatus: 'Polling CCTP attestation...' } : prev)
-
-      const srcCctpDomain = sourceChain.cctpDomain
-      let cctpRelayed = false
-
-      for (let i = 0; i < 60; i++) { // 5 min max
-        try {
-          const irisUrl = `https://iris-api-sandbox.circle.com/v2/messages/${srcCctpDomain}?transactionHash=${tx.hash}`
-          const resp = await fetch(irisUrl)
-          if (resp.ok) {
-            const data = await resp.json()
-            if (data.messages && data.messages.length > 0) {
-              const msg = data.messages[0]
-              console.log(`    CCTP status: ${msg.status} (attempt ${i + 1})`)
-
-              if (msg.status === 'complete') {
-                console.log('16. CCTP attestation complete! Relaying USDC...')
-                setTxResult(prev => prev ? { ...prev, cctpStatus: 'Relaying USDC to destination...' } : prev)
-
-                // Switch to destination chain
-                if (currentChainId !== destinationChainId && switchChain) {
-                  try {
-                    await switchChain({ chainId: destinationChainId })
-                    // Wait for chain switch
-                    await new Promise(resolve => setTimeout(resolve, 2000))
-                  } catch (switchErr) {
-                    console.warn('Chain switch failed, user may need to switch manually:', switchErr)
-                  }
-                }
-
-                // Get fresh signer on destination chain
-                try {
-                  const destWalletClient = walletClient
-                  if (destWalletClient) {
-                    const destProvider = new ethers.BrowserProvider(destWalletClient.transport)
-                    const destSigner = await destProvider.getSigner()
-
-                    const messageTransmitter = new ethers.Contract(
-                      destinationChain.cctpMessageTransmitter,
-                      MESSAGE_TRANSMITTER_ABI,
-                      destSigner
-                    )
-
-                    // Get fee data and add buffer for Arb Sepolia low base fee edge case
-                    const feeData = await destProvider.getFeeData()
-                    const gasOverrides: Record<string, unknown> = { gasLimit: 300000 }
-                    if (feeData.maxFeePerGas) {
-                      gasOverrides.maxFeePerGas = feeData.maxFeePerGas * 2n
-                      gasOverrides.maxPriorityFeePerGas = feeData.maxPriorityFeePerGas
-                        ? feeData.maxPriorityFeePerGas * 2n
-                        : 1000000n
-                    }
-
-                    const relayTx = await messageTransmitter.receiveMessage(
-                      msg.message,
-                      msg.attestation,
-                      gasOverrides
-                    )
-                    console.log('17. CCTP relay TX:', relayTx.hash)
-                    await relayTx.wait()
-                    console.log('18. CCTP relay confirmed! USDC minted to destination contract.')
-                    cctpRelayed = true
-                    setTxResult(prev => prev ? { ...prev, cctpStatus: 'USDC relayed!' } : prev)
-                  }
-                } catch (relayErr) {
-                  console.error('CCTP relay failed:', relayErr)
-                  setTxResult(prev => prev ? { ...prev, cctpStatus: 'CCTP relay failed - try manually' } : prev)
-                }
-                break
-              }
-            }
-          }
-        } catch (pollErr) {
-          console.warn(`    CCTP poll attempt ${i + 1} error:`, pollErr)
-        }
-
-        await new Promise(resolve => setTimeout(resolve, 5000))
-      }
-
-      if (!cctpRelayed) {
-        console.warn('CCTP attestation not ready within 5 min. USDC relay pending.')
-        setTxResult(prev => prev ? { ...prev, cctpStatus: 'CCTP attestation pending - check back later' } : prev)
-      }
+      const tracked = await transferTracker.track(getLzEid(sourceChainId)!, tx.hash, {
+        note: JSON.stringify(recipientNote),
+        refundNote: JSON.stringify(refundNote),
+      })
+      autoRelayIds.current.add(tracked.id)
+      setTransfers(loadTransfers())
+      await transferTracker.poll(tracked.id).catch(pollErr => console.warn('    First poll failed:', pollErr))
 
-      console.log('=== LAYERZERO + CCTP TRANSFER COMPLETE ===')
+      console.log('=== LAYERZERO TRANSFER SENT ===')
     } catch (err) {
       console.error('=== LAYERZERO TRANSFER ERROR ===', err)
-      const message = err instanceof Error ? err.message : 'Cross-chain transfer failed'
-      setLocalError(message)
+      setLocalError(describeError(err, 'Cross-chain transfer'))
     } finally {
       setLocalLoading(false)
     }
@@ -766,12 +970,79 @@ function CrossChain() {
           />
         </div>
 
+        {/* CCTP Finality */}
+        {quotedFee && quotedFee.cctpModes.length > 0 && (
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-slate-400 mb-2">
+              USDC Transfer Speed
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              {CCTP_TRANSFER_MODES.map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => setCctpMode(mode)}
+                  disabled={localLoading || !quotedFee.cctpModes.includes(mode)}
+                  className={`p-2 rounded-lg border text-left text-xs disabled:opacity-40 ${
+                    cctpMode === mode ? 'border-primary-500 bg-primary-500/10' : 'border-slate-700 bg-slate-900/50'
+                  }`}
+                >
+                  <span className="block text-sm text-white font-medium">{mode === 'fast' ? 'Fast' : 'Standard'}</span>
+                  <span className="text-slate-400">
+                    {formatCctpLatency(CCTP_EXPECTED_LATENCY_SECONDS[mode])} ·{' '}
+                    {mode === 'fast' ? `up to ${formatUSDC(quotedFee.fastFee, sourceChainId)} USDC fee` : 'no CCTP fee'}
+                  </span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Relayer */}
+        <div className="mb-4">
+          <label className={`flex items-center gap-3 ${relayerUrl ? 'cursor-pointer' : 'opacity-50'}`}>
+            <input
+              type="checkbox"
+              checked={useRelayer}
+              onChange={(e) => setUseRelayer(e.target.checked)}
+              disabled={!relayerUrl || localLoading}
+              className="w-4 h-4 text-primary-500"
+            />
+            <span className="text-white">Submit through relayer (no gas or LayerZero fee from your wallet)</span>
+          </label>
+          {!relayerUrl && (
+            <p className="text-xs text-slate-500 mt-1">Set a relayer URL in Settings to use one.</p>
+          )}
+          {useRelayer && relayerFee && 'fee' in relayerFee && (
+            <p className="text-sm text-slate-400 mt-2">
+              Relayer fee {formatUSDC(relayerFee.fee, sourceChainId)} USDC from your note, taken before the CCTP fee.
+              The fee is part of the proof and cannot be changed by the relayer.
+            </p>
+          )}
+          {useRelayer && relayerFee && 'error' in relayerFee && (
+            <p className="text-sm text-red-400 mt-2">{relayerFee.error}</p>
+          )}
+        </div>
+
         {/* Fee Quote */}
         {quotedFee && (
           <div className="mb-4 p-3 bg-slate-900/50 rounded-lg">
             <div className="flex justify-between text-sm">
-              <span className="text-slate-400">LayerZero Fee:</span>
-              <span className="text-white font-medium">{parseFloat(quotedFee).toFixed(6)} ETH</span>
+              <span className="text-slate-400">LayerZero Fee{useRelayer && relayerUrl ? ' (paid by the relayer)' : ''}:</span>
+              <span className="text-white font-medium">{parseFloat(quotedFee.nativeFee).toFixed(6)} ETH</span>
+            </div>
+            {quotedFee.cctpModes.length > 0 && (
+              <div className="flex justify-between text-sm mt-1">
+                <span className="text-slate-400">
+                  CCTP Fee{quotedFee.cctp ? ` (${quotedFee.cctp.fast ? 'fast' : 'standard'}, ${formatCctpLatency(quotedFee.cctp.expectedLatencySeconds)})` : ''}:
+                </span>
+                <span className="text-white font-medium">
+                  {quotedFee.cctpFee > 0n ? `${formatUSDC(quotedFee.cctpFee, sourceChainId)} USDC from your note` : 'None'}
+                </span>
+              </div>
+            )}
+            <div className="flex justify-between text-sm mt-1">
+              <span className="text-slate-400">Recipient Receives:</span>
+              <span className="text-white font-medium">{formatUSDC(quotedFee.amount, sourceChainId)} USDC</span>
             </div>
           </div>
         )}
@@ -800,6 +1071,14 @@ function CrossChain() {
           </ul>
         </div>
 
+        {/* Paused by the bridge operator */}
+        {paused && (
+          <div className="mb-4 p-4 bg-yellow-500/10 border border-yellow-500/30 rounded-lg">
+            <p className="text-yellow-400 text-sm font-medium">{paused.message}</p>
+            <p className="text-yellow-400/80 text-xs mt-1">{paused.hint}</p>
+          </div>
+        )}
+
         {/* Error Display */}
         {localError && (
           <div className="mb-4 p-4 bg-red-500/10 rounded-lg">
@@ -810,7 +1089,7 @@ function CrossChain() {
         {/* Transfer Button */}
         <button
           onClick={handleTransfer}
-          disabled={localLoading || !hasBalance || !recipient || !amount || parseFloat(amount) <= 0 || !isOnCorrectChain}
+          disabled={localLoading || !!paused || !hasBalance || !recipient || !amount || parseFloat(amount) <= 0 || !isOnCorrectChain || (useRelayer && !(relayerFee && 'fee' in relayerFee))}
           className="btn-primary w-full py-3 text-lg disabled:opacity-50 disabled:cursor-not-allowed"
         >
           {localLoading ? (
@@ -842,11 +1121,6 @@ function CrossChain() {
               <p>
                 <span className="text-slate-500">Destination:</span> {txResult.destinationChain}
               </p>
-              {txResult.cctpStatus && (
-                <p>
-                  <span className="text-slate-500">CCTP:</span> {txResult.cctpStatus}
-                </p>
-              )}
             </div>
             <a
               href={`https://testnet.layerzeroscan.com/tx/${txResult.txHash}`}
@@ -860,6 +1134,62 @@ function CrossChain() {
         )}
       </div>
 
+      {/* Tracked Transfers */}
+      {transfers.length > 0 && (
+        <div className="card mt-6 bg-slate-800/50">
+          <h3 className="text-sm font-medium text-slate-400 mb-3">Recent Transfers</h3>
+          <div className="space-y-2">
+            {[...transfers].sort((a, b) => b.createdAt - a.createdAt).slice(0, 5).map((transfer) => {
+              const src = Object.values(CHAIN_CONFIGS).find(c => c.lzEid === transfer.srcEid)
+              const dst = Object.values(CHAIN_CONFIGS).find(c => c.lzEid === transfer.dstEid)
+              const canRelay = transfer.stage === 'cctp_attested' && !transfer.cctp.minted
+              return (
+                <div key={transfer.id} className="p-3 bg-slate-900/50 rounded text-xs">
+                  <div className="flex justify-between items-center">
+                    <span className="text-slate-300">
+                      {src?.shortName ?? transfer.srcEid} {'→'} {dst?.shortName ?? transfer.dstEid}
+                      {transfer.amount !== '0' && ` · ${ethers.formatUnits(transfer.amount, 6)} USDC to recipient`}
+                      {transfer.grossAmount && transfer.grossAmount !== transfer.amount &&
+                        ` (+${ethers.formatUnits(BigInt(transfer.grossAmount) - BigInt(transfer.amount), 6)} CCTP fee)`}
+                      {transfer.cctp.mode && ` · ${transfer.cctp.mode}`}
+                    </span>
+                    <span className={
+                      transfer.state === 'completed' ? 'text-green-400'
+                      : transfer.state === 'refunded' ? 'text-yellow-400'
+                      : transfer.state === 'failed' ? 'text-red-400'
+                      : transfer.state === 'stuck' ? 'text-orange-400'
+                      : 'text-primary-400'
+                    }>
+                      {TRANSFER_STATE_LABELS[transfer.state]}
+                    </span>
+                  </div>
+                  {transfer.reason && <p className="text-slate-500 mt-1">{transfer.reason}</p>}
+                  <div className="flex justify-between items-center mt-1">
+                    <a
+                      href={`https://testnet.layerzeroscan.com/tx/${transfer.srcTxHash}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-primary-400 hover:underline"
+                    >
+                      {transfer.srcTxHash.slice(0, 10)}...
+                    </a>
+                    {canRelay && (
+                      <button
+                        onClick={() => relayUsdc(transfer)}
+                        disabled={relayingId !== null}
+                        className="text-primary-400 hover:underline disabled:opacity-50"
+                      >
+                        {relayingId === transfer.id ? 'Relaying...' : 'Relay USDC'}
+                      </button>
+                    )}
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        </div>
+      )}
+
       {/* Routes Info */}
       <div className="card mt-6 bg-slate-800/50">
         <h3 className="text-sm font-medium text-slate-400 mb-3">Available Routes</h3>
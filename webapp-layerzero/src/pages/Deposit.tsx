@@ -3,6 +3,8 @@ import { parseUnits, formatUnits } from 'viem'
 import { useBalance, useSwitchChain } from 'wagmi'
 import { usePrivateUSDC } from '../hooks/usePrivateUSDC'
 import { CHAIN_CONFIGS } from '../lib/chains'
+import { describeError } from '../../../sdk/src/errors'
+import { pausedError } from '../../../sdk/src/pause'
 
 const SUPPORTED_CHAINS = Object.values(CHAIN_CONFIGS)
 
@@ -21,7 +23,9 @@ function Deposit() {
     isNativeUSDC,
     address,
     chainId,
+    pauseState,
   } = usePrivateUSDC()
+  const paused = pausedError(pauseState, 'deposit')
   const { switchChain } = useSwitchChain()
   const currentChainName = chainId && CHAIN_CONFIGS[chainId] ? CHAIN_CONFIGS[chainId].shortName : 'Unknown'
 
@@ -74,8 +78,7 @@ function Deposit() {
       const newBal = await getUSDCBalance()
       setErc20Balance(newBal)
     } catch (err) {
-      const message = err instanceof Error ? err.message : 'Deposit failed'
-      setLocalError(message)
+      setLocalError(describeError(err, 'Deposit'))
     }
   }
 
@@ -95,8 +98,7 @@ function Deposit() {
       const newBal = await getUSDCBalance()
       setErc20Balance(newBal)
     } catch (err) {
-      const message = err instanceof Error ? err.message : 'Wrap failed'
-      setLocalError(message)
+      setLocalError(describeError(err, 'Wrap'))
     }
   }
 
@@ -247,6 +249,14 @@ function Deposit() {
           </ul>
         </div>
 
+        {/* Paused by the bridge operator */}
+        {paused && (
+          <div className="mb-4 p-4 bg-yellow-500/10 border border-yellow-500/30 rounded-lg">
+            <p className="text-yellow-400 text-sm font-medium">{paused.message}</p>
+            <p className="text-yellow-400/80 text-xs mt-1">{paused.hint}</p>
+          </div>
+        )}
+
         {/* Error Display */}
         {(error || localError) && (
           <div className="mb-4 p-4 bg-red-500/10 rounded-lg">
@@ -257,7 +267,7 @@ function Deposit() {
         {/* Deposit Button */}
         <button
           onClick={handleDeposit}
-          disabled={isLoading || !amount || parseFloat(amount) <= 0}
+          disabled={isLoading || !!paused || !amount || parseFloat(amount) <= 0}
           className="btn-primary w-full py-3 text-lg disabled:opacity-50 disabled:cursor-not-allowed"
         >
           {isLoading ? (
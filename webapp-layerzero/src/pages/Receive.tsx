@@ -12,12 +12,11 @@ import {
 } from '../lib/stealth'
 import { useSDKStore } from '../lib/store'
 import { CHAIN_CONFIGS, formatUSDC, type ChainConfig } from '../lib/chains'
-
-// Bridge ABI for scanning received transfers
-const BRIDGE_ABI = [
-  'event CrossChainTransferReceived(uint32 indexed srcEid, bytes32 indexed commitment, uint256 amount, uint256 leafIndex)',
-  'event Deposited(address indexed user, uint256 amount, bytes32 indexed commitment, uint256 leafIndex)',
-]
+import { getChainProvider } from '../lib/rpc'
+import { describeError } from '../../../sdk/src/errors'
+import { bridgeEventTopics, parseBridgeLog } from '../../../sdk/src/events'
+import { fetchLogs } from '../../../sdk/src/logs'
+import { decodeTransferPayload } from '../../../sdk/src/lzRecovery'
 
 // lzReceive function selector for decoding calldata
 const LZ_RECEIVE_ABI = [
@@ -89,7 +88,7 @@ function Receive() {
         if (!config) continue
 
         try {
-          const provider = new ethers.JsonRpcProvider(config.rpc, cId)
+          const provider = getChainProvider(cId)
           const registry = new ethers.Contract(registryAddress, STEALTH_REGISTRY_ABI, provider)
           const registered = await registry.isUserRegistered(address)
           if (registered) {
@@ -188,6 +187,7 @@ function Receive() {
 
       const lzReceiveIface = new ethers.Interface(LZ_RECEIVE_ABI)
       const allFoundNotes: FoundNote[] = []
+      const failedChains: string[] = []
 
       // Scan all supported chains
       const chains = Object.values(CHAIN_CONFIGS) as ChainConfig[]
@@ -197,51 +197,42 @@ function Receive() {
         console.log(`Scanning bridge on ${config.name}: ${config.bridge}`)
 
         try {
-          const provider = new ethers.JsonRpcProvider(config.rpc, config.id)
-          const bridge = new ethers.Contract(config.bridge, BRIDGE_ABI, provider)
-
+          const provider = getChainProvider(config.id)
           const currentBlock = await provider.getBlockNumber()
           const fromBlock = config.deployBlock
 
-          // Scan CrossChainTransferReceived events
-          const CHUNK_SIZE = 10000
-          const events: ethers.EventLog[] = []
+          // Scan CrossChainTransferReceived events (retries and shrinks ranges, never skips)
+          const logs = await fetchLogs(provider, {
+            address: config.bridge,
+            topics: [bridgeEventTopics('CrossChainTransferReceived')],
+          }, { fromBlock, toBlock: currentBlock })
 
-          for (let from = fromBlock; from <= currentBlock; from += CHUNK_SIZE) {
-            const to = Math.min(from + CHUNK_SIZE - 1, currentBlock)
-            const filter = bridge.filters.CrossChainTransferReceived()
-            const chunk = await bridge.queryFilter(filter, from, to)
-            events.push(...(chunk as ethers.EventLog[]))
-          }
+          console.log(`  Found ${logs.length} CrossChainTransferReceived event(s)`)
 
-          console.log(`  Found ${events.length} CrossChainTransferReceived event(s)`)
-
-          for (const event of events) {
-            const commitment = event.args[1] as string
-            const amount = event.args[2] as bigint
-            const leafIndex = Number(event.args[3])
+          for (const log of logs) {
+            // Current and v10.2 event signatures
+            const event = parseBridgeLog(log)
+            if (!event) continue
+            const commitment = event.args.commitment as string
+            const amount = event.args.amount as bigint
+            const leafIndex = Number(event.args.leafIndex)
 
             // Skip if already imported
             if (importedCommitments.has(commitment.toLowerCase())) continue
 
             // Get the TX calldata to extract stealthData
             try {
-              const tx = await provider.getTransaction(event.transactionHash)
+              const tx = await provider.getTransaction(log.transactionHash)
               if (!tx || !tx.data) continue
 
               // Decode lzReceive calldata
               const decoded = lzReceiveIface.decodeFunctionData('lzReceive', tx.data)
               const message = decoded[2] as string // _message parameter
 
-              // Decode message: (bytes32 recipientCommitment, uint256 amount, StealthData)
-              const msgDecoded = ethers.AbiCoder.defaultAbiCoder().decode(
-                ['bytes32', 'uint256', 'tuple(uint256,uint256,uint256,uint256,uint256)'],
-                message
-              )
-
-              const stealthTuple = msgDecoded[2]
-              const ephemeralPubKeyX = BigInt(stealthTuple[0])
-              const ephemeralPubKeyY = BigInt(stealthTuple[1])
+              // Decode message: (recipientCommitment, amount, grossAmount, StealthData)
+              const { stealthData } = decodeTransferPayload(message)
+              const ephemeralPubKeyX = stealthData.ephemeralPubKeyX
+              const ephemeralPubKeyY = stealthData.ephemeralPubKeyY
 
               // Try to derive note params from ECDH
               const noteParams = tryDeriveNoteFromEphemeralKey(
@@ -273,24 +264,26 @@ function Receive() {
               })
             } catch (decodeErr) {
               // TX decode failed - skip
-              console.warn(`  Failed to decode TX ${event.transactionHash}:`, decodeErr)
+              console.warn(`  Failed to decode TX ${log.transactionHash}:`, decodeErr)
             }
           }
         } catch (chainErr) {
           console.warn(`Failed to scan ${config.name}:`, chainErr)
+          failedChains.push(config.name)
         }
       }
 
       setFoundNotes(allFoundNotes)
+      const failedSuffix = failedChains.length > 0 ? ` (could not scan ${failedChains.join(', ')} - try again)` : ''
       setScanStatus(
-        allFoundNotes.length > 0
+        (allFoundNotes.length > 0
           ? `Found ${allFoundNotes.length} note(s) for you!`
-          : 'No notes found'
+          : 'No notes found') + failedSuffix
       )
       console.log('Scan complete. Total found:', allFoundNotes.length)
     } catch (err) {
       console.error('Scan failed:', err)
-      setScanStatus('Scan failed')
+      setScanStatus(describeError(err, 'Scan'))
     } finally {
       setIsLoading(false)
     }
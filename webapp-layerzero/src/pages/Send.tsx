@@ -1,6 +1,7 @@
 import { useState } from 'react'
 import { parseUnits } from 'viem'
 import { usePrivateUSDC } from '../hooks/usePrivateUSDC'
+import { describeError } from '../../../sdk/src/errors'
 
 interface RecipientNoteData {
   commitment: string
@@ -49,8 +50,7 @@ function Send() {
         encryptedAnnounced: result.encryptedAnnounced,
       })
     } catch (err) {
-      const message = err instanceof Error ? err.message : 'Transfer failed'
-      setLocalError(message)
+      setLocalError(describeError(err, 'Transfer'))
     }
   }
 
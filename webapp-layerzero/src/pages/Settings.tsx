@@ -2,16 +2,96 @@ import { useState, useMemo } from 'react'
 import { useAccount, useChainId, useSwitchChain } from 'wagmi'
 import { useSDKStore } from '../lib/store'
 import { loadStealthKeys } from '../lib/stealth'
+import { CHAIN_CONFIGS } from '../lib/chains'
+import { RpcPool, RpcEndpointStatus, loadRpcOverrides, saveRpcOverrides } from '../lib/rpc'
+import { RelayerClient } from '../../../sdk/src/relayer'
+import type { RelayerServiceStatus } from '../../../sdk/src/types'
+import { loadRelayerUrl, saveRelayerUrl } from '../lib/relayer'
+import { describeError } from '../../../sdk/src/errors'
 
 function Settings() {
   const { isConnected, address } = useAccount()
   const chainId = useChainId()
   const { switchChain, chains } = useSwitchChain()
   const { notes, reset } = useSDKStore()
-  const [relayerUrl, setRelayerUrl] = useState('http://localhost:3000')
+  const [relayerUrl, setRelayerUrl] = useState(loadRelayerUrl)
+  const [savedRelayerUrl, setSavedRelayerUrl] = useState(loadRelayerUrl)
+  const [relayerCheck, setRelayerCheck] = useState<
+    { status: RelayerServiceStatus; fee?: bigint; feeError?: string } | { error: string } | null
+  >(null)
+  const [isCheckingRelayer, setIsCheckingRelayer] = useState(false)
   const [showExportModal, setShowExportModal] = useState(false)
   const [showResetConfirm, setShowResetConfirm] = useState(false)
   const [exportCopied, setExportCopied] = useState(false)
+  const [rpcChainId, setRpcChainId] = useState(CHAIN_CONFIGS[chainId] ? chainId : 84532)
+  const [rpcOverrides, setRpcOverrides] = useState(loadRpcOverrides)
+  const [rpcText, setRpcText] = useState(() => (loadRpcOverrides()[rpcChainId] ?? []).join('\n'))
+  const [rpcHealth, setRpcHealth] = useState<RpcEndpointStatus[] | null>(null)
+  const [isCheckingRpc, setIsCheckingRpc] = useState(false)
+
+  const rpcDefaults = CHAIN_CONFIGS[rpcChainId]?.rpcs ?? []
+  const rpcEntered = rpcText.split('\n').map(u => u.trim()).filter(u => u.length > 0)
+  const rpcInvalid = rpcEntered.filter(u => !/^https?:\/\/\S+$/.test(u))
+
+  const selectRpcChain = (id: number) => {
+    setRpcChainId(id)
+    setRpcText((rpcOverrides[id] ?? []).join('\n'))
+    setRpcHealth(null)
+  }
+
+  const saveRpcEndpoints = () => {
+    const next = { ...rpcOverrides, [rpcChainId]: rpcEntered }
+    saveRpcOverrides(next)
+    setRpcOverrides(loadRpcOverrides())
+    setRpcHealth(null)
+  }
+
+  const resetRpcEndpoints = () => {
+    const next = { ...rpcOverrides, [rpcChainId]: [] }
+    saveRpcOverrides(next)
+    setRpcOverrides(loadRpcOverrides())
+    setRpcText('')
+    setRpcHealth(null)
+  }
+
+  // Probe the entered endpoints (or the defaults) without saving them
+  const checkRpcHealth = async () => {
+    setIsCheckingRpc(true)
+    try {
+      const pool = new RpcPool(rpcChainId, rpcEntered.length > 0 ? rpcEntered : rpcDefaults, { timeoutMs: 5000 })
+      setRpcHealth(await pool.checkHealth())
+      pool.destroy()
+    } finally {
+      setIsCheckingRpc(false)
+    }
+  }
+
+  const relayerInvalid = relayerUrl.trim() !== '' && !/^https?:\/\/\S+$/.test(relayerUrl.trim())
+
+  const saveRelayer = () => {
+    saveRelayerUrl(relayerUrl)
+    setSavedRelayerUrl(loadRelayerUrl())
+    setRelayerCheck(null)
+  }
+
+  // Health of the entered URL, plus what it charges to withdraw 1 USDC on the current chain
+  const checkRelayer = async () => {
+    const relayer = new RelayerClient(relayerUrl.trim())
+    setIsCheckingRelayer(true)
+    try {
+      const status = await relayer.status()
+      try {
+        const quote = await relayer.quote(chainId, 1_000_000n)
+        setRelayerCheck({ status, fee: quote.fee })
+      } catch (err) {
+        setRelayerCheck({ status, feeError: describeError(err, 'Fee quote') })
+      }
+    } catch (err) {
+      setRelayerCheck({ error: describeError(err, 'Relayer check') })
+    } finally {
+      setIsCheckingRelayer(false)
+    }
+  }
 
   const exportData = useMemo(() => {
     if (!address) return null
@@ -68,6 +148,86 @@ function Settings() {
         </div>
       </div>
 
+      {/* RPC Endpoints */}
+      <div className="card">
+        <h2 className="text-lg font-medium text-white mb-4">RPC Endpoints</h2>
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-slate-400 mb-2">
+              Chain
+            </label>
+            <select
+              value={rpcChainId}
+              onChange={(e) => selectRpcChain(Number(e.target.value))}
+              className="input w-full"
+            >
+              {Object.values(CHAIN_CONFIGS).map((config) => (
+                <option key={config.id} value={config.id}>
+                  {config.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-slate-400 mb-2">
+              Custom endpoints (one per line, tried in order)
+            </label>
+            <textarea
+              value={rpcText}
+              onChange={(e) => setRpcText(e.target.value)}
+              placeholder={rpcDefaults.join('\n')}
+              rows={3}
+              className="input w-full font-mono text-sm"
+            />
+            {rpcInvalid.length > 0 && (
+              <p className="text-sm text-red-400 mt-1">Not a valid URL: {rpcInvalid.join(', ')}</p>
+            )}
+            <p className="text-sm text-slate-500 mt-1">
+              {rpcOverrides[rpcChainId] ? 'Using custom endpoints.' : 'Leave empty to use the defaults shown.'}
+              {' '}Reads fail over between endpoints and back off rate-limited ones.
+            </p>
+          </div>
+          <div className="flex gap-3">
+            <button
+              onClick={saveRpcEndpoints}
+              disabled={rpcInvalid.length > 0}
+              className="btn-primary flex-1"
+            >
+              Save
+            </button>
+            <button
+              onClick={resetRpcEndpoints}
+              className="btn-secondary flex-1"
+            >
+              Reset to Defaults
+            </button>
+            <button
+              onClick={checkRpcHealth}
+              disabled={isCheckingRpc || rpcInvalid.length > 0}
+              className="btn-secondary flex-1"
+            >
+              {isCheckingRpc ? 'Checking...' : 'Check Health'}
+            </button>
+          </div>
+          {rpcHealth && (
+            <div className="bg-slate-900 rounded-lg p-4 space-y-2">
+              {rpcHealth.map((endpoint) => {
+                const ok = endpoint.healthy && endpoint.blockNumber !== undefined
+                return (
+                  <div key={endpoint.url} className="flex items-center gap-2 text-sm">
+                    <div className={`w-2 h-2 rounded-full ${ok ? 'bg-green-500' : 'bg-red-500'}`}></div>
+                    <span className="text-white font-mono truncate flex-1">{endpoint.url}</span>
+                    <span className="text-slate-400">
+                      {ok ? `${endpoint.latencyMs}ms, block ${endpoint.blockNumber}` : endpoint.lastError}
+                    </span>
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+
       {/* Relayer Settings */}
       <div className="card">
         <h2 className="text-lg font-medium text-white mb-4">Relayer</h2>
@@ -79,14 +239,63 @@ function Settings() {
             <input
               type="text"
               value={relayerUrl}
-              onChange={(e) => setRelayerUrl(e.target.value)}
+              onChange={(e) => { setRelayerUrl(e.target.value); setRelayerCheck(null) }}
+              placeholder="http://localhost:8090"
               className="input w-full"
             />
+            {relayerInvalid && (
+              <p className="text-sm text-red-400 mt-1">Not a valid URL</p>
+            )}
+            <p className="text-sm text-slate-500 mt-1">
+              {savedRelayerUrl ? `Withdraws and transfers can be submitted through ${savedRelayerUrl}.` : 'No relayer set; withdraws and transfers are sent from your wallet.'}
+              {' '}Leave empty and save to stop using one.
+            </p>
           </div>
-          <div className="flex items-center gap-2 text-sm text-slate-400">
-            <div className="w-2 h-2 bg-green-500 rounded-full"></div>
-            <span>Connected</span>
+          <div className="flex gap-3">
+            <button
+              onClick={saveRelayer}
+              disabled={relayerInvalid}
+              className="btn-primary flex-1"
+            >
+              Save
+            </button>
+            <button
+              onClick={checkRelayer}
+              disabled={isCheckingRelayer || relayerInvalid || relayerUrl.trim() === ''}
+              className="btn-secondary flex-1"
+            >
+              {isCheckingRelayer ? 'Checking...' : 'Check Relayer'}
+            </button>
           </div>
+          {relayerCheck && 'error' in relayerCheck && (
+            <div className="flex items-center gap-2 text-sm text-slate-400">
+              <div className="w-2 h-2 bg-red-500 rounded-full"></div>
+              <span>{relayerCheck.error}</span>
+            </div>
+          )}
+          {relayerCheck && 'status' in relayerCheck && (
+            <div className="bg-slate-900 rounded-lg p-4 space-y-2 text-sm">
+              <div className="flex items-center gap-2">
+                <div className={`w-2 h-2 rounded-full ${relayerCheck.status.healthy ? 'bg-green-500' : 'bg-orange-500'}`}></div>
+                <span className="text-white">{relayerCheck.status.healthy ? 'Healthy' : 'Reachable, reports unhealthy'}</span>
+              </div>
+              <p className="text-slate-400">
+                Submits withdraws on: {relayerCheck.status.submit.length > 0
+                  ? relayerCheck.status.submit.map((chain) => chain.name).join(', ')
+                  : 'none'}
+              </p>
+              <p className="text-slate-400">
+                Submits transfers from: {relayerCheck.status.submit.some((chain) => chain.transfers)
+                  ? relayerCheck.status.submit.filter((chain) => chain.transfers).map((chain) => chain.name).join(', ')
+                  : 'none'}
+              </p>
+              <p className="text-slate-400">
+                {relayerCheck.fee !== undefined
+                  ? `Fee to withdraw 1 USDC on this chain: ${Number(relayerCheck.fee) / 1e6} USDC`
+                  : relayerCheck.feeError}
+              </p>
+            </div>
+          )}
         </div>
       </div>
 
@@ -1,8 +1,12 @@
-import { useState } from 'react'
-import { parseUnits } from 'viem'
+import { useEffect, useState } from 'react'
+import { formatUnits, parseUnits } from 'viem'
 import { usePrivateUSDC } from '../hooks/usePrivateUSDC'
 import { useChainId, useSwitchChain } from 'wagmi'
 import { CHAIN_CONFIGS } from '../lib/chains'
+import { describeError } from '../../../sdk/src/errors'
+import { pausedError } from '../../../sdk/src/pause'
+import { RelayerClient } from '../../../sdk/src/relayer'
+import { loadRelayerUrl } from '../lib/relayer'
 
 function Withdraw() {
   const {
@@ -16,7 +20,9 @@ function Withdraw() {
     withdraw,
     usdcDecimals,
     chainId,
+    pauseState,
   } = usePrivateUSDC()
+  const paused = pausedError(pauseState, 'withdraw')
 
   const currentChainId = useChainId()
   const { switchChain } = useSwitchChain()
@@ -26,6 +32,29 @@ function Withdraw() {
   const [useConnectedWallet, setUseConnectedWallet] = useState(true)
   const [localError, setLocalError] = useState<string | null>(null)
   const [txResult, setTxResult] = useState<{ txHash: string } | null>(null)
+  const [relayerUrl] = useState(loadRelayerUrl)
+  const [useRelayer, setUseRelayer] = useState(() => loadRelayerUrl() !== '')
+  const [relayerFee, setRelayerFee] = useState<{ fee: bigint; net: bigint } | { error: string } | null>(null)
+
+  // Quote the relayer fee for the entered amount
+  useEffect(() => {
+    setRelayerFee(null)
+    if (!useRelayer || !relayerUrl || !amount || parseFloat(amount) <= 0) return
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      try {
+        const amountWei = parseUnits(amount, usdcDecimals)
+        const quote = await new RelayerClient(relayerUrl).quote(currentChainId, amountWei)
+        if (!cancelled) setRelayerFee({ fee: quote.fee, net: amountWei - quote.fee })
+      } catch (err) {
+        if (!cancelled) setRelayerFee({ error: describeError(err, 'Relayer quote') })
+      }
+    }, 400)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [useRelayer, relayerUrl, amount, currentChainId, usdcDecimals])
 
   const handleWithdraw = async () => {
     const targetAddress = useConnectedWallet ? address : recipient
@@ -37,13 +66,12 @@ function Withdraw() {
     try {
       // Use correct decimals for USDC (6 decimals)
       const amountWei = parseUnits(amount, usdcDecimals)
-      const result = await withdraw(amountWei, targetAddress)
+      const result = await withdraw(amountWei, targetAddress, useRelayer ? relayerUrl : undefined)
       if (result) {
         setTxResult({ txHash: result.txHash })
       }
     } catch (err) {
-      const message = err instanceof Error ? err.message : 'Withdraw failed'
-      setLocalError(message)
+      setLocalError(describeError(err, 'Withdraw'))
     }
   }
 
@@ -221,6 +249,33 @@ function Withdraw() {
           />
         </div>
 
+        {/* Relayer */}
+        <div className="mb-6">
+          <label className={`flex items-center gap-3 ${relayerUrl ? 'cursor-pointer' : 'opacity-50'}`}>
+            <input
+              type="checkbox"
+              checked={useRelayer}
+              onChange={(e) => setUseRelayer(e.target.checked)}
+              disabled={!relayerUrl || isLoading}
+              className="w-4 h-4 text-primary-500"
+            />
+            <span className="text-white">Submit through relayer (no gas from your wallet)</span>
+          </label>
+          {!relayerUrl && (
+            <p className="text-xs text-slate-500 mt-1">Set a relayer URL in Settings to use one.</p>
+          )}
+          {useRelayer && relayerFee && 'fee' in relayerFee && (
+            <p className="text-sm text-slate-400 mt-2">
+              Relayer fee {formatUnits(relayerFee.fee, usdcDecimals)} USDC, recipient gets{' '}
+              {formatUnits(relayerFee.net, usdcDecimals)} USDC.
+              The fee is part of the proof and cannot be changed by the relayer.
+            </p>
+          )}
+          {useRelayer && relayerFee && 'error' in relayerFee && (
+            <p className="text-sm text-red-400 mt-2">{relayerFee.error}</p>
+          )}
+        </div>
+
         {/* Privacy Warning */}
         <div className="bg-orange-500/10 rounded-lg p-4 mb-6">
           <div className="flex items-center gap-2 text-orange-400 mb-2">
@@ -235,6 +290,14 @@ function Withdraw() {
           </p>
         </div>
 
+        {/* Paused by the bridge operator */}
+        {paused && (
+          <div className="mb-4 p-4 bg-yellow-500/10 border border-yellow-500/30 rounded-lg">
+            <p className="text-yellow-400 text-sm font-medium">{paused.message}</p>
+            <p className="text-yellow-400/80 text-xs mt-1">{paused.hint}</p>
+          </div>
+        )}
+
         {/* Error Display */}
         {(error || localError) && (
           <div className="mb-4 p-4 bg-red-500/10 rounded-lg">
@@ -245,7 +308,7 @@ function Withdraw() {
         {/* Withdraw Button */}
         <button
           onClick={handleWithdraw}
-          disabled={isLoading || !hasBalance || !amount || parseFloat(amount) <= 0 || (!useConnectedWallet && !recipient)}
+          disabled={isLoading || !!paused || !hasBalance || !amount || parseFloat(amount) <= 0 || (!useConnectedWallet && !recipient) || (useRelayer && !(relayerFee && 'fee' in relayerFee))}
           className="btn-primary w-full py-3 text-lg disabled:opacity-50 disabled:cursor-not-allowed"
         >
           {isLoading ? (
@@ -8,7 +8,7 @@ export default defineConfig({
   plugins: [
     react(),
     nodePolyfills({
-      include: ['buffer', 'crypto', 'stream', 'util'],
+      include: ['buffer', 'crypto', 'events', 'stream', 'util'],
       globals: {
         Buffer: true,
         global: true,
@@ -20,6 +20,14 @@ export default defineConfig({
     alias: {
       '@': path.resolve(__dirname, './src'),
     },
+    // Modules shared from ../sdk/src must use the app's ethers, not a second copy,
+    // and the app's polyfill shims (sdk/ has no copy of its own)
+    dedupe: ['ethers', 'vite-plugin-node-polyfills'],
+  },
+  server: {
+    fs: {
+      allow: ['..'],
+    },
   },
   define: {
     global: 'globalThis',
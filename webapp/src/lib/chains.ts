@@ -12,7 +12,8 @@ export interface ChainConfig {
     name: string;
     shortName: string;
     domain: number; // CCTP Domain ID
-    rpc: string;
+    rpc: string; // primary RPC (wallet config)
+    rpcs: string[]; // read endpoints for the failover pool, in preference order
     explorer: string;
     bridge: string; // PrivateCCTPBridge address
     stealthRegistry: string;
@@ -47,6 +48,7 @@ export const CHAIN_CONFIGS: Record<number, ChainConfig> = {
         shortName: "Arc",
         domain: CCTP_DOMAINS.arcTestnet,
         rpc: "https://arc-testnet.drpc.org",
+        rpcs: ["https://arc-testnet.drpc.org", "https://rpc.testnet.arc.network"],
         explorer: "https://testnet.arcscan.io",
         // Contract addresses - DEPLOYED (CCTP V2 + ERC-20 Wrapper - Jan 2026)
         bridge: "0x75d0eeEE3288D875Dd60A0066437ed12445b0C03",
@@ -73,6 +75,7 @@ export const CHAIN_CONFIGS: Record<number, ChainConfig> = {
         shortName: "Base",
         domain: CCTP_DOMAINS.baseSepolia,
         rpc: "https://sepolia.base.org",
+        rpcs: ["https://sepolia.base.org", "https://base-sepolia-rpc.publicnode.com"],
         explorer: "https://sepolia.basescan.org",
         // Contract addresses - DEPLOYED (CCTP V2 - Jan 2026) - v11 fixed void return
         bridge: "0xDF93773761102e0cbc6b90Fa04699e7f26Ac28c9",
@@ -99,6 +102,7 @@ export const CHAIN_CONFIGS: Record<number, ChainConfig> = {
         shortName: "Sepolia",
         domain: CCTP_DOMAINS.ethereumSepolia,
         rpc: "https://ethereum-sepolia-rpc.publicnode.com",
+        rpcs: ["https://ethereum-sepolia-rpc.publicnode.com", "https://sepolia.drpc.org"],
         explorer: "https://sepolia.etherscan.io",
         // Contract addresses - DEPLOYED (CCTP V2 - Jan 2026)
         bridge: "0x394222B73b295374b951B79d5f6796b463392f87",
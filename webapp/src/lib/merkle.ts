@@ -33,18 +33,35 @@ export interface MerkleProof {
   pathIndices: number[]
 }
 
+export interface MerkleTreeState {
+  depth: number
+  leaves: string[]
+  filledSubtrees: string[]
+  nodes: [number, string][][]  // nodes[i] holds level i + 1
+  root: string
+}
+
+/**
+ * Incremental sparse merkle tree mirroring the contract's filledSubtrees/zeros
+ * insertion. Only nodes with a leaf below them are stored, so inserts and
+ * proofs are O(depth) hashes.
+ */
 export class MerkleTree {
   private depth: number
   private leaves: bigint[]
   private zeros: bigint[]
-  private filledSubtrees: Map<number, bigint>
+  private filledSubtrees: bigint[]
+  private nodes: Map<number, bigint>[]
+  private root: bigint
 
   constructor(depth: number) {
     this.depth = depth
     this.leaves = []
     this.zeros = []
-    this.filledSubtrees = new Map()
     this.initZeros()
+    this.filledSubtrees = this.zeros.slice(0, depth)
+    this.nodes = Array.from({ length: depth + 1 }, () => new Map<number, bigint>())
+    this.root = this.zeros[depth]
   }
 
   private initZeros() {
@@ -54,13 +71,13 @@ export class MerkleTree {
       currentZero = poseidonHash([currentZero, currentZero])
       this.zeros.push(currentZero)
     }
-    for (let i = 0; i < this.depth; i++) {
-      this.filledSubtrees.set(i, this.zeros[i])
-    }
   }
 
   insert(commitment: bigint): number {
     const leafIndex = this.leaves.length
+    if (leafIndex >= 2 ** this.depth) {
+      throw new Error('Tree is full')
+    }
     this.leaves.push(commitment)
 
     let currentHash = commitment
@@ -68,34 +85,25 @@ export class MerkleTree {
 
     for (let level = 0; level < this.depth; level++) {
       if (currentIndex % 2 === 0) {
-        this.filledSubtrees.set(level, currentHash)
+        this.filledSubtrees[level] = currentHash
         currentHash = poseidonHash([currentHash, this.zeros[level]])
       } else {
-        const left = this.filledSubtrees.get(level) || this.zeros[level]
-        currentHash = poseidonHash([left, currentHash])
+        currentHash = poseidonHash([this.filledSubtrees[level], currentHash])
       }
       currentIndex = Math.floor(currentIndex / 2)
+      this.nodes[level + 1].set(currentIndex, currentHash)
     }
 
+    this.root = currentHash
     return leafIndex
   }
 
+  getLeafCount(): number {
+    return this.leaves.length
+  }
+
   getRoot(): bigint {
-    if (this.leaves.length === 0) {
-      return this.zeros[this.depth]
-    }
-    let currentHash = this.leaves[this.leaves.length - 1]
-    let currentIndex = this.leaves.length - 1
-    for (let level = 0; level < this.depth; level++) {
-      if (currentIndex % 2 === 0) {
-        currentHash = poseidonHash([currentHash, this.zeros[level]])
-      } else {
-        const left = this.filledSubtrees.get(level) || this.zeros[level]
-        currentHash = poseidonHash([left, currentHash])
-      }
-      currentIndex = Math.floor(currentIndex / 2)
-    }
-    return currentHash
+    return this.root
   }
 
   getProof(leafIndex: number): MerkleProof {
@@ -111,42 +119,51 @@ export class MerkleTree {
       const isLeft = currentIndex % 2 === 0
       const siblingIndex = isLeft ? currentIndex + 1 : currentIndex - 1
 
-      let sibling: bigint
-      // At level 0, check if sibling leaf exists
-      if (level === 0) {
-        sibling = siblingIndex < this.leaves.length ? this.leaves[siblingIndex] : this.zeros[0]
-      } else {
-        // For higher levels, compute the sibling node
-        sibling = this.computeNodeAt(siblingIndex, level)
-      }
-
-      pathElements.push(sibling)
+      pathElements.push(this.getNode(level, siblingIndex))
       pathIndices.push(isLeft ? 0 : 1)  // 0 = current is on left, 1 = current is on right
       currentIndex = Math.floor(currentIndex / 2)
     }
 
     return {
-      root: this.getRoot(),
+      root: this.root,
       pathElements,
       pathIndices,
     }
   }
 
-  // Compute node hash at a given level and index
-  private computeNodeAt(index: number, level: number): bigint {
+  // Stored node at a given level and index, or the zero value for empty subtrees
+  private getNode(level: number, index: number): bigint {
     if (level === 0) {
       return index < this.leaves.length ? this.leaves[index] : this.zeros[0]
     }
+    return this.nodes[level].get(index) ?? this.zeros[level]
+  }
 
-    const leftChildIdx = index * 2
-    const rightChildIdx = leftChildIdx + 1
-
-    const left = this.computeNodeAt(leftChildIdx, level - 1)
-    const right = this.computeNodeAt(rightChildIdx, level - 1)
-
-    return poseidonHash([left, right])
+  serialize(): MerkleTreeState {
+    return {
+      depth: this.depth,
+      leaves: this.leaves.map(l => l.toString()),
+      filledSubtrees: this.filledSubtrees.map(n => n.toString()),
+      nodes: this.nodes.slice(1).map(level => [...level.entries()].map(([i, n]) => [i, n.toString()] as [number, string])),
+      root: this.root.toString(),
+    }
   }
 
+  // Restore a tree exported with serialize() without rehashing
+  static restore(state: MerkleTreeState): MerkleTree {
+    if (state.nodes.length !== state.depth) {
+      throw new Error('Invalid merkle tree state: node levels do not match depth')
+    }
+    const tree = new MerkleTree(state.depth)
+    tree.leaves = state.leaves.map(l => BigInt(l))
+    tree.filledSubtrees = state.filledSubtrees.map(n => BigInt(n))
+    tree.nodes = [
+      new Map<number, bigint>(),
+      ...state.nodes.map(level => new Map(level.map(([i, n]) => [i, BigInt(n)] as [number, bigint]))),
+    ]
+    tree.root = BigInt(state.root)
+    return tree
+  }
 }
 
 // Contract ABI for all events that add commitments to the tree
@@ -0,0 +1,62 @@
+import { CHAIN_CONFIGS } from './chains'
+import { RpcPool } from '../../../sdk/src/rpc'
+
+/**
+ * Read providers for the app: the SDK's RPC pool (failover, rate-limit
+ * backoff, quorum reads) over each chain's endpoints, plus per-chain
+ * endpoint overrides saved from the Settings page.
+ */
+
+export { RpcPool, RpcPoolError } from '../../../sdk/src/rpc'
+export type { RpcEndpointStatus, RpcPoolOptions } from '../../../sdk/src/types'
+
+const OVERRIDES_KEY = 'mixvm_rpc_overrides'
+
+// ============ Per-chain overrides ============
+
+export type RpcOverrides = Record<number, string[]>
+
+export function loadRpcOverrides(): RpcOverrides {
+  try {
+    const data = localStorage.getItem(OVERRIDES_KEY)
+    return data ? JSON.parse(data) : {}
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Save user endpoints (empty list = use the defaults) and drop cached pools
+ */
+export function saveRpcOverrides(overrides: RpcOverrides) {
+  const cleaned: RpcOverrides = {}
+  for (const [chainId, urls] of Object.entries(overrides)) {
+    const valid = urls.map(u => u.trim()).filter(u => u.length > 0)
+    if (valid.length > 0) cleaned[Number(chainId)] = valid
+  }
+  localStorage.setItem(OVERRIDES_KEY, JSON.stringify(cleaned))
+  pools.clear()
+}
+
+/**
+ * Endpoints for a chain: user overrides if set, otherwise the built-in list
+ */
+export function getRpcUrls(chainId: number): string[] {
+  const overrides = loadRpcOverrides()[chainId]
+  if (overrides && overrides.length > 0) return overrides
+  return CHAIN_CONFIGS[chainId]?.rpcs ?? []
+}
+
+const pools = new Map<number, RpcPool>()
+
+/**
+ * Shared read provider for a chain (use instead of new JsonRpcProvider)
+ */
+export function getChainProvider(chainId: number): RpcPool {
+  let pool = pools.get(chainId)
+  if (!pool) {
+    pool = new RpcPool(chainId, getRpcUrls(chainId))
+    pools.set(chainId, pool)
+  }
+  return pool
+}
@@ -13,6 +13,7 @@ import {
   parseUSDC,
   type ChainConfig,
 } from '../lib/chains'
+import { getChainProvider } from '../lib/rpc'
 
 // PrivateCCTPBridge ABI (unified contract)
 const BRIDGE_ABI = [
@@ -223,7 +224,7 @@ function CrossChain() {
 
       if (destRegistry) {
         try {
-          const destProvider = new ethers.JsonRpcProvider(destinationChain.rpc, destinationChain.id)
+          const destProvider = getChainProvider(destinationChain.id)
           const registryContract = new ethers.Contract(destRegistry, STEALTH_REGISTRY_ABI, destProvider)
 
           const isRegistered = await registryContract.isUserRegistered(recipient)
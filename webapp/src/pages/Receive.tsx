@@ -12,6 +12,7 @@ import {
   StealthMetaAddress,
 } from '../lib/stealth'
 import { useSDKStore } from '../lib/store'
+import { getChainProvider, getRpcUrls } from '../lib/rpc'
 
 // StealthRegistry contract addresses
 // OLD registry - for existing registrations (has stealth keys)
@@ -32,11 +33,6 @@ const STEALTH_REGISTRY_ABI = [
   'function isUserRegistered(address user) view returns (bool)',
 ]
 
-const RPC_URLS: Record<number, string> = {
-  5042002: 'https://arc-testnet.drpc.org',
-  84532: 'https://sepolia.base.org',
-}
-
 interface DecryptedNote {
   commitment: string
   balance: string
@@ -84,7 +80,7 @@ function Receive() {
       if (!address || !stealthKeys) return
 
       try {
-        const provider = new ethers.JsonRpcProvider(RPC_URLS[5042002], 5042002)
+        const provider = getChainProvider(5042002)
         // Check OLD registry first (where existing registrations are)
         const oldRegistry = new ethers.Contract(STEALTH_REGISTRY_OLD[5042002], STEALTH_REGISTRY_ABI, provider)
         let registered = await oldRegistry.isUserRegistered(address)
@@ -167,14 +163,13 @@ function Receive() {
       // Scan all supported chains
       for (const [chainIdStr, registryAddress] of Object.entries(STEALTH_REGISTRIES)) {
         const chainId = parseInt(chainIdStr)
-        const rpcUrl = RPC_URLS[chainId]
-        if (!rpcUrl) continue
+        if (getRpcUrls(chainId).length === 0) continue
 
         setScanStatus(`Scanning chain ${chainId}...`)
         console.log(`Scanning StealthRegistry on chain ${chainId}:`, registryAddress)
 
         try {
-          const provider = new ethers.JsonRpcProvider(rpcUrl, chainId)
+          const provider = getChainProvider(chainId)
           const registry = new ethers.Contract(registryAddress, STEALTH_REGISTRY_ABI, provider)
 
           // Get total announcement count
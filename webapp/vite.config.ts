@@ -20,6 +20,13 @@ export default defineConfig({
     alias: {
       '@': path.resolve(__dirname, './src'),
     },
+    // Modules shared from ../sdk/src must use the app's ethers, not a second copy
+    dedupe: ['ethers'],
+  },
+  server: {
+    fs: {
+      allow: ['..'],
+    },
   },
   define: {
     global: 'globalThis',